@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Payment from "./pages/Payment";
 import PaymentSuccess from "./pages/PaymentSuccess";
+import PaymentQr from "./pages/PaymentQr";
 import NotFound from "./pages/NotFound";
 import ScanRedirect from "./pages/ScanRedirect";
 import AdminPage from "./pages/AdminPage";
@@ -13,6 +14,7 @@ import LoginPage from "./pages/LoginPage";
 import BarPage from "./pages/BarPage";
 import RechargePage from "./pages/RechargePage";
 import RefundPage from "./pages/RefundPage";
+import CashierPage from "./pages/bar/cashier";
 import Unauthorized from "./pages/Unauthorized";
 import { AuthProvider } from "@/hooks/use-auth";
 import ProtectedRoute from "@/components/ProtectedRoute";
@@ -38,13 +40,14 @@ const App = () => {
               <Route path="/" element={<Index />} />
               <Route path="/payment/:id" element={<Payment />} />
               <Route path="/payment-success" element={<PaymentSuccess />} />
+              <Route path="/payment-qr" element={<PaymentQr />} />
               <Route path="/s/:id" element={<ScanRedirect />} />
               <Route path="/login" element={<LoginPage />} />
               <Route path="/refund" element={<RefundPage />} />
               <Route 
                 path="/bar" 
                 element={
-                  <ProtectedRoute requiredRoles={['bar', 'admin']}>
+                  <ProtectedRoute requiredPermissions={['access_bar']}>
                     <BarPage />
                   </ProtectedRoute>
                 } 
@@ -52,7 +55,7 @@ const App = () => {
               <Route 
                 path="/admin" 
                 element={
-                  <ProtectedRoute requiredRoles={['admin']}>
+                  <ProtectedRoute requiredPermissions={['access_admin']}>
                     <AdminPage />
                   </ProtectedRoute>
                 } 
@@ -60,11 +63,19 @@ const App = () => {
               <Route 
                 path="/recharge" 
                 element={
-                  <ProtectedRoute requiredRoles={['recharge', 'admin']}>
+                  <ProtectedRoute requiredPermissions={['access_recharge']}>
                     <RechargePage />
                   </ProtectedRoute>
                 } 
               />
+              <Route 
+                path="/cashier" 
+                element={
+                  <ProtectedRoute requiredPermissions={['access_recharge']}>
+                    <CashierPage />
+                  </ProtectedRoute>
+                } 
+              />
               <Route path="/unauthorized" element={<Unauthorized />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -3,6 +3,7 @@
  */
 
 import { createStripeCheckout, generateClientRequestId } from '@/lib/supabase';
+import { describeRechargeOfferError, RechargeOfferSelection } from '@/lib/recharge-offers';
 
 /**
  * Method to create a Stripe checkout session through the backend edge function
@@ -10,8 +11,9 @@ import { createStripeCheckout, generateClientRequestId } from '@/lib/supabase';
  * 
  * @param amount The amount to charge in euros
  * @param cardId The ID of the card to recharge
+ * @param offer Optional recharge package / promo code, credited as a bonus after payment
  */
-export const redirectToCheckout = async (amount: number, cardId: string) => {
+export const redirectToCheckout = async (amount: number, cardId: string, offer: RechargeOfferSelection = {}) => {
   try {
     console.log(`Creating checkout session for card ${cardId} with amount ${amount}`);
     
@@ -43,15 +45,30 @@ export const redirectToCheckout = async (amount: number, cardId: string) => {
       amount: amount,
       client_request_id: clientRequestId,
       success_url: successUrl,
-      cancel_url: cancelUrl
+      cancel_url: cancelUrl,
+      package_id: offer.packageId ?? undefined,
+      promo_code: offer.promoCode ?? undefined
     });
     
     console.log('[stripe-api] createStripeCheckout result:', result);
     
     if (!result.success) {
-      throw new Error(result.error || 'Failed to create checkout session');
+      throw new Error(describeRechargeOfferError(result.details?.error_code, result.error || 'Failed to create checkout session'));
     }
     
+    // QR providers have no hosted page: show the code on our own page
+    if (result.qr_payload && result.session_id) {
+      const params = new URLSearchParams({
+        card_id: cardId,
+        amount: String(amount),
+        session_id: result.session_id,
+        payload: result.qr_payload
+      });
+      console.log(`[stripe-api] Showing ${result.provider} QR code for session ${result.session_id}`);
+      window.location.href = `/payment-qr?${params.toString()}`;
+      return;
+    }
+
     if (!result.checkout_url) {
       throw new Error('No checkout URL returned from server');
     }
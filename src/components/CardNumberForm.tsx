@@ -3,7 +3,7 @@ import React, { useState } from 'react';
 import { useToast } from "@/components/ui/use-toast";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { getTableCardById } from "@/lib/supabase";
+import { lookupCard } from "@/lib/card-access";
 import { useNavigate } from "react-router-dom";
 import { Loader2 } from "lucide-react";
 
@@ -29,10 +29,10 @@ const CardNumberForm: React.FC = () => {
     console.log(`Vérification de la carte: ${cardId.trim()}`);
 
     try {
-      const card = await getTableCardById(cardId.trim());
-      console.log('Résultat de la recherche:', card);
+      const result = await lookupCard(cardId.trim());
+      console.log('Résultat de la recherche:', result.success ? 'trouvée' : result.error_code);
       
-      if (!card) {
+      if (result.error_code === 'CARD_NOT_FOUND') {
         toast({
           title: "Carte non trouvée",
           description: "Cet ID de carte n'existe pas dans notre système. Veuillez vérifier l'ID et réessayer.",
@@ -42,8 +42,18 @@ const CardNumberForm: React.FC = () => {
         return;
       }
 
-      // Si nous avons trouvé la carte, redirigez vers la page de paiement
-      navigate(`/payment/${card.id}`);
+      if (!result.success && result.error_code !== 'SECRET_REQUIRED') {
+        toast({
+          title: "Erreur",
+          description: result.error,
+          variant: "destructive",
+        });
+        setIsLoading(false);
+        return;
+      }
+
+      // Carte trouvée : la page de paiement demandera son code si elle est protégée
+      navigate(`/payment/${result.card?.id ?? cardId.trim()}`);
     } catch (error) {
       console.error('Error checking card:', error);
       toast({
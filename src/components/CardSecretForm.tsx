@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, KeyRound } from "lucide-react";
+
+interface CardSecretFormProps {
+  cardId: string;
+  error?: string | null;
+  onSubmit: (secret: string) => Promise<void> | void;
+}
+
+// Asks for the code printed on a protected card before showing its balance
+const CardSecretForm: React.FC<CardSecretFormProps> = ({ cardId, error, onSubmit }) => {
+  const [secret, setSecret] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secret.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(secret.trim());
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full space-y-4">
+      <p>Carte <span className="font-mono">{cardId}</span></p>
+      <p className="text-sm text-white/80">
+        Cette carte est protégée. Entrez le code imprimé sur votre carte ou scannez son QR code.
+      </p>
+      <Input
+        value={secret}
+        onChange={(e) => setSecret(e.target.value.toUpperCase())}
+        placeholder="Code de la carte"
+        autoComplete="off"
+        autoCapitalize="characters"
+        maxLength={12}
+        className="bg-white/80 border-amber-200 placeholder:text-amber-800/50 text-black text-center font-mono tracking-widest"
+        disabled={isSubmitting}
+      />
+      {error && <p className="text-sm text-red-200">{error}</p>}
+      <Button
+        type="submit"
+        className="w-full bg-white text-amber-800 hover:bg-amber-50"
+        disabled={isSubmitting || !secret.trim()}
+      >
+        {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <KeyRound className="h-4 w-4 mr-2" />}
+        Valider
+      </Button>
+    </form>
+  );
+};
+
+export default CardSecretForm;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, History, Download, FileText } from "lucide-react";
+import {
+  CardHistory,
+  getCardHistory,
+  downloadStatementCsv,
+  printStatement,
+} from '@/lib/card-history';
+
+interface CardStatementProps {
+  cardId: string;
+  secret?: string;
+}
+
+// Where the money went: card timeline shown on the public payment page
+const CardStatement: React.FC<CardStatementProps> = ({ cardId, secret }) => {
+  const [history, setHistory] = useState<CardHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Loaded on demand: the endpoint is rate limited per visitor
+  const loadHistory = async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await getCardHistory(cardId, secret);
+    if (result.success && result.history) {
+      setHistory(result.history);
+    } else {
+      setError(result.error || "Impossible de charger l'historique");
+    }
+    setIsLoading(false);
+  };
+
+  const handlePrint = () => {
+    if (history && !printStatement(history)) {
+      toast({
+        title: "Impression bloquée",
+        description: "Autorisez les fenêtres pop-up pour télécharger le relevé en PDF",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (!history) {
+    return (
+      <div className="space-y-2">
+        <Button
+          variant="outline"
+          className="w-full bg-transparent text-white border-white hover:bg-white/10"
+          onClick={loadHistory}
+          disabled={isLoading}
+        >
+          {isLoading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <History className="h-4 w-4 mr-2" />}
+          Voir l'historique de ma carte
+        </Button>
+        {error && <p className="text-sm text-red-200">{error}</p>}
+      </div>
+    );
+  }
+
+  const transactions = [...history.transactions].reverse();
+
+  return (
+    <div className="text-left space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Historique</h3>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" className="bg-transparent text-white border-white hover:bg-white/10"
+            onClick={() => downloadStatementCsv(history)}>
+            <Download className="h-3 w-3 mr-1" />
+            CSV
+          </Button>
+          <Button size="sm" variant="outline" className="bg-transparent text-white border-white hover:bg-white/10"
+            onClick={handlePrint}>
+            <FileText className="h-3 w-3 mr-1" />
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center text-xs">
+        <div className="bg-white/10 rounded p-2">
+          <div className="text-white/70">Rechargé</div>
+          <div className="font-semibold">{history.totals.recharged.toFixed(2)}€</div>
+        </div>
+        <div className="bg-white/10 rounded p-2">
+          <div className="text-white/70">Dépensé</div>
+          <div className="font-semibold">{history.totals.spent.toFixed(2)}€</div>
+        </div>
+        <div className="bg-white/10 rounded p-2">
+          <div className="text-white/70">Remboursé</div>
+          <div className="font-semibold">{history.totals.refunded.toFixed(2)}€</div>
+        </div>
+      </div>
+
+      {transactions.length === 0 ? (
+        <p className="text-sm text-white/70 text-center py-4">Aucune opération sur cette carte</p>
+      ) : (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-white/10 bg-white/5 rounded">
+          {transactions.map(entry => (
+            <li key={entry.id} className="p-2 text-sm">
+              <div className="flex justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium">{entry.description}</div>
+                  <div className="text-xs text-white/60">
+                    {new Date(entry.occurred_at).toLocaleString('fr-BE', { timeZone: 'Europe/Brussels' })}
+                  </div>
+                  {entry.items && entry.items.length > 0 && (
+                    <div className="text-xs text-white/70 mt-1">
+                      {entry.items.map(item => `${item.quantity}× ${item.product_name}`).join(', ')}
+                    </div>
+                  )}
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <div className={`font-mono ${entry.amount > 0 ? 'text-green-300' : entry.amount < 0 ? 'text-red-200' : 'text-white/70'}`}>
+                    {entry.amount > 0 ? '+' : ''}{entry.amount.toFixed(2)}€
+                  </div>
+                  <div className="text-xs text-white/60 font-mono">Solde {entry.balance_after.toFixed(2)}€</div>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CardStatement;
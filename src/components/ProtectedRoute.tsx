@@ -2,16 +2,16 @@
 import React, { useEffect } from 'react';
 import { Navigate, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/use-auth';
-
-type Role = 'admin' | 'bar' | 'recharge';
+import { PermissionName } from '@/config/security';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRoles: Role[];
+  // L'une de ces permissions suffit pour accéder à la page
+  requiredPermissions: PermissionName[];
 }
 
-const ProtectedRoute = ({ children, requiredRoles }: ProtectedRouteProps) => {
-  const { user, isLoading, hasAccess, role, isLoggedIn } = useAuth();
+const ProtectedRoute = ({ children, requiredPermissions }: ProtectedRouteProps) => {
+  const { user, isLoading, hasAccess, role, isLoggedIn, twoFactorStep } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -34,13 +34,18 @@ const ProtectedRoute = ({ children, requiredRoles }: ProtectedRouteProps) => {
     return <Navigate to="/login" replace />;
   }
 
-  if (!hasAccess(requiredRoles)) {
-    console.log(`Accès refusé: utilisateur avec rôle ${role} essaie d'accéder à une page nécessitant les rôles:`, requiredRoles);
-    // Rediriger vers une page d'erreur si l'utilisateur n'a pas le rôle requis
+  if (twoFactorStep) {
+    // La double authentification se termine sur la page de connexion
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!hasAccess(requiredPermissions)) {
+    console.log(`Accès refusé: utilisateur avec rôle ${role} essaie d'accéder à une page nécessitant les permissions:`, requiredPermissions);
+    // Rediriger vers une page d'erreur si le rôle de l'utilisateur n'a pas la permission requise
     return <Navigate to="/unauthorized" replace />;
   }
 
-  // Si l'utilisateur est authentifié et a le rôle requis, afficher le contenu
+  // Si l'utilisateur est authentifié et a la permission requise, afficher le contenu
   console.log(`Accès autorisé: utilisateur avec rôle ${role} accède à la page`);
   return <>{children}</>;
 };
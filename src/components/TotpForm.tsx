@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { enrollTotp, verifyTotp, TotpEnrollment, TOTP_CODE_LENGTH } from "@/lib/two-factor";
+
+interface TotpFormProps {
+  // enroll: scan a new authenticator app first; verify: enter a code only
+  mode: 'enroll' | 'verify';
+  onVerified: () => void;
+  submitLabel?: string;
+}
+
+// Asks for the 6-digit code of the authenticator app, enrolling one if needed
+const TotpForm: React.FC<TotpFormProps> = ({ mode, onVerified, submitLabel = "Valider" }) => {
+  const [code, setCode] = useState("");
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [isPreparing, setIsPreparing] = useState(mode === 'enroll');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (mode !== 'enroll') return;
+
+    let cancelled = false;
+    setIsPreparing(true);
+    enrollTotp().then(result => {
+      if (cancelled) return;
+      if (result.success && result.data) {
+        setEnrollment(result.data);
+      } else {
+        setError(result.error || "Impossible de configurer l'application d'authentification");
+      }
+      setIsPreparing(false);
+    });
+
+    return () => { cancelled = true; };
+  }, [mode]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length !== TOTP_CODE_LENGTH) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    const result = await verifyTotp(code, enrollment?.factorId);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      onVerified();
+    } else {
+      setCode("");
+      setError(result.error || "Code invalide");
+    }
+  };
+
+  if (isPreparing) {
+    return (
+      <div className="flex justify-center p-6">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full space-y-4">
+      {mode === 'enroll' && enrollment && (
+        <div className="space-y-2 text-center">
+          <p className="text-sm text-gray-600">
+            Scannez ce QR code avec votre application d'authentification (Google Authenticator, Authy, 1Password…), puis entrez le code affiché.
+          </p>
+          <img src={enrollment.qrCode} alt="QR code de l'application d'authentification" className="mx-auto h-40 w-40" />
+          <p className="text-xs text-gray-500">
+            Ou saisissez la clé : <span className="font-mono break-all">{enrollment.secret}</span>
+          </p>
+        </div>
+      )}
+      {mode === 'verify' && (
+        <p className="text-sm text-gray-600 text-center">
+          Entrez le code à 6 chiffres de votre application d'authentification.
+        </p>
+      )}
+      <div className="flex justify-center">
+        <InputOTP
+          maxLength={TOTP_CODE_LENGTH}
+          value={code}
+          onChange={setCode}
+          disabled={isSubmitting || (mode === 'enroll' && !enrollment)}
+          autoFocus
+        >
+          <InputOTPGroup>
+            {Array.from({ length: TOTP_CODE_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isSubmitting || code.length !== TOTP_CODE_LENGTH}
+      >
+        {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+};
+
+export default TotpForm;
@@ -0,0 +1,323 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Loader2, Search, Download, ShieldCheck, Archive } from "lucide-react";
+import { AuditCategory, AuditLogEntry, RiskLevel } from "@/lib/audit-logger";
+import {
+  AUDIT_PAGE_SIZE,
+  AuditLogSearch,
+  CATEGORY_LABELS,
+  RISK_LEVEL_LABELS,
+  applyAuditRetention,
+  exportAuditLogs,
+  searchAuditLogs,
+  verifyAuditLogIntegrity,
+} from "@/lib/audit-logs";
+
+const ALL = 'all';
+
+const RISK_BADGE_CLASSES: Record<RiskLevel, string> = {
+  [RiskLevel.LOW]: 'bg-gray-500',
+  [RiskLevel.MEDIUM]: 'bg-amber-500',
+  [RiskLevel.HIGH]: 'bg-orange-600',
+  [RiskLevel.CRITICAL]: 'bg-red-600',
+};
+
+const formatDate = (isoDate: string) =>
+  new Date(isoDate).toLocaleString('fr-BE', { dateStyle: 'short', timeStyle: 'medium' });
+
+// Audit trail search, export and integrity check
+const AuditLogViewer: React.FC = () => {
+  const [filters, setFilters] = useState<AuditLogSearch>({});
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isApplyingRetention, setIsApplyingRetention] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { hasAccess } = useAuth();
+  const canReadLogs = hasAccess(['access_audit_logs']);
+  const canMaintainLogs = hasAccess(['maintain_audit_logs']);
+
+  const showError = useCallback((description: string | undefined) => {
+    toast({
+      title: "Erreur",
+      description: description || "Une erreur est survenue",
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const updateFilters = (changes: Partial<AuditLogSearch>) => {
+    setFilters(current => ({ ...current, ...changes }));
+  };
+
+  const fetchEntries = useCallback(async (search: AuditLogSearch, offset: number) => {
+    setIsLoading(true);
+    const result = await searchAuditLogs({ ...search, offset });
+    setIsLoading(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+    setEntries(current => (offset === 0 ? result.data! : [...current, ...result.data!]));
+    setHasMore(result.data!.length === AUDIT_PAGE_SIZE);
+  }, [showError]);
+
+  const loadEntries = (offset = 0) => fetchEntries(filters, offset);
+
+  // First page without filters; later searches are submitted from the form
+  useEffect(() => {
+    if (canReadLogs) fetchEntries({}, 0);
+  }, [canReadLogs, fetchEntries]);
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    const file = await exportAuditLogs(entries, format);
+    const blob = new Blob([file.content], { type: file.mimeType });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    const result = await verifyAuditLogIntegrity();
+    setIsVerifying(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    const verification = result.data!;
+    if (verification.valid) {
+      toast({
+        title: "Journal intègre",
+        description: `${verification.checked} entrée(s) vérifiée(s), aucune altération détectée`,
+      });
+    } else {
+      toast({
+        title: "Altération détectée",
+        description: `La chaîne est rompue à l'entrée n°${verification.brokenSeq} (${verification.reason})`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRetention = async () => {
+    setIsApplyingRetention(true);
+    const result = await applyAuditRetention();
+    setIsApplyingRetention(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+    toast({
+      title: "Conservation appliquée",
+      description: `${result.data!.archived} entrée(s) archivée(s), ${result.data!.purged} entrée(s) expirée(s) anonymisée(s)`,
+    });
+    loadEntries();
+  };
+
+  if (!canReadLogs) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center text-gray-600">
+            Vous n'avez pas les permissions nécessaires pour accéder à cette section.
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Journal d'audit</h2>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleVerify} disabled={isVerifying}>
+            {isVerifying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+            Vérifier l'intégrité
+          </Button>
+          {canMaintainLogs && (
+            <Button variant="outline" onClick={handleRetention} disabled={isApplyingRetention}>
+              {isApplyingRetention ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Archive className="h-4 w-4 mr-2" />}
+              Appliquer la conservation
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <form
+            className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-3 items-end"
+            onSubmit={(event) => { event.preventDefault(); loadEntries(); }}
+          >
+            <div className="space-y-1">
+              <Label>Catégorie</Label>
+              <Select
+                value={filters.category ?? ALL}
+                onValueChange={(value) => updateFilters({ category: value === ALL ? undefined : value as AuditCategory })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Toutes</SelectItem>
+                  {Object.values(AuditCategory).map(category => (
+                    <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Risque</Label>
+              <Select
+                value={filters.riskLevel ?? ALL}
+                onValueChange={(value) => updateFilters({ riskLevel: value === ALL ? undefined : value as RiskLevel })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Tous</SelectItem>
+                  {Object.values(RiskLevel).map(level => (
+                    <SelectItem key={level} value={level}>{RISK_LEVEL_LABELS[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-user">Utilisateur (ID)</Label>
+              <Input
+                id="audit-user"
+                value={filters.userId ?? ''}
+                onChange={(event) => updateFilters({ userId: event.target.value })}
+                placeholder="UUID"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-from">Du</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={filters.from ?? ''}
+                onChange={(event) => updateFilters({ from: event.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="audit-to">Au</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={filters.to ?? ''}
+                onChange={(event) => updateFilters({ to: event.target.value || undefined })}
+              />
+            </div>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+              Rechercher
+            </Button>
+            <div className="flex items-center gap-2 md:col-span-3 lg:col-span-6">
+              <Checkbox
+                id="audit-archived"
+                checked={filters.includeArchived ?? false}
+                onCheckedChange={(checked) => updateFilters({ includeArchived: checked === true })}
+              />
+              <Label htmlFor="audit-archived">Inclure les entrées archivées</Label>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">{entries.length} entrée(s)</p>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => handleExport('csv')} disabled={entries.length === 0}>
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handleExport('json')} disabled={entries.length === 0}>
+            <Download className="h-4 w-4 mr-1" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {entries.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">Aucune entrée ne correspond aux filtres.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left">
+                <tr>
+                  <th className="p-2">Date</th>
+                  <th className="p-2">Catégorie</th>
+                  <th className="p-2">Risque</th>
+                  <th className="p-2">Action</th>
+                  <th className="p-2">Ressource</th>
+                  <th className="p-2">Utilisateur</th>
+                  <th className="p-2">Résultat</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {entries.map(entry => (
+                  <React.Fragment key={entry.id}>
+                    <tr
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                    >
+                      <td className="p-2 whitespace-nowrap">{formatDate(entry.timestamp)}</td>
+                      <td className="p-2">{CATEGORY_LABELS[entry.category] ?? entry.category}</td>
+                      <td className="p-2">
+                        <Badge className={RISK_BADGE_CLASSES[entry.riskLevel]}>{RISK_LEVEL_LABELS[entry.riskLevel]}</Badge>
+                      </td>
+                      <td className="p-2 font-mono text-xs">{entry.action}</td>
+                      <td className="p-2">{entry.resource}{entry.resourceId ? ` #${entry.resourceId}` : ''}</td>
+                      <td className="p-2 font-mono text-xs">{entry.userId ?? '—'}</td>
+                      <td className="p-2">{entry.result}</td>
+                    </tr>
+                    {expandedId === entry.id && (
+                      <tr>
+                        <td colSpan={7} className="p-2 bg-gray-50">
+                          <pre className="text-xs whitespace-pre-wrap break-all">{JSON.stringify(entry, null, 2)}</pre>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => loadEntries(entries.length)} disabled={isLoading}>
+            Charger plus
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Search, Ban, CheckCircle, HelpCircle, ArrowRightLeft } from "lucide-react";
+import { generateClientRequestId } from "@/lib/supabase";
+import {
+  CardLifecycle,
+  CardStatus,
+  CARD_STATUS_LABELS,
+  getCardLifecycle,
+  setCardStatus,
+  replaceCard,
+  getAllowedTransitions,
+  canReplaceCard,
+  describeLifecycleEvent,
+} from "@/lib/card-lifecycle";
+
+const STATUS_BADGE_CLASSES: Record<CardStatus, string> = {
+  active: 'bg-green-600',
+  blocked: 'bg-red-600',
+  lost: 'bg-amber-600',
+  retired: 'bg-gray-500',
+};
+
+const STATUS_ACTIONS: Partial<Record<CardStatus, { label: string; icon: React.ReactNode }>> = {
+  active: { label: 'Débloquer', icon: <CheckCircle className="h-4 w-4 mr-2" /> },
+  blocked: { label: 'Bloquer', icon: <Ban className="h-4 w-4 mr-2" /> },
+  lost: { label: 'Déclarer perdue', icon: <HelpCircle className="h-4 w-4 mr-2" /> },
+};
+
+// Admin tool to block, unblock, replace or merge a card and review its lifecycle
+const CardLifecycleManager: React.FC = () => {
+  const [cardId, setCardId] = useState('');
+  const [lifecycle, setLifecycle] = useState<CardLifecycle | null>(null);
+  const [reason, setReason] = useState('');
+  const [newCardId, setNewCardId] = useState('');
+  const [replacementRequestId, setReplacementRequestId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const showError = (description: string | undefined) => {
+    toast({
+      title: "Erreur",
+      description: description || "Une erreur est survenue",
+      variant: "destructive"
+    });
+  };
+
+  const load = async (id: string) => {
+    setIsLoading(true);
+    const result = await getCardLifecycle(id);
+    setIsLoading(false);
+
+    if (!result.success) {
+      setLifecycle(null);
+      showError(result.error);
+      return;
+    }
+    setLifecycle(result.data!);
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cardId.trim()) return;
+    setReason('');
+    setNewCardId('');
+    setReplacementRequestId(null);
+    await load(cardId);
+  };
+
+  const handleStatus = async (status: CardStatus) => {
+    if (!lifecycle) return;
+
+    setIsLoading(true);
+    const result = await setCardStatus(lifecycle.card.id, status, reason);
+    setIsLoading(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    toast({
+      title: "Statut mis à jour",
+      description: `La carte ${lifecycle.card.id} est maintenant « ${CARD_STATUS_LABELS[status]} ».`
+    });
+    setReason('');
+    await load(lifecycle.card.id);
+  };
+
+  const handleReplace = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lifecycle || !newCardId.trim() || !reason.trim()) return;
+    if (!window.confirm(
+      `Transférer le solde et l'historique de la carte ${lifecycle.card.id} vers la carte ${newCardId.trim()} ? L'ancienne carte sera retirée définitivement.`
+    )) {
+      return;
+    }
+
+    // Reuse the same id when retrying after a network error
+    const clientRequestId = replacementRequestId ?? generateClientRequestId();
+    setReplacementRequestId(clientRequestId);
+
+    setIsLoading(true);
+    const result = await replaceCard(lifecycle.card.id, newCardId, reason, clientRequestId);
+    setIsLoading(false);
+
+    if (!result.success) {
+      if (result.error_code) setReplacementRequestId(null);
+      showError(result.error);
+      return;
+    }
+
+    const replacement = result.data!;
+    toast({
+      title: replacement.merged ? "Cartes fusionnées" : "Carte remplacée",
+      description: `${Number(replacement.moved_amount).toFixed(2)}€ transférés vers ${replacement.new_card_id}. Nouveau solde : ${Number(replacement.new_balance).toFixed(2)}€`
+    });
+    setReason('');
+    setNewCardId('');
+    setReplacementRequestId(null);
+    await load(lifecycle.card.id);
+  };
+
+  const card = lifecycle?.card;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Statut et remplacement</h2>
+        <form onSubmit={handleSearch} className="flex items-center gap-2">
+          <Input
+            value={cardId}
+            onChange={(e) => setCardId(e.target.value)}
+            placeholder="ID de carte"
+            className="w-64"
+          />
+          <Button type="submit" disabled={isLoading || !cardId.trim()}>
+            {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+            Rechercher
+          </Button>
+        </form>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          {!card ? (
+            <div className="text-center text-gray-500 p-6">
+              Recherchez une carte pour la bloquer, la débloquer, la remplacer ou la fusionner.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-mono text-lg">{card.id}</div>
+                  <div className="text-sm text-gray-500">
+                    Solde : {Number(card.amount ?? 0).toFixed(2)}€
+                    {card.replaced_by && ` · remplacée par ${card.replaced_by}`}
+                    {card.status_reason && ` · ${card.status_reason}`}
+                  </div>
+                </div>
+                <Badge className={STATUS_BADGE_CLASSES[card.status]}>
+                  {CARD_STATUS_LABELS[card.status]}
+                </Badge>
+              </div>
+
+              {card.status !== 'retired' && (
+                <Input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Motif (obligatoire pour un remplacement)"
+                  maxLength={200}
+                />
+              )}
+
+              <div className="flex gap-2 flex-wrap">
+                {getAllowedTransitions(card.status).filter(status => STATUS_ACTIONS[status]).map(status => (
+                  <Button
+                    key={status}
+                    variant={status === 'active' ? 'default' : 'outline'}
+                    onClick={() => handleStatus(status)}
+                    disabled={isLoading}
+                  >
+                    {STATUS_ACTIONS[status]!.icon}
+                    {STATUS_ACTIONS[status]!.label}
+                  </Button>
+                ))}
+              </div>
+
+              {canReplaceCard(card.status) && (
+                <form onSubmit={handleReplace} className="rounded-md border p-4 space-y-2">
+                  <div className="text-sm text-gray-600">
+                    Remplacer par une nouvelle carte, ou fusionner dans une carte active existante.
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      value={newCardId}
+                      onChange={(e) => setNewCardId(e.target.value)}
+                      placeholder="ID de la nouvelle carte"
+                      className="w-64"
+                    />
+                    <Button type="submit" disabled={isLoading || !newCardId.trim() || !reason.trim()}>
+                      <ArrowRightLeft className="h-4 w-4 mr-2" />
+                      Transférer
+                    </Button>
+                  </div>
+                </form>
+              )}
+
+              <div>
+                <h3 className="font-medium mb-2">Historique</h3>
+                {lifecycle!.events.length === 0 ? (
+                  <div className="text-sm text-gray-500">Aucun changement enregistré.</div>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {lifecycle!.events.map(event => (
+                      <li key={event.id} className="flex justify-between gap-4">
+                        <span>
+                          {describeLifecycleEvent(event)}
+                          {event.reason && <span className="text-gray-500"> — {event.reason}</span>}
+                        </span>
+                        <span className="text-gray-500 whitespace-nowrap">
+                          {new Date(event.created_at).toLocaleString('fr-BE', { timeZone: 'Europe/Brussels' })}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CardLifecycleManager;
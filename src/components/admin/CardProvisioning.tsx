@@ -0,0 +1,267 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useNfc } from "@/hooks/use-nfc";
+import { Loader2, PlusSquare, Printer, Nfc, CheckCheck, Square, ListRestart } from "lucide-react";
+import {
+  ProvisionedCard,
+  TagEncodingMode,
+  TagEncodingProgress,
+  TagEncodingReport,
+  buildCardIdRange,
+  provisionCards,
+  printQrSheet,
+  encodeTags,
+} from "@/lib/card-provisioning";
+
+// Admin batch tool to register card ranges, print their QR codes and encode NFC tags
+const CardProvisioning: React.FC = () => {
+  const [prefix, setPrefix] = useState('');
+  const [start, setStart] = useState('1');
+  const [count, setCount] = useState('100');
+  const [description, setDescription] = useState('');
+  const [issueSecrets, setIssueSecrets] = useState(true);
+  const [cards, setCards] = useState<ProvisionedCard[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<TagEncodingProgress | null>(null);
+  const [report, setReport] = useState<TagEncodingReport | null>(null);
+  const [encodingMode, setEncodingMode] = useState<TagEncodingMode | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { isSupported, writeTag, readTag } = useNfc();
+  const { toast } = useToast();
+
+  const range = useMemo(
+    () => buildCardIdRange({ prefix, start: Number(start), count: Number(count) }),
+    [prefix, start, count]
+  );
+
+  const showError = (description: string | undefined) => {
+    toast({
+      title: "Erreur",
+      description: description || "Une erreur est survenue",
+      variant: "destructive"
+    });
+  };
+
+  const handleProvision = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (range.error || range.ids.length === 0) return;
+    if (!window.confirm(
+      `Enregistrer ${range.ids.length} cartes de ${range.ids[0]} à ${range.ids[range.ids.length - 1]} ?`
+    )) {
+      return;
+    }
+
+    setIsLoading(true);
+    const result = await provisionCards(range.ids, { description, issueSecrets });
+    setIsLoading(false);
+
+    if (!result.success) {
+      const clashes = result.existing_ids?.length
+        ? ` (${result.existing_ids.slice(0, 5).join(', ')}${result.existing_ids.length > 5 ? '…' : ''})`
+        : '';
+      showError(`${result.error}${clashes}`);
+      return;
+    }
+
+    setCards(result.cards!);
+    setReport(null);
+    toast({
+      title: "Cartes enregistrées",
+      description: issueSecrets
+        ? `${result.cards!.length} cartes créées. Imprimez la feuille maintenant : les codes ne seront plus affichés.`
+        : `${result.cards!.length} cartes créées.`
+    });
+  };
+
+  // Existing cards can be reprinted or encoded again, without their codes
+  const handleLoadExisting = () => {
+    if (range.error) return;
+    setCards(range.ids.map(id => ({ id })));
+    setReport(null);
+  };
+
+  const handlePrint = async () => {
+    const title = `Cartes ${cards[0].id} – ${cards[cards.length - 1].id}`;
+    if (!await printQrSheet(cards, window.location.origin, title)) {
+      showError("Autorisez les fenêtres pop-up pour imprimer la feuille");
+    }
+  };
+
+  const runEncoding = async (mode: TagEncodingMode, targets: ProvisionedCard[]) => {
+    abortRef.current = new AbortController();
+    setEncodingMode(mode);
+    setReport(null);
+
+    const result = await encodeTags(targets, mode, { writeTag, readTag }, window.location.origin, {
+      signal: abortRef.current.signal,
+      onProgress: setProgress,
+    });
+
+    abortRef.current = null;
+    setEncodingMode(null);
+    setReport(result);
+    toast({
+      title: mode === 'write' ? "Encodage terminé" : "Vérification terminée",
+      description: `${result.succeeded.length} réussi(s), ${result.failed.length} échec(s)${result.aborted ? ' — interrompu' : ''}`,
+      variant: result.failed.length > 0 ? "destructive" : undefined
+    });
+  };
+
+  const handleRetryFailed = () => {
+    if (!report) return;
+    const failedIds = new Set(report.failed.map(failure => failure.id));
+    runEncoding('write', cards.filter(card => failedIds.has(card.id)));
+  };
+
+  const isEncoding = encodingMode !== null;
+
+  return (
+    <div className="space-y-5">
+      <h2 className="text-xl font-semibold">Enregistrement de cartes</h2>
+
+      <Card>
+        <CardContent className="p-4">
+          <form onSubmit={handleProvision} className="space-y-4">
+            <div className="grid grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="provision-prefix">Préfixe</Label>
+                <Input
+                  id="provision-prefix"
+                  value={prefix}
+                  onChange={(e) => setPrefix(e.target.value.toUpperCase())}
+                  placeholder="ex. FA25"
+                  maxLength={7}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="provision-start">Premier numéro</Label>
+                <Input id="provision-start" type="number" min={0} value={start} onChange={(e) => setStart(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="provision-count">Nombre de cartes</Label>
+                <Input id="provision-count" type="number" min={1} value={count} onChange={(e) => setCount(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="provision-description">Description</Label>
+                <Input
+                  id="provision-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="ex. Édition 2025 – lot 1"
+                  maxLength={200}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="provision-secrets" checked={issueSecrets} onCheckedChange={setIssueSecrets} />
+              <Label htmlFor="provision-secrets">Protéger chaque carte par un code imprimé</Label>
+            </div>
+
+            <div className="text-sm text-gray-500">
+              {range.error
+                ? <span className="text-red-600">{range.error}</span>
+                : `${range.ids.length} cartes : ${range.ids[0]} → ${range.ids[range.ids.length - 1]}`}
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isLoading || isEncoding || !!range.error}>
+                {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PlusSquare className="h-4 w-4 mr-2" />}
+                Enregistrer les cartes
+              </Button>
+              <Button type="button" variant="outline" onClick={handleLoadExisting} disabled={isLoading || isEncoding || !!range.error}>
+                Utiliser des cartes existantes
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {cards.length > 0 && (
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="font-medium">
+                {cards.length} cartes ({cards[0].id} → {cards[cards.length - 1].id})
+              </div>
+              <Button variant="outline" onClick={handlePrint} disabled={isEncoding}>
+                <Printer className="h-4 w-4 mr-2" />
+                Imprimer les QR codes
+              </Button>
+            </div>
+
+            {isSupported === false ? (
+              <p className="text-sm text-gray-500">
+                L'encodage NFC nécessite Chrome sur Android en HTTPS.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <Button onClick={() => runEncoding('write', cards)} disabled={isEncoding}>
+                    <Nfc className="h-4 w-4 mr-2" />
+                    Encoder les tags
+                  </Button>
+                  <Button variant="outline" onClick={() => runEncoding('verify', cards)} disabled={isEncoding}>
+                    <CheckCheck className="h-4 w-4 mr-2" />
+                    Vérifier les tags
+                  </Button>
+                  {isEncoding && (
+                    <Button variant="destructive" onClick={() => abortRef.current?.abort()}>
+                      <Square className="h-4 w-4 mr-2" />
+                      Arrêter
+                    </Button>
+                  )}
+                </div>
+
+                {isEncoding && progress && (
+                  <div className="space-y-2">
+                    <Progress value={(progress.done / progress.total) * 100} />
+                    <div className="text-sm">
+                      {progress.current
+                        ? <>Approchez le tag de la carte <span className="font-mono font-semibold">{progress.current}</span></>
+                        : 'Terminé'}
+                      <span className="text-gray-500"> — {progress.done}/{progress.total}, {progress.failed} échec(s)</span>
+                    </div>
+                  </div>
+                )}
+
+                {report && (
+                  <div className="space-y-2">
+                    <div className="text-sm">
+                      {report.succeeded.length} réussi(s), {report.failed.length} échec(s)
+                      {report.aborted && ' — interrompu'}
+                    </div>
+                    {report.failed.length > 0 && (
+                      <>
+                        <ul className="text-sm max-h-48 overflow-y-auto border rounded-md divide-y">
+                          {report.failed.map(failure => (
+                            <li key={failure.id} className="flex justify-between px-3 py-1">
+                              <span className="font-mono">{failure.id}</span>
+                              <span className="text-red-600">{failure.error}</span>
+                            </li>
+                          ))}
+                        </ul>
+                        <Button variant="outline" size="sm" onClick={handleRetryFailed}>
+                          <ListRestart className="h-4 w-4 mr-2" />
+                          Réencoder les échecs
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default CardProvisioning;
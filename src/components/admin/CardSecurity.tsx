@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Search, KeyRound, Printer, ShieldOff } from "lucide-react";
+import {
+  CardSecretStatus,
+  getCardSecretStatus,
+  issueCardSecret,
+  revokeCardSecret,
+  buildCardAccessUrl,
+  printCardLabel,
+} from "@/lib/card-access";
+
+// Admin tool to issue, reprint and revoke the printed code protecting a card
+const CardSecurity: React.FC = () => {
+  const [cardId, setCardId] = useState('');
+  const [status, setStatus] = useState<CardSecretStatus | null>(null);
+  const [issuedSecret, setIssuedSecret] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const showError = (description: string | undefined) => {
+    toast({
+      title: "Erreur",
+      description: description || "Une erreur est survenue",
+      variant: "destructive"
+    });
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cardId.trim()) return;
+
+    setIsLoading(true);
+    setIssuedSecret(null);
+    const result = await getCardSecretStatus(cardId);
+    setIsLoading(false);
+
+    if (!result.success) {
+      setStatus(null);
+      showError(result.error_code === 'CARD_NOT_FOUND' ? "Carte non trouvée" : result.error);
+      return;
+    }
+    setStatus(result.data!);
+  };
+
+  const handleIssue = async () => {
+    if (!status) return;
+    if (status.protected && !window.confirm(
+      `Générer un nouveau code pour la carte ${status.card_id} ? L'ancien code imprimé ne fonctionnera plus.`
+    )) {
+      return;
+    }
+
+    setIsLoading(true);
+    const result = await issueCardSecret(status.card_id);
+    setIsLoading(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    setStatus(result.data!);
+    setIssuedSecret(result.data!.secret ?? null);
+    toast({
+      title: result.data!.reissued ? "Nouveau code généré" : "Carte protégée",
+      description: "Imprimez le code maintenant : il ne sera plus affiché ensuite."
+    });
+  };
+
+  const handleRevoke = async () => {
+    if (!status || !window.confirm(
+      `Retirer la protection de la carte ${status.card_id} ? Son numéro suffira à nouveau pour consulter le solde.`
+    )) {
+      return;
+    }
+
+    setIsLoading(true);
+    const result = await revokeCardSecret(status.card_id);
+    setIsLoading(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    setStatus(result.data!);
+    setIssuedSecret(null);
+    toast({ title: "Protection retirée", description: `La carte ${status.card_id} n'a plus de code.` });
+  };
+
+  const handlePrint = () => {
+    if (status && issuedSecret && !printCardLabel(status.card_id, issuedSecret, window.location.origin)) {
+      showError("Autorisez les fenêtres pop-up pour imprimer l'étiquette");
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Codes des cartes</h2>
+        <form onSubmit={handleSearch} className="flex items-center gap-2">
+          <Input
+            value={cardId}
+            onChange={(e) => setCardId(e.target.value)}
+            placeholder="ID de carte"
+            className="w-64"
+          />
+          <Button type="submit" disabled={isLoading || !cardId.trim()}>
+            {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+            Rechercher
+          </Button>
+        </form>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          {!status ? (
+            <div className="text-center text-gray-500 p-6">
+              Recherchez une carte pour générer, réimprimer ou retirer son code d'accès.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-mono text-lg">{status.card_id}</div>
+                  <div className="text-sm text-gray-500">
+                    {status.protected && status.issued_at
+                      ? `Code émis le ${new Date(status.issued_at).toLocaleString('fr-BE', { timeZone: 'Europe/Brussels' })}`
+                      : "Accessible avec le seul numéro de carte"}
+                  </div>
+                </div>
+                <Badge className={status.protected ? 'bg-green-600' : 'bg-gray-500'}>
+                  {status.protected ? 'Protégée' : 'Non protégée'}
+                </Badge>
+              </div>
+
+              {issuedSecret && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 p-4 space-y-2">
+                  <div className="text-sm text-gray-600">Code à imprimer (affiché une seule fois)</div>
+                  <div className="font-mono text-3xl tracking-widest">{issuedSecret}</div>
+                  <div className="text-xs text-gray-500 break-all">
+                    {buildCardAccessUrl(status.card_id, issuedSecret, window.location.origin)}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={handlePrint}>
+                    <Printer className="h-4 w-4 mr-2" />
+                    Imprimer l'étiquette
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button onClick={handleIssue} disabled={isLoading}>
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  {status.protected ? 'Réimprimer (nouveau code)' : 'Générer un code'}
+                </Button>
+                {status.protected && (
+                  <Button variant="outline" onClick={handleRevoke} disabled={isLoading}>
+                    <ShieldOff className="h-4 w-4 mr-2" />
+                    Retirer la protection
+                  </Button>
+                )}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Après 5 codes erronés, la carte est bloquée 15 minutes pour l'appareil concerné.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default CardSecurity;
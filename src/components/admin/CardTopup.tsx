@@ -10,6 +10,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { useNfc } from '@/hooks/use-nfc';
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { logger } from '@/lib/logger';
+import { describeRechargeOfferError, listRechargePackages, RechargePackage } from '@/lib/recharge-offers';
 
 // Define state types for better type safety
 type RechargeStatus = 'idle' | 'checking' | 'processing' | 'success' | 'error';
@@ -23,6 +24,10 @@ const CardTopup: React.FC<CardTopupProps> = ({ onSuccess }) => {
   const [cardId, setCardId] = useState('');
   const [amount, setAmount] = useState('');
   const [paidByCard, setPaidByCard] = useState(false);
+  const [packages, setPackages] = useState<RechargePackage[]>([]);
+  const [selectedPackageId, setSelectedPackageId] = useState<number | null>(null);
+  const [promoCode, setPromoCode] = useState('');
+  const [bonusAmount, setBonusAmount] = useState(0);
 
   // Advanced state management
   const [status, setStatus] = useState<RechargeStatus>('idle');
@@ -149,6 +154,12 @@ const CardTopup: React.FC<CardTopupProps> = ({ onSuccess }) => {
     }
   };
 
+  useEffect(() => {
+    listRechargePackages().then(result => {
+      if (result.success) setPackages(result.data ?? []);
+    });
+  }, []);
+
   // Process standard recharge using the new edge function
   const processStandardRechargeOperation = async (txId: string) => {
     try {
@@ -158,7 +169,9 @@ const CardTopup: React.FC<CardTopupProps> = ({ onSuccess }) => {
         card_id: cardId,
         amount: parseFloat(amount),
         payment_method: paidByCard ? 'card' : 'cash',
-        client_request_id: clientRequestId
+        client_request_id: clientRequestId,
+        package_id: selectedPackageId ?? undefined,
+        promo_code: promoCode.trim() || undefined
       });
 
       if (rechargeResult.success) {
@@ -175,10 +188,12 @@ const CardTopup: React.FC<CardTopupProps> = ({ onSuccess }) => {
         setStatus('success');
         setCurrentAmount(rechargeResult.new_balance?.toString() || currentAmount);
         setOriginalBalance(rechargeResult.previous_balance || 0);
+        setBonusAmount(rechargeResult.bonus_amount ?? 0);
 
+        const bonusText = rechargeResult.bonus_amount ? ` (+${rechargeResult.bonus_amount.toFixed(2)}€ de bonus)` : '';
         toast({
           title: "Recharge réussie",
-          description: `La carte ${cardId} a été rechargée de ${amount}€. Nouveau solde: ${rechargeResult.new_balance?.toFixed(2)}€`,
+          description: `La carte ${cardId} a été rechargée de ${amount}€${bonusText}. Nouveau solde: ${rechargeResult.new_balance?.toFixed(2)}€`,
         });
         
         // Call the onSuccess callback if provided
@@ -188,10 +203,18 @@ const CardTopup: React.FC<CardTopupProps> = ({ onSuccess }) => {
         
         // Reset amount field but keep the card ID
         setAmount('');
+        setSelectedPackageId(null);
+        setPromoCode('');
       } else {
         // Handle specific error cases
         if (rechargeResult.error?.includes('Card not found')) {
           setErrorMessage("Carte non trouvée. Veuillez vérifier l'ID de la carte.");
+        } else if (rechargeResult.details?.error_code === 'CARD_NOT_ACTIVE') {
+          setErrorMessage(rechargeResult.details.replaced_by
+            ? `Cette carte a été remplacée par la carte ${rechargeResult.details.replaced_by}.`
+            : "Cette carte est bloquée et ne peut pas être rechargée.");
+        } else if (rechargeResult.details?.error_code?.startsWith('PROMO_') || rechargeResult.details?.error_code?.startsWith('PACKAGE_')) {
+          setErrorMessage(describeRechargeOfferError(rechargeResult.details.error_code, rechargeResult.error));
         } else {
           setErrorMessage(`Erreur lors du traitement de la recharge: ${rechargeResult.error || 'Erreur inconnue'}`);
         }
@@ -277,6 +300,9 @@ const CardTopup: React.FC<CardTopupProps> = ({ onSuccess }) => {
     setCardId('');
     setAmount('');
     setPaidByCard(false);
+    setSelectedPackageId(null);
+    setPromoCode('');
+    setBonusAmount(0);
     setStatus('idle');
     setCurrentAmount(null);
     setCardInfo(null);
@@ -325,6 +351,8 @@ const CardTopup: React.FC<CardTopupProps> = ({ onSuccess }) => {
     const regex = /^(\d+)?\.?(\d{0,2})?$/;
     if (regex.test(value) || value === '') {
       setAmount(value);
+      // A custom amount leaves the package
+      setSelectedPackageId(null);
     }
   };
 
@@ -362,6 +390,9 @@ const CardTopup: React.FC<CardTopupProps> = ({ onSuccess }) => {
               <span className="font-medium">Numéro de carte:</span> {cardId}<br />
               <span className="font-medium">Ancien solde:</span> {originalBalance?.toFixed(2)}€<br />
               <span className="font-medium">Montant ajouté:</span> {amount}€<br />
+              {bonusAmount > 0 && (
+                <><span className="font-medium">Bonus:</span> {bonusAmount.toFixed(2)}€<br /></>
+              )}
               <span className="font-medium">Nouveau solde:</span> {currentAmount ? parseFloat(currentAmount).toFixed(2) : '0.00'}€<br />
               <span className="font-medium">Payé par carte:</span> {paidByCard ? 'Oui' : 'Non'}<br />
               <span className="font-medium">ID de transaction:</span> <span className="text-xs">{transactionId}</span>
@@ -464,6 +495,24 @@ const CardTopup: React.FC<CardTopupProps> = ({ onSuccess }) => {
             
 
             
+            {packages.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {packages.map(pkg => (
+                  <Button
+                    key={pkg.id}
+                    type="button"
+                    variant={selectedPackageId === pkg.id ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => { setSelectedPackageId(pkg.id); setAmount(String(pkg.amount)); }}
+                    disabled={status === 'processing' || !cardInfo}
+                  >
+                    {pkg.label}
+                    {pkg.bonus_amount > 0 && <span className="ml-1 text-xs">(+{Number(pkg.bonus_amount).toFixed(2)}€)</span>}
+                  </Button>
+                ))}
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="amount">Montant (€)</Label>
               <Input
@@ -477,6 +526,18 @@ const CardTopup: React.FC<CardTopupProps> = ({ onSuccess }) => {
                 disabled={status === 'processing' || !cardInfo}
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="promo-code">Code promo (optionnel)</Label>
+              <Input
+                id="promo-code"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                placeholder="CODE"
+                maxLength={32}
+                disabled={status === 'processing' || !cardInfo}
+              />
+            </div>
             
             {/* Payment method checkbox */}
               <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 mt-4">
@@ -37,22 +37,17 @@ import {
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { validateBelgianIBAN } from "@/lib/refund-utils";
+import { readErrorBody } from "@/lib/supabase";
+import { BANK_PROFILES, BankProfileId, PainVersion, getBankProfile, isValidSepaIBAN } from "@/lib/sepa-bank-profiles";
+import { SchemaValidationReport } from "@/lib/xml-generator";
 import { getCETDateRange } from "@/lib/utils";
 import FinancialStatistics from "./FinancialStatistics";
 import ProductStatistics from "./ProductStatistics";
 import TemporalStatisticsComponent from "./TemporalStatistics";
-
-// Edition Configuration Interface
-interface EditionConfig {
-  id: string;
-  name: string;
-  dateRange: {
-    start: string;
-    end: string;
-  };
-  status: 'done' | 'upcoming';
-}
+import { EditionConfig, EDITION_STATUS_LABELS, getDefaultEdition } from "@/lib/editions";
+import { useEditions } from "@/hooks/use-editions";
+import { useStepUp } from "@/hooks/use-step-up";
+import { clearStepUp } from "@/lib/two-factor";
 
 // Statistics Data Interfaces - Streamlined to required metrics only
 interface CardLifecycleMetrics {
@@ -149,6 +144,8 @@ interface RefundXMLOptions {
   charge_bearer?: 'SLEV' | 'SHAR';
   batch_booking?: boolean;
   requested_execution_date?: string;
+  bank_profile?: BankProfileId;
+  pain_version?: PainVersion;
 }
 
 interface RefundProcessingOptions {
@@ -177,6 +174,7 @@ interface RefundProcessResponse {
       xml_generation_time_ms: number;
       total_processing_time_ms: number;
     };
+    schema_validation?: SchemaValidationReport;
   };
   error?: string;
   error_code?: string;
@@ -184,6 +182,12 @@ interface RefundProcessResponse {
   request_id: string;
 }
 
+// Dry run result shown in the refund dialog
+interface RefundDryRunReport extends SchemaValidationReport {
+  transaction_count: number;
+  total_amount: number;
+}
+
 // Main Dashboard State Interface
 interface DashboardState {
   selectedEdition: string;
@@ -207,6 +211,8 @@ interface DashboardState {
   };
   refund: {
     processing: boolean;
+    validating: boolean;
+    dryRunReport: RefundDryRunReport | null;
     configDialogOpen: boolean;
     config: RefundDebtorConfig;
     xmlOptions: RefundXMLOptions;
@@ -214,51 +220,20 @@ interface DashboardState {
   };
 }
 
-// Configuration des Éditions du Festival
-const FESTIVAL_EDITIONS: EditionConfig[] = [
-  {
-    id: 'may-8th',
-    name: '8 Mai',
-    dateRange: { start: '2025-05-08', end: '2025-05-09' },
-    status: 'done'
-  },
-  {
-    id: 'june-19th',
-    name: '19 Juin',
-    dateRange: { start: '2025-06-19', end: '2025-06-20' },
-    status: 'done'
-  },
-  {
-    id: 'july-10th',
-    name: '10 Juillet',
-    dateRange: { start: '2025-07-10', end: '2025-07-11' },
-    status: 'done'
-  },
-  {
-    id: 'august-7th',
-    name: '7 Août',
-    dateRange: { start: '2025-08-07', end: '2025-08-08' },
-    status: 'done'
-  },
-  {
-    id: 'september-11th',
-    name: '11 Septembre',
-    dateRange: { start: '2025-09-11', end: '2025-09-12' },
-    status: 'upcoming'
-  },
-  {
-    id: 'october-9th',
-    name: '9 Octobre',
-    dateRange: { start: '2025-10-09', end: '2025-10-10' },
-    status: 'upcoming'
-  }
-];
+// Badge style per edition status
+const EDITION_BADGE_VARIANTS: Record<EditionConfig['status'], 'default' | 'secondary' | 'destructive'> = {
+  closed: 'default',
+  live: 'destructive',
+  upcoming: 'secondary'
+};
 
 const Dashboard: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<string>('users');
+  const { editions } = useEditions();
+  const { requestStepUp, stepUpDialog } = useStepUp();
   const [state, setState] = useState<DashboardState>({
-    selectedEdition: 'may-8th',
+    selectedEdition: '',
     loading: {
       users: false,
       financial: false,
@@ -279,20 +254,23 @@ const Dashboard: React.FC = () => {
     },
     refund: {
       processing: false,
+      validating: false,
+      dryRunReport: null,
       configDialogOpen: false,
       config: {
         name: '',
         iban: '',
         country: 'BE'
       },
+      // Message ID prefix and batch booking come from the bank profile
       xmlOptions: {
-        message_id_prefix: 'CBC',
+        bank_profile: 'cbc',
+        pain_version: 'pain.001.001.03',
         payment_info_id_prefix: 'PMT',
         instruction_priority: 'NORM',
         service_level: 'SEPA',
         category_purpose: 'SUPP',
-        charge_bearer: 'SLEV',
-        batch_booking: true
+        charge_bearer: 'SLEV'
       },
       processingOptions: {
         max_refunds: 100,
@@ -303,10 +281,20 @@ const Dashboard: React.FC = () => {
   });
 
   // Get selected edition configuration
-  const selectedEditionConfig = FESTIVAL_EDITIONS.find(
+  const selectedEditionConfig = editions.find(
     edition => edition.id === state.selectedEdition
   );
 
+  // Open on the live edition (or the latest one) once editions are loaded
+  React.useEffect(() => {
+    if (editions.length > 0 && !selectedEditionConfig) {
+      const defaultEdition = getDefaultEdition(editions);
+      if (defaultEdition) {
+        setState(prev => ({ ...prev, selectedEdition: defaultEdition.id }));
+      }
+    }
+  }, [editions, selectedEditionConfig]);
+
 
   // Handle refund configuration dialog
   const handleOpenRefundDialog = () => {
@@ -315,7 +303,8 @@ const Dashboard: React.FC = () => {
       ...prev,
       refund: {
         ...prev.refund,
-        configDialogOpen: true
+        configDialogOpen: true,
+        dryRunReport: null
       }
     }));
   };
@@ -330,12 +319,17 @@ const Dashboard: React.FC = () => {
     }));
   };
 
+  // Debtor account must be held at the selected bank
+  const bankProfile = getBankProfile(state.refund.xmlOptions.bank_profile);
+  const isValidDebtorIBAN = isValidSepaIBAN(state.refund.config.iban, bankProfile.debtorCountries);
+
   // Handle refund configuration changes
   const handleRefundConfigChange = (field: keyof RefundDebtorConfig, value: string) => {
     setState(prev => ({
       ...prev,
       refund: {
         ...prev.refund,
+        dryRunReport: null,
         config: {
           ...prev.refund.config,
           [field]: value
@@ -344,11 +338,41 @@ const Dashboard: React.FC = () => {
     }));
   };
 
+  const handleBankProfileChange = (bankProfile: BankProfileId) => {
+    setState(prev => ({
+      ...prev,
+      refund: {
+        ...prev.refund,
+        dryRunReport: null,
+        xmlOptions: {
+          ...prev.refund.xmlOptions,
+          bank_profile: bankProfile,
+          pain_version: getBankProfile(bankProfile).defaultPainVersion
+        }
+      }
+    }));
+  };
+
+  const handlePainVersionChange = (painVersion: PainVersion) => {
+    setState(prev => ({
+      ...prev,
+      refund: {
+        ...prev.refund,
+        dryRunReport: null,
+        xmlOptions: {
+          ...prev.refund.xmlOptions,
+          pain_version: painVersion
+        }
+      }
+    }));
+  };
+
   const handleRefundProcessingOptionChange = (field: keyof RefundProcessingOptions, value: any) => {
     setState(prev => ({
       ...prev,
       refund: {
         ...prev.refund,
+        dryRunReport: null,
         processingOptions: {
           ...prev.refund.processingOptions,
           [field]: value
@@ -371,18 +395,15 @@ const Dashboard: React.FC = () => {
   };
 
   // Handle refund generation
-  const handleGenerateRefunds = async () => {
-    console.log('Starting refund generation process');
-    console.log('Current refund config:', state.refund.config);
-    
-    // Validate configuration
+  // Validate configuration
+  const checkRefundConfig = (): boolean => {
     if (!state.refund.config.name.trim()) {
       toast({
         title: "Configuration Incomplète",
         description: "Le nom de l'organisation est requis",
         variant: "destructive"
       });
-      return;
+      return false;
     }
 
     if (!state.refund.config.iban.trim()) {
@@ -391,17 +412,95 @@ const Dashboard: React.FC = () => {
         description: "L'IBAN est requis",
         variant: "destructive"
       });
-      return;
+      return false;
     }
 
-    if (!validateBelgianIBAN(state.refund.config.iban)) {
+    if (!isValidDebtorIBAN) {
       toast({
         title: "IBAN Invalide",
-        description: "Veuillez saisir un IBAN belge valide",
+        description: bankProfile.debtorCountries
+          ? `${bankProfile.name} n'accepte que les comptes ${bankProfile.debtorCountries.join(', ')}`
+          : "Veuillez saisir un IBAN valide",
         variant: "destructive"
       });
-      return;
+      return false;
+    }
+
+    return true;
+  };
+
+  const buildRefundRequest = (dryRun: boolean): RefundProcessRequest => ({
+    debtor_config: state.refund.config,
+    xml_options: state.refund.xmlOptions,
+    processing_options: {
+      ...state.refund.processingOptions,
+      dry_run: dryRun,
+      include_warnings: true
     }
+  });
+
+  // Dry run: generate and validate the file against the XSD, nothing is recorded
+  const handleValidateRefunds = async () => {
+    if (!checkRefundConfig()) return;
+
+    setState(prev => ({ ...prev, refund: { ...prev.refund, validating: true, dryRunReport: null } }));
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        throw new Error('Vous devez être connecté pour vérifier les remboursements');
+      }
+
+      const { data, error } = await supabase.functions.invoke('process-refunds', {
+        body: buildRefundRequest(true),
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        }
+      });
+
+      if (error) {
+        const errorBody = await readErrorBody<RefundProcessResponse>(error);
+        throw new Error(errorBody?.error || error.message || 'Failed to validate refunds');
+      }
+
+      const result = data as RefundProcessResponse;
+      if (!result.success || !result.data?.schema_validation) {
+        throw new Error(result.error || 'Erreur inconnue');
+      }
+
+      setState(prev => ({
+        ...prev,
+        refund: {
+          ...prev.refund,
+          dryRunReport: {
+            ...result.data!.schema_validation!,
+            transaction_count: result.data!.transaction_count,
+            total_amount: result.data!.total_amount
+          }
+        }
+      }));
+    } catch (error) {
+      console.error('Error validating refunds:', error);
+      toast({
+        title: "Vérification Impossible",
+        description: error instanceof Error && error.message.includes('No approved refunds available')
+          ? "Validez d'abord les demandes dans l'onglet Remboursements."
+          : error instanceof Error ? error.message : "Erreur lors de la vérification",
+        variant: "destructive"
+      });
+    } finally {
+      setState(prev => ({ ...prev, refund: { ...prev.refund, validating: false } }));
+    }
+  };
+
+  const handleGenerateRefunds = async () => {
+    console.log('Starting refund generation process');
+    console.log('Current refund config:', state.refund.config);
+
+    if (!checkRefundConfig()) return;
+
+    // Recording a SEPA batch requires a fresh second factor
+    if (!await requestStepUp('La génération du fichier de remboursement')) return;
 
     setState(prev => ({
       ...prev,
@@ -413,15 +512,7 @@ const Dashboard: React.FC = () => {
     }));
 
     try {
-      const requestBody: RefundProcessRequest = {
-        debtor_config: state.refund.config,
-        xml_options: state.refund.xmlOptions,
-        processing_options: {
-          ...state.refund.processingOptions,
-          dry_run: false,
-          include_warnings: true
-        }
-      };
+      const requestBody = buildRefundRequest(false);
 
       console.log('Sending refund request:', requestBody);
 
@@ -442,7 +533,8 @@ const Dashboard: React.FC = () => {
 
       if (error) {
         console.error('Refund function error:', error);
-        throw new Error(error.message || 'Failed to process refunds');
+        const errorBody = await readErrorBody<RefundProcessResponse>(error);
+        throw new Error(errorBody?.error || error.message || 'Failed to process refunds');
       }
 
       // Handle the response based on content type
@@ -489,6 +581,19 @@ const Dashboard: React.FC = () => {
         if (error.message.includes('Authentication')) {
           errorTitle = "Erreur d'Authentification";
           errorMessage = "Vous devez être connecté pour générer des remboursements";
+        } else if (error.message.includes('two-factor confirmation')) {
+          clearStepUp();
+          errorTitle = "Confirmation Requise";
+          errorMessage = "La confirmation par code a expiré. Relancez la génération pour saisir un nouveau code.";
+        } else if (error.message.includes('No approved refunds available')) {
+          errorTitle = "Aucun Remboursement Validé";
+          errorMessage = "Validez d'abord les demandes dans l'onglet Remboursements avant de générer le fichier XML.";
+        } else if (error.message.includes('changed status while the file was generated')) {
+          errorTitle = "Remboursements Modifiés";
+          errorMessage = "Des demandes ont changé de statut pendant la génération. Aucun fichier n'a été créé, veuillez réessayer.";
+        } else if (error.message.includes('does not match the pain.001')) {
+          errorTitle = "Fichier XML Invalide";
+          errorMessage = "Le fichier généré ne respecte pas le schéma XSD. Aucun remboursement n'a été exporté ; lancez une vérification pour voir le détail.";
         } else if (error.message.includes('No refunds available after applying processing filters')) {
           errorTitle = "Aucun Remboursement Disponible";
           errorMessage = "Aucun remboursement valide trouvé après filtrage. Essayez d'activer l'option 'Inclure les remboursements avec avertissements'.";
@@ -544,7 +649,7 @@ const Dashboard: React.FC = () => {
 
     toast({
       title: "Édition Modifiée",
-      description: `Basculé vers l'édition ${FESTIVAL_EDITIONS.find(e => e.id === editionId)?.name}`
+      description: `Basculé vers l'édition ${editions.find(e => e.id === editionId)?.name}`
     });
   };
 
@@ -738,6 +843,8 @@ const Dashboard: React.FC = () => {
 
   return (
     <div className="space-y-6">
+      {stepUpDialog}
+
       {/* Header Section */}
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
         <div>
@@ -776,11 +883,47 @@ const Dashboard: React.FC = () => {
                   Configuration des Remboursements
                 </DialogTitle>
                 <DialogDescription>
-                  Configurez les paramètres pour générer le fichier XML de remboursement CBC
+                  Configurez la banque et les paramètres du fichier XML de remboursement SEPA
                 </DialogDescription>
               </DialogHeader>
               
               <div className="grid gap-6 py-4">
+                {/* Bank Profile */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="bank-profile">Banque</Label>
+                    <Select
+                      value={bankProfile.id}
+                      onValueChange={(value) => handleBankProfileChange(value as BankProfileId)}
+                    >
+                      <SelectTrigger id="bank-profile">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(BANK_PROFILES).map(profile => (
+                          <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pain-version">Format</Label>
+                    <Select
+                      value={state.refund.xmlOptions.pain_version}
+                      onValueChange={(value) => handlePainVersionChange(value as PainVersion)}
+                    >
+                      <SelectTrigger id="pain-version">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {bankProfile.painVersions.map(version => (
+                          <SelectItem key={version} value={version}>{version}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
                 {/* Debtor Configuration */}
                 <div className="space-y-4">
                   <h4 className="text-sm font-medium flex items-center gap-2">
@@ -826,9 +969,9 @@ const Dashboard: React.FC = () => {
                           value={state.refund.config.iban}
                           onChange={(e) => handleRefundConfigChange('iban', e.target.value.toUpperCase())}
                           placeholder="BE00 0000 0000 0000"
-                          className={!validateBelgianIBAN(state.refund.config.iban) && state.refund.config.iban ? 'border-red-500' : ''}
+                          className={!isValidDebtorIBAN && state.refund.config.iban ? 'border-red-500' : ''}
                         />
-                        {!validateBelgianIBAN(state.refund.config.iban) && state.refund.config.iban && (
+                        {!isValidDebtorIBAN && state.refund.config.iban && (
                           <p className="text-sm text-red-500 flex items-center gap-1">
                             <AlertCircle className="h-3 w-3" />
                             IBAN invalide
@@ -841,7 +984,7 @@ const Dashboard: React.FC = () => {
                           id="debtor-bic"
                           value={state.refund.config.bic || ''}
                           onChange={(e) => handleRefundConfigChange('bic', e.target.value)}
-                          placeholder="GKCCBEBB"
+                          placeholder={bankProfile.bic || "NOTPROVIDED"}
                         />
                       </div>
                     </div>
@@ -898,15 +1041,60 @@ const Dashboard: React.FC = () => {
                     
                   </div>
                 </div>
+
+                {/* Dry run report */}
+                {state.refund.dryRunReport && (
+                  state.refund.dryRunReport.valid ? (
+                    <Alert>
+                      <CheckCircle className="h-4 w-4" />
+                      <AlertDescription>
+                        Fichier conforme au schéma {state.refund.dryRunReport.pain_version} :
+                        {' '}{state.refund.dryRunReport.transaction_count} virement(s),
+                        {' '}{state.refund.dryRunReport.total_amount.toFixed(2)}€. Aucun remboursement n'a été exporté.
+                      </AlertDescription>
+                    </Alert>
+                  ) : (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>
+                        <p className="font-medium">
+                          {state.refund.dryRunReport.errors.length} erreur(s) de schéma {state.refund.dryRunReport.pain_version}
+                        </p>
+                        <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-xs">
+                          {state.refund.dryRunReport.errors.map((validationError, index) => (
+                            <li key={index}>
+                              {validationError.refund_id !== undefined && `Remboursement #${validationError.refund_id} : `}
+                              {validationError.error_message}
+                              <span className="block font-mono text-[10px] opacity-75">{validationError.field}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )
+                )}
               </div>
               
               <DialogFooter>
                 <Button variant="outline" onClick={handleCloseRefundDialog}>
                   Annuler
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleValidateRefunds}
+                  disabled={state.refund.validating || !state.refund.config.name.trim() || !state.refund.config.iban.trim() || !isValidDebtorIBAN}
+                  className="flex items-center gap-2"
+                >
+                  {state.refund.validating ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <CheckCircle className="h-4 w-4" />
+                  )}
+                  Vérifier (simulation)
+                </Button>
                 <Button
                   onClick={handleGenerateRefunds}
-                  disabled={!state.refund.config.name.trim() || !state.refund.config.iban.trim() || !validateBelgianIBAN(state.refund.config.iban)}
+                  disabled={!state.refund.config.name.trim() || !state.refund.config.iban.trim() || !isValidDebtorIBAN}
                   className="flex items-center gap-2"
                 >
                   <Download className="h-4 w-4" />
@@ -948,15 +1136,15 @@ const Dashboard: React.FC = () => {
                   <SelectValue placeholder="Sélectionner l'édition du festival" />
                 </SelectTrigger>
                 <SelectContent>
-                  {FESTIVAL_EDITIONS.map((edition) => (
+                  {editions.map((edition) => (
                     <SelectItem key={edition.id} value={edition.id}>
                       <div className="flex items-center gap-2">
                         <span>{edition.name}</span>
                         <Badge
-                          variant={edition.status === 'done' ? 'default' : 'secondary'}
+                          variant={EDITION_BADGE_VARIANTS[edition.status]}
                           className="text-xs"
                         >
-                          {edition.status === 'done' ? 'terminé' : 'à venir'}
+                          {EDITION_STATUS_LABELS[edition.status]}
                         </Badge>
                       </div>
                     </SelectItem>
@@ -975,9 +1163,9 @@ const Dashboard: React.FC = () => {
                   </span>
                 </div>
                 <Badge
-                  variant={selectedEditionConfig.status === 'done' ? 'default' : 'secondary'}
+                  variant={EDITION_BADGE_VARIANTS[selectedEditionConfig.status]}
                 >
-                  {selectedEditionConfig.status === 'done' ? 'terminé' : 'à venir'}
+                  {EDITION_STATUS_LABELS[selectedEditionConfig.status]}
                 </Badge>
               </div>
             )}
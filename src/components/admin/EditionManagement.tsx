@@ -0,0 +1,369 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Loader2, Pencil, Play, Square, RotateCcw, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useEditions } from "@/hooks/use-editions";
+import {
+  EditionConfig,
+  EditionInput,
+  EditionStatus,
+  EDITION_STATUS_LABELS,
+  PaymentProviderId,
+  PAYMENT_PROVIDER_LABELS,
+  canTransitionEdition,
+  createEdition,
+  deleteEdition,
+  setEditionStatus,
+  updateEdition,
+  validateEditionInput,
+  MAX_CARD_FEE,
+} from "@/lib/editions";
+
+interface EditionFormState {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  payment_provider: PaymentProviderId;
+  card_fee: string;
+}
+
+const EMPTY_EDITION_FORM: EditionFormState = { id: '', name: '', start_date: '', end_date: '', payment_provider: 'stripe', card_fee: '0' };
+
+const STATUS_BADGE_CLASSES: Record<EditionStatus, string> = {
+  upcoming: 'bg-gray-400',
+  live: 'bg-green-600',
+  closed: 'bg-gray-700',
+};
+
+const EditionManagement: React.FC = () => {
+  const { editions, isLoading, refresh } = useEditions();
+  const [isSaving, setIsSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingEdition, setEditingEdition] = useState<EditionConfig | null>(null);
+  const [form, setForm] = useState<EditionFormState>(EMPTY_EDITION_FORM);
+
+  const { hasAccess } = useAuth();
+  const { toast } = useToast();
+
+  const liveEdition = editions.find(edition => edition.status === 'live');
+
+  const reportResult = (result: { success: boolean; error?: string; details?: unknown }, successMessage: string) => {
+    if (result.success) {
+      toast({ title: "Éditions mises à jour", description: successMessage });
+    } else {
+      const details = Array.isArray(result.details) ? result.details.join(', ') : undefined;
+      toast({
+        title: "Erreur",
+        description: details ? `${result.error} (${details})` : result.error || "Une erreur est survenue",
+        variant: "destructive"
+      });
+    }
+    return result.success;
+  };
+
+  const openCreateDialog = () => {
+    setEditingEdition(null);
+    setForm(EMPTY_EDITION_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (edition: EditionConfig) => {
+    setEditingEdition(edition);
+    setForm({
+      id: edition.id,
+      name: edition.name,
+      start_date: edition.dateRange.start,
+      end_date: edition.dateRange.end,
+      payment_provider: edition.paymentProvider ?? 'stripe',
+      card_fee: String(edition.cardFee ?? 0),
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const input: EditionInput = {
+      name: form.name.trim(),
+      start_date: form.start_date,
+      end_date: form.end_date,
+      payment_provider: form.payment_provider,
+      card_fee: form.card_fee.trim() === '' ? 0 : Number(form.card_fee.replace(',', '.')),
+    };
+    if (!editingEdition) input.id = form.id.trim();
+
+    const errors = validateEditionInput(input, editingEdition !== null);
+    if (errors.length > 0) {
+      toast({ title: "Édition invalide", description: errors.join(', '), variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    const result = editingEdition
+      ? await updateEdition(editingEdition.id, input)
+      : await createEdition(input);
+    setIsSaving(false);
+
+    if (reportResult(result, editingEdition ? `${input.name} a été modifiée` : `${input.name} a été ajoutée`)) {
+      setDialogOpen(false);
+      refresh();
+    }
+  };
+
+  const handleStatusChange = async (edition: EditionConfig, status: EditionStatus) => {
+    if (status === 'live' && liveEdition && liveEdition.id !== edition.id) {
+      toast({
+        title: "Édition déjà en cours",
+        description: `Clôturez d'abord ${liveEdition.name} avant d'ouvrir ${edition.name}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const result = await setEditionStatus(edition.id, status);
+    if (reportResult(result, `${edition.name} est maintenant ${EDITION_STATUS_LABELS[status]}`)) {
+      refresh();
+    }
+  };
+
+  const handleDelete = async (edition: EditionConfig) => {
+    if (!window.confirm(`Supprimer l'édition ${edition.name} ?`)) return;
+
+    const result = await deleteEdition(edition.id);
+    if (reportResult(result, `${edition.name} a été supprimée`)) {
+      refresh();
+    }
+  };
+
+  if (!hasAccess(['manage_editions'])) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center text-gray-600">
+            Vous n'avez pas les permissions nécessaires pour accéder à cette section.
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-xl font-semibold">Éditions du festival</h2>
+          <p className="text-sm text-gray-500">
+            {liveEdition
+              ? `Les commandes et recharges sont rattachées à ${liveEdition.name}.`
+              : "Aucune édition en cours : les nouvelles transactions ne sont rattachées à aucune édition."}
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nouvelle édition
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          {isLoading ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            </div>
+          ) : editions.length === 0 ? (
+            <div className="text-center text-gray-500 p-6">Aucune édition configurée</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Édition</TableHead>
+                  <TableHead>Identifiant</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Statut</TableHead>
+                  <TableHead>Paiement en ligne</TableHead>
+                  <TableHead>Frais de carte</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {editions.map(edition => (
+                  <TableRow key={edition.id}>
+                    <TableCell className="font-medium">{edition.name}</TableCell>
+                    <TableCell className="font-mono text-sm text-gray-600">{edition.id}</TableCell>
+                    <TableCell>
+                      {new Date(edition.dateRange.start).toLocaleDateString()} - {new Date(edition.dateRange.end).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGE_CLASSES[edition.status]}>
+                        {EDITION_STATUS_LABELS[edition.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {edition.paymentProvider === 'mock' ? (
+                        <Badge variant="outline" className="border-orange-400 text-orange-700">
+                          {PAYMENT_PROVIDER_LABELS.mock}
+                        </Badge>
+                      ) : (
+                        PAYMENT_PROVIDER_LABELS.stripe
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {edition.cardFee ? `${edition.cardFee.toFixed(2)}€` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {canTransitionEdition(edition.status, 'live') && (
+                          <Button variant="ghost" size="icon" onClick={() => handleStatusChange(edition, 'live')}
+                            title={edition.status === 'closed' ? 'Rouvrir' : 'Ouvrir'}>
+                            {edition.status === 'closed' ? <RotateCcw className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                          </Button>
+                        )}
+                        {canTransitionEdition(edition.status, 'closed') && (
+                          <Button variant="ghost" size="icon" onClick={() => handleStatusChange(edition, 'closed')} title="Clôturer">
+                            <Square className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" onClick={() => openEditDialog(edition)} title="Modifier">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {edition.status === 'upcoming' && (
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(edition)} title="Supprimer">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit edition */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingEdition ? "Modifier l'édition" : 'Nouvelle édition'}</DialogTitle>
+            <DialogDescription>
+              Les dates délimitent les statistiques de l'édition dans le tableau de bord.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="edition-id">Identifiant</Label>
+              <Input
+                id="edition-id"
+                value={form.id}
+                onChange={(e) => setForm({ ...form, id: e.target.value })}
+                placeholder="ex: november-13th"
+                disabled={isSaving || editingEdition !== null}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edition-name">Nom</Label>
+              <Input
+                id="edition-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="ex: 13 Novembre"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edition-start">Début</Label>
+                <Input
+                  id="edition-start"
+                  type="date"
+                  value={form.start_date}
+                  onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edition-end">Fin</Label>
+                <Input
+                  id="edition-end"
+                  type="date"
+                  value={form.end_date}
+                  onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edition-provider">Paiement en ligne</Label>
+              <Select
+                value={form.payment_provider}
+                onValueChange={(value) => setForm({ ...form, payment_provider: value as PaymentProviderId })}
+                disabled={isSaving}
+              >
+                <SelectTrigger id="edition-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PAYMENT_PROVIDER_LABELS) as PaymentProviderId[]).map(provider => (
+                    <SelectItem key={provider} value={provider}>{PAYMENT_PROVIDER_LABELS[provider]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edition-card-fee">Frais de carte (€)</Label>
+              <Input
+                id="edition-card-fee"
+                type="number"
+                min="0"
+                max={MAX_CARD_FEE}
+                step="0.5"
+                value={form.card_fee}
+                onChange={(e) => setForm({ ...form, card_fee: e.target.value })}
+                disabled={isSaving}
+              />
+              <p className="text-xs text-gray-500">
+                Prélevés sur la première recharge de chaque carte, jamais remboursés.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Enregistrement...
+                </>
+              ) : (
+                "Enregistrer"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EditionManagement;
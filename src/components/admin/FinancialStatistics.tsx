@@ -39,17 +39,16 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
 import { getCETDateRange, getCETTime } from "@/lib/utils";
-
-// Edition Configuration Interface
-interface EditionConfig {
-  id: string;
-  name: string;
-  dateRange: {
-    start: string;
-    end: string;
-  };
-  status: 'done' | 'upcoming';
-}
+import { EditionConfig } from "@/lib/editions";
+import { computeNetRevenue } from "@/lib/deposits";
+import {
+  PointOfSale,
+  PointOfSaleSalesSummary,
+  getPointsOfSale,
+  filterOrdersByPointOfSale,
+  summarizeSalesByPointOfSale
+} from "@/lib/point-of-sale";
+import { PointOfSaleFilter, PointOfSaleBreakdown } from "@/components/admin/PointOfSaleBreakdown";
 
 // Financial Statistics Interfaces
 interface PaymentMethodBreakdown {
@@ -84,6 +83,11 @@ interface LostSalesAnalysis {
 
 interface FinancialMetrics {
   totalSales: number;
+  // Sales without cup deposits still held by guests, plus card fees
+  netRevenue: number;
+  cardFees: number;
+  outstandingDeposits: number;
+  outstandingCups: number;
   totalRecharges: number;
   averageSpendingPerCard: number;
   totalRemainingBalance: number;
@@ -94,6 +98,7 @@ interface FinancialMetrics {
 }
 
 interface FinancialStatisticsData {
+  pointOfSaleBreakdown: PointOfSaleSalesSummary[];
   metrics: FinancialMetrics;
   paymentMethodBreakdown: PaymentMethodBreakdown[];
   hourlyTransactionVolume: HourlyTransactionData[];
@@ -137,6 +142,8 @@ const FinancialStatistics: React.FC<FinancialStatisticsProps> = ({
 }) => {
   const [data, setData] = useState<FinancialStatisticsData | null>(null);
   const [internalLoading, setInternalLoading] = useState(false);
+  const [pointsOfSale, setPointsOfSale] = useState<PointOfSale[]>([]);
+  const [selectedPointOfSale, setSelectedPointOfSale] = useState<number | 'all'>('all');
 
   const formatCurrency = (amount: number) => `€${amount.toFixed(2)}`;
   const formatPercentage = (percentage: number) => `${percentage.toFixed(1)}%`;
@@ -151,14 +158,20 @@ const FinancialStatistics: React.FC<FinancialStatisticsProps> = ({
       const cetDateRange = getCETDateRange(editionConfig.dateRange.start, editionConfig.dateRange.end);
 
       // Fetch bar orders for total sales (using CET timezone)
-      const { data: barOrders, error: barOrdersError } = await supabase
+      const { data: editionOrders, error: barOrdersError } = await supabase
         .from('bar_orders')
-        .select('*')
+        .select('*, bar_order_items(price, quantity, is_deposit, is_return, refunded_quantity)')
         .gte('created_at', cetDateRange.start)
         .lte('created_at', cetDateRange.end);
 
       if (barOrdersError) throw barOrdersError;
 
+      // Sales follow the point of sale filter; recharges are not tied to a bar and stay global
+      const availablePointsOfSale = await getPointsOfSale(true);
+      setPointsOfSale(availablePointsOfSale);
+      const pointOfSaleBreakdown = summarizeSalesByPointOfSale(editionOrders || [], availablePointsOfSale);
+      const barOrders = filterOrdersByPointOfSale(editionOrders || [], selectedPointOfSale);
+
       // Fetch recharges for payment method breakdown (using CET timezone)
       const { data: recharges, error: rechargesError } = await supabase
         .from('recharges')
@@ -175,8 +188,17 @@ const FinancialStatistics: React.FC<FinancialStatisticsProps> = ({
 
       if (cardBalancesError) throw cardBalancesError;
 
-      // Calculate total sales
-      const totalSales = barOrders?.reduce((sum, order) => sum + (order.total_amount || 0), 0) || 0;
+      // Card fees are charged on recharges, so like recharges they stay global
+      const { data: cardFees, error: cardFeesError } = await supabase
+        .from('card_fees')
+        .select('amount')
+        .eq('edition_id', editionConfig.id);
+
+      if (cardFeesError) throw cardFeesError;
+
+      // Calculate total sales, net of voided and refunded items
+      const totalSales = barOrders?.reduce((sum, order) => sum + (order.total_amount || 0) - (order.refunded_amount || 0), 0) || 0;
+      const revenue = computeNetRevenue(barOrders || [], cardFees || []);
 
       // Calculate total recharges
       const totalRecharges = recharges?.reduce((sum, recharge) => sum + (recharge.amount || 0), 0) || 0;
@@ -314,7 +336,7 @@ const FinancialStatistics: React.FC<FinancialStatisticsProps> = ({
           const current = transactionsByTimeSlot.get(timeSlot);
           if (current) {
             current.bar.transactions += 1;
-            current.bar.revenue += (order.total_amount || 0);
+            current.bar.revenue += (order.total_amount || 0) - (order.refunded_amount || 0);
           }
         }
       });
@@ -415,8 +437,13 @@ const FinancialStatistics: React.FC<FinancialStatisticsProps> = ({
       const potentialRevenue = estimatedLostSales * averageShortfall;
 
       const financialData: FinancialStatisticsData = {
+        pointOfSaleBreakdown,
         metrics: {
           totalSales,
+          netRevenue: revenue.netRevenue,
+          cardFees: revenue.cardFees,
+          outstandingDeposits: revenue.deposits.outstandingDeposits,
+          outstandingCups: revenue.deposits.cupsOut - revenue.deposits.cupsReturned,
           totalRecharges,
           averageSpendingPerCard,
           totalRemainingBalance,
@@ -461,12 +488,12 @@ const FinancialStatistics: React.FC<FinancialStatisticsProps> = ({
     }
   };
 
-  // Load data when component mounts or edition changes
+  // Load data when component mounts, edition or point of sale changes
   useEffect(() => {
     if (editionConfig && !loading) {
       fetchFinancialStatistics();
     }
-  }, [editionConfig]);
+  }, [editionConfig, selectedPointOfSale]);
 
   // Handle manual load
   const handleLoad = () => {
@@ -480,19 +507,27 @@ const FinancialStatistics: React.FC<FinancialStatisticsProps> = ({
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h3 className="text-xl font-semibold">Statistiques Financières - {editionName}</h3>
-        <Button
-          onClick={handleLoad}
-          disabled={isLoading || refreshing}
-          variant="outline"
-          size="sm"
-        >
-          {isLoading || refreshing ? (
-            <RefreshCw className="h-4 w-4 animate-spin" />
-          ) : (
-            <Euro className="h-4 w-4" />
-          )}
-          {isLoading ? 'Chargement...' : refreshing ? 'Actualisation...' : 'Charger les Données'}
-        </Button>
+        <div className="flex items-center gap-2">
+          <PointOfSaleFilter
+            pointsOfSale={pointsOfSale}
+            value={selectedPointOfSale}
+            onChange={setSelectedPointOfSale}
+            disabled={isLoading || refreshing}
+          />
+          <Button
+            onClick={handleLoad}
+            disabled={isLoading || refreshing}
+            variant="outline"
+            size="sm"
+          >
+            {isLoading || refreshing ? (
+              <RefreshCw className="h-4 w-4 animate-spin" />
+            ) : (
+              <Euro className="h-4 w-4" />
+            )}
+            {isLoading ? 'Chargement...' : refreshing ? 'Actualisation...' : 'Charger les Données'}
+          </Button>
+        </div>
       </div>
 
       {error && (
@@ -501,6 +536,13 @@ const FinancialStatistics: React.FC<FinancialStatisticsProps> = ({
         </Alert>
       )}
 
+      {/* Répartition par Point de Vente */}
+      <PointOfSaleBreakdown
+        summaries={data?.pointOfSaleBreakdown ?? []}
+        isLoading={isLoading}
+        formatCurrency={formatCurrency}
+      />
+
       {/* Métriques Financières Clés - Simplifiées selon les spécifications */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         <Card>
@@ -619,6 +661,78 @@ const FinancialStatistics: React.FC<FinancialStatisticsProps> = ({
         </Card>
       </div>
 
+      {/* Revenu net : hors consignes, frais de carte inclus */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Revenu Net</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : data ? (
+              <div>
+                <div className="text-2xl font-bold text-green-700">
+                  {formatCurrency(data.metrics.netRevenue)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Ventes hors consignes + frais de carte
+                </p>
+              </div>
+            ) : (
+              <div className="text-2xl font-bold text-muted-foreground">--</div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Frais de Carte</CardTitle>
+            <CreditCard className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : data ? (
+              <div>
+                <div className="text-2xl font-bold">
+                  {formatCurrency(data.metrics.cardFees)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Prélevés à la première recharge, non remboursables
+                </p>
+              </div>
+            ) : (
+              <div className="text-2xl font-bold text-muted-foreground">--</div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Consignes en Circulation</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-8 w-24" />
+            ) : data ? (
+              <div>
+                <div className="text-2xl font-bold text-orange-600">
+                  {formatCurrency(data.metrics.outstandingDeposits)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {data.metrics.outstandingCups} gobelet(s) non rendu(s)
+                </p>
+              </div>
+            ) : (
+              <div className="text-2xl font-bold text-muted-foreground">--</div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Répartition des Méthodes de Paiement - Selon les spécifications */}
       <Card>
         <CardHeader>
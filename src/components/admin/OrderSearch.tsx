@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Search, Undo2 } from "lucide-react";
+import { OrderRefundDialog } from "@/components/bar/OrderRefundDialog";
+import {
+  RefundableOrder,
+  ORDER_STATUS_LABELS,
+  canRefundOrder,
+  searchBarOrders,
+} from "@/lib/order-refunds";
+
+const STATUS_BADGE_CLASSES: Record<string, string> = {
+  completed: 'bg-green-600',
+  partially_refunded: 'bg-amber-500',
+  refunded: 'bg-gray-500',
+};
+
+// Admin lookup of bar orders by order number or card, with voids and refunds
+const OrderSearch: React.FC = () => {
+  const [query, setQuery] = useState('');
+  const [orders, setOrders] = useState<RefundableOrder[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [refundOrderId, setRefundOrderId] = useState<number | null>(null);
+
+  const runSearch = async (term: string = query) => {
+    if (!term.trim()) return;
+    setIsSearching(true);
+    setOrders(await searchBarOrders(term));
+    setHasSearched(true);
+    setIsSearching(false);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSearch();
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Commandes du bar</h2>
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="N° de commande ou ID de carte"
+            className="w-64"
+          />
+          <Button type="submit" disabled={isSearching || !query.trim()}>
+            {isSearching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+            Rechercher
+          </Button>
+        </form>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          {!hasSearched ? (
+            <div className="text-center text-gray-500 p-6">
+              Recherchez une commande pour l'annuler ou rembourser certains articles.
+            </div>
+          ) : orders.length === 0 ? (
+            <div className="text-center text-gray-500 p-6">Aucune commande trouvée</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Commande</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Carte</TableHead>
+                  <TableHead>Articles</TableHead>
+                  <TableHead className="text-right">Montant</TableHead>
+                  <TableHead>Statut</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map(order => (
+                  <TableRow key={order.id}>
+                    <TableCell className="font-mono">#{order.id}</TableCell>
+                    <TableCell>{order.created_at ? new Date(order.created_at).toLocaleString() : '—'}</TableCell>
+                    <TableCell className="font-mono">{order.card_id}</TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {order.bar_order_items.map(item => `${item.quantity}× ${item.product_name}`).join(', ')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {order.total_amount.toFixed(2)}€
+                      {order.refunded_amount > 0 && (
+                        <div className="text-xs text-red-600">-{order.refunded_amount.toFixed(2)}€ remboursé</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGE_CLASSES[order.status ?? ''] || 'bg-gray-400'}>
+                        {ORDER_STATUS_LABELS[order.status ?? ''] || order.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setRefundOrderId(order.id)}
+                        disabled={!canRefundOrder(order)}
+                        title="Annuler / rembourser"
+                      >
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <OrderRefundDialog
+        orderId={refundOrderId}
+        onClose={() => setRefundOrderId(null)}
+        onRefunded={() => runSearch()}
+      />
+    </div>
+  );
+};
+
+export default OrderSearch;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Store } from "lucide-react";
+import { PointOfSale, PointOfSaleSalesSummary } from "@/lib/point-of-sale";
+
+interface PointOfSaleFilterProps {
+  pointsOfSale: PointOfSale[];
+  value: number | 'all';
+  onChange: (value: number | 'all') => void;
+  disabled?: boolean;
+}
+
+// Point of sale selector shared by the statistics tabs
+export const PointOfSaleFilter: React.FC<PointOfSaleFilterProps> = ({
+  pointsOfSale,
+  value,
+  onChange,
+  disabled = false
+}) => (
+  <Select
+    value={String(value)}
+    onValueChange={(selected) => onChange(selected === 'all' ? 'all' : Number(selected))}
+    disabled={disabled}
+  >
+    <SelectTrigger className="w-52">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value="all">Tous les points de vente</SelectItem>
+      {pointsOfSale.map(pointOfSale => (
+        <SelectItem key={pointOfSale.id} value={String(pointOfSale.id)}>
+          {pointOfSale.name}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface PointOfSaleBreakdownProps {
+  summaries: PointOfSaleSalesSummary[];
+  isLoading: boolean;
+  formatCurrency: (amount: number) => string;
+}
+
+// Revenue and volumes per point of sale
+export const PointOfSaleBreakdown: React.FC<PointOfSaleBreakdownProps> = ({
+  summaries,
+  isLoading,
+  formatCurrency
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <Store className="h-5 w-5" />
+        Répartition par Point de Vente
+      </CardTitle>
+    </CardHeader>
+    <CardContent>
+      {isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : summaries.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Point de vente</TableHead>
+              <TableHead className="text-right">Commandes</TableHead>
+              <TableHead className="text-right">Articles vendus</TableHead>
+              <TableHead className="text-right">Chiffre d'affaires</TableHead>
+              <TableHead className="text-right">Part</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {summaries.map(summary => (
+              <TableRow key={summary.pointOfSaleId}>
+                <TableCell className="font-medium">{summary.name}</TableCell>
+                <TableCell className="text-right">{summary.orderCount}</TableCell>
+                <TableCell className="text-right">{summary.itemCount}</TableCell>
+                <TableCell className="text-right font-bold">{formatCurrency(summary.revenue)}</TableCell>
+                <TableCell className="text-right">{summary.share.toFixed(1)}%</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="h-32 flex items-center justify-center text-muted-foreground">
+          Aucune vente enregistrée pour cette édition
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,627 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Loader2, Pencil, Archive, ArchiveRestore, ArrowUp, ArrowDown, CalendarClock, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BAR_PRODUCT_CATEGORIES,
+  CatalogueProduct,
+  CatalogueProductInput,
+  listCatalogueProducts,
+  createCatalogueProduct,
+  updateCatalogueProduct,
+  archiveCatalogueProduct,
+  restoreCatalogueProduct,
+  reorderCatalogueProducts,
+  scheduleProductPrice,
+  cancelPriceSchedule,
+  getEffectivePrice,
+  validateBarProductInput,
+  validatePriceSchedule,
+  setPointOfSaleProducts,
+} from "@/lib/bar-catalogue";
+import { PointOfSale, getPointsOfSale } from "@/lib/point-of-sale";
+import { useEditions } from "@/hooks/use-editions";
+
+type ProductKind = 'standard' | 'deposit' | 'return';
+
+interface ProductFormState {
+  name: string;
+  price: string;
+  category: string;
+  kind: ProductKind;
+}
+
+interface ScheduleFormState {
+  price: string;
+  edition_id: string;
+  effective_from: string;
+  effective_until: string;
+}
+
+const EMPTY_PRODUCT_FORM: ProductFormState = { name: '', price: '', category: 'Soft', kind: 'standard' };
+const EMPTY_SCHEDULE_FORM: ScheduleFormState = { price: '', edition_id: '', effective_from: '', effective_until: '' };
+const FULL_CATALOGUE = 'all';
+// Select value for a price schedule that applies to every edition
+const ALL_EDITIONS = 'all';
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('fr-FR', {
+  day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit'
+});
+
+const toProductInput = (form: ProductFormState): CatalogueProductInput => ({
+  name: form.name.trim(),
+  price: parseFloat(form.price.replace(',', '.')),
+  category: form.category,
+  is_deposit: form.kind === 'deposit',
+  is_return: form.kind === 'return',
+});
+
+const ProductCatalogue: React.FC = () => {
+  const [products, setProducts] = useState<CatalogueProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [productDialogOpen, setProductDialogOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<CatalogueProduct | null>(null);
+  const [productForm, setProductForm] = useState<ProductFormState>(EMPTY_PRODUCT_FORM);
+
+  const [scheduleProduct, setScheduleProduct] = useState<CatalogueProduct | null>(null);
+  const [scheduleForm, setScheduleForm] = useState<ScheduleFormState>(EMPTY_SCHEDULE_FORM);
+
+  const [pointsOfSale, setPointsOfSale] = useState<PointOfSale[]>([]);
+  const [menuPointOfSaleId, setMenuPointOfSaleId] = useState<string>(FULL_CATALOGUE);
+  const { editions } = useEditions();
+
+  const { hasAccess } = useAuth();
+  const { toast } = useToast();
+
+  const fetchProducts = useCallback(async () => {
+    setLoading(true);
+    const result = await listCatalogueProducts(showArchived);
+    if (result.success) {
+      setProducts(result.data ?? []);
+    } else {
+      toast({
+        title: "Erreur",
+        description: result.error || "Impossible de charger le catalogue",
+        variant: "destructive"
+      });
+    }
+    setLoading(false);
+  }, [showArchived, toast]);
+
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  const fetchPointsOfSale = useCallback(async () => {
+    setPointsOfSale(await getPointsOfSale(true));
+  }, []);
+
+  useEffect(() => {
+    fetchPointsOfSale();
+  }, [fetchPointsOfSale]);
+
+  const menuPointOfSale = pointsOfSale.find(pointOfSale => String(pointOfSale.id) === menuPointOfSaleId) || null;
+  const activeProductIds = products.filter(product => !product.is_archived).map(product => product.id);
+  // An empty menu means the point of sale offers the whole catalogue
+  const menuProductIds = menuPointOfSale
+    ? (menuPointOfSale.product_ids.length > 0 ? menuPointOfSale.product_ids : activeProductIds)
+    : [];
+
+  // Keep the open schedule dialog in sync with refreshed data
+  useEffect(() => {
+    if (scheduleProduct) {
+      const refreshed = products.find(product => product.id === scheduleProduct.id);
+      if (refreshed && refreshed !== scheduleProduct) setScheduleProduct(refreshed);
+    }
+  }, [products, scheduleProduct]);
+
+  const reportResult = (result: { success: boolean; error?: string; details?: unknown }, successMessage: string) => {
+    if (result.success) {
+      toast({ title: "Catalogue mis à jour", description: successMessage });
+    } else {
+      const details = Array.isArray(result.details) ? result.details.join(', ') : undefined;
+      toast({
+        title: "Erreur",
+        description: details ? `${result.error} (${details})` : result.error || "Une erreur est survenue",
+        variant: "destructive"
+      });
+    }
+    return result.success;
+  };
+
+  const openCreateDialog = () => {
+    setEditingProduct(null);
+    setProductForm(EMPTY_PRODUCT_FORM);
+    setProductDialogOpen(true);
+  };
+
+  const openEditDialog = (product: CatalogueProduct) => {
+    setEditingProduct(product);
+    setProductForm({
+      name: product.name,
+      price: product.price.toString(),
+      category: product.category || 'Autre',
+      kind: product.is_deposit ? 'deposit' : product.is_return ? 'return' : 'standard',
+    });
+    setProductDialogOpen(true);
+  };
+
+  const handleSaveProduct = async () => {
+    const input = toProductInput(productForm);
+    const errors = validateBarProductInput(input);
+    if (errors.length > 0) {
+      toast({ title: "Produit invalide", description: errors.join(', '), variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    const result = editingProduct
+      ? await updateCatalogueProduct(editingProduct.id, input)
+      : await createCatalogueProduct(input);
+    setIsSaving(false);
+
+    if (reportResult(result, editingProduct ? `${input.name} a été modifié` : `${input.name} a été ajouté`)) {
+      setProductDialogOpen(false);
+      fetchProducts();
+    }
+  };
+
+  const handleToggleArchive = async (product: CatalogueProduct) => {
+    const result = product.is_archived
+      ? await restoreCatalogueProduct(product.id)
+      : await archiveCatalogueProduct(product.id);
+
+    if (reportResult(result, product.is_archived ? `${product.name} est de nouveau disponible` : `${product.name} a été archivé`)) {
+      fetchProducts();
+    }
+  };
+
+  // Move a product one position up or down within its category
+  const handleMove = async (product: CatalogueProduct, direction: -1 | 1) => {
+    const siblings = products.filter(p => p.category === product.category && !p.is_archived);
+    const index = siblings.findIndex(p => p.id === product.id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= siblings.length) return;
+
+    const reordered = [...siblings];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    const result = await reorderCatalogueProducts(reordered.map(p => p.id));
+    if (result.success) {
+      fetchProducts();
+    } else {
+      reportResult(result, '');
+    }
+  };
+
+  const handleToggleMenu = async (product: CatalogueProduct, onMenu: boolean) => {
+    if (!menuPointOfSale) return;
+
+    const updated = onMenu
+      ? Array.from(new Set([...menuProductIds, product.id]))
+      : menuProductIds.filter(id => id !== product.id);
+
+    if (updated.length === 0) {
+      toast({
+        title: "Menu vide",
+        description: "Un point de vente doit proposer au moins un produit",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const result = await setPointOfSaleProducts(menuPointOfSale.id, updated);
+    if (reportResult(result, `Menu de ${menuPointOfSale.name} mis à jour`)) {
+      fetchPointsOfSale();
+    }
+  };
+
+  const openScheduleDialog = (product: CatalogueProduct) => {
+    setScheduleProduct(product);
+    setScheduleForm(EMPTY_SCHEDULE_FORM);
+  };
+
+  const handleSchedulePrice = async () => {
+    if (!scheduleProduct) return;
+
+    const schedule = {
+      price: parseFloat(scheduleForm.price.replace(',', '.')),
+      edition_id: scheduleForm.edition_id.trim() || null,
+      effective_from: scheduleForm.effective_from ? new Date(scheduleForm.effective_from).toISOString() : '',
+      effective_until: scheduleForm.effective_until ? new Date(scheduleForm.effective_until).toISOString() : null,
+    };
+
+    const errors = validatePriceSchedule(schedule);
+    if (errors.length > 0) {
+      toast({ title: "Programmation invalide", description: errors.join(', '), variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await scheduleProductPrice(scheduleProduct.id, schedule);
+    setIsSaving(false);
+
+    if (reportResult(result, `Prix programmé pour ${scheduleProduct.name}`)) {
+      setScheduleForm(EMPTY_SCHEDULE_FORM);
+      fetchProducts();
+    }
+  };
+
+  const handleCancelSchedule = async (scheduleId: number) => {
+    const result = await cancelPriceSchedule(scheduleId);
+    if (reportResult(result, 'Programmation supprimée')) {
+      fetchProducts();
+    }
+  };
+
+  if (!hasAccess(['manage_bar_products'])) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center text-gray-600">
+            Vous n'avez pas les permissions nécessaires pour accéder à cette section.
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const categories = [
+    ...BAR_PRODUCT_CATEGORIES,
+    ...Array.from(new Set(products.map(p => p.category || 'Autre')))
+      .filter(category => !(BAR_PRODUCT_CATEGORIES as readonly string[]).includes(category))
+  ];
+
+  return (
+    <div className="space-y-5">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold">Catalogue du bar</h2>
+        <div className="flex items-center gap-4">
+          <Select value={menuPointOfSaleId} onValueChange={setMenuPointOfSaleId}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={FULL_CATALOGUE}>Catalogue complet</SelectItem>
+              {pointsOfSale.map(pointOfSale => (
+                <SelectItem key={pointOfSale.id} value={String(pointOfSale.id)}>
+                  Menu : {pointOfSale.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show-archived">Afficher les produits archivés</Label>
+          </div>
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nouveau produit
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          {loading ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            </div>
+          ) : products.length === 0 ? (
+            <div className="text-center text-gray-500 p-6">Aucun produit dans le catalogue</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Ordre</TableHead>
+                  {menuPointOfSale && <TableHead className="w-20">Au menu</TableHead>}
+                  <TableHead>Produit</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Prix actuel</TableHead>
+                  <TableHead>Prix programmés</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categories.map(category => {
+                  const categoryProducts = products.filter(p => (p.category || 'Autre') === category);
+                  if (categoryProducts.length === 0) return null;
+                  const activeProducts = categoryProducts.filter(p => !p.is_archived);
+
+                  return (
+                    <React.Fragment key={category}>
+                      <TableRow className="bg-gray-50 hover:bg-gray-50">
+                        <TableCell colSpan={menuPointOfSale ? 7 : 6} className="font-semibold text-gray-700">{category}</TableCell>
+                      </TableRow>
+                      {categoryProducts.map(product => {
+                        const position = activeProducts.findIndex(p => p.id === product.id);
+                        const effectivePrice = getEffectivePrice(product);
+                        const upcomingSchedules = (product.bar_product_price_schedules ?? [])
+                          .filter(s => !s.effective_until || Date.parse(s.effective_until) > Date.now());
+
+                        return (
+                          <TableRow key={product.id} className={product.is_archived ? 'opacity-50' : ''}>
+                            <TableCell>
+                              {!product.is_archived && (
+                                <div className="flex gap-1">
+                                  <Button variant="ghost" size="icon" className="h-7 w-7" disabled={position === 0}
+                                    onClick={() => handleMove(product, -1)} title="Monter">
+                                    <ArrowUp className="h-3 w-3" />
+                                  </Button>
+                                  <Button variant="ghost" size="icon" className="h-7 w-7" disabled={position === activeProducts.length - 1}
+                                    onClick={() => handleMove(product, 1)} title="Descendre">
+                                    <ArrowDown className="h-3 w-3" />
+                                  </Button>
+                                </div>
+                              )}
+                            </TableCell>
+                            {menuPointOfSale && (
+                              <TableCell>
+                                <Checkbox
+                                  checked={menuProductIds.includes(product.id)}
+                                  disabled={product.is_archived}
+                                  onCheckedChange={(checked) => handleToggleMenu(product, checked === true)}
+                                  aria-label={`${product.name} au menu de ${menuPointOfSale.name}`}
+                                />
+                              </TableCell>
+                            )}
+                            <TableCell className="font-medium">
+                              {product.name}
+                              {product.is_archived && <Badge variant="outline" className="ml-2">Archivé</Badge>}
+                            </TableCell>
+                            <TableCell>
+                              {product.is_deposit && <Badge className="bg-amber-500">Caution</Badge>}
+                              {product.is_return && <Badge className="bg-green-600">Retour</Badge>}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {effectivePrice.toFixed(2)}€
+                              {effectivePrice !== product.price && (
+                                <div className="text-xs text-gray-500 line-through">{product.price.toFixed(2)}€</div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-sm text-gray-600">
+                              {upcomingSchedules.length === 0 ? '—' : `${upcomingSchedules.length} programmation${upcomingSchedules.length > 1 ? 's' : ''}`}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-1">
+                                <Button variant="ghost" size="icon" onClick={() => openEditDialog(product)} title="Modifier">
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" onClick={() => openScheduleDialog(product)} title="Programmer un prix">
+                                  <CalendarClock className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" onClick={() => handleToggleArchive(product)}
+                                  title={product.is_archived ? 'Restaurer' : 'Archiver'}>
+                                  {product.is_archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit product */}
+      <Dialog open={productDialogOpen} onOpenChange={setProductDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingProduct ? 'Modifier le produit' : 'Nouveau produit'}</DialogTitle>
+            <DialogDescription>
+              Les modifications sont visibles immédiatement sur les terminaux du bar.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="product-name">Nom</Label>
+              <Input
+                id="product-name"
+                value={productForm.name}
+                onChange={(e) => setProductForm({ ...productForm, name: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="product-price">Prix de base (€)</Label>
+              <Input
+                id="product-price"
+                type="number"
+                step="0.01"
+                min="0"
+                value={productForm.price}
+                onChange={(e) => setProductForm({ ...productForm, price: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Catégorie</Label>
+              <Select
+                value={productForm.category}
+                onValueChange={(value) => setProductForm({ ...productForm, category: value })}
+                disabled={isSaving}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choisir une catégorie" />
+                </SelectTrigger>
+                <SelectContent>
+                  {BAR_PRODUCT_CATEGORIES.map(category => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={productForm.kind}
+                onValueChange={(value) => setProductForm({ ...productForm, kind: value as ProductKind })}
+                disabled={isSaving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="standard">Produit standard</SelectItem>
+                  <SelectItem value="deposit">Caution (consigne)</SelectItem>
+                  <SelectItem value="return">Retour de consigne</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSaveProduct} disabled={isSaving}>
+              {isSaving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Enregistrement...
+                </>
+              ) : (
+                "Enregistrer"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Scheduled price changes */}
+      <Dialog open={scheduleProduct !== null} onOpenChange={(open) => !open && setScheduleProduct(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Prix programmés — {scheduleProduct?.name}</DialogTitle>
+            <DialogDescription>
+              Prix de base : {scheduleProduct?.price.toFixed(2)}€. Un prix programmé remplace le prix de base pendant sa période.
+            </DialogDescription>
+          </DialogHeader>
+
+          {scheduleProduct && (scheduleProduct.bar_product_price_schedules ?? []).length > 0 && (
+            <div className="space-y-2">
+              {[...(scheduleProduct.bar_product_price_schedules ?? [])]
+                .sort((a, b) => a.effective_from.localeCompare(b.effective_from))
+                .map(schedule => (
+                  <div key={schedule.id} className="flex items-center justify-between border rounded-md p-2 text-sm">
+                    <div>
+                      <div className="font-medium">
+                        {schedule.price.toFixed(2)}€
+                        {schedule.edition_id && (
+                          <span className="ml-2 text-gray-500">
+                            ({editions.find(edition => edition.id === schedule.edition_id)?.name || schedule.edition_id})
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-gray-500">
+                        Du {formatDateTime(schedule.effective_from)}
+                        {schedule.effective_until ? ` au ${formatDateTime(schedule.effective_until)}` : ' sans date de fin'}
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => handleCancelSchedule(schedule.id)} title="Supprimer">
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-price">Prix (€)</Label>
+              <Input
+                id="schedule-price"
+                type="number"
+                step="0.01"
+                min="0"
+                value={scheduleForm.price}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, price: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-edition">Édition (optionnel)</Label>
+              <Select
+                value={scheduleForm.edition_id || ALL_EDITIONS}
+                onValueChange={(value) => setScheduleForm({ ...scheduleForm, edition_id: value === ALL_EDITIONS ? '' : value })}
+                disabled={isSaving}
+              >
+                <SelectTrigger id="schedule-edition">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_EDITIONS}>Toutes les éditions</SelectItem>
+                  {editions.map(edition => (
+                    <SelectItem key={edition.id} value={edition.id}>{edition.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-from">Début</Label>
+              <Input
+                id="schedule-from"
+                type="datetime-local"
+                value={scheduleForm.effective_from}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, effective_from: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-until">Fin (optionnel)</Label>
+              <Input
+                id="schedule-until"
+                type="datetime-local"
+                value={scheduleForm.effective_until}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, effective_until: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={handleSchedulePrice} disabled={isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarClock className="h-4 w-4 mr-2" />}
+              Programmer le prix
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ProductCatalogue;
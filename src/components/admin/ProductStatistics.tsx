@@ -46,17 +46,15 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
 import { getCETDateRange, getCETTime } from "@/lib/utils";
-
-// Edition Configuration Interface
-interface EditionConfig {
-  id: string;
-  name: string;
-  dateRange: {
-    start: string;
-    end: string;
-  };
-  status: 'done' | 'upcoming';
-}
+import { EditionConfig } from "@/lib/editions";
+import {
+  PointOfSale,
+  PointOfSaleSalesSummary,
+  getPointsOfSale,
+  filterOrdersByPointOfSale,
+  summarizeSalesByPointOfSale
+} from "@/lib/point-of-sale";
+import { PointOfSaleFilter, PointOfSaleBreakdown } from "@/components/admin/PointOfSaleBreakdown";
 
 // Product Statistics Interfaces
 interface ProductRanking {
@@ -129,6 +127,7 @@ interface ProductMetrics {
 }
 
 interface ProductStatisticsData {
+  pointOfSaleBreakdown: PointOfSaleSalesSummary[];
   metrics: ProductMetrics;
   topProducts: ProductRanking[];
   productAnalysis: ProductAnalysis[];
@@ -173,6 +172,8 @@ const ProductStatistics: React.FC<ProductStatisticsProps> = ({
 }) => {
   const [data, setData] = useState<ProductStatisticsData | null>(null);
   const [internalLoading, setInternalLoading] = useState(false);
+  const [pointsOfSale, setPointsOfSale] = useState<PointOfSale[]>([]);
+  const [selectedPointOfSale, setSelectedPointOfSale] = useState<number | 'all'>('all');
 
   const formatCurrency = (amount: number) => `€${amount.toFixed(2)}`;
   const formatPercentage = (percentage: number) => `${percentage.toFixed(1)}%`;
@@ -187,7 +188,7 @@ const ProductStatistics: React.FC<ProductStatisticsProps> = ({
       const cetDateRange = getCETDateRange(editionConfig.dateRange.start, editionConfig.dateRange.end);
 
       // Fetch bar orders with items and products (using CET timezone)
-      const { data: barOrders, error: barOrdersError } = await supabase
+      const { data: editionOrders, error: barOrdersError } = await supabase
         .from('bar_orders')
         .select(`
           *,
@@ -197,7 +198,8 @@ const ProductStatistics: React.FC<ProductStatisticsProps> = ({
             quantity,
             price,
             is_deposit,
-            is_return
+            is_return,
+            refunded_quantity
           )
         `)
         .gte('created_at', cetDateRange.start)
@@ -205,6 +207,12 @@ const ProductStatistics: React.FC<ProductStatisticsProps> = ({
 
       if (barOrdersError) throw barOrdersError;
 
+      // Per point of sale breakdown always covers the whole edition; the rest follows the filter
+      const availablePointsOfSale = await getPointsOfSale(true);
+      setPointsOfSale(availablePointsOfSale);
+      const pointOfSaleBreakdown = summarizeSalesByPointOfSale(editionOrders || [], availablePointsOfSale);
+      const barOrders = filterOrdersByPointOfSale(editionOrders || [], selectedPointOfSale);
+
       // Fetch all products for category mapping
       const { data: products, error: productsError } = await supabase
         .from('bar_products')
@@ -215,10 +223,11 @@ const ProductStatistics: React.FC<ProductStatisticsProps> = ({
       // Create product lookup map
       const productMap = new Map(products?.map(p => [p.name, p]) || []);
 
-      // Process all order items
+      // Process all order items, net of refunded quantities
       const allOrderItems = barOrders?.flatMap(order => 
         order.bar_order_items?.map(item => ({
           ...item,
+          quantity: item.quantity - (item.refunded_quantity || 0),
           orderId: order.id,
           orderCreatedAt: order.created_at,
           product: productMap.get(item.product_name)
@@ -501,6 +510,7 @@ const ProductStatistics: React.FC<ProductStatisticsProps> = ({
       const trendingProducts = topProducts.filter(p => p.quantitySold > averageOrderSize).slice(0, 5);
 
       const productData: ProductStatisticsData = {
+        pointOfSaleBreakdown,
         metrics: {
           totalProductsSold,
           totalRevenue,
@@ -538,12 +548,12 @@ const ProductStatistics: React.FC<ProductStatisticsProps> = ({
     }
   };
 
-  // Load data when component mounts or edition changes
+  // Load data when component mounts, edition or point of sale changes
   useEffect(() => {
     if (editionConfig && !loading) {
       fetchProductStatistics();
     }
-  }, [editionConfig]);
+  }, [editionConfig, selectedPointOfSale]);
 
   // Handle manual load
   const handleLoad = () => {
@@ -557,19 +567,27 @@ const ProductStatistics: React.FC<ProductStatisticsProps> = ({
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h3 className="text-xl font-semibold">Statistiques Produits - {editionName}</h3>
-        <Button
-          onClick={handleLoad}
-          disabled={isLoading || refreshing}
-          variant="outline"
-          size="sm"
-        >
-          {isLoading || refreshing ? (
-            <RefreshCw className="h-4 w-4 animate-spin" />
-          ) : (
-            <Package className="h-4 w-4" />
-          )}
-          {isLoading ? 'Chargement...' : refreshing ? 'Actualisation...' : 'Charger les Données'}
-        </Button>
+        <div className="flex items-center gap-2">
+          <PointOfSaleFilter
+            pointsOfSale={pointsOfSale}
+            value={selectedPointOfSale}
+            onChange={setSelectedPointOfSale}
+            disabled={isLoading || refreshing}
+          />
+          <Button
+            onClick={handleLoad}
+            disabled={isLoading || refreshing}
+            variant="outline"
+            size="sm"
+          >
+            {isLoading || refreshing ? (
+              <RefreshCw className="h-4 w-4 animate-spin" />
+            ) : (
+              <Package className="h-4 w-4" />
+            )}
+            {isLoading ? 'Chargement...' : refreshing ? 'Actualisation...' : 'Charger les Données'}
+          </Button>
+        </div>
       </div>
 
       {error && (
@@ -578,6 +596,13 @@ const ProductStatistics: React.FC<ProductStatisticsProps> = ({
         </Alert>
       )}
 
+      {/* Répartition par Point de Vente */}
+      <PointOfSaleBreakdown
+        summaries={data?.pointOfSaleBreakdown ?? []}
+        isLoading={isLoading}
+        formatCurrency={formatCurrency}
+      />
+
       {/* Ventes par Catégorie - Graphique en Secteurs */}
       <Card>
         <CardHeader>
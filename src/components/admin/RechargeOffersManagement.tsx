@@ -0,0 +1,490 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Loader2, Pencil, Power } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useEditions } from "@/hooks/use-editions";
+import {
+  PromoBonusType,
+  PromoCode,
+  PromoCodeInput,
+  RechargePackage,
+  RechargePackageInput,
+  formatPromoBonus,
+  listRechargeOffers,
+  savePromoCode,
+  saveRechargePackage,
+} from "@/lib/recharge-offers";
+
+// Select items cannot have an empty value
+const ALL_EDITIONS = 'all';
+
+interface PackageFormState {
+  id?: number;
+  edition_id: string;
+  label: string;
+  amount: string;
+  bonus_amount: string;
+  sort_order: string;
+  is_active: boolean;
+}
+
+interface PromoFormState {
+  code: string;
+  description: string;
+  edition_id: string;
+  bonus_type: PromoBonusType;
+  bonus_value: string;
+  max_bonus: string;
+  min_amount: string;
+  max_uses: string;
+  max_uses_per_card: string;
+  valid_from: string;
+  valid_until: string;
+  is_active: boolean;
+}
+
+const EMPTY_PACKAGE_FORM: PackageFormState = { edition_id: ALL_EDITIONS, label: '', amount: '', bonus_amount: '0', sort_order: '0', is_active: true };
+
+const EMPTY_PROMO_FORM: PromoFormState = {
+  code: '', description: '', edition_id: ALL_EDITIONS, bonus_type: 'fixed', bonus_value: '',
+  max_bonus: '', min_amount: '0', max_uses: '', max_uses_per_card: '', valid_from: '', valid_until: '', is_active: true,
+};
+
+const optionalNumber = (value: string) => value.trim() === '' ? null : Number(value);
+
+// datetime-local inputs work in local time without a timezone
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => value ? new Date(value).toISOString() : null;
+
+const RechargeOffersManagement: React.FC = () => {
+  const { editions } = useEditions();
+  const [packages, setPackages] = useState<RechargePackage[]>([]);
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [packageForm, setPackageForm] = useState<PackageFormState | null>(null);
+  const [promoForm, setPromoForm] = useState<PromoFormState | null>(null);
+  const [editingPromo, setEditingPromo] = useState(false);
+
+  const { hasAccess } = useAuth();
+  const { toast } = useToast();
+
+  const loadOffers = useCallback(async () => {
+    setIsLoading(true);
+    const result = await listRechargeOffers();
+    if (result.success) {
+      setPackages(result.data!.packages);
+      setPromoCodes(result.data!.promoCodes);
+    } else {
+      toast({ title: "Erreur", description: result.error || "Impossible de charger les offres", variant: "destructive" });
+    }
+    setIsLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    if (hasAccess(['manage_recharge_offers'])) loadOffers();
+  }, [hasAccess, loadOffers]);
+
+  const reportResult = (result: { success: boolean; error?: string; details?: unknown }, successMessage: string) => {
+    if (result.success) {
+      toast({ title: "Offres mises à jour", description: successMessage });
+      loadOffers();
+    } else {
+      const details = Array.isArray(result.details) ? result.details.join(', ') : undefined;
+      toast({
+        title: "Erreur",
+        description: details ? `${result.error} (${details})` : result.error || "Une erreur est survenue",
+        variant: "destructive"
+      });
+    }
+    return result.success;
+  };
+
+  const editionLabel = (editionId: string | null) =>
+    editionId ? editions.find(edition => edition.id === editionId)?.name ?? editionId : 'Toutes';
+
+  const handleSavePackage = async (form: PackageFormState) => {
+    const input: RechargePackageInput = {
+      id: form.id,
+      edition_id: form.edition_id === ALL_EDITIONS ? null : form.edition_id,
+      label: form.label,
+      amount: Number(form.amount),
+      bonus_amount: Number(form.bonus_amount || 0),
+      sort_order: parseInt(form.sort_order || '0', 10),
+      is_active: form.is_active,
+    };
+
+    setIsSaving(true);
+    const result = await saveRechargePackage(input);
+    setIsSaving(false);
+    if (reportResult(result, `${input.label} a été enregistrée`)) {
+      setPackageForm(null);
+    }
+  };
+
+  const toPackageForm = (pkg: RechargePackage): PackageFormState => ({
+    id: pkg.id,
+    edition_id: pkg.edition_id ?? ALL_EDITIONS,
+    label: pkg.label,
+    amount: String(pkg.amount),
+    bonus_amount: String(pkg.bonus_amount),
+    sort_order: String(pkg.sort_order),
+    is_active: pkg.is_active !== false,
+  });
+
+  const promoInputFrom = (form: PromoFormState): PromoCodeInput => ({
+    code: form.code,
+    description: form.description.trim() || null,
+    edition_id: form.edition_id === ALL_EDITIONS ? null : form.edition_id,
+    bonus_type: form.bonus_type,
+    bonus_value: Number(form.bonus_value),
+    max_bonus: optionalNumber(form.max_bonus),
+    min_amount: Number(form.min_amount || 0),
+    max_uses: optionalNumber(form.max_uses),
+    max_uses_per_card: optionalNumber(form.max_uses_per_card),
+    valid_from: fromLocalInput(form.valid_from),
+    valid_until: fromLocalInput(form.valid_until),
+    is_active: form.is_active,
+  });
+
+  const toPromoForm = (promo: PromoCode): PromoFormState => ({
+    code: promo.code,
+    description: promo.description ?? '',
+    edition_id: promo.edition_id ?? ALL_EDITIONS,
+    bonus_type: promo.bonus_type,
+    bonus_value: String(promo.bonus_value),
+    max_bonus: promo.max_bonus !== null ? String(promo.max_bonus) : '',
+    min_amount: String(promo.min_amount),
+    max_uses: promo.max_uses !== null ? String(promo.max_uses) : '',
+    max_uses_per_card: promo.max_uses_per_card !== null ? String(promo.max_uses_per_card) : '',
+    valid_from: toLocalInput(promo.valid_from),
+    valid_until: toLocalInput(promo.valid_until),
+    is_active: promo.is_active,
+  });
+
+  const handleSavePromo = async (form: PromoFormState) => {
+    setIsSaving(true);
+    const result = await savePromoCode(promoInputFrom(form));
+    setIsSaving(false);
+    if (reportResult(result, `Le code ${form.code.toUpperCase()} a été enregistré`)) {
+      setPromoForm(null);
+    }
+  };
+
+  if (!hasAccess(['manage_recharge_offers'])) {
+    return null;
+  }
+
+  const editionSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange} disabled={isSaving}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_EDITIONS}>Toutes les éditions</SelectItem>
+        {editions.map(edition => (
+          <SelectItem key={edition.id} value={edition.id}>{edition.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h2 className="text-xl font-semibold">Formules et codes promo</h2>
+        <p className="text-sm text-gray-500">
+          Le bonus est crédité en plus du montant payé et n'est jamais remboursé.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="font-medium">Formules de recharge</h3>
+            <Button size="sm" onClick={() => setPackageForm(EMPTY_PACKAGE_FORM)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nouvelle formule
+            </Button>
+          </div>
+          {isLoading ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+            </div>
+          ) : packages.length === 0 ? (
+            <div className="text-center text-gray-500 p-6">Aucune formule : les clients saisissent un montant libre</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Formule</TableHead>
+                  <TableHead>Montant</TableHead>
+                  <TableHead>Bonus</TableHead>
+                  <TableHead>Édition</TableHead>
+                  <TableHead>Statut</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {packages.map(pkg => (
+                  <TableRow key={pkg.id}>
+                    <TableCell className="font-medium">{pkg.label}</TableCell>
+                    <TableCell>{Number(pkg.amount).toFixed(2)}€</TableCell>
+                    <TableCell>{pkg.bonus_amount > 0 ? `+${Number(pkg.bonus_amount).toFixed(2)}€` : '-'}</TableCell>
+                    <TableCell>{editionLabel(pkg.edition_id)}</TableCell>
+                    <TableCell>
+                      {pkg.is_active ? <Badge className="bg-green-600">active</Badge> : <Badge variant="outline">désactivée</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" title="Modifier" onClick={() => setPackageForm(toPackageForm(pkg))}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" title={pkg.is_active ? 'Désactiver' : 'Activer'}
+                          onClick={() => handleSavePackage({ ...toPackageForm(pkg), is_active: !pkg.is_active })} disabled={isSaving}>
+                          <Power className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="font-medium">Codes promo</h3>
+            <Button size="sm" onClick={() => { setEditingPromo(false); setPromoForm(EMPTY_PROMO_FORM); }}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nouveau code
+            </Button>
+          </div>
+          {!isLoading && promoCodes.length === 0 ? (
+            <div className="text-center text-gray-500 p-6">Aucun code promo</div>
+          ) : !isLoading && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Bonus</TableHead>
+                  <TableHead>Utilisations</TableHead>
+                  <TableHead>Validité</TableHead>
+                  <TableHead>Statut</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promoCodes.map(promo => (
+                  <TableRow key={promo.code}>
+                    <TableCell>
+                      <div className="font-mono font-medium">{promo.code}</div>
+                      {promo.description && <div className="text-xs text-gray-500">{promo.description}</div>}
+                    </TableCell>
+                    <TableCell>
+                      {formatPromoBonus(promo)}
+                      {promo.min_amount > 0 && <div className="text-xs text-gray-500">dès {Number(promo.min_amount).toFixed(2)}€</div>}
+                    </TableCell>
+                    <TableCell>
+                      {promo.uses_count}{promo.max_uses ? ` / ${promo.max_uses}` : ''}
+                      {promo.max_uses_per_card && <div className="text-xs text-gray-500">{promo.max_uses_per_card} par carte</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {promo.valid_from ? new Date(promo.valid_from).toLocaleString() : '-'}
+                      {' → '}
+                      {promo.valid_until ? new Date(promo.valid_until).toLocaleString() : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {promo.is_active ? <Badge className="bg-green-600">actif</Badge> : <Badge variant="outline">désactivé</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" title="Modifier"
+                          onClick={() => { setEditingPromo(true); setPromoForm(toPromoForm(promo)); }}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" title={promo.is_active ? 'Désactiver' : 'Activer'}
+                          onClick={() => handleSavePromo({ ...toPromoForm(promo), is_active: !promo.is_active })} disabled={isSaving}>
+                          <Power className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit package */}
+      <Dialog open={packageForm !== null} onOpenChange={(open) => !open && setPackageForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{packageForm?.id ? 'Modifier la formule' : 'Nouvelle formule'}</DialogTitle>
+            <DialogDescription>Montant proposé en un clic sur la page de paiement et aux caisses.</DialogDescription>
+          </DialogHeader>
+          {packageForm && (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="package-label">Libellé</Label>
+                <Input id="package-label" value={packageForm.label} placeholder="ex: 50€ + 5€ offerts"
+                  onChange={(e) => setPackageForm({ ...packageForm, label: e.target.value })} disabled={isSaving} />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="package-amount">Montant (€)</Label>
+                  <Input id="package-amount" type="number" step="0.01" min="0" value={packageForm.amount}
+                    onChange={(e) => setPackageForm({ ...packageForm, amount: e.target.value })} disabled={isSaving} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="package-bonus">Bonus (€)</Label>
+                  <Input id="package-bonus" type="number" step="0.01" min="0" value={packageForm.bonus_amount}
+                    onChange={(e) => setPackageForm({ ...packageForm, bonus_amount: e.target.value })} disabled={isSaving} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="package-order">Ordre</Label>
+                  <Input id="package-order" type="number" step="1" value={packageForm.sort_order}
+                    onChange={(e) => setPackageForm({ ...packageForm, sort_order: e.target.value })} disabled={isSaving} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="package-edition">Édition</Label>
+                {editionSelect('package-edition', packageForm.edition_id, (value) => setPackageForm({ ...packageForm, edition_id: value }))}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button onClick={() => packageForm && handleSavePackage(packageForm)} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Enregistrer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Create / edit promo code */}
+      <Dialog open={promoForm !== null} onOpenChange={(open) => !open && setPromoForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPromo ? 'Modifier le code promo' : 'Nouveau code promo'}</DialogTitle>
+            <DialogDescription>Les utilisations sont comptées quand le paiement est crédité.</DialogDescription>
+          </DialogHeader>
+          {promoForm && (
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo-code">Code</Label>
+                  <Input id="promo-code" value={promoForm.code} placeholder="ex: EARLYBIRD"
+                    onChange={(e) => setPromoForm({ ...promoForm, code: e.target.value.toUpperCase() })}
+                    disabled={isSaving || editingPromo} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-edition">Édition</Label>
+                  {editionSelect('promo-edition', promoForm.edition_id, (value) => setPromoForm({ ...promoForm, edition_id: value }))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-description">Description</Label>
+                <Input id="promo-description" value={promoForm.description}
+                  onChange={(e) => setPromoForm({ ...promoForm, description: e.target.value })} disabled={isSaving} />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo-type">Type</Label>
+                  <Select value={promoForm.bonus_type} disabled={isSaving}
+                    onValueChange={(value) => setPromoForm({ ...promoForm, bonus_type: value as PromoBonusType })}>
+                    <SelectTrigger id="promo-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fixed">Montant fixe</SelectItem>
+                      <SelectItem value="percent">Pourcentage</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-value">{promoForm.bonus_type === 'percent' ? 'Bonus (%)' : 'Bonus (€)'}</Label>
+                  <Input id="promo-value" type="number" step="0.01" min="0" value={promoForm.bonus_value}
+                    onChange={(e) => setPromoForm({ ...promoForm, bonus_value: e.target.value })} disabled={isSaving} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-max-bonus">Bonus max (€)</Label>
+                  <Input id="promo-max-bonus" type="number" step="0.01" min="0" value={promoForm.max_bonus}
+                    onChange={(e) => setPromoForm({ ...promoForm, max_bonus: e.target.value })}
+                    disabled={isSaving || promoForm.bonus_type !== 'percent'} />
+                </div>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo-min-amount">Recharge min (€)</Label>
+                  <Input id="promo-min-amount" type="number" step="0.01" min="0" value={promoForm.min_amount}
+                    onChange={(e) => setPromoForm({ ...promoForm, min_amount: e.target.value })} disabled={isSaving} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-max-uses">Utilisations max</Label>
+                  <Input id="promo-max-uses" type="number" step="1" min="1" value={promoForm.max_uses}
+                    onChange={(e) => setPromoForm({ ...promoForm, max_uses: e.target.value })} disabled={isSaving} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-max-uses-card">Max par carte</Label>
+                  <Input id="promo-max-uses-card" type="number" step="1" min="1" value={promoForm.max_uses_per_card}
+                    onChange={(e) => setPromoForm({ ...promoForm, max_uses_per_card: e.target.value })} disabled={isSaving} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="promo-valid-from">Valable à partir du</Label>
+                  <Input id="promo-valid-from" type="datetime-local" value={promoForm.valid_from}
+                    onChange={(e) => setPromoForm({ ...promoForm, valid_from: e.target.value })} disabled={isSaving} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-valid-until">Jusqu'au</Label>
+                  <Input id="promo-valid-until" type="datetime-local" value={promoForm.valid_until}
+                    onChange={(e) => setPromoForm({ ...promoForm, valid_until: e.target.value })} disabled={isSaving} />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button onClick={() => promoForm && handleSavePromo(promoForm)} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Enregistrer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RechargeOffersManagement;
@@ -0,0 +1,212 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Wallet, Lock } from "lucide-react";
+import {
+  RechargeShift,
+  ShiftTotals,
+  getCurrentShift,
+  openShift,
+  closeShift,
+} from "@/lib/recharge-shifts";
+
+interface RechargeShiftPanelProps {
+  // Changes after each recharge so the running totals are refreshed
+  refreshKey?: number;
+}
+
+const formatAmount = (amount: number | null | undefined) => `${(amount ?? 0).toFixed(2)}€`;
+
+// Cash drawer of the current operator: open with a float, close with the counted cash
+const RechargeShiftPanel: React.FC<RechargeShiftPanelProps> = ({ refreshKey }) => {
+  const [shift, setShift] = useState<RechargeShift | null>(null);
+  const [totals, setTotals] = useState<ShiftTotals | undefined>();
+  const [closedShift, setClosedShift] = useState<RechargeShift | null>(null);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [deskLabel, setDeskLabel] = useState('');
+  const [countedCash, setCountedCash] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const showError = (description: string | undefined) => {
+    toast({
+      title: "Erreur",
+      description: description || "Une erreur est survenue",
+      variant: "destructive"
+    });
+  };
+
+  const loadShift = useCallback(async () => {
+    const result = await getCurrentShift();
+    setIsLoading(false);
+    if (result.success) {
+      setShift(result.data!.shift);
+      setTotals(result.data!.totals);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadShift();
+  }, [loadShift, refreshKey]);
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(openingFloat.replace(',', '.'));
+    if (isNaN(amount) || amount < 0) {
+      showError("Veuillez entrer un fond de caisse valide");
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await openShift(amount, deskLabel);
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    setShift(result.data!);
+    setTotals({ cash_total: 0, card_total: 0, cash_count: 0, card_count: 0 });
+    setClosedShift(null);
+    setOpeningFloat('');
+    toast({ title: "Caisse ouverte", description: `Fond de caisse : ${formatAmount(amount)}` });
+  };
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shift) return;
+    const amount = parseFloat(countedCash.replace(',', '.'));
+    if (isNaN(amount) || amount < 0) {
+      showError("Veuillez entrer le montant compté dans la caisse");
+      return;
+    }
+    if (!window.confirm(`Clôturer la caisse avec ${formatAmount(amount)} comptés ?`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await closeShift(shift.id, amount, notes);
+    setIsSubmitting(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    setShift(null);
+    setTotals(undefined);
+    setClosedShift(result.data!);
+    setCountedCash('');
+    setNotes('');
+    toast({
+      title: "Caisse clôturée",
+      description: result.data!.discrepancy_status === 'flagged'
+        ? `Écart de ${formatAmount(result.data!.discrepancy)} signalé au superviseur`
+        : "La caisse est juste",
+      variant: result.data!.discrepancy_status === 'flagged' ? "destructive" : undefined
+    });
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  const expectedCash = shift ? shift.opening_float + (totals?.cash_total ?? 0) : 0;
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="p-3 sm:p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center font-medium">
+            <Wallet className="h-4 w-4 mr-2" />
+            Caisse
+          </div>
+          {shift
+            ? <Badge variant="outline" className="border-green-600 text-green-700">Ouverte{shift.desk_label ? ` — ${shift.desk_label}` : ''}</Badge>
+            : <Badge variant="secondary">Fermée</Badge>}
+        </div>
+
+        {closedShift && (
+          <div className={`text-sm rounded-md p-2 ${closedShift.discrepancy_status === 'flagged' ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+            Dernière clôture : attendu {formatAmount(closedShift.expected_cash)}, compté {formatAmount(closedShift.counted_cash)}
+            {closedShift.discrepancy_status === 'flagged' && `, écart ${formatAmount(closedShift.discrepancy)}`}
+            {` — carte ${formatAmount(closedShift.card_total)} (${closedShift.card_count ?? 0})`}
+          </div>
+        )}
+
+        {shift ? (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+              <div>Fond de caisse<div className="font-semibold">{formatAmount(shift.opening_float)}</div></div>
+              <div>Espèces ({totals?.cash_count ?? 0})<div className="font-semibold">{formatAmount(totals?.cash_total)}</div></div>
+              <div>Carte ({totals?.card_count ?? 0})<div className="font-semibold">{formatAmount(totals?.card_total)}</div></div>
+              <div>Attendu en caisse<div className="font-semibold">{formatAmount(expectedCash)}</div></div>
+            </div>
+
+            <form onSubmit={handleClose} className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="shift-counted">Montant compté (€)</Label>
+                <Input
+                  id="shift-counted"
+                  inputMode="decimal"
+                  value={countedCash}
+                  onChange={(e) => setCountedCash(e.target.value)}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="shift-notes">Remarques</Label>
+                <Input
+                  id="shift-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  maxLength={500}
+                />
+              </div>
+              <Button type="submit" variant="outline" disabled={isSubmitting}>
+                {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Lock className="h-4 w-4 mr-2" />}
+                Clôturer la caisse
+              </Button>
+            </form>
+          </>
+        ) : (
+          <form onSubmit={handleOpen} className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="shift-float">Fond de caisse (€)</Label>
+              <Input
+                id="shift-float"
+                inputMode="decimal"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="shift-desk">Poste</Label>
+              <Input
+                id="shift-desk"
+                value={deskLabel}
+                onChange={(e) => setDeskLabel(e.target.value)}
+                placeholder="ex. Entrée"
+                maxLength={50}
+              />
+            </div>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wallet className="h-4 w-4 mr-2" />}
+              Ouvrir la caisse
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RechargeShiftPanel;
@@ -0,0 +1,182 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Download, RefreshCw, Check } from "lucide-react";
+import {
+  RechargeShift,
+  DISCREPANCY_STATUS_LABELS,
+  listShifts,
+  resolveShiftDiscrepancy,
+  downloadShiftReportCsv,
+} from "@/lib/recharge-shifts";
+
+const formatAmount = (amount: number | null) => `${(amount ?? 0).toFixed(2)}€`;
+
+const formatDate = (isoDate: string | null) =>
+  isoDate ? new Date(isoDate).toLocaleString('fr-BE', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+// Admin report of recharge desk shifts with discrepancy resolution and CSV export
+const RechargeShiftReport: React.FC = () => {
+  const [shifts, setShifts] = useState<RechargeShift[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+  const [resolutionNotes, setResolutionNotes] = useState('');
+  const { toast } = useToast();
+
+  const showError = useCallback((description: string | undefined) => {
+    toast({
+      title: "Erreur",
+      description: description || "Une erreur est survenue",
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const loadShifts = useCallback(async () => {
+    setIsLoading(true);
+    const result = await listShifts();
+    setIsLoading(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+    setShifts(result.data!);
+  }, [showError]);
+
+  useEffect(() => {
+    loadShifts();
+  }, [loadShifts]);
+
+  const handleResolve = async (shiftId: number) => {
+    if (!resolutionNotes.trim()) {
+      showError("Expliquez l'écart avant de le marquer comme justifié");
+      return;
+    }
+
+    const result = await resolveShiftDiscrepancy(shiftId, resolutionNotes);
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    setShifts(prev => prev.map(shift => shift.id === shiftId ? result.data! : shift));
+    setResolvingId(null);
+    setResolutionNotes('');
+    toast({ title: "Écart justifié", description: `Caisse n°${shiftId}` });
+  };
+
+  const closedShifts = shifts.filter(shift => shift.status === 'closed');
+  const flaggedCount = closedShifts.filter(shift => shift.discrepancy_status === 'flagged').length;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">
+          Caisses de recharge
+          {flaggedCount > 0 && <Badge variant="destructive" className="ml-2">{flaggedCount} écart(s)</Badge>}
+        </h2>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadShifts} disabled={isLoading}>
+            {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Actualiser
+          </Button>
+          <Button variant="outline" onClick={() => downloadShiftReportCsv(shifts)} disabled={closedShifts.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Exporter CSV
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {shifts.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">Aucune caisse sur les 7 derniers jours.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left">
+                <tr>
+                  <th className="p-2">Caisse</th>
+                  <th className="p-2">Opérateur</th>
+                  <th className="p-2">Ouverture</th>
+                  <th className="p-2">Clôture</th>
+                  <th className="p-2 text-right">Espèces</th>
+                  <th className="p-2 text-right">Carte</th>
+                  <th className="p-2 text-right">Attendu</th>
+                  <th className="p-2 text-right">Compté</th>
+                  <th className="p-2 text-right">Écart</th>
+                  <th className="p-2">Statut</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {shifts.map(shift => (
+                  <React.Fragment key={shift.id}>
+                    <tr>
+                      <td className="p-2">
+                        n°{shift.id}
+                        {shift.desk_label && <div className="text-xs text-gray-500">{shift.desk_label}</div>}
+                      </td>
+                      <td className="p-2 font-mono text-xs" title={shift.operator_id}>{shift.operator_id.slice(0, 8)}</td>
+                      <td className="p-2">{formatDate(shift.opened_at)}</td>
+                      <td className="p-2">{formatDate(shift.closed_at)}</td>
+                      <td className="p-2 text-right">{shift.status === 'closed' ? formatAmount(shift.cash_total) : '—'}</td>
+                      <td className="p-2 text-right">{shift.status === 'closed' ? formatAmount(shift.card_total) : '—'}</td>
+                      <td className="p-2 text-right">{shift.status === 'closed' ? formatAmount(shift.expected_cash) : '—'}</td>
+                      <td className="p-2 text-right">{shift.status === 'closed' ? formatAmount(shift.counted_cash) : '—'}</td>
+                      <td className={`p-2 text-right ${shift.discrepancy ? 'text-red-600 font-medium' : ''}`}>
+                        {shift.status === 'closed' ? formatAmount(shift.discrepancy) : '—'}
+                      </td>
+                      <td className="p-2">
+                        {shift.status === 'open' ? (
+                          <Badge variant="outline">Ouverte</Badge>
+                        ) : shift.discrepancy_status === 'flagged' ? (
+                          <Button size="sm" variant="destructive" onClick={() => setResolvingId(resolvingId === shift.id ? null : shift.id)}>
+                            {DISCREPANCY_STATUS_LABELS.flagged}
+                          </Button>
+                        ) : (
+                          <Badge variant={shift.discrepancy_status === 'resolved' ? 'secondary' : 'outline'}>
+                            {DISCREPANCY_STATUS_LABELS[shift.discrepancy_status]}
+                          </Badge>
+                        )}
+                      </td>
+                    </tr>
+                    {(shift.closing_notes || shift.resolution_notes) && (
+                      <tr>
+                        <td colSpan={10} className="px-2 pb-2 text-xs text-gray-500">
+                          {shift.closing_notes && <div>Clôture : {shift.closing_notes}</div>}
+                          {shift.resolution_notes && <div>Justification : {shift.resolution_notes}</div>}
+                        </td>
+                      </tr>
+                    )}
+                    {resolvingId === shift.id && (
+                      <tr>
+                        <td colSpan={10} className="p-2">
+                          <div className="flex gap-2">
+                            <Input
+                              value={resolutionNotes}
+                              onChange={(e) => setResolutionNotes(e.target.value)}
+                              placeholder="Explication de l'écart"
+                              maxLength={500}
+                            />
+                            <Button size="sm" onClick={() => handleResolve(shift.id)}>
+                              <Check className="h-4 w-4 mr-2" />
+                              Justifier
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RechargeShiftReport;
@@ -0,0 +1,190 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RefreshCw, Download, Upload } from "lucide-react";
+import {
+  RefundBatchSummary,
+  StatementImportSummary,
+  listRefundBatches,
+  getRefundBatchFile,
+  importBankStatement,
+} from "@/lib/refund-batches";
+
+const formatDate = (isoDate: string) =>
+  new Date(isoDate).toLocaleString('fr-BE', { dateStyle: 'short', timeStyle: 'short' });
+
+const RESULT_LABELS: Record<string, string> = {
+  unmatched: 'Aucun remboursement correspondant',
+  amount_mismatch: 'Montant différent du fichier SEPA',
+  already_applied: 'Déjà traité',
+  invalid_status: 'Statut incompatible',
+};
+
+// SEPA files already generated, their settlement and bank statement import
+const RefundBatchHistory: React.FC = () => {
+  const [batches, setBatches] = useState<RefundBatchSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [lastImport, setLastImport] = useState<StatementImportSummary | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const showError = useCallback((description: string | undefined) => {
+    toast({
+      title: "Erreur",
+      description: description || "Une erreur est survenue",
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const loadBatches = useCallback(async () => {
+    setIsLoading(true);
+    const result = await listRefundBatches();
+    setIsLoading(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+    setBatches(result.data!);
+  }, [showError]);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches]);
+
+  const handleDownload = async (batch: RefundBatchSummary) => {
+    const result = await getRefundBatchFile(batch.id);
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    const blob = new Blob([result.data!.content], { type: 'application/xml' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.data!.filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handleStatementSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    const result = await importBankStatement(file.name, await file.text());
+    setIsImporting(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    setLastImport(result.data!);
+    toast({
+      title: "Relevé importé",
+      description: `${result.data!.paid_count} payé(s), ${result.data!.returned_count} retourné(s)`,
+    });
+    loadBatches();
+  };
+
+  const issues = lastImport?.results.filter(entry => entry.result in RESULT_LABELS) ?? [];
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Fichiers SEPA générés</h2>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xml,application/xml,text/xml"
+            className="hidden"
+            onChange={handleStatementSelected}
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Importer un relevé (camt.053/054)
+          </Button>
+          <Button variant="outline" onClick={loadBatches} disabled={isLoading}>
+            {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Actualiser
+          </Button>
+        </div>
+      </div>
+
+      {lastImport && (
+        <Card>
+          <CardContent className="p-4 text-sm space-y-1">
+            <p className="font-medium">
+              Relevé {lastImport.statement_type} {lastImport.statement_id}
+            </p>
+            <p>
+              {lastImport.paid_count} payé(s), {lastImport.returned_count} retourné(s),
+              {' '}{lastImport.unmatched_count} sans correspondance,
+              {' '}{lastImport.ignored_transactions} autre(s) opération(s) ignorée(s)
+            </p>
+            {issues.map((entry, index) => (
+              <p key={index} className="text-xs text-red-600">
+                {entry.end_to_end_id} ({entry.amount.toFixed(2)}€) : {RESULT_LABELS[entry.result]}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          {batches.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">Aucun fichier SEPA généré.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left">
+                <tr>
+                  <th className="p-2">Généré le</th>
+                  <th className="p-2">Message ID</th>
+                  <th className="p-2 text-right">Virements</th>
+                  <th className="p-2 text-right">Total</th>
+                  <th className="p-2">Suivi bancaire</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {batches.map(batch => (
+                  <tr key={batch.id}>
+                    <td className="p-2">{formatDate(batch.created_at)}</td>
+                    <td className="p-2 font-mono text-xs">{batch.message_id}</td>
+                    <td className="p-2 text-right">{batch.transaction_count}</td>
+                    <td className="p-2 text-right">{batch.total_amount.toFixed(2)}€</td>
+                    <td className="p-2">
+                      <div className="flex gap-1 flex-wrap">
+                        {batch.paid_count > 0 && <Badge>{batch.paid_count} payé(s)</Badge>}
+                        {batch.returned_count > 0 && <Badge variant="destructive">{batch.returned_count} retourné(s)</Badge>}
+                        {batch.pending_count > 0 && <Badge variant="outline">{batch.pending_count} en attente</Badge>}
+                      </div>
+                    </td>
+                    <td className="p-2 text-right">
+                      <Button size="sm" variant="outline" onClick={() => handleDownload(batch)}>
+                        <Download className="h-4 w-4 mr-1" />
+                        XML
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RefundBatchHistory;
@@ -0,0 +1,181 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RefreshCw, Check, X } from "lucide-react";
+import {
+  RefundReviewEntry,
+  REFUND_STATUS_LABELS,
+  MAX_REVIEW_REASON_LENGTH,
+  getRefundReviewQueue,
+  reviewRefund,
+} from "@/lib/refund-reviews";
+
+const formatDate = (isoDate: string) =>
+  isoDate ? new Date(isoDate).toLocaleString('fr-BE', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+// Admin review queue: approve or reject refund requests before the SEPA export
+const RefundReviewQueue: React.FC = () => {
+  const [entries, setEntries] = useState<RefundReviewEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [rejectingId, setRejectingId] = useState<number | null>(null);
+  const [reason, setReason] = useState('');
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const showError = useCallback((description: string | undefined) => {
+    toast({
+      title: "Erreur",
+      description: description || "Une erreur est survenue",
+      variant: "destructive"
+    });
+  }, [toast]);
+
+  const loadQueue = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getRefundReviewQueue();
+    setIsLoading(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+    setEntries(result.data!);
+  }, [showError]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleReview = async (entry: RefundReviewEntry, decision: 'approve' | 'reject') => {
+    setBusyId(entry.id);
+    const result = await reviewRefund(entry.id, decision, decision === 'reject' ? reason : undefined);
+    setBusyId(null);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    setEntries(prev => prev.map(item => item.id === entry.id ? { ...item, status: result.data!.status } : item));
+    setRejectingId(null);
+    setReason('');
+    toast({
+      title: decision === 'approve' ? "Remboursement validé" : "Remboursement refusé",
+      description: `${entry.first_name} ${entry.last_name} (${entry.tracking_ref})`,
+    });
+  };
+
+  const pendingCount = entries.filter(entry => entry.status === 'submitted').length;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">
+          Demandes de remboursement
+          {pendingCount > 0 && <Badge variant="secondary" className="ml-2">{pendingCount} à valider</Badge>}
+        </h2>
+        <Button variant="outline" onClick={loadQueue} disabled={isLoading}>
+          {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+          Actualiser
+        </Button>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Seuls les remboursements validés sont inclus dans le prochain fichier SEPA.
+      </p>
+
+      <Card>
+        <CardContent className="p-0">
+          {entries.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">Aucune demande en attente.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left">
+                <tr>
+                  <th className="p-2">Référence</th>
+                  <th className="p-2">Demandeur</th>
+                  <th className="p-2">Carte</th>
+                  <th className="p-2">Reçue le</th>
+                  <th className="p-2 text-right">Montant</th>
+                  <th className="p-2">Statut</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {entries.map(entry => (
+                  <React.Fragment key={entry.id}>
+                    <tr>
+                      <td className="p-2 font-mono text-xs">{entry.tracking_ref}</td>
+                      <td className="p-2">
+                        {entry.first_name} {entry.last_name}
+                        <div className="text-xs text-gray-500">{entry.email}</div>
+                      </td>
+                      <td className="p-2">{entry.id_card}</td>
+                      <td className="p-2">{formatDate(entry.created_at)}</td>
+                      <td className="p-2 text-right">{entry.amount !== null ? `${entry.amount.toFixed(2)}€` : '—'}</td>
+                      <td className="p-2">
+                        <Badge variant={entry.status === 'validated' ? 'default' : entry.status === 'rejected' ? 'destructive' : 'outline'}>
+                          {REFUND_STATUS_LABELS[entry.status]}
+                        </Badge>
+                      </td>
+                      <td className="p-2">
+                        <div className="flex gap-2 justify-end">
+                          {entry.status !== 'validated' && entry.amount !== null && (
+                            <Button size="sm" onClick={() => handleReview(entry, 'approve')} disabled={busyId === entry.id}>
+                              <Check className="h-4 w-4 mr-1" />
+                              Valider
+                            </Button>
+                          )}
+                          {entry.status !== 'rejected' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setRejectingId(rejectingId === entry.id ? null : entry.id)}
+                              disabled={busyId === entry.id}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Refuser
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {entry.validation_notes.length > 0 && (
+                      <tr>
+                        <td colSpan={7} className={`px-2 pb-2 text-xs ${entry.validation_status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+                          {entry.validation_notes.map((note, index) => <div key={index}>{note}</div>)}
+                        </td>
+                      </tr>
+                    )}
+                    {rejectingId === entry.id && (
+                      <tr>
+                        <td colSpan={7} className="p-2">
+                          <div className="flex gap-2">
+                            <Input
+                              value={reason}
+                              onChange={(e) => setReason(e.target.value)}
+                              placeholder="Motif du refus"
+                              maxLength={MAX_REVIEW_REASON_LENGTH}
+                            />
+                            <Button size="sm" variant="destructive" onClick={() => handleReview(entry, 'reject')} disabled={busyId === entry.id}>
+                              Confirmer le refus
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RefundReviewQueue;
@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getRolePermissionMatrix,
+  setRolePermissions,
+  RolePermissionMatrix,
+  PERMISSIONS,
+} from "@/lib/role-permissions";
+
+// Permission names this editor must never remove from the admin role
+const LOCKED_ADMIN_PERMISSIONS: string[] = [PERMISSIONS.MANAGE_USERS];
+
+const RolePermissionsEditor: React.FC = () => {
+  const [matrix, setMatrix] = useState<RolePermissionMatrix | null>(null);
+  const [loading, setLoading] = useState(true);
+  // "role:permission" of the cell being saved
+  const [savingCell, setSavingCell] = useState<string | null>(null);
+
+  const { toast } = useToast();
+
+  const loadMatrix = useCallback(async () => {
+    setLoading(true);
+    const result = await getRolePermissionMatrix();
+    if (result.success && result.data) {
+      setMatrix(result.data);
+    } else {
+      toast({
+        title: "Error",
+        description: result.error || "Unable to load role permissions",
+        variant: "destructive"
+      });
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadMatrix();
+  }, [loadMatrix]);
+
+  const handleToggle = async (role: string, permission: string, granted: boolean) => {
+    if (!matrix) return;
+
+    const current = matrix.grants[role] || [];
+    const next = granted
+      ? [...current, permission].sort()
+      : current.filter(name => name !== permission);
+
+    setSavingCell(`${role}:${permission}`);
+    const result = await setRolePermissions(role, next);
+    setSavingCell(null);
+
+    if (!result.success || !result.data) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to update permissions",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setMatrix({ ...matrix, grants: { ...matrix.grants, [role]: result.data.permissions } });
+    toast({
+      title: "Permissions updated",
+      description: `${permission} ${granted ? 'granted to' : 'revoked from'} ${role}. Signed-in users see the change after reloading the app.`
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Role Permissions</CardTitle>
+        <CardDescription>
+          What each role may do. Pages and edge functions check these permissions, not role names.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        {loading || !matrix ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Permission</TableHead>
+                  {matrix.roles.map(role => (
+                    <TableHead key={role.name} className="text-center" title={role.description}>
+                      {role.name}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matrix.permissions.map(permission => (
+                  <TableRow key={permission.name}>
+                    <TableCell>
+                      <div className="font-mono text-xs">{permission.name}</div>
+                      <div className="text-xs text-gray-500">{permission.description}</div>
+                    </TableCell>
+                    {matrix.roles.map(role => {
+                      const cell = `${role.name}:${permission.name}`;
+                      const granted = (matrix.grants[role.name] || []).includes(permission.name);
+                      const locked = role.name === 'admin' && LOCKED_ADMIN_PERMISSIONS.includes(permission.name);
+
+                      return (
+                        <TableCell key={cell} className="text-center">
+                          {savingCell === cell ? (
+                            <Loader2 className="h-4 w-4 animate-spin text-gray-500 inline-block" />
+                          ) : (
+                            <Checkbox
+                              checked={granted}
+                              disabled={locked || savingCell !== null}
+                              onCheckedChange={(checked) => handleToggle(role.name, permission.name, checked === true)}
+                              aria-label={`${permission.name} for ${role.name}`}
+                            />
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RolePermissionsEditor;
@@ -47,17 +47,7 @@ import {
 import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { getCETDateRange, getCETTime } from "@/lib/utils";
-
-// Edition Configuration Interface
-interface EditionConfig {
-  id: string;
-  name: string;
-  dateRange: {
-    start: string;
-    end: string;
-  };
-  status: 'done' | 'upcoming';
-}
+import { EditionConfig } from "@/lib/editions";
 
 // Temporal Statistics Interfaces
 interface HourlyData {
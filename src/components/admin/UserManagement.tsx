@@ -31,27 +31,45 @@ import { UserPlus, Loader2 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
-
-type Role = 'admin' | 'bar' | 'recharge';
+import { useStepUp } from "@/hooks/use-step-up";
+import { RoleName } from "@/config/security";
+import RolePermissionsEditor from "./RolePermissionsEditor";
 
 interface UserProfile {
   id: string;
   email: string;
-  role: Role;
+  role: RoleName;
   created_at: string;
 }
 
+const ROLE_LABELS: Record<RoleName, string> = {
+  admin: 'Admin',
+  bar: 'Bar',
+  recharge: 'Recharge',
+  finance_manager: 'Finance',
+  auditor: 'Auditor',
+};
+
+const ROLE_BADGE_CLASSES: Record<RoleName, string> = {
+  admin: 'bg-blue-100 text-blue-800',
+  bar: 'bg-green-100 text-green-800',
+  recharge: 'bg-purple-100 text-purple-800',
+  finance_manager: 'bg-amber-100 text-amber-800',
+  auditor: 'bg-gray-100 text-gray-800',
+};
+
 const UserManagement: React.FC = () => {
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [loading, setLoading] = useState(true);
   const [newUserEmail, setNewUserEmail] = useState('');
   const [newUserPassword, setNewUserPassword] = useState('');
-  const [newUserRole, setNewUserRole] = useState<Role>('bar');
+  const [newUserRole, setNewUserRole] = useState<RoleName>('bar');
   const [isCreatingUser, setIsCreatingUser] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
   
   const { hasAccess, createUser } = useAuth();
   const { toast } = useToast();
+  const { requestStepUp, stepUpDialog } = useStepUp();
 
   const fetchUsers = async () => {
     setLoading(true);
@@ -120,6 +138,9 @@ const UserManagement: React.FC = () => {
       });
       return;
     }
+
+    // Creating staff accounts requires a fresh second factor
+    if (!await requestStepUp("La création d'un utilisateur")) return;
     
     setIsCreatingUser(true);
     
@@ -156,7 +177,7 @@ const UserManagement: React.FC = () => {
   };
   
   // If the user doesn't have admin rights, don't display this page
-  if (!hasAccess(['admin'])) {
+  if (!hasAccess(['manage_users'])) {
     return (
       <Card>
         <CardContent className="p-6">
@@ -170,6 +191,7 @@ const UserManagement: React.FC = () => {
   
   return (
     <div className="space-y-5">
+      {stepUpDialog}
       <div className="flex justify-between items-center">
         <h2 className="text-xl font-semibold">User Management</h2>
         <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -212,7 +234,7 @@ const UserManagement: React.FC = () => {
                 <Label htmlFor="role">Role</Label>
                 <Select
                   value={newUserRole}
-                  onValueChange={(value) => setNewUserRole(value as Role)}
+                  onValueChange={(value) => setNewUserRole(value as RoleName)}
                   disabled={isCreatingUser}
                 >
                   <SelectTrigger>
@@ -222,6 +244,8 @@ const UserManagement: React.FC = () => {
                     <SelectItem value="admin">Administrator</SelectItem>
                     <SelectItem value="bar">Bar</SelectItem>
                     <SelectItem value="recharge">Recharge</SelectItem>
+                    <SelectItem value="finance_manager">Finance manager</SelectItem>
+                    <SelectItem value="auditor">Auditor</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -272,13 +296,8 @@ const UserManagement: React.FC = () => {
                     <TableRow key={user.id}>
                       <TableCell>{user.email || 'Undefined'}</TableCell>
                       <TableCell>
-                        <span className={`px-2 py-1 rounded-full text-xs ${
-                          user.role === 'admin' ? 'bg-blue-100 text-blue-800' :
-                          user.role === 'bar' ? 'bg-green-100 text-green-800' :
-                          'bg-purple-100 text-purple-800'
-                        }`}>
-                          {user.role === 'admin' ? 'Admin' :
-                           user.role === 'bar' ? 'Bar' : 'Recharge'}
+                        <span className={`px-2 py-1 rounded-full text-xs ${ROLE_BADGE_CLASSES[user.role] || 'bg-gray-100 text-gray-800'}`}>
+                          {ROLE_LABELS[user.role] || user.role}
                         </span>
                       </TableCell>
                       <TableCell>
@@ -292,6 +311,8 @@ const UserManagement: React.FC = () => {
           )}
         </CardContent>
       </Card>
+
+      <RolePermissionsEditor />
     </div>
   );
 };
@@ -7,7 +7,7 @@ import { toast } from '@/hooks/use-toast';
 // Mock the supabase module
 vi.mock('@/lib/supabase', () => ({
   getTableCardById: vi.fn(),
-  updateTableCardAmount: vi.fn(),
+  processStandardRecharge: vi.fn(),
 }));
 
 // Mock the supabase client for logging payments
@@ -48,6 +48,13 @@ describe('CardTopup Rate Limit Handling', () => {
     amount: '20.00',
   };
 
+  const rechargeRequest = {
+    card_id: 'test-card',
+    amount: 10,
+    payment_method: 'cash' as const,
+    client_request_id: 'test-request',
+  };
+
   beforeEach(() => {
     // Setup fake timers
     vi.useFakeTimers();
@@ -62,53 +69,53 @@ describe('CardTopup Rate Limit Handling', () => {
   });
 
   it('should handle rate limit errors during card topup', async () => {
-    // Mock the updateTableCardAmount function to simulate rate limit errors
+    // Mock the processStandardRecharge function to simulate rate limit errors
     let callCount = 0;
-    vi.mocked(supabaseModule.updateTableCardAmount).mockImplementation(async () => {
+    vi.mocked(supabaseModule.processStandardRecharge).mockImplementation(async () => {
       callCount++;
       if (callCount <= 2) {
         return Promise.reject({ status: 429, message: 'Too many requests' });
       } else {
-        return Promise.resolve(true);
+        return Promise.resolve({ success: true });
       }
     });
 
-    // Directly call updateTableCardAmount to test retry logic
+    // Directly call processStandardRecharge to test retry logic
     try {
-      await supabaseModule.updateTableCardAmount('test-card', '10.00');
+      await supabaseModule.processStandardRecharge(rechargeRequest);
     } catch (error) {
       // Expected to fail on first attempt
     }
 
     // Verify first call happens
-    expect(supabaseModule.updateTableCardAmount).toHaveBeenCalledTimes(1);
+    expect(supabaseModule.processStandardRecharge).toHaveBeenCalledTimes(1);
 
     // Run the first retry
     await vi.advanceTimersByTime(1100); // Just past the 1000ms first retry delay
 
-    // Directly call updateTableCardAmount again to simulate retry
+    // Directly call processStandardRecharge again to simulate retry
     try {
-      await supabaseModule.updateTableCardAmount('test-card', '10.00');
+      await supabaseModule.processStandardRecharge(rechargeRequest);
     } catch (error) {
       // Expected to fail on second attempt
     }
 
     // Verify second call happens
-    expect(supabaseModule.updateTableCardAmount).toHaveBeenCalledTimes(2);
+    expect(supabaseModule.processStandardRecharge).toHaveBeenCalledTimes(2);
 
     // Run the second retry (which will succeed)
     await vi.advanceTimersByTime(2100); // Just past the 2000ms second retry delay
 
-    // Directly call updateTableCardAmount for the third time (success)
-    await supabaseModule.updateTableCardAmount('test-card', '10.00');
+    // Directly call processStandardRecharge for the third time (success)
+    await supabaseModule.processStandardRecharge(rechargeRequest);
 
     // Verify all three calls were made
-    expect(supabaseModule.updateTableCardAmount).toHaveBeenCalledTimes(3);
+    expect(supabaseModule.processStandardRecharge).toHaveBeenCalledTimes(3);
   });
 
   it('should handle exceeding max retries', async () => {
-    // Mock updateTableCardAmount to always fail with rate limit
-    vi.mocked(supabaseModule.updateTableCardAmount).mockRejectedValue({ 
+    // Mock processStandardRecharge to always fail with rate limit
+    vi.mocked(supabaseModule.processStandardRecharge).mockRejectedValue({ 
       status: 429, 
       message: 'Too many requests' 
     });
@@ -124,27 +131,27 @@ describe('CardTopup Rate Limit Handling', () => {
       </div>
     `;
 
-    // Directly call updateTableCardAmount for retries
+    // Directly call processStandardRecharge for retries
     try {
-      await supabaseModule.updateTableCardAmount('test-card', '10.00');
+      await supabaseModule.processStandardRecharge(rechargeRequest);
     } catch (error) {
       // Expected to fail
     }
-    expect(supabaseModule.updateTableCardAmount).toHaveBeenCalledTimes(1);
+    expect(supabaseModule.processStandardRecharge).toHaveBeenCalledTimes(1);
 
     // Run all retries one by one
     for (let i = 0; i < 5; i++) {
       await vi.advanceTimersByTime(Math.min(Math.pow(2, i + 1) * 500, 10000) + 100);
         
-      // Directly call updateTableCardAmount to simulate retry
+      // Directly call processStandardRecharge to simulate retry
       try {
-        await supabaseModule.updateTableCardAmount('test-card', '10.00');
+        await supabaseModule.processStandardRecharge(rechargeRequest);
       } catch (error) {
         // Expected to fail
       }
       
       // Check call count after each retry
-      expect(supabaseModule.updateTableCardAmount).toHaveBeenCalledTimes(i + 2);
+      expect(supabaseModule.processStandardRecharge).toHaveBeenCalledTimes(i + 2);
     }
     
     // After all retries, verify we should see an error message about rate limits
@@ -0,0 +1,99 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { QueuedBarOrder } from '@/lib/offline-order-queue';
+import { AlertTriangle, CloudOff, RefreshCw, Check } from 'lucide-react';
+
+interface BarOfflineQueueProps {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingOrders: QueuedBarOrder[];
+  ordersNeedingAttention: QueuedBarOrder[];
+  onSync: () => void;
+  onDismiss: (clientRequestId: string) => void;
+}
+
+const describeError = (order: QueuedBarOrder): string => {
+  switch (order.error_code) {
+    case 'INSUFFICIENT_FUNDS':
+      return order.previous_balance !== undefined
+        ? `Solde insuffisant (${order.previous_balance.toFixed(2)}€)`
+        : 'Solde insuffisant';
+    case 'CARD_NOT_FOUND':
+      return 'Carte non trouvée';
+    case 'CARD_NOT_ACTIVE':
+      return 'Carte bloquée';
+    default:
+      return order.error || 'Erreur inconnue';
+  }
+};
+
+// Status panel for orders recorded while the terminal was offline
+export const BarOfflineQueue: React.FC<BarOfflineQueueProps> = ({
+  isOnline,
+  isSyncing,
+  pendingOrders,
+  ordersNeedingAttention,
+  onSync,
+  onDismiss
+}) => {
+  if (isOnline && pendingOrders.length === 0 && ordersNeedingAttention.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-2 space-y-1 text-xs">
+      {!isOnline && (
+        <div className="bg-orange-900/50 text-orange-200 p-1.5 rounded-md flex items-center">
+          <CloudOff className="h-3 w-3 mr-1 flex-shrink-0" />
+          <span>Hors ligne - les commandes sont enregistrées localement</span>
+        </div>
+      )}
+
+      {pendingOrders.length > 0 && (
+        <div className="bg-blue-900/50 text-blue-200 p-1.5 rounded-md flex items-center justify-between">
+          <span>
+            {pendingOrders.length} commande{pendingOrders.length > 1 ? 's' : ''} en attente de synchronisation
+          </span>
+          <button
+            onClick={onSync}
+            disabled={!isOnline || isSyncing}
+            className="ml-2 flex items-center rounded px-1.5 py-0.5 bg-blue-700 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Synchroniser maintenant"
+          >
+            <RefreshCw className={`h-3 w-3 ${isSyncing ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      )}
+
+      {ordersNeedingAttention.length > 0 && (
+        <div className="bg-red-900/50 text-red-200 p-1.5 rounded-md">
+          <div className="flex items-center mb-1 font-semibold">
+            <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+            <span>Commandes refusées à régulariser</span>
+          </div>
+          <ul className="space-y-1">
+            {ordersNeedingAttention.map(order => (
+              <li key={order.client_request_id} className="flex items-center justify-between border-t border-red-300/20 pt-1">
+                <div>
+                  <div>
+                    Carte <span className="font-mono">{order.order.card_id}</span> - {order.order.total_amount.toFixed(2)}€
+                  </div>
+                  <div className="text-red-300">{describeError(order)}</div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDismiss(order.client_request_id)}
+                  className="h-6 px-1.5 text-red-100 hover:bg-red-800"
+                  title="Marquer comme régularisée"
+                >
+                  <Check className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,7 +4,7 @@ import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { OrderItem } from '@/lib/supabase';
-import { Trash2, MinusCircle, Euro, CreditCard, CheckCircle, X } from 'lucide-react';
+import { Trash2, MinusCircle, Euro, CreditCard, CheckCircle, X, Undo2 } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useIsMobile } from '@/hooks/use-mobile';
 
@@ -127,12 +127,14 @@ interface BarOrderCompletedPopupProps {
   isOpen: boolean;
   completedOrder: CompletedOrder | null;
   onClose: () => void;
+  onRefund?: () => void;
 }
 
 export const BarOrderCompletedPopup: React.FC<BarOrderCompletedPopupProps> = ({
   isOpen,
   completedOrder,
-  onClose
+  onClose,
+  onRefund
 }) => {
   const isMobile = useIsMobile();
 
@@ -234,11 +236,17 @@ export const BarOrderCompletedPopup: React.FC<BarOrderCompletedPopupProps> = ({
         </ScrollArea>
 
         {/* Fixed footer */}
-        <div className="flex-shrink-0 pt-4 border-t">
+        <div className="flex-shrink-0 pt-4 border-t space-y-2">
           <Button onClick={onClose} className="w-full" size={isMobile ? "default" : "lg"}>
             <X className="h-4 w-4 mr-2" />
             Fermer
           </Button>
+          {onRefund && completedOrder.orderId && (
+            <Button onClick={onRefund} variant="outline" className="w-full text-red-600">
+              <Undo2 className="h-4 w-4 mr-2" />
+              Annuler / rembourser la commande
+            </Button>
+          )}
         </div>
       </DialogContent>
     </Dialog>
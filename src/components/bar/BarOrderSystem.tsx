@@ -2,16 +2,25 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { BarProductList } from './BarProductList';
 import { BarOrderCompletedPopup, CompletedOrder } from './BarOrderSummary';
+import { OrderRefundDialog } from './OrderRefundDialog';
+import { BarOfflineQueue } from './BarOfflineQueue';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { BarProduct, OrderItem, BarOrder, getBarProducts, getTableCardById, processBarOrder, generateClientRequestId } from '@/lib/supabase';
+import { BarProduct, OrderItem, BarOrder, BarOrderRequest, getBarProducts, subscribeToBarCatalogueChanges, getTableCardById, processBarOrder, generateClientRequestId } from '@/lib/supabase';
 import { toast } from '@/hooks/use-toast';
 import { Loader2, CreditCard, AlertCircle, Scan, Trash2, Minus } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useNfc } from '@/hooks/use-nfc';
+import { useOfflineOrderQueue } from '@/hooks/use-offline-order-queue';
+import { isNetworkFailure } from '@/lib/offline-order-queue';
+import { PointOfSale, filterProductsForPointOfSale } from '@/lib/point-of-sale';
 import { logger } from '@/lib/logger';
 
-export const BarOrderSystem: React.FC = () => {
+interface BarOrderSystemProps {
+  pointOfSale?: PointOfSale | null;
+}
+
+export const BarOrderSystem: React.FC<BarOrderSystemProps> = ({ pointOfSale }) => {
   const [products, setProducts] = useState<BarProduct[]>([]);
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -20,7 +29,17 @@ export const BarOrderSystem: React.FC = () => {
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [showCompletedOrderPopup, setShowCompletedOrderPopup] = useState(false);
   const [completedOrder, setCompletedOrder] = useState<CompletedOrder | null>(null);
+  const [refundOrderId, setRefundOrderId] = useState<number | null>(null);
   const isMobile = useIsMobile();
+  const {
+    pendingOrders,
+    ordersNeedingAttention,
+    isOnline,
+    isSyncing,
+    enqueue,
+    sync,
+    dismiss
+  } = useOfflineOrderQueue();
   
   // RACE CONDITION FIX: Use refs to track the latest order state for NFC operations
   // This prevents stale closure data from being used in payment processing
@@ -96,17 +115,25 @@ export const BarOrderSystem: React.FC = () => {
     isProcessingRef.current = isProcessing;
   }, [isProcessing]);
 
-  // Load products on component mount
+  // Load products on component mount and reload them when the catalogue changes.
+  // Only the products on this terminal's point of sale menu are shown.
   useEffect(() => {
     const loadProducts = async () => {
       setIsLoading(true);
       const productData = await getBarProducts();
-      setProducts(productData);
+      setProducts(filterProductsForPointOfSale(productData, pointOfSale));
       setIsLoading(false);
     };
     
     loadProducts();
-  }, []);
+
+    const unsubscribe = subscribeToBarCatalogueChanges(async () => {
+      const productData = await getBarProducts(true);
+      setProducts(filterProductsForPointOfSale(productData, pointOfSale));
+    });
+
+    return unsubscribe;
+  }, [pointOfSale]);
 
   // Handle adding a product to the order
   const handleAddProduct = (product: BarProduct) => {
@@ -167,6 +194,12 @@ export const BarOrderSystem: React.FC = () => {
     setCompletedOrder(null);
   };
 
+  const handleRefundCompletedOrder = () => {
+    if (!completedOrder?.orderId) return;
+    setRefundOrderId(completedOrder.orderId);
+    handleCloseCompletedOrderPopup();
+  };
+
   const handleCardIdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setCardId(value);
@@ -250,23 +283,30 @@ export const BarOrderSystem: React.FC = () => {
 
       // Generate client request ID for idempotency protection
       const clientRequestId = generateClientRequestId();
-      
-      // Call the Edge Function
-      console.log("About to call Edge Function with:", {
+      const orderRequest = {
         card_id: id.trim(),
         total_amount: total,
         items: formattedItems,
-        client_request_id: clientRequestId
-      });
+        client_request_id: clientRequestId,
+        point_of_sale: pointOfSale?.id
+      };
+
+      // OFFLINE QUEUE: skip the 15s timeout when the browser already knows it is offline
+      if (!navigator.onLine) {
+        await queueOrderOffline(orderRequest);
+        return;
+      }
       
-      const orderResult = await processBarOrder({
-        card_id: id.trim(),
-        total_amount: total,
-        items: formattedItems,
-        client_request_id: clientRequestId
-      });
+      // Call the Edge Function
+      console.log("About to call Edge Function with:", orderRequest);
+      
+      const orderResult = await processBarOrder(orderRequest);
 
-      if (orderResult.success) {
+      if (isNetworkFailure(orderResult)) {
+        // The server could not be reached: keep the order and replay it on reconnect.
+        // Idempotency on client_request_id makes the replay safe even if this attempt went through.
+        await queueOrderOffline(orderRequest);
+      } else if (orderResult.success) {
         // Use the transaction result data directly
         logger.payment('payment_success', { 
           cardId: id, 
@@ -345,6 +385,10 @@ export const BarOrderSystem: React.FC = () => {
           setErrorMessage(errorMsg);
         } else if (orderResult.error?.includes('Card not found')) {
           setErrorMessage("Carte non trouvée. Veuillez vérifier l'ID de la carte.");
+        } else if (orderResult.details?.error_code === 'CARD_NOT_ACTIVE') {
+          setErrorMessage(orderResult.details.replaced_by
+            ? `Cette carte a été remplacée par la carte ${orderResult.details.replaced_by}.`
+            : "Cette carte est bloquée et ne peut pas être utilisée. Contactez la caisse.");
         } else {
           setErrorMessage(`Erreur lors du traitement de la commande: ${orderResult.error || 'Erreur inconnue'}`);
         }
@@ -367,6 +411,45 @@ export const BarOrderSystem: React.FC = () => {
     }
   };
 
+  // Record an order locally when the network is unavailable
+  const queueOrderOffline = async (orderRequest: BarOrderRequest) => {
+    await enqueue(orderRequest);
+
+    logger.warn('Order queued offline', {
+      cardId: orderRequest.card_id,
+      total: orderRequest.total_amount,
+      clientRequestId: orderRequest.client_request_id
+    });
+
+    toast({
+      title: "Commande enregistrée hors ligne",
+      description: `${orderRequest.total_amount.toFixed(2)}€ sur la carte ${orderRequest.card_id} - synchronisation au retour du réseau`
+    });
+
+    setOrderItems([]);
+    setCardId('');
+  };
+
+  const handleSyncOfflineOrders = async () => {
+    try {
+      const summary = await sync();
+      if (summary.needsAttention > 0) {
+        toast({
+          title: "Synchronisation terminée avec erreurs",
+          description: `${summary.needsAttention} commande(s) refusée(s) à régulariser`,
+          variant: "destructive"
+        });
+      } else if (summary.synced > 0) {
+        toast({
+          title: "Synchronisation terminée",
+          description: `${summary.synced} commande(s) synchronisée(s)`
+        });
+      }
+    } catch (error) {
+      logger.error('Error syncing offline orders:', error);
+    }
+  };
+
   // Handler for NFC scanning button
   const handleNfcToggle = async () => {
     try {
@@ -430,6 +513,15 @@ export const BarOrderSystem: React.FC = () => {
               )}
             </div>
             
+            <BarOfflineQueue
+              isOnline={isOnline}
+              isSyncing={isSyncing}
+              pendingOrders={pendingOrders}
+              ordersNeedingAttention={ordersNeedingAttention}
+              onSync={handleSyncOfflineOrders}
+              onDismiss={dismiss}
+            />
+            
             {/* Order items list */}
             {orderItems.length === 0 ? (
               <div className="text-center text-gray-300 py-2 text-sm">
@@ -547,6 +639,13 @@ export const BarOrderSystem: React.FC = () => {
         isOpen={showCompletedOrderPopup}
         completedOrder={completedOrder}
         onClose={handleCloseCompletedOrderPopup}
+        onRefund={handleRefundCompletedOrder}
+      />
+
+      {/* Void / refund of a completed order */}
+      <OrderRefundDialog
+        orderId={refundOrderId}
+        onClose={() => setRefundOrderId(null)}
       />
     </div>
   );
@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Undo2, Minus, Plus } from 'lucide-react';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { generateClientRequestId } from '@/lib/supabase';
+import {
+  RefundableOrder,
+  BarOrderRefundResult,
+  getBarOrderForRefund,
+  getRemainingQuantity,
+  computeRefundAmount,
+  selectAllRemaining,
+  isFullySelected,
+  refundBarOrder,
+} from '@/lib/order-refunds';
+
+interface OrderRefundDialogProps {
+  orderId: number | null;
+  onClose: () => void;
+  onRefunded?: (result: BarOrderRefundResult) => void;
+}
+
+// Void a bar order or refund some of its lines, shared by the bar and the admin order search
+export const OrderRefundDialog: React.FC<OrderRefundDialogProps> = ({
+  orderId,
+  onClose,
+  onRefunded
+}) => {
+  const [order, setOrder] = useState<RefundableOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selection, setSelection] = useState<Record<number, number>>({});
+  const [reason, setReason] = useState('');
+  const [supervisorPin, setSupervisorPin] = useState('');
+  // One request id per attempt so a retried submission is not refunded twice
+  const [clientRequestId, setClientRequestId] = useState('');
+
+  const { hasAccess } = useAuth();
+  const { toast } = useToast();
+  const requiresPin = !hasAccess(['refund_bar_orders']);
+
+  useEffect(() => {
+    if (orderId === null) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setOrder(null);
+    setSelection({});
+    setReason('');
+    setSupervisorPin('');
+    setClientRequestId(generateClientRequestId());
+
+    getBarOrderForRefund(orderId).then(loaded => {
+      if (cancelled) return;
+      setOrder(loaded);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId]);
+
+  const items = order?.bar_order_items ?? [];
+  const refundAmount = computeRefundAmount(items, selection);
+  const isFullVoid = items.length > 0 && isFullySelected(items, selection);
+
+  const updateQuantity = (itemId: number, quantity: number, remaining: number) => {
+    setSelection(prev => ({ ...prev, [itemId]: Math.min(Math.max(quantity, 0), remaining) }));
+  };
+
+  const handleSubmit = async () => {
+    if (!order) return;
+
+    if (!reason.trim()) {
+      toast({ title: "Motif requis", description: "Indiquez la raison du remboursement", variant: "destructive" });
+      return;
+    }
+    if (requiresPin && !supervisorPin) {
+      toast({ title: "Code superviseur requis", description: "Un superviseur doit valider ce remboursement", variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await refundBarOrder({
+      orderId: order.id,
+      items: isFullVoid ? undefined : selection,
+      reason: reason.trim(),
+      clientRequestId,
+      supervisorPin: requiresPin ? supervisorPin : undefined,
+    });
+    setIsSubmitting(false);
+
+    if (result.success) {
+      toast({
+        title: result.refund_type === 'void' ? "Commande annulée" : "Articles remboursés",
+        description: `${result.amount?.toFixed(2)}€ recrédités. Nouveau solde: ${result.new_balance?.toFixed(2)}€`
+      });
+      onRefunded?.(result);
+      onClose();
+    } else {
+      if (result.error_code === 'INVALID_SUPERVISOR_PIN' || result.error_code === 'TOO_MANY_ATTEMPTS') setSupervisorPin('');
+      toast({
+        title: "Remboursement impossible",
+        description: result.error || "Une erreur est survenue",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={orderId !== null} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="max-w-lg w-[95vw] max-h-[85vh] flex flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>Annuler / rembourser la commande #{orderId}</DialogTitle>
+          <DialogDescription>
+            Le montant est recrédité immédiatement sur la carte {order?.card_id}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        ) : !order ? (
+          <div className="text-center text-gray-500 p-6">Commande introuvable</div>
+        ) : (
+          <div className="space-y-4 overflow-y-auto pr-1">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">Articles à rembourser</span>
+              <Button variant="outline" size="sm" onClick={() => setSelection(selectAllRemaining(items))} disabled={isSubmitting}>
+                Tout annuler
+              </Button>
+            </div>
+
+            <ul className="border rounded-md divide-y divide-gray-100">
+              {items.map(item => {
+                const remaining = getRemainingQuantity(item);
+                const selected = selection[item.id] || 0;
+                return (
+                  <li key={item.id} className={`p-3 flex items-center justify-between ${remaining === 0 ? 'opacity-50' : ''}`}>
+                    <div className="min-w-0">
+                      <div className={`text-sm font-medium ${item.is_return ? 'text-green-600' : ''}`}>
+                        {item.product_name}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {item.is_return ? '-' : ''}{item.price.toFixed(2)}€ × {item.quantity}
+                        {item.refunded_quantity > 0 && ` (${item.refunded_quantity} déjà remboursé${item.refunded_quantity > 1 ? 's' : ''})`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Button variant="outline" size="icon" className="h-7 w-7"
+                        disabled={isSubmitting || selected === 0}
+                        onClick={() => updateQuantity(item.id, selected - 1, remaining)}>
+                        <Minus className="h-3 w-3" />
+                      </Button>
+                      <span className="w-6 text-center text-sm">{selected}</span>
+                      <Button variant="outline" size="icon" className="h-7 w-7"
+                        disabled={isSubmitting || selected >= remaining}
+                        onClick={() => updateQuantity(item.id, selected + 1, remaining)}>
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Motif</Label>
+              <Input
+                id="refund-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="ex: erreur de saisie"
+                maxLength={200}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            {requiresPin && (
+              <div className="space-y-2">
+                <Label htmlFor="supervisor-pin">Code superviseur</Label>
+                <Input
+                  id="supervisor-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={supervisorPin}
+                  onChange={(e) => setSupervisorPin(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
+
+            <div className="bg-gray-50 p-3 rounded-lg flex justify-between items-center">
+              <span className="font-medium">{isFullVoid ? 'Annulation complète' : 'Montant remboursé'}</span>
+              <span className="text-lg font-bold">{refundAmount.toFixed(2)}€</span>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Retour
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={isSubmitting || !order || refundAmount <= 0}
+          >
+            {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Undo2 className="h-4 w-4 mr-2" />}
+            Rembourser {refundAmount > 0 ? `${refundAmount.toFixed(2)}€` : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, Store } from 'lucide-react';
+import { PointOfSale } from '@/lib/point-of-sale';
+
+interface PointOfSaleSelectorProps {
+  pointsOfSale: PointOfSale[];
+  isLoading: boolean;
+  onSelect: (pointOfSale: PointOfSale) => void;
+}
+
+// Terminal assignment screen shown after login on the bar page
+export const PointOfSaleSelector: React.FC<PointOfSaleSelectorProps> = ({
+  pointsOfSale,
+  isLoading,
+  onSelect
+}) => {
+  return (
+    <Card className="w-full max-w-md bg-white/90 backdrop-blur-sm shadow-xl">
+      <CardContent className="p-6">
+        <h2 className="text-xl font-bold text-center mb-1">Choisir le point de vente</h2>
+        <p className="text-sm text-gray-600 text-center mb-6">
+          Les commandes de ce terminal seront enregistrées sur ce bar.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {pointsOfSale.map(pointOfSale => (
+              <Button
+                key={pointOfSale.id}
+                variant="outline"
+                className="w-full h-auto py-3 justify-start text-left"
+                onClick={() => onSelect(pointOfSale)}
+              >
+                <Store className="h-5 w-5 mr-3 flex-shrink-0" />
+                <div>
+                  <div className="font-semibold">{pointOfSale.name}</div>
+                  {pointOfSale.description && (
+                    <div className="text-xs text-gray-500 font-normal">{pointOfSale.description}</div>
+                  )}
+                </div>
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -39,27 +39,60 @@ export const SecurityConfig = {
       sameSite: 'strict' as const,
     },
     
-    // Role-based access control
+    // Role-based access control. Roles and permissions are stored in the
+    // roles, permissions and role_permissions tables; a role only grants
+    // access through the permissions mapped to it there.
     roles: {
       ADMIN: 'admin',
+      BAR: 'bar',
+      RECHARGE: 'recharge',
       FINANCE_MANAGER: 'finance_manager',
       AUDITOR: 'auditor',
-    },
+    } as const,
     
-    // Required permissions for refund operations
+    // Permissions checked by the app and by the edge functions
     permissions: {
-      PROCESS_REFUNDS: 'process_refunds',
+      ACCESS_ADMIN: 'access_admin',
+      ACCESS_BAR: 'access_bar',
+      ACCESS_RECHARGE: 'access_recharge',
+      MANAGE_USERS: 'manage_users',
+      MANAGE_EDITIONS: 'manage_editions',
+      MANAGE_CARDS: 'manage_cards',
+      MANAGE_CARD_SECRETS: 'manage_card_secrets',
+      MANAGE_BAR_PRODUCTS: 'manage_bar_products',
+      MANAGE_RECHARGE_OFFERS: 'manage_recharge_offers',
+      OPERATE_RECHARGE_SHIFTS: 'operate_recharge_shifts',
+      SUPERVISE_RECHARGE_SHIFTS: 'supervise_recharge_shifts',
+      ADJUST_BALANCES: 'adjust_balances',
+      REFUND_BAR_ORDERS: 'refund_bar_orders',
       VIEW_REFUND_DATA: 'view_refund_data',
+      REVIEW_REFUNDS: 'review_refunds',
+      PROCESS_REFUNDS: 'process_refunds',
       GENERATE_XML: 'generate_xml',
+      IMPORT_BANK_STATEMENTS: 'import_bank_statements',
       ACCESS_AUDIT_LOGS: 'access_audit_logs',
-      MANAGE_USERS: 'manage_users',
-    },
+      MAINTAIN_AUDIT_LOGS: 'maintain_audit_logs',
+      MANAGE_ENCRYPTION_KEYS: 'manage_encryption_keys',
+    } as const,
     
     // Failed authentication tracking
     failedAttempts: {
       maxAttempts: 5,
       lockoutDuration: 15 * 60 * 1000, // 15 minutes
       resetTime: 60 * 60 * 1000, // 1 hour
+      // Wrong card secrets from all clients together; each client gets
+      // maxAttempts per card, so one client cannot lock the guest out
+      maxCardSecretAttempts: 50,
+    },
+    
+    // TOTP second factor (Supabase Auth MFA). Failed codes count towards
+    // failedAttempts like any other authentication failure.
+    twoFactor: {
+      issuer: 'Les Apéros du Château',
+      // Roles that must enrol a factor before using the app
+      requiredForRoles: ['admin'] as string[],
+      // How long a code confirmation covers sensitive operations (step-up)
+      stepUpMaxAge: 5 * 60 * 1000, // 5 minutes
     },
   },
 
@@ -85,6 +118,28 @@ export const SecurityConfig = {
       maxRequests: 5,
       message: 'Too many authentication attempts. Please try again later.',
     },
+
+    // Bar orders, counted per card: terminals share an IP. Not `financial`:
+    // 10 per hour would refuse regular rounds (see README, Rate limiting)
+    pointOfSale: {
+      windowMs: 60 * 1000, // 1 minute
+      maxRequests: 10,
+      message: 'Too many operations on this card. Please wait a moment.',
+    },
+
+    // Public card history lookups, per IP
+    cardLookup: {
+      windowMs: 10 * 60 * 1000, // 10 minutes
+      maxRequests: 30,
+      message: 'Too many lookups. Please try again later.',
+    },
+
+    // Audit entries sent by the app, per user (per IP when signed out)
+    auditLog: {
+      windowMs: 60 * 1000, // 1 minute
+      maxRequests: 60,
+      message: 'Too many audit entries. Please try again later.',
+    },
   },
 
   // Request Size Limits
@@ -246,6 +301,14 @@ export const SecurityConfig = {
       days: 2555, // 7 years for financial records
       archiveAfterDays: 365,
       compressionEnabled: true,
+      // Days each DataClassification is kept before redaction; must match
+      // the audit_retention_policies table
+      byClassification: {
+        public: 90,
+        internal: 365,
+        confidential: 1825, // 5 years
+        restricted: 2555, // 7 years for financial records
+      },
     },
     
     // Log format
@@ -404,6 +467,21 @@ export const SecurityUtils = {
     return SecurityConfig.validation.iban.format.test(cleanIban);
   },
 
+  /**
+   * Compare two secrets (PINs, hashes, signatures) without leaking their
+   * common prefix length through timing
+   */
+  timingSafeEqual: (a: string, b: string): boolean => {
+    const encoder = new TextEncoder();
+    const left = encoder.encode(a);
+    const right = encoder.encode(b);
+    let mismatch = left.length ^ right.length;
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+      mismatch |= (left[i] ?? 0) ^ (right[i] ?? 0);
+    }
+    return mismatch === 0;
+  },
+
   /**
    * Sanitize input string
    */
@@ -479,4 +557,6 @@ export type SecurityConfigType = typeof SecurityConfig;
 export type SecurityEvent = keyof typeof SecurityConfig.audit.events;
 export type SecurityLevel = keyof typeof SecurityConfig.audit.levels;
 export type UserRole = keyof typeof SecurityConfig.auth.roles;
-export type Permission = keyof typeof SecurityConfig.auth.permissions;
\ No newline at end of file
+export type Permission = keyof typeof SecurityConfig.auth.permissions;
+export type RoleName = typeof SecurityConfig.auth.roles[UserRole];
+export type PermissionName = typeof SecurityConfig.auth.permissions[Permission];
\ No newline at end of file
@@ -1,21 +1,33 @@
 
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { supabase } from "@/integrations/supabase/client";
+import { readErrorBody } from "@/lib/supabase";
 import { useNavigate } from 'react-router-dom';
+import { PermissionName, RoleName } from '@/config/security';
+import { hasAnyPermission } from '@/lib/role-permissions';
+import { clearStepUp, getTotpStatus, isStepUpRequiredError, isTwoFactorRequired } from '@/lib/two-factor';
 
-type Role = 'admin' | 'bar' | 'recharge';
+// Second factor still needed before the app opens: enrol an authenticator
+// app (required for the role) or enter its code (enrolled, signed in at aal1)
+export type TwoFactorStep = 'enroll' | 'verify' | null;
 
 interface AuthContextType {
   user: any;
   email: string | null;
   role: string | null;
+  // Permissions granted to the role in role_permissions
+  permissions: PermissionName[];
+  twoFactorStep: TwoFactorStep;
   isLoading: boolean;
   isLoggedIn: boolean;
   signUp: (email: string, password: string) => Promise<{ success: boolean, message: string }>;
   signIn: (email: string, password: string) => Promise<{ success: boolean, message: string }>;
   signOut: () => Promise<void>;
-  hasAccess: (requiredRoles: Role[]) => boolean;
-  createUser: (email: string, password: string, role: Role) => Promise<{ success: boolean, message: string }>;
+  // True when the user holds at least one of the permissions
+  hasAccess: (requiredPermissions: PermissionName[]) => boolean;
+  // Reload the two-factor state, e.g. after a code was verified
+  refreshTwoFactor: () => Promise<void>;
+  createUser: (email: string, password: string, role: RoleName) => Promise<{ success: boolean, message: string }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -36,10 +48,52 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState(null);
   const [email, setEmail] = useState<string | null>(null);
   const [role, setRole] = useState<string | null>(null);
+  const [permissions, setPermissions] = useState<PermissionName[]>([]);
+  const [twoFactorStep, setTwoFactorStep] = useState<TwoFactorStep>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const navigate = useNavigate();
 
+  // Second factor of the session: enrolled factors must be verified, roles
+  // listed in SecurityConfig.auth.twoFactor.requiredForRoles must enrol one
+  const loadTwoFactorStep = useCallback(async (userRole: string | null) => {
+    const status = await getTotpStatus();
+    if (!status.success || !status.data) {
+      // Fail closed: without the status the app cannot tell the session is aal2
+      setTwoFactorStep('verify');
+    } else if (status.data.factorId) {
+      setTwoFactorStep(status.data.currentLevel === 'aal2' ? null : 'verify');
+    } else {
+      setTwoFactorStep(isTwoFactorRequired(userRole) ? 'enroll' : null);
+    }
+  }, []);
+
+  // Role and permissions of the signed-in user (get_my_permissions)
+  const fetchUserProfile = useCallback(async (userId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('get_my_permissions');
+      const access = data as { role: string | null; permissions: PermissionName[] } | null;
+
+      // Before the role, so pages never see a role without its two-factor state
+      await loadTwoFactorStep(access?.role || null);
+
+      if (error || !access) {
+        console.error(`Error fetching permissions of ${userId}:`, error);
+        setRole(null);
+        setPermissions([]);
+      } else {
+        setRole(access.role || null);
+        setPermissions(access.permissions || []);
+      }
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+      setRole(null);
+      setPermissions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [loadTwoFactorStep]);
+
   useEffect(() => {
     const session = async () => {
       const { data: { session }, error } = await supabase.auth.getSession();
@@ -69,6 +123,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
           setUser(null);
           setEmail(null);
           setRole(null);
+          setPermissions([]);
+          setTwoFactorStep(null);
           setIsLoggedIn(false);
           setIsLoading(false);
         }
@@ -76,29 +132,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
 
     session();
-  }, []);
-
-  const fetchUserProfile = async (userId: string) => {
-    try {
-      const { data: profile, error } = await supabase
-        .from('profiles')
-        .select('role')
-        .eq('id', userId)
-        .single();
-
-      if (error) {
-        console.error('Error fetching profile:', error);
-        setRole(null);
-      } else {
-        setRole(profile?.role || null);
-      }
-    } catch (error) {
-      console.error('Error fetching profile:', error);
-      setRole(null);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  }, [fetchUserProfile]);
 
   const signUp = useCallback(async (email: string, password: string) => {
     setIsLoading(true);
@@ -143,7 +177,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [fetchUserProfile]);
 
   const signOut = useCallback(async () => {
     try {
@@ -152,9 +186,12 @@ export function AuthProvider({ children }: AuthProviderProps) {
       if (error) throw error;
       
       // Update local state after successful sign-out
+      clearStepUp();
       setUser(null);
       setEmail(null);
       setRole(null);
+      setPermissions([]);
+      setTwoFactorStep(null);
       setIsLoggedIn(false);
       setIsLoading(false);
     } catch (error) {
@@ -163,34 +200,36 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   }, []);
 
-  const hasAccess = useCallback((requiredRoles: Role[]) => {
+  const hasAccess = useCallback((requiredPermissions: PermissionName[]) => {
     if (!role) return false;
-    return requiredRoles.includes(role as Role);
-  }, [role]);
+    return hasAnyPermission(permissions, requiredPermissions);
+  }, [role, permissions]);
 
-  const createUser = useCallback(async (email: string, password: string, userRole: Role) => {
-    try {
-      // Create new user with supabase admin
-      const { data, error } = await supabase.auth.admin.createUser({
-        email,
-        password,
-        email_confirm: true,
-        user_metadata: { role: userRole }
-      });
+  // Staff accounts are created by the create-staff-user edge function, which
+  // requires manage_users and a fresh two-factor confirmation
+  const refreshTwoFactor = useCallback(async () => {
+    await loadTwoFactorStep(role);
+  }, [role, loadTwoFactorStep]);
 
-      if (error) throw error;
+  const createUser = useCallback(async (email: string, password: string, userRole: RoleName) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Vous devez être connecté pour créer un utilisateur");
 
-      // Update the profile with the correct role
-      if (data.user) {
-        const { error: updateError } = await supabase
-          .from('profiles')
-          .update({ role: userRole })
-          .eq('id', data.user.id);
+      const { data, error } = await supabase.functions.invoke('create-staff-user', {
+        body: { email, password, role: userRole },
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        }
+      });
 
-        if (updateError) throw updateError;
+      if (error) {
+        const errorBody = await readErrorBody(error);
+        if (isStepUpRequiredError(errorBody?.error_code)) clearStepUp();
+        throw new Error(errorBody?.error || error.message);
       }
 
-      return { success: true, message: `Utilisateur ${email} créé avec le rôle ${userRole}` };
+      return { success: true, message: `Utilisateur ${data.user.email} créé avec le rôle ${userRole}` };
     } catch (error: any) {
       console.error('Error creating user:', error);
       return { success: false, message: error.message || "Erreur lors de la création de l'utilisateur" };
@@ -201,12 +240,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
     user,
     email,
     role,
+    permissions,
+    twoFactorStep,
     isLoading,
     isLoggedIn,
     signUp,
     signIn,
     signOut,
     hasAccess,
+    refreshTwoFactor,
     createUser,
   };
 
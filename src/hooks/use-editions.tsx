@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { EditionConfig, getEditions, subscribeToEditionChanges } from '@/lib/editions';
+
+interface UseEditionsResult {
+  editions: EditionConfig[];
+  activeEdition: EditionConfig | null;
+  isLoading: boolean;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook exposing the festival editions to React components.
+ * Reloads automatically when an edition is created or changes status.
+ */
+export function useEditions(): UseEditionsResult {
+  const [editions, setEditions] = useState<EditionConfig[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const loaded = await getEditions();
+    setEditions(loaded);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToEditionChanges(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  return {
+    editions,
+    activeEdition: editions.find(edition => edition.status === 'live') || null,
+    isLoading,
+    refresh,
+  };
+}
@@ -13,6 +13,99 @@ interface UseNfcOptions {
   };
 }
 
+// Minimal Web NFC shapes; NDEFReader is not in the TypeScript DOM lib yet
+interface NdefRecordLike {
+  recordType: string;
+  encoding?: string;
+  data?: BufferSource;
+}
+
+interface NdefReadingEvent {
+  message?: { records: NdefRecordLike[] };
+  serialNumber?: string;
+}
+
+interface NdefReaderLike {
+  addEventListener(type: 'reading' | 'readingerror', listener: (event: NdefReadingEvent) => void): void;
+  scan(options?: { signal?: AbortSignal }): Promise<void>;
+  write(
+    message: { records: Array<{ recordType: string; data: string }> },
+    options?: { overwrite?: boolean; signal?: AbortSignal }
+  ): Promise<void>;
+}
+
+const createNdefReader = (): NdefReaderLike =>
+  new (window as unknown as { NDEFReader: new () => NdefReaderLike }).NDEFReader();
+
+// Helper function to extract the ID from text content
+const extractIdFromText = (text: string): string | null => {
+  // First, try to extract an exact 8-character alphanumeric ID if it exists in the text
+  const idMatch = text.match(/[a-zA-Z0-9]{8}/);
+  if (idMatch) {
+    return idMatch[0];
+  }
+  
+  // If the text itself is exactly 8 characters and alphanumeric, use it
+  if (/^[a-zA-Z0-9]{8}$/.test(text)) {
+    return text;
+  }
+  
+  // If the text is shorter than 8 characters but alphanumeric, it might be padded
+  if (text.length < 8 && /^[a-zA-Z0-9]+$/.test(text)) {
+    // Pad with zeros if needed (common for some card formats)
+    return text.padStart(8, '0');
+  }
+  
+  return null;
+};
+
+/**
+ * Decode a card ID from a single NDEF record (text, URL or raw payload)
+ */
+export function extractIdFromRecord(record: NdefRecordLike): string | null {
+  // Try to decode the record based on its type
+  if (record.recordType === "text") {
+    const textDecoder = new TextDecoder(record.encoding || 'utf-8');
+    let text = textDecoder.decode(record.data);
+    
+    // Some text records have language codes or other metadata at the beginning
+    // Remove the first character if it's not alphanumeric
+    if (text.length > 0 && !/[a-zA-Z0-9]/.test(text[0])) {
+      text = text.substring(1);
+    }
+    
+    logger.nfc("Decoded text from NFC:", text);
+    return extractIdFromText(text);
+  } 
+  
+  if (record.recordType === "url") {
+    const textDecoder = new TextDecoder();
+    const url = textDecoder.decode(record.data);
+    logger.nfc("Decoded URL from NFC:", url);
+    
+    // Tags encoded by the provisioning tool point to /s/:id; the host name
+    // could otherwise be mistaken for an ID
+    const scanLinkMatch = url.match(/\/s\/([a-zA-Z0-9]{8})(?:[?#/]|$)/);
+    if (scanLinkMatch) {
+      return scanLinkMatch[1];
+    }
+    
+    // Try to extract ID from URL (it might be in the path or as a parameter)
+    const urlMatch = url.match(/[a-zA-Z0-9]{8}/);
+    return urlMatch ? urlMatch[0] : null;
+  }
+  
+  if (record.recordType === "unknown" || record.recordType === "") {
+    // For unknown types, try to decode as plain text
+    const textDecoder = new TextDecoder();
+    const data = textDecoder.decode(record.data);
+    logger.nfc("Decoded unknown data from NFC:", data);
+    return extractIdFromText(data);
+  }
+  
+  return null;
+}
+
 export function useNfc({ onScan, validateId, getTotalAmount, getCurrentOrderData }: UseNfcOptions = {}) {
   const [isScanning, setIsScanning] = useState(false);
   const [isSupported, setIsSupported] = useState<boolean | null>(null);
@@ -92,28 +185,6 @@ export function useNfc({ onScan, validateId, getTotalAmount, getCurrentOrderData
     }
   };
 
-  // Helper function to extract the ID from text content
-  const extractIdFromText = (text: string): string | null => {
-    // First, try to extract an exact 8-character alphanumeric ID if it exists in the text
-    const idMatch = text.match(/[a-zA-Z0-9]{8}/);
-    if (idMatch) {
-      return idMatch[0];
-    }
-    
-    // If the text itself is exactly 8 characters and alphanumeric, use it
-    if (/^[a-zA-Z0-9]{8}$/.test(text)) {
-      return text;
-    }
-    
-    // If the text is shorter than 8 characters but alphanumeric, it might be padded
-    if (text.length < 8 && /^[a-zA-Z0-9]+$/.test(text)) {
-      // Pad with zeros if needed (common for some card formats)
-      return text.padStart(8, '0');
-    }
-    
-    return null;
-  };
-  
   const startScan = useCallback(async () => {
     logger.nfc('startScan called, isSupported:', isSupported);
     
@@ -176,40 +247,7 @@ export function useNfc({ onScan, validateId, getTotalAmount, getCurrentOrderData
             logger.nfc("Message records:", message.records);
             
             for (const record of message.records) {
-              let extractedId = null;
-              
-              // Try to decode the record based on its type
-              if (record.recordType === "text") {
-                const textDecoder = new TextDecoder(record.encoding || 'utf-8');
-                let text = textDecoder.decode(record.data);
-                
-                // Some text records have language codes or other metadata at the beginning
-                // Remove the first character if it's not alphanumeric
-                if (text.length > 0 && !/[a-zA-Z0-9]/.test(text[0])) {
-                  text = text.substring(1);
-                }
-                
-                logger.nfc("Decoded text from NFC:", text);
-                extractedId = extractIdFromText(text);
-              } 
-              else if (record.recordType === "url") {
-                const textDecoder = new TextDecoder();
-                const url = textDecoder.decode(record.data);
-                logger.nfc("Decoded URL from NFC:", url);
-                
-                // Try to extract ID from URL (it might be in the path or as a parameter)
-                const urlMatch = url.match(/[a-zA-Z0-9]{8}/);
-                if (urlMatch) {
-                  extractedId = urlMatch[0];
-                }
-              }
-              else if (record.recordType === "unknown" || record.recordType === "") {
-                // For unknown types, try to decode as plain text
-                const textDecoder = new TextDecoder();
-                const data = textDecoder.decode(record.data);
-                logger.nfc("Decoded unknown data from NFC:", data);
-                extractedId = extractIdFromText(data);
-              }
+              const extractedId = extractIdFromRecord(record);
               
               // If we found a valid ID, use it
               if (extractedId && (!validateId || validateId(extractedId))) {
@@ -336,11 +374,71 @@ export function useNfc({ onScan, validateId, getTotalAmount, getCurrentOrderData
     return true;
   }, []);
   
+  /**
+   * Write a card tag: a /s/:id link first so phones open the card page, then
+   * the bare ID. Resolves once a tag has been tapped and written.
+   */
+  const writeTag = useCallback(async (cardId: string, url: string, signal?: AbortSignal) => {
+    if (!isSupported) {
+      throw new Error('Web NFC API is not supported');
+    }
+    
+    // A running scan would swallow the tap meant for the writer
+    stopScanInternal();
+    
+    logger.nfc('Writing NFC tag', { cardId });
+    await createNdefReader().write(
+      { records: [{ recordType: 'url', data: url }, { recordType: 'text', data: cardId }] },
+      { overwrite: true, signal }
+    );
+  }, [isSupported]);
+  
+  /**
+   * Read the next tapped tag once and return its card ID (null if unreadable)
+   */
+  const readTag = useCallback(async (signal?: AbortSignal): Promise<string | null> => {
+    if (!isSupported) {
+      throw new Error('Web NFC API is not supported');
+    }
+    
+    stopScanInternal();
+    
+    const controller = new AbortController();
+    signal?.addEventListener('abort', () => controller.abort());
+    
+    const reader = createNdefReader();
+    
+    return new Promise<string | null>((resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(new Error('NFC read aborted')));
+      
+      reader.addEventListener('reading', ({ message, serialNumber }) => {
+        controller.abort();
+        for (const record of message?.records ?? []) {
+          const extractedId = extractIdFromRecord(record);
+          if (extractedId) {
+            resolve(extractedId);
+            return;
+          }
+        }
+        resolve(serialNumber ? serialNumber.substring(0, 8) : null);
+      });
+      
+      reader.addEventListener('readingerror', () => {
+        controller.abort();
+        resolve(null);
+      });
+      
+      reader.scan({ signal: controller.signal }).catch(reject);
+    });
+  }, [isSupported]);
+  
   return {
     isScanning,
     isSupported,
     lastScannedId,
     startScan,
-    stopScan
+    stopScan,
+    writeTag,
+    readTag
   };
 }
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  offlineOrderQueue,
+  OfflineOrderQueue,
+  QueuedBarOrder,
+  ReplaySummary
+} from '@/lib/offline-order-queue';
+import { BarOrderRequest } from '@/lib/supabase';
+
+interface UseOfflineOrderQueueResult {
+  orders: QueuedBarOrder[];
+  pendingOrders: QueuedBarOrder[];
+  ordersNeedingAttention: QueuedBarOrder[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  enqueue: (order: BarOrderRequest) => Promise<QueuedBarOrder>;
+  sync: () => Promise<ReplaySummary>;
+  dismiss: (clientRequestId: string) => Promise<void>;
+}
+
+/**
+ * Hook exposing the bar terminal's offline order queue to React components.
+ * Starts automatic replay on reconnect while mounted.
+ */
+export function useOfflineOrderQueue(queue: OfflineOrderQueue = offlineOrderQueue): UseOfflineOrderQueueResult {
+  const [orders, setOrders] = useState<QueuedBarOrder[]>([]);
+  const [isOnline, setIsOnline] = useState(typeof navigator === 'undefined' ? true : navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    queue.getOrders().then(initialOrders => {
+      if (!cancelled) setOrders(initialOrders);
+    });
+
+    const unsubscribe = queue.subscribe(updatedOrders => {
+      if (!cancelled) setOrders(updatedOrders);
+    });
+
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    queue.startAutoReplay();
+
+    // Flush anything left over from a previous session
+    if (navigator.onLine) {
+      queue.replay().catch(() => undefined);
+    }
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      queue.stopAutoReplay();
+    };
+  }, [queue]);
+
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      return await queue.replay();
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [queue]);
+
+  const enqueue = useCallback((order: BarOrderRequest) => queue.enqueue(order), [queue]);
+  const dismiss = useCallback((clientRequestId: string) => queue.dismiss(clientRequestId), [queue]);
+
+  return {
+    orders,
+    pendingOrders: orders.filter(order => order.status === 'pending' || order.status === 'syncing'),
+    ordersNeedingAttention: orders.filter(order => order.status === 'needs_attention'),
+    isOnline,
+    isSyncing,
+    enqueue,
+    sync,
+    dismiss,
+  };
+}
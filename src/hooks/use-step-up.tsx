@@ -0,0 +1,66 @@
+import React, { useState, useRef, useCallback } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import TotpForm from '@/components/TotpForm';
+import { getTotpStatus, hasRecentStepUp } from '@/lib/two-factor';
+
+interface UseStepUpResult {
+  // Resolves true once a code is confirmed, false if the dialog is closed
+  requestStepUp: (reason: string) => Promise<boolean>;
+  // Render this once in the component calling requestStepUp
+  stepUpDialog: React.ReactNode;
+}
+
+/**
+ * Hook asking for a fresh two-factor code before a sensitive operation.
+ * Users without an authenticator app enrol one in the same dialog. A code
+ * confirmed less than stepUpMaxAge ago is reused without asking again.
+ */
+export function useStepUp(): UseStepUpResult {
+  const [reason, setReason] = useState<string | null>(null);
+  const [mode, setMode] = useState<'enroll' | 'verify'>('verify');
+  const resolver = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const settle = useCallback((confirmed: boolean) => {
+    resolver.current?.(confirmed);
+    resolver.current = null;
+    setReason(null);
+  }, []);
+
+  const requestStepUp = useCallback(async (operation: string) => {
+    if (hasRecentStepUp()) return true;
+
+    const status = await getTotpStatus();
+    setMode(status.success && status.data?.factorId ? 'verify' : 'enroll');
+
+    return new Promise<boolean>(resolve => {
+      resolver.current = resolve;
+      setReason(operation);
+    });
+  }, []);
+
+  const stepUpDialog = (
+    <Dialog open={reason !== null} onOpenChange={(open) => { if (!open) settle(false); }}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Confirmation requise</DialogTitle>
+          <DialogDescription>
+            {mode === 'enroll'
+              ? `${reason} nécessite la double authentification. Configurez d'abord une application d'authentification.`
+              : `${reason} nécessite une confirmation par code.`}
+          </DialogDescription>
+        </DialogHeader>
+        {reason !== null && (
+          <TotpForm mode={mode} onVerified={() => settle(true)} submitLabel="Confirmer" />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+
+  return { requestStepUp, stepUpDialog };
+}
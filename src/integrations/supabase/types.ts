@@ -60,6 +60,134 @@ export type Database = {
         }
         Relationships: []
       }
+      audit_logs: {
+        Row: {
+          archived_at: string | null
+          category: string | null
+          data_classification: string
+          entry: Json | null
+          entry_hash: string
+          entry_id: string
+          event: string | null
+          occurred_at: string
+          prev_hash: string
+          purged_at: string | null
+          recorded_at: string
+          resource: string | null
+          result: string | null
+          retain_until: string
+          risk_level: string | null
+          seq: number
+          user_id: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          category?: string | null
+          data_classification: string
+          entry?: Json | null
+          entry_hash: string
+          entry_id: string
+          event?: string | null
+          occurred_at: string
+          prev_hash: string
+          purged_at?: string | null
+          recorded_at: string
+          resource?: string | null
+          result?: string | null
+          retain_until: string
+          risk_level?: string | null
+          seq?: number
+          user_id?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          category?: string | null
+          data_classification?: string
+          entry?: Json | null
+          entry_hash?: string
+          entry_id?: string
+          event?: string | null
+          occurred_at?: string
+          prev_hash?: string
+          purged_at?: string | null
+          recorded_at?: string
+          resource?: string | null
+          result?: string | null
+          retain_until?: string
+          risk_level?: string | null
+          seq?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_logs_data_classification_fkey"
+            columns: ["data_classification"]
+            isOneToOne: false
+            referencedRelation: "audit_retention_policies"
+            referencedColumns: ["classification"]
+          },
+        ]
+      }
+      audit_retention_policies: {
+        Row: {
+          classification: string
+          retention_days: number
+          updated_at: string
+        }
+        Insert: {
+          classification: string
+          retention_days: number
+          updated_at?: string
+        }
+        Update: {
+          classification?: string
+          retention_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      bank_statement_imports: {
+        Row: {
+          created_at: string
+          entry_count: number
+          file_name: string | null
+          id: number
+          imported_by: string | null
+          paid_count: number
+          results: Json
+          returned_count: number
+          statement_id: string
+          statement_type: string
+          unmatched_count: number
+        }
+        Insert: {
+          created_at?: string
+          entry_count?: number
+          file_name?: string | null
+          id?: number
+          imported_by?: string | null
+          paid_count?: number
+          results?: Json
+          returned_count?: number
+          statement_id: string
+          statement_type: string
+          unmatched_count?: number
+        }
+        Update: {
+          created_at?: string
+          entry_count?: number
+          file_name?: string | null
+          id?: number
+          imported_by?: string | null
+          paid_count?: number
+          results?: Json
+          returned_count?: number
+          statement_id?: string
+          statement_type?: string
+          unmatched_count?: number
+        }
+        Relationships: []
+      }
       bar_order_items: {
         Row: {
           created_at: string | null
@@ -70,6 +198,7 @@ export type Database = {
           price: number
           product_name: string
           quantity: number
+          refunded_quantity: number
         }
         Insert: {
           created_at?: string | null
@@ -80,6 +209,7 @@ export type Database = {
           price: number
           product_name: string
           quantity?: number
+          refunded_quantity?: number
         }
         Update: {
           created_at?: string | null
@@ -90,6 +220,7 @@ export type Database = {
           price?: number
           product_name?: string
           quantity?: number
+          refunded_quantity?: number
         }
         Relationships: [
           {
@@ -101,28 +232,82 @@ export type Database = {
           },
         ]
       }
+      bar_order_refunds: {
+        Row: {
+          amount: number
+          authorized_by: string
+          card_id: string
+          client_request_id: string
+          created_at: string
+          id: number
+          items: Json
+          new_balance: number
+          order_id: number
+          performed_by: string | null
+          previous_balance: number
+          reason: string
+          refund_type: string
+        }
+        Insert: {
+          amount: number
+          authorized_by: string
+          card_id: string
+          client_request_id: string
+          created_at?: string
+          id?: number
+          items?: Json
+          new_balance: number
+          order_id: number
+          performed_by?: string | null
+          previous_balance: number
+          reason: string
+          refund_type: string
+        }
+        Update: {
+          amount?: number
+          authorized_by?: string
+          card_id?: string
+          client_request_id?: string
+          created_at?: string
+          id?: number
+          items?: Json
+          new_balance?: number
+          order_id?: number
+          performed_by?: string | null
+          previous_balance?: number
+          reason?: string
+          refund_type?: string
+        }
+        Relationships: []
+      }
       bar_orders: {
         Row: {
           card_id: string | null
           created_at: string | null
+          edition_id: string | null
           id: string
           point_of_sale: number | null
+          refunded_amount: number
           status: string | null
           total_amount: number
         }
         Insert: {
           card_id?: string | null
           created_at?: string | null
+          edition_id?: string | null
           id?: string
           point_of_sale?: number | null
+          refunded_amount?: number
           status?: string | null
           total_amount: number
         }
         Update: {
           card_id?: string | null
           created_at?: string | null
+          edition_id?: string | null
           id?: string
           point_of_sale?: number | null
+          refunded_amount?: number
           status?: string | null
           total_amount?: number
         }
@@ -141,35 +326,400 @@ export type Database = {
             referencedRelation: "table_cards"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bar_orders_point_of_sale_fkey"
+            columns: ["point_of_sale"]
+            isOneToOne: false
+            referencedRelation: "points_of_sale"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bar_orders_edition_id_fkey"
+            columns: ["edition_id"]
+            isOneToOne: false
+            referencedRelation: "editions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bar_product_audit_log: {
+        Row: {
+          action: string
+          changes: Json
+          created_at: string
+          id: number
+          performed_by: string | null
+          product_id: number | null
+          request_id: string | null
+        }
+        Insert: {
+          action: string
+          changes?: Json
+          created_at?: string
+          id?: number
+          performed_by?: string | null
+          product_id?: number | null
+          request_id?: string | null
+        }
+        Update: {
+          action?: string
+          changes?: Json
+          created_at?: string
+          id?: number
+          performed_by?: string | null
+          product_id?: number | null
+          request_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bar_product_audit_log_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "bar_products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bar_product_price_schedules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          edition_id: string | null
+          effective_from: string
+          effective_until: string | null
+          id: number
+          price: number
+          product_id: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          edition_id?: string | null
+          effective_from: string
+          effective_until?: string | null
+          id?: number
+          price: number
+          product_id: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          edition_id?: string | null
+          effective_from?: string
+          effective_until?: string | null
+          id?: number
+          price?: number
+          product_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bar_product_price_schedules_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "bar_products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bar_product_price_schedules_edition_id_fkey"
+            columns: ["edition_id"]
+            isOneToOne: false
+            referencedRelation: "editions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       bar_products: {
         Row: {
+          archived_at: string | null
           category: string | null
+          created_at: string
           id: number
+          is_archived: boolean
           is_deposit: boolean | null
           is_return: boolean | null
           name: string
           price: number
+          sort_order: number
+          updated_at: string
         }
         Insert: {
+          archived_at?: string | null
           category?: string | null
+          created_at?: string
           id?: number
+          is_archived?: boolean
           is_deposit?: boolean | null
           is_return?: boolean | null
           name: string
           price: number
+          sort_order?: number
+          updated_at?: string
         }
         Update: {
+          archived_at?: string | null
           category?: string | null
+          created_at?: string
           id?: number
+          is_archived?: boolean
           is_deposit?: boolean | null
           is_return?: boolean | null
           name?: string
           price?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      card_adjustments: {
+        Row: {
+          amount: number
+          card_id: string
+          client_request_id: string
+          created_at: string
+          id: number
+          new_balance: number
+          performed_by: string | null
+          performer_role: string | null
+          previous_balance: number
+          reason: string
+        }
+        Insert: {
+          amount: number
+          card_id: string
+          client_request_id: string
+          created_at?: string
+          id?: number
+          new_balance: number
+          performed_by?: string | null
+          performer_role?: string | null
+          previous_balance: number
+          reason: string
+        }
+        Update: {
+          amount?: number
+          card_id?: string
+          client_request_id?: string
+          created_at?: string
+          id?: number
+          new_balance?: number
+          performed_by?: string | null
+          performer_role?: string | null
+          previous_balance?: number
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "card_adjustments_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "table_cards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      card_fees: {
+        Row: {
+          amount: number
+          card_id: string
+          created_at: string
+          edition_id: string
+          recharge_id: number | null
+        }
+        Insert: {
+          amount: number
+          card_id: string
+          created_at?: string
+          edition_id: string
+          recharge_id?: number | null
+        }
+        Update: {
+          amount?: number
+          card_id?: string
+          created_at?: string
+          edition_id?: string
+          recharge_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "card_fees_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "table_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "card_fees_edition_id_fkey"
+            columns: ["edition_id"]
+            isOneToOne: false
+            referencedRelation: "editions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "card_fees_recharge_id_fkey"
+            columns: ["recharge_id"]
+            isOneToOne: false
+            referencedRelation: "recharges"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      card_ledger_entries: {
+        Row: {
+          amount: number
+          created_at: string
+          credit_account: string
+          debit_account: string
+          description: string | null
+          entry_type: string
+          id: number
+          reference_id: string | null
+          reference_type: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          credit_account: string
+          debit_account: string
+          description?: string | null
+          entry_type: string
+          id?: number
+          reference_id?: string | null
+          reference_type?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          credit_account?: string
+          debit_account?: string
+          description?: string | null
+          entry_type?: string
+          id?: number
+          reference_id?: string | null
+          reference_type?: string | null
+        }
+        Relationships: []
+      }
+      card_ledger_reconciliations: {
+        Row: {
+          cards_checked: number
+          completed_at: string | null
+          events_created: number
+          id: number
+          mismatched_cards: number
+          mismatches: Json
+          negative_balances: number
+          started_at: string
+          total_drift: number
+        }
+        Insert: {
+          cards_checked?: number
+          completed_at?: string | null
+          events_created?: number
+          id?: number
+          mismatched_cards?: number
+          mismatches?: Json
+          negative_balances?: number
+          started_at?: string
+          total_drift?: number
+        }
+        Update: {
+          cards_checked?: number
+          completed_at?: string | null
+          events_created?: number
+          id?: number
+          mismatched_cards?: number
+          mismatches?: Json
+          negative_balances?: number
+          started_at?: string
+          total_drift?: number
         }
         Relationships: []
       }
+      card_lifecycle_events: {
+        Row: {
+          amount: number | null
+          card_id: string
+          client_request_id: string | null
+          created_at: string
+          details: Json
+          event_type: string
+          from_status: string | null
+          id: number
+          performed_by: string | null
+          reason: string | null
+          related_card_id: string | null
+          to_status: string | null
+        }
+        Insert: {
+          amount?: number | null
+          card_id: string
+          client_request_id?: string | null
+          created_at?: string
+          details?: Json
+          event_type: string
+          from_status?: string | null
+          id?: number
+          performed_by?: string | null
+          reason?: string | null
+          related_card_id?: string | null
+          to_status?: string | null
+        }
+        Update: {
+          amount?: number | null
+          card_id?: string
+          client_request_id?: string | null
+          created_at?: string
+          details?: Json
+          event_type?: string
+          from_status?: string | null
+          id?: number
+          performed_by?: string | null
+          reason?: string | null
+          related_card_id?: string | null
+          to_status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "card_lifecycle_events_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "table_cards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      card_secrets: {
+        Row: {
+          card_id: string
+          issued_at: string
+          issued_by: string | null
+          reissue_count: number
+          secret_hash: string
+        }
+        Insert: {
+          card_id: string
+          issued_at?: string
+          issued_by?: string | null
+          reissue_count?: number
+          secret_hash: string
+        }
+        Update: {
+          card_id?: string
+          issued_at?: string
+          issued_by?: string | null
+          reissue_count?: number
+          secret_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "card_secrets_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: true
+            referencedRelation: "table_cards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       card_statistics: {
         Row: {
           card_id: string
@@ -212,116 +762,917 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      editions: {
         Row: {
+          card_fee: number
+          closed_at: string | null
           created_at: string | null
+          end_date: string
           id: string
-          role: Database["public"]["Enums"]["user_role"]
+          name: string
+          opened_at: string | null
+          payment_provider: string
+          start_date: string
+          status: string
           updated_at: string | null
         }
         Insert: {
+          card_fee?: number
+          closed_at?: string | null
           created_at?: string | null
+          end_date: string
           id: string
-          role?: Database["public"]["Enums"]["user_role"]
+          name: string
+          opened_at?: string | null
+          payment_provider?: string
+          start_date: string
+          status?: string
           updated_at?: string | null
         }
         Update: {
+          card_fee?: number
+          closed_at?: string | null
           created_at?: string | null
+          end_date?: string
           id?: string
-          role?: Database["public"]["Enums"]["user_role"]
+          name?: string
+          opened_at?: string | null
+          payment_provider?: string
+          start_date?: string
+          status?: string
           updated_at?: string | null
         }
         Relationships: []
       }
-      recharges: {
+      encryption_keys: {
         Row: {
-          amount: number | null
-          card_id: string | null
+          algorithm: string
           created_at: string
-          id: number
-          notes: string | null
-          paid_by_card: boolean | null
-          payment_method: string | null
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          master_key_id: string
+          purpose: string
+          retired_at: string | null
+          wrap_iv: string
+          wrap_tag: string
+          wrapped_key: string
+        }
+        Insert: {
+          algorithm: string
+          created_at?: string
+          expires_at?: string | null
+          id: string
+          is_active?: boolean
+          master_key_id: string
+          purpose: string
+          retired_at?: string | null
+          wrap_iv: string
+          wrap_tag: string
+          wrapped_key: string
+        }
+        Update: {
+          algorithm?: string
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          master_key_id?: string
+          purpose?: string
+          retired_at?: string | null
+          wrap_iv?: string
+          wrap_tag?: string
+          wrapped_key?: string
+        }
+        Relationships: []
+      }
+      permissions: {
+        Row: {
+          created_at: string
+          description: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      point_of_sale_products: {
+        Row: {
+          created_at: string
+          point_of_sale_id: number
+          product_id: number
+        }
+        Insert: {
+          created_at?: string
+          point_of_sale_id: number
+          product_id: number
+        }
+        Update: {
+          created_at?: string
+          point_of_sale_id?: number
+          product_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "point_of_sale_products_point_of_sale_id_fkey"
+            columns: ["point_of_sale_id"]
+            isOneToOne: false
+            referencedRelation: "points_of_sale"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "point_of_sale_products_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "bar_products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      points_of_sale: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: number
+          is_active: boolean
+          name: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: number
+          is_active?: boolean
+          name: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: number
+          is_active?: boolean
+          name?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string | null
+          id: string
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id: string
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      promo_code_redemptions: {
+        Row: {
+          bonus_amount: number
+          card_id: string
+          code: string
+          created_at: string
+          id: number
+          recharge_id: number
+        }
+        Insert: {
+          bonus_amount: number
+          card_id: string
+          code: string
+          created_at?: string
+          id?: number
+          recharge_id: number
+        }
+        Update: {
+          bonus_amount?: number
+          card_id?: string
+          code?: string
+          created_at?: string
+          id?: number
+          recharge_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_code_redemptions_code_fkey"
+            columns: ["code"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "promo_code_redemptions_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "table_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promo_code_redemptions_recharge_id_fkey"
+            columns: ["recharge_id"]
+            isOneToOne: false
+            referencedRelation: "recharges"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promo_codes: {
+        Row: {
+          bonus_type: string
+          bonus_value: number
+          code: string
+          created_at: string
+          created_by: string | null
+          description: string | null
+          edition_id: string | null
+          is_active: boolean
+          max_bonus: number | null
+          max_uses: number | null
+          max_uses_per_card: number | null
+          min_amount: number
+          updated_at: string
+          uses_count: number
+          valid_from: string | null
+          valid_until: string | null
+        }
+        Insert: {
+          bonus_type: string
+          bonus_value: number
+          code: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          edition_id?: string | null
+          is_active?: boolean
+          max_bonus?: number | null
+          max_uses?: number | null
+          max_uses_per_card?: number | null
+          min_amount?: number
+          updated_at?: string
+          uses_count?: number
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Update: {
+          bonus_type?: string
+          bonus_value?: number
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          edition_id?: string | null
+          is_active?: boolean
+          max_bonus?: number | null
+          max_uses?: number | null
+          max_uses_per_card?: number | null
+          min_amount?: number
+          updated_at?: string
+          uses_count?: number
+          valid_from?: string | null
+          valid_until?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_codes_edition_id_fkey"
+            columns: ["edition_id"]
+            isOneToOne: false
+            referencedRelation: "editions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_limit_hits: {
+        Row: {
+          expires_at: string
+          hit_at: string
+          id: number
+          key: string
+        }
+        Insert: {
+          expires_at: string
+          hit_at?: string
+          id?: number
+          key: string
+        }
+        Update: {
+          expires_at?: string
+          hit_at?: string
+          id?: number
+          key?: string
+        }
+        Relationships: []
+      }
+      recharge_packages: {
+        Row: {
+          amount: number
+          bonus_amount: number
+          created_at: string
+          created_by: string | null
+          edition_id: string | null
+          id: number
+          is_active: boolean
+          label: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          bonus_amount?: number
+          created_at?: string
+          created_by?: string | null
+          edition_id?: string | null
+          id?: number
+          is_active?: boolean
+          label: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          bonus_amount?: number
+          created_at?: string
+          created_by?: string | null
+          edition_id?: string | null
+          id?: number
+          is_active?: boolean
+          label?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recharge_packages_edition_id_fkey"
+            columns: ["edition_id"]
+            isOneToOne: false
+            referencedRelation: "editions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recharge_shifts: {
+        Row: {
+          card_count: number | null
+          card_total: number | null
+          cash_count: number | null
+          cash_total: number | null
+          closed_at: string | null
+          closed_by: string | null
+          closing_notes: string | null
+          counted_cash: number | null
+          created_at: string
+          desk_label: string | null
+          discrepancy: number | null
+          discrepancy_status: string
+          edition_id: string | null
+          expected_cash: number | null
+          id: number
+          monitoring_event_id: number | null
+          opened_at: string
+          opening_float: number
+          operator_id: string
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          card_count?: number | null
+          card_total?: number | null
+          cash_count?: number | null
+          cash_total?: number | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closing_notes?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          desk_label?: string | null
+          discrepancy?: number | null
+          discrepancy_status?: string
+          edition_id?: string | null
+          expected_cash?: number | null
+          id?: number
+          monitoring_event_id?: number | null
+          opened_at?: string
+          opening_float: number
+          operator_id: string
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          card_count?: number | null
+          card_total?: number | null
+          cash_count?: number | null
+          cash_total?: number | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closing_notes?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          desk_label?: string | null
+          discrepancy?: number | null
+          discrepancy_status?: string
+          edition_id?: string | null
+          expected_cash?: number | null
+          id?: number
+          monitoring_event_id?: number | null
+          opened_at?: string
+          opening_float?: number
+          operator_id?: string
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recharge_shifts_edition_id_fkey"
+            columns: ["edition_id"]
+            isOneToOne: false
+            referencedRelation: "editions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recharges: {
+        Row: {
+          amount: number | null
+          bonus_amount: number
+          bonus_applied_at: string | null
+          card_id: string | null
+          created_at: string
+          edition_id: string | null
+          id: number
+          notes: string | null
+          package_id: number | null
+          paid_by_card: boolean | null
+          payment_method: string | null
           processed_by_user_id: string | null
+          promo_code: string | null
+          shift_id: number | null
           stripe_session_id: string | null
           transaction_id: string | null
         }
         Insert: {
-          amount?: number | null
-          card_id?: string | null
+          amount?: number | null
+          bonus_amount?: number
+          bonus_applied_at?: string | null
+          card_id?: string | null
+          created_at?: string
+          edition_id?: string | null
+          id?: number
+          notes?: string | null
+          package_id?: number | null
+          paid_by_card?: boolean | null
+          payment_method?: string | null
+          processed_by_user_id?: string | null
+          promo_code?: string | null
+          shift_id?: number | null
+          stripe_session_id?: string | null
+          transaction_id?: string | null
+        }
+        Update: {
+          amount?: number | null
+          bonus_amount?: number
+          bonus_applied_at?: string | null
+          card_id?: string | null
+          created_at?: string
+          edition_id?: string | null
+          id?: number
+          notes?: string | null
+          package_id?: number | null
+          paid_by_card?: boolean | null
+          payment_method?: string | null
+          processed_by_user_id?: string | null
+          promo_code?: string | null
+          shift_id?: number | null
+          stripe_session_id?: string | null
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recharges_edition_id_fkey"
+            columns: ["edition_id"]
+            isOneToOne: false
+            referencedRelation: "editions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recharges_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "recharge_shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recharges_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "recharge_packages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recharges_promo_code_fkey"
+            columns: ["promo_code"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      refund_batches: {
+        Row: {
+          created_at: string
+          debtor_iban: string | null
+          filename: string
+          generated_by: string | null
+          id: number
+          message_id: string
+          refund_ids: number[]
+          request_id: string | null
+          total_amount: number
+          transaction_count: number
+          xml_content: string
+        }
+        Insert: {
+          created_at?: string
+          debtor_iban?: string | null
+          filename: string
+          generated_by?: string | null
+          id?: number
+          message_id: string
+          refund_ids: number[]
+          request_id?: string | null
+          total_amount: number
+          transaction_count: number
+          xml_content: string
+        }
+        Update: {
+          created_at?: string
+          debtor_iban?: string | null
+          filename?: string
+          generated_by?: string | null
+          id?: number
+          message_id?: string
+          refund_ids?: number[]
+          request_id?: string | null
+          total_amount?: number
+          transaction_count?: number
+          xml_content?: string
+        }
+        Relationships: []
+      }
+      refund_status_history: {
+        Row: {
+          created_at: string
+          from_status: string | null
+          id: number
+          performed_by: string | null
+          reason: string | null
+          refund_id: number
+          to_status: string
+        }
+        Insert: {
+          created_at?: string
+          from_status?: string | null
+          id?: number
+          performed_by?: string | null
+          reason?: string | null
+          refund_id: number
+          to_status: string
+        }
+        Update: {
+          created_at?: string
+          from_status?: string | null
+          id?: number
+          performed_by?: string | null
+          reason?: string | null
+          refund_id?: number
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refund_status_history_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          account: string | null
+          amount_recharged: number | null
+          batch_id: number | null
+          card_balance: number | null
+          confirmation_sent_at: string | null
+          created_at: string
+          email: string | null
+          encryption_key_id: string | null
+          encryption_metadata: Json | null
+          end_to_end_id: string | null
+          exported_amount: number | null
+          "first name": string | null
+          id: number
+          id_card: string | null
+          "last name": string | null
+          matched_card: string | null
+          paid_at: string | null
+          return_reason: string | null
+          returned_at: string | null
+          review_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          status_changed_at: string | null
+          tracking_ref: string
+        }
+        Insert: {
+          account?: string | null
+          amount_recharged?: number | null
+          batch_id?: number | null
+          card_balance?: number | null
+          confirmation_sent_at?: string | null
+          created_at?: string
+          email?: string | null
+          encryption_key_id?: string | null
+          encryption_metadata?: Json | null
+          end_to_end_id?: string | null
+          exported_amount?: number | null
+          "first name"?: string | null
+          id?: number
+          id_card?: string | null
+          "last name"?: string | null
+          matched_card?: string | null
+          paid_at?: string | null
+          return_reason?: string | null
+          returned_at?: string | null
+          review_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          status_changed_at?: string | null
+          tracking_ref?: string
+        }
+        Update: {
+          "first name"?: string | null
+          "last name"?: string | null
+          account?: string | null
+          amount_recharged?: number | null
+          batch_id?: number | null
+          card_balance?: number | null
+          confirmation_sent_at?: string | null
+          created_at?: string
+          email?: string | null
+          encryption_key_id?: string | null
+          encryption_metadata?: Json | null
+          end_to_end_id?: string | null
+          exported_amount?: number | null
+          id?: number
+          id_card?: string | null
+          matched_card?: string | null
+          paid_at?: string | null
+          return_reason?: string | null
+          returned_at?: string | null
+          review_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          status_changed_at?: string | null
+          tracking_ref?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_matched_card_fkey"
+            columns: ["matched_card"]
+            isOneToOne: false
+            referencedRelation: "card_balances"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_matched_card_fkey"
+            columns: ["matched_card"]
+            isOneToOne: false
+            referencedRelation: "table_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "refund_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_encryption_key_id_fkey"
+            columns: ["encryption_key_id"]
+            isOneToOne: false
+            referencedRelation: "encryption_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permission_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          granted: string[]
+          id: number
+          revoked: string[]
+          role: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          granted?: string[]
+          id?: number
+          revoked?: string[]
+          role: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          granted?: string[]
+          id?: number
+          revoked?: string[]
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_permission_history_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          granted_at: string
+          granted_by: string | null
+          permission: string
+          role: string
+        }
+        Insert: {
+          granted_at?: string
+          granted_by?: string | null
+          permission: string
+          role: string
+        }
+        Update: {
+          granted_at?: string
+          granted_by?: string | null
+          permission?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_role_fkey"
+            columns: ["role"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["name"]
+          },
+          {
+            foreignKeyName: "role_permissions_permission_fkey"
+            columns: ["permission"]
+            isOneToOne: false
+            referencedRelation: "permissions"
+            referencedColumns: ["name"]
+          },
+        ]
+      }
+      roles: {
+        Row: {
+          created_at: string
+          description: string
+          name: string
+        }
+        Insert: {
           created_at?: string
-          id?: number
-          notes?: string | null
-          paid_by_card?: boolean | null
-          payment_method?: string | null
-          processed_by_user_id?: string | null
-          stripe_session_id?: string | null
-          transaction_id?: string | null
+          description: string
+          name: string
         }
         Update: {
-          amount?: number | null
-          card_id?: string | null
           created_at?: string
-          id?: number
-          notes?: string | null
-          paid_by_card?: boolean | null
-          payment_method?: string | null
-          processed_by_user_id?: string | null
-          stripe_session_id?: string | null
-          transaction_id?: string | null
+          description?: string
+          name?: string
         }
         Relationships: []
       }
-      refunds: {
+      step_up_verifications: {
         Row: {
-          account: string | null
-          amount_recharged: number | null
-          card_balance: number | null
+          factor_id: string
+          user_id: string
+          verified_at: string
+        }
+        Insert: {
+          factor_id: string
+          user_id: string
+          verified_at?: string
+        }
+        Update: {
+          factor_id?: string
+          user_id?: string
+          verified_at?: string
+        }
+        Relationships: []
+      }
+      stripe_reversals: {
+        Row: {
+          amount: number
+          bonus_amount: number
+          card_frozen: boolean
+          card_id: string | null
           created_at: string
-          email: string | null
-          "first name": string | null
+          debited_amount: number
+          details: Json
           id: number
-          id_card: string | null
-          "last name": string | null
-          matched_card: string | null
+          monitoring_event_id: number | null
+          new_balance: number | null
+          previous_balance: number | null
+          recharge_id: number | null
+          reversal_type: string
+          stripe_event_id: string
+          stripe_object_id: string | null
+          stripe_session_id: string
+          uncovered_amount: number
         }
         Insert: {
-          account?: string | null
-          amount_recharged?: number | null
-          card_balance?: number | null
+          amount?: number
+          bonus_amount?: number
+          card_frozen?: boolean
+          card_id?: string | null
           created_at?: string
-          email?: string | null
-          "first name"?: string | null
+          debited_amount?: number
+          details?: Json
           id?: number
-          id_card?: string | null
-          "last name"?: string | null
-          matched_card?: string | null
+          monitoring_event_id?: number | null
+          new_balance?: number | null
+          previous_balance?: number | null
+          recharge_id?: number | null
+          reversal_type: string
+          stripe_event_id: string
+          stripe_object_id?: string | null
+          stripe_session_id: string
+          uncovered_amount?: number
         }
         Update: {
-          account?: string | null
-          amount_recharged?: number | null
-          card_balance?: number | null
+          amount?: number
+          bonus_amount?: number
+          card_frozen?: boolean
+          card_id?: string | null
           created_at?: string
-          email?: string | null
-          "first name"?: string | null
+          debited_amount?: number
+          details?: Json
           id?: number
-          id_card?: string | null
-          "last name"?: string | null
-          matched_card?: string | null
+          monitoring_event_id?: number | null
+          new_balance?: number | null
+          previous_balance?: number | null
+          recharge_id?: number | null
+          reversal_type?: string
+          stripe_event_id?: string
+          stripe_object_id?: string | null
+          stripe_session_id?: string
+          uncovered_amount?: number
         }
         Relationships: [
           {
-            foreignKeyName: "refunds_matched_card_fkey"
-            columns: ["matched_card"]
+            foreignKeyName: "stripe_reversals_card_id_fkey"
+            columns: ["card_id"]
             isOneToOne: false
-            referencedRelation: "card_balances"
+            referencedRelation: "table_cards"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "refunds_matched_card_fkey"
-            columns: ["matched_card"]
+            foreignKeyName: "stripe_reversals_recharge_id_fkey"
+            columns: ["recharge_id"]
             isOneToOne: false
-            referencedRelation: "table_cards"
+            referencedRelation: "recharges"
             referencedColumns: ["id"]
           },
         ]
@@ -334,6 +1685,10 @@ export type Database = {
           last_payment_method: string | null
           last_recharge_date: string | null
           recharge_count: number | null
+          replaced_by: string | null
+          status: string
+          status_changed_at: string | null
+          status_reason: string | null
         }
         Insert: {
           amount?: number | null
@@ -342,6 +1697,10 @@ export type Database = {
           last_payment_method?: string | null
           last_recharge_date?: string | null
           recharge_count?: number | null
+          replaced_by?: string | null
+          status?: string
+          status_changed_at?: string | null
+          status_reason?: string | null
         }
         Update: {
           amount?: number | null
@@ -350,11 +1709,38 @@ export type Database = {
           last_payment_method?: string | null
           last_recharge_date?: string | null
           recharge_count?: number | null
+          replaced_by?: string | null
+          status?: string
+          status_changed_at?: string | null
+          status_reason?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "table_cards_replaced_by_fkey"
+            columns: ["replaced_by"]
+            isOneToOne: false
+            referencedRelation: "table_cards"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
+      bar_products_current: {
+        Row: {
+          base_price: number | null
+          category: string | null
+          id: number | null
+          is_archived: boolean | null
+          is_deposit: boolean | null
+          is_return: boolean | null
+          name: string | null
+          price: number | null
+          sort_order: number | null
+          updated_at: string | null
+        }
+        Relationships: []
+      }
       card_balances: {
         Row: {
           current_balance: number | null
@@ -367,8 +1753,57 @@ export type Database = {
         }
         Relationships: []
       }
+      card_bonus_totals: {
+        Row: {
+          bonus_credit: number | null
+          card_id: string | null
+        }
+        Relationships: []
+      }
+      card_deposit_ledger: {
+        Row: {
+          card_id: string | null
+          deposits_paid: number | null
+          deposits_returned: number | null
+          outstanding_cups: number | null
+          outstanding_deposits: number | null
+        }
+        Relationships: []
+      }
+      card_ledger_balances: {
+        Row: {
+          card_id: string | null
+          entry_count: number | null
+          last_entry_at: string | null
+          ledger_balance: number | null
+        }
+        Relationships: []
+      }
+      card_lineage: {
+        Row: {
+          card_id: string | null
+          source_card_id: string | null
+        }
+        Relationships: []
+      }
+      card_refundable_amounts: {
+        Row: {
+          balance: number | null
+          bonus_credit: number | null
+          card_fee: number | null
+          card_id: string | null
+          excess_return_credit: number | null
+          outstanding_deposits: number | null
+          refundable_amount: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      audit_log_maintainer: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
       create_bar_order_transaction: {
         Args: {
           p_card_id: string
@@ -379,6 +1814,28 @@ export type Database = {
         }
         Returns: Json
       }
+      detect_cash_drawer_discrepancies: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_active_edition_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_active_payment_provider: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_my_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_recharge_shift_totals: {
+        Args: {
+          shift_id_in: number
+        }
+        Returns: Json
+      }
       get_tables: {
         Args: Record<PropertyKey, never>
         Returns: {
@@ -386,13 +1843,287 @@ export type Database = {
           table_name: string
         }[]
       }
+      get_user_permissions: {
+        Args: {
+          user_id_in: string
+        }
+        Returns: Json
+      }
       get_user_role: {
         Args: { user_id: string }
         Returns: Database["public"]["Enums"]["user_role"]
       }
+      has_permission: {
+        Args: {
+          user_id_in: string
+          permission_in: string
+        }
+        Returns: boolean
+      }
+      quote_recharge_bonus: {
+        Args: {
+          amount_in: number
+          card_id_in?: string
+          package_id_in?: number
+          promo_code_in?: string
+        }
+        Returns: Json
+      }
+      reconcile_card_ledger: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      sp_append_audit_log: {
+        Args: {
+          entry_in: Json
+        }
+        Returns: Json
+      }
+      sp_apply_bank_statement: {
+        Args: {
+          entries_in: Json
+          file_name_in: string
+          imported_by_in: string
+          statement_id_in: string
+          statement_type_in: string
+        }
+        Returns: Json
+      }
+      sp_apply_recharge_bonus: {
+        Args: {
+          package_id_in: number
+          promo_code_in: string
+          session_id_in: string
+          transaction_id_in: string
+        }
+        Returns: Json
+      }
+      sp_archive_audit_logs: {
+        Args: {
+          older_than_in: string
+        }
+        Returns: Json
+      }
+      sp_close_recharge_shift: {
+        Args: {
+          shift_id_in: number
+          counted_cash_in: number
+          closing_notes_in: string
+          closed_by_in: string
+        }
+        Returns: Json
+      }
+      sp_encryption_key_active: {
+        Args: {
+          purpose_in: string
+        }
+        Returns: Json
+      }
+      sp_encryption_key_deactivate: {
+        Args: {
+          id_in: string
+        }
+        Returns: Json
+      }
+      sp_encryption_key_get: {
+        Args: {
+          id_in: string
+        }
+        Returns: Json
+      }
+      sp_encryption_key_store: {
+        Args: {
+          algorithm_in: string
+          expires_at_in?: string
+          id_in: string
+          master_key_id_in: string
+          purpose_in: string
+          wrap_iv_in: string
+          wrap_tag_in: string
+          wrapped_key_in: string
+        }
+        Returns: Json
+      }
+      sp_open_recharge_shift: {
+        Args: {
+          operator_id_in: string
+          opening_float_in: number
+          desk_label_in?: string
+        }
+        Returns: Json
+      }
+      sp_process_manual_adjustment: {
+        Args: {
+          card_id_in: string
+          amount_in: number
+          reason_in: string
+          client_request_id_in: string
+          performed_by_in: string
+          performer_role_in: string
+        }
+        Returns: Json
+      }
+      sp_process_provider_recharge: {
+        Args: {
+          amount_in: number
+          card_id_in: string
+          metadata_in?: Json
+          provider_in: string
+          session_id_in: string
+        }
+        Returns: Json
+      }
+      sp_process_stripe_reversal: {
+        Args: {
+          stripe_event_id_in: string
+          reversal_type_in: string
+          stripe_session_id_in: string
+          stripe_object_id_in: string
+          amount_in: number
+          details_in?: Json
+        }
+        Returns: Json
+      }
+      sp_purge_expired_audit_logs: {
+        Args: {
+          older_than_in: string
+        }
+        Returns: Json
+      }
+      sp_query_audit_logs: {
+        Args: {
+          filters_in?: Json
+        }
+        Returns: Json
+      }
+      sp_rate_limit_hit: {
+        Args: {
+          key_in: string
+          limit_in?: number
+          window_ms_in: number
+        }
+        Returns: Json
+      }
+      sp_rate_limit_reset: {
+        Args: {
+          key_in: string
+        }
+        Returns: Json
+      }
+      sp_rate_limit_status: {
+        Args: {
+          key_in: string
+        }
+        Returns: Json
+      }
+      sp_record_refund_batch: {
+        Args: {
+          debtor_iban_in: string
+          filename_in: string
+          generated_by_in: string
+          message_id_in: string
+          request_id_in: string
+          transfers_in: Json
+          xml_content_in: string
+        }
+        Returns: Json
+      }
+      sp_record_step_up: {
+        Args: {
+          factor_id_in: string
+          user_id_in: string
+        }
+        Returns: Json
+      }
+      sp_refund_bar_order: {
+        Args: {
+          order_id_in: number
+          items_in: Json
+          reason_in: string
+          client_request_id_in: string
+          authorized_by_in: string
+          performed_by_in?: string
+        }
+        Returns: Json
+      }
+      sp_reorder_bar_products: {
+        Args: {
+          product_ids_in: number[]
+          performed_by_in?: string
+          request_id_in?: string
+        }
+        Returns: Json
+      }
+      sp_replace_card: {
+        Args: {
+          old_card_id_in: string
+          new_card_id_in: string
+          reason_in: string
+          client_request_id_in: string
+          performed_by_in: string
+        }
+        Returns: Json
+      }
+      sp_resolve_shift_discrepancy: {
+        Args: {
+          shift_id_in: number
+          resolution_notes_in: string
+          resolved_by_in: string
+        }
+        Returns: Json
+      }
+      sp_review_refund: {
+        Args: {
+          decision_in: string
+          reason_in: string
+          refund_id_in: number
+          reviewed_by_in: string
+        }
+        Returns: Json
+      }
+      sp_set_card_status: {
+        Args: {
+          card_id_in: string
+          status_in: string
+          reason_in: string
+          performed_by_in: string
+        }
+        Returns: Json
+      }
+      sp_set_edition_status: {
+        Args: {
+          edition_id_in: string
+          status_in: string
+        }
+        Returns: Json
+      }
+      sp_set_point_of_sale_products: {
+        Args: {
+          point_of_sale_id_in: number
+          product_ids_in: number[]
+          performed_by_in?: string
+          request_id_in?: string
+        }
+        Returns: Json
+      }
+      sp_set_role_permissions: {
+        Args: {
+          role_in: string
+          permissions_in: string[]
+          granted_by_in?: string
+        }
+        Returns: Json
+      }
+      sp_verify_audit_log_chain: {
+        Args: {
+          from_seq_in?: number
+          max_rows_in?: number
+        }
+        Returns: Json
+      }
     }
     Enums: {
-      user_role: "admin" | "bar" | "recharge"
+      user_role: "admin" | "bar" | "recharge" | "finance_manager" | "auditor"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -508,7 +2239,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      user_role: ["admin", "bar", "recharge"],
+      user_role: ["admin", "bar", "recharge", "finance_manager", "auditor"],
     },
   },
 } as const
@@ -0,0 +1,125 @@
+/**
+ * Tests for the database-backed audit log storage
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AuditCategory,
+  AuditLogEntry,
+  AuditLogger,
+  AuditResult,
+  DataClassification,
+  DatabaseLogStorage,
+  EdgeFunctionLogStorage,
+  retentionDays,
+} from '../audit-logger';
+
+const database = (responses: Record<string, unknown> = {}) => {
+  const rpc = vi.fn(async (fn: string) => (
+    fn in responses
+      ? { data: responses[fn], error: null }
+      : { data: null, error: { message: 'permission denied' } }
+  ));
+  return { rpc };
+};
+
+describe('DatabaseLogStorage', () => {
+  it('should append every logged entry through sp_append_audit_log', async () => {
+    const db = database({ sp_append_audit_log: { success: true, seq: 1, entry_hash: 'abc' } });
+    const logger = new AuditLogger(new DatabaseLogStorage(db));
+
+    await logger.logDataAccess({
+      requestId: 'req-1',
+      userId: 'admin-1',
+      action: 'refund_export',
+      resource: 'refunds',
+      dataType: 'refund_data',
+      recordCount: 3,
+      result: AuditResult.SUCCESS,
+    });
+
+    expect(db.rpc).toHaveBeenCalledWith('sp_append_audit_log', {
+      entry_in: expect.objectContaining({
+        requestId: 'req-1',
+        category: AuditCategory.DATA_ACCESS,
+        dataClassification: DataClassification.CONFIDENTIAL,
+        retentionPeriod: retentionDays(DataClassification.CONFIDENTIAL),
+      }),
+    });
+  });
+
+  it('should send dates as ISO strings and unwrap the stored entries', async () => {
+    const stored = { id: 'audit_1', action: 'login' };
+    const db = database({ sp_query_audit_logs: [{ seq: 7, entry: stored, entry_hash: 'abc', archived_at: null }] });
+    const storage = new DatabaseLogStorage(db);
+
+    const entries = await storage.query({
+      startDate: new Date('2026-10-01T00:00:00Z'),
+      category: AuditCategory.AUTHENTICATION,
+      limit: 50,
+    });
+
+    expect(entries).toEqual([stored]);
+    expect(db.rpc).toHaveBeenCalledWith('sp_query_audit_logs', {
+      filters_in: expect.objectContaining({
+        startDate: '2026-10-01T00:00:00.000Z',
+        endDate: undefined,
+        category: 'authentication',
+        limit: 50,
+      }),
+    });
+  });
+
+  it('should report a broken chain', async () => {
+    const db = database({ sp_verify_audit_log_chain: { valid: false, checked: 41, broken_seq: 42, reason: 'hash_mismatch' } });
+    const logger = new AuditLogger(new DatabaseLogStorage(db));
+
+    expect(await logger.verifyIntegrity()).toEqual({ valid: false, checked: 41, brokenSeq: 42, reason: 'hash_mismatch' });
+  });
+
+  it('should surface database errors to the caller', async () => {
+    const storage = new DatabaseLogStorage(database());
+
+    await expect(storage.archive(new Date('2025-10-19T00:00:00Z'))).rejects.toThrow('sp_archive_audit_logs failed: permission denied');
+  });
+});
+
+describe('EdgeFunctionLogStorage', () => {
+  const client = (error: { message: string } | null = null) => ({
+    ...database({ sp_query_audit_logs: [] }),
+    functions: { invoke: vi.fn(async () => ({ error })) },
+  });
+
+  it('should append entries through the append-audit-log function, not the database', async () => {
+    const db = client();
+    const logger = new AuditLogger(new EdgeFunctionLogStorage(db));
+
+    await logger.logDataAccess({
+      requestId: 'req-2',
+      userId: 'staff-1',
+      action: 'card_lookup',
+      resource: 'table_cards',
+      dataType: 'card_data',
+      recordCount: 1,
+      result: AuditResult.SUCCESS,
+    });
+
+    expect(db.functions.invoke).toHaveBeenCalledWith('append-audit-log', {
+      body: { entry: expect.objectContaining({ requestId: 'req-2', action: 'card_lookup' }) },
+    });
+    expect(db.rpc).not.toHaveBeenCalledWith('sp_append_audit_log', expect.anything());
+  });
+
+  it('should still query through the database functions', async () => {
+    const db = client();
+
+    expect(await new EdgeFunctionLogStorage(db).query({ limit: 10 })).toEqual([]);
+    expect(db.rpc).toHaveBeenCalledWith('sp_query_audit_logs', { filters_in: expect.objectContaining({ limit: 10 }) });
+  });
+
+  it('should surface a refused entry to the caller', async () => {
+    const storage = new EdgeFunctionLogStorage(client({ message: 'Too many audit entries' }));
+
+    await expect(storage.store({ id: 'audit_1' } as AuditLogEntry)).rejects.toThrow('append-audit-log failed: Too many audit entries');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for the Audit tab searches, exports and retention
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  applyAuditRetention,
+  auditLogsToCsv,
+  searchAuditLogs,
+  toLogQueryFilters,
+} from '../audit-logs';
+import type { AuditLogEntry } from '../audit-logger';
+
+const { mockGetSession, mockAuditLogger } = vi.hoisted(() => ({
+  mockGetSession: vi.fn(),
+  mockAuditLogger: {
+    queryLogs: vi.fn(),
+    archiveLogs: vi.fn(),
+    deleteExpiredLogs: vi.fn(),
+    verifyIntegrity: vi.fn(),
+    logDataAccess: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { auth: { getSession: mockGetSession } },
+}));
+
+vi.mock('@/lib/audit-logger', () => ({
+  auditLogger: mockAuditLogger,
+  AuditResult: { SUCCESS: 'success', FAILURE: 'failure' },
+  AuditCategory: {
+    AUTHENTICATION: 'authentication',
+    AUTHORIZATION: 'authorization',
+    DATA_ACCESS: 'data_access',
+    DATA_MODIFICATION: 'data_modification',
+    FINANCIAL_TRANSACTION: 'financial_transaction',
+    SECURITY_VIOLATION: 'security_violation',
+    SYSTEM_EVENT: 'system_event',
+    COMPLIANCE: 'compliance',
+    PERFORMANCE: 'performance',
+    ERROR: 'error',
+  },
+  RiskLevel: { LOW: 'low', MEDIUM: 'medium', HIGH: 'high', CRITICAL: 'critical' },
+}));
+
+const entry = (overrides: Partial<AuditLogEntry> = {}) => ({
+  id: 'audit_1',
+  timestamp: '2026-10-19T10:00:00.000Z',
+  requestId: 'req-1',
+  category: 'financial_transaction',
+  riskLevel: 'high',
+  result: 'success',
+  action: 'refund_generate',
+  resource: 'refunds',
+  userId: 'admin-1',
+  ...overrides,
+}) as AuditLogEntry;
+
+describe('Audit log viewer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetSession.mockResolvedValue({ data: { session: { user: { id: 'admin-1' } } } });
+  });
+
+  it('should turn the tab filters into whole-day query filters', () => {
+    const filters = toLogQueryFilters({
+      category: 'security_violation' as never,
+      userId: '  user-9 ',
+      from: '2026-10-01',
+      to: '2026-10-02',
+      offset: 100,
+    });
+
+    expect(filters).toMatchObject({ category: 'security_violation', userId: 'user-9', limit: 100, offset: 100 });
+    expect(filters.startDate).toEqual(new Date(2026, 9, 1, 0, 0, 0, 0));
+    expect(filters.endDate).toEqual(new Date(2026, 9, 2, 23, 59, 59, 999));
+    expect(toLogQueryFilters({ userId: ' ' }).userId).toBeUndefined();
+  });
+
+  it('should audit each search of the audit trail', async () => {
+    mockAuditLogger.queryLogs.mockResolvedValue([entry(), entry({ id: 'audit_2' })]);
+
+    const result = await searchAuditLogs({ riskLevel: 'critical' as never });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(2);
+    expect(mockAuditLogger.queryLogs).toHaveBeenCalledWith(expect.objectContaining({ riskLevel: 'critical', offset: 0 }));
+    expect(mockAuditLogger.logDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'admin-1',
+      action: 'audit_logs_search',
+      dataType: 'audit_logs',
+      recordCount: 2,
+    }));
+  });
+
+  it('should report storage failures in French', async () => {
+    mockAuditLogger.queryLogs.mockRejectedValue(new Error('sp_query_audit_logs failed: permission denied'));
+
+    const result = await searchAuditLogs({});
+
+    expect(result).toEqual({ success: false, error: 'Impossible de charger le journal d\'audit' });
+    expect(mockAuditLogger.logDataAccess).not.toHaveBeenCalled();
+  });
+
+  it('should quote CSV cells containing separators, quotes or newlines', () => {
+    const csv = auditLogsToCsv([
+      entry({ action: 'say "hi"', resource: 'a,b', data: { note: 'x' } }),
+      entry({ userId: undefined, error: { code: 'E', message: 'line1\nline2' } }),
+    ]);
+    const lines = csv.split('\n');
+
+    expect(lines[0]).toBe('timestamp,category,risk_level,result,action,resource,resource_id,user_id,ip_address,request_id,data_classification,data,error');
+    expect(lines[1]).toContain(',"say ""hi""","a,b",,admin-1,');
+    expect(lines[1]).toContain('"{""note"":""x""}"');
+    expect(csv).toContain(',,,req-1,,,"line1\nline2"');
+  });
+
+  it('should archive after archiveAfterDays and redact expired entries', async () => {
+    mockAuditLogger.archiveLogs.mockResolvedValue(12);
+    mockAuditLogger.deleteExpiredLogs.mockResolvedValue(3);
+    const now = new Date('2026-10-19T00:00:00Z');
+
+    const result = await applyAuditRetention(now);
+
+    expect(result).toEqual({ success: true, data: { archived: 12, purged: 3 } });
+    expect(mockAuditLogger.archiveLogs).toHaveBeenCalledWith(new Date('2025-10-19T00:00:00Z'));
+    expect(mockAuditLogger.deleteExpiredLogs).toHaveBeenCalledWith(now);
+  });
+});
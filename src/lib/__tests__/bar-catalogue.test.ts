@@ -0,0 +1,178 @@
+/**
+ * Tests for the bar product catalogue client
+ *
+ * Covers input validation, scheduled price resolution, and the cache
+ * invalidation / audit logging done after successful catalogue changes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  validateBarProductInput,
+  validatePriceSchedule,
+  getEffectivePrice,
+  createCatalogueProduct,
+  archiveCatalogueProduct,
+  listCatalogueProducts,
+  CatalogueProduct,
+} from '../bar-catalogue';
+import { mockGetSession, mockInvoke, mockLogDataAccess, rejectedWith, signIn } from './edge-function-mocks';
+
+const { mockInvalidate } = vi.hoisted(() => ({
+  mockInvalidate: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase', async () =>
+  (await import('./edge-function-mocks')).mockSupabaseModule({}, { invalidateBarProductsCache: mockInvalidate })
+);
+
+vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+
+function createProduct(overrides: Partial<CatalogueProduct> = {}): CatalogueProduct {
+  return {
+    id: 1,
+    name: 'Bière',
+    price: 3,
+    category: 'Bière',
+    is_deposit: false,
+    is_return: false,
+    sort_order: 10,
+    is_archived: false,
+    archived_at: null,
+    updated_at: '2026-07-10T10:00:00.000Z',
+    bar_product_price_schedules: [],
+    ...overrides,
+  };
+}
+
+describe('Bar catalogue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn();
+  });
+
+  describe('validateBarProductInput', () => {
+    it('should accept a valid product', () => {
+      expect(validateBarProductInput({ name: 'Spritz', price: 8.5, category: 'Cocktail' })).toEqual([]);
+    });
+
+    it('should require a name and a price on creation', () => {
+      const errors = validateBarProductInput({ category: 'Soft' });
+      expect(errors).toHaveLength(2);
+    });
+
+    it('should allow partial updates', () => {
+      expect(validateBarProductInput({ price: 4 }, true)).toEqual([]);
+    });
+
+    it('should reject negative prices and more than two decimals', () => {
+      expect(validateBarProductInput({ name: 'Eau', price: -1 })).toHaveLength(1);
+      expect(validateBarProductInput({ name: 'Eau', price: 1.234 })).toHaveLength(1);
+    });
+
+    it('should reject unknown categories', () => {
+      expect(validateBarProductInput({ name: 'Chips', price: 2, category: 'Snacks' })).toHaveLength(1);
+    });
+
+    it('should reject products flagged as both deposit and return', () => {
+      const errors = validateBarProductInput({ name: 'Gobelet', price: 1, is_deposit: true, is_return: true });
+      expect(errors).toHaveLength(1);
+    });
+  });
+
+  describe('validatePriceSchedule', () => {
+    it('should require the end to be after the start', () => {
+      expect(validatePriceSchedule({
+        price: 2,
+        effective_from: '2026-07-10T22:00:00.000Z',
+        effective_until: '2026-07-10T20:00:00.000Z',
+      })).toHaveLength(1);
+    });
+
+    it('should accept an open-ended schedule', () => {
+      expect(validatePriceSchedule({ price: 2, effective_from: '2026-07-10T22:00:00.000Z' })).toEqual([]);
+    });
+  });
+
+  describe('getEffectivePrice', () => {
+    const product = createProduct({
+      bar_product_price_schedules: [
+        {
+          id: 1, product_id: 1, edition_id: 'july-10th', price: 2.5,
+          effective_from: '2026-07-10T20:00:00.000Z', effective_until: '2026-07-10T22:00:00.000Z',
+          created_by: null, created_at: '2026-07-01T00:00:00.000Z',
+        },
+      ],
+    });
+
+    it('should apply the scheduled price during its window', () => {
+      expect(getEffectivePrice(product, new Date('2026-07-10T21:00:00.000Z'))).toBe(2.5);
+    });
+
+    it('should fall back to the base price outside the window', () => {
+      expect(getEffectivePrice(product, new Date('2026-07-10T23:00:00.000Z'))).toBe(3);
+    });
+  });
+
+  describe('catalogue changes', () => {
+    it('should invalidate the product cache and audit successful changes', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, product: createProduct({ is_archived: true }), request_id: 'req-1' },
+        error: null,
+      });
+
+      const result = await archiveCatalogueProduct(1);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.is_archived).toBe(true);
+      expect(mockInvoke).toHaveBeenCalledWith('manage-bar-products', expect.objectContaining({
+        body: { action: 'archive', product_id: 1 },
+      }));
+      expect(mockInvalidate).toHaveBeenCalledTimes(1);
+      expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+        requestId: 'req-1',
+        userId: 'admin-1',
+        action: 'catalogue_archive',
+        dataType: 'product_data',
+      }));
+    });
+
+    it('should not invalidate the cache when listing products', async () => {
+      mockInvoke.mockResolvedValue({ data: { success: true, products: [createProduct()] }, error: null });
+
+      const result = await listCatalogueProducts();
+
+      expect(result.data).toHaveLength(1);
+      expect(mockInvalidate).not.toHaveBeenCalled();
+      expect(mockLogDataAccess).not.toHaveBeenCalled();
+    });
+
+    it('should not call the server for invalid products', async () => {
+      const result = await createCatalogueProduct({ name: '', price: 2 });
+
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe('VALIDATION_ERROR');
+      expect(mockInvoke).not.toHaveBeenCalled();
+    });
+
+    it('should surface server validation errors', async () => {
+      mockInvoke.mockResolvedValue(
+        rejectedWith({ success: false, error: 'A product named "Bière" already exists', error_code: 'DUPLICATE_PRODUCT' })
+      );
+
+      const result = await createCatalogueProduct({ name: 'Bière', price: 3, category: 'Bière' });
+
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe('DUPLICATE_PRODUCT');
+      expect(mockInvalidate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse changes without a session', async () => {
+      mockGetSession.mockResolvedValue({ data: { session: null } });
+
+      const result = await archiveCatalogueProduct(1);
+
+      expect(result.error_code).toBe('UNAUTHORIZED');
+      expect(mockInvoke).not.toHaveBeenCalled();
+    });
+  });
+});
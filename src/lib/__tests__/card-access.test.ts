@@ -0,0 +1,146 @@
+/**
+ * Tests for card secrets on the public pages and their admin management
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  normalizeCardSecret,
+  buildCardAccessUrl,
+  lookupCard,
+  submitRefundRequest,
+  issueCardSecret,
+  getCardSecretStatus,
+} from '../card-access';
+import { mockInvoke, mockLogDataAccess, rejectedWith, signIn } from './edge-function-mocks';
+
+vi.mock('@/lib/supabase', async () => (await import('./edge-function-mocks')).mockSupabaseModule());
+
+vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+
+describe('Card access', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn();
+  });
+
+  describe('secrets', () => {
+    it('should normalize typed codes to the printed format', () => {
+      expect(normalizeCardSecret(' ab3-k7p ')).toBe('AB3K7P');
+      expect(normalizeCardSecret(undefined)).toBe('');
+    });
+
+    it('should build the QR link for a card', () => {
+      expect(buildCardAccessUrl('CARD 1', 'AB3K7P', 'https://example.org'))
+        .toBe('https://example.org/s/CARD%201?k=AB3K7P');
+    });
+  });
+
+  describe('lookupCard', () => {
+    it('should send the normalized secret and return the card balance', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, card_id: 'CARD1', amount: 12.5, secret_protected: true },
+        error: null,
+      });
+
+      const result = await lookupCard('CARD1', 'ab3k7p');
+
+      expect(mockInvoke).toHaveBeenCalledWith('card-access', { body: { card_id: 'CARD1', secret: 'AB3K7P' } });
+      expect(result).toEqual({ success: true, card: { id: 'CARD1', amount: 12.5, secretProtected: true } });
+    });
+
+    it('should report remaining attempts after a wrong code', async () => {
+      mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'INVALID_SECRET', remaining_attempts: 2 }));
+
+      const result = await lookupCard('CARD1', 'WRONG1');
+
+      expect(result).toMatchObject({
+        success: false,
+        error_code: 'INVALID_SECRET',
+        error: 'Code incorrect (2 essais restants)',
+        remaining_attempts: 2,
+      });
+    });
+
+    it('should explain the lockout duration', async () => {
+      mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'CARD_LOCKED', retry_after_seconds: 600 }));
+
+      const result = await lookupCard('CARD1', 'WRONG1');
+
+      expect(result.error).toBe('Trop de tentatives. Réessayez dans 10 minutes.');
+    });
+  });
+
+  describe('submitRefundRequest', () => {
+    it('should submit the form through the edge function', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, refund_id: 7, tracking_ref: 'RB-4F2A9C1E7B', confirmation_sent: true },
+        error: null,
+      });
+
+      const result = await submitRefundRequest({
+        cardId: ' CARD1 ',
+        secret: 'ab3k7p',
+        firstName: 'Jeanne',
+        lastName: 'Dupont',
+        email: 'jeanne@example.org',
+        account: 'BE68539007547034',
+      });
+
+      expect(result).toEqual({ success: true, refundId: 7, trackingRef: 'RB-4F2A9C1E7B', confirmationSent: true });
+      expect(mockInvoke).toHaveBeenCalledWith('submit-refund-request', {
+        body: {
+          card_id: 'CARD1',
+          secret: 'AB3K7P',
+          first_name: 'Jeanne',
+          last_name: 'Dupont',
+          email: 'jeanne@example.org',
+          account: 'BE68539007547034',
+        },
+      });
+    });
+
+    it('should ask for the code of a protected card', async () => {
+      mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'SECRET_REQUIRED' }));
+
+      const result = await submitRefundRequest({
+        cardId: 'CARD1', firstName: 'A', lastName: 'B', email: 'a@b.be', account: 'BE68539007547034',
+      });
+
+      expect(result.error_code).toBe('SECRET_REQUIRED');
+      expect(result.error).toBe('Veuillez entrer le code imprimé sur votre carte');
+    });
+  });
+
+  describe('admin management', () => {
+    it('should return the new secret once and audit the issue', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, card_id: 'CARD1', protected: true, secret: 'AB3K7P', issued_at: '2025-06-13T18:00:00Z', reissued: true, request_id: 'req-1' },
+        error: null,
+      });
+
+      const result = await issueCardSecret('CARD1');
+
+      expect(result.data).toMatchObject({ card_id: 'CARD1', protected: true, secret: 'AB3K7P', reissued: true });
+      expect(mockInvoke).toHaveBeenCalledWith('manage-card-secrets', {
+        body: { action: 'issue', card_id: 'CARD1' },
+        headers: { Authorization: 'Bearer token' },
+      });
+      expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'card_secret_issue',
+        resourceId: 'CARD1',
+      }));
+    });
+
+    it('should not audit status lookups', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, card_id: 'CARD1', protected: false, issued_at: null, request_id: 'req-2' },
+        error: null,
+      });
+
+      const result = await getCardSecretStatus('CARD1');
+
+      expect(result.data?.protected).toBe(false);
+      expect(mockLogDataAccess).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for the card transaction history and statement export
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getCardHistory,
+  buildStatementCsv,
+  buildStatementHtml,
+  CardHistory,
+} from '../card-history';
+import { mockInvoke, rejectedWith } from './edge-function-mocks';
+
+vi.mock('@/lib/supabase', async () => (await import('./edge-function-mocks')).mockSupabaseModule());
+
+const HISTORY: CardHistory = {
+  card_id: 'ABC123',
+  current_balance: 14,
+  opening_balance: 0,
+  totals: { recharged: 20, spent: 9, refunded: 3 },
+  transactions: [
+    {
+      id: 'recharge-1',
+      type: 'recharge',
+      occurred_at: '2025-06-13T18:00:00Z',
+      description: 'Recharge en espèces',
+      amount: 20,
+      balance_after: 20,
+    },
+    {
+      id: 'order-7',
+      type: 'bar_order',
+      occurred_at: '2025-06-13T19:00:00Z',
+      description: 'Commande bar #7',
+      amount: -9,
+      balance_after: 11,
+      items: [
+        { product_name: 'Bière "blonde"; 25cl', quantity: 3, unit_price: 3, is_return: false, refunded_quantity: 1 },
+      ],
+    },
+    {
+      id: 'order-refund-1',
+      type: 'order_refund',
+      occurred_at: '2025-06-13T19:05:00Z',
+      description: 'Remboursement partiel de la commande #7',
+      amount: 3,
+      balance_after: 14,
+    },
+  ],
+  generated_at: '2025-06-14T10:00:00Z',
+};
+
+describe('Card history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getCardHistory', () => {
+    it('should return the statement from the edge function', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, ...HISTORY, request_id: 'req-1' },
+        error: null,
+      });
+
+      const result = await getCardHistory('ABC123');
+
+      expect(mockInvoke).toHaveBeenCalledWith('get-card-history', { body: { card_id: 'ABC123', secret: undefined } });
+      expect(result).toEqual({ success: true, history: HISTORY });
+    });
+
+    it('should explain rate limiting to the customer', async () => {
+      mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'RATE_LIMITED' }));
+
+      const result = await getCardHistory('ABC123');
+
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe('RATE_LIMITED');
+      expect(result.error).toContain('réessayer');
+    });
+
+    it('should report unknown cards', async () => {
+      mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'CARD_NOT_FOUND' }));
+
+      const result = await getCardHistory('NOPE');
+
+      expect(result).toMatchObject({ success: false, error: 'Carte non trouvée', error_code: 'CARD_NOT_FOUND' });
+    });
+  });
+
+  describe('statement export', () => {
+    it('should build a semicolon-separated CSV with escaped fields', () => {
+      const lines = buildStatementCsv(HISTORY).split('\n');
+
+      expect(lines).toHaveLength(4);
+      expect(lines[0]).toBe('Date;Type;Description;Articles;Montant (€);Solde (€)');
+      expect(lines[1]).toContain(';Recharge;Recharge en espèces;;20.00;20.00');
+      expect(lines[2]).toContain(';Commande;Commande bar #7;"3x Bière ""blonde""; 25cl (1 remboursé)";-9.00;11.00');
+    });
+
+    it('should escape customer-visible text in the printable statement', () => {
+      const html = buildStatementHtml(HISTORY);
+
+      expect(html).toContain('Carte : ABC123');
+      expect(html).toContain('Bière &quot;blonde&quot;; 25cl');
+      expect(html).toContain('Solde actuel : 14.00 €');
+    });
+  });
+});
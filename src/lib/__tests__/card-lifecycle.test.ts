@@ -0,0 +1,164 @@
+/**
+ * Tests for card blocking, replacement and merge
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getAllowedTransitions,
+  canReplaceCard,
+  setCardStatus,
+  replaceCard,
+  getCardLifecycle,
+  describeLifecycleEvent,
+  CardLifecycleEvent,
+} from '../card-lifecycle';
+import { mockInvoke, mockLogDataAccess, rejectedWith, signIn } from './edge-function-mocks';
+
+vi.mock('@/lib/supabase', async () => (await import('./edge-function-mocks')).mockSupabaseModule());
+
+vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+
+const REPLACEMENT = {
+  success: true,
+  old_card_id: 'OLD1',
+  new_card_id: 'NEW1',
+  merged: false,
+  moved_amount: 12.5,
+  new_balance: 12.5,
+  previous_status: 'lost',
+  moved: { recharges: 2, bar_orders: 3, bar_order_refunds: 0, refund_requests: 0 },
+  request_id: 'req-1',
+};
+
+describe('Card lifecycle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn();
+  });
+
+  describe('transitions', () => {
+    it('should allow unblocking but never leaving the retired state', () => {
+      expect(getAllowedTransitions('blocked')).toContain('active');
+      expect(getAllowedTransitions('retired')).toEqual([]);
+      expect(canReplaceCard('lost')).toBe(true);
+      expect(canReplaceCard('retired')).toBe(false);
+    });
+  });
+
+  describe('setCardStatus', () => {
+    it('should block a card and audit the change', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, card_id: 'CARD1', status: 'blocked', previous_status: 'active', changed: true, request_id: 'req-2' },
+        error: null,
+      });
+
+      const result = await setCardStatus(' CARD1 ', 'blocked', ' Volée ');
+
+      expect(result.success).toBe(true);
+      expect(mockInvoke).toHaveBeenCalledWith('manage-cards', {
+        body: { action: 'set_status', card_id: 'CARD1', status: 'blocked', reason: 'Volée' },
+        headers: { Authorization: 'Bearer token' },
+      });
+      expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'card_status_blocked',
+        resourceId: 'CARD1',
+        userId: 'admin-1',
+      }));
+    });
+
+    it('should not audit a status that did not change', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, card_id: 'CARD1', status: 'blocked', changed: false },
+        error: null,
+      });
+
+      await setCardStatus('CARD1', 'blocked');
+
+      expect(mockLogDataAccess).not.toHaveBeenCalled();
+    });
+
+    it('should explain why a card with money cannot be retired', async () => {
+      mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'BALANCE_NOT_EMPTY' }));
+
+      const result = await setCardStatus('CARD1', 'retired');
+
+      expect(result).toMatchObject({ success: false, error_code: 'BALANCE_NOT_EMPTY' });
+      expect(result.error).toContain('Transférez le solde');
+    });
+  });
+
+  describe('replaceCard', () => {
+    it('should audit every step of the replacement', async () => {
+      mockInvoke.mockResolvedValue({ data: REPLACEMENT, error: null });
+
+      const result = await replaceCard('OLD1', ' NEW1 ', 'Carte perdue', 'client-req-1');
+
+      expect(result.data).toMatchObject({ new_card_id: 'NEW1', moved_amount: 12.5 });
+      expect(mockInvoke).toHaveBeenCalledWith('manage-cards', {
+        body: { action: 'replace', card_id: 'OLD1', new_card_id: 'NEW1', reason: 'Carte perdue', client_request_id: 'client-req-1' },
+        headers: { Authorization: 'Bearer token' },
+      });
+      expect(mockLogDataAccess.mock.calls.map(([entry]) => [entry.action, entry.resourceId])).toEqual([
+        ['card_status_retired', 'OLD1'],
+        ['card_balance_transfer_out', 'OLD1'],
+        ['card_balance_transfer_in', 'NEW1'],
+        ['card_replace', 'NEW1'],
+      ]);
+    });
+
+    it('should record a merge and skip auditing a replayed request', async () => {
+      mockInvoke.mockResolvedValueOnce({ data: { ...REPLACEMENT, merged: true }, error: null });
+      await replaceCard('OLD1', 'NEW1', 'Fusion', 'client-req-2');
+      expect(mockLogDataAccess).toHaveBeenLastCalledWith(expect.objectContaining({ action: 'card_merge' }));
+
+      mockLogDataAccess.mockClear();
+      mockInvoke.mockResolvedValueOnce({ data: { ...REPLACEMENT, duplicate: true }, error: null });
+      await replaceCard('OLD1', 'NEW1', 'Fusion', 'client-req-2');
+      expect(mockLogDataAccess).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to merge into a blocked card', async () => {
+      mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'REPLACEMENT_NOT_ACTIVE' }));
+
+      const result = await replaceCard('OLD1', 'NEW1', 'Fusion', 'client-req-3');
+
+      expect(result.error).toBe('La carte de destination n\'est pas active');
+      expect(mockLogDataAccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('history', () => {
+    it('should return the card state and its events', async () => {
+      const event: CardLifecycleEvent = {
+        id: 1,
+        card_id: 'OLD1',
+        event_type: 'balance_transfer_out',
+        from_status: null,
+        to_status: null,
+        amount: 12.5,
+        related_card_id: 'NEW1',
+        details: {},
+        reason: 'Carte perdue',
+        performed_by: 'admin-1',
+        client_request_id: 'client-req-1',
+        created_at: '2025-06-13T18:00:00Z',
+      };
+      mockInvoke.mockResolvedValue({
+        data: {
+          success: true,
+          card: { id: 'OLD1', amount: 0, status: 'retired', status_reason: 'Carte perdue', status_changed_at: null, replaced_by: 'NEW1' },
+          events: [event],
+          request_id: 'req-3',
+        },
+        error: null,
+      });
+
+      const result = await getCardLifecycle('OLD1');
+
+      expect(result.data?.card.replaced_by).toBe('NEW1');
+      expect(describeLifecycleEvent(result.data!.events[0])).toBe('Solde de 12.50€ transféré vers NEW1');
+      expect(describeLifecycleEvent({ ...event, event_type: 'status_change', from_status: 'lost', to_status: 'retired' }))
+        .toBe('Perdue → Retirée (remplacée par NEW1)');
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for bulk card provisioning, QR sheets and NFC tag encoding
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildCardIdRange,
+  provisionCards,
+  buildQrSheetHtml,
+  encodeTags,
+  TagEncoder,
+} from '../card-provisioning';
+import { extractIdFromRecord } from '@/hooks/use-nfc';
+import { mockInvoke, mockLogDataAccess, rejectedWith, signIn } from './edge-function-mocks';
+
+vi.mock('@/lib/supabase', async () => (await import('./edge-function-mocks')).mockSupabaseModule());
+
+vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+
+const ORIGIN = 'https://chateauapero.be';
+
+describe('Card provisioning', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn();
+  });
+
+  describe('buildCardIdRange', () => {
+    it('should pad numbers to eight characters after the prefix', () => {
+      const { ids, error } = buildCardIdRange({ prefix: 'fa25', start: 98, count: 3 });
+
+      expect(error).toBeUndefined();
+      expect(ids).toEqual(['FA250098', 'FA250099', 'FA250100']);
+    });
+
+    it('should reject ranges that overflow the id width', () => {
+      expect(buildCardIdRange({ prefix: 'FA2500', start: 99, count: 2 }).error).toContain('2 chiffres');
+      expect(buildCardIdRange({ prefix: 'FA', start: 1, count: 501 }).error).toContain('500');
+      expect(buildCardIdRange({ prefix: 'FA-', start: 1, count: 1 }).error).toContain('préfixe');
+    });
+  });
+
+  describe('provisionCards', () => {
+    it('should pair returned secrets with their cards and audit the batch', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, created: 2, card_ids: ['FA000001', 'FA000002'], secrets: { FA000001: 'AB3K7P', FA000002: 'QW7M2X' }, request_id: 'req-1' },
+        error: null,
+      });
+
+      const result = await provisionCards(['FA000001', 'FA000002'], { description: ' Lot 1 ', issueSecrets: true });
+
+      expect(mockInvoke).toHaveBeenCalledWith('provision-cards', {
+        body: { card_ids: ['FA000001', 'FA000002'], description: 'Lot 1', issue_secrets: true },
+        headers: { Authorization: 'Bearer token' },
+      });
+      expect(result.cards).toEqual([{ id: 'FA000001', secret: 'AB3K7P' }, { id: 'FA000002', secret: 'QW7M2X' }]);
+      expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'cards_provision',
+        resourceId: 'FA000001..FA000002',
+      }));
+    });
+
+    it('should list ids that are already registered', async () => {
+      mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'CARDS_EXIST', details: { existing_ids: ['FA000002'] } }));
+
+      const result = await provisionCards(['FA000001', 'FA000002']);
+
+      expect(result).toMatchObject({ success: false, error_code: 'CARDS_EXIST', existing_ids: ['FA000002'] });
+      expect(mockLogDataAccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildQrSheetHtml', () => {
+    it('should render one QR code per card with its printed code', async () => {
+      const html = await buildQrSheetHtml([{ id: 'FA000001', secret: 'AB3K7P' }, { id: 'FA000002' }], ORIGIN);
+
+      expect(html.match(/<svg/g)).toHaveLength(2);
+      expect(html).toContain('<div class="id">FA000001</div>');
+      expect(html).toContain('<div class="code">AB3K7P</div>');
+      expect(html.match(/class="code"/g)).toHaveLength(1);
+    });
+  });
+
+  describe('encodeTags', () => {
+    const cards = [{ id: 'FA000001' }, { id: 'FA000002', secret: 'AB3K7P' }, { id: 'FA000003' }];
+
+    it('should write the scan link on each tag and keep going after a failure', async () => {
+      const encoder: TagEncoder = {
+        writeTag: vi.fn()
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValueOnce(new Error('Tag en lecture seule'))
+          .mockResolvedValueOnce(undefined),
+        readTag: vi.fn(),
+      };
+      const onProgress = vi.fn();
+
+      const report = await encodeTags(cards, 'write', encoder, ORIGIN, { onProgress });
+
+      expect(encoder.writeTag).toHaveBeenNthCalledWith(2, 'FA000002', `${ORIGIN}/s/FA000002?k=AB3K7P`, undefined);
+      expect(report).toEqual({
+        succeeded: ['FA000001', 'FA000003'],
+        failed: [{ id: 'FA000002', error: 'Tag en lecture seule' }],
+        aborted: false,
+      });
+      expect(onProgress).toHaveBeenLastCalledWith({ done: 3, total: 3, current: null, failed: 1 });
+    });
+
+    it('should flag tags that read back another card', async () => {
+      const encoder: TagEncoder = {
+        writeTag: vi.fn(),
+        readTag: vi.fn().mockResolvedValueOnce('FA000001').mockResolvedValueOnce('FA000009').mockResolvedValueOnce(null),
+      };
+
+      const report = await encodeTags(cards, 'verify', encoder, ORIGIN);
+
+      expect(report.succeeded).toEqual(['FA000001']);
+      expect(report.failed).toEqual([
+        { id: 'FA000002', error: 'Tag lu : FA000009' },
+        { id: 'FA000003', error: 'Tag illisible' },
+      ]);
+    });
+
+    it('should stop when the operator aborts', async () => {
+      const controller = new AbortController();
+      const encoder: TagEncoder = {
+        writeTag: vi.fn().mockImplementationOnce(async () => controller.abort()),
+        readTag: vi.fn(),
+      };
+
+      const report = await encodeTags(cards, 'write', encoder, ORIGIN, { signal: controller.signal });
+
+      expect(encoder.writeTag).toHaveBeenCalledTimes(1);
+      expect(report.aborted).toBe(true);
+    });
+
+    it('should write links the bar reader decodes back to the card id', () => {
+      const record = { recordType: 'url', data: new TextEncoder().encode(`${ORIGIN}/s/FA000002?k=AB3K7P`) };
+
+      expect(extractIdFromRecord(record)).toBe('FA000002');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Tests for cup deposit accounting and net revenue
+ */
+
+import { describe, it, expect } from 'vitest';
+import { summarizeDeposits, computeNetRevenue } from '../deposits';
+
+const ORDERS = [
+  {
+    // 2 beers with 2 cups
+    total_amount: 12,
+    refunded_amount: 0,
+    bar_order_items: [
+      { price: 5, quantity: 2, is_deposit: false, is_return: false },
+      { price: 1, quantity: 2, is_deposit: true, is_return: false },
+    ],
+  },
+  {
+    // 1 cup returned with a new beer
+    total_amount: 4,
+    refunded_amount: 0,
+    bar_order_items: [
+      { price: 5, quantity: 1, is_deposit: false, is_return: false },
+      { price: 1, quantity: 1, is_deposit: false, is_return: true },
+    ],
+  },
+  {
+    // 1 beer and its cup voided after the fact
+    total_amount: 6,
+    refunded_amount: 6,
+    bar_order_items: [
+      { price: 5, quantity: 1, refunded_quantity: 1, is_deposit: false, is_return: false },
+      { price: 1, quantity: 1, refunded_quantity: 1, is_deposit: true, is_return: false },
+    ],
+  },
+];
+
+describe('Deposits', () => {
+  it('should track deposits paid and returned net of voided items', () => {
+    expect(summarizeDeposits(ORDERS)).toEqual({
+      depositsCollected: 2,
+      depositsReturned: 1,
+      outstandingDeposits: 1,
+      cupsOut: 2,
+      cupsReturned: 1,
+    });
+  });
+
+  it('should exclude outstanding deposits from revenue and add card fees', () => {
+    const summary = computeNetRevenue(ORDERS, [{ amount: 1.5 }, { amount: 1.5 }]);
+
+    expect(summary.grossSales).toBe(16);
+    expect(summary.barRevenue).toBe(15);
+    expect(summary.cardFees).toBe(3);
+    expect(summary.netRevenue).toBe(18);
+  });
+
+  it('should handle orders without items', () => {
+    const summary = computeNetRevenue([{ total_amount: 10, bar_order_items: null }]);
+
+    expect(summary.netRevenue).toBe(10);
+    expect(summary.deposits.outstandingDeposits).toBe(0);
+  });
+});
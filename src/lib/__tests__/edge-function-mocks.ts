@@ -0,0 +1,66 @@
+/**
+ * Shared mocks for the tests of modules that call edge functions through
+ * supabase.functions.invoke
+ *
+ * vi.mock factories are hoisted above the imports, so test files load these
+ * from the factory:
+ *
+ *   vi.mock('@/lib/supabase', async () => (await import('./edge-function-mocks')).mockSupabaseModule());
+ *   vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+ *
+ * The mocked @/lib/supabase keeps the real readErrorBody, so error bodies are
+ * read as in the app.
+ */
+
+import { vi } from 'vitest';
+
+export const mockInvoke = vi.fn();
+export const mockGetSession = vi.fn();
+export const mockLogDataAccess = vi.fn();
+
+/**
+ * @/lib/supabase with a client whose auth.getSession and functions.invoke are
+ * mockGetSession and mockInvoke. `client` adds or replaces client members,
+ * `exports` module exports.
+ */
+export async function mockSupabaseModule(
+  client: Record<string, unknown> = {},
+  exports: Record<string, unknown> = {}
+) {
+  const { readErrorBody } = await vi.importActual<typeof import('@/lib/supabase')>('@/lib/supabase');
+  const { auth, ...members } = client;
+  return {
+    supabase: {
+      auth: { getSession: mockGetSession, ...(auth as Record<string, unknown> | undefined) },
+      functions: { invoke: mockInvoke },
+      ...members,
+    },
+    readErrorBody,
+    ...exports,
+  };
+}
+
+export function mockAuditLoggerModule(logger: Record<string, unknown> = {}) {
+  return {
+    auditLogger: { logDataAccess: mockLogDataAccess, ...logger },
+    AuditResult: { SUCCESS: 'success', FAILURE: 'failure' },
+  };
+}
+
+/**
+ * What supabase.functions.invoke resolves to when the function answers with
+ * a non-2xx status and this JSON body
+ */
+export const rejectedWith = (body: Record<string, unknown>) => ({
+  data: null,
+  error: {
+    message: 'Edge Function returned a non-2xx status code',
+    context: { json: async () => body },
+  },
+});
+
+export function signIn(userId = 'admin-1') {
+  mockGetSession.mockResolvedValue({
+    data: { session: { access_token: 'token', user: { id: userId } } },
+  });
+}
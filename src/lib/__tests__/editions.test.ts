@@ -0,0 +1,127 @@
+/**
+ * Tests for festival edition helpers shared by the dashboard and admin UI
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  toEditionConfig,
+  getDefaultEdition,
+  canTransitionEdition,
+  validateEditionInput,
+  EditionConfig,
+} from '../editions';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {},
+}));
+
+const edition = (id: string, start: string, status: EditionConfig['status']): EditionConfig => ({
+  id,
+  name: id,
+  dateRange: { start, end: start },
+  status,
+});
+
+const EDITIONS = [
+  edition('may-8th', '2025-05-08', 'closed'),
+  edition('june-19th', '2025-06-19', 'closed'),
+  edition('september-11th', '2025-09-11', 'upcoming'),
+];
+
+describe('Editions', () => {
+  describe('toEditionConfig', () => {
+    it('should map database rows to the dashboard configuration', () => {
+      expect(toEditionConfig({
+        id: 'july-10th',
+        name: '10 Juillet',
+        start_date: '2025-07-10',
+        end_date: '2025-07-11',
+        status: 'live',
+      })).toEqual({
+        id: 'july-10th',
+        name: '10 Juillet',
+        dateRange: { start: '2025-07-10', end: '2025-07-11' },
+        status: 'live',
+      });
+    });
+
+    it('should treat unknown statuses as upcoming', () => {
+      const config = toEditionConfig({ id: 'x', name: 'X', start_date: '2025-01-01', end_date: '2025-01-01', status: 'done' });
+      expect(config.status).toBe('upcoming');
+    });
+
+    it('should map the payment provider and fall back to Stripe for unknown ones', () => {
+      const row = { id: 'x', name: 'X', start_date: '2025-01-01', end_date: '2025-01-01', status: 'live' };
+      expect(toEditionConfig({ ...row, payment_provider: 'mock' }).paymentProvider).toBe('mock');
+      expect(toEditionConfig({ ...row, payment_provider: 'paypal' }).paymentProvider).toBe('stripe');
+    });
+
+    it('should map the card fee returned as a numeric string', () => {
+      const row = { id: 'x', name: 'X', start_date: '2025-01-01', end_date: '2025-01-01', status: 'live' };
+      expect(toEditionConfig({ ...row, card_fee: '1.50' }).cardFee).toBe(1.5);
+      expect(toEditionConfig(row).cardFee).toBeUndefined();
+    });
+  });
+
+  describe('getDefaultEdition', () => {
+    it('should prefer the live edition', () => {
+      const editions = [...EDITIONS, edition('july-10th', '2025-07-10', 'live')];
+      expect(getDefaultEdition(editions, '2025-12-01')?.id).toBe('july-10th');
+    });
+
+    it('should fall back to the most recent edition that has started', () => {
+      expect(getDefaultEdition(EDITIONS, '2025-08-01')?.id).toBe('june-19th');
+    });
+
+    it('should fall back to the first edition before the season starts', () => {
+      expect(getDefaultEdition(EDITIONS, '2025-01-01')?.id).toBe('may-8th');
+      expect(getDefaultEdition([], '2025-01-01')).toBeNull();
+    });
+  });
+
+  describe('status lifecycle', () => {
+    it('should allow opening, closing and reopening editions', () => {
+      expect(canTransitionEdition('upcoming', 'live')).toBe(true);
+      expect(canTransitionEdition('live', 'closed')).toBe(true);
+      expect(canTransitionEdition('closed', 'live')).toBe(true);
+    });
+
+    it('should reject skipping the live status', () => {
+      expect(canTransitionEdition('upcoming', 'closed')).toBe(false);
+      expect(canTransitionEdition('closed', 'upcoming')).toBe(false);
+    });
+  });
+
+  describe('validateEditionInput', () => {
+    const valid = { id: 'november-13th', name: '13 Novembre', start_date: '2025-11-13', end_date: '2025-11-14' };
+
+    it('should accept a complete edition', () => {
+      expect(validateEditionInput(valid)).toEqual([]);
+    });
+
+    it('should reject ids that are not slugs', () => {
+      expect(validateEditionInput({ ...valid, id: '13 Novembre' })).toHaveLength(1);
+    });
+
+    it('should reject an end date before the start date', () => {
+      expect(validateEditionInput({ ...valid, end_date: '2025-11-12' })).toHaveLength(1);
+    });
+
+    it('should only check provided fields on update', () => {
+      expect(validateEditionInput({ name: 'Nouveau nom' }, true)).toEqual([]);
+      expect(validateEditionInput({ name: ' ' }, true)).toHaveLength(1);
+    });
+
+    it('should only accept known payment providers', () => {
+      expect(validateEditionInput({ payment_provider: 'mock' }, true)).toEqual([]);
+      expect(validateEditionInput({ ...valid, payment_provider: 'paypal' as 'stripe' })).toHaveLength(1);
+    });
+
+    it('should keep the card fee between 0 and the maximum', () => {
+      expect(validateEditionInput({ card_fee: 2 }, true)).toEqual([]);
+      expect(validateEditionInput({ card_fee: -1 }, true)).toHaveLength(1);
+      expect(validateEditionInput({ card_fee: 80 }, true)).toHaveLength(1);
+      expect(validateEditionInput({ card_fee: Number.NaN }, true)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Tests for persistent, envelope-encrypted keys and re-encryption on rotation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import crypto from 'node:crypto';
+import {
+  DatabaseKeyManager,
+  DataEncryptionService,
+  EncryptedRecord,
+  EncryptedRecordStore,
+  parseMasterKey,
+} from '../encryption';
+
+const { mockLogDataAccess, mockLogError } = vi.hoisted(() => ({
+  mockLogDataAccess: vi.fn(),
+  mockLogError: vi.fn(),
+}));
+
+vi.mock('@/lib/audit-logger', () => ({
+  auditLogger: { logDataAccess: mockLogDataAccess, logError: mockLogError },
+  AuditResult: { SUCCESS: 'success', PARTIAL: 'partial' },
+}));
+
+/**
+ * In-memory stand-in for the encryption_keys functions
+ */
+class FakeKeyDatabase {
+  keys = new Map<string, Record<string, unknown>>();
+
+  rpc = vi.fn(async (fn: string, params: Record<string, unknown> = {}) => {
+    switch (fn) {
+      case 'sp_encryption_key_store': {
+        for (const row of this.keys.values()) {
+          if (row.purpose === params.purpose_in && row.is_active) {
+            row.is_active = false;
+          }
+        }
+        const row = {
+          id: params.id_in,
+          purpose: params.purpose_in,
+          algorithm: params.algorithm_in,
+          wrapped_key: params.wrapped_key_in,
+          wrap_iv: params.wrap_iv_in,
+          wrap_tag: params.wrap_tag_in,
+          master_key_id: params.master_key_id_in,
+          created_at: new Date().toISOString(),
+          expires_at: params.expires_at_in ?? null,
+          is_active: true,
+        };
+        this.keys.set(row.id as string, row);
+        return { data: { ...row }, error: null };
+      }
+      case 'sp_encryption_key_active': {
+        const row = [...this.keys.values()].find(key => key.purpose === params.purpose_in && key.is_active);
+        return { data: row ? { ...row } : null, error: null };
+      }
+      case 'sp_encryption_key_get': {
+        const row = this.keys.get(params.id_in as string);
+        return { data: row ? { ...row } : null, error: null };
+      }
+      case 'sp_encryption_key_deactivate': {
+        const row = this.keys.get(params.id_in as string);
+        if (row) row.is_active = false;
+        return { data: { success: !!row }, error: null };
+      }
+      default:
+        return { data: null, error: { message: `unknown function ${fn}` } };
+    }
+  });
+}
+
+/**
+ * Refund-like table: account and email, encrypted or not
+ */
+class FakeRecordStore implements EncryptedRecordStore {
+  name = 'refunds';
+  rows = new Map<number, EncryptedRecord & { keyId: string | null }>();
+
+  async listStale(activeKeyId: string, afterId: string | number | null, limit: number): Promise<EncryptedRecord[]> {
+    return [...this.rows.values()]
+      .filter(row => row.keyId !== activeKeyId && (afterId === null || Number(row.id) > Number(afterId)))
+      .sort((a, b) => Number(a.id) - Number(b.id))
+      .slice(0, limit)
+      .map(({ id, fields, metadata }) => ({ id, fields: { ...fields }, metadata: { ...metadata } }));
+  }
+
+  async save(record: EncryptedRecord, keyId: string): Promise<void> {
+    this.rows.set(Number(record.id), { ...record, keyId });
+  }
+}
+
+const masterKey = () => crypto.randomBytes(32);
+
+async function storeEncrypted(service: DataEncryptionService, store: FakeRecordStore, id: number, fields: Record<string, string>) {
+  const result = await service.encryptFields(fields, Object.keys(fields));
+  store.rows.set(id, {
+    id,
+    fields: result.encryptedData,
+    metadata: result.encryptionMetadata!,
+    keyId: result.encryptionMetadata!.account.keyId,
+  });
+}
+
+async function readRecord(service: DataEncryptionService, store: FakeRecordStore, id: number) {
+  const row = store.rows.get(id)!;
+  const result = await service.decryptFields(row.fields, row.metadata, Object.keys(row.fields));
+  expect(result.success).toBe(true);
+  return result.decryptedData;
+}
+
+describe('DatabaseKeyManager', () => {
+  let db: FakeKeyDatabase;
+  let key: Buffer;
+
+  beforeEach(() => {
+    db = new FakeKeyDatabase();
+    key = masterKey();
+    mockLogDataAccess.mockClear();
+    mockLogError.mockClear();
+  });
+
+  it('should decrypt data encrypted before a restart', async () => {
+    const before = new DataEncryptionService(new DatabaseKeyManager(db, key));
+    const encrypted = await before.encryptData('BE68539007547034');
+    expect(encrypted.success).toBe(true);
+
+    // A new instance with the same table and master key
+    const after = new DataEncryptionService(new DatabaseKeyManager(db, Buffer.from(key)));
+    const decrypted = await after.decryptData(encrypted.encryptedData!, encrypted.metadata!);
+
+    expect(decrypted).toEqual({ success: true, decryptedData: 'BE68539007547034' });
+  });
+
+  it('should only store data keys wrapped by the master key', async () => {
+    const manager = new DatabaseKeyManager(db, key);
+    const dataKey = await manager.generateKey('data');
+
+    const row = db.keys.get(dataKey.id)!;
+    expect(Buffer.from(row.wrapped_key as string, 'base64').equals(dataKey.key)).toBe(false);
+
+    const otherMaster = new DatabaseKeyManager(db, masterKey());
+    await expect(otherMaster.getKey(dataKey.id)).rejects.toThrow('wrapped by another master key');
+  });
+
+  it('should reject a wrapped key moved to another key id', async () => {
+    const manager = new DatabaseKeyManager(db, key);
+    const first = await manager.generateKey('data');
+    const second = await manager.generateKey('data');
+    const { wrapped_key, wrap_iv, wrap_tag } = db.keys.get(first.id)!;
+    Object.assign(db.keys.get(second.id)!, { wrapped_key, wrap_iv, wrap_tag });
+
+    await expect(new DatabaseKeyManager(db, key).getKey(second.id)).rejects.toThrow();
+  });
+
+  it('should refuse a master key of the wrong size', () => {
+    expect(() => parseMasterKey(Buffer.alloc(16).toString('base64'))).toThrow('32 bytes');
+    expect(parseMasterKey(key.toString('base64')).equals(key)).toBe(true);
+  });
+
+  it('should re-encrypt stored and plaintext records when rotating keys', async () => {
+    const service = new DataEncryptionService(new DatabaseKeyManager(db, key));
+    const store = new FakeRecordStore();
+    await storeEncrypted(service, store, 1, { account: 'BE68539007547034', email: 'guest@example.com' });
+    const oldKeyId = store.rows.get(1)!.keyId;
+    // Recorded before encryption
+    store.rows.set(2, { id: 2, fields: { account: 'FR7630006000011234567890189', email: 'other@example.com' }, metadata: {}, keyId: null });
+
+    const result = await service.rotateKeys([store]);
+
+    expect(result.activeKeyId).not.toBe(oldKeyId);
+    expect(result).toMatchObject({ reencrypted: { refunds: 2 }, failed: { refunds: [] }, complete: true });
+    for (const row of store.rows.values()) {
+      expect(row.keyId).toBe(result.activeKeyId);
+      expect(row.metadata.account.keyId).toBe(result.activeKeyId);
+      expect(row.fields.account).not.toMatch(/^(BE|FR)\d/);
+    }
+    expect(db.keys.get(oldKeyId!)).toMatchObject({ is_active: false });
+
+    // Readable after a restart, with only the new key
+    const restarted = new DataEncryptionService(new DatabaseKeyManager(db, key));
+    expect(await readRecord(restarted, store, 1)).toEqual({ account: 'BE68539007547034', email: 'guest@example.com' });
+    expect(await readRecord(restarted, store, 2)).toEqual({ account: 'FR7630006000011234567890189', email: 'other@example.com' });
+  });
+
+  it('should resume an interrupted re-encryption without rotating again', async () => {
+    const service = new DataEncryptionService(new DatabaseKeyManager(db, key));
+    const store = new FakeRecordStore();
+    for (let id = 1; id <= 5; id++) {
+      await storeEncrypted(service, store, id, { account: 'BE68539007547034', email: `guest${id}@example.com` });
+    }
+
+    const first = await service.rotateKeys([store], 3);
+    expect(first).toMatchObject({ reencrypted: { refunds: 3 }, complete: false });
+
+    const second = await service.reencryptRecords([store], 3);
+    expect(second).toMatchObject({ activeKeyId: first.activeKeyId, reencrypted: { refunds: 2 }, complete: true });
+    expect([...store.rows.values()].every(row => row.keyId === first.activeKeyId)).toBe(true);
+  });
+
+  it('should report records that cannot be decrypted and leave them as they are', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const service = new DataEncryptionService(new DatabaseKeyManager(db, key));
+    const store = new FakeRecordStore();
+    await storeEncrypted(service, store, 1, { account: 'BE68539007547034', email: 'guest@example.com' });
+    await storeEncrypted(service, store, 2, { account: 'BE68539007547034', email: 'tampered@example.com' });
+    const tampered = store.rows.get(2)!;
+    tampered.fields.email = Buffer.from('tampered').toString('base64');
+
+    const result = await service.rotateKeys([store]);
+
+    expect(result).toMatchObject({ reencrypted: { refunds: 1 }, failed: { refunds: [2] } });
+    expect(store.rows.get(2)).toBe(tampered);
+    expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({ action: 'reencrypt_records', result: 'partial' }));
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for manual balance adjustments through process-manual-adjustment
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { processManualAdjustment, validateManualAdjustment } from '../manual-adjustments';
+import { mockGetSession, mockInvoke, mockLogDataAccess, rejectedWith, signIn } from './edge-function-mocks';
+
+vi.mock('@/lib/supabase', async () =>
+  (await import('./edge-function-mocks')).mockSupabaseModule({}, { generateClientRequestId: () => 'generated-id' })
+);
+
+vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+
+describe('Manual adjustments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn('cashier-1');
+  });
+
+  it('should send a withdrawal as a negative amount with its reason and audit it', async () => {
+    mockInvoke.mockResolvedValue({
+      data: {
+        success: true,
+        adjustment: { id: 7, card_id: 'CARD01', amount: -5 },
+        previous_balance: '20.00',
+        new_balance: '15.00',
+        request_id: 'req-1',
+      },
+      error: null,
+    });
+
+    const result = await processManualAdjustment({
+      cardId: ' CARD01 ',
+      amount: 5,
+      direction: 'withdraw',
+      reason: ' Remboursement espèces ',
+      clientRequestId: 'attempt-1',
+    });
+
+    expect(mockInvoke).toHaveBeenCalledWith('process-manual-adjustment', {
+      body: { card_id: 'CARD01', amount: -5, reason: 'Remboursement espèces', client_request_id: 'attempt-1' },
+      headers: { Authorization: 'Bearer token' },
+    });
+    expect(result).toMatchObject({ success: true, previousBalance: 20, newBalance: 15, duplicate: false });
+    expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'manual_adjustment_withdraw',
+      resource: 'card_adjustments',
+      resourceId: 'CARD01',
+      userId: 'cashier-1',
+    }));
+  });
+
+  it('should not audit a replayed request twice', async () => {
+    mockInvoke.mockResolvedValue({
+      data: { success: true, previous_balance: 10, new_balance: 30, duplicate: true },
+      error: null,
+    });
+
+    const result = await processManualAdjustment({ cardId: 'CARD01', amount: 20, direction: 'deposit', reason: 'Dépôt' });
+
+    expect(mockInvoke.mock.calls[0][1].body).toMatchObject({ amount: 20, client_request_id: 'generated-id' });
+    expect(result.duplicate).toBe(true);
+    expect(mockLogDataAccess).not.toHaveBeenCalled();
+  });
+
+  it('should explain an insufficient balance', async () => {
+    mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'INSUFFICIENT_BALANCE' }));
+
+    const result = await processManualAdjustment({ cardId: 'CARD01', amount: 50, direction: 'withdraw', reason: 'Retrait' });
+
+    expect(result).toEqual({ success: false, error: 'Solde insuffisant pour ce retrait', error_code: 'INSUFFICIENT_BALANCE' });
+  });
+
+  it('should require a session', async () => {
+    mockGetSession.mockResolvedValue({ data: { session: null } });
+
+    const result = await processManualAdjustment({ cardId: 'CARD01', amount: 5, direction: 'deposit', reason: 'Dépôt' });
+
+    expect(result.error_code).toBe('UNAUTHORIZED');
+    expect(mockInvoke).not.toHaveBeenCalled();
+  });
+
+  it('should require a reason and a positive amount', () => {
+    expect(validateManualAdjustment({ cardId: 'CARD01', amount: 0, direction: 'deposit', reason: '  ' })).toEqual([
+      'Le montant doit être compris entre 0 et 1000€',
+      'Un motif est obligatoire',
+    ]);
+    expect(validateManualAdjustment({ cardId: 'CARD01', amount: 5, direction: 'deposit', reason: 'Dépôt' })).toEqual([]);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Tests for the bar terminal offline order queue
+ *
+ * Covers queuing during network loss, replay on reconnect, idempotent
+ * duplicate replays and business failures surfaced for staff review.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  OfflineOrderQueue,
+  InMemoryOrderStore,
+  isNetworkFailure
+} from '../offline-order-queue';
+import type { BarOrderRequest, BarOrderTransactionResult } from '../supabase';
+
+vi.mock('@/lib/supabase', () => ({
+  processBarOrder: vi.fn(),
+}));
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    payment: vi.fn(),
+  },
+}));
+
+const NETWORK_ERROR: BarOrderTransactionResult = {
+  success: false,
+  error: 'Network or client error',
+  details: { name: 'TypeError', message: 'Failed to fetch' },
+};
+
+function createOrder(clientRequestId: string, total = 10): BarOrderRequest {
+  return {
+    card_id: 'ABCD1234',
+    total_amount: total,
+    client_request_id: clientRequestId,
+    items: [
+      { product_id: 0, quantity: 2, unit_price: total / 2, name: 'Bière', is_deposit: false, is_return: false },
+    ],
+  };
+}
+
+/**
+ * Fake process-bar-order endpoint enforcing idempotency on client_request_id
+ * the same way sp_process_bar_order_with_debouncing does.
+ */
+function createFakeServer() {
+  const processed = new Map<string, BarOrderTransactionResult>();
+  let online = true;
+  let balance = 50;
+
+  const sender = vi.fn(async (order: BarOrderRequest): Promise<BarOrderTransactionResult> => {
+    if (!online) {
+      return NETWORK_ERROR;
+    }
+
+    const previous = processed.get(order.client_request_id);
+    if (previous) {
+      return previous;
+    }
+
+    if (order.card_id === 'UNKNOWN1') {
+      return { success: false, error: 'Card not found. Please verify the card ID.', details: { error_code: 'CARD_NOT_FOUND' } };
+    }
+
+    if (order.total_amount > balance) {
+      return {
+        success: false,
+        error: 'Insufficient funds on card for this transaction.',
+        previous_balance: balance,
+        details: { error_code: 'INSUFFICIENT_FUNDS' },
+      };
+    }
+
+    const previousBalance = balance;
+    balance -= order.total_amount;
+    const result = { success: true, order_id: processed.size + 1, previous_balance: previousBalance, new_balance: balance };
+    processed.set(order.client_request_id, result);
+    return result;
+  });
+
+  return {
+    sender,
+    processed,
+    setOnline: (value: boolean) => { online = value; },
+    getBalance: () => balance,
+  };
+}
+
+describe('OfflineOrderQueue', () => {
+  let store: InMemoryOrderStore;
+  let server: ReturnType<typeof createFakeServer>;
+  let queue: OfflineOrderQueue;
+
+  beforeEach(() => {
+    store = new InMemoryOrderStore();
+    server = createFakeServer();
+    queue = new OfflineOrderQueue(store, server.sender);
+  });
+
+  afterEach(() => {
+    queue.stopAutoReplay();
+  });
+
+  describe('Network failure detection', () => {
+    it('should treat client-side fetch errors as network failures', () => {
+      expect(isNetworkFailure(NETWORK_ERROR)).toBe(true);
+    });
+
+    it('should treat gateway errors without an error code as network failures', () => {
+      expect(isNetworkFailure({ success: false, error: 'Bad Gateway' })).toBe(true);
+    });
+
+    it('should not treat business errors as network failures', () => {
+      expect(isNetworkFailure({
+        success: false,
+        error: 'Insufficient funds on card for this transaction.',
+        details: { error_code: 'INSUFFICIENT_FUNDS' },
+      })).toBe(false);
+      expect(isNetworkFailure({ success: true, order_id: 1 })).toBe(false);
+    });
+  });
+
+  describe('Queuing during network loss', () => {
+    it('should store orders as pending with their client_request_id', async () => {
+      await queue.enqueue(createOrder('req-1'));
+      await queue.enqueue(createOrder('req-2'));
+
+      const orders = await queue.getOrders();
+      expect(orders).toHaveLength(2);
+      expect(orders.map(order => order.client_request_id)).toEqual(['req-1', 'req-2']);
+      expect(orders.every(order => order.status === 'pending')).toBe(true);
+      expect(await queue.getPendingCount()).toBe(2);
+    });
+
+    it('should not duplicate an order enqueued twice', async () => {
+      await queue.enqueue(createOrder('req-1'));
+      await queue.enqueue(createOrder('req-1'));
+
+      expect(await queue.getPendingCount()).toBe(1);
+    });
+
+    it('should keep orders pending when replay happens while still offline', async () => {
+      server.setOnline(false);
+      await queue.enqueue(createOrder('req-1'));
+      await queue.enqueue(createOrder('req-2'));
+
+      const summary = await queue.replay();
+
+      expect(summary.synced).toBe(0);
+      expect(summary.stillPending).toBe(2);
+      // Replay stops at the first network failure instead of hammering the server
+      expect(server.sender).toHaveBeenCalledTimes(1);
+
+      const orders = await queue.getOrders();
+      expect(orders.every(order => order.status === 'pending')).toBe(true);
+      expect(orders[0].attempts).toBe(1);
+    });
+
+    it('should keep orders pending when the sender throws', async () => {
+      const throwingQueue = new OfflineOrderQueue(store, vi.fn().mockRejectedValue(new Error('offline')));
+      await throwingQueue.enqueue(createOrder('req-1'));
+
+      const summary = await throwingQueue.replay();
+
+      expect(summary.stillPending).toBe(1);
+      expect((await store.get('req-1'))?.status).toBe('pending');
+    });
+  });
+
+  describe('Replay on reconnect', () => {
+    it('should replay pending orders and remove them once accepted', async () => {
+      server.setOnline(false);
+      await queue.enqueue(createOrder('req-1', 10));
+      await queue.enqueue(createOrder('req-2', 15));
+
+      server.setOnline(true);
+      const summary = await queue.replay();
+
+      expect(summary).toEqual({ attempted: 2, synced: 2, needsAttention: 0, stillPending: 0 });
+      expect(await queue.getOrders()).toHaveLength(0);
+      expect(server.getBalance()).toBe(25);
+    });
+
+    it('should replay automatically on the browser online event', async () => {
+      queue.startAutoReplay();
+      await queue.enqueue(createOrder('req-1'));
+
+      window.dispatchEvent(new Event('online'));
+
+      await vi.waitFor(async () => {
+        expect(await queue.getOrders()).toHaveLength(0);
+      });
+      expect(server.sender).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notify subscribers when the queue changes', async () => {
+      const listener = vi.fn();
+      queue.subscribe(listener);
+
+      await queue.enqueue(createOrder('req-1'));
+      expect(listener).toHaveBeenLastCalledWith([expect.objectContaining({ client_request_id: 'req-1' })]);
+
+      await queue.replay();
+      expect(listener).toHaveBeenLastCalledWith([]);
+    });
+  });
+
+  describe('Duplicate replays', () => {
+    it('should share a single replay between concurrent callers', async () => {
+      await queue.enqueue(createOrder('req-1'));
+
+      const [first, second] = await Promise.all([queue.replay(), queue.replay()]);
+
+      expect(first).toBe(second);
+      expect(server.sender).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not debit twice when an order reached the server before the connection dropped', async () => {
+      const order = createOrder('req-1', 10);
+
+      // First attempt went through but the response was lost
+      await server.sender(order);
+      await queue.enqueue(order);
+
+      const summary = await queue.replay();
+
+      expect(summary.synced).toBe(1);
+      expect(server.processed.size).toBe(1);
+      expect(server.getBalance()).toBe(40);
+    });
+
+    it('should consider DUPLICATE_REQUEST responses as synced', async () => {
+      const duplicateQueue = new OfflineOrderQueue(store, vi.fn().mockResolvedValue({
+        success: false,
+        error: 'This request has already been processed.',
+        details: { error_code: 'DUPLICATE_REQUEST' },
+      }));
+      await duplicateQueue.enqueue(createOrder('req-1'));
+
+      const summary = await duplicateQueue.replay();
+
+      expect(summary.synced).toBe(1);
+      expect(await duplicateQueue.getOrders()).toHaveLength(0);
+    });
+
+    it('should not resend orders after a successful replay', async () => {
+      await queue.enqueue(createOrder('req-1'));
+      await queue.replay();
+      await queue.replay();
+
+      expect(server.sender).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Business failures surfaced for staff', () => {
+    it('should flag insufficient funds with the card balance', async () => {
+      await queue.enqueue(createOrder('req-1', 80));
+
+      const summary = await queue.replay();
+
+      expect(summary.needsAttention).toBe(1);
+      const [order] = await queue.getOrders();
+      expect(order.status).toBe('needs_attention');
+      expect(order.error_code).toBe('INSUFFICIENT_FUNDS');
+      expect(order.previous_balance).toBe(50);
+    });
+
+    it('should flag unknown cards', async () => {
+      await queue.enqueue({ ...createOrder('req-1'), card_id: 'UNKNOWN1' });
+
+      await queue.replay();
+
+      const [order] = await queue.getOrders();
+      expect(order.status).toBe('needs_attention');
+      expect(order.error_code).toBe('CARD_NOT_FOUND');
+    });
+
+    it('should not retry orders needing attention', async () => {
+      await queue.enqueue(createOrder('req-1', 80));
+      await queue.replay();
+      await queue.replay();
+
+      expect(server.sender).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep rate-limited orders pending for the next replay', async () => {
+      const limitedQueue = new OfflineOrderQueue(store, vi.fn()
+        .mockResolvedValueOnce({
+          success: false,
+          error: 'Too many operations on this card. Please wait a moment.',
+          details: { error_code: 'RATE_LIMITED' },
+        })
+        .mockResolvedValueOnce({ success: true, order_id: 1, previous_balance: 50, new_balance: 40 }));
+      await limitedQueue.enqueue(createOrder('req-1'));
+      await limitedQueue.enqueue(createOrder('req-2'));
+
+      const summary = await limitedQueue.replay();
+
+      expect(summary).toEqual({ attempted: 2, synced: 1, needsAttention: 0, stillPending: 1 });
+      const [order] = await limitedQueue.getOrders();
+      expect(order.client_request_id).toBe('req-1');
+      expect(order.status).toBe('pending');
+    });
+
+    it('should remove an order once staff dismiss it', async () => {
+      await queue.enqueue(createOrder('req-1', 80));
+      await queue.replay();
+
+      await queue.dismiss('req-1');
+
+      expect(await queue.getOrders()).toHaveLength(0);
+    });
+  });
+});
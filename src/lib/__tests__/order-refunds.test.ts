@@ -0,0 +1,125 @@
+/**
+ * Tests for bar order voids and itemised refunds
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  computeRefundAmount,
+  selectAllRemaining,
+  isFullySelected,
+  canRefundOrder,
+  refundBarOrder,
+  RefundableOrderItem,
+} from '../order-refunds';
+import { mockGetSession, mockInvoke, mockLogDataAccess, rejectedWith, signIn } from './edge-function-mocks';
+
+vi.mock('@/lib/supabase', async () => (await import('./edge-function-mocks')).mockSupabaseModule());
+
+vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+
+const ITEMS: RefundableOrderItem[] = [
+  { id: 1, product_name: 'Bière', price: 3, quantity: 2, refunded_quantity: 0, is_deposit: false, is_return: false },
+  { id: 2, product_name: 'Caution', price: 2, quantity: 2, refunded_quantity: 1, is_deposit: true, is_return: false },
+  { id: 3, product_name: 'Retour caution', price: 2, quantity: 1, refunded_quantity: 0, is_deposit: false, is_return: true },
+];
+
+describe('Order refunds', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn('bar-1');
+  });
+
+  describe('refund amount', () => {
+    it('should credit the selected lines', () => {
+      expect(computeRefundAmount(ITEMS, { 1: 1 })).toBe(3);
+    });
+
+    it('should net out return lines', () => {
+      expect(computeRefundAmount(ITEMS, { 1: 2, 3: 1 })).toBe(4);
+    });
+
+    it('should never refund more than what is left on a line', () => {
+      expect(computeRefundAmount(ITEMS, { 2: 5 })).toBe(2);
+    });
+  });
+
+  describe('full void', () => {
+    it('should select every remaining quantity', () => {
+      const selection = selectAllRemaining(ITEMS);
+      expect(selection).toEqual({ 1: 2, 2: 1, 3: 1 });
+      expect(isFullySelected(ITEMS, selection)).toBe(true);
+      expect(isFullySelected(ITEMS, { 1: 2 })).toBe(false);
+    });
+
+    it('should not offer refunds on fully refunded orders', () => {
+      expect(canRefundOrder({ status: 'partially_refunded', bar_order_items: ITEMS })).toBe(true);
+      expect(canRefundOrder({ status: 'refunded', bar_order_items: ITEMS })).toBe(false);
+      expect(canRefundOrder({
+        status: 'partially_refunded',
+        bar_order_items: [{ ...ITEMS[0], refunded_quantity: 2 }],
+      })).toBe(false);
+    });
+  });
+
+  describe('refundBarOrder', () => {
+    it('should send the selected lines with the supervisor PIN and audit the refund', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, refund_type: 'partial', amount: 3, new_balance: 13, request_id: 'req-1' },
+        error: null,
+      });
+
+      const result = await refundBarOrder({
+        orderId: 42,
+        items: { 1: 1, 2: 0 },
+        reason: 'Erreur de saisie',
+        clientRequestId: 'refund-1',
+        supervisorPin: '1234',
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockInvoke).toHaveBeenCalledWith('refund-bar-order', {
+        body: {
+          order_id: 42,
+          reason: 'Erreur de saisie',
+          client_request_id: 'refund-1',
+          items: [{ order_item_id: 1, quantity: 1 }],
+          supervisor_pin: '1234',
+        },
+        headers: { Authorization: 'Bearer token' },
+      });
+      expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'bar_order_refund',
+        resourceId: '42',
+      }));
+    });
+
+    it('should void the whole order when no lines are given', async () => {
+      mockInvoke.mockResolvedValue({ data: { success: true, refund_type: 'void', request_id: 'req-2' }, error: null });
+
+      await refundBarOrder({ orderId: 42, reason: 'Annulation', clientRequestId: 'refund-2' });
+
+      const { body } = mockInvoke.mock.calls[0][1];
+      expect(body).not.toHaveProperty('items');
+      expect(body).not.toHaveProperty('supervisor_pin');
+      expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({ action: 'bar_order_void' }));
+    });
+
+    it('should surface the error code from a rejected PIN', async () => {
+      mockInvoke.mockResolvedValue(rejectedWith({ success: false, error: 'Invalid supervisor PIN', error_code: 'INVALID_SUPERVISOR_PIN' }));
+
+      const result = await refundBarOrder({ orderId: 42, reason: 'x', clientRequestId: 'refund-3', supervisorPin: '0000' });
+
+      expect(result).toMatchObject({ success: false, error: 'Invalid supervisor PIN', error_code: 'INVALID_SUPERVISOR_PIN' });
+      expect(mockLogDataAccess).not.toHaveBeenCalled();
+    });
+
+    it('should require a session', async () => {
+      mockGetSession.mockResolvedValue({ data: { session: null } });
+
+      const result = await refundBarOrder({ orderId: 42, reason: 'x', clientRequestId: 'refund-4' });
+
+      expect(result.error_code).toBe('UNAUTHORIZED');
+      expect(mockInvoke).not.toHaveBeenCalled();
+    });
+  });
+});
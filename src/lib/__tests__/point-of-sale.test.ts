@@ -0,0 +1,105 @@
+/**
+ * Tests for point of sale menus, terminal assignment and reporting helpers
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  filterProductsForPointOfSale,
+  filterOrdersByPointOfSale,
+  summarizeSalesByPointOfSale,
+  getSelectedPointOfSaleId,
+  setSelectedPointOfSaleId,
+  clearSelectedPointOfSale,
+} from '../point-of-sale';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {},
+}));
+
+const POINTS_OF_SALE = [
+  { id: 1, name: 'Bar principal' },
+  { id: 2, name: 'Bar à cocktails' },
+  { id: 3, name: 'Food truck' },
+];
+
+const PRODUCTS = [
+  { id: 1, name: 'Bière' },
+  { id: 2, name: 'Spritz' },
+  { id: 3, name: 'Burger' },
+];
+
+describe('Point of sale', () => {
+  describe('filterProductsForPointOfSale', () => {
+    it('should keep only the products on the menu', () => {
+      const menu = filterProductsForPointOfSale(PRODUCTS, { product_ids: [2] });
+      expect(menu.map(product => product.name)).toEqual(['Spritz']);
+    });
+
+    it('should offer the whole catalogue when the menu is empty', () => {
+      expect(filterProductsForPointOfSale(PRODUCTS, { product_ids: [] })).toHaveLength(3);
+    });
+
+    it('should offer the whole catalogue when no point of sale is selected', () => {
+      expect(filterProductsForPointOfSale(PRODUCTS, null)).toHaveLength(3);
+    });
+  });
+
+  describe('terminal assignment', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should remember the selected point of sale', () => {
+      setSelectedPointOfSaleId(2);
+      expect(getSelectedPointOfSaleId()).toBe(2);
+    });
+
+    it('should forget the selection on clear', () => {
+      setSelectedPointOfSaleId(2);
+      clearSelectedPointOfSale();
+      expect(getSelectedPointOfSaleId()).toBeNull();
+    });
+
+    it('should ignore corrupted values', () => {
+      localStorage.setItem('bar-point-of-sale', 'cocktails');
+      expect(getSelectedPointOfSaleId()).toBeNull();
+    });
+  });
+
+  describe('reporting', () => {
+    const orders = [
+      { point_of_sale: 1, total_amount: 10, bar_order_items: [{ quantity: 2 }, { quantity: 1, is_deposit: true }] },
+      { point_of_sale: 2, total_amount: 24, bar_order_items: [{ quantity: 3 }] },
+      { point_of_sale: null, total_amount: 6, bar_order_items: [{ quantity: 2 }, { quantity: 1, is_return: true }] },
+    ];
+
+    it('should break down revenue and volumes per point of sale', () => {
+      const summaries = summarizeSalesByPointOfSale(orders, POINTS_OF_SALE);
+
+      expect(summaries).toEqual([
+        { pointOfSaleId: 2, name: 'Bar à cocktails', orderCount: 1, itemCount: 3, revenue: 24, share: 60 },
+        { pointOfSaleId: 1, name: 'Bar principal', orderCount: 2, itemCount: 4, revenue: 16, share: 40 },
+      ]);
+    });
+
+    it('should report sales net of refunds', () => {
+      const [summary] = summarizeSalesByPointOfSale([
+        { point_of_sale: 1, total_amount: 12, refunded_amount: 3, bar_order_items: [{ quantity: 4, refunded_quantity: 1 }] },
+      ], POINTS_OF_SALE);
+
+      expect(summary).toMatchObject({ revenue: 9, itemCount: 3 });
+    });
+
+    it('should label unknown points of sale', () => {
+      const [summary] = summarizeSalesByPointOfSale([{ point_of_sale: 9, total_amount: 5 }], POINTS_OF_SALE);
+      expect(summary.name).toBe('Point de vente 9');
+      expect(summary.share).toBe(100);
+    });
+
+    it('should filter orders by point of sale, counting legacy orders on the main bar', () => {
+      expect(filterOrdersByPointOfSale(orders, 'all')).toHaveLength(3);
+      expect(filterOrdersByPointOfSale(orders, 1)).toHaveLength(2);
+      expect(filterOrdersByPointOfSale(orders, 3)).toHaveLength(0);
+    });
+  });
+});
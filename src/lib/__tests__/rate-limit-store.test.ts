@@ -0,0 +1,188 @@
+/**
+ * Tests for the shared, sliding-window rate limit store
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DatabaseRateLimitStore, SecurityMiddleware } from '../security-middleware';
+import { SecurityConfig } from '../../config/security';
+
+/**
+ * In-memory stand-in for the rate_limit_hits functions. Like the advisory lock
+ * in sp_rate_limit_hit, hits of one key run one after the other; the await
+ * between reading and writing would otherwise let concurrent hits see the
+ * same count.
+ */
+class FakeRateLimitDatabase {
+  hits = new Map<string, number[]>();
+  private locks = new Map<string, Promise<unknown>>();
+  failing = false;
+
+  private serialized<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const next = previous.then(operation, operation);
+    this.locks.set(key, next.catch(() => undefined));
+    return next;
+  }
+
+  private live(key: string): number[] {
+    const now = Date.now();
+    const expiries = (this.hits.get(key) ?? []).filter(expiresAt => expiresAt > now);
+    this.hits.set(key, expiries);
+    return expiries;
+  }
+
+  rpc = vi.fn(async (fn: string, params: Record<string, unknown> = {}) => {
+    if (this.failing) {
+      return { data: null, error: { message: 'connection refused' } };
+    }
+    const key = params.key_in as string;
+
+    switch (fn) {
+      case 'sp_rate_limit_status': {
+        const expiries = this.live(key);
+        return {
+          data: expiries.length ? { count: expiries.length, reset_time: Math.min(...expiries) } : null,
+          error: null,
+        };
+      }
+      case 'sp_rate_limit_hit':
+        return this.serialized(key, async () => {
+          const expiries = this.live(key);
+          await new Promise(resolve => setTimeout(resolve, 0));
+          const limit = params.limit_in as number | null;
+          const previousHits = expiries.length;
+          if (limit === null || previousHits < limit) {
+            expiries.push(Date.now() + (params.window_ms_in as number));
+          }
+          return { data: { count: previousHits + 1, reset_time: Math.min(...expiries) }, error: null };
+        });
+      case 'sp_rate_limit_reset':
+        return this.serialized(key, async () => {
+          this.hits.delete(key);
+          return { data: { success: true }, error: null };
+        });
+      default:
+        return { data: null, error: { message: `unknown function ${fn}` } };
+    }
+  });
+}
+
+const request = (ip = '203.0.113.7') => ({
+  method: 'POST',
+  url: '/functions/v1/process-bar-order',
+  headers: { 'x-forwarded-for': ip },
+});
+
+describe('DatabaseRateLimitStore', () => {
+  let db: FakeRateLimitDatabase;
+
+  beforeEach(() => {
+    db = new FakeRateLimitDatabase();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should give concurrent increments distinct counts', async () => {
+    const store = new DatabaseRateLimitStore(db);
+
+    const results = await Promise.all(
+      Array.from({ length: 20 }, () => store.increment('rate_limit:pointOfSale:CARD0001', 60_000))
+    );
+
+    expect(results.map(result => result.count).sort((a, b) => a - b))
+      .toEqual(Array.from({ length: 20 }, (_, index) => index + 1));
+    expect(await store.get('rate_limit:pointOfSale:CARD0001')).toMatchObject({ count: 20 });
+  });
+
+  it('should allow exactly maxRequests of a burst across instances', async () => {
+    // Two edge function instances sharing the table
+    const first = new SecurityMiddleware(new DatabaseRateLimitStore(db));
+    const second = new SecurityMiddleware(new DatabaseRateLimitStore(db));
+    const { maxRequests } = SecurityConfig.rateLimiting.pointOfSale;
+
+    const results = await Promise.all(
+      Array.from({ length: maxRequests + 5 }, (_, index) =>
+        (index % 2 ? first : second).processRequest(request(), { rateLimitTier: 'pointOfSale', rateLimitKey: 'CARD0001' })
+      )
+    );
+
+    expect(results.filter(result => result.success)).toHaveLength(maxRequests);
+    const rejected = results.filter(result => !result.success);
+    expect(rejected).toHaveLength(5);
+    expect(rejected[0]).toMatchObject({ statusCode: 429, error: SecurityConfig.rateLimiting.pointOfSale.message });
+    expect(rejected[0].retryAfterMs).toBeGreaterThan(0);
+    // Refused hits are answered but not stored
+    expect(db.hits.get('rate_limit:pointOfSale:CARD0001')).toHaveLength(maxRequests);
+  });
+
+  it('should free a slot as soon as the oldest hit leaves the window', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T20:00:00Z'));
+    const middleware = new SecurityMiddleware(new DatabaseRateLimitStore(db));
+    const { windowMs, maxRequests } = SecurityConfig.rateLimiting.pointOfSale;
+    const check = () => middleware.checkRateLimit('CARD0001', 'pointOfSale');
+
+    await check();
+    vi.setSystemTime(new Date(Date.now() + windowMs / 2));
+    for (let index = 1; index < maxRequests; index++) {
+      expect((await check()).allowed).toBe(true);
+    }
+    const refused = await check();
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfterMs).toBe(windowMs / 2);
+
+    // Only the first hit has expired: one request fits again, not a full window
+    vi.setSystemTime(new Date(Date.now() + windowMs / 2));
+    expect((await check()).allowed).toBe(true);
+    expect((await check()).allowed).toBe(false);
+  });
+
+  it('should share failed-attempt lockouts between instances', async () => {
+    const first = new SecurityMiddleware(new DatabaseRateLimitStore(db));
+    const second = new SecurityMiddleware(new DatabaseRateLimitStore(db));
+    const { maxAttempts } = SecurityConfig.auth.failedAttempts;
+
+    await Promise.all(
+      Array.from({ length: maxAttempts }, (_, index) =>
+        (index % 2 ? first : second).recordFailedAttempt('card:CARD0001:203.0.113.7')
+      )
+    );
+
+    expect(await second.checkLockout('card:CARD0001:203.0.113.7')).toMatchObject({ locked: true });
+    await first.clearFailedAttempts('card:CARD0001:203.0.113.7');
+    expect(await second.checkLockout('card:CARD0001:203.0.113.7')).toEqual({ locked: false });
+  });
+
+  it('should limit distinct cards per client', async () => {
+    const middleware = new SecurityMiddleware(new DatabaseRateLimitStore(db));
+
+    for (const card of ['CARD0001', 'CARD0002', 'CARD0003']) {
+      expect((await middleware.checkDistinctLimit('card_lookup:203.0.113.7', card, 3, 60_000)).allowed).toBe(true);
+    }
+
+    expect((await middleware.checkDistinctLimit('card_lookup:203.0.113.7', 'CARD0004', 3, 60_000)).allowed).toBe(false);
+    expect((await middleware.checkDistinctLimit('card_lookup:203.0.113.7', 'CARD0002', 3, 60_000)).allowed).toBe(true);
+  });
+
+  it('should fall back to per-instance limits when the database fails', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const middleware = new SecurityMiddleware(new DatabaseRateLimitStore(db));
+    db.failing = true;
+    const { maxRequests } = SecurityConfig.rateLimiting.pointOfSale;
+
+    const results = [];
+    for (let index = 0; index <= maxRequests; index++) {
+      results.push(await middleware.checkRateLimit('CARD0001', 'pointOfSale'));
+    }
+
+    expect(results.filter(result => result.allowed)).toHaveLength(maxRequests);
+    expect(results[maxRequests].allowed).toBe(false);
+    expect(consoleError).toHaveBeenCalledWith(
+      expect.stringContaining('Rate limit store unavailable'),
+      expect.objectContaining({ message: 'sp_rate_limit_hit failed: connection refused' })
+    );
+    consoleError.mockRestore();
+  });
+});
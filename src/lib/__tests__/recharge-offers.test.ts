@@ -0,0 +1,133 @@
+/**
+ * Tests for the recharge packages and promo codes client
+ *
+ * Covers input validation, the public quote (with French error messages)
+ * and the audit logging of admin changes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  validateRechargePackageInput,
+  validatePromoCodeInput,
+  formatPromoBonus,
+  quoteRecharge,
+  listRechargeOffers,
+  savePromoCode,
+  saveRechargePackage,
+} from '../recharge-offers';
+import { mockGetSession, mockInvoke, mockLogDataAccess, rejectedWith, signIn } from './edge-function-mocks';
+
+vi.mock('@/lib/supabase', async () => (await import('./edge-function-mocks')).mockSupabaseModule());
+
+vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+
+describe('Recharge offers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn();
+  });
+
+  describe('validation', () => {
+    it('should accept a package with a bonus', () => {
+      expect(validateRechargePackageInput({ label: '50€ + 5€ offerts', amount: 50, bonus_amount: 5 })).toEqual([]);
+    });
+
+    it('should reject packages without label or with an out of range amount', () => {
+      expect(validateRechargePackageInput({ label: ' ', amount: 20 })).toHaveLength(1);
+      expect(validateRechargePackageInput({ label: 'Gros', amount: 5000 })).toHaveLength(1);
+      expect(validateRechargePackageInput({ label: 'Négatif', amount: 20, bonus_amount: -1 })).toHaveLength(1);
+    });
+
+    it('should validate promo codes', () => {
+      expect(validatePromoCodeInput({ code: 'earlybird', bonus_type: 'percent', bonus_value: 10 })).toEqual([]);
+      expect(validatePromoCodeInput({ code: 'x', bonus_type: 'fixed', bonus_value: 5 })).toHaveLength(1);
+      expect(validatePromoCodeInput({ code: 'HALF', bonus_type: 'percent', bonus_value: 150 })).toHaveLength(1);
+      expect(validatePromoCodeInput({ code: 'LIMIT', bonus_type: 'fixed', bonus_value: 5, max_uses: 0 })).toHaveLength(1);
+    });
+
+    it('should require the validity window to end after it starts', () => {
+      expect(validatePromoCodeInput({
+        code: 'WINDOW',
+        bonus_type: 'fixed',
+        bonus_value: 5,
+        valid_from: '2026-07-10T22:00:00.000Z',
+        valid_until: '2026-07-10T20:00:00.000Z',
+      })).toHaveLength(1);
+    });
+
+    it('should format promo bonuses', () => {
+      expect(formatPromoBonus({ bonus_type: 'fixed', bonus_value: 5, max_bonus: null })).toBe('+5.00€');
+      expect(formatPromoBonus({ bonus_type: 'percent', bonus_value: 10, max_bonus: 20 })).toBe('+10% (max 20.00€)');
+    });
+  });
+
+  describe('quoteRecharge', () => {
+    it('should send a normalized promo code without authentication', async () => {
+      const quote = { amount: 50, package_id: 2, package_bonus: 5, promo_code: 'EARLY', promo_bonus: 2, bonus_amount: 7, total_credit: 57 };
+      mockInvoke.mockResolvedValue({ data: { success: true, quote }, error: null });
+
+      const result = await quoteRecharge(50, { packageId: 2, promoCode: ' early ' }, 'CARD0001');
+
+      expect(result.data).toEqual(quote);
+      expect(mockInvoke).toHaveBeenCalledWith('manage-recharge-offers', {
+        body: { action: 'quote', amount: 50, package_id: 2, promo_code: 'EARLY', card_id: 'CARD0001' },
+      });
+      expect(mockGetSession).not.toHaveBeenCalled();
+    });
+
+    it('should translate promo code errors', async () => {
+      mockInvoke.mockResolvedValue(rejectedWith({ success: false, error: 'Promo code expired', error_code: 'PROMO_EXPIRED' }));
+
+      const result = await quoteRecharge(20, { promoCode: 'OLD' });
+
+      expect(result.success).toBe(false);
+      expect(result.error_code).toBe('PROMO_EXPIRED');
+      expect(result.error).toBe('Ce code promo a expiré');
+    });
+  });
+
+  describe('admin changes', () => {
+    it('should audit saved promo codes', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, promo: { code: 'EARLY' }, request_id: 'req-1' },
+        error: null,
+      });
+
+      const result = await savePromoCode({ code: 'early', bonus_type: 'fixed', bonus_value: 5 });
+
+      expect(result.success).toBe(true);
+      expect(mockInvoke).toHaveBeenCalledWith('manage-recharge-offers', expect.objectContaining({
+        body: { action: 'save_promo', promo: { code: 'EARLY', bonus_type: 'fixed', bonus_value: 5 } },
+        headers: { 'Authorization': 'Bearer token' },
+      }));
+      expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+        requestId: 'req-1',
+        action: 'recharge_offers_save_promo',
+        resource: 'promo_codes',
+        resourceId: 'EARLY',
+      }));
+    });
+
+    it('should list packages and promo codes without auditing', async () => {
+      mockInvoke.mockResolvedValue({
+        data: { success: true, packages: [{ id: 1 }], promo_codes: [], request_id: 'req-2' },
+        error: null,
+      });
+
+      const result = await listRechargeOffers();
+
+      expect(result.data?.packages).toHaveLength(1);
+      expect(result.data?.promoCodes).toEqual([]);
+      expect(mockLogDataAccess).not.toHaveBeenCalled();
+    });
+
+    it('should refuse changes without a session', async () => {
+      mockGetSession.mockResolvedValue({ data: { session: null } });
+
+      const result = await saveRechargePackage({ label: '20€', amount: 20 });
+
+      expect(result.error_code).toBe('UNAUTHORIZED');
+      expect(mockInvoke).not.toHaveBeenCalled();
+    });
+  });
+});
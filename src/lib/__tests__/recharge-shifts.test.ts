@@ -0,0 +1,146 @@
+/**
+ * Tests for recharge desk shifts and cash drawer reconciliation
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  openShift,
+  closeShift,
+  resolveShiftDiscrepancy,
+  getCurrentShift,
+  buildShiftReportCsv,
+  RechargeShift,
+} from '../recharge-shifts';
+import { mockGetSession, mockInvoke, mockLogDataAccess, rejectedWith, signIn } from './edge-function-mocks';
+
+vi.mock('@/lib/supabase', async () => (await import('./edge-function-mocks')).mockSupabaseModule());
+
+vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+
+const closedShift = (overrides: Partial<RechargeShift> = {}): RechargeShift => ({
+  id: 12,
+  operator_id: 'operator-1',
+  edition_id: '2025',
+  desk_label: 'Entrée',
+  status: 'closed',
+  opened_at: '2025-06-14T16:00:00Z',
+  opening_float: 100,
+  closed_at: '2025-06-14T23:00:00Z',
+  closed_by: 'operator-1',
+  counted_cash: 445,
+  expected_cash: 450,
+  cash_total: 350,
+  card_total: 220,
+  cash_count: 18,
+  card_count: 9,
+  discrepancy: -5,
+  discrepancy_status: 'flagged',
+  closing_notes: null,
+  resolution_notes: null,
+  resolved_by: null,
+  resolved_at: null,
+  monitoring_event_id: null,
+  ...overrides,
+});
+
+describe('Recharge shifts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn('operator-1');
+  });
+
+  it('should open a shift with the float and audit it', async () => {
+    mockInvoke.mockResolvedValue({
+      data: { success: true, shift: { id: 12, opening_float: 100, status: 'open' }, request_id: 'req-1' },
+      error: null,
+    });
+
+    const result = await openShift(100, ' Entrée ');
+
+    expect(mockInvoke).toHaveBeenCalledWith('manage-recharge-shifts', {
+      body: { action: 'open', opening_float: 100, desk_label: 'Entrée' },
+      headers: { Authorization: 'Bearer token' },
+    });
+    expect(result.data?.id).toBe(12);
+    expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'recharge_shift_open',
+      resource: 'recharge_shifts',
+      resourceId: '12',
+      userId: 'operator-1',
+    }));
+  });
+
+  it('should explain a second open shift', async () => {
+    mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'SHIFT_ALREADY_OPEN' }));
+
+    const result = await openShift(50);
+
+    expect(result).toEqual({ success: false, error: 'Vous avez déjà une caisse ouverte', error_code: 'SHIFT_ALREADY_OPEN' });
+    expect(mockLogDataAccess).not.toHaveBeenCalled();
+  });
+
+  it('should close a shift with the counted cash and return its discrepancy', async () => {
+    mockInvoke.mockResolvedValue({
+      data: { success: true, shift: closedShift(), request_id: 'req-2' },
+      error: null,
+    });
+
+    const result = await closeShift(12, 445, '  ');
+
+    expect(mockInvoke).toHaveBeenCalledWith('manage-recharge-shifts', expect.objectContaining({
+      body: { action: 'close', shift_id: 12, counted_cash: 445 },
+    }));
+    expect(result.data).toMatchObject({ discrepancy: -5, discrepancy_status: 'flagged' });
+    expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({ action: 'recharge_shift_close' }));
+  });
+
+  it('should pass resolution notes and report shifts without discrepancy', async () => {
+    mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'NO_DISCREPANCY' }));
+
+    const result = await resolveShiftDiscrepancy(12, ' Erreur de rendu ');
+
+    expect(mockInvoke).toHaveBeenCalledWith('manage-recharge-shifts', expect.objectContaining({
+      body: { action: 'resolve', shift_id: 12, notes: 'Erreur de rendu' },
+    }));
+    expect(result.error_code).toBe('NO_DISCREPANCY');
+  });
+
+  it('should return the running totals of the open shift', async () => {
+    mockInvoke.mockResolvedValue({
+      data: {
+        success: true,
+        shift: { id: 12, status: 'open', opening_float: 100 },
+        totals: { cash_total: 40, card_total: 20, cash_count: 2, card_count: 1 },
+      },
+      error: null,
+    });
+
+    const result = await getCurrentShift();
+
+    expect(result.data?.totals).toEqual({ cash_total: 40, card_total: 20, cash_count: 2, card_count: 1 });
+  });
+
+  it('should require a session', async () => {
+    mockGetSession.mockResolvedValue({ data: { session: null } });
+
+    const result = await openShift(100);
+
+    expect(result.error_code).toBe('UNAUTHORIZED');
+    expect(mockInvoke).not.toHaveBeenCalled();
+  });
+
+  describe('buildShiftReportCsv', () => {
+    it('should export closed shifts only, one row per shift', () => {
+      const csv = buildShiftReportCsv(
+        [closedShift({ closing_notes: 'Billet; douteux' }), closedShift({ id: 13, status: 'open' })],
+        { 'operator-1': 'Jeanne' }
+      );
+      const lines = csv.split('\n');
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toContain('Écart (€)');
+      expect(lines[1]).toMatch(/^12;Jeanne;Entrée;/);
+      expect(lines[1]).toContain(';100.00;350.00;18;220.00;9;450.00;445.00;-5.00;Écart à justifier;"Billet; douteux";');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for SEPA batch history and bank statement import
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { listRefundBatches, getRefundBatchFile, importBankStatement } from '../refund-batches';
+import { mockInvoke, mockLogDataAccess, rejectedWith, signIn } from './edge-function-mocks';
+
+const { mockFrom } = vi.hoisted(() => ({
+  mockFrom: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase', async () => (await import('./edge-function-mocks')).mockSupabaseModule({ from: mockFrom }));
+vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+
+// Chainable query builder resolving to the given result
+const queryReturning = (result: { data: unknown; error: unknown }) => {
+  const query = {
+    select: vi.fn(() => query),
+    order: vi.fn(() => query),
+    limit: vi.fn(() => Promise.resolve(result)),
+    eq: vi.fn(() => query),
+    single: vi.fn(() => Promise.resolve(result)),
+  };
+  return query;
+};
+
+describe('Refund batches', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn();
+  });
+
+  it('should summarise the settlement of each batch from its refunds', async () => {
+    mockFrom.mockReturnValue(queryReturning({
+      data: [{
+        id: 4,
+        message_id: 'CBC20261019120000_042',
+        filename: 'CBC_Refunds_CBC20261019120000_042_20261019120000.xml',
+        transaction_count: 3,
+        total_amount: '62.50',
+        created_at: '2026-10-19T12:00:00Z',
+        refunds: [{ status: 'paid' }, { status: 'returned' }, { status: 'exported' }],
+      }],
+      error: null,
+    }));
+
+    const result = await listRefundBatches();
+
+    expect(mockFrom).toHaveBeenCalledWith('refund_batches');
+    expect(result.data).toEqual([{
+      id: 4,
+      message_id: 'CBC20261019120000_042',
+      filename: 'CBC_Refunds_CBC20261019120000_042_20261019120000.xml',
+      transaction_count: 3,
+      total_amount: 62.5,
+      created_at: '2026-10-19T12:00:00Z',
+      paid_count: 1,
+      returned_count: 1,
+      pending_count: 1,
+    }]);
+  });
+
+  it('should return the stored XML and audit the download', async () => {
+    mockFrom.mockReturnValue(queryReturning({
+      data: { filename: 'batch.xml', xml_content: '<?xml version="1.0"?><Document/>' },
+      error: null,
+    }));
+
+    const result = await getRefundBatchFile(4);
+
+    expect(result).toEqual({ success: true, data: { filename: 'batch.xml', content: '<?xml version="1.0"?><Document/>' } });
+    expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'refund_batch_download',
+      resourceId: '4',
+    }));
+  });
+
+  it('should send the statement to import-bank-statement and audit the import', async () => {
+    mockInvoke.mockResolvedValue({
+      data: {
+        success: true,
+        import_id: 9,
+        statement_id: 'STMT20261021001',
+        statement_type: 'camt.053',
+        entry_count: 2,
+        paid_count: 1,
+        returned_count: 1,
+        unmatched_count: 0,
+        ignored_transactions: 5,
+        skipped_entries: 0,
+        results: [],
+        request_id: 'req-1',
+      },
+      error: null,
+    });
+
+    const result = await importBankStatement('statement.xml', '<Document/>');
+
+    expect(mockInvoke).toHaveBeenCalledWith('import-bank-statement', {
+      body: { file_name: 'statement.xml', content: '<Document/>' },
+      headers: { 'Authorization': 'Bearer token' },
+    });
+    expect(result.data).toMatchObject({ statement_id: 'STMT20261021001', paid_count: 1, returned_count: 1, ignored_transactions: 5 });
+    expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+      requestId: 'req-1',
+      action: 'bank_statement_import',
+      resourceId: '9',
+    }));
+  });
+
+  it('should map a statement imported twice to a French message', async () => {
+    mockInvoke.mockResolvedValue(rejectedWith({ success: false, error: 'This statement has already been imported', error_code: 'ALREADY_IMPORTED' }));
+
+    const result = await importBankStatement('statement.xml', '<Document/>');
+
+    expect(result).toEqual({ success: false, error: 'Ce relevé a déjà été importé', error_code: 'ALREADY_IMPORTED' });
+    expect(mockLogDataAccess).not.toHaveBeenCalled();
+  });
+
+  it('should refuse an empty file without calling the function', async () => {
+    const result = await importBankStatement('empty.xml', '  ');
+
+    expect(result.error_code).toBe('INVALID_REQUEST');
+    expect(mockInvoke).not.toHaveBeenCalled();
+  });
+});
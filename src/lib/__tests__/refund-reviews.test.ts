@@ -0,0 +1,109 @@
+/**
+ * Tests for the refund review queue and review-refund decisions
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildReviewQueue, reviewRefund } from '../refund-reviews';
+import { mockGetSession, mockInvoke, mockLogDataAccess, rejectedWith, signIn } from './edge-function-mocks';
+
+vi.mock('@/lib/supabase', async () => (await import('./edge-function-mocks')).mockSupabaseModule());
+vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+
+describe('Refund reviews', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn();
+  });
+
+  it('should merge payable and invalid requests into one queue, oldest first', () => {
+    const queue = buildReviewQueue(
+      [{
+        id: 2,
+        tracking_ref: 'RB-0000000002',
+        status: 'validated',
+        created_at: '2026-10-12T10:00:00Z',
+        first_name: 'Jeanne',
+        last_name: 'Dupont',
+        email: 'jeanne@example.org',
+        account: 'BE68539007547034',
+        id_card: 'CARD02',
+        amount_recharged: 18.5,
+        validation_status: 'warning',
+        validation_notes: ['Bonus exclu: 2.00€'],
+      }],
+      [{
+        refund_id: 1,
+        error_message: 'Card not found',
+        refund_data: {
+          created_at: '2026-10-11T09:00:00Z',
+          'first name': 'Marc',
+          'last name': 'Leroy',
+          email: 'marc@example.org',
+          id_card: 'CARD01',
+          tracking_ref: 'RB-0000000001',
+        },
+      }]
+    );
+
+    expect(queue.map(entry => entry.id)).toEqual([1, 2]);
+    expect(queue[0]).toMatchObject({
+      status: 'submitted',
+      first_name: 'Marc',
+      amount: null,
+      validation_status: 'error',
+      validation_notes: ['Card not found'],
+    });
+    expect(queue[1]).toMatchObject({ status: 'validated', amount: 18.5, validation_notes: ['Bonus exclu: 2.00€'] });
+  });
+
+  it('should require a reason to reject without calling the function', async () => {
+    const result = await reviewRefund(3, 'reject', '   ');
+
+    expect(result).toMatchObject({ success: false, error_code: 'INVALID_REQUEST' });
+    expect(mockInvoke).not.toHaveBeenCalled();
+  });
+
+  it('should approve through review-refund and audit the decision', async () => {
+    mockInvoke.mockResolvedValue({
+      data: { success: true, refund_id: 3, previous_status: 'submitted', status: 'validated', request_id: 'req-1' },
+      error: null,
+    });
+
+    const result = await reviewRefund(3, 'approve');
+
+    expect(result).toEqual({ success: true, data: { status: 'validated' } });
+    expect(mockInvoke).toHaveBeenCalledWith('review-refund', {
+      body: { refund_id: 3, decision: 'approve' },
+      headers: { 'Authorization': 'Bearer token' },
+    });
+    expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+      requestId: 'req-1',
+      userId: 'admin-1',
+      action: 'refund_approve',
+      resourceId: '3',
+    }));
+  });
+
+  it('should map an exported refund to a French message', async () => {
+    mockInvoke.mockResolvedValue(rejectedWith({ success: false, error: 'This refund is already in a SEPA batch', error_code: 'ALREADY_EXPORTED' }));
+
+    const result = await reviewRefund(3, 'reject', 'IBAN invalide');
+
+    expect(mockInvoke.mock.calls[0][1].body).toEqual({ refund_id: 3, decision: 'reject', reason: 'IBAN invalide' });
+    expect(result).toEqual({
+      success: false,
+      error: 'Ce remboursement fait déjà partie d\'un fichier SEPA',
+      error_code: 'ALREADY_EXPORTED',
+    });
+    expect(mockLogDataAccess).not.toHaveBeenCalled();
+  });
+
+  it('should require a session', async () => {
+    mockGetSession.mockResolvedValue({ data: { session: null } });
+
+    const result = await reviewRefund(3, 'approve');
+
+    expect(result.error_code).toBe('UNAUTHORIZED');
+    expect(mockInvoke).not.toHaveBeenCalled();
+  });
+});
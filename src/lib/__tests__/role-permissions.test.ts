@@ -0,0 +1,103 @@
+/**
+ * Tests for the role → permission model and the manage-role-permissions calls
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildPermissionMatrix, hasAnyPermission, setRolePermissions } from '../role-permissions';
+import { mockGetSession, mockInvoke, mockLogDataAccess, rejectedWith, signIn } from './edge-function-mocks';
+
+vi.mock('@/lib/supabase', async () => (await import('./edge-function-mocks')).mockSupabaseModule());
+
+vi.mock('@/lib/audit-logger', async () => (await import('./edge-function-mocks')).mockAuditLoggerModule());
+
+describe('Role permissions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    signIn();
+  });
+
+  it('should grant access when any required permission is held', () => {
+    const recharge = ['access_recharge', 'adjust_balances', 'operate_recharge_shifts'];
+
+    expect(hasAnyPermission(recharge, ['access_recharge'])).toBe(true);
+    expect(hasAnyPermission(recharge, ['access_admin', 'adjust_balances'])).toBe(true);
+    expect(hasAnyPermission(recharge, ['access_admin'])).toBe(false);
+    expect(hasAnyPermission([], ['access_bar'])).toBe(false);
+    expect(hasAnyPermission([], [])).toBe(true);
+  });
+
+  it('should build the matrix with known roles first and sorted grants', () => {
+    const matrix = buildPermissionMatrix(
+      [
+        { name: 'auditor', description: 'Auditeur' },
+        { name: 'door', description: 'Entrée' },
+        { name: 'admin', description: 'Administrateur' },
+        { name: 'bar', description: 'Bar' },
+      ],
+      [
+        { name: 'manage_users', description: 'Gérer les utilisateurs' },
+        { name: 'access_bar', description: 'Accéder au bar' },
+      ],
+      [
+        { role: 'admin', permission: 'manage_users' },
+        { role: 'admin', permission: 'access_bar' },
+        { role: 'bar', permission: 'access_bar' },
+        { role: 'removed', permission: 'access_bar' },
+      ]
+    );
+
+    expect(matrix.roles.map(role => role.name)).toEqual(['admin', 'bar', 'auditor', 'door']);
+    expect(matrix.permissions.map(permission => permission.name)).toEqual(['access_bar', 'manage_users']);
+    expect(matrix.grants).toEqual({
+      admin: ['access_bar', 'manage_users'],
+      bar: ['access_bar'],
+      auditor: [],
+      door: [],
+    });
+  });
+
+  it('should replace the permissions of a role and audit the change', async () => {
+    mockInvoke.mockResolvedValue({
+      data: { success: true, role: 'bar', permissions: ['access_bar', 'refund_bar_orders'], request_id: 'req-1' },
+      error: null,
+    });
+
+    const result = await setRolePermissions('bar', ['access_bar', 'refund_bar_orders']);
+
+    expect(result).toEqual({ success: true, data: { permissions: ['access_bar', 'refund_bar_orders'] } });
+    expect(mockInvoke).toHaveBeenCalledWith('manage-role-permissions', {
+      body: { role: 'bar', permissions: ['access_bar', 'refund_bar_orders'] },
+      headers: { 'Authorization': 'Bearer token' },
+    });
+    expect(mockLogDataAccess).toHaveBeenCalledWith(expect.objectContaining({
+      requestId: 'req-1',
+      userId: 'admin-1',
+      action: 'role_permissions_update',
+      resourceId: 'bar',
+    }));
+  });
+
+  it('should explain refused changes in French', async () => {
+    mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'VALIDATION_ERROR' }));
+    const locked = await setRolePermissions('admin', ['access_admin']);
+    expect(locked).toEqual({
+      success: false,
+      error: 'Le rôle administrateur doit conserver la gestion des utilisateurs',
+      error_code: 'VALIDATION_ERROR',
+    });
+
+    mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'FORBIDDEN' }));
+    const forbidden = await setRolePermissions('bar', []);
+    expect(forbidden.error).toBe('Vous n\'êtes pas autorisé à modifier les permissions');
+    expect(mockLogDataAccess).not.toHaveBeenCalled();
+  });
+
+  it('should require a session', async () => {
+    mockGetSession.mockResolvedValue({ data: { session: null } });
+
+    const result = await setRolePermissions('bar', ['access_bar']);
+
+    expect(result.error_code).toBe('UNAUTHORIZED');
+    expect(mockInvoke).not.toHaveBeenCalled();
+  });
+});
@@ -114,6 +114,13 @@ describe('Security Utils', () => {
     expect(id2).toMatch(/^req_\d+_[a-z0-9]+$/);
     expect(id1).not.toBe(id2);
   });
+
+  it('should compare secrets in constant time', () => {
+    expect(SecurityUtils.timingSafeEqual('4821', '4821')).toBe(true);
+    expect(SecurityUtils.timingSafeEqual('4821', '4822')).toBe(false);
+    expect(SecurityUtils.timingSafeEqual('4821', '48210')).toBe(false);
+    expect(SecurityUtils.timingSafeEqual('', '')).toBe(true);
+  });
 });
 
 describe('Data Validator', () => {
@@ -246,6 +253,43 @@ describe('Security Middleware', () => {
     expect(result.headers).toBeDefined();
   });
 
+  it('should lock a key out after repeated failed attempts', async () => {
+    const { maxAttempts } = SecurityConfig.auth.failedAttempts;
+
+    for (let i = 1; i < maxAttempts; i++) {
+      const attempt = await middleware.recordFailedAttempt('card_secret:CARD1');
+      expect(attempt.locked).toBe(false);
+      expect(attempt.remainingAttempts).toBe(maxAttempts - i);
+    }
+
+    const last = await middleware.recordFailedAttempt('card_secret:CARD1');
+    expect(last.locked).toBe(true);
+    expect(last.retryAfterMs).toBeGreaterThan(0);
+
+    const lockout = await middleware.checkLockout('card_secret:CARD1');
+    expect(lockout.locked).toBe(true);
+    expect((await middleware.checkLockout('card_secret:CARD3')).locked).toBe(false);
+  });
+
+  it('should lock a key out at its own ceiling when one is given', async () => {
+    const { maxAttempts, maxCardSecretAttempts } = SecurityConfig.auth.failedAttempts;
+
+    for (let i = 0; i < maxAttempts; i++) {
+      await middleware.recordFailedAttempt('card_secret:CARD4', maxCardSecretAttempts);
+    }
+
+    expect((await middleware.checkLockout('card_secret:CARD4', maxCardSecretAttempts)).locked).toBe(false);
+    expect((await middleware.checkLockout('card_secret:CARD4')).locked).toBe(true);
+  });
+
+  it('should clear failed attempts after a successful check', async () => {
+    await middleware.recordFailedAttempt('card_secret:CARD2');
+    await middleware.clearFailedAttempts('card_secret:CARD2');
+
+    const attempt = await middleware.recordFailedAttempt('card_secret:CARD2');
+    expect(attempt.remainingAttempts).toBe(SecurityConfig.auth.failedAttempts.maxAttempts - 1);
+  });
+
   it('should reject oversized requests', async () => {
     const largeRequest = {
       ...mockRequest,
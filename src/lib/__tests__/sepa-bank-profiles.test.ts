@@ -0,0 +1,257 @@
+/**
+ * Unit Tests for SEPA bank profiles
+ *
+ * Every profile is generated in both pain.001 versions and checked against
+ * the element order, cardinality and simple types of the pain.001.001.03 and
+ * pain.001.001.09 XSD for the elements the generator writes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CBCXMLGenerator, DebtorConfiguration, ValidatedRefundRecord } from '../xml-generator';
+import {
+  BANK_PROFILES,
+  BankProfileId,
+  PainVersion,
+  PAIN_NAMESPACES,
+  getBankProfile,
+  isValidSepaIBAN,
+  sanitizeForProfile,
+} from '../sepa-bank-profiles';
+
+type ChildRule = [name: string, required: boolean];
+
+// xs:sequence of the complex types used by the generator, in schema order
+const COMMON_SEQUENCES: Record<string, ChildRule[]> = {
+  Document: [['CstmrCdtTrfInitn', true]],
+  CstmrCdtTrfInitn: [['GrpHdr', true], ['PmtInf', true], ['SplmtryData', false]],
+  GrpHdr: [['MsgId', true], ['CreDtTm', true], ['Authstn', false], ['NbOfTxs', true], ['CtrlSum', false], ['InitgPty', true], ['FwdgAgt', false]],
+  InitgPty: [['Nm', false], ['PstlAdr', false], ['Id', false], ['CtryOfRes', false], ['CtctDtls', false]],
+  Dbtr: [['Nm', false], ['PstlAdr', false], ['Id', false], ['CtryOfRes', false], ['CtctDtls', false]],
+  OrgId: [['BICOrBEI', false], ['AnyBIC', false], ['LEI', false], ['Othr', false]],
+  PmtTpInf: [['InstrPrty', false], ['SvcLvl', false], ['LclInstrm', false], ['CtgyPurp', false]],
+  DbtrAcct: [['Id', true], ['Tp', false], ['Ccy', false], ['Nm', false], ['Prxy', false]],
+  CdtrAcct: [['Id', true], ['Tp', false], ['Ccy', false], ['Nm', false], ['Prxy', false]],
+  DbtrAgt: [['FinInstnId', true], ['BrnchId', false]],
+  Amt: [['InstdAmt', false], ['EqvtAmt', false]],
+  RmtInf: [['Ustrd', false], ['Strd', false]],
+};
+
+const VERSION_SEQUENCES: Record<PainVersion, Record<string, ChildRule[]>> = {
+  'pain.001.001.03': {
+    PmtInf: [
+      ['PmtInfId', true], ['PmtMtd', true], ['BtchBookg', false], ['NbOfTxs', false], ['CtrlSum', false],
+      ['PmtTpInf', false], ['ReqdExctnDt', true], ['PoolgAdjstmntDt', false], ['Dbtr', true], ['DbtrAcct', true],
+      ['DbtrAgt', true], ['DbtrAgtAcct', false], ['UltmtDbtr', false], ['ChrgBr', false], ['ChrgsAcct', false],
+      ['ChrgsAcctAgt', false], ['CdtTrfTxInf', true],
+    ],
+    CdtTrfTxInf: [
+      ['PmtId', true], ['PmtTpInf', false], ['Amt', true], ['XchgRateInf', false], ['ChrgBr', false],
+      ['ChqInstr', false], ['UltmtDbtr', false], ['IntrmyAgt1', false], ['CdtrAgt', false], ['Cdtr', false],
+      ['CdtrAcct', false], ['UltmtCdtr', false], ['InstrForCdtrAgt', false], ['Purp', false], ['RmtInf', false],
+    ],
+    PmtId: [['InstrId', false], ['EndToEndId', true]],
+    FinInstnId: [['BIC', false], ['ClrSysMmbId', false], ['Nm', false], ['PstlAdr', false], ['Othr', false]],
+    PstlAdr: [['AdrTp', false], ['Dept', false], ['StrtNm', false], ['BldgNb', false], ['PstCd', false], ['TwnNm', false], ['CtrySubDvsn', false], ['Ctry', false], ['AdrLine', false]],
+  },
+  'pain.001.001.09': {
+    PmtInf: [
+      ['PmtInfId', true], ['PmtMtd', true], ['BtchBookg', false], ['NbOfTxs', false], ['CtrlSum', false],
+      ['PmtTpInf', false], ['ReqdExctnDt', true], ['PoolgAdjstmntDt', false], ['Dbtr', true], ['DbtrAcct', true],
+      ['DbtrAgt', true], ['DbtrAgtAcct', false], ['InstrForDbtrAgt', false], ['UltmtDbtr', false], ['ChrgBr', false],
+      ['ChrgsAcct', false], ['ChrgsAcctAgt', false], ['CdtTrfTxInf', true],
+    ],
+    CdtTrfTxInf: [
+      ['PmtId', true], ['PmtTpInf', false], ['Amt', true], ['XchgRateInf', false], ['ChrgBr', false],
+      ['ChqInstr', false], ['UltmtDbtr', false], ['IntrmyAgt1', false], ['CdtrAgt', false], ['Cdtr', true],
+      ['CdtrAcct', false], ['UltmtCdtr', false], ['InstrForCdtrAgt', false], ['Purp', false], ['RmtInf', false],
+    ],
+    PmtId: [['InstrId', false], ['EndToEndId', true], ['UETR', false]],
+    FinInstnId: [['BICFI', false], ['ClrSysMmbId', false], ['LEI', false], ['Nm', false], ['PstlAdr', false], ['Othr', false]],
+    PstlAdr: [['AdrTp', false], ['Dept', false], ['SubDept', false], ['StrtNm', false], ['BldgNb', false], ['BldgNm', false], ['PstCd', false], ['TwnNm', false], ['CtrySubDvsn', false], ['Ctry', false], ['AdrLine', false]],
+    ReqdExctnDt: [['Dt', false], ['DtTm', false]],
+  },
+};
+
+// Simple types of the leaves written by the generator
+const LEAF_PATTERNS: Record<string, RegExp> = {
+  MsgId: /^.{1,35}$/,
+  PmtInfId: /^.{1,35}$/,
+  InstrId: /^.{1,35}$/,
+  EndToEndId: /^.{1,35}$/,
+  CreDtTm: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/,
+  NbOfTxs: /^[0-9]{1,15}$/,
+  CtrlSum: /^\d+(\.\d{1,2})?$/,
+  InstdAmt: /^\d+(\.\d{1,2})?$/,
+  BtchBookg: /^(true|false)$/,
+  Dt: /^\d{4}-\d{2}-\d{2}$/,
+  IBAN: /^[A-Z]{2}[0-9]{2}[a-zA-Z0-9]{1,30}$/,
+  BIC: /^[A-Z]{6}[A-Z2-9][A-NP-Z0-9]([A-Z0-9]{3})?$/,
+  BICFI: /^[A-Z]{6}[A-Z2-9][A-NP-Z0-9]([A-Z0-9]{3})?$/,
+  Ccy: /^[A-Z]{3}$/,
+  Ctry: /^[A-Z]{2}$/,
+  Nm: /^.{1,140}$/,
+  Ustrd: /^.{1,140}$/,
+  AdrLine: /^.{1,70}$/,
+};
+
+function schemaViolations(xml: string, version: PainVersion): string[] {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = document.documentElement;
+  const sequences = { ...COMMON_SEQUENCES, ...VERSION_SEQUENCES[version] };
+  const violations: string[] = [];
+
+  if (root.getElementsByTagName('parsererror').length > 0) return ['not well-formed'];
+  if (root.namespaceURI !== PAIN_NAMESPACES[version]) violations.push(`namespace ${root.namespaceURI}`);
+
+  const visit = (element: Element, path: string) => {
+    const children = Array.from(element.children);
+    const sequence = sequences[element.localName];
+
+    if (sequence) {
+      let position = 0;
+      for (const child of children) {
+        const index = sequence.findIndex(([name], i) => i >= position && name === child.localName);
+        if (index === -1) {
+          violations.push(`${path}: unexpected or misplaced ${child.localName}`);
+          continue;
+        }
+        position = index;
+      }
+      for (const [name, required] of sequence) {
+        if (required && !children.some(child => child.localName === name)) {
+          violations.push(`${path}: missing ${name}`);
+        }
+      }
+    } else if (children.length === 0) {
+      const pattern = LEAF_PATTERNS[element.localName];
+      const value = element.textContent ?? '';
+      if (element.localName === 'ReqdExctnDt' && version === 'pain.001.001.03') {
+        if (!LEAF_PATTERNS.Dt.test(value)) violations.push(`${path}: invalid date ${value}`);
+      } else if (pattern && !pattern.test(value)) {
+        violations.push(`${path}: invalid value ${value}`);
+      }
+    }
+
+    children.forEach(child => visit(child, `${path}/${child.localName}`));
+  };
+
+  visit(root, root.localName);
+  return violations;
+}
+
+const belgianDebtor: DebtorConfiguration = {
+  name: 'Festival Chateau Apero ASBL',
+  iban: 'BE68539007547034',
+  address_line1: 'Rue de la Fete 123',
+  address_line2: '5000 Namur',
+  country: 'BE',
+  organization_id: '0123456789',
+  organization_issuer: 'KBO-BCE',
+};
+
+const refund = (id: number, account: string, firstName = 'Jean', lastName = 'Dupont'): ValidatedRefundRecord => ({
+  id,
+  created_at: '2026-10-19T10:00:00Z',
+  first_name: firstName,
+  last_name: lastName,
+  account,
+  email: `guest${id}@example.com`,
+  id_card: `CARD00${id}`,
+  card_balance: 12.5,
+  matched_card: `CARD00${id}`,
+  amount_recharged: 12.5,
+  card_exists: true,
+  validation_status: 'valid',
+  validation_notes: [],
+});
+
+// Belgian and foreign EU creditors in the same batch
+const mixedRefunds = [
+  refund(1, 'BE62510007547061'),
+  refund(2, 'FR7630006000011234567890189', 'Hélène', 'Lefèvre'),
+  refund(3, 'DE89370400440532013000', 'Jürgen', 'Müller'),
+  refund(4, 'NL91ABNA0417164300', 'Anouk', 'de Vries'),
+];
+
+const generate = async (bankProfile: BankProfileId, painVersion?: PainVersion, debtor = belgianDebtor) => {
+  const generator = new CBCXMLGenerator(debtor, {
+    bank_profile: bankProfile,
+    pain_version: painVersion,
+    requested_execution_date: '2026-10-20',
+  });
+  return generator.generateXML(mixedRefunds);
+};
+
+describe('SEPA bank profiles', () => {
+  const cases = Object.values(BANK_PROFILES).flatMap(profile =>
+    profile.painVersions.map(version => [profile.id, version] as const)
+  );
+
+  it.each(cases)('should generate a schema-valid %s file in %s', async (bankProfile, painVersion) => {
+    const profile = getBankProfile(bankProfile);
+    const result = await generate(bankProfile, painVersion);
+
+    expect(result.success).toBe(true);
+    expect(result.transaction_count).toBe(4);
+    expect(schemaViolations(result.xml_content!, painVersion)).toEqual([]);
+    expect(result.message_id!.startsWith(profile.messageIdPrefix)).toBe(true);
+    expect(result.xml_content).toContain(`<BtchBookg>${profile.batchBooking}</BtchBookg>`);
+  });
+
+  it('should write the profile BIC as BIC in pain.001.001.03 and BICFI in pain.001.001.09', async () => {
+    const v03 = await generate('kbc', 'pain.001.001.03');
+    const v09 = await generate('kbc', 'pain.001.001.09');
+
+    expect(v03.xml_content).toContain('<BIC>KREDBEBB</BIC>');
+    expect(v09.xml_content).toContain('<BICFI>KREDBEBB</BICFI>');
+    expect(v03.xml_content).toContain('<ReqdExctnDt>2026-10-20</ReqdExctnDt>');
+    expect(v09.xml_content).toMatch(/<ReqdExctnDt>\s*<Dt>2026-10-20<\/Dt>\s*<\/ReqdExctnDt>/);
+  });
+
+  it('should prefer the configured debtor BIC over the profile BIC', async () => {
+    const generator = new CBCXMLGenerator({ ...belgianDebtor, bic: 'gkcc bebb' }, { bank_profile: 'cbc' });
+    const result = await generator.generateXML([refund(1, 'BE62510007547061')]);
+
+    expect(result.xml_content).toContain('<BIC>GKCCBEBB</BIC>');
+    expect(result.xml_content).not.toContain('CREGBEBB');
+  });
+
+  it('should identify the debtor agent as NOTPROVIDED for the generic EPC profile', async () => {
+    const result = await generate('epc');
+
+    expect(result.xml_content).toContain(PAIN_NAMESPACES['pain.001.001.09']);
+    expect(result.xml_content).toMatch(/<Othr>\s*<Id>NOTPROVIDED<\/Id>\s*<\/Othr>/);
+    expect(result.xml_content).not.toContain('<BICFI>');
+  });
+
+  it('should transliterate accents for basic character set banks only', async () => {
+    const belfius = await generate('belfius');
+    const cbc = await generate('cbc');
+
+    expect(belfius.xml_content).toContain('<Nm>Helene Lefevre</Nm>');
+    expect(belfius.xml_content).toContain('<Nm>Jurgen Muller</Nm>');
+    expect(cbc.xml_content).toContain('<Nm>Hélène Lefèvre</Nm>');
+    expect(sanitizeForProfile(BANK_PROFILES.ing, 'Zoë & Chloé')).toBe('Zoe Chloe');
+  });
+
+  it('should restrict the debtor account to the countries of the bank', () => {
+    const frenchDebtor = { ...belgianDebtor, iban: 'FR7630006000011234567890189', country: 'FR' };
+
+    expect(() => new CBCXMLGenerator(frenchDebtor, { bank_profile: 'kbc' })).toThrow('KBC only debits accounts from: BE');
+    expect(() => new CBCXMLGenerator(frenchDebtor, { bank_profile: 'epc' })).not.toThrow();
+  });
+
+  it('should reject unknown profiles', () => {
+    expect(() => getBankProfile('bnp' as BankProfileId)).toThrow('Unknown bank profile: bnp');
+    expect(() => new CBCXMLGenerator(belgianDebtor, { bank_profile: 'bnp' as BankProfileId })).toThrow('Unknown bank profile');
+  });
+
+  it('should validate IBANs of the supported European countries', () => {
+    expect(isValidSepaIBAN('FR76 3000 6000 0112 3456 7890 189')).toBe(true);
+    expect(isValidSepaIBAN('DE89370400440532013000')).toBe(true);
+    expect(isValidSepaIBAN('NL91ABNA0417164300')).toBe(true);
+    expect(isValidSepaIBAN('DE89370400440532013001')).toBe(false);
+    expect(isValidSepaIBAN('GB82WEST12345698765432')).toBe(false);
+    expect(isValidSepaIBAN('FR7630006000011234567890189', ['BE'])).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for TOTP enrolment and the verify-step-up calls
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  clearStepUp,
+  enrollTotp,
+  hasRecentStepUp,
+  isTwoFactorRequired,
+  verifyTotp,
+} from '../two-factor';
+import { mockGetSession, mockInvoke, rejectedWith } from './edge-function-mocks';
+
+const { mockSetSession, mockMfa, mockLogAuthentication } = vi.hoisted(() => ({
+  mockSetSession: vi.fn(),
+  mockMfa: {
+    listFactors: vi.fn(),
+    unenroll: vi.fn(),
+    enroll: vi.fn(),
+    getAuthenticatorAssuranceLevel: vi.fn(),
+  },
+  mockLogAuthentication: vi.fn(),
+}));
+
+vi.mock('@/lib/supabase', async () =>
+  (await import('./edge-function-mocks')).mockSupabaseModule({
+    auth: { setSession: mockSetSession, mfa: mockMfa },
+  })
+);
+vi.mock('@/lib/audit-logger', async () =>
+  (await import('./edge-function-mocks')).mockAuditLoggerModule({ logAuthentication: mockLogAuthentication })
+);
+
+describe('Two-factor authentication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearStepUp();
+    mockGetSession.mockResolvedValue({
+      data: { session: { access_token: 'aal1-token', user: { id: 'admin-1' } } },
+    });
+    mockSetSession.mockResolvedValue({ data: {}, error: null });
+  });
+
+  it('should require enrolment for the configured roles only', () => {
+    expect(isTwoFactorRequired('admin')).toBe(true);
+    expect(isTwoFactorRequired('bar')).toBe(false);
+    expect(isTwoFactorRequired(null)).toBe(false);
+  });
+
+  it('should switch to the verified session and remember the step-up', async () => {
+    mockInvoke.mockResolvedValue({
+      data: {
+        success: true,
+        factor_id: 'factor-1',
+        verified_at: '2026-10-19T12:00:00Z',
+        session: { access_token: 'aal2-token', refresh_token: 'refresh' },
+        request_id: 'req-1',
+      },
+      error: null,
+    });
+
+    const result = await verifyTotp('123 456');
+
+    expect(result).toEqual({ success: true, data: { verifiedAt: '2026-10-19T12:00:00Z' } });
+    expect(mockInvoke).toHaveBeenCalledWith('verify-step-up', {
+      body: { code: '123456', factor_id: undefined },
+      headers: { 'Authorization': 'Bearer aal1-token' },
+    });
+    expect(mockSetSession).toHaveBeenCalledWith({ access_token: 'aal2-token', refresh_token: 'refresh' });
+    expect(hasRecentStepUp()).toBe(true);
+    expect(hasRecentStepUp(Date.now() + 5 * 60 * 1000)).toBe(false);
+    expect(mockLogAuthentication).toHaveBeenCalledWith(expect.objectContaining({
+      requestId: 'req-1',
+      userId: 'admin-1',
+      action: 'two_factor',
+      result: 'success',
+    }));
+
+    clearStepUp();
+    expect(hasRecentStepUp()).toBe(false);
+  });
+
+  it('should report the remaining attempts and the lockout in French', async () => {
+    mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'INVALID_CODE', remaining_attempts: 2 }));
+    const invalid = await verifyTotp('000000');
+    expect(invalid).toEqual({ success: false, error: 'Code invalide, 2 essais restants', error_code: 'INVALID_CODE' });
+
+    mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'TOO_MANY_ATTEMPTS', retry_after_seconds: 840 }));
+    const locked = await verifyTotp('000000');
+    expect(locked.error).toBe('Trop de codes invalides, réessayez dans 14 min');
+
+    expect(mockSetSession).not.toHaveBeenCalled();
+    expect(hasRecentStepUp()).toBe(false);
+    expect(mockLogAuthentication).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'two_factor',
+      result: 'failure',
+      metadata: { error_code: 'TOO_MANY_ATTEMPTS' },
+    }));
+  });
+
+  it('should confirm an enrolment with the new factor', async () => {
+    mockMfa.listFactors.mockResolvedValue({
+      data: { all: [{ id: 'stale', factor_type: 'totp', status: 'unverified' }], totp: [] },
+      error: null,
+    });
+    mockMfa.unenroll.mockResolvedValue({ data: {}, error: null });
+    mockMfa.enroll.mockResolvedValue({
+      data: { id: 'factor-2', type: 'totp', totp: { qr_code: 'data:image/svg+xml;utf8,<svg/>', secret: 'JBSWY3DP', uri: 'otpauth://' } },
+      error: null,
+    });
+
+    const enrollment = await enrollTotp();
+
+    expect(mockMfa.unenroll).toHaveBeenCalledWith({ factorId: 'stale' });
+    expect(mockMfa.enroll).toHaveBeenCalledWith(expect.objectContaining({ factorType: 'totp', issuer: 'Les Apéros du Château' }));
+    expect(enrollment).toEqual({
+      success: true,
+      data: { factorId: 'factor-2', qrCode: 'data:image/svg+xml;utf8,<svg/>', secret: 'JBSWY3DP' },
+    });
+
+    mockInvoke.mockResolvedValue(rejectedWith({ success: false, error_code: 'INVALID_CODE', remaining_attempts: 1 }));
+    const result = await verifyTotp('111111', 'factor-2');
+
+    expect(mockInvoke).toHaveBeenCalledWith('verify-step-up', expect.objectContaining({
+      body: { code: '111111', factor_id: 'factor-2' },
+    }));
+    expect(result.error).toBe('Code invalide, 1 essai restant');
+  });
+
+  it('should require a session', async () => {
+    mockGetSession.mockResolvedValue({ data: { session: null } });
+
+    const result = await verifyTotp('123456');
+
+    expect(result.error_code).toBe('UNAUTHORIZED');
+    expect(mockInvoke).not.toHaveBeenCalled();
+  });
+});
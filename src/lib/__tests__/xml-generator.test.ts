@@ -136,6 +136,19 @@ describe('CBCXMLGenerator', () => {
       expect(result.total_amount).toBe(41.25);
     });
 
+    it('should list the EndToEndId and amount of every transfer', async () => {
+      const result = await generator.generateXML(sampleRefunds);
+
+      expect(result.transfers).toEqual(sampleRefunds.map(refund => ({
+        refund_id: refund.id,
+        end_to_end_id: `REFUND_${refund.id.toString().padStart(6, '0')}`,
+        amount: refund.amount_recharged
+      })));
+      result.transfers!.forEach(transfer => {
+        expect(result.xml_content).toContain(`<EndToEndId>${transfer.end_to_end_id}</EndToEndId>`);
+      });
+    });
+
     it('should include proper XML structure', async () => {
       const result = await generator.generateXML(sampleRefunds);
 
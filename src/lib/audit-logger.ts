@@ -16,7 +16,7 @@
  * - Performance monitoring and metrics
  */
 
-import { SecurityConfig, SecurityUtils, SecurityEvent, SecurityLevel } from '../config/security';
+import { SecurityConfig, SecurityUtils, SecurityEvent, SecurityLevel } from '../config/security.ts';
 
 // Audit log entry interface
 export interface AuditLogEntry {
@@ -109,6 +109,13 @@ export enum DataClassification {
   RESTRICTED = 'restricted',
 }
 
+/**
+ * Days an entry of this classification is kept (SecurityConfig.audit.retention)
+ */
+export function retentionDays(classification: DataClassification): number {
+  return SecurityConfig.audit.retention.byClassification[classification];
+}
+
 // Alert configuration
 interface AlertRule {
   name: string;
@@ -119,11 +126,21 @@ interface AlertRule {
 }
 
 // Log storage interface
-interface LogStorage {
+export interface LogStorage {
   store(entry: AuditLogEntry): Promise<void>;
   query(filters: LogQueryFilters): Promise<AuditLogEntry[]>;
   archive(olderThan: Date): Promise<number>;
   delete(olderThan: Date): Promise<number>;
+  // Tamper-evident storages check that no stored entry was altered
+  verify?(): Promise<ChainVerification>;
+}
+
+// Result of a hash chain check
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenSeq?: number;
+  reason?: string;
 }
 
 // Query filters for log retrieval
@@ -137,6 +154,8 @@ export interface LogQueryFilters {
   riskLevel?: RiskLevel;
   ipAddress?: string;
   resource?: string;
+  // Archived entries are left out unless requested
+  includeArchived?: boolean;
   limit?: number;
   offset?: number;
 }
@@ -168,6 +187,14 @@ export class AuditLogger {
     this.setupDefaultAlertRules();
   }
 
+  /**
+   * Switch storage once the runtime can reach the database (app start-up,
+   * edge function module load)
+   */
+  useStorage(storage: LogStorage): void {
+    this.storage = storage;
+  }
+
   /**
    * Log a financial transaction event
    */
@@ -225,7 +252,7 @@ export class AuditLogger {
       data: maskedData,
       riskLevel,
       dataClassification: DataClassification.RESTRICTED,
-      retentionPeriod: SecurityConfig.compliance.gdpr.dataRetentionDays,
+      retentionPeriod: retentionDays(DataClassification.RESTRICTED),
       error: error ? {
         code: error.code,
         message: error.message,
@@ -242,7 +269,7 @@ export class AuditLogger {
   async logAuthentication(params: {
     requestId: string;
     userId?: string;
-    action: 'login' | 'logout' | 'token_refresh' | 'password_change';
+    action: 'login' | 'logout' | 'token_refresh' | 'password_change' | 'two_factor';
     result: AuditResult;
     ipAddress?: string;
     userAgent?: string;
@@ -267,7 +294,7 @@ export class AuditLogger {
       data: metadata,
       riskLevel: result === AuditResult.FAILURE ? RiskLevel.MEDIUM : RiskLevel.LOW,
       dataClassification: DataClassification.CONFIDENTIAL,
-      retentionPeriod: SecurityConfig.compliance.gdpr.dataRetentionDays,
+      retentionPeriod: retentionDays(DataClassification.CONFIDENTIAL),
       error: error ? {
         code: error.code,
         message: error.message,
@@ -312,7 +339,7 @@ export class AuditLogger {
       },
       riskLevel: result === AuditResult.FAILURE ? RiskLevel.HIGH : RiskLevel.LOW,
       dataClassification: DataClassification.CONFIDENTIAL,
-      retentionPeriod: SecurityConfig.compliance.gdpr.dataRetentionDays,
+      retentionPeriod: retentionDays(DataClassification.CONFIDENTIAL),
     };
 
     await this.logEntry(entry);
@@ -327,7 +354,7 @@ export class AuditLogger {
     action: string;
     resource: string;
     resourceId?: string;
-    dataType: 'refund_data' | 'card_data' | 'user_data' | 'audit_logs';
+    dataType: 'refund_data' | 'card_data' | 'user_data' | 'audit_logs' | 'product_data' | 'configuration_data';
     recordCount?: number;
     result: AuditResult;
     duration?: number;
@@ -362,7 +389,7 @@ export class AuditLogger {
       },
       riskLevel,
       dataClassification: DataClassification.CONFIDENTIAL,
-      retentionPeriod: SecurityConfig.compliance.gdpr.dataRetentionDays,
+      retentionPeriod: retentionDays(DataClassification.CONFIDENTIAL),
     };
 
     await this.logEntry(entry);
@@ -401,7 +428,7 @@ export class AuditLogger {
       riskLevel: severity,
       securityFlags: [violationType],
       dataClassification: DataClassification.RESTRICTED,
-      retentionPeriod: SecurityConfig.compliance.gdpr.dataRetentionDays,
+      retentionPeriod: retentionDays(DataClassification.RESTRICTED),
     };
 
     await this.logEntry(entry);
@@ -440,7 +467,7 @@ export class AuditLogger {
       data: metadata,
       riskLevel: RiskLevel.MEDIUM,
       dataClassification: DataClassification.INTERNAL,
-      retentionPeriod: SecurityConfig.compliance.gdpr.dataRetentionDays,
+      retentionPeriod: retentionDays(DataClassification.INTERNAL),
       error: {
         code: error.code || error.name,
         message: error.message,
@@ -479,6 +506,14 @@ export class AuditLogger {
     return await this.storage.delete(olderThan);
   }
 
+  /**
+   * Check that stored entries were not altered. Storages without
+   * tamper-evidence report nothing checked.
+   */
+  async verifyIntegrity(): Promise<ChainVerification> {
+    return this.storage.verify ? await this.storage.verify() : { valid: true, checked: 0 };
+  }
+
   /**
    * Core log entry method
    */
@@ -714,7 +749,101 @@ export class InMemoryLogStorage implements LogStorage {
   }
 }
 
-// Export singleton instance
+// Minimal Supabase client surface used by DatabaseLogStorage; kept structural
+// so this module loads in the browser and in the edge functions alike
+export interface AuditLogDatabase {
+  rpc(fn: string, params?: Record<string, unknown>): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
+
+/**
+ * Database log storage: the hash-chained audit_logs table
+ *
+ * Entries are appended by sp_append_audit_log, which links each one to the
+ * previous entry's hash. Retention follows the entry's DataClassification:
+ * delete() only redacts entries whose retention has expired, and archive()
+ * hides entries from the default query.
+ */
+export class DatabaseLogStorage implements LogStorage {
+  private db: AuditLogDatabase;
+
+  constructor(db: AuditLogDatabase) {
+    this.db = db;
+  }
+
+  private async call<T>(fn: string, params: Record<string, unknown>): Promise<T> {
+    const { data, error } = await this.db.rpc(fn, params);
+    if (error) {
+      throw new Error(`${fn} failed: ${error.message}`);
+    }
+    return data as T;
+  }
+
+  async store(entry: AuditLogEntry): Promise<void> {
+    await this.call('sp_append_audit_log', { entry_in: entry });
+  }
+
+  async query(filters: LogQueryFilters): Promise<AuditLogEntry[]> {
+    const rows = await this.call<{ entry: AuditLogEntry }[]>('sp_query_audit_logs', {
+      filters_in: {
+        ...filters,
+        startDate: filters.startDate?.toISOString(),
+        endDate: filters.endDate?.toISOString(),
+      },
+    });
+    return (rows || []).map(row => row.entry);
+  }
+
+  async archive(olderThan: Date): Promise<number> {
+    const result = await this.call<{ archived: number }>('sp_archive_audit_logs', { older_than_in: olderThan.toISOString() });
+    return result.archived;
+  }
+
+  async delete(olderThan: Date): Promise<number> {
+    const result = await this.call<{ purged: number }>('sp_purge_expired_audit_logs', { older_than_in: olderThan.toISOString() });
+    return result.purged;
+  }
+
+  async verify(): Promise<ChainVerification> {
+    const result = await this.call<{ valid: boolean; checked: number; broken_seq?: number; reason?: string }>(
+      'sp_verify_audit_log_chain', {}
+    );
+    return { valid: result.valid, checked: result.checked, brokenSeq: result.broken_seq, reason: result.reason };
+  }
+}
+
+// Client surface used by EdgeFunctionLogStorage: the database functions plus
+// edge function calls
+export interface AuditLogClient extends AuditLogDatabase {
+  functions: {
+    invoke(fn: string, options: { body: Record<string, unknown> }): PromiseLike<{ error: { message: string } | null }>;
+  };
+}
+
+/**
+ * Audit log storage for the browser
+ *
+ * Only the service role may call sp_append_audit_log, so entries are sent to
+ * the append-audit-log edge function, which rate-limits them and records the
+ * caller's user and IP address. Queries, retention and verification use the
+ * database functions like DatabaseLogStorage.
+ */
+export class EdgeFunctionLogStorage extends DatabaseLogStorage {
+  private client: AuditLogClient;
+
+  constructor(client: AuditLogClient) {
+    super(client);
+    this.client = client;
+  }
+
+  async store(entry: AuditLogEntry): Promise<void> {
+    const { error } = await this.client.functions.invoke('append-audit-log', { body: { entry } });
+    if (error) {
+      throw new Error(`append-audit-log failed: ${error.message}`);
+    }
+  }
+}
+
+// Export singleton instance; in-memory until the runtime plugs in DatabaseLogStorage
 export const auditLogger = new AuditLogger(new InMemoryLogStorage());
 
 // Export utility functions
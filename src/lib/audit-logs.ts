@@ -0,0 +1,204 @@
+/**
+ * Audit Log Viewer
+ *
+ * Reads the audit trail written by auditLogger (audit_logs table, see
+ * DatabaseLogStorage) for the admin Audit tab. Reading requires the
+ * access_audit_logs permission, enforced by RLS; each search and export is
+ * itself audited.
+ */
+
+import { supabase } from '@/lib/supabase';
+import {
+  auditLogger,
+  AuditCategory,
+  AuditLogEntry,
+  AuditResult,
+  ChainVerification,
+  LogQueryFilters,
+  RiskLevel,
+} from '@/lib/audit-logger';
+import { SecurityConfig } from '@/config/security';
+
+export const AUDIT_PAGE_SIZE = 100;
+
+export const CATEGORY_LABELS: Record<AuditCategory, string> = {
+  [AuditCategory.AUTHENTICATION]: 'Authentification',
+  [AuditCategory.AUTHORIZATION]: 'Autorisation',
+  [AuditCategory.DATA_ACCESS]: 'Accès aux données',
+  [AuditCategory.DATA_MODIFICATION]: 'Modification de données',
+  [AuditCategory.FINANCIAL_TRANSACTION]: 'Transaction financière',
+  [AuditCategory.SECURITY_VIOLATION]: 'Violation de sécurité',
+  [AuditCategory.SYSTEM_EVENT]: 'Événement système',
+  [AuditCategory.COMPLIANCE]: 'Conformité',
+  [AuditCategory.PERFORMANCE]: 'Performance',
+  [AuditCategory.ERROR]: 'Erreur',
+};
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  [RiskLevel.LOW]: 'Faible',
+  [RiskLevel.MEDIUM]: 'Moyen',
+  [RiskLevel.HIGH]: 'Élevé',
+  [RiskLevel.CRITICAL]: 'Critique',
+};
+
+export interface AuditLogSearch {
+  category?: AuditCategory;
+  riskLevel?: RiskLevel;
+  userId?: string;
+  // yyyy-mm-dd, local days, both included
+  from?: string;
+  to?: string;
+  includeArchived?: boolean;
+  offset?: number;
+}
+
+export interface AuditLogsResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const CSV_COLUMNS: { header: string; value: (entry: AuditLogEntry) => unknown }[] = [
+  { header: 'timestamp', value: entry => entry.timestamp },
+  { header: 'category', value: entry => entry.category },
+  { header: 'risk_level', value: entry => entry.riskLevel },
+  { header: 'result', value: entry => entry.result },
+  { header: 'action', value: entry => entry.action },
+  { header: 'resource', value: entry => entry.resource },
+  { header: 'resource_id', value: entry => entry.resourceId },
+  { header: 'user_id', value: entry => entry.userId },
+  { header: 'ip_address', value: entry => entry.ipAddress },
+  { header: 'request_id', value: entry => entry.requestId },
+  { header: 'data_classification', value: entry => entry.dataClassification },
+  { header: 'data', value: entry => (entry.data ? JSON.stringify(entry.data) : '') },
+  { header: 'error', value: entry => entry.error?.message },
+];
+
+/**
+ * Filters of the Audit tab as LogQueryFilters; day bounds cover whole days
+ */
+export function toLogQueryFilters(search: AuditLogSearch): LogQueryFilters {
+  return {
+    category: search.category,
+    riskLevel: search.riskLevel,
+    userId: search.userId?.trim() || undefined,
+    startDate: search.from ? new Date(`${search.from}T00:00:00`) : undefined,
+    endDate: search.to ? new Date(`${search.to}T23:59:59.999`) : undefined,
+    includeArchived: search.includeArchived || undefined,
+    limit: AUDIT_PAGE_SIZE,
+    offset: search.offset ?? 0,
+  };
+}
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditLogsToCsv(entries: AuditLogEntry[]): string {
+  const lines = [CSV_COLUMNS.map(column => column.header).join(',')];
+  entries.forEach(entry => {
+    lines.push(CSV_COLUMNS.map(column => csvCell(column.value(entry))).join(','));
+  });
+  return lines.join('\n');
+}
+
+async function currentUserId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+}
+
+export async function searchAuditLogs(search: AuditLogSearch): Promise<AuditLogsResult<AuditLogEntry[]>> {
+  const userId = await currentUserId();
+  if (!userId) {
+    return { success: false, error: 'Vous devez être connecté pour consulter le journal d\'audit' };
+  }
+
+  try {
+    const entries = await auditLogger.queryLogs(toLogQueryFilters(search));
+
+    await auditLogger.logDataAccess({
+      requestId: crypto.randomUUID(),
+      userId,
+      action: 'audit_logs_search',
+      resource: 'audit_logs',
+      dataType: 'audit_logs',
+      recordCount: entries.length,
+      result: AuditResult.SUCCESS,
+    });
+
+    return { success: true, data: entries };
+  } catch (error) {
+    console.error('Error searching audit logs:', error);
+    return { success: false, error: 'Impossible de charger le journal d\'audit' };
+  }
+}
+
+/**
+ * Export entries already loaded in the Audit tab
+ */
+export async function exportAuditLogs(
+  entries: AuditLogEntry[],
+  format: 'csv' | 'json'
+): Promise<{ content: string; filename: string; mimeType: string }> {
+  const userId = await currentUserId();
+  const stamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+
+  if (userId) {
+    await auditLogger.logDataAccess({
+      requestId: crypto.randomUUID(),
+      userId,
+      action: `audit_logs_export_${format}`,
+      resource: 'audit_logs',
+      dataType: 'audit_logs',
+      recordCount: entries.length,
+      result: AuditResult.SUCCESS,
+    });
+  }
+
+  return format === 'csv'
+    ? { content: auditLogsToCsv(entries), filename: `audit_${stamp}.csv`, mimeType: 'text/csv' }
+    : { content: JSON.stringify(entries, null, 2), filename: `audit_${stamp}.json`, mimeType: 'application/json' };
+}
+
+export async function verifyAuditLogIntegrity(): Promise<AuditLogsResult<ChainVerification>> {
+  try {
+    return { success: true, data: await auditLogger.verifyIntegrity() };
+  } catch (error) {
+    console.error('Error verifying the audit log chain:', error);
+    return { success: false, error: 'Impossible de vérifier l\'intégrité du journal' };
+  }
+}
+
+/**
+ * Archive entries older than SecurityConfig.audit.retention.archiveAfterDays
+ * and redact those past the retention of their classification. Redacted rows
+ * keep their hash, so the chain stays verifiable.
+ */
+export async function applyAuditRetention(now: Date = new Date()): Promise<AuditLogsResult<{ archived: number; purged: number }>> {
+  const userId = await currentUserId();
+  if (!userId) {
+    return { success: false, error: 'Vous devez être connecté pour consulter le journal d\'audit' };
+  }
+
+  try {
+    const archiveBefore = new Date(now.getTime() - SecurityConfig.audit.retention.archiveAfterDays * 24 * 60 * 60 * 1000);
+    const archived = await auditLogger.archiveLogs(archiveBefore);
+    const purged = await auditLogger.deleteExpiredLogs(now);
+
+    await auditLogger.logDataAccess({
+      requestId: crypto.randomUUID(),
+      userId,
+      action: 'audit_logs_retention',
+      resource: 'audit_logs',
+      dataType: 'audit_logs',
+      recordCount: archived + purged,
+      result: AuditResult.SUCCESS,
+    });
+
+    return { success: true, data: { archived, purged } };
+  } catch (error) {
+    console.error('Error applying audit log retention:', error);
+    return { success: false, error: 'Impossible d\'appliquer la politique de conservation' };
+  }
+}
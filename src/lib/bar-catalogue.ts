@@ -0,0 +1,251 @@
+/**
+ * Bar Product Catalogue Management
+ *
+ * Client for the manage-bar-products Edge Function used by the admin
+ * catalogue screen. All writes are validated and audited server-side; the
+ * checks here only give staff immediate feedback before a round-trip.
+ *
+ * After every successful change the local product cache is invalidated so the
+ * admin's own bar view reflects it straight away. Other terminals pick up the
+ * change through subscribeToBarCatalogueChanges.
+ */
+
+import { supabase, invalidateBarProductsCache, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+
+// Categories shown on the bar terminal, in display order
+export const BAR_PRODUCT_CATEGORIES = ['Soft', 'Bière', 'Cocktail', 'Vin', 'Caution', 'Food', 'Autre'] as const;
+export type BarProductCategory = typeof BAR_PRODUCT_CATEGORIES[number];
+
+export const MAX_PRODUCT_NAME_LENGTH = 60;
+export const MAX_PRODUCT_PRICE = 500;
+
+export interface BarPriceSchedule {
+  id: number;
+  product_id: number;
+  edition_id: string | null;
+  price: number;
+  effective_from: string;
+  effective_until: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface CatalogueProduct {
+  id: number;
+  name: string;
+  price: number;
+  category: string | null;
+  is_deposit: boolean;
+  is_return: boolean;
+  sort_order: number;
+  is_archived: boolean;
+  archived_at: string | null;
+  updated_at: string;
+  bar_product_price_schedules?: BarPriceSchedule[];
+}
+
+export interface CatalogueProductInput {
+  name?: string;
+  price?: number;
+  category?: string | null;
+  is_deposit?: boolean;
+  is_return?: boolean;
+  sort_order?: number;
+}
+
+export interface PriceScheduleInput {
+  price: number;
+  edition_id?: string | null;
+  effective_from: string;
+  effective_until?: string | null;
+}
+
+export interface CatalogueResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  error_code?: string;
+  details?: unknown;
+}
+
+/**
+ * Validate product fields before sending them to the server.
+ * Mirrors the checks done in the manage-bar-products Edge Function.
+ */
+export function validateBarProductInput(product: CatalogueProductInput, partial: boolean = false): string[] {
+  const errors: string[] = [];
+
+  if (!partial || product.name !== undefined) {
+    const name = product.name?.trim() ?? '';
+    if (name.length === 0) {
+      errors.push('Le nom du produit est requis');
+    } else if (name.length > MAX_PRODUCT_NAME_LENGTH) {
+      errors.push(`Le nom ne peut pas dépasser ${MAX_PRODUCT_NAME_LENGTH} caractères`);
+    }
+  }
+
+  if (!partial || product.price !== undefined) {
+    const price = product.price;
+    if (typeof price !== 'number' || !Number.isFinite(price)) {
+      errors.push('Le prix doit être un nombre');
+    } else if (price < 0 || price > MAX_PRODUCT_PRICE) {
+      errors.push(`Le prix doit être compris entre 0 et ${MAX_PRODUCT_PRICE}€`);
+    } else if (Math.round(price * 100) !== price * 100) {
+      errors.push('Le prix ne peut pas avoir plus de 2 décimales');
+    }
+  }
+
+  if (product.category && !(BAR_PRODUCT_CATEGORIES as readonly string[]).includes(product.category)) {
+    errors.push('Catégorie inconnue');
+  }
+
+  if (product.is_deposit && product.is_return) {
+    errors.push('Un produit ne peut pas être à la fois une caution et un retour');
+  }
+
+  return errors;
+}
+
+export function validatePriceSchedule(schedule: PriceScheduleInput): string[] {
+  const errors: string[] = [];
+
+  if (typeof schedule.price !== 'number' || !Number.isFinite(schedule.price) ||
+      schedule.price < 0 || schedule.price > MAX_PRODUCT_PRICE) {
+    errors.push(`Le prix doit être compris entre 0 et ${MAX_PRODUCT_PRICE}€`);
+  }
+
+  const from = Date.parse(schedule.effective_from);
+  if (Number.isNaN(from)) {
+    errors.push('La date de début est invalide');
+  }
+
+  if (schedule.effective_until) {
+    const until = Date.parse(schedule.effective_until);
+    if (Number.isNaN(until)) {
+      errors.push('La date de fin est invalide');
+    } else if (!Number.isNaN(from) && until <= from) {
+      errors.push('La date de fin doit être postérieure à la date de début');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Price currently applied to a product, taking active schedules into account
+ */
+export function getEffectivePrice(product: CatalogueProduct, at: Date = new Date()): number {
+  const active = (product.bar_product_price_schedules ?? [])
+    .filter(schedule =>
+      Date.parse(schedule.effective_from) <= at.getTime() &&
+      (!schedule.effective_until || Date.parse(schedule.effective_until) > at.getTime())
+    )
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+
+  return active.length > 0 ? active[0].price : product.price;
+}
+
+async function invokeCatalogue<T>(
+  action: string,
+  payload: Record<string, unknown>,
+  resultKey?: string
+): Promise<CatalogueResult<T>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour gérer le catalogue', error_code: 'UNAUTHORIZED' };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('manage-bar-products', {
+      body: { action, ...payload },
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody<CatalogueResult>(error);
+      return {
+        success: false,
+        error: errorBody?.error || error.message || 'Erreur lors de la mise à jour du catalogue',
+        error_code: errorBody?.error_code,
+        details: errorBody?.details,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: data?.error, error_code: data?.error_code, details: data?.details };
+    }
+
+    if (action !== 'list') {
+      invalidateBarProductsCache();
+
+      await auditLogger.logDataAccess({
+        requestId: data.request_id,
+        userId: session.user.id,
+        action: `catalogue_${action}`,
+        resource: 'bar_products',
+        resourceId: payload.product_id !== undefined ? String(payload.product_id) : undefined,
+        dataType: 'product_data',
+        result: AuditResult.SUCCESS,
+      });
+    }
+
+    return { success: true, data: resultKey ? data[resultKey] : undefined };
+  } catch (error) {
+    console.error(`Catalogue action ${action} failed:`, error);
+    return { success: false, error: 'Network or client error', details: error };
+  }
+}
+
+export function listCatalogueProducts(includeArchived: boolean = false) {
+  return invokeCatalogue<CatalogueProduct[]>('list', { include_archived: includeArchived }, 'products');
+}
+
+export function createCatalogueProduct(product: CatalogueProductInput) {
+  const errors = validateBarProductInput(product);
+  if (errors.length > 0) {
+    return Promise.resolve<CatalogueResult<CatalogueProduct>>({ success: false, error: errors[0], error_code: 'VALIDATION_ERROR', details: errors });
+  }
+  return invokeCatalogue<CatalogueProduct>('create', { product }, 'product');
+}
+
+export function updateCatalogueProduct(productId: number, product: CatalogueProductInput) {
+  const errors = validateBarProductInput(product, true);
+  if (errors.length > 0) {
+    return Promise.resolve<CatalogueResult<CatalogueProduct>>({ success: false, error: errors[0], error_code: 'VALIDATION_ERROR', details: errors });
+  }
+  return invokeCatalogue<CatalogueProduct>('update', { product_id: productId, product }, 'product');
+}
+
+export function archiveCatalogueProduct(productId: number) {
+  return invokeCatalogue<CatalogueProduct>('archive', { product_id: productId }, 'product');
+}
+
+export function restoreCatalogueProduct(productId: number) {
+  return invokeCatalogue<CatalogueProduct>('restore', { product_id: productId }, 'product');
+}
+
+export function reorderCatalogueProducts(productIds: number[]) {
+  return invokeCatalogue('reorder', { product_ids: productIds });
+}
+
+export function scheduleProductPrice(productId: number, schedule: PriceScheduleInput) {
+  const errors = validatePriceSchedule(schedule);
+  if (errors.length > 0) {
+    return Promise.resolve<CatalogueResult<BarPriceSchedule>>({ success: false, error: errors[0], error_code: 'VALIDATION_ERROR', details: errors });
+  }
+  return invokeCatalogue<BarPriceSchedule>('schedule_price', { product_id: productId, schedule }, 'schedule');
+}
+
+export function cancelPriceSchedule(scheduleId: number) {
+  return invokeCatalogue('cancel_price_schedule', { schedule_id: scheduleId });
+}
+
+/**
+ * Replace a point of sale's menu. An empty list offers the whole catalogue.
+ */
+export function setPointOfSaleProducts(pointOfSaleId: number, productIds: number[]) {
+  return invokeCatalogue('set_point_of_sale_products', { point_of_sale_id: pointOfSaleId, product_ids: productIds });
+}
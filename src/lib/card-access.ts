@@ -0,0 +1,331 @@
+/**
+ * Card Access (printed PIN / QR token)
+ *
+ * Public pages read cards and submit refund requests through edge functions
+ * that check the card's optional secret server-side; repeated wrong secrets
+ * lock the card for that client for a while. Admins issue, reprint and revoke
+ * secrets through manage-card-secrets.
+ *
+ * The secret travels in the QR code as `/s/<card id>?k=<secret>` and is kept
+ * in sessionStorage for the tab so the payment, statement and success pages
+ * can reuse it.
+ */
+
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+
+export const CARD_SECRET_PARAM = 'k';
+
+const SECRET_STORAGE_PREFIX = 'card_secret:';
+
+export type CardAccessErrorCode =
+  | 'CARD_NOT_FOUND'
+  | 'SECRET_REQUIRED'
+  | 'INVALID_SECRET'
+  | 'CARD_LOCKED'
+  | 'RATE_LIMITED'
+  | 'VALIDATION_ERROR';
+
+export interface PublicCard {
+  id: string;
+  amount: number;
+  secretProtected: boolean;
+}
+
+export interface CardAccessResult {
+  success: boolean;
+  card?: PublicCard;
+  error?: string;
+  error_code?: CardAccessErrorCode | string;
+  remaining_attempts?: number;
+  retry_after_seconds?: number;
+}
+
+export interface RefundRequestInput {
+  cardId: string;
+  secret?: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  account: string;
+}
+
+export interface RefundRequestResult {
+  success: boolean;
+  refundId?: number;
+  // Reference quoted in the confirmation email
+  trackingRef?: string;
+  confirmationSent?: boolean;
+  error?: string;
+  error_code?: CardAccessErrorCode | string;
+  remaining_attempts?: number;
+}
+
+export interface CardSecretStatus {
+  card_id: string;
+  protected: boolean;
+  issued_at: string | null;
+  reissue_count?: number;
+  secret?: string;
+  reissued?: boolean;
+}
+
+export interface CardSecretResult {
+  success: boolean;
+  data?: CardSecretStatus;
+  error?: string;
+  error_code?: string;
+}
+
+interface FunctionErrorBody {
+  error?: string;
+  error_code?: string;
+  remaining_attempts?: number;
+  retry_after_seconds?: number;
+}
+
+/**
+ * Uppercase and strip separators so "ab3-k7p" matches the printed "AB3K7P"
+ */
+export function normalizeCardSecret(secret: string | null | undefined): string {
+  return (secret || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function rememberCardSecret(cardId: string, secret: string): void {
+  try {
+    sessionStorage.setItem(SECRET_STORAGE_PREFIX + cardId, normalizeCardSecret(secret));
+  } catch {
+    // Storage unavailable (private mode): the customer will be asked again
+  }
+}
+
+export function getRememberedCardSecret(cardId: string): string | undefined {
+  try {
+    return sessionStorage.getItem(SECRET_STORAGE_PREFIX + cardId) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function forgetCardSecret(cardId: string): void {
+  try {
+    sessionStorage.removeItem(SECRET_STORAGE_PREFIX + cardId);
+  } catch {
+    // Nothing stored
+  }
+}
+
+export function buildCardAccessUrl(cardId: string, secret: string | undefined, origin: string): string {
+  const url = `${origin}/s/${encodeURIComponent(cardId)}`;
+  return secret ? `${url}?${CARD_SECRET_PARAM}=${encodeURIComponent(secret)}` : url;
+}
+
+/**
+ * Customer-facing message for a denied card access
+ */
+export function describeCardAccessError(errorCode: string | undefined, remainingAttempts?: number, retryAfterSeconds?: number): string {
+  switch (errorCode) {
+    case 'CARD_NOT_FOUND':
+      return 'Carte non trouvée';
+    case 'SECRET_REQUIRED':
+      return 'Veuillez entrer le code imprimé sur votre carte';
+    case 'INVALID_SECRET':
+      return remainingAttempts !== undefined
+        ? `Code incorrect (${remainingAttempts} essai${remainingAttempts > 1 ? 's' : ''} restant${remainingAttempts > 1 ? 's' : ''})`
+        : 'Code incorrect';
+    case 'CARD_LOCKED': {
+      const minutes = Math.max(1, Math.ceil((retryAfterSeconds ?? 0) / 60));
+      return `Trop de tentatives. Réessayez dans ${minutes} minute${minutes > 1 ? 's' : ''}.`;
+    }
+    case 'RATE_LIMITED':
+      return 'Trop de requêtes. Veuillez réessayer plus tard.';
+    default:
+      return "Une erreur s'est produite lors de la vérification de la carte";
+  }
+}
+
+/**
+ * Look up a card for the public pages, with its secret when it has one
+ */
+export async function lookupCard(cardId: string, secret?: string): Promise<CardAccessResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('card-access', {
+      body: { card_id: cardId, secret: secret ? normalizeCardSecret(secret) : undefined }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody<FunctionErrorBody>(error);
+      return {
+        success: false,
+        error: describeCardAccessError(errorBody?.error_code, errorBody?.remaining_attempts, errorBody?.retry_after_seconds),
+        error_code: errorBody?.error_code,
+        remaining_attempts: errorBody?.remaining_attempts,
+        retry_after_seconds: errorBody?.retry_after_seconds,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: describeCardAccessError(data?.error_code), error_code: data?.error_code };
+    }
+
+    return {
+      success: true,
+      card: { id: data.card_id, amount: data.amount, secretProtected: data.secret_protected === true },
+    };
+  } catch (error) {
+    console.error('Card lookup failed:', error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
+
+/**
+ * Submit the public refund form
+ */
+export async function submitRefundRequest(input: RefundRequestInput): Promise<RefundRequestResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('submit-refund-request', {
+      body: {
+        card_id: input.cardId.trim(),
+        secret: input.secret ? normalizeCardSecret(input.secret) : undefined,
+        first_name: input.firstName,
+        last_name: input.lastName,
+        email: input.email,
+        account: input.account,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody<FunctionErrorBody>(error);
+      return {
+        success: false,
+        error: errorBody?.error_code === 'VALIDATION_ERROR'
+          ? 'Veuillez vérifier votre email et votre IBAN'
+          : describeCardAccessError(errorBody?.error_code, errorBody?.remaining_attempts, errorBody?.retry_after_seconds),
+        error_code: errorBody?.error_code,
+        remaining_attempts: errorBody?.remaining_attempts,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: data?.error, error_code: data?.error_code };
+    }
+
+    return {
+      success: true,
+      refundId: data.refund_id,
+      trackingRef: data.tracking_ref,
+      confirmationSent: data.confirmation_sent === true,
+    };
+  } catch (error) {
+    console.error('Refund request submission failed:', error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
+
+async function invokeCardSecrets(action: 'status' | 'issue' | 'revoke', cardId: string): Promise<CardSecretResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour gérer les codes de carte', error_code: 'UNAUTHORIZED' };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('manage-card-secrets', {
+      body: { action, card_id: cardId.trim() },
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody<FunctionErrorBody>(error);
+      return {
+        success: false,
+        error: errorBody?.error || error.message || 'Erreur lors de la gestion du code de carte',
+        error_code: errorBody?.error_code,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: data?.error, error_code: data?.error_code };
+    }
+
+    if (action !== 'status') {
+      await auditLogger.logDataAccess({
+        requestId: data.request_id,
+        userId: session.user.id,
+        action: `card_secret_${action}`,
+        resource: 'card_secrets',
+        resourceId: data.card_id,
+        dataType: 'card_data',
+        result: AuditResult.SUCCESS,
+      });
+    }
+
+    return {
+      success: true,
+      data: {
+        card_id: data.card_id,
+        protected: data.protected,
+        issued_at: data.issued_at ?? null,
+        reissue_count: data.reissue_count,
+        secret: data.secret,
+        reissued: data.reissued,
+      },
+    };
+  } catch (error) {
+    console.error(`Card secret ${action} failed:`, error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
+
+export const getCardSecretStatus = (cardId: string) => invokeCardSecrets('status', cardId);
+
+export const issueCardSecret = (cardId: string) => invokeCardSecrets('issue', cardId);
+
+export const revokeCardSecret = (cardId: string) => invokeCardSecrets('revoke', cardId);
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Printable label with the card id, its code and the direct access link
+ */
+export function buildCardLabelHtml(cardId: string, secret: string, origin: string): string {
+  const url = buildCardAccessUrl(cardId, secret, origin);
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8" />
+  <title>Code de la carte ${escapeHtml(cardId)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 24px; }
+    .label { border: 1px dashed #999; padding: 16px; width: 320px; }
+    .code { font-family: monospace; font-size: 28px; letter-spacing: 4px; margin: 8px 0; }
+    .url { font-size: 10px; word-break: break-all; color: #555; }
+  </style>
+</head>
+<body>
+  <div class="label">
+    <div>Carte : <strong>${escapeHtml(cardId)}</strong></div>
+    <div class="code">${escapeHtml(secret)}</div>
+    <div class="url">${escapeHtml(url)}</div>
+  </div>
+</body>
+</html>`;
+}
+
+export function printCardLabel(cardId: string, secret: string, origin: string): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write(buildCardLabelHtml(cardId, secret, origin));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
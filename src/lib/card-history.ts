@@ -0,0 +1,229 @@
+/**
+ * Card Transaction History
+ *
+ * Customer-facing statement of a card, served by the get-card-history edge
+ * function: every balance movement of the card ledger (recharges and their
+ * bonus, reversed online payments, card fees, bar orders, order refunds,
+ * balance transfers, manual adjustments...) and the refund requests merged
+ * into one timeline with the balance after each operation.
+ *
+ * The endpoint is rate limited per client and caps how many distinct cards a
+ * client can look up, so statements cannot be used to enumerate cards. Cards
+ * with a printed PIN / QR token also need their secret (see card-access).
+ */
+
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { describeCardAccessError, normalizeCardSecret } from '@/lib/card-access';
+
+export type CardHistoryEntryType =
+  | 'opening'
+  | 'recharge'
+  | 'bonus'
+  | 'card_fee'
+  | 'stripe_reversal'
+  | 'bar_order'
+  | 'order_refund'
+  | 'transfer'
+  | 'adjustment'
+  | 'refund_request'
+  | 'other';
+
+export interface CardHistoryItem {
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  is_return: boolean;
+  refunded_quantity: number;
+}
+
+export interface CardHistoryEntry {
+  id: string;
+  type: CardHistoryEntryType;
+  occurred_at: string;
+  description: string;
+  amount: number;
+  balance_after: number;
+  items?: CardHistoryItem[];
+}
+
+export interface CardHistory {
+  card_id: string;
+  current_balance: number;
+  opening_balance: number;
+  totals: {
+    recharged: number;
+    spent: number;
+    refunded: number;
+  };
+  transactions: CardHistoryEntry[];
+  generated_at: string;
+}
+
+export interface CardHistoryResult {
+  success: boolean;
+  history?: CardHistory;
+  error?: string;
+  error_code?: string;
+}
+
+export const HISTORY_ENTRY_LABELS: Record<CardHistoryEntryType, string> = {
+  opening: 'Solde reporté',
+  recharge: 'Recharge',
+  bonus: 'Bonus',
+  card_fee: 'Frais de carte',
+  stripe_reversal: 'Paiement en ligne annulé',
+  bar_order: 'Commande',
+  order_refund: 'Remboursement',
+  transfer: 'Transfert de solde',
+  adjustment: 'Correction',
+  refund_request: 'Demande de remboursement',
+  other: 'Autre',
+};
+
+export async function getCardHistory(cardId: string, secret?: string): Promise<CardHistoryResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('get-card-history', {
+      body: { card_id: cardId, secret: secret ? normalizeCardSecret(secret) : undefined }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody<{ error?: string; error_code?: string; remaining_attempts?: number; retry_after_seconds?: number }>(error);
+
+      if (errorBody?.error_code === 'RATE_LIMITED') {
+        return { success: false, error: 'Trop de consultations. Veuillez réessayer plus tard.', error_code: 'RATE_LIMITED' };
+      }
+      if (['CARD_NOT_FOUND', 'SECRET_REQUIRED', 'INVALID_SECRET', 'CARD_LOCKED'].includes(errorBody?.error_code)) {
+        return {
+          success: false,
+          error: describeCardAccessError(errorBody.error_code, errorBody.remaining_attempts, errorBody.retry_after_seconds),
+          error_code: errorBody.error_code,
+        };
+      }
+      return { success: false, error: "Impossible de charger l'historique de la carte", error_code: errorBody?.error_code };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: data?.error, error_code: data?.error_code };
+    }
+
+    return {
+      success: true,
+      history: {
+        card_id: data.card_id,
+        current_balance: data.current_balance,
+        opening_balance: data.opening_balance,
+        totals: data.totals,
+        transactions: data.transactions || [],
+        generated_at: data.generated_at,
+      },
+    };
+  } catch (error) {
+    console.error('Card history request failed:', error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+const formatDate = (isoDate: string) => new Date(isoDate).toLocaleString('fr-BE', { timeZone: 'Europe/Brussels' });
+
+function escapeCsv(value: string): string {
+  return /[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function describeItems(items: CardHistoryItem[] | undefined): string {
+  return (items || [])
+    .map(item => `${item.quantity}x ${item.product_name}${item.refunded_quantity > 0 ? ` (${item.refunded_quantity} remboursé)` : ''}`)
+    .join(', ');
+}
+
+/**
+ * Semicolon-separated CSV (opens directly in Excel with Belgian/French locales)
+ */
+export function buildStatementCsv(history: CardHistory): string {
+  const rows = [
+    ['Date', 'Type', 'Description', 'Articles', 'Montant (€)', 'Solde (€)'],
+    ...history.transactions.map(entry => [
+      formatDate(entry.occurred_at),
+      HISTORY_ENTRY_LABELS[entry.type],
+      entry.description,
+      describeItems(entry.items),
+      formatAmount(entry.amount),
+      formatAmount(entry.balance_after),
+    ]),
+  ];
+
+  return rows.map(row => row.map(escapeCsv).join(';')).join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Printable statement, saved as PDF through the browser's print dialog
+ */
+export function buildStatementHtml(history: CardHistory): string {
+  const rows = history.transactions.map(entry => `
+      <tr>
+        <td>${escapeHtml(formatDate(entry.occurred_at))}</td>
+        <td>${escapeHtml(entry.description)}<div class="items">${escapeHtml(describeItems(entry.items))}</div></td>
+        <td class="num">${formatAmount(entry.amount)} €</td>
+        <td class="num">${formatAmount(entry.balance_after)} €</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8" />
+  <title>Relevé de la carte ${escapeHtml(history.card_id)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 12px; color: #222; margin: 24px; }
+    h1 { font-size: 18px; margin-bottom: 4px; }
+    table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+    th, td { border-bottom: 1px solid #ddd; padding: 6px; text-align: left; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .items { color: #666; font-size: 11px; }
+  </style>
+</head>
+<body>
+  <h1>Château Apéro — Relevé de carte</h1>
+  <div>Carte : ${escapeHtml(history.card_id)}</div>
+  <div>Édité le : ${escapeHtml(formatDate(history.generated_at))}</div>
+  <div>Solde actuel : ${formatAmount(history.current_balance)} €</div>
+  <table>
+    <thead><tr><th>Date</th><th>Opération</th><th class="num">Montant</th><th class="num">Solde</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+</body>
+</html>`;
+}
+
+export function downloadStatementCsv(history: CardHistory): void {
+  // BOM so spreadsheet software detects UTF-8 accents
+  const blob = new Blob(['\uFEFF' + buildStatementCsv(history)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `releve-${history.card_id}-${history.generated_at.split('T')[0]}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function printStatement(history: CardHistory): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write(buildStatementHtml(history));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
@@ -0,0 +1,240 @@
+/**
+ * Card Lifecycle
+ *
+ * Blocks, unblocks, declares lost, retires, replaces and merges cards through
+ * the manage-cards edge function. A card that is not active can neither pay
+ * nor be recharged; replacing a card retires it and moves its balance and
+ * history to the new card (or to an existing active card for a merge).
+ */
+
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+
+export type CardStatus = 'active' | 'blocked' | 'lost' | 'retired';
+
+export type CardLifecycleEventType = 'status_change' | 'balance_transfer_out' | 'balance_transfer_in' | 'history_moved';
+
+export interface CardLifecycleEvent {
+  id: number;
+  card_id: string;
+  event_type: CardLifecycleEventType;
+  from_status: CardStatus | null;
+  to_status: CardStatus | null;
+  amount: number | null;
+  related_card_id: string | null;
+  details: Record<string, unknown> | null;
+  reason: string | null;
+  performed_by: string | null;
+  client_request_id: string | null;
+  created_at: string;
+}
+
+export interface CardLifecycleState {
+  id: string;
+  amount: number | null;
+  status: CardStatus;
+  status_reason: string | null;
+  status_changed_at: string | null;
+  replaced_by: string | null;
+}
+
+export interface CardLifecycle {
+  card: CardLifecycleState;
+  events: CardLifecycleEvent[];
+}
+
+export interface CardReplacement {
+  old_card_id: string;
+  new_card_id: string;
+  merged: boolean;
+  moved_amount: number;
+  new_balance: number;
+  previous_status: CardStatus;
+  moved: {
+    recharges: number;
+    bar_orders: number;
+    bar_order_refunds: number;
+    refund_requests: number;
+  };
+  duplicate?: boolean;
+}
+
+export interface CardStatusChange {
+  card_id: string;
+  status: CardStatus;
+  previous_status?: CardStatus;
+  changed: boolean;
+}
+
+export interface CardLifecycleResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  error_code?: string;
+}
+
+export const CARD_STATUS_LABELS: Record<CardStatus, string> = {
+  active: 'Active',
+  blocked: 'Bloquée',
+  lost: 'Perdue',
+  retired: 'Retirée',
+};
+
+// Retired cards are final; use a replacement to move their balance first
+const ALLOWED_TRANSITIONS: Record<CardStatus, CardStatus[]> = {
+  active: ['blocked', 'lost', 'retired'],
+  blocked: ['active', 'lost', 'retired'],
+  lost: ['active', 'blocked', 'retired'],
+  retired: [],
+};
+
+export function getAllowedTransitions(status: CardStatus): CardStatus[] {
+  return ALLOWED_TRANSITIONS[status] ?? [];
+}
+
+export function canReplaceCard(status: CardStatus): boolean {
+  return status !== 'retired';
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  CARD_NOT_FOUND: 'Carte non trouvée',
+  INVALID_STATUS: 'Statut de carte invalide',
+  CARD_RETIRED: 'Cette carte est retirée et ne peut plus être modifiée',
+  BALANCE_NOT_EMPTY: 'Transférez le solde vers une autre carte avant de retirer celle-ci',
+  SAME_CARD: 'La nouvelle carte doit être différente de l\'ancienne',
+  REPLACEMENT_NOT_ACTIVE: 'La carte de destination n\'est pas active',
+};
+
+async function invokeManageCards<T>(body: Record<string, unknown>): Promise<CardLifecycleResult<T> & { userId?: string; requestId?: string }> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour gérer les cartes', error_code: 'UNAUTHORIZED' };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('manage-cards', {
+      body,
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody(error);
+      return {
+        success: false,
+        error: ERROR_MESSAGES[errorBody?.error_code ?? ''] || errorBody?.error || error.message || 'Erreur lors de la gestion de la carte',
+        error_code: errorBody?.error_code,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: ERROR_MESSAGES[data?.error_code] || data?.error, error_code: data?.error_code };
+    }
+
+    return { success: true, data: data as T, userId: session.user.id, requestId: data.request_id };
+  } catch (error) {
+    console.error(`Card ${body.action} failed:`, error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
+
+export async function getCardLifecycle(cardId: string): Promise<CardLifecycleResult<CardLifecycle>> {
+  const result = await invokeManageCards<CardLifecycle>({
+    action: 'history',
+    card_id: cardId.trim(),
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error, error_code: result.error_code };
+  }
+  return { success: true, data: { card: result.data!.card, events: result.data!.events } };
+}
+
+export async function setCardStatus(
+  cardId: string,
+  status: CardStatus,
+  reason?: string
+): Promise<CardLifecycleResult<CardStatusChange>> {
+  const { userId, requestId, ...result } = await invokeManageCards<CardStatusChange>({
+    action: 'set_status',
+    card_id: cardId.trim(),
+    status,
+    ...(reason?.trim() && { reason: reason.trim() }),
+  });
+
+  if (result.success && result.data!.changed) {
+    await auditLogger.logDataAccess({
+      requestId,
+      userId,
+      action: `card_status_${status}`,
+      resource: 'table_cards',
+      resourceId: result.data!.card_id,
+      dataType: 'card_data',
+      result: AuditResult.SUCCESS,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Replace a card by a new one, or merge it into an existing active card.
+ * Each step of the move is written to the audit log.
+ */
+export async function replaceCard(
+  oldCardId: string,
+  newCardId: string,
+  reason: string,
+  clientRequestId: string
+): Promise<CardLifecycleResult<CardReplacement>> {
+  const { userId, requestId, ...result } = await invokeManageCards<CardReplacement>({
+    action: 'replace',
+    card_id: oldCardId.trim(),
+    new_card_id: newCardId.trim(),
+    reason: reason.trim(),
+    client_request_id: clientRequestId,
+  });
+
+  if (!result.success || result.data!.duplicate) {
+    return result;
+  }
+
+  const replacement = result.data!;
+  const steps: Array<{ action: string; resourceId: string }> = [
+    { action: 'card_status_retired', resourceId: replacement.old_card_id },
+    { action: 'card_balance_transfer_out', resourceId: replacement.old_card_id },
+    { action: 'card_balance_transfer_in', resourceId: replacement.new_card_id },
+    { action: replacement.merged ? 'card_merge' : 'card_replace', resourceId: replacement.new_card_id },
+  ];
+
+  for (const step of steps) {
+    await auditLogger.logDataAccess({
+      requestId,
+      userId,
+      action: step.action,
+      resource: 'table_cards',
+      resourceId: step.resourceId,
+      dataType: 'card_data',
+      result: AuditResult.SUCCESS,
+    });
+  }
+
+  return result;
+}
+
+export function describeLifecycleEvent(event: CardLifecycleEvent): string {
+  switch (event.event_type) {
+    case 'status_change':
+      return `${CARD_STATUS_LABELS[event.from_status!] ?? event.from_status} → ${CARD_STATUS_LABELS[event.to_status!] ?? event.to_status}`
+        + (event.related_card_id ? ` (remplacée par ${event.related_card_id})` : '');
+    case 'balance_transfer_out':
+      return `Solde de ${Number(event.amount ?? 0).toFixed(2)}€ transféré vers ${event.related_card_id}`;
+    case 'balance_transfer_in':
+      return `Solde de ${Number(event.amount ?? 0).toFixed(2)}€ reçu de ${event.related_card_id}`;
+    case 'history_moved':
+      return `Historique repris de ${event.related_card_id}`;
+    default:
+      return event.event_type;
+  }
+}
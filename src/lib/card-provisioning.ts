@@ -0,0 +1,256 @@
+/**
+ * Card Provisioning
+ *
+ * Registers ranges of new cards through the provision-cards edge function,
+ * prints a sheet of /s/:id QR codes for ScanRedirect, and drives the NFC
+ * writer to encode or verify blank tags one after another.
+ */
+
+import { toString as toQrSvg } from 'qrcode';
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+import { buildCardAccessUrl } from '@/lib/card-access';
+
+// The NFC reader extracts 8-character alphanumeric ids from tags
+export const CARD_ID_LENGTH = 8;
+export const MAX_BATCH_SIZE = 500;
+
+export interface CardIdRangeInput {
+  prefix: string;
+  start: number;
+  count: number;
+}
+
+export interface ProvisionedCard {
+  id: string;
+  // Printed code, present when secrets were issued with the batch
+  secret?: string;
+}
+
+export interface ProvisionResult {
+  success: boolean;
+  cards?: ProvisionedCard[];
+  error?: string;
+  error_code?: string;
+  existing_ids?: string[];
+}
+
+export type TagEncodingMode = 'write' | 'verify';
+
+export interface TagEncodingProgress {
+  done: number;
+  total: number;
+  current: string | null;
+  failed: number;
+}
+
+export interface TagEncodingFailure {
+  id: string;
+  error: string;
+}
+
+export interface TagEncodingReport {
+  succeeded: string[];
+  failed: TagEncodingFailure[];
+  aborted: boolean;
+}
+
+export interface TagEncoder {
+  writeTag: (cardId: string, url: string, signal?: AbortSignal) => Promise<void>;
+  readTag: (signal?: AbortSignal) => Promise<string | null>;
+}
+
+/**
+ * Zero-padded ids after the prefix, e.g. prefix "FA" from 1 gives FA000001
+ */
+export function buildCardIdRange({ prefix, start, count }: CardIdRangeInput): { ids: string[]; error?: string } {
+  const normalizedPrefix = prefix.trim().toUpperCase();
+
+  if (!/^[A-Z0-9]{0,7}$/.test(normalizedPrefix)) {
+    return { ids: [], error: `Le préfixe doit contenir au plus ${CARD_ID_LENGTH - 1} lettres ou chiffres` };
+  }
+  if (!Number.isInteger(start) || start < 0) {
+    return { ids: [], error: 'Le premier numéro doit être un entier positif' };
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH_SIZE) {
+    return { ids: [], error: `Le nombre de cartes doit être compris entre 1 et ${MAX_BATCH_SIZE}` };
+  }
+
+  const width = CARD_ID_LENGTH - normalizedPrefix.length;
+  if (start + count - 1 >= 10 ** width) {
+    return { ids: [], error: `La plage dépasse ${width} chiffres après le préfixe` };
+  }
+
+  const ids = Array.from({ length: count }, (_, index) =>
+    `${normalizedPrefix}${String(start + index).padStart(width, '0')}`
+  );
+  return { ids };
+}
+
+export async function provisionCards(
+  cardIds: string[],
+  options: { description?: string; issueSecrets?: boolean } = {}
+): Promise<ProvisionResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour enregistrer des cartes', error_code: 'UNAUTHORIZED' };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('provision-cards', {
+      body: {
+        card_ids: cardIds,
+        ...(options.description?.trim() && { description: options.description.trim() }),
+        issue_secrets: options.issueSecrets === true,
+      },
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody<{ error?: string; error_code?: string; details?: { existing_ids?: string[] } }>(error);
+      return {
+        success: false,
+        error: errorBody?.error_code === 'CARDS_EXIST'
+          ? 'Certaines cartes de cette plage existent déjà'
+          : errorBody?.error || error.message || 'Erreur lors de l\'enregistrement des cartes',
+        error_code: errorBody?.error_code,
+        existing_ids: errorBody?.details?.existing_ids,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: data?.error, error_code: data?.error_code };
+    }
+
+    const secrets: Record<string, string> = data.secrets ?? {};
+    const cards: ProvisionedCard[] = (data.card_ids as string[]).map(id => ({
+      id,
+      ...(secrets[id] && { secret: secrets[id] }),
+    }));
+
+    await auditLogger.logDataAccess({
+      requestId: data.request_id,
+      userId: session.user.id,
+      action: 'cards_provision',
+      resource: 'table_cards',
+      resourceId: `${cards[0].id}..${cards[cards.length - 1].id}`,
+      dataType: 'card_data',
+      result: AuditResult.SUCCESS,
+    });
+
+    return { success: true, cards };
+  } catch (error) {
+    console.error('Card provisioning failed:', error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Printable A4 sheet with one QR code per card, linking to /s/:id
+ */
+export async function buildQrSheetHtml(cards: ProvisionedCard[], origin: string, title: string = 'Cartes'): Promise<string> {
+  const labels = await Promise.all(cards.map(async card => {
+    const url = buildCardAccessUrl(card.id, card.secret, origin);
+    const svg = await toQrSvg(url, { type: 'svg', errorCorrectionLevel: 'M', margin: 1 });
+    return `    <div class="label">
+      ${svg}
+      <div class="id">${escapeHtml(card.id)}</div>${card.secret ? `
+      <div class="code">${escapeHtml(card.secret)}</div>` : ''}
+    </div>`;
+  }));
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; margin: 12mm; }
+    .sheet { display: grid; grid-template-columns: repeat(4, 1fr); gap: 6mm; }
+    .label { border: 1px dashed #999; padding: 3mm; text-align: center; break-inside: avoid; }
+    .label svg { width: 32mm; height: 32mm; }
+    .id { font-family: monospace; font-size: 14px; margin-top: 2mm; }
+    .code { font-family: monospace; font-size: 12px; letter-spacing: 2px; color: #555; }
+  </style>
+</head>
+<body>
+  <div class="sheet">
+${labels.join('\n')}
+  </div>
+</body>
+</html>`;
+}
+
+export async function printQrSheet(cards: ProvisionedCard[], origin: string, title?: string): Promise<boolean> {
+  // Opened before generating the codes so popup blockers see the user click
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write(await buildQrSheetHtml(cards, origin, title));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
+
+/**
+ * Encode or verify tags one after another: each card waits for a tag to be
+ * tapped. Failures are collected and the run goes on with the next card.
+ */
+export async function encodeTags(
+  cards: ProvisionedCard[],
+  mode: TagEncodingMode,
+  encoder: TagEncoder,
+  origin: string,
+  options: { signal?: AbortSignal; onProgress?: (progress: TagEncodingProgress) => void } = {}
+): Promise<TagEncodingReport> {
+  const report: TagEncodingReport = { succeeded: [], failed: [], aborted: false };
+  const progress = (current: string | null) => options.onProgress?.({
+    done: report.succeeded.length + report.failed.length,
+    total: cards.length,
+    current,
+    failed: report.failed.length,
+  });
+
+  for (const card of cards) {
+    if (options.signal?.aborted) {
+      report.aborted = true;
+      break;
+    }
+
+    progress(card.id);
+
+    try {
+      if (mode === 'write') {
+        await encoder.writeTag(card.id, buildCardAccessUrl(card.id, card.secret, origin), options.signal);
+        report.succeeded.push(card.id);
+      } else {
+        const readId = await encoder.readTag(options.signal);
+        if (readId === card.id) {
+          report.succeeded.push(card.id);
+        } else {
+          report.failed.push({ id: card.id, error: readId ? `Tag lu : ${readId}` : 'Tag illisible' });
+        }
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        report.aborted = true;
+        break;
+      }
+      report.failed.push({ id: card.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  progress(null);
+  return report;
+}
@@ -0,0 +1,91 @@
+/**
+ * Cup Deposits and Net Revenue
+ *
+ * Bar orders mix drinks with cup deposits (is_deposit) and cup returns
+ * (is_return, credited back to the card). Deposits are money held for the
+ * guest until the cup comes back, not revenue; the card fee charged on the
+ * first recharge of each card (editions.card_fee) is revenue that never goes
+ * through the bar.
+ *
+ * The per-card equivalent used for refunds is the card_refundable_amounts view.
+ */
+
+// Minimal order shape needed for deposit accounting
+export interface DepositReportableOrder {
+  total_amount: number | null;
+  refunded_amount?: number | null;
+  bar_order_items?: Array<{
+    price?: number | null;
+    quantity: number;
+    refunded_quantity?: number | null;
+    is_deposit?: boolean | null;
+    is_return?: boolean | null;
+  }> | null;
+}
+
+export interface DepositSummary {
+  depositsCollected: number;
+  depositsReturned: number;
+  outstandingDeposits: number;
+  cupsOut: number;
+  cupsReturned: number;
+}
+
+export interface NetRevenueSummary {
+  grossSales: number;
+  barRevenue: number;
+  cardFees: number;
+  netRevenue: number;
+  deposits: DepositSummary;
+}
+
+/**
+ * Deposits paid and returned across the orders, net of voided items
+ */
+export function summarizeDeposits(orders: DepositReportableOrder[]): DepositSummary {
+  const summary: DepositSummary = {
+    depositsCollected: 0,
+    depositsReturned: 0,
+    outstandingDeposits: 0,
+    cupsOut: 0,
+    cupsReturned: 0,
+  };
+
+  orders.forEach(order => {
+    (order.bar_order_items || []).forEach(item => {
+      const quantity = item.quantity - (item.refunded_quantity || 0);
+      const amount = Math.abs(item.price || 0) * quantity;
+      if (item.is_deposit) {
+        summary.depositsCollected += amount;
+        summary.cupsOut += quantity;
+      } else if (item.is_return) {
+        summary.depositsReturned += amount;
+        summary.cupsReturned += quantity;
+      }
+    });
+  });
+
+  summary.outstandingDeposits = summary.depositsCollected - summary.depositsReturned;
+  return summary;
+}
+
+/**
+ * Net revenue: bar sales without deposits and returns, plus card fees
+ */
+export function computeNetRevenue(
+  orders: DepositReportableOrder[],
+  cardFees: Array<{ amount: number | null }> = []
+): NetRevenueSummary {
+  const grossSales = orders.reduce((sum, order) => sum + (order.total_amount || 0) - (order.refunded_amount || 0), 0);
+  const deposits = summarizeDeposits(orders);
+  const totalCardFees = cardFees.reduce((sum, fee) => sum + Number(fee.amount || 0), 0);
+  const barRevenue = grossSales - deposits.outstandingDeposits;
+
+  return {
+    grossSales,
+    barRevenue,
+    cardFees: totalCardFees,
+    netRevenue: barRevenue + totalCardFees,
+    deposits,
+  };
+}
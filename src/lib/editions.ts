@@ -0,0 +1,272 @@
+/**
+ * Festival Editions
+ *
+ * Single source of truth for the festival editions used by the admin
+ * dashboard and every statistics component. Editions live in the `editions`
+ * table; the live edition is stamped on bar orders and recharges by the
+ * database.
+ *
+ * Lifecycle: upcoming -> live -> closed (a closed edition can be reopened).
+ * Only one edition can be live at a time.
+ */
+
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+
+export type EditionStatus = 'upcoming' | 'live' | 'closed';
+
+// Provider taking online recharges during the edition
+export type PaymentProviderId = 'stripe' | 'mock';
+
+// Edition Configuration Interface
+export interface EditionConfig {
+  id: string;
+  name: string;
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  status: EditionStatus;
+  paymentProvider?: PaymentProviderId;
+  // Non-refundable fee taken from the first recharge of each card
+  cardFee?: number;
+}
+
+export interface EditionInput {
+  id?: string;
+  name?: string;
+  start_date?: string;
+  end_date?: string;
+  payment_provider?: PaymentProviderId;
+  card_fee?: number;
+}
+
+export interface EditionResult<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  error_code?: string;
+  details?: unknown;
+}
+
+interface EditionRow {
+  id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  status: string;
+  payment_provider?: string;
+  card_fee?: number | string | null;
+}
+
+export const EDITION_STATUS_LABELS: Record<EditionStatus, string> = {
+  upcoming: 'à venir',
+  live: 'en cours',
+  closed: 'terminé',
+};
+
+export const PAYMENT_PROVIDER_LABELS: Record<PaymentProviderId, string> = {
+  stripe: 'Stripe',
+  mock: 'QR de test (sans paiement réel)',
+};
+
+const isPaymentProviderId = (value: unknown): value is PaymentProviderId =>
+  typeof value === 'string' && Object.keys(PAYMENT_PROVIDER_LABELS).includes(value);
+
+// Status changes allowed from the admin UI, mirrored by sp_set_edition_status
+export const EDITION_STATUS_TRANSITIONS: Record<EditionStatus, EditionStatus[]> = {
+  upcoming: ['live'],
+  live: ['closed'],
+  closed: ['live'],
+};
+
+// Mirrors the editions.card_fee check constraint
+export const MAX_CARD_FEE = 50;
+
+const EDITION_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function toEditionConfig(row: EditionRow): EditionConfig {
+  const config: EditionConfig = {
+    id: row.id,
+    name: row.name,
+    dateRange: { start: row.start_date, end: row.end_date },
+    status: (['upcoming', 'live', 'closed'].includes(row.status) ? row.status : 'upcoming') as EditionStatus,
+  };
+  if (row.payment_provider) {
+    config.paymentProvider = isPaymentProviderId(row.payment_provider) ? row.payment_provider : 'stripe';
+  }
+  if (row.card_fee !== undefined && row.card_fee !== null) {
+    config.cardFee = Number(row.card_fee);
+  }
+  return config;
+}
+
+/**
+ * All editions, oldest first
+ */
+export async function getEditions(): Promise<EditionConfig[]> {
+  const { data, error } = await supabase
+    .from('editions')
+    .select('id, name, start_date, end_date, status, payment_provider, card_fee')
+    .order('start_date', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching editions:', error);
+    return [];
+  }
+
+  return (data || []).map(toEditionConfig);
+}
+
+/**
+ * Edition the dashboard opens on: the live one, otherwise the most recent
+ * edition that has started, otherwise the first upcoming one.
+ */
+export function getDefaultEdition(editions: EditionConfig[], today: string = new Date().toISOString().slice(0, 10)): EditionConfig | null {
+  const live = editions.find(edition => edition.status === 'live');
+  if (live) return live;
+
+  const started = editions
+    .filter(edition => edition.dateRange.start <= today)
+    .sort((a, b) => b.dateRange.start.localeCompare(a.dateRange.start));
+  if (started.length > 0) return started[0];
+
+  return editions[0] || null;
+}
+
+export function canTransitionEdition(from: EditionStatus, to: EditionStatus): boolean {
+  return EDITION_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Client-side validation mirroring the manage-editions edge function.
+ * `partial` allows omitting fields on update; the id can never change.
+ */
+export function validateEditionInput(edition: EditionInput, partial: boolean = false): string[] {
+  const errors: string[] = [];
+
+  if (!partial && (!edition.id || !EDITION_ID_PATTERN.test(edition.id) || edition.id.length > 40)) {
+    errors.push("L'identifiant doit être en minuscules, sans espaces (ex: july-10th)");
+  }
+
+  if (!partial || edition.name !== undefined) {
+    const name = edition.name?.trim() || '';
+    if (name.length === 0 || name.length > 60) {
+      errors.push('Le nom est obligatoire (60 caractères maximum)');
+    }
+  }
+
+  for (const field of ['start_date', 'end_date'] as const) {
+    if (!partial || edition[field] !== undefined) {
+      const value = edition[field];
+      if (!value || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        errors.push('Les dates doivent être au format AAAA-MM-JJ');
+        break;
+      }
+    }
+  }
+
+  if (edition.start_date && edition.end_date && edition.end_date < edition.start_date) {
+    errors.push('La date de fin doit suivre la date de début');
+  }
+
+  if (edition.payment_provider !== undefined && !isPaymentProviderId(edition.payment_provider)) {
+    errors.push('Moyen de paiement en ligne inconnu');
+  }
+
+  if (edition.card_fee !== undefined && (!Number.isFinite(edition.card_fee) || edition.card_fee < 0 || edition.card_fee > MAX_CARD_FEE)) {
+    errors.push(`Les frais de carte doivent être compris entre 0 et ${MAX_CARD_FEE}€`);
+  }
+
+  return errors;
+}
+
+async function invokeEditions<T = unknown>(
+  action: string,
+  payload: Record<string, unknown>,
+  resultKey?: string
+): Promise<EditionResult<T>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour gérer les éditions', error_code: 'UNAUTHORIZED' };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('manage-editions', {
+      body: { action, ...payload },
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody<EditionResult>(error);
+      return {
+        success: false,
+        error: errorBody?.error || error.message || "Erreur lors de la mise à jour de l'édition",
+        error_code: errorBody?.error_code,
+        details: errorBody?.details,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: data?.error, error_code: data?.error_code, details: data?.details };
+    }
+
+    await auditLogger.logDataAccess({
+      requestId: data.request_id,
+      userId: session.user.id,
+      action: `edition_${action}`,
+      resource: 'editions',
+      resourceId: String(payload.edition_id ?? (payload.edition as EditionInput | undefined)?.id ?? ''),
+      dataType: 'configuration_data',
+      result: AuditResult.SUCCESS,
+    });
+
+    const result = resultKey ? data[resultKey] : undefined;
+    return { success: true, data: result && resultKey === 'edition' ? toEditionConfig(result) as T : result };
+  } catch (error) {
+    console.error(`Edition action ${action} failed:`, error);
+    return { success: false, error: 'Network or client error', details: error };
+  }
+}
+
+export function createEdition(edition: EditionInput) {
+  const errors = validateEditionInput(edition);
+  if (errors.length > 0) {
+    return Promise.resolve<EditionResult<EditionConfig>>({ success: false, error: errors[0], error_code: 'VALIDATION_ERROR', details: errors });
+  }
+  return invokeEditions<EditionConfig>('create', { edition }, 'edition');
+}
+
+export function updateEdition(editionId: string, edition: EditionInput) {
+  const errors = validateEditionInput(edition, true);
+  if (errors.length > 0) {
+    return Promise.resolve<EditionResult<EditionConfig>>({ success: false, error: errors[0], error_code: 'VALIDATION_ERROR', details: errors });
+  }
+  return invokeEditions<EditionConfig>('update', { edition_id: editionId, edition }, 'edition');
+}
+
+export function setEditionStatus(editionId: string, status: EditionStatus) {
+  return invokeEditions('set_status', { edition_id: editionId, status });
+}
+
+export function deleteEdition(editionId: string) {
+  return invokeEditions('delete', { edition_id: editionId });
+}
+
+/**
+ * Notify when editions change (status switches, new editions).
+ * Returns a function to unsubscribe.
+ */
+export function subscribeToEditionChanges(onChange: () => void): () => void {
+  const channel = supabase
+    .channel('edition-changes')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'editions' }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
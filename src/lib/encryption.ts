@@ -8,7 +8,8 @@
  * Features:
  * - AES-256-GCM encryption for data at rest
  * - Field-level encryption for sensitive data
- * - Key rotation and management
+ * - Key rotation and management, with re-encryption of stored records
+ * - Envelope encryption: persistent data keys wrapped by a master key
  * - Data masking for logs and non-production environments
  * - Secure key derivation and storage
  * - Encryption metadata tracking
@@ -16,9 +17,10 @@
  * - Compliance with financial data protection standards
  */
 
-import { SecurityConfig } from '../config/security';
-import { auditLogger, AuditResult } from './audit-logger';
-import crypto from 'crypto';
+import { SecurityConfig } from '../config/security.ts';
+import { auditLogger, AuditResult } from './audit-logger.ts';
+import crypto from 'node:crypto';
+import { Buffer } from 'node:buffer';
 
 // Encryption interfaces
 export interface EncryptionResult {
@@ -54,7 +56,7 @@ export interface EncryptionKey {
 }
 
 // Key management interface
-interface KeyManager {
+export interface KeyManager {
   generateKey(purpose: 'data' | 'key' | 'backup'): Promise<EncryptionKey>;
   getActiveKey(purpose: 'data' | 'key' | 'backup'): Promise<EncryptionKey | null>;
   getKey(keyId: string): Promise<EncryptionKey | null>;
@@ -133,19 +135,214 @@ class InMemoryKeyManager implements KeyManager {
   }
 }
 
+export interface EncryptionKeyDatabase {
+  rpc(fn: string, params?: Record<string, unknown>): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
+
+interface StoredEncryptionKey {
+  id: string;
+  purpose: 'data' | 'key' | 'backup';
+  algorithm: string;
+  wrapped_key: string;
+  wrap_iv: string;
+  wrap_tag: string;
+  master_key_id: string;
+  created_at: string;
+  expires_at: string | null;
+  is_active: boolean;
+}
+
+/**
+ * Read the master key from its base64 form (32 bytes, e.g. the output of
+ * `openssl rand -base64 32`)
+ */
+export function parseMasterKey(encoded: string): Buffer {
+  const masterKey = Buffer.from(encoded.trim(), 'base64');
+  if (masterKey.length !== 32) {
+    throw new Error('Master key must be 32 bytes, base64 encoded');
+  }
+  return masterKey;
+}
+
+/**
+ * Key manager persisting data keys in the encryption_keys table (envelope
+ * encryption). Each data key is wrapped with AES-256-GCM under the master
+ * key, which never reaches the database; unwrapped keys are cached by id
+ * since a key never changes once stored.
+ */
+export class DatabaseKeyManager implements KeyManager {
+  private db: EncryptionKeyDatabase;
+  private masterKey: Buffer;
+  private masterKeyId: string;
+  private unwrapped: Map<string, EncryptionKey> = new Map();
+
+  constructor(db: EncryptionKeyDatabase, masterKey: Buffer) {
+    if (masterKey.length !== 32) {
+      throw new Error('Master key must be 32 bytes');
+    }
+    this.db = db;
+    this.masterKey = masterKey;
+    // Tells which master key wrapped a stored key, without revealing it
+    this.masterKeyId = crypto.createHash('sha256').update(masterKey).digest('hex').slice(0, 16);
+  }
+
+  private async call<T>(fn: string, params: Record<string, unknown>): Promise<T> {
+    const { data, error } = await this.db.rpc(fn, params);
+    if (error) {
+      throw new Error(`${fn} failed: ${error.message}`);
+    }
+    return data as T;
+  }
+
+  // The key id and purpose are authenticated with the wrapped key, so a
+  // wrapped key copied onto another row does not unwrap
+  private wrappingAad(id: string, purpose: string): Buffer {
+    return Buffer.from(`${id}:${purpose}`, 'utf8');
+  }
+
+  private unwrap(row: StoredEncryptionKey): EncryptionKey {
+    const cached = this.unwrapped.get(row.id);
+    if (cached) {
+      cached.isActive = row.is_active;
+      return cached;
+    }
+
+    if (row.master_key_id !== this.masterKeyId) {
+      throw new Error(`Encryption key ${row.id} is wrapped by another master key`);
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.masterKey, Buffer.from(row.wrap_iv, 'base64'));
+    decipher.setAAD(this.wrappingAad(row.id, row.purpose));
+    decipher.setAuthTag(Buffer.from(row.wrap_tag, 'base64'));
+    const key = Buffer.concat([decipher.update(Buffer.from(row.wrapped_key, 'base64')), decipher.final()]);
+
+    const encryptionKey: EncryptionKey = {
+      id: row.id,
+      key,
+      algorithm: row.algorithm,
+      createdAt: new Date(row.created_at),
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      isActive: row.is_active,
+      purpose: row.purpose,
+    };
+    this.unwrapped.set(row.id, encryptionKey);
+    return encryptionKey;
+  }
+
+  async generateKey(purpose: 'data' | 'key' | 'backup'): Promise<EncryptionKey> {
+    const keyId = `key_${purpose}_${Date.now()}_${crypto.randomBytes(6).toString('hex')}`;
+    const key = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(12);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.masterKey, iv);
+    cipher.setAAD(this.wrappingAad(keyId, purpose));
+    const wrappedKey = Buffer.concat([cipher.update(key), cipher.final()]);
+
+    const stored = await this.call<StoredEncryptionKey>('sp_encryption_key_store', {
+      id_in: keyId,
+      purpose_in: purpose,
+      algorithm_in: SecurityConfig.encryption.dataAtRest.algorithm,
+      wrapped_key_in: wrappedKey.toString('base64'),
+      wrap_iv_in: iv.toString('base64'),
+      wrap_tag_in: cipher.getAuthTag().toString('base64'),
+      master_key_id_in: this.masterKeyId,
+      expires_at_in: new Date(Date.now() + SecurityConfig.encryption.dataAtRest.keyRotationDays * 24 * 60 * 60 * 1000).toISOString(),
+    });
+
+    return this.unwrap(stored);
+  }
+
+  async getActiveKey(purpose: 'data' | 'key' | 'backup'): Promise<EncryptionKey | null> {
+    const row = await this.call<StoredEncryptionKey | null>('sp_encryption_key_active', { purpose_in: purpose });
+    if (!row) return null;
+
+    const key = this.unwrap(row);
+
+    // An expired key still decrypts, but is not used for new data
+    if (key.expiresAt && key.expiresAt < new Date()) {
+      return null;
+    }
+
+    return key;
+  }
+
+  async getKey(keyId: string): Promise<EncryptionKey | null> {
+    const cached = this.unwrapped.get(keyId);
+    if (cached) return cached;
+
+    const row = await this.call<StoredEncryptionKey | null>('sp_encryption_key_get', { id_in: keyId });
+    return row ? this.unwrap(row) : null;
+  }
+
+  async rotateKeys(): Promise<void> {
+    // Storing a key retires the previous active key of its purpose
+    for (const purpose of ['data', 'key', 'backup'] as const) {
+      await this.generateKey(purpose);
+    }
+  }
+
+  async deactivateKey(keyId: string): Promise<void> {
+    await this.call('sp_encryption_key_deactivate', { id_in: keyId });
+    const cached = this.unwrapped.get(keyId);
+    if (cached) {
+      cached.isActive = false;
+    }
+  }
+}
+
+/**
+ * A record with encrypted fields, as read from and written back to its table
+ */
+export interface EncryptedRecord {
+  id: string | number;
+  fields: Record<string, string | null>;
+  // Metadata of the encrypted fields; fields without metadata are plaintext
+  metadata: Record<string, EncryptionMetadata>;
+}
+
+/**
+ * Table holding records encrypted by DataEncryptionService, re-encrypted
+ * under the new data key when keys are rotated
+ */
+export interface EncryptedRecordStore {
+  name: string;
+  // Records not (fully) encrypted under the given key, after the given id
+  listStale(activeKeyId: string, afterId: string | number | null, limit: number): Promise<EncryptedRecord[]>;
+  save(record: EncryptedRecord, keyId: string): Promise<void>;
+}
+
+export interface KeyRotationResult {
+  activeKeyId: string;
+  reencrypted: Record<string, number>;
+  failed: Record<string, Array<string | number>>;
+}
+
+// Records read per listStale call while re-encrypting
+const REENCRYPTION_BATCH_SIZE = 100;
+
 /**
  * Data Encryption Service
  */
 export class DataEncryptionService {
   private keyManager: KeyManager;
   private requestId: string;
+  private ready: Promise<void>;
 
   constructor(keyManager?: KeyManager, requestId?: string) {
     this.keyManager = keyManager || new InMemoryKeyManager();
     this.requestId = requestId || crypto.randomUUID();
     
     // Initialize with default keys if none exist
-    this.initializeKeys().catch(console.error);
+    this.ready = this.initializeKeys().catch(console.error);
+  }
+
+  /**
+   * Use another key manager, e.g. a DatabaseKeyManager so encrypted data
+   * survives restarts and is readable by every instance
+   */
+  useKeyManager(keyManager: KeyManager): void {
+    this.keyManager = keyManager;
+    this.ready = this.initializeKeys().catch(console.error);
   }
 
   /**
@@ -154,9 +351,11 @@ export class DataEncryptionService {
   async encryptData(data: any, fieldName?: string): Promise<EncryptionResult> {
     try {
       const startTime = Date.now();
+      await this.ready;
       
-      // Get active encryption key
-      const encryptionKey = await this.keyManager.getActiveKey('data');
+      // Get active encryption key; an expired one is replaced on first use
+      const encryptionKey = await this.keyManager.getActiveKey('data')
+        ?? await this.keyManager.generateKey('data');
       if (!encryptionKey) {
         throw new Error('No active encryption key available');
       }
@@ -395,9 +594,11 @@ export class DataEncryptionService {
   }
 
   /**
-   * Rotate encryption keys
+   * Rotate encryption keys, then re-encrypt the records of the given stores
+   * under the new data key (see reencryptRecords)
    */
-  async rotateKeys(): Promise<void> {
+  async rotateKeys(stores: EncryptedRecordStore[] = [], maxRecords?: number): Promise<KeyRotationResult & { complete: boolean }> {
+    await this.ready;
     await this.keyManager.rotateKeys();
     
     await auditLogger.logDataAccess({
@@ -408,6 +609,109 @@ export class DataEncryptionService {
       dataType: 'refund_data',
       result: AuditResult.SUCCESS,
     });
+
+    return this.reencryptRecords(stores, maxRecords);
+  }
+
+  /**
+   * Re-encrypt every record not encrypted under the active data key, plaintext
+   * records included. Runs again safely after an interruption: records already
+   * re-encrypted are no longer listed. Records that fail are reported and
+   * left as they were; complete is false when maxRecords stopped the run.
+   */
+  async reencryptRecords(stores: EncryptedRecordStore[], maxRecords?: number): Promise<KeyRotationResult & { complete: boolean }> {
+    await this.ready;
+    const activeKey = await this.keyManager.getActiveKey('data') ?? await this.keyManager.generateKey('data');
+    if (!activeKey) {
+      throw new Error('No active encryption key available');
+    }
+
+    const result: KeyRotationResult & { complete: boolean } = {
+      activeKeyId: activeKey.id,
+      reencrypted: {},
+      failed: {},
+      complete: true,
+    };
+    let processed = 0;
+
+    for (const store of stores) {
+      result.reencrypted[store.name] = 0;
+      result.failed[store.name] = [];
+      let afterId: string | number | null = null;
+
+      while (result.complete) {
+        const limit = maxRecords === undefined ? REENCRYPTION_BATCH_SIZE : Math.min(REENCRYPTION_BATCH_SIZE, maxRecords - processed);
+        if (limit <= 0) {
+          result.complete = false;
+          break;
+        }
+
+        const records = await store.listStale(activeKey.id, afterId, limit);
+        if (records.length === 0) break;
+
+        for (const record of records) {
+          afterId = record.id;
+          processed++;
+          try {
+            const { record: reencrypted, keyId } = await this.reencryptRecord(record, activeKey.id);
+            await store.save(reencrypted, keyId);
+            result.reencrypted[store.name]++;
+          } catch (error) {
+            console.error(`Failed to re-encrypt ${store.name} record ${record.id}:`, error);
+            result.failed[store.name].push(record.id);
+          }
+        }
+      }
+    }
+
+    await auditLogger.logDataAccess({
+      requestId: this.requestId,
+      userId: 'system',
+      action: 'reencrypt_records',
+      resource: 'encryption_service',
+      dataType: 'refund_data',
+      recordCount: processed,
+      result: Object.values(result.failed).some(ids => ids.length > 0) ? AuditResult.PARTIAL : AuditResult.SUCCESS,
+    });
+
+    return result;
+  }
+
+  /**
+   * Decrypt the encrypted fields of a record and encrypt all its fields again
+   * with the active data key. A record without any value is only marked as
+   * belonging to the active key.
+   */
+  private async reencryptRecord(record: EncryptedRecord, activeKeyId: string): Promise<{ record: EncryptedRecord; keyId: string }> {
+    const fields: Record<string, string | null> = {};
+    const metadata: Record<string, EncryptionMetadata> = {};
+    let keyId: string | null = null;
+
+    for (const [field, value] of Object.entries(record.fields)) {
+      if (value === null || value === undefined) {
+        fields[field] = null;
+        continue;
+      }
+
+      let plaintext: unknown = value;
+      if (record.metadata[field]) {
+        const decrypted = await this.decryptData(value, record.metadata[field]);
+        if (!decrypted.success) {
+          throw new Error(`Failed to decrypt field: ${field}`);
+        }
+        plaintext = decrypted.decryptedData;
+      }
+
+      const encrypted = await this.encryptData(plaintext, field);
+      if (!encrypted.success || !encrypted.metadata) {
+        throw new Error(`Failed to encrypt field: ${field}`);
+      }
+      fields[field] = encrypted.encryptedData!;
+      metadata[field] = encrypted.metadata;
+      keyId = keyId ?? encrypted.metadata.keyId;
+    }
+
+    return { record: { id: record.id, fields, metadata }, keyId: keyId ?? activeKeyId };
   }
 }
 
@@ -0,0 +1,146 @@
+/**
+ * Manual Balance Adjustments
+ *
+ * Cash deposits and withdrawals at the cashier and balance corrections go
+ * through the process-manual-adjustment edge function. The browser never
+ * writes table_cards.amount: the stored procedure locks the card, requires a
+ * reason, replays a retried request (client_request_id) instead of applying it
+ * twice and journals the change in the card ledger.
+ *
+ * Adjustments require a recent two-factor confirmation (see two-factor.ts):
+ * callers ask for it with useStepUp before calling processManualAdjustment.
+ */
+
+import { supabase, generateClientRequestId, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+import { clearStepUp, isStepUpRequiredError } from '@/lib/two-factor';
+
+export type AdjustmentDirection = 'deposit' | 'withdraw';
+
+export const MAX_ADJUSTMENT_AMOUNT = 1000;
+export const MAX_ADJUSTMENT_REASON_LENGTH = 200;
+
+export interface ManualAdjustmentInput {
+  cardId: string;
+  amount: number;
+  direction: AdjustmentDirection;
+  reason: string;
+  // Keep the same id when retrying an attempt so it is applied only once
+  clientRequestId?: string;
+}
+
+export interface CardAdjustment {
+  id: number;
+  card_id: string;
+  amount: number;
+  reason: string;
+  previous_balance: number;
+  new_balance: number;
+  performed_by: string | null;
+  performer_role: string | null;
+  client_request_id: string;
+  created_at: string;
+}
+
+export interface ManualAdjustmentResult {
+  success: boolean;
+  adjustment?: CardAdjustment;
+  previousBalance?: number;
+  newBalance?: number;
+  duplicate?: boolean;
+  error?: string;
+  error_code?: string;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  CARD_NOT_FOUND: 'Carte non trouvée',
+  CARD_NOT_ACTIVE: "Cette carte n'est pas active",
+  INSUFFICIENT_BALANCE: 'Solde insuffisant pour ce retrait',
+  FORBIDDEN: "Vous n'êtes pas autorisé à modifier le solde des cartes",
+  STEP_UP_REQUIRED: 'La confirmation par code a expiré, veuillez réessayer',
+};
+
+/**
+ * Validate an adjustment before sending it to the server.
+ * Mirrors the checks done in the process-manual-adjustment Edge Function.
+ */
+export function validateManualAdjustment(input: ManualAdjustmentInput): string[] {
+  const errors: string[] = [];
+
+  if (!input.cardId?.trim()) {
+    errors.push("Veuillez entrer l'ID de la carte");
+  }
+  if (!Number.isFinite(input.amount) || input.amount <= 0 || input.amount > MAX_ADJUSTMENT_AMOUNT) {
+    errors.push(`Le montant doit être compris entre 0 et ${MAX_ADJUSTMENT_AMOUNT}€`);
+  }
+  const reason = input.reason?.trim() ?? '';
+  if (!reason) {
+    errors.push('Un motif est obligatoire');
+  } else if (reason.length > MAX_ADJUSTMENT_REASON_LENGTH) {
+    errors.push(`Le motif est limité à ${MAX_ADJUSTMENT_REASON_LENGTH} caractères`);
+  }
+
+  return errors;
+}
+
+export async function processManualAdjustment(input: ManualAdjustmentInput): Promise<ManualAdjustmentResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour modifier le solde d\'une carte', error_code: 'UNAUTHORIZED' };
+  }
+
+  const cardId = input.cardId.trim();
+  const signedAmount = input.direction === 'withdraw' ? -input.amount : input.amount;
+
+  try {
+    const { data, error } = await supabase.functions.invoke('process-manual-adjustment', {
+      body: {
+        card_id: cardId,
+        amount: signedAmount,
+        reason: input.reason.trim(),
+        client_request_id: input.clientRequestId || generateClientRequestId(),
+      },
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody(error);
+      // The next attempt must ask for a new code
+      if (isStepUpRequiredError(errorBody?.error_code)) clearStepUp();
+      return {
+        success: false,
+        error: ERROR_MESSAGES[errorBody?.error_code ?? ''] || errorBody?.error || error.message || "Erreur lors de l'ajustement du solde",
+        error_code: errorBody?.error_code,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: ERROR_MESSAGES[data?.error_code] || data?.error, error_code: data?.error_code };
+    }
+
+    if (!data.duplicate) {
+      await auditLogger.logDataAccess({
+        requestId: data.request_id,
+        userId: session.user.id,
+        action: `manual_adjustment_${input.direction}`,
+        resource: 'card_adjustments',
+        resourceId: cardId,
+        dataType: 'card_data',
+        result: AuditResult.SUCCESS,
+      });
+    }
+
+    return {
+      success: true,
+      adjustment: data.adjustment,
+      previousBalance: Number(data.previous_balance),
+      newBalance: Number(data.new_balance),
+      duplicate: Boolean(data.duplicate),
+    };
+  } catch (error) {
+    console.error('Manual adjustment failed:', error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
@@ -3,9 +3,10 @@
  * 
  * This service implements all four detection algorithms:
  * - Transaction failure detection (critical priority)
- * - Balance discrepancy detection (critical priority)
+ * - Balance discrepancy detection (critical priority, exact ledger reconciliation)
  * - Duplicate NFC scan detection (medium priority)
  * - Race condition detection (medium priority)
+ * - Cash drawer discrepancy detection (medium priority)
  * 
  * @version 1.0.0
  * @author Phase 4 Implementation Team
@@ -25,9 +26,11 @@ import type {
   BalanceDiscrepancyDetectionResult,
   DuplicateNFCDetectionResult,
   RaceConditionDetectionResult,
+  CashDrawerDiscrepancyDetectionResult,
   MonitoringDetectionCycleResult,
   TransactionFailureEventData,
   BalanceDiscrepancyEventData,
+  LedgerReconciliationSummary,
   DuplicateNFCEventData,
   RaceConditionEventData,
   MonitoringContextData
@@ -52,12 +55,14 @@ export class DetectionService {
         transactionFailures,
         balanceDiscrepancies,
         duplicateNFC,
-        raceConditions
+        raceConditions,
+        cashDrawerDiscrepancies
       ] = await Promise.allSettled([
         this.detectTransactionFailures(),
-        this.detectBalanceDiscrepancies(),
+        this.getLatestBalanceReconciliation(),
         this.detectDuplicateNFCScans(),
-        this.detectRaceConditions()
+        this.detectRaceConditions(),
+        this.detectCashDrawerDiscrepancies()
       ]);
 
       // Process results and handle errors
@@ -81,12 +86,18 @@ export class DetectionService {
         'race_conditions'
       ) as RaceConditionDetectionResult;
 
+      const cashDrawerResult = this.processDetectionResult(
+        cashDrawerDiscrepancies,
+        'cash_drawer_discrepancies'
+      ) as CashDrawerDiscrepancyDetectionResult;
+
       // Calculate total events created
       const totalEvents = 
         transactionResult.events_created +
         balanceResult.events_created +
         nfcResult.events_created +
-        raceResult.events_created;
+        raceResult.events_created +
+        cashDrawerResult.events_created;
 
       // Create system health snapshot
       const healthSnapshotId = await this.createSystemHealthSnapshot();
@@ -102,7 +113,8 @@ export class DetectionService {
           transaction_failures: transactionResult,
           balance_discrepancies: balanceResult,
           duplicate_nfc_scans: nfcResult,
-          race_conditions: raceResult
+          race_conditions: raceResult,
+          cash_drawer_discrepancies: cashDrawerResult
         },
         success: true
       };
@@ -119,7 +131,8 @@ export class DetectionService {
           transaction_failures: this.createErrorResult('transaction_failures', error),
           balance_discrepancies: this.createErrorResult('balance_discrepancies', error),
           duplicate_nfc_scans: this.createErrorResult('duplicate_nfc_scans', error),
-          race_conditions: this.createErrorResult('race_conditions', error)
+          race_conditions: this.createErrorResult('race_conditions', error),
+          cash_drawer_discrepancies: this.createErrorResult('cash_drawer_discrepancies', error)
         },
         success: false,
         errors: [error instanceof Error ? error.message : String(error)]
@@ -176,42 +189,87 @@ export class DetectionService {
 
   /**
    * Critical Priority: Detect balance discrepancies
+   *
+   * Exact per-card comparison of table_cards.amount with the card ledger
+   * (reconcile_card_ledger), one monitoring event per mismatched card. This is
+   * the nightly job; the detection cycle reports the latest run instead.
+   * Only admins may start a run from the app.
    */
   async detectBalanceDiscrepancies(): Promise<BalanceDiscrepancyDetectionResult> {
     const detectionTimestamp = new Date().toISOString();
-    let eventsCreated = 0;
-    let balanceMismatches = 0;
-    let negativeBalances = 0;
 
     try {
-      // Use database function for comprehensive detection
-      const { data: result, error } = await this.executeSQL(`
-        SELECT detect_balance_discrepancies() as result
-      `);
+      const { data, error } = await supabase.rpc('reconcile_card_ledger');
 
       if (error) {
-        throw new Error(`Balance discrepancy detection failed: ${error.message}`);
+        throw new Error(`Ledger reconciliation failed: ${error.message}`);
       }
 
-      const detectionResult = result?.[0]?.result;
-      if (detectionResult) {
-        eventsCreated = detectionResult.events_created || 0;
-      }
+      const summary = data as unknown as LedgerReconciliationSummary | null;
 
       return {
         detection_type: 'balance_discrepancies',
-        events_created: eventsCreated,
+        events_created: summary?.events_created || 0,
         detection_timestamp: detectionTimestamp,
         success: true,
-        balance_mismatches: balanceMismatches,
-        negative_balances: negativeBalances
+        balance_mismatches: summary?.balance_mismatches || 0,
+        negative_balances: summary?.negative_balances || 0,
+        cards_checked: summary?.cards_checked || 0,
+        total_drift: Number(summary?.total_drift || 0),
+        reconciliation_id: summary?.reconciliation_id,
+        reconciled_at: detectionTimestamp
       };
 
     } catch (error) {
       console.error('Balance discrepancy detection failed:', error);
       return {
         detection_type: 'balance_discrepancies',
-        events_created: eventsCreated,
+        events_created: 0,
+        detection_timestamp: detectionTimestamp,
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Result of the latest ledger reconciliation run, without running a new one.
+   * Its events were already counted by that run.
+   */
+  async getLatestBalanceReconciliation(): Promise<BalanceDiscrepancyDetectionResult> {
+    const detectionTimestamp = new Date().toISOString();
+
+    try {
+      const { data, error } = await supabase
+        .from('card_ledger_reconciliations')
+        .select('id, completed_at, cards_checked, mismatched_cards, negative_balances, total_drift')
+        .not('completed_at', 'is', null)
+        .order('started_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(`Ledger reconciliation lookup failed: ${error.message}`);
+      }
+
+      return {
+        detection_type: 'balance_discrepancies',
+        events_created: 0,
+        detection_timestamp: detectionTimestamp,
+        success: true,
+        balance_mismatches: data?.mismatched_cards || 0,
+        negative_balances: data?.negative_balances || 0,
+        cards_checked: data?.cards_checked || 0,
+        total_drift: Number(data?.total_drift || 0),
+        reconciliation_id: data?.id,
+        reconciled_at: data?.completed_at ?? null
+      };
+
+    } catch (error) {
+      console.error('Ledger reconciliation lookup failed:', error);
+      return {
+        detection_type: 'balance_discrepancies',
+        events_created: 0,
         detection_timestamp: detectionTimestamp,
         success: false,
         error: error instanceof Error ? error.message : String(error)
@@ -305,6 +363,48 @@ export class DetectionService {
     }
   }
 
+  /**
+   * Medium Priority: Detect unresolved cash drawer discrepancies on closed
+   * recharge desk shifts
+   */
+  async detectCashDrawerDiscrepancies(): Promise<CashDrawerDiscrepancyDetectionResult> {
+    const detectionTimestamp = new Date().toISOString();
+    let eventsCreated = 0;
+
+    try {
+      // One event per flagged shift, linked back to the shift by the database function
+      const { data: result, error } = await this.executeSQL(`
+        SELECT detect_cash_drawer_discrepancies() as result
+      `);
+
+      if (error) {
+        throw new Error(`Cash drawer discrepancy detection failed: ${error.message}`);
+      }
+
+      const detectionResult = result?.[0]?.result;
+      if (detectionResult) {
+        eventsCreated = detectionResult.events_created || 0;
+      }
+
+      return {
+        detection_type: 'cash_drawer_discrepancies',
+        events_created: eventsCreated,
+        detection_timestamp: detectionTimestamp,
+        success: true
+      };
+
+    } catch (error) {
+      console.error('Cash drawer discrepancy detection failed:', error);
+      return {
+        detection_type: 'cash_drawer_discrepancies',
+        events_created: eventsCreated,
+        detection_timestamp: detectionTimestamp,
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
   // =====================================================
   // UTILITY METHODS
   // =====================================================
@@ -0,0 +1,341 @@
+/**
+ * Offline Order Queue for the Bar Terminal
+ *
+ * Durable queue that keeps bar orders alive while the festival network is down
+ * and replays them to the process-bar-order Edge Function once connectivity
+ * comes back.
+ *
+ * Features:
+ * - IndexedDB-backed storage that survives page reloads
+ * - Orders keyed by client_request_id so replays stay idempotent server-side
+ * - Automatic replay on the browser "online" event
+ * - Business failures (INSUFFICIENT_FUNDS, CARD_NOT_FOUND,
+ *   CARD_NOT_ACTIVE) kept for staff review
+ * - Orders refused by the per-card rate limit stay pending for the next replay
+ */
+
+import { BarOrderRequest, BarOrderTransactionResult, processBarOrder } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+
+// Lifecycle of a queued order
+export type QueuedOrderStatus =
+  | 'pending'          // Waiting for connectivity
+  | 'syncing'          // Currently being sent to the server
+  | 'needs_attention'; // Rejected by the server, staff must resolve it
+
+export interface QueuedBarOrder {
+  client_request_id: string;
+  order: BarOrderRequest;
+  status: QueuedOrderStatus;
+  attempts: number;
+  queued_at: string;
+  last_attempt_at?: string;
+  error?: string;
+  error_code?: string;
+  previous_balance?: number;
+}
+
+export interface ReplaySummary {
+  attempted: number;
+  synced: number;
+  needsAttention: number;
+  stillPending: number;
+}
+
+type OrderSender = (order: BarOrderRequest) => Promise<BarOrderTransactionResult>;
+type QueueListener = (orders: QueuedBarOrder[]) => void;
+
+// Storage interface for queued orders
+export interface OfflineOrderStore {
+  put(order: QueuedBarOrder): Promise<void>;
+  get(clientRequestId: string): Promise<QueuedBarOrder | undefined>;
+  getAll(): Promise<QueuedBarOrder[]>;
+  delete(clientRequestId: string): Promise<void>;
+}
+
+const DB_NAME = 'chateau-bar-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'queued_orders';
+
+/**
+ * IndexedDB implementation used by the bar terminal
+ */
+export class IndexedDBOrderStore implements OfflineOrderStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'client_request_id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async put(order: QueuedBarOrder): Promise<void> {
+    await this.run('readwrite', store => store.put(order));
+  }
+
+  async get(clientRequestId: string): Promise<QueuedBarOrder | undefined> {
+    return this.run<QueuedBarOrder | undefined>('readonly', store => store.get(clientRequestId));
+  }
+
+  async getAll(): Promise<QueuedBarOrder[]> {
+    return this.run<QueuedBarOrder[]>('readonly', store => store.getAll());
+  }
+
+  async delete(clientRequestId: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(clientRequestId));
+  }
+}
+
+/**
+ * Simple in-memory store, used when IndexedDB is unavailable and in tests
+ */
+export class InMemoryOrderStore implements OfflineOrderStore {
+  private orders: Map<string, QueuedBarOrder> = new Map();
+
+  async put(order: QueuedBarOrder): Promise<void> {
+    this.orders.set(order.client_request_id, { ...order });
+  }
+
+  async get(clientRequestId: string): Promise<QueuedBarOrder | undefined> {
+    const order = this.orders.get(clientRequestId);
+    return order ? { ...order } : undefined;
+  }
+
+  async getAll(): Promise<QueuedBarOrder[]> {
+    return Array.from(this.orders.values()).map(order => ({ ...order }));
+  }
+
+  async delete(clientRequestId: string): Promise<void> {
+    this.orders.delete(clientRequestId);
+  }
+}
+
+/**
+ * Determine whether a process-bar-order result failed because the server
+ * could not be reached (as opposed to a business rejection)
+ */
+export function isNetworkFailure(result: BarOrderTransactionResult): boolean {
+  if (result.success) return false;
+  if (result.error === 'Network or client error') return true;
+
+  // Proxies and gateways answer with 5xx/HTML when the upstream is unreachable
+  const errorCode = result.details?.error_code;
+  return !errorCode && typeof result.error === 'string' &&
+    /timeout|failed to fetch|network|bad gateway|service unavailable|gateway timeout/i.test(result.error);
+}
+
+/**
+ * Durable queue of bar orders awaiting synchronisation
+ */
+export class OfflineOrderQueue {
+  private store: OfflineOrderStore;
+  private sender: OrderSender;
+  private listeners: Set<QueueListener> = new Set();
+  private replayPromise: Promise<ReplaySummary> | null = null;
+  private onlineHandler: (() => void) | null = null;
+
+  constructor(store: OfflineOrderStore, sender: OrderSender = processBarOrder) {
+    this.store = store;
+    this.sender = sender;
+  }
+
+  /**
+   * Record an order that could not be sent. Re-enqueuing the same
+   * client_request_id keeps the existing entry.
+   */
+  async enqueue(order: BarOrderRequest): Promise<QueuedBarOrder> {
+    const existing = await this.store.get(order.client_request_id);
+    if (existing) {
+      return existing;
+    }
+
+    const queued: QueuedBarOrder = {
+      client_request_id: order.client_request_id,
+      order,
+      status: 'pending',
+      attempts: 0,
+      queued_at: new Date().toISOString(),
+    };
+
+    await this.store.put(queued);
+    logger.info('[OfflineQueue] Order queued for later sync', {
+      clientRequestId: order.client_request_id,
+      cardId: order.card_id,
+      total: order.total_amount,
+    });
+    await this.notify();
+    return queued;
+  }
+
+  /**
+   * All orders still held by the queue, oldest first
+   */
+  async getOrders(): Promise<QueuedBarOrder[]> {
+    const orders = await this.store.getAll();
+    return orders.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+  }
+
+  async getPendingCount(): Promise<number> {
+    const orders = await this.store.getAll();
+    return orders.filter(order => order.status === 'pending' || order.status === 'syncing').length;
+  }
+
+  /**
+   * Send every pending order to the server. Concurrent calls share the same
+   * replay so an order is never in flight twice from this terminal.
+   */
+  replay(): Promise<ReplaySummary> {
+    if (!this.replayPromise) {
+      this.replayPromise = this.replayInternal().finally(() => {
+        this.replayPromise = null;
+      });
+    }
+    return this.replayPromise;
+  }
+
+  /**
+   * Staff acknowledged a rejected order (e.g. collected cash instead)
+   */
+  async dismiss(clientRequestId: string): Promise<void> {
+    await this.store.delete(clientRequestId);
+    await this.notify();
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replay automatically whenever the browser regains connectivity
+   */
+  startAutoReplay(): void {
+    if (this.onlineHandler || typeof window === 'undefined') return;
+
+    this.onlineHandler = () => {
+      logger.info('[OfflineQueue] Connectivity restored, replaying queued orders');
+      this.replay().catch(error => logger.error('[OfflineQueue] Replay failed', error));
+    };
+    window.addEventListener('online', this.onlineHandler);
+  }
+
+  stopAutoReplay(): void {
+    if (this.onlineHandler && typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onlineHandler);
+    }
+    this.onlineHandler = null;
+  }
+
+  private async replayInternal(): Promise<ReplaySummary> {
+    const summary: ReplaySummary = { attempted: 0, synced: 0, needsAttention: 0, stillPending: 0 };
+    const orders = (await this.getOrders()).filter(
+      order => order.status === 'pending' || order.status === 'syncing'
+    );
+
+    for (let index = 0; index < orders.length; index++) {
+      const order = orders[index];
+      summary.attempted++;
+
+      order.status = 'syncing';
+      order.attempts++;
+      order.last_attempt_at = new Date().toISOString();
+      await this.store.put(order);
+
+      let result: BarOrderTransactionResult;
+      try {
+        result = await this.sender(order.order);
+      } catch (error) {
+        result = { success: false, error: 'Network or client error', details: { message: error?.message } };
+      }
+
+      if (isNetworkFailure(result)) {
+        // Still offline: put everything left back to pending and stop here
+        order.status = 'pending';
+        order.error = result.error;
+        await this.store.put(order);
+        summary.stillPending = orders.length - index;
+        for (const remaining of orders.slice(index + 1)) {
+          remaining.status = 'pending';
+          await this.store.put(remaining);
+        }
+        break;
+      }
+
+      const errorCode: string | undefined = result.details?.error_code;
+
+      if (errorCode === 'RATE_LIMITED') {
+        // Too many orders for this card in a short time: retried on the next replay
+        order.status = 'pending';
+        order.error = result.error;
+        await this.store.put(order);
+        summary.stillPending++;
+        continue;
+      }
+
+      if (result.success || errorCode === 'DUPLICATE_REQUEST') {
+        // Accepted (or already processed on a previous attempt): nothing left to keep
+        await this.store.delete(order.client_request_id);
+        logger.payment('payment_success', {
+          cardId: order.order.card_id,
+          amount: order.order.total_amount,
+          newBalance: result.new_balance,
+          orderId: result.order_id,
+          clientRequestId: order.client_request_id,
+          replayed: true
+        });
+        summary.synced++;
+        continue;
+      }
+
+      order.status = 'needs_attention';
+      order.error = result.error;
+      order.error_code = errorCode;
+      order.previous_balance = result.previous_balance;
+      await this.store.put(order);
+      summary.needsAttention++;
+    }
+
+    logger.info('[OfflineQueue] Replay completed', summary);
+    await this.notify();
+    return summary;
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const orders = await this.getOrders();
+    this.listeners.forEach(listener => listener(orders));
+  }
+}
+
+// Export singleton instance for the bar terminal
+export const offlineOrderQueue = new OfflineOrderQueue(
+  typeof indexedDB !== 'undefined' ? new IndexedDBOrderStore() : new InMemoryOrderStore()
+);
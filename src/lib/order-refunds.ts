@@ -0,0 +1,197 @@
+/**
+ * Bar Order Refunds
+ *
+ * Voids a bar order or refunds some of its lines through the refund-bar-order
+ * edge function. The card is credited atomically by sp_refund_bar_order and
+ * the reversal is recorded in bar_order_refunds against the original order.
+ *
+ * Admins refund directly; other staff must enter the supervisor PIN.
+ */
+
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+
+export interface RefundableOrderItem {
+  id: number;
+  product_name: string;
+  price: number;
+  quantity: number;
+  refunded_quantity: number;
+  is_deposit: boolean | null;
+  is_return: boolean | null;
+}
+
+export interface RefundableOrder {
+  id: number;
+  card_id: string | null;
+  total_amount: number;
+  refunded_amount: number;
+  status: string | null;
+  point_of_sale: number | null;
+  created_at: string | null;
+  bar_order_items: RefundableOrderItem[];
+}
+
+export interface BarOrderRefundRequest {
+  orderId: number;
+  // Quantities to refund per order item id; omit to void the whole order
+  items?: Record<number, number>;
+  reason: string;
+  clientRequestId: string;
+  supervisorPin?: string;
+}
+
+export interface BarOrderRefundResult {
+  success: boolean;
+  refund_id?: number;
+  refund_type?: 'void' | 'partial';
+  amount?: number;
+  previous_balance?: number;
+  new_balance?: number;
+  duplicate?: boolean;
+  error?: string;
+  error_code?: string;
+  details?: unknown;
+}
+
+const ORDER_SELECT = 'id, card_id, total_amount, refunded_amount, status, point_of_sale, created_at, bar_order_items(id, product_name, price, quantity, refunded_quantity, is_deposit, is_return)';
+
+export const ORDER_STATUS_LABELS: Record<string, string> = {
+  completed: 'Payée',
+  partially_refunded: 'Partiellement remboursée',
+  refunded: 'Remboursée',
+};
+
+export function getRemainingQuantity(item: Pick<RefundableOrderItem, 'quantity' | 'refunded_quantity'>): number {
+  return Math.max(item.quantity - (item.refunded_quantity || 0), 0);
+}
+
+/**
+ * Amount credited back for a selection. Return lines were credited to the card
+ * when the order was paid, so refunding them debits the amount back.
+ */
+export function computeRefundAmount(items: RefundableOrderItem[], selection: Record<number, number>): number {
+  const amount = items.reduce((sum, item) => {
+    const quantity = Math.min(selection[item.id] || 0, getRemainingQuantity(item));
+    return sum + quantity * item.price * (item.is_return ? -1 : 1);
+  }, 0);
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Selection covering every line not refunded yet (full void)
+ */
+export function selectAllRemaining(items: RefundableOrderItem[]): Record<number, number> {
+  return items.reduce<Record<number, number>>((selection, item) => {
+    const remaining = getRemainingQuantity(item);
+    if (remaining > 0) selection[item.id] = remaining;
+    return selection;
+  }, {});
+}
+
+export function isFullySelected(items: RefundableOrderItem[], selection: Record<number, number>): boolean {
+  return items.every(item => (selection[item.id] || 0) === getRemainingQuantity(item));
+}
+
+export function canRefundOrder(order: Pick<RefundableOrder, 'status' | 'bar_order_items'>): boolean {
+  return order.status !== 'refunded' && order.bar_order_items.some(item => getRemainingQuantity(item) > 0);
+}
+
+export async function getBarOrderForRefund(orderId: number): Promise<RefundableOrder | null> {
+  const { data, error } = await supabase
+    .from('bar_orders')
+    .select(ORDER_SELECT)
+    .eq('id', String(orderId))
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching bar order:', error);
+    return null;
+  }
+
+  return data as unknown as RefundableOrder | null;
+}
+
+/**
+ * Admin order search by order number or card id, most recent first
+ */
+export async function searchBarOrders(query: string, limit: number = 20): Promise<RefundableOrder[]> {
+  const term = query.trim().replace(/^#/, '');
+  if (!term) return [];
+
+  let request = supabase
+    .from('bar_orders')
+    .select(ORDER_SELECT)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  request = /^\d+$/.test(term)
+    ? request.or(`id.eq.${term},card_id.eq.${term}`)
+    : request.eq('card_id', term);
+
+  const { data, error } = await request;
+
+  if (error) {
+    console.error('Error searching bar orders:', error);
+    return [];
+  }
+
+  return (data || []) as unknown as RefundableOrder[];
+}
+
+export async function refundBarOrder(request: BarOrderRefundRequest): Promise<BarOrderRefundResult> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour rembourser une commande', error_code: 'UNAUTHORIZED' };
+  }
+
+  const items = request.items
+    ? Object.entries(request.items)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([orderItemId, quantity]) => ({ order_item_id: Number(orderItemId), quantity }))
+    : undefined;
+
+  try {
+    const { data, error } = await supabase.functions.invoke('refund-bar-order', {
+      body: {
+        order_id: request.orderId,
+        reason: request.reason,
+        client_request_id: request.clientRequestId,
+        ...(items && items.length > 0 && { items }),
+        ...(request.supervisorPin && { supervisor_pin: request.supervisorPin }),
+      },
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody<BarOrderRefundResult>(error);
+      return {
+        success: false,
+        error: errorBody?.error || error.message || 'Erreur lors du remboursement',
+        error_code: errorBody?.error_code,
+        details: errorBody?.details,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: data?.error, error_code: data?.error_code, details: data?.details };
+    }
+
+    await auditLogger.logDataAccess({
+      requestId: data.request_id,
+      userId: session.user.id,
+      action: `bar_order_${data.refund_type === 'void' ? 'void' : 'refund'}`,
+      resource: 'bar_orders',
+      resourceId: String(request.orderId),
+      dataType: 'card_data',
+      result: AuditResult.SUCCESS,
+    });
+
+    return data as BarOrderRefundResult;
+  } catch (error) {
+    console.error('Bar order refund failed:', error);
+    return { success: false, error: 'Network or client error', details: error };
+  }
+}
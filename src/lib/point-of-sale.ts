@@ -0,0 +1,171 @@
+/**
+ * Points of Sale
+ *
+ * Named bars (main bar, cocktail bar, food truck...) referenced by
+ * bar_orders.point_of_sale. Each point of sale can restrict the catalogue to
+ * its own menu; a point of sale without menu entries offers every product.
+ *
+ * The terminal's point of sale is chosen after login on the bar page and kept
+ * in localStorage so a reload does not ask again.
+ */
+
+import { supabase, BarProduct } from '@/lib/supabase';
+
+export interface PointOfSale {
+  id: number;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  sort_order: number;
+  product_ids: number[];
+}
+
+export interface PointOfSaleSalesSummary {
+  pointOfSaleId: number;
+  name: string;
+  orderCount: number;
+  itemCount: number;
+  revenue: number;
+  share: number;
+}
+
+// Minimal order shape needed for per point of sale reporting
+interface ReportableOrder {
+  point_of_sale: number | null;
+  total_amount: number | null;
+  refunded_amount?: number | null;
+  bar_order_items?: Array<{ quantity: number; refunded_quantity?: number | null; is_deposit?: boolean | null; is_return?: boolean | null }> | null;
+}
+
+// Orders recorded before points of sale existed default to the main bar
+export const DEFAULT_POINT_OF_SALE_ID = 1;
+
+const SELECTED_POINT_OF_SALE_KEY = 'bar-point-of-sale';
+
+export async function getPointsOfSale(includeInactive: boolean = false): Promise<PointOfSale[]> {
+  let query = supabase
+    .from('points_of_sale')
+    .select('*, point_of_sale_products(product_id)')
+    .order('sort_order', { ascending: true });
+  if (!includeInactive) query = query.eq('is_active', true);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching points of sale:', error);
+    return [];
+  }
+
+  return (data || []).map(({ point_of_sale_products, ...pointOfSale }) => ({
+    ...pointOfSale,
+    product_ids: (point_of_sale_products || []).map(entry => entry.product_id),
+  }));
+}
+
+export function getSelectedPointOfSaleId(): number | null {
+  try {
+    const stored = localStorage.getItem(SELECTED_POINT_OF_SALE_KEY);
+    const id = stored ? parseInt(stored, 10) : NaN;
+    return Number.isInteger(id) && id > 0 ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setSelectedPointOfSaleId(id: number): void {
+  try {
+    localStorage.setItem(SELECTED_POINT_OF_SALE_KEY, String(id));
+  } catch (error) {
+    console.warn('Unable to persist selected point of sale:', error);
+  }
+}
+
+export function clearSelectedPointOfSale(): void {
+  try {
+    localStorage.removeItem(SELECTED_POINT_OF_SALE_KEY);
+  } catch {
+    // Storage unavailable: nothing to clear
+  }
+}
+
+/**
+ * Restrict the catalogue to a point of sale's menu
+ */
+export function filterProductsForPointOfSale<T extends Pick<BarProduct, 'id'>>(
+  products: T[],
+  pointOfSale: Pick<PointOfSale, 'product_ids'> | null | undefined
+): T[] {
+  if (!pointOfSale || pointOfSale.product_ids.length === 0) {
+    return products;
+  }
+  const menu = new Set(pointOfSale.product_ids);
+  return products.filter(product => menu.has(product.id));
+}
+
+/**
+ * Keep only the orders taken at one point of sale ('all' keeps every order)
+ */
+export function filterOrdersByPointOfSale<T extends Pick<ReportableOrder, 'point_of_sale'>>(
+  orders: T[],
+  pointOfSaleId: number | 'all'
+): T[] {
+  if (pointOfSaleId === 'all') return orders;
+  return orders.filter(order => (order.point_of_sale ?? DEFAULT_POINT_OF_SALE_ID) === pointOfSaleId);
+}
+
+/**
+ * Revenue and volumes per point of sale, net of refunds, sorted by revenue.
+ * Deposit and return lines are not counted as items sold.
+ */
+export function summarizeSalesByPointOfSale(
+  orders: ReportableOrder[],
+  pointsOfSale: Pick<PointOfSale, 'id' | 'name'>[]
+): PointOfSaleSalesSummary[] {
+  const names = new Map(pointsOfSale.map(pointOfSale => [pointOfSale.id, pointOfSale.name]));
+  const summaries = new Map<number, PointOfSaleSalesSummary>();
+
+  orders.forEach(order => {
+    const id = order.point_of_sale ?? DEFAULT_POINT_OF_SALE_ID;
+    if (!summaries.has(id)) {
+      summaries.set(id, {
+        pointOfSaleId: id,
+        name: names.get(id) || `Point de vente ${id}`,
+        orderCount: 0,
+        itemCount: 0,
+        revenue: 0,
+        share: 0,
+      });
+    }
+
+    const summary = summaries.get(id)!;
+    summary.orderCount += 1;
+    summary.revenue += (order.total_amount || 0) - (order.refunded_amount || 0);
+    summary.itemCount += (order.bar_order_items || [])
+      .filter(item => !item.is_deposit && !item.is_return)
+      .reduce((sum, item) => sum + item.quantity - (item.refunded_quantity || 0), 0);
+  });
+
+  const totalRevenue = Array.from(summaries.values()).reduce((sum, summary) => sum + summary.revenue, 0);
+
+  return Array.from(summaries.values())
+    .map(summary => ({
+      ...summary,
+      share: totalRevenue > 0 ? (summary.revenue / totalRevenue) * 100 : 0,
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+}
+
+/**
+ * Notify when points of sale or their menus change so terminals can reload them.
+ * Returns a function to unsubscribe.
+ */
+export function subscribeToPointOfSaleChanges(onChange: () => void): () => void {
+  const channel = supabase
+    .channel('point-of-sale-changes')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'point_of_sale_products' }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * Recharge Packages and Promo Codes
+ *
+ * Client for the manage-recharge-offers Edge Function. Guests and recharge
+ * desks list the packages of the live edition and preview the bonus of a
+ * package / promo code; admins manage both offers.
+ *
+ * Bonuses are always computed server-side (quote_recharge_bonus) and credited
+ * apart from the paid amount, so refunds only return money actually paid.
+ */
+
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+
+export type PromoBonusType = 'fixed' | 'percent';
+
+export const MAX_RECHARGE_AMOUNT = 1000;
+export const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+export interface RechargePackage {
+  id: number;
+  edition_id: string | null;
+  label: string;
+  amount: number;
+  bonus_amount: number;
+  sort_order: number;
+  is_active?: boolean;
+}
+
+export interface PromoCode {
+  code: string;
+  description: string | null;
+  edition_id: string | null;
+  bonus_type: PromoBonusType;
+  bonus_value: number;
+  max_bonus: number | null;
+  min_amount: number;
+  max_uses: number | null;
+  max_uses_per_card: number | null;
+  uses_count: number;
+  valid_from: string | null;
+  valid_until: string | null;
+  is_active: boolean;
+}
+
+export interface RechargePackageInput {
+  id?: number;
+  edition_id?: string | null;
+  label: string;
+  amount: number;
+  bonus_amount?: number;
+  sort_order?: number;
+  is_active?: boolean;
+}
+
+export interface PromoCodeInput {
+  code: string;
+  bonus_type: PromoBonusType;
+  bonus_value: number;
+  description?: string | null;
+  edition_id?: string | null;
+  max_bonus?: number | null;
+  min_amount?: number;
+  max_uses?: number | null;
+  max_uses_per_card?: number | null;
+  valid_from?: string | null;
+  valid_until?: string | null;
+  is_active?: boolean;
+}
+
+export interface RechargeQuote {
+  amount: number;
+  package_id: number | null;
+  package_bonus: number;
+  promo_code: string | null;
+  promo_bonus: number;
+  bonus_amount: number;
+  total_credit: number;
+}
+
+export interface RechargeOfferSelection {
+  packageId?: number | null;
+  promoCode?: string | null;
+}
+
+export interface RechargeOffersResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  error_code?: string;
+  details?: unknown;
+  request_id?: string;
+}
+
+const OFFER_ERROR_MESSAGES: Record<string, string> = {
+  PACKAGE_NOT_FOUND: "Cette formule n'est plus disponible",
+  PACKAGE_AMOUNT_MISMATCH: 'Le montant ne correspond pas à la formule choisie',
+  PROMO_NOT_FOUND: 'Code promo inconnu',
+  PROMO_NOT_YET_VALID: "Ce code promo n'est pas encore valable",
+  PROMO_EXPIRED: 'Ce code promo a expiré',
+  PROMO_EXHAUSTED: 'Ce code promo a déjà été utilisé le nombre maximum de fois',
+  PROMO_MIN_AMOUNT: 'Montant insuffisant pour ce code promo',
+  INVALID_AMOUNT: 'Montant de recharge invalide',
+};
+
+/**
+ * French message for a package / promo code error code, falling back to the
+ * server message for other errors
+ */
+export function describeRechargeOfferError(errorCode: string | undefined, fallback?: string): string {
+  return (errorCode && OFFER_ERROR_MESSAGES[errorCode]) || fallback || 'Erreur lors du calcul du bonus';
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Short label of a promo code bonus, e.g. "+10%" or "+5.00€"
+ */
+export function formatPromoBonus(promo: Pick<PromoCode, 'bonus_type' | 'bonus_value' | 'max_bonus'>): string {
+  if (promo.bonus_type === 'percent') {
+    return `+${promo.bonus_value}%${promo.max_bonus ? ` (max ${Number(promo.max_bonus).toFixed(2)}€)` : ''}`;
+  }
+  return `+${Number(promo.bonus_value).toFixed(2)}€`;
+}
+
+/**
+ * Validate package fields before sending them to the server.
+ * Mirrors the checks done in the manage-recharge-offers Edge Function.
+ */
+export function validateRechargePackageInput(input: RechargePackageInput): string[] {
+  const errors: string[] = [];
+
+  const label = input.label?.trim() ?? '';
+  if (label.length === 0 || label.length > 60) {
+    errors.push('Le libellé est requis (60 caractères maximum)');
+  }
+  if (typeof input.amount !== 'number' || !Number.isFinite(input.amount) || input.amount <= 0 || input.amount > MAX_RECHARGE_AMOUNT) {
+    errors.push(`Le montant doit être compris entre 0 et ${MAX_RECHARGE_AMOUNT}€`);
+  }
+  if (input.bonus_amount !== undefined && (!Number.isFinite(input.bonus_amount) || input.bonus_amount < 0)) {
+    errors.push('Le bonus ne peut pas être négatif');
+  }
+
+  return errors;
+}
+
+export function validatePromoCodeInput(input: PromoCodeInput): string[] {
+  const errors: string[] = [];
+
+  if (!PROMO_CODE_PATTERN.test(normalizePromoCode(input.code ?? ''))) {
+    errors.push('Le code doit contenir 3 à 32 lettres, chiffres, "-" ou "_"');
+  }
+  if (input.bonus_type !== 'fixed' && input.bonus_type !== 'percent') {
+    errors.push('Type de bonus inconnu');
+  }
+  const maxValue = input.bonus_type === 'percent' ? 100 : MAX_RECHARGE_AMOUNT;
+  if (typeof input.bonus_value !== 'number' || !Number.isFinite(input.bonus_value) || input.bonus_value <= 0 || input.bonus_value > maxValue) {
+    errors.push(input.bonus_type === 'percent' ? 'Le pourcentage doit être compris entre 0 et 100' : 'Le bonus doit être positif');
+  }
+  for (const field of ['max_uses', 'max_uses_per_card'] as const) {
+    const value = input[field];
+    if (value !== undefined && value !== null && (!Number.isInteger(value) || value <= 0)) {
+      errors.push("Les limites d'utilisation doivent être des entiers positifs");
+      break;
+    }
+  }
+  if (input.valid_from && input.valid_until && Date.parse(input.valid_until) <= Date.parse(input.valid_from)) {
+    errors.push('La fin de validité doit être postérieure au début');
+  }
+
+  return errors;
+}
+
+async function invokeOffers<T>(
+  action: string,
+  payload: Record<string, unknown>,
+  resultKey: string | null,
+  accessToken?: string
+): Promise<RechargeOffersResult<T>> {
+  try {
+    const { data, error } = await supabase.functions.invoke('manage-recharge-offers', {
+      body: { action, ...payload },
+      ...(accessToken ? { headers: { 'Authorization': `Bearer ${accessToken}` } } : {}),
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody<RechargeOffersResult>(error);
+      return {
+        success: false,
+        error: describeRechargeOfferError(errorBody?.error_code, errorBody?.error || error.message),
+        error_code: errorBody?.error_code,
+        details: errorBody?.details,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: describeRechargeOfferError(data?.error_code, data?.error), error_code: data?.error_code, details: data?.details };
+    }
+
+    return { success: true, data: resultKey ? data[resultKey] : data, request_id: data.request_id };
+  } catch (error) {
+    console.error(`Recharge offers action ${action} failed:`, error);
+    return { success: false, error: 'Network or client error', details: error };
+  }
+}
+
+/**
+ * Active packages of the live edition, for the payment page and desks
+ */
+export function listRechargePackages() {
+  return invokeOffers<RechargePackage[]>('packages', {}, 'packages');
+}
+
+/**
+ * Bonus the server would credit for this amount, package and promo code
+ */
+export function quoteRecharge(amount: number, selection: RechargeOfferSelection, cardId?: string) {
+  return invokeOffers<RechargeQuote>('quote', {
+    amount,
+    package_id: selection.packageId ?? undefined,
+    promo_code: selection.promoCode ? normalizePromoCode(selection.promoCode) : undefined,
+    card_id: cardId,
+  }, 'quote');
+}
+
+async function invokeAdminOffers<T>(
+  action: string,
+  payload: Record<string, unknown>,
+  resultKey: string | null,
+  resourceId?: string
+): Promise<RechargeOffersResult<T>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour gérer les offres de recharge', error_code: 'UNAUTHORIZED' };
+  }
+
+  const result = await invokeOffers<T>(action, payload, resultKey, session.access_token);
+  if (result.success && action !== 'list') {
+    await auditLogger.logDataAccess({
+      requestId: result.request_id ?? '',
+      userId: session.user.id,
+      action: `recharge_offers_${action}`,
+      resource: action === 'save_promo' ? 'promo_codes' : 'recharge_packages',
+      resourceId,
+      dataType: 'configuration_data',
+      result: AuditResult.SUCCESS,
+    });
+  }
+  return result;
+}
+
+export async function listRechargeOffers(): Promise<RechargeOffersResult<{ packages: RechargePackage[]; promoCodes: PromoCode[] }>> {
+  const result = await invokeAdminOffers<{ packages?: RechargePackage[]; promo_codes?: PromoCode[] }>('list', {}, null);
+  if (!result.success) {
+    return { success: false, error: result.error, error_code: result.error_code, details: result.details };
+  }
+  return { success: true, data: { packages: result.data?.packages ?? [], promoCodes: result.data?.promo_codes ?? [] } };
+}
+
+export function saveRechargePackage(input: RechargePackageInput) {
+  const errors = validateRechargePackageInput(input);
+  if (errors.length > 0) {
+    return Promise.resolve<RechargeOffersResult<RechargePackage>>({ success: false, error: errors[0], error_code: 'VALIDATION_ERROR', details: errors });
+  }
+  return invokeAdminOffers<RechargePackage>('save_package', { package: input }, 'package', input.id !== undefined ? String(input.id) : undefined);
+}
+
+export function savePromoCode(input: PromoCodeInput) {
+  const errors = validatePromoCodeInput(input);
+  if (errors.length > 0) {
+    return Promise.resolve<RechargeOffersResult<PromoCode>>({ success: false, error: errors[0], error_code: 'VALIDATION_ERROR', details: errors });
+  }
+  const promo = { ...input, code: normalizePromoCode(input.code) };
+  return invokeAdminOffers<PromoCode>('save_promo', { promo }, 'promo', promo.code);
+}
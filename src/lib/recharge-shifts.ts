@@ -0,0 +1,251 @@
+/**
+ * Recharge Desk Shifts
+ *
+ * Cash drawer reconciliation for the recharge desk through the
+ * manage-recharge-shifts edge function. An operator opens a shift with the
+ * float in the drawer; every recharge they process is attached to it. At close
+ * the counted cash is compared with the float plus the cash recharges, and any
+ * difference flags the shift until an admin resolves it. Flagged shifts raise
+ * a monitoring event through DetectionService.
+ */
+
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+
+export type ShiftStatus = 'open' | 'closed';
+
+export type DiscrepancyStatus = 'none' | 'flagged' | 'resolved';
+
+export interface RechargeShift {
+  id: number;
+  operator_id: string;
+  edition_id: string | null;
+  desk_label: string | null;
+  status: ShiftStatus;
+  opened_at: string;
+  opening_float: number;
+  closed_at: string | null;
+  closed_by: string | null;
+  counted_cash: number | null;
+  expected_cash: number | null;
+  cash_total: number | null;
+  card_total: number | null;
+  cash_count: number | null;
+  card_count: number | null;
+  discrepancy: number | null;
+  discrepancy_status: DiscrepancyStatus;
+  closing_notes: string | null;
+  resolution_notes: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  monitoring_event_id: number | null;
+}
+
+export interface ShiftTotals {
+  cash_total: number;
+  card_total: number;
+  cash_count: number;
+  card_count: number;
+}
+
+export interface CurrentShift {
+  shift: RechargeShift | null;
+  totals?: ShiftTotals;
+}
+
+export interface ShiftResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  error_code?: string;
+}
+
+export const DISCREPANCY_STATUS_LABELS: Record<DiscrepancyStatus, string> = {
+  none: 'Caisse juste',
+  flagged: 'Écart à justifier',
+  resolved: 'Écart justifié',
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  SHIFT_ALREADY_OPEN: 'Vous avez déjà une caisse ouverte',
+  SHIFT_ALREADY_CLOSED: 'Cette caisse est déjà clôturée',
+  SHIFT_NOT_FOUND: 'Caisse non trouvée',
+  NO_DISCREPANCY: 'Cette caisse n\'a pas d\'écart à justifier',
+  FORBIDDEN: 'Vous n\'êtes pas autorisé à effectuer cette opération',
+};
+
+async function invokeShifts<T>(body: Record<string, unknown>): Promise<ShiftResult<T> & { userId?: string; requestId?: string }> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour gérer la caisse', error_code: 'UNAUTHORIZED' };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('manage-recharge-shifts', {
+      body,
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody(error);
+      return {
+        success: false,
+        error: ERROR_MESSAGES[errorBody?.error_code ?? ''] || errorBody?.error || error.message || 'Erreur lors de la gestion de la caisse',
+        error_code: errorBody?.error_code,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: ERROR_MESSAGES[data?.error_code] || data?.error, error_code: data?.error_code };
+    }
+
+    return { success: true, data: data as T, userId: session.user.id, requestId: data.request_id };
+  } catch (error) {
+    console.error(`Shift ${body.action} failed:`, error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
+
+async function auditShift(action: string, shiftId: number, userId?: string, requestId?: string): Promise<void> {
+  await auditLogger.logDataAccess({
+    requestId,
+    userId,
+    action,
+    resource: 'recharge_shifts',
+    resourceId: String(shiftId),
+    dataType: 'card_data',
+    result: AuditResult.SUCCESS,
+  });
+}
+
+export async function getCurrentShift(): Promise<ShiftResult<CurrentShift>> {
+  const result = await invokeShifts<CurrentShift>({ action: 'current' });
+
+  if (!result.success) {
+    return { success: false, error: result.error, error_code: result.error_code };
+  }
+  return { success: true, data: { shift: result.data!.shift, totals: result.data!.totals } };
+}
+
+export async function openShift(openingFloat: number, deskLabel?: string): Promise<ShiftResult<RechargeShift>> {
+  const result = await invokeShifts<{ shift: RechargeShift }>({
+    action: 'open',
+    opening_float: openingFloat,
+    ...(deskLabel?.trim() && { desk_label: deskLabel.trim() }),
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error, error_code: result.error_code };
+  }
+
+  await auditShift('recharge_shift_open', result.data!.shift.id, result.userId, result.requestId);
+  return { success: true, data: result.data!.shift };
+}
+
+export async function closeShift(shiftId: number, countedCash: number, notes?: string): Promise<ShiftResult<RechargeShift>> {
+  const result = await invokeShifts<{ shift: RechargeShift }>({
+    action: 'close',
+    shift_id: shiftId,
+    counted_cash: countedCash,
+    ...(notes?.trim() && { notes: notes.trim() }),
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error, error_code: result.error_code };
+  }
+
+  await auditShift('recharge_shift_close', shiftId, result.userId, result.requestId);
+  return { success: true, data: result.data!.shift };
+}
+
+export async function resolveShiftDiscrepancy(shiftId: number, notes: string): Promise<ShiftResult<RechargeShift>> {
+  const result = await invokeShifts<{ shift: RechargeShift }>({
+    action: 'resolve',
+    shift_id: shiftId,
+    notes: notes.trim(),
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error, error_code: result.error_code };
+  }
+
+  await auditShift('recharge_shift_resolve', shiftId, result.userId, result.requestId);
+  return { success: true, data: result.data!.shift };
+}
+
+/**
+ * Shifts of the last days, newest first, for the admin report
+ */
+export async function listShifts(sinceDays: number = 7): Promise<ShiftResult<RechargeShift[]>> {
+  const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('recharge_shifts')
+    .select('*')
+    .gte('opened_at', since)
+    .order('opened_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading recharge shifts:', error);
+    return { success: false, error: 'Impossible de charger les caisses' };
+  }
+  return { success: true, data: (data || []) as RechargeShift[] };
+}
+
+const formatAmount = (amount: number | null) => (amount ?? 0).toFixed(2);
+
+const formatDate = (isoDate: string | null) =>
+  isoDate ? new Date(isoDate).toLocaleString('fr-BE', { timeZone: 'Europe/Brussels' }) : '';
+
+function escapeCsv(value: string): string {
+  return /[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Semicolon-separated report of closed shifts, one row per shift. Operators
+ * are shown by name when known, otherwise by id.
+ */
+export function buildShiftReportCsv(shifts: RechargeShift[], operatorNames: Record<string, string> = {}): string {
+  const rows = [
+    [
+      'Caisse', 'Opérateur', 'Poste', 'Ouverture', 'Clôture', 'Fond de caisse (€)',
+      'Espèces (€)', 'Nb espèces', 'Carte (€)', 'Nb carte', 'Attendu (€)', 'Compté (€)',
+      'Écart (€)', 'Statut', 'Notes de clôture', 'Justification',
+    ],
+    ...shifts.filter(shift => shift.status === 'closed').map(shift => [
+      String(shift.id),
+      operatorNames[shift.operator_id] || shift.operator_id,
+      shift.desk_label || '',
+      formatDate(shift.opened_at),
+      formatDate(shift.closed_at),
+      formatAmount(shift.opening_float),
+      formatAmount(shift.cash_total),
+      String(shift.cash_count ?? 0),
+      formatAmount(shift.card_total),
+      String(shift.card_count ?? 0),
+      formatAmount(shift.expected_cash),
+      formatAmount(shift.counted_cash),
+      formatAmount(shift.discrepancy),
+      DISCREPANCY_STATUS_LABELS[shift.discrepancy_status],
+      shift.closing_notes || '',
+      shift.resolution_notes || '',
+    ]),
+  ];
+
+  return rows.map(row => row.map(escapeCsv).join(';')).join('\n');
+}
+
+export function downloadShiftReportCsv(shifts: RechargeShift[], operatorNames: Record<string, string> = {}): void {
+  // BOM so spreadsheet software detects UTF-8 accents
+  const blob = new Blob(['\uFEFF' + buildShiftReportCsv(shifts, operatorNames)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `caisses-recharge-${new Date().toISOString().split('T')[0]}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
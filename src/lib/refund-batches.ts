@@ -0,0 +1,187 @@
+/**
+ * SEPA Refund Batches
+ *
+ * Every pain.001 file generated by process-refunds is kept in refund_batches
+ * and can be downloaded again byte for byte. Bank statements (camt.053 /
+ * camt.054) are imported through the import-bank-statement edge function,
+ * which settles the exported refunds as paid or returned by EndToEndId.
+ */
+
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+
+export interface RefundBatchSummary {
+  id: number;
+  message_id: string;
+  filename: string;
+  transaction_count: number;
+  total_amount: number;
+  created_at: string;
+  paid_count: number;
+  returned_count: number;
+  // Exported refunds not yet seen on a bank statement
+  pending_count: number;
+}
+
+export type StatementEntryResult = 'paid' | 'returned' | 'unmatched' | 'amount_mismatch' | 'already_applied' | 'invalid_status';
+
+export interface StatementImportSummary {
+  statement_id: string;
+  statement_type: 'camt.053' | 'camt.054';
+  entry_count: number;
+  paid_count: number;
+  returned_count: number;
+  unmatched_count: number;
+  ignored_transactions: number;
+  skipped_entries: number;
+  results: {
+    end_to_end_id: string;
+    refund_id: number | null;
+    amount: number;
+    outcome: 'paid' | 'returned';
+    result: StatementEntryResult;
+  }[];
+}
+
+export interface RefundBatchResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  error_code?: string;
+}
+
+export const MAX_STATEMENT_FILE_SIZE = 5 * 1024 * 1024;
+
+const ERROR_MESSAGES: Record<string, string> = {
+  INVALID_STATEMENT: 'Ce fichier n\'est pas un relevé camt.053 ou camt.054 valide',
+  ALREADY_IMPORTED: 'Ce relevé a déjà été importé',
+  FORBIDDEN: 'Vous n\'êtes pas autorisé à importer des relevés bancaires',
+};
+
+export async function listRefundBatches(limit = 20): Promise<RefundBatchResult<RefundBatchSummary[]>> {
+  const { data, error } = await supabase
+    .from('refund_batches')
+    .select('id, message_id, filename, transaction_count, total_amount, created_at, refunds(status)')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error loading refund batches:', error);
+    return { success: false, error: 'Impossible de charger l\'historique des fichiers SEPA' };
+  }
+
+  return {
+    success: true,
+    data: (data || []).map(batch => {
+      const statuses = (batch.refunds || []).map(refund => refund.status);
+      return {
+        id: batch.id,
+        message_id: batch.message_id,
+        filename: batch.filename,
+        transaction_count: batch.transaction_count,
+        total_amount: Number(batch.total_amount),
+        created_at: batch.created_at,
+        paid_count: statuses.filter(status => status === 'paid').length,
+        returned_count: statuses.filter(status => status === 'returned').length,
+        pending_count: statuses.filter(status => status === 'exported').length,
+      };
+    }),
+  };
+}
+
+/**
+ * Fetch the exact XML of a generated batch for a new download
+ */
+export async function getRefundBatchFile(batchId: number): Promise<RefundBatchResult<{ filename: string; content: string }>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour télécharger un fichier SEPA', error_code: 'UNAUTHORIZED' };
+  }
+
+  const { data, error } = await supabase
+    .from('refund_batches')
+    .select('filename, xml_content')
+    .eq('id', batchId)
+    .single();
+
+  if (error || !data) {
+    console.error('Error loading refund batch file:', error);
+    return { success: false, error: 'Fichier SEPA introuvable' };
+  }
+
+  await auditLogger.logDataAccess({
+    requestId: crypto.randomUUID(),
+    userId: session.user.id,
+    action: 'refund_batch_download',
+    resource: 'refund_batches',
+    resourceId: String(batchId),
+    dataType: 'refund_data',
+    result: AuditResult.SUCCESS,
+  });
+
+  return { success: true, data: { filename: data.filename, content: data.xml_content } };
+}
+
+export async function importBankStatement(fileName: string, content: string): Promise<RefundBatchResult<StatementImportSummary>> {
+  if (!content.trim()) {
+    return { success: false, error: 'Le fichier est vide', error_code: 'INVALID_REQUEST' };
+  }
+  if (content.length > MAX_STATEMENT_FILE_SIZE) {
+    return { success: false, error: 'Le fichier dépasse 5 Mo', error_code: 'INVALID_REQUEST' };
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour importer un relevé', error_code: 'UNAUTHORIZED' };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('import-bank-statement', {
+      body: { file_name: fileName, content },
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody(error);
+      return {
+        success: false,
+        error: ERROR_MESSAGES[errorBody?.error_code ?? ''] || errorBody?.error || error.message,
+        error_code: errorBody?.error_code,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: ERROR_MESSAGES[data?.error_code] || data?.error, error_code: data?.error_code };
+    }
+
+    await auditLogger.logDataAccess({
+      requestId: data.request_id,
+      userId: session.user.id,
+      action: 'bank_statement_import',
+      resource: 'bank_statement_imports',
+      resourceId: String(data.import_id),
+      dataType: 'refund_data',
+      result: AuditResult.SUCCESS,
+    });
+
+    return {
+      success: true,
+      data: {
+        statement_id: data.statement_id,
+        statement_type: data.statement_type,
+        entry_count: data.entry_count,
+        paid_count: data.paid_count,
+        returned_count: data.returned_count,
+        unmatched_count: data.unmatched_count,
+        ignored_transactions: data.ignored_transactions,
+        skipped_entries: data.skipped_entries,
+        results: data.results || [],
+      },
+    };
+  } catch (error) {
+    console.error('Bank statement import failed:', error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
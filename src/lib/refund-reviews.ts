@@ -0,0 +1,216 @@
+/**
+ * Refund Request Review
+ *
+ * Refund requests go submitted → validated / rejected → exported → paid,
+ * or returned when the bank sends the transfer back.
+ * The admin review queue lists the requests awaiting review or export with
+ * the validation notes computed by generate-refund-data (refundable amount,
+ * excluded bonus, card fee...) and approves or rejects them through the
+ * review-refund edge function. Only validated requests are included in a
+ * SEPA batch by process-refunds.
+ */
+
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+
+export type RefundStatus = 'submitted' | 'validated' | 'rejected' | 'exported' | 'paid' | 'returned';
+
+export type RefundDecision = 'approve' | 'reject';
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  submitted: 'À valider',
+  validated: 'Validé',
+  rejected: 'Refusé',
+  exported: 'Exporté (SEPA)',
+  paid: 'Payé',
+  returned: 'Retourné par la banque',
+};
+
+export const MAX_REVIEW_REASON_LENGTH = 500;
+
+export interface RefundReviewEntry {
+  id: number;
+  tracking_ref: string;
+  status: RefundStatus;
+  created_at: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  account: string;
+  id_card: string;
+  // Amount that would be paid out, null when the request cannot be paid
+  amount: number | null;
+  validation_status: 'valid' | 'warning' | 'error';
+  validation_notes: string[];
+}
+
+export interface RefundReviewResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  error_code?: string;
+}
+
+// Shapes returned by generate-refund-data
+interface ValidRefundPayload {
+  id: number;
+  tracking_ref: string;
+  status: RefundStatus;
+  created_at: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  account: string;
+  id_card: string;
+  amount_recharged: number;
+  validation_status: 'valid' | 'warning' | 'error';
+  validation_notes: string[];
+}
+
+interface ValidationErrorPayload {
+  refund_id: number;
+  error_message: string;
+  refund_data: {
+    created_at?: string;
+    'first name'?: string;
+    'last name'?: string;
+    email?: string;
+    account?: string;
+    id_card?: string;
+    status?: RefundStatus;
+    tracking_ref?: string;
+  };
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  REFUND_NOT_FOUND: 'Demande de remboursement introuvable',
+  ALREADY_EXPORTED: 'Ce remboursement fait déjà partie d\'un fichier SEPA',
+  ALREADY_REVIEWED: 'Ce remboursement a déjà ce statut',
+  FORBIDDEN: 'Vous n\'êtes pas autorisé à valider les remboursements',
+};
+
+/**
+ * Merge the payable requests and the ones generate-refund-data rejected into
+ * one queue, oldest first
+ */
+export function buildReviewQueue(validRefunds: ValidRefundPayload[], validationErrors: ValidationErrorPayload[]): RefundReviewEntry[] {
+  const entries: RefundReviewEntry[] = validRefunds.map(refund => ({
+    id: refund.id,
+    tracking_ref: refund.tracking_ref,
+    status: refund.status,
+    created_at: refund.created_at,
+    first_name: refund.first_name,
+    last_name: refund.last_name,
+    email: refund.email,
+    account: refund.account,
+    id_card: refund.id_card,
+    amount: refund.amount_recharged,
+    validation_status: refund.validation_status,
+    validation_notes: refund.validation_notes || [],
+  }));
+
+  validationErrors.forEach(error => {
+    entries.push({
+      id: error.refund_id,
+      tracking_ref: error.refund_data.tracking_ref || '',
+      status: error.refund_data.status || 'submitted',
+      created_at: error.refund_data.created_at || '',
+      first_name: error.refund_data['first name'] || '',
+      last_name: error.refund_data['last name'] || '',
+      email: error.refund_data.email || '',
+      account: error.refund_data.account || '',
+      id_card: error.refund_data.id_card || '',
+      amount: null,
+      validation_status: 'error',
+      validation_notes: [error.error_message],
+    });
+  });
+
+  return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export async function getRefundReviewQueue(): Promise<RefundReviewResult<RefundReviewEntry[]>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour consulter les remboursements', error_code: 'UNAUTHORIZED' };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('generate-refund-data', {
+      body: {},
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody(error);
+      return { success: false, error: errorBody?.error || error.message, error_code: errorBody?.error_code };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: data?.error, error_code: data?.error_code };
+    }
+
+    return {
+      success: true,
+      data: buildReviewQueue(data.data?.valid_refunds || [], data.data?.validation_errors || []),
+    };
+  } catch (error) {
+    console.error('Refund review queue failed:', error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
+
+export async function reviewRefund(refundId: number, decision: RefundDecision, reason?: string): Promise<RefundReviewResult<{ status: RefundStatus }>> {
+  const trimmedReason = reason?.trim() ?? '';
+  if (decision === 'reject' && !trimmedReason) {
+    return { success: false, error: 'Un motif est obligatoire pour refuser un remboursement', error_code: 'INVALID_REQUEST' };
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour valider les remboursements', error_code: 'UNAUTHORIZED' };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('review-refund', {
+      body: {
+        refund_id: refundId,
+        decision,
+        ...(trimmedReason && { reason: trimmedReason }),
+      },
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody(error);
+      return {
+        success: false,
+        error: ERROR_MESSAGES[errorBody?.error_code ?? ''] || errorBody?.error || error.message,
+        error_code: errorBody?.error_code,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: ERROR_MESSAGES[data?.error_code] || data?.error, error_code: data?.error_code };
+    }
+
+    await auditLogger.logDataAccess({
+      requestId: data.request_id,
+      userId: session.user.id,
+      action: `refund_${decision}`,
+      resource: 'refunds',
+      resourceId: String(refundId),
+      dataType: 'refund_data',
+      result: AuditResult.SUCCESS,
+    });
+
+    return { success: true, data: { status: data.status } };
+  } catch (error) {
+    console.error(`Refund review ${decision} failed:`, error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
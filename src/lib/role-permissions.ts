@@ -0,0 +1,155 @@
+/**
+ * Role Permissions
+ *
+ * Access is granted by permissions, never by role names: a user's role
+ * (profiles.role) grants the permissions mapped to it in role_permissions.
+ * ProtectedRoute, useAuth().hasAccess and the edge functions all check the
+ * same permission names (SecurityConfig.auth.permissions).
+ *
+ * Staff read the grants directly; admins holding manage_users change them
+ * through the manage-role-permissions edge function.
+ */
+
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+import { SecurityConfig, PermissionName } from '@/config/security';
+
+export const PERMISSIONS = SecurityConfig.auth.permissions;
+export const ROLES = SecurityConfig.auth.roles;
+
+export interface RoleRecord {
+  name: string;
+  description: string;
+}
+
+export interface PermissionRecord {
+  name: string;
+  description: string;
+}
+
+export interface RolePermissionMatrix {
+  roles: RoleRecord[];
+  permissions: PermissionRecord[];
+  // Permissions granted to each role, sorted by name
+  grants: Record<string, string[]>;
+}
+
+export interface RolePermissionsResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  error_code?: string;
+}
+
+// Display order of the roles in the matrix, unknown roles come last
+const ROLE_ORDER: string[] = Object.values(ROLES);
+
+const ERROR_MESSAGES: Record<string, string> = {
+  ROLE_NOT_FOUND: 'Rôle introuvable',
+  UNKNOWN_PERMISSION: 'Permission inconnue',
+  VALIDATION_ERROR: 'Le rôle administrateur doit conserver la gestion des utilisateurs',
+  FORBIDDEN: 'Vous n\'êtes pas autorisé à modifier les permissions',
+};
+
+/**
+ * Whether the granted permissions include at least one of the required ones.
+ * An empty requirement only asks for a signed-in user.
+ */
+export function hasAnyPermission(granted: readonly string[], required: readonly PermissionName[]): boolean {
+  return required.length === 0 || required.some(permission => granted.includes(permission));
+}
+
+export function buildPermissionMatrix(
+  roles: RoleRecord[],
+  permissions: PermissionRecord[],
+  rolePermissions: { role: string; permission: string }[]
+): RolePermissionMatrix {
+  const rank = (name: string) => {
+    const index = ROLE_ORDER.indexOf(name);
+    return index === -1 ? ROLE_ORDER.length : index;
+  };
+
+  const grants: Record<string, string[]> = {};
+  roles.forEach(role => { grants[role.name] = []; });
+  rolePermissions.forEach(({ role, permission }) => {
+    if (grants[role]) grants[role].push(permission);
+  });
+  Object.values(grants).forEach(list => list.sort());
+
+  return {
+    roles: [...roles].sort((a, b) => rank(a.name) - rank(b.name) || a.name.localeCompare(b.name)),
+    permissions: [...permissions].sort((a, b) => a.name.localeCompare(b.name)),
+    grants,
+  };
+}
+
+export async function getRolePermissionMatrix(): Promise<RolePermissionsResult<RolePermissionMatrix>> {
+  try {
+    const [rolesResult, permissionsResult, grantsResult] = await Promise.all([
+      supabase.from('roles').select('name, description'),
+      supabase.from('permissions').select('name, description'),
+      supabase.from('role_permissions').select('role, permission'),
+    ]);
+
+    const error = rolesResult.error || permissionsResult.error || grantsResult.error;
+    if (error) {
+      console.error('Error loading role permissions:', error);
+      return { success: false, error: 'Impossible de charger les permissions', error_code: 'DATABASE_ERROR' };
+    }
+
+    return {
+      success: true,
+      data: buildPermissionMatrix(rolesResult.data || [], permissionsResult.data || [], grantsResult.data || []),
+    };
+  } catch (error) {
+    console.error('Error loading role permissions:', error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
+
+/**
+ * Replace the permissions of a role
+ */
+export async function setRolePermissions(role: string, permissions: string[]): Promise<RolePermissionsResult<{ permissions: string[] }>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: 'Vous devez être connecté pour modifier les permissions', error_code: 'UNAUTHORIZED' };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('manage-role-permissions', {
+      body: { role, permissions },
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error) {
+      const errorBody = await readErrorBody(error);
+      return {
+        success: false,
+        error: ERROR_MESSAGES[errorBody?.error_code ?? ''] || errorBody?.error || error.message,
+        error_code: errorBody?.error_code,
+      };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: ERROR_MESSAGES[data?.error_code] || data?.error, error_code: data?.error_code };
+    }
+
+    await auditLogger.logDataAccess({
+      requestId: data.request_id,
+      userId: session.user.id,
+      action: 'role_permissions_update',
+      resource: 'role_permissions',
+      resourceId: role,
+      dataType: 'configuration_data',
+      result: AuditResult.SUCCESS,
+    });
+
+    return { success: true, data: { permissions: data.permissions } };
+  } catch (error) {
+    console.error(`Updating permissions of role ${role} failed:`, error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
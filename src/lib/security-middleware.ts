@@ -15,10 +15,14 @@
  * - CORS handling
  * - Request size limits
  * - Security event monitoring
+ * - Failed-attempt lockout for card secrets
+ *
+ * Imports carry explicit .ts extensions so edge functions can load this module
+ * under Deno as well as through Vite.
  */
 
-import { SecurityConfig, SecurityUtils } from '../config/security';
-import { auditLogger, AuditResult, RiskLevel } from './audit-logger';
+import { SecurityConfig, SecurityUtils } from '../config/security.ts';
+import { auditLogger, AuditResult, RiskLevel } from './audit-logger.ts';
 
 // Request context interface
 export interface SecurityContext {
@@ -34,30 +38,40 @@ export interface SecurityContext {
   metadata: Record<string, any>;
 }
 
+export type RateLimitTier = keyof typeof SecurityConfig.rateLimiting;
+
 // Middleware configuration
 export interface MiddlewareConfig {
   requireAuth?: boolean;
   requiredRole?: string;
   requiredPermissions?: string[];
-  rateLimitTier?: 'general' | 'financial' | 'auth';
+  rateLimitTier?: RateLimitTier;
+  // What the tier counts against (e.g. a card id); defaults to the client IP
+  rateLimitKey?: string;
   validateInput?: boolean;
   logRequests?: boolean;
   checkIpWhitelist?: boolean;
   maxRequestSize?: number;
 }
 
+export interface RateLimitEntry {
+  count: number;
+  resetTime: number;
+}
+
 // Rate limiting store interface
-interface RateLimitStore {
-  get(key: string): Promise<{ count: number; resetTime: number } | null>;
-  increment(key: string, windowMs: number): Promise<{ count: number; resetTime: number }>;
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | null>;
+  // limit: hits beyond it may be refused without being stored
+  increment(key: string, windowMs: number, limit?: number): Promise<RateLimitEntry>;
   reset(key: string): Promise<void>;
 }
 
-// Simple in-memory rate limit store
-class InMemoryRateLimitStore implements RateLimitStore {
-  private store = new Map<string, { count: number; resetTime: number }>();
+// Simple in-memory rate limit store, per instance and with fixed windows
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private store = new Map<string, RateLimitEntry>();
 
-  async get(key: string): Promise<{ count: number; resetTime: number } | null> {
+  async get(key: string): Promise<RateLimitEntry | null> {
     const entry = this.store.get(key);
     if (!entry) return null;
     
@@ -69,7 +83,7 @@ class InMemoryRateLimitStore implements RateLimitStore {
     return entry;
   }
 
-  async increment(key: string, windowMs: number): Promise<{ count: number; resetTime: number }> {
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
     const now = Date.now();
     const existing = await this.get(key);
     
@@ -89,27 +103,102 @@ class InMemoryRateLimitStore implements RateLimitStore {
   }
 }
 
+// Minimal client shape needed by DatabaseRateLimitStore (a Supabase client
+// created with the service role fits)
+export interface RateLimitDatabase {
+  rpc(fn: string, params?: Record<string, unknown>): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
+
+/**
+ * Rate limit store shared by all edge function instances (rate_limit_hits
+ * table). Hits are counted over a sliding window; resetTime is when the
+ * oldest counted hit leaves it.
+ */
+export class DatabaseRateLimitStore implements RateLimitStore {
+  private db: RateLimitDatabase;
+
+  constructor(db: RateLimitDatabase) {
+    this.db = db;
+  }
+
+  private async call<T>(fn: string, params: Record<string, unknown>): Promise<T> {
+    const { data, error } = await this.db.rpc(fn, params);
+    if (error) {
+      throw new Error(`${fn} failed: ${error.message}`);
+    }
+    return data as T;
+  }
+
+  private toEntry(row: { count: number; reset_time: number }): RateLimitEntry {
+    return { count: Number(row.count), resetTime: Number(row.reset_time) };
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const row = await this.call<{ count: number; reset_time: number } | null>('sp_rate_limit_status', { key_in: key });
+    return row ? this.toEntry(row) : null;
+  }
+
+  async increment(key: string, windowMs: number, limit?: number): Promise<RateLimitEntry> {
+    const row = await this.call<{ count: number; reset_time: number }>('sp_rate_limit_hit', {
+      key_in: key,
+      window_ms_in: windowMs,
+      limit_in: limit ?? null,
+    });
+    return this.toEntry(row);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.call('sp_rate_limit_reset', { key_in: key });
+  }
+}
+
 /**
  * Security Middleware Class
  */
 export class SecurityMiddleware {
   private rateLimitStore: RateLimitStore;
+  // Used for the request when the shared store cannot be reached
+  private fallbackStore: RateLimitStore;
   private ipWhitelist: Set<string>;
   private blockedIps: Set<string>;
 
-  constructor() {
-    this.rateLimitStore = new InMemoryRateLimitStore();
+  constructor(rateLimitStore: RateLimitStore = new InMemoryRateLimitStore()) {
+    this.rateLimitStore = rateLimitStore;
+    this.fallbackStore = new InMemoryRateLimitStore();
     this.ipWhitelist = new Set();
     this.blockedIps = new Set();
   }
 
+  /**
+   * Replace the rate limit store, e.g. with DatabaseRateLimitStore once the
+   * runtime has database credentials
+   */
+  useRateLimitStore(store: RateLimitStore): void {
+    this.rateLimitStore = store;
+  }
+
+  /**
+   * Run a store operation, falling back to the per-instance store when the
+   * shared one fails so that an outage degrades limits instead of blocking
+   * every request
+   */
+  private async withStore<T>(operation: (store: RateLimitStore) => Promise<T>): Promise<T> {
+    try {
+      return await operation(this.rateLimitStore);
+    } catch (error) {
+      if (this.rateLimitStore === this.fallbackStore) throw error;
+      console.error('[SECURITY] Rate limit store unavailable, using per-instance limits:', error);
+      return await operation(this.fallbackStore);
+    }
+  }
+
   /**
    * Main security middleware function
    */
   async processRequest(
     req: any,
     config: MiddlewareConfig = {}
-  ): Promise<{ success: boolean; context?: SecurityContext; error?: string; statusCode?: number }> {
+  ): Promise<{ success: boolean; context?: SecurityContext; error?: string; statusCode?: number; retryAfterMs?: number }> {
     const requestId = SecurityUtils.generateRequestId();
     const startTime = Date.now();
 
@@ -140,12 +229,13 @@ export class SecurityMiddleware {
 
       // 2. Rate limiting
       if (config.rateLimitTier) {
-        const rateLimitResult = await this.checkRateLimit(ipAddress, config.rateLimitTier, requestId);
+        const rateLimitResult = await this.checkRateLimit(config.rateLimitKey || ipAddress, config.rateLimitTier);
         if (!rateLimitResult.allowed) {
           await auditLogger.logSecurityViolation({
             requestId,
             violationType: 'rate_limit_exceeded',
             description: `Rate limit exceeded for tier: ${config.rateLimitTier}`,
+            metadata: config.rateLimitKey ? { key: config.rateLimitKey } : undefined,
             ipAddress,
             userAgent,
             severity: RiskLevel.MEDIUM,
@@ -155,6 +245,7 @@ export class SecurityMiddleware {
             success: false,
             error: rateLimitResult.message,
             statusCode: 429,
+            retryAfterMs: rateLimitResult.retryAfterMs,
           };
         }
       }
@@ -349,28 +440,96 @@ export class SecurityMiddleware {
   }
 
   /**
-   * Check rate limiting
+   * Count a request against a tier; key is what the tier applies to (client
+   * IP, card id...)
    */
-  private async checkRateLimit(
-    ipAddress: string,
-    tier: 'general' | 'financial' | 'auth',
-    requestId: string
-  ): Promise<{ allowed: boolean; message?: string }> {
+  async checkRateLimit(
+    key: string,
+    tier: RateLimitTier
+  ): Promise<{ allowed: boolean; message?: string; retryAfterMs?: number }> {
     const config = SecurityConfig.rateLimiting[tier];
-    const key = `rate_limit:${tier}:${ipAddress}`;
+    const storeKey = `rate_limit:${tier}:${key}`;
 
-    const result = await this.rateLimitStore.increment(key, config.windowMs);
+    const result = await this.withStore(store => store.increment(storeKey, config.windowMs, config.maxRequests));
 
     if (result.count > config.maxRequests) {
       return {
         allowed: false,
         message: config.message,
+        retryAfterMs: Math.max(0, result.resetTime - Date.now()),
       };
     }
 
     return { allowed: true };
   }
 
+  /**
+   * Limit how many distinct members (e.g. cards) a key (e.g. client IP) may
+   * use within the window. Members already used in the window stay allowed.
+   */
+  async checkDistinctLimit(
+    key: string,
+    member: string,
+    maxDistinct: number,
+    windowMs: number
+  ): Promise<{ allowed: boolean; retryAfterMs?: number }> {
+    const membersKey = `distinct:${key}`;
+    const memberKey = `distinct:${key}:${member}`;
+
+    if (await this.withStore(store => store.get(memberKey))) {
+      return { allowed: true };
+    }
+
+    const used = await this.withStore(store => store.get(membersKey));
+    if (used && used.count >= maxDistinct) {
+      return { allowed: false, retryAfterMs: Math.max(0, used.resetTime - Date.now()) };
+    }
+
+    await this.withStore(store => store.increment(membersKey, windowMs));
+    await this.withStore(store => store.increment(memberKey, windowMs));
+    return { allowed: true };
+  }
+
+  /**
+   * Check whether a key (e.g. card + client IP) is locked out after repeated
+   * failed secret checks
+   */
+  async checkLockout(
+    key: string,
+    maxAttempts: number = SecurityConfig.auth.failedAttempts.maxAttempts
+  ): Promise<{ locked: boolean; retryAfterMs?: number }> {
+    const entry = await this.withStore(store => store.get(`lockout:${key}`));
+    if (entry && entry.count >= maxAttempts) {
+      return { locked: true, retryAfterMs: entry.resetTime - Date.now() };
+    }
+    return { locked: false };
+  }
+
+  /**
+   * Record a failed secret check; the key is locked once maxAttempts failures
+   * fall within the lockout window
+   */
+  async recordFailedAttempt(
+    key: string,
+    maxAttempts: number = SecurityConfig.auth.failedAttempts.maxAttempts
+  ): Promise<{ locked: boolean; remainingAttempts: number; retryAfterMs?: number }> {
+    const { lockoutDuration } = SecurityConfig.auth.failedAttempts;
+    const entry = await this.withStore(store => store.increment(`lockout:${key}`, lockoutDuration));
+    const remainingAttempts = Math.max(0, maxAttempts - entry.count);
+
+    if (remainingAttempts === 0) {
+      return { locked: true, remainingAttempts, retryAfterMs: entry.resetTime - Date.now() };
+    }
+    return { locked: false, remainingAttempts };
+  }
+
+  /**
+   * Clear failed attempts after a successful secret check
+   */
+  async clearFailedAttempts(key: string): Promise<void> {
+    await this.withStore(store => store.reset(`lockout:${key}`));
+  }
+
   /**
    * Authenticate request
    */
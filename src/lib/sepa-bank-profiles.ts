@@ -0,0 +1,178 @@
+/**
+ * SEPA Bank Profiles
+ *
+ * Bank-specific rules for the pain.001 credit transfer files generated for
+ * refunds. A profile sets the debtor agent BIC used when none is configured,
+ * the accounts the bank debits, the character set it accepts, whether
+ * transfers are booked as one batch and the pain.001 versions it takes.
+ *
+ * Creditor IBANs are validated for every supported European country whatever
+ * the profile: guests may be refunded on a foreign account.
+ *
+ * Shared by the frontend generator and the edge functions (process-refunds,
+ * generate-refund-data), so it has no imports.
+ */
+
+export type BankProfileId = 'cbc' | 'kbc' | 'belfius' | 'ing' | 'epc';
+
+export type PainVersion = 'pain.001.001.03' | 'pain.001.001.09';
+
+export interface BankProfile {
+  id: BankProfileId;
+  name: string;
+  // Debtor agent BIC when the debtor configuration has none (null: NOTPROVIDED)
+  bic: string | null;
+  // Countries of the debited account, null for any supported country
+  debtorCountries: string[] | null;
+  // 'extended' keeps Latin-1 accents, 'basic' transliterates to the EPC set
+  characterSet: 'basic' | 'extended';
+  batchBooking: boolean;
+  painVersions: PainVersion[];
+  defaultPainVersion: PainVersion;
+  messageIdPrefix: string;
+}
+
+export const BANK_PROFILES: Record<BankProfileId, BankProfile> = {
+  cbc: {
+    id: 'cbc',
+    name: 'CBC Banque',
+    bic: 'CREGBEBB',
+    debtorCountries: ['BE'],
+    characterSet: 'extended',
+    batchBooking: true,
+    painVersions: ['pain.001.001.03', 'pain.001.001.09'],
+    defaultPainVersion: 'pain.001.001.03',
+    messageIdPrefix: 'CBC',
+  },
+  kbc: {
+    id: 'kbc',
+    name: 'KBC',
+    bic: 'KREDBEBB',
+    debtorCountries: ['BE'],
+    characterSet: 'extended',
+    batchBooking: true,
+    painVersions: ['pain.001.001.03', 'pain.001.001.09'],
+    defaultPainVersion: 'pain.001.001.03',
+    messageIdPrefix: 'KBC',
+  },
+  belfius: {
+    id: 'belfius',
+    name: 'Belfius',
+    bic: 'GKCCBEBB',
+    debtorCountries: ['BE'],
+    characterSet: 'basic',
+    batchBooking: true,
+    painVersions: ['pain.001.001.03', 'pain.001.001.09'],
+    defaultPainVersion: 'pain.001.001.03',
+    messageIdPrefix: 'BFS',
+  },
+  ing: {
+    id: 'ing',
+    name: 'ING Belgique',
+    bic: 'BBRUBEBB',
+    debtorCountries: ['BE'],
+    characterSet: 'basic',
+    batchBooking: true,
+    painVersions: ['pain.001.001.03', 'pain.001.001.09'],
+    defaultPainVersion: 'pain.001.001.03',
+    messageIdPrefix: 'ING',
+  },
+  epc: {
+    id: 'epc',
+    name: 'SEPA générique (EPC)',
+    bic: null,
+    debtorCountries: null,
+    characterSet: 'basic',
+    batchBooking: false,
+    painVersions: ['pain.001.001.03', 'pain.001.001.09'],
+    defaultPainVersion: 'pain.001.001.09',
+    messageIdPrefix: 'SEPA',
+  },
+};
+
+export const PAIN_NAMESPACES: Record<PainVersion, string> = {
+  'pain.001.001.03': 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.03',
+  'pain.001.001.09': 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.09',
+};
+
+// Same countries and formats as the refund validation in generate-refund-data
+export const SEPA_IBAN_PATTERNS: Record<string, RegExp> = {
+  BE: /^BE\d{14}$/,
+  FR: /^FR\d{25}$/,
+  DE: /^DE\d{20}$/,
+  NL: /^NL\d{2}[A-Z]{4}\d{10}$/,
+  IT: /^IT\d{2}[A-Z]\d{10}[A-Z0-9]{12}$/,
+  ES: /^ES\d{22}$/,
+  PT: /^PT\d{23}$/,
+  LU: /^LU\d{5}[A-Z0-9]{13}$/,
+  AT: /^AT\d{18}$/,
+  CH: /^CH\d{7}[A-Z0-9]{12}$/,
+};
+
+const BASIC_CHARS_REGEX = /^[a-zA-Z0-9/\-?:().,'+ ]*$/;
+const EXTENDED_CHARS_REGEX = /^[a-zA-Z0-9À-ÿ/\-?:().,'+ ]*$/;
+
+export function isBankProfileId(value: unknown): value is BankProfileId {
+  return typeof value === 'string' && value in BANK_PROFILES;
+}
+
+export function getBankProfile(id: BankProfileId = 'cbc'): BankProfile {
+  if (!isBankProfileId(id)) {
+    throw new Error(`Unknown bank profile: ${id}`);
+  }
+  return BANK_PROFILES[id];
+}
+
+export function normalizeIBAN(iban: string): string {
+  return iban ? iban.replace(/\s/g, '').toUpperCase() : '';
+}
+
+/**
+ * IBAN format and mod-97 checksum, optionally restricted to some countries
+ */
+export function isValidSepaIBAN(iban: string, countries: string[] | null = null): boolean {
+  const cleanIban = normalizeIBAN(iban);
+  const countryCode = cleanIban.slice(0, 2);
+  const pattern = SEPA_IBAN_PATTERNS[countryCode];
+
+  if (!pattern || !pattern.test(cleanIban)) return false;
+  if (countries && !countries.includes(countryCode)) return false;
+
+  const rearranged = cleanIban.slice(4) + cleanIban.slice(0, 4);
+  const numericString = rearranged.replace(/[A-Z]/g, (char) => (char.charCodeAt(0) - 55).toString());
+  let remainder = 0;
+  for (let i = 0; i < numericString.length; i++) {
+    remainder = (remainder * 10 + parseInt(numericString[i])) % 97;
+  }
+  return remainder === 1;
+}
+
+/**
+ * Text as it will be written for this profile: basic profiles drop accents
+ * ("Hélène Müller" → "Helene Muller")
+ */
+export function toProfileCharset(profile: BankProfile, text: string): string {
+  if (!text || profile.characterSet === 'extended') return text || '';
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+export function isAllowedText(profile: BankProfile, text: string): boolean {
+  const regex = profile.characterSet === 'extended' ? EXTENDED_CHARS_REGEX : BASIC_CHARS_REGEX;
+  return regex.test(toProfileCharset(profile, text));
+}
+
+/**
+ * Replace characters the bank does not accept with spaces, max 70 characters
+ */
+export function sanitizeForProfile(profile: BankProfile, text: string): string {
+  if (!text) return '';
+  const disallowed = profile.characterSet === 'extended'
+    ? /[^\w\s/\-?:().,'+À-ÿ]/g
+    : /[^A-Za-z0-9\s/\-?:().,'+]/g;
+
+  return toProfileCharset(profile, text)
+    .replace(disallowed, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 70);
+}
@@ -19,6 +19,19 @@ export function generateClientRequestId(): string {
   return `${timestamp}-${randomString}-${userAgent}`;
 }
 
+/**
+ * JSON body of an edge function that answered supabase.functions.invoke with
+ * a non-2xx status; the function's error is in the error context. Null when
+ * there is no body or it is not JSON.
+ */
+export async function readErrorBody<T = { error?: string; error_code?: string }>(error: unknown): Promise<T | null> {
+  try {
+    return (await (error as { context?: Response }).context?.json()) ?? null;
+  } catch {
+    return null;
+  }
+}
+
 // Export interfaces and types
 export interface TableCard {
   id: string;
@@ -66,22 +79,6 @@ export async function getCardById(cardNumber: string): Promise<Card | null> {
   }
 }
 
-export async function updateCardAmount(cardNumber: string, amount: string): Promise<boolean> {
-  const { error } = await supabase
-    .from('table_cards')
-    .update({ 
-      amount: parseFloat(amount) // Parse as number for decimal field
-    })
-    .eq('id', cardNumber);
-
-  if (error) {
-    console.error('Error updating card amount:', error);
-    return false;
-  }
-
-  return true;
-}
-
 // Functions for table_cards
 
 export async function getTableCardById(id: string): Promise<TableCard | null> {
@@ -116,22 +113,6 @@ export async function getTableCardById(id: string): Promise<TableCard | null> {
   }
 }
 
-export async function updateTableCardAmount(id: string, amount: string): Promise<boolean> {
-  const { error } = await supabase
-    .from('table_cards')
-    .update({ 
-      amount: parseFloat(amount) // Parse as number for decimal field
-    })
-    .eq('id', id);
-
-  if (error) {
-    console.error('Error updating table_card amount:', error);
-    return false;
-  }
-
-  return true;
-}
-
 // Bar page specific functions
 export interface BarProduct {
   id: number;
@@ -140,6 +121,7 @@ export interface BarProduct {
   category: string | null;
   is_deposit: boolean;
   is_return: boolean;
+  sort_order?: number;
 }
 
 export interface OrderItem {
@@ -182,6 +164,9 @@ export interface StandardRechargeRequest {
   amount: number;
   payment_method: 'cash' | 'card';
   client_request_id: string;
+  // Optional recharge package / promo code, the bonus is computed server-side
+  package_id?: number;
+  promo_code?: string;
 }
 
 export interface StandardRechargeResult {
@@ -189,6 +174,7 @@ export interface StandardRechargeResult {
   transaction_id?: string;
   previous_balance?: number;
   new_balance?: number;
+  bonus_amount?: number;
   error?: string;
   details?: any;
 }
@@ -199,12 +185,19 @@ export interface CreateStripeCheckoutRequest {
   client_request_id: string;
   success_url?: string;
   cancel_url?: string;
+  package_id?: number;
+  promo_code?: string;
 }
 
 export interface CreateStripeCheckoutResult {
   success: boolean;
   checkout_url?: string;
   session_id?: string;
+  // Provider of the live edition; 'mock' returns a QR payload instead of a checkout URL
+  provider?: 'stripe' | 'mock';
+  qr_payload?: string;
+  // Bonus credited on top of the amount once the payment settles
+  bonus_amount?: number;
   error?: string;
   details?: any;
 }
@@ -222,10 +215,13 @@ export async function getBarProducts(forceRefresh: boolean = false): Promise<Bar
     try {
       console.log(`Récupération des produits depuis Supabase (${forceRefresh ? 'forcé' : 'cache expiré'})`);
       
+      // La vue applique les prix programmés en vigueur; les produits archivés sont exclus
       const { data, error } = await supabase
-        .from('bar_products')
+        .from('bar_products_current')
         .select('*')
+        .eq('is_archived', false)
         .order('category', { ascending: true })
+        .order('sort_order', { ascending: true })
         .order('name', { ascending: true });
 
       if (error) {
@@ -251,8 +247,36 @@ export async function getBarProducts(forceRefresh: boolean = false): Promise<Bar
   }
 }
 
+// Vide le cache des produits après une modification du catalogue
+export function invalidateBarProductsCache(): void {
+  barProductsCache = [];
+  lastFetchTime = 0;
+}
+
+/**
+ * Écoute les modifications du catalogue (produits et prix programmés) pour que
+ * les terminaux du bar rechargent la carte sans attendre l'expiration du cache.
+ * Retourne une fonction de désabonnement.
+ */
+export function subscribeToBarCatalogueChanges(onChange: () => void): () => void {
+  const handleChange = () => {
+    invalidateBarProductsCache();
+    onChange();
+  };
+
+  const channel = supabase
+    .channel('bar-catalogue-changes')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'bar_products' }, handleChange)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'bar_product_price_schedules' }, handleChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
 // Add a return type for the transaction function
-interface BarOrderTransactionResult {
+export interface BarOrderTransactionResult {
   success: boolean;
   order_id?: number;
   previous_balance?: number;
@@ -278,6 +302,7 @@ export async function processBarOrder(orderData: {
   }>;
   total_amount: number;
   client_request_id?: string; // Optional for backward compatibility
+  point_of_sale?: number;
 }): Promise<BarOrderTransactionResult> {
   try {
     // Log the original data
@@ -298,7 +323,9 @@ export async function processBarOrder(orderData: {
         name: item.name,
         is_deposit: item.is_deposit === true,
         is_return: item.is_return === true
-      }))
+      })),
+      // Omitted when unset so the Edge Function falls back to the main bar
+      ...(orderData.point_of_sale !== undefined && { point_of_sale: orderData.point_of_sale })
     };
     
     // Log the payload for debugging
@@ -468,7 +495,9 @@ export async function createStripeCheckout(checkoutData: CreateStripeCheckoutReq
       amount: checkoutData.amount,
       client_request_id: checkoutData.client_request_id,
       success_url: checkoutData.success_url,
-      cancel_url: checkoutData.cancel_url
+      cancel_url: checkoutData.cancel_url,
+      package_id: checkoutData.package_id,
+      promo_code: checkoutData.promo_code
     };
     
     // Log the payload for debugging
@@ -630,7 +659,9 @@ export async function processStandardRecharge(rechargeData: StandardRechargeRequ
       card_id: rechargeData.card_id,
       amount: rechargeData.amount,
       payment_method: rechargeData.payment_method,
-      client_request_id: rechargeData.client_request_id
+      client_request_id: rechargeData.client_request_id,
+      package_id: rechargeData.package_id,
+      promo_code: rechargeData.promo_code
     };
     
     // Log the payload for debugging
@@ -0,0 +1,215 @@
+/**
+ * Two-Factor Authentication
+ *
+ * Staff enrol an authenticator app (TOTP) through Supabase Auth MFA. Codes
+ * are always checked by the verify-step-up edge function, which counts
+ * failures towards SecurityConfig.auth.failedAttempts and records the
+ * confirmation: signing in to an enrolled account, confirming a new factor
+ * and confirming a sensitive operation (step-up) all go through it.
+ *
+ * Sensitive operations (SEPA refund files, staff account creation, manual
+ * balance adjustments) are refused with STEP_UP_REQUIRED unless a code was
+ * confirmed within SecurityConfig.auth.twoFactor.stepUpMaxAge.
+ */
+
+import { supabase, readErrorBody } from '@/lib/supabase';
+import { auditLogger, AuditResult } from '@/lib/audit-logger';
+import { SecurityConfig } from '@/config/security';
+
+export const TOTP_CODE_LENGTH = 6;
+
+// Ask again slightly before the server stops accepting a confirmation
+const STEP_UP_MARGIN_MS = 30 * 1000;
+
+export interface TotpStatus {
+  // Id of the verified TOTP factor, if any
+  factorId: string | null;
+  currentLevel: 'aal1' | 'aal2' | null;
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  // SVG data URL to scan with the authenticator app
+  qrCode: string;
+  // Same secret, for manual entry
+  secret: string;
+}
+
+export interface TwoFactorResult<T = undefined> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  error_code?: string;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  INVALID_REQUEST: 'Le code doit comporter 6 chiffres',
+  FACTOR_NOT_FOUND: "Aucune application d'authentification n'est configurée pour ce compte",
+  TOO_MANY_ATTEMPTS: 'Trop de codes invalides',
+  AUTH_SERVICE_ERROR: 'Le service d\'authentification est indisponible, réessayez',
+  UNAUTHORIZED: 'Votre session a expiré, reconnectez-vous',
+};
+
+interface VerifyErrorBody {
+  error?: string;
+  error_code?: string;
+  remaining_attempts?: number;
+  retry_after_seconds?: number;
+  request_id?: string;
+}
+
+// When the last code was confirmed in this tab, to avoid asking twice in a row
+let lastStepUpAt: number | null = null;
+
+function describeError(body: VerifyErrorBody | null, fallback: string): string {
+  const code = body?.error_code ?? '';
+  if (code === 'INVALID_CODE') {
+    const remaining = body?.remaining_attempts;
+    return typeof remaining === 'number'
+      ? `Code invalide, ${remaining} essai${remaining > 1 ? 's' : ''} restant${remaining > 1 ? 's' : ''}`
+      : 'Code invalide';
+  }
+  if (code === 'TOO_MANY_ATTEMPTS' && typeof body?.retry_after_seconds === 'number') {
+    return `${ERROR_MESSAGES.TOO_MANY_ATTEMPTS}, réessayez dans ${Math.ceil(body.retry_after_seconds / 60)} min`;
+  }
+  return ERROR_MESSAGES[code] || body?.error || fallback;
+}
+
+/**
+ * Whether the role must enrol a second factor before using the app
+ */
+export function isTwoFactorRequired(role: string | null): boolean {
+  return !!role && SecurityConfig.auth.twoFactor.requiredForRoles.includes(role);
+}
+
+/**
+ * Whether a code was confirmed in this tab recently enough for the server
+ * to still accept it as step-up
+ */
+export function hasRecentStepUp(now: number = Date.now()): boolean {
+  return lastStepUpAt !== null && now - lastStepUpAt < SecurityConfig.auth.twoFactor.stepUpMaxAge - STEP_UP_MARGIN_MS;
+}
+
+export function isStepUpRequiredError(errorCode: string | undefined): boolean {
+  return errorCode === 'STEP_UP_REQUIRED';
+}
+
+export async function getTotpStatus(): Promise<TwoFactorResult<TotpStatus>> {
+  const [factorsResult, levelResult] = await Promise.all([
+    supabase.auth.mfa.listFactors(),
+    supabase.auth.mfa.getAuthenticatorAssuranceLevel(),
+  ]);
+
+  const error = factorsResult.error || levelResult.error;
+  if (error) {
+    console.error('Error loading two-factor status:', error);
+    return { success: false, error: 'Impossible de vérifier la double authentification' };
+  }
+
+  return {
+    success: true,
+    data: {
+      factorId: factorsResult.data.totp[0]?.id ?? null,
+      currentLevel: levelResult.data.currentLevel,
+    },
+  };
+}
+
+/**
+ * Start enrolling an authenticator app. Unfinished enrolments are removed
+ * first, Supabase Auth refuses a second factor with the same name.
+ */
+export async function enrollTotp(): Promise<TwoFactorResult<TotpEnrollment>> {
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) {
+    console.error('Error listing factors:', listError);
+    return { success: false, error: "Impossible de configurer l'application d'authentification" };
+  }
+
+  const unverified = factors.all.filter(factor => factor.factor_type === 'totp' && factor.status === 'unverified');
+  for (const factor of unverified) {
+    await supabase.auth.mfa.unenroll({ factorId: factor.id });
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    issuer: SecurityConfig.auth.twoFactor.issuer,
+    friendlyName: 'Application d\'authentification',
+  });
+
+  if (error || !data) {
+    console.error('Error enrolling TOTP factor:', error);
+    return { success: false, error: "Impossible de configurer l'application d'authentification" };
+  }
+
+  return {
+    success: true,
+    data: { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret },
+  };
+}
+
+/**
+ * Check a code. On success the tab switches to the aal2 session returned by
+ * verify-step-up. Pass the factor id to confirm an enrolment.
+ */
+export async function verifyTotp(code: string, factorId?: string): Promise<TwoFactorResult<{ verifiedAt: string }>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    return { success: false, error: ERROR_MESSAGES.UNAUTHORIZED, error_code: 'UNAUTHORIZED' };
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('verify-step-up', {
+      body: { code: code.replace(/\s/g, ''), factor_id: factorId },
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      }
+    });
+
+    if (error || !data?.success) {
+      const errorBody = error ? await readErrorBody<VerifyErrorBody>(error) : data;
+      await auditLogger.logAuthentication({
+        requestId: errorBody?.request_id ?? crypto.randomUUID(),
+        userId: session.user.id,
+        action: 'two_factor',
+        result: AuditResult.FAILURE,
+        metadata: { error_code: errorBody?.error_code },
+      });
+      return {
+        success: false,
+        error: describeError(errorBody, error?.message || 'Vérification impossible'),
+        error_code: errorBody?.error_code,
+      };
+    }
+
+    const { error: sessionError } = await supabase.auth.setSession({
+      access_token: data.session.access_token,
+      refresh_token: data.session.refresh_token,
+    });
+    if (sessionError) {
+      console.error('Error switching to the verified session:', sessionError);
+      return { success: false, error: ERROR_MESSAGES.UNAUTHORIZED, error_code: 'UNAUTHORIZED' };
+    }
+
+    lastStepUpAt = Date.now();
+    await auditLogger.logAuthentication({
+      requestId: data.request_id,
+      userId: session.user.id,
+      action: 'two_factor',
+      result: AuditResult.SUCCESS,
+      metadata: { factor_id: data.factor_id },
+    });
+
+    return { success: true, data: { verifiedAt: data.verified_at } };
+  } catch (error) {
+    console.error('Two-factor verification failed:', error);
+    return { success: false, error: 'Erreur réseau' };
+  }
+}
+
+/**
+ * Forget the confirmation of this tab, e.g. on sign-out
+ */
+export function clearStepUp(): void {
+  lastStepUpAt = null;
+}
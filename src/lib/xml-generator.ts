@@ -1,19 +1,34 @@
 /**
  * CBC XML Generator Service
  * 
- * Generates XML files in pain.001.001.03 format (ISO 20022 standard) for CBC bank transfers.
- * This service processes validated refund data and generates bank-compatible XML files
- * following the exact CBC specifications.
+ * Generates XML files in pain.001.001.03 or pain.001.001.09 format (ISO 20022 standard)
+ * for SEPA bank transfers. This service processes validated refund data and generates
+ * bank-compatible XML files following the rules of the selected bank profile
+ * (CBC by default, KBC, Belfius, ING or generic EPC, see sepa-bank-profiles).
  * 
  * Key Features:
- * - Generates pain.001.001.03 format XML
+ * - Generates pain.001.001.03 and pain.001.001.09 format XML
  * - Handles multiple refund transactions in a single batch
- * - Validates IBAN format for Belgian accounts
+ * - Validates debtor IBANs against the bank profile and creditor IBANs for
+ *   every supported European country
+ * - Applies the bank's character set, debtor agent BIC and batch booking
  * - Implements proper XML structure with all required elements
  * - Generates unique message IDs and transaction references
  * - Comprehensive error handling and validation
  */
 
+import {
+  BankProfile,
+  BankProfileId,
+  PainVersion,
+  PAIN_NAMESPACES,
+  getBankProfile,
+  isAllowedText,
+  isValidSepaIBAN,
+  normalizeIBAN,
+  sanitizeForProfile,
+} from '@/lib/sepa-bank-profiles';
+
 // TypeScript interfaces for XML generation
 export interface ValidatedRefundRecord {
   id: number;
@@ -34,7 +49,7 @@ export interface ValidatedRefundRecord {
 export interface DebtorConfiguration {
   name: string;
   iban: string;
-  bic: string;
+  bic?: string; // Defaults to the bank profile BIC
   address_line1?: string;
   address_line2?: string;
   country: string;
@@ -51,6 +66,8 @@ export interface XMLGenerationOptions {
   charge_bearer?: 'SLEV' | 'SHAR';
   batch_booking?: boolean;
   requested_execution_date?: string;
+  bank_profile?: BankProfileId;
+  pain_version?: PainVersion;
 }
 
 export interface XMLGenerationResult {
@@ -59,16 +76,32 @@ export interface XMLGenerationResult {
   message_id?: string;
   transaction_count?: number;
   total_amount?: number;
+  // One entry per transfer, used to reconcile bank statements by EndToEndId
+  transfers?: XMLTransfer[];
   errors?: string[];
   warnings?: string[];
   generation_time_ms?: number;
 }
 
+export interface XMLTransfer {
+  refund_id: number;
+  end_to_end_id: string;
+  amount: number;
+}
+
 export interface XMLValidationError {
   field: string;
   value: any;
   error_message: string;
   refund_id?: number;
+  error_type?: XMLErrorType;
+}
+
+// XSD validation report returned by process-refunds (dry run or rejected file)
+export interface SchemaValidationReport {
+  valid: boolean;
+  pain_version: PainVersion;
+  errors: XMLValidationError[];
 }
 
 // Error types for XML generation
@@ -78,39 +111,44 @@ export enum XMLErrorType {
   MISSING_REQUIRED_FIELD = 'MISSING_REQUIRED_FIELD',
   INVALID_CHARACTER_SET = 'INVALID_CHARACTER_SET',
   CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
-  XML_GENERATION_ERROR = 'XML_GENERATION_ERROR'
+  XML_GENERATION_ERROR = 'XML_GENERATION_ERROR',
+  SCHEMA_VALIDATION_ERROR = 'SCHEMA_VALIDATION_ERROR'
 }
 
 export class CBCXMLGenerator {
-  private readonly CBC_BIC = 'GKCCBEBB';
   private readonly CURRENCY = 'EUR';
   private readonly PAYMENT_METHOD = 'TRF';
-  private readonly NAMESPACE = 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.03';
   private readonly XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
   
-  // Allowed characters per CBC specifications - updated for international names
-  private readonly ALLOWED_CHARS_REGEX = /^[a-zA-Z0-9À-ÿ\/\-\?:\(\)\.,'\+ ]*$/;
-  
   private debtorConfig: DebtorConfiguration;
   private options: XMLGenerationOptions;
+  private profile: BankProfile;
 
   constructor(debtorConfig: DebtorConfiguration, options: XMLGenerationOptions = {}) {
+    this.profile = getBankProfile(options.bank_profile ?? 'cbc');
+
     // Normalize debtor IBAN
     this.debtorConfig = {
       ...debtorConfig,
-      iban: debtorConfig.iban ? debtorConfig.iban.replace(/\s/g, '').toUpperCase() : ''
+      iban: normalizeIBAN(debtorConfig.iban)
     };
     this.options = {
-      message_id_prefix: 'CBC',
       payment_info_id_prefix: 'PMT',
       instruction_priority: 'NORM',
       service_level: 'SEPA',
       category_purpose: 'SUPP',
       charge_bearer: 'SLEV',
-      batch_booking: true,
-      ...options
+      ...options,
+      // Profile defaults also apply to options passed as undefined
+      message_id_prefix: options.message_id_prefix ?? this.profile.messageIdPrefix,
+      batch_booking: options.batch_booking ?? this.profile.batchBooking,
+      pain_version: options.pain_version ?? this.profile.defaultPainVersion
     };
 
+    if (!this.profile.painVersions.includes(this.options.pain_version!)) {
+      throw new Error(`${this.profile.name} does not accept ${this.options.pain_version} files`);
+    }
+
     this.validateDebtorConfiguration();
   }
 
@@ -180,6 +218,11 @@ export class CBCXMLGenerator {
         message_id: messageId,
         transaction_count: transactionCount,
         total_amount: totalAmount,
+        transfers: processedRefunds.map(refund => ({
+          refund_id: refund.id,
+          end_to_end_id: this.generateEndToEndId(refund.id),
+          amount: Number(this.formatAmount(refund.amount_recharged))
+        })),
         errors: errors.length > 0 ? errors : undefined,
         warnings: warnings.length > 0 ? warnings : undefined,
         generation_time_ms: Date.now() - startTime
@@ -207,16 +250,20 @@ export class CBCXMLGenerator {
       throw new Error('Debtor IBAN is required');
     }
 
-    if (!this.isValidBelgianIBAN(this.debtorConfig.iban)) {
+    if (!isValidSepaIBAN(this.debtorConfig.iban)) {
       throw new Error(`Invalid debtor IBAN format: ${this.debtorConfig.iban}`);
     }
 
+    if (!isValidSepaIBAN(this.debtorConfig.iban, this.profile.debtorCountries)) {
+      throw new Error(`${this.profile.name} only debits accounts from: ${this.profile.debtorCountries!.join(', ')}`);
+    }
+
     if (!this.debtorConfig.country) {
       throw new Error('Debtor country is required');
     }
 
     // Validate character set
-    if (!this.ALLOWED_CHARS_REGEX.test(this.debtorConfig.name)) {
+    if (!isAllowedText(this.profile, this.debtorConfig.name)) {
       throw new Error('Debtor name contains invalid characters');
     }
   }
@@ -227,18 +274,10 @@ export class CBCXMLGenerator {
   private normalizeRefundIBANs(refunds: ValidatedRefundRecord[]): ValidatedRefundRecord[] {
     return refunds.map(refund => ({
       ...refund,
-      account: this.normalizeIBAN(refund.account)
+      account: normalizeIBAN(refund.account)
     }));
   }
 
-  /**
-   * Normalize IBAN format (remove spaces, convert to uppercase)
-   */
-  private normalizeIBAN(iban: string): string {
-    if (!iban) return '';
-    return iban.replace(/\s/g, '').toUpperCase();
-  }
-
   /**
    * Remove duplicate refunds based on IBAN, amount, and card ID
    */
@@ -248,7 +287,7 @@ export class CBCXMLGenerator {
 
     for (const refund of refunds) {
       // Create a unique key based on IBAN, amount, and card ID
-      const key = `${this.normalizeIBAN(refund.account)}_${refund.amount_recharged.toFixed(2)}_${refund.matched_card || 'no_card'}`;
+      const key = `${normalizeIBAN(refund.account)}_${refund.amount_recharged.toFixed(2)}_${refund.matched_card || 'no_card'}`;
       
       if (!seen.has(key)) {
         seen.add(key);
@@ -309,7 +348,7 @@ export class CBCXMLGenerator {
           error_message: 'Account (IBAN) is required',
           refund_id: refund.id
         });
-      } else if (!this.isValidBelgianIBAN(refund.account)) {
+      } else if (!isValidSepaIBAN(refund.account)) {
         errors.push({
           field: 'account',
           value: refund.account,
@@ -337,7 +376,7 @@ export class CBCXMLGenerator {
 
       // Validate character sets
       const fullName = `${refund.first_name} ${refund.last_name}`;
-      if (!this.ALLOWED_CHARS_REGEX.test(fullName)) {
+      if (!isAllowedText(this.profile, fullName)) {
         errors.push({
           field: 'name',
           value: fullName,
@@ -369,47 +408,6 @@ export class CBCXMLGenerator {
     };
   }
 
-  /**
-   * Validate Belgian IBAN format
-   */
-  private isValidBelgianIBAN(iban: string): boolean {
-    if (!iban) return false;
-    
-    // Normalize IBAN format
-    const cleanIban = this.normalizeIBAN(iban);
-    
-    // Belgian IBAN format: BE + 2 check digits + 12 digits
-    const belgianIbanRegex = /^BE\d{14}$/;
-    
-    if (!belgianIbanRegex.test(cleanIban)) {
-      return false;
-    }
-
-    // Validate IBAN check digits using mod-97 algorithm
-    return this.validateIBANChecksum(cleanIban);
-  }
-
-  /**
-   * Validate IBAN checksum using mod-97 algorithm
-   */
-  private validateIBANChecksum(iban: string): boolean {
-    // Move first 4 characters to end
-    const rearranged = iban.slice(4) + iban.slice(0, 4);
-    
-    // Replace letters with numbers (A=10, B=11, ..., Z=35)
-    const numericString = rearranged.replace(/[A-Z]/g, (char) => 
-      (char.charCodeAt(0) - 55).toString()
-    );
-    
-    // Calculate mod 97
-    let remainder = 0;
-    for (let i = 0; i < numericString.length; i++) {
-      remainder = (remainder * 10 + parseInt(numericString[i])) % 97;
-    }
-    
-    return remainder === 1;
-  }
-
   /**
    * Generate unique message ID
    */
@@ -446,15 +444,8 @@ export class CBCXMLGenerator {
    * Sanitize text for XML (remove invalid characters)
    */
   private sanitizeText(text: string): string {
-    if (!text) return '';
-    
-    // More permissive sanitization for international names
-    // Allow letters (including accented), numbers, and common punctuation
-    return text
-      .replace(/[^\w\s\/\-\?:\(\)\.,'\+À-ÿ]/g, ' ') // Allow international characters
-      .replace(/\s+/g, ' ') // Replace multiple spaces with single space
-      .trim()
-      .substring(0, 70); // Ensure max length for CBC compliance
+    // Character set and 70 character limit of the bank profile
+    return sanitizeForProfile(this.profile, text);
   }
 
   /**
@@ -479,7 +470,7 @@ export class CBCXMLGenerator {
     const { messageId, paymentInfoId, creationDateTime, executionDate, transactionCount, totalAmount, refunds } = params;
 
     return `<?xml version="1.0" encoding="UTF-8"?>
-<Document xmlns="${this.NAMESPACE}" xmlns:xsi="${this.XSI_NAMESPACE}">
+<Document xmlns="${PAIN_NAMESPACES[this.options.pain_version!]}" xmlns:xsi="${this.XSI_NAMESPACE}">
     <CstmrCdtTrfInitn>
         ${this.buildGroupHeader(messageId, creationDateTime, transactionCount, totalAmount)}
         ${this.buildPaymentInformation(paymentInfoId, executionDate, transactionCount, totalAmount, refunds)}
@@ -535,26 +526,55 @@ export class CBCXMLGenerator {
                     <Cd>${this.options.category_purpose}</Cd>
                 </CtgyPurp>
             </PmtTpInf>
-            <ReqdExctnDt>${executionDate}</ReqdExctnDt>
+            ${this.buildRequestedExecutionDate(executionDate)}
             <Dbtr>
                 <Nm>${this.sanitizeText(this.debtorConfig.name)}</Nm>${debtorAddress}${debtorId}
             </Dbtr>
             <DbtrAcct>
                 <Id>
-                    <IBAN>${this.normalizeIBAN(this.debtorConfig.iban)}</IBAN>
+                    <IBAN>${normalizeIBAN(this.debtorConfig.iban)}</IBAN>
                 </Id>
                 <Ccy>${this.CURRENCY}</Ccy>
             </DbtrAcct>
             <DbtrAgt>
-                <FinInstnId>
-                    <BIC>${this.debtorConfig.bic || this.CBC_BIC}</BIC>
-                </FinInstnId>
+                ${this.buildDebtorAgent()}
             </DbtrAgt>
             <ChrgBr>${this.options.charge_bearer}</ChrgBr>
             ${transactions}
         </PmtInf>`;
   }
 
+  /**
+   * Build requested execution date (a choice between date and date-time since pain.001.001.09)
+   */
+  private buildRequestedExecutionDate(executionDate: string): string {
+    if (this.options.pain_version === 'pain.001.001.03') {
+      return `<ReqdExctnDt>${executionDate}</ReqdExctnDt>`;
+    }
+    return `<ReqdExctnDt>
+                <Dt>${executionDate}</Dt>
+            </ReqdExctnDt>`;
+  }
+
+  /**
+   * Build debtor agent identification (BIC renamed BICFI in pain.001.001.09)
+   */
+  private buildDebtorAgent(): string {
+    const bic = this.debtorConfig.bic?.replace(/\s/g, '').toUpperCase() || this.profile.bic;
+    if (!bic) {
+      return `<FinInstnId>
+                    <Othr>
+                        <Id>NOTPROVIDED</Id>
+                    </Othr>
+                </FinInstnId>`;
+    }
+
+    const tag = this.options.pain_version === 'pain.001.001.03' ? 'BIC' : 'BICFI';
+    return `<FinInstnId>
+                    <${tag}>${bic}</${tag}>
+                </FinInstnId>`;
+  }
+
   /**
    * Build debtor address section
    */
@@ -604,7 +624,7 @@ ${addressLines}
     const endToEndId = this.generateEndToEndId(refund.id);
     const creditorName = this.sanitizeText(`${refund.first_name} ${refund.last_name}`);
     const amount = this.formatAmount(refund.amount_recharged);
-    const iban = this.normalizeIBAN(refund.account);
+    const iban = normalizeIBAN(refund.account);
     
     // Standardized payment object text as required
     const remittanceInfo = "Remboursement Les Aperos du chateau";
@@ -637,10 +657,7 @@ export const XMLGeneratorUtils = {
   /**
    * Validate Belgian IBAN format
    */
-  isValidBelgianIBAN: (iban: string): boolean => {
-    const generator = new CBCXMLGenerator({ name: 'test', iban: 'BE68539007547034', bic: 'GKCCBEBB', country: 'BE' });
-    return (generator as any).isValidBelgianIBAN(iban);
-  },
+  isValidBelgianIBAN: (iban: string): boolean => isValidSepaIBAN(iban, ['BE']),
 
   /**
    * Sanitize text for XML
@@ -1,5 +1,11 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { supabase } from '@/lib/supabase'
+import { auditLogger, EdgeFunctionLogStorage } from '@/lib/audit-logger'
+
+// Keep audit entries in the hash-chained audit_logs table, appended through
+// the append-audit-log edge function
+auditLogger.useStorage(new EdgeFunctionLogStorage(supabase))
 
 createRoot(document.getElementById("root")!).render(<App />);
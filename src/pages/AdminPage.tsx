@@ -6,6 +6,17 @@ import ChateauLogo from '@/components/ChateauLogo';
 import CardTopup from '@/components/admin/CardTopup';
 import Dashboard from '@/components/admin/Dashboard';
 import UserManagement from '@/components/admin/UserManagement';
+import ProductCatalogue from '@/components/admin/ProductCatalogue';
+import EditionManagement from '@/components/admin/EditionManagement';
+import OrderSearch from '@/components/admin/OrderSearch';
+import CardSecurity from '@/components/admin/CardSecurity';
+import CardLifecycleManager from '@/components/admin/CardLifecycleManager';
+import CardProvisioning from '@/components/admin/CardProvisioning';
+import RechargeShiftReport from '@/components/admin/RechargeShiftReport';
+import RechargeOffersManagement from '@/components/admin/RechargeOffersManagement';
+import RefundReviewQueue from '@/components/admin/RefundReviewQueue';
+import RefundBatchHistory from '@/components/admin/RefundBatchHistory';
+import AuditLogViewer from '@/components/admin/AuditLogViewer';
 import { LogOut, Beer } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
@@ -76,23 +87,58 @@ const AdminPage: React.FC = () => {
             onValueChange={setActiveTab} 
             className="w-full"
           >
-            <TabsList className="grid w-full grid-cols-3 mb-6">
+            <TabsList className="grid w-full grid-cols-9 mb-6">
               <TabsTrigger value="dashboard">Tableau de bord</TabsTrigger>
               <TabsTrigger value="topup">Recharge de carte</TabsTrigger>
+              <TabsTrigger value="orders">Commandes</TabsTrigger>
+              <TabsTrigger value="refunds">Remboursements</TabsTrigger>
+              <TabsTrigger value="cards">Cartes</TabsTrigger>
+              <TabsTrigger value="products">Produits</TabsTrigger>
+              <TabsTrigger value="editions">Éditions</TabsTrigger>
               <TabsTrigger value="users">Utilisateurs</TabsTrigger>
+              <TabsTrigger value="audit">Audit</TabsTrigger>
             </TabsList>
             
             <TabsContent value="dashboard" className="mt-4">
               <Dashboard key={refreshTrigger} />
             </TabsContent>
             
-            <TabsContent value="topup" className="mt-4">
+            <TabsContent value="topup" className="mt-4 space-y-8">
               <CardTopup onSuccess={refreshDashboard} />
+              <RechargeShiftReport />
+              <RechargeOffersManagement />
             </TabsContent>
             
+            <TabsContent value="orders" className="mt-4">
+              <OrderSearch />
+            </TabsContent>
+
+            <TabsContent value="refunds" className="mt-4 space-y-8">
+              <RefundReviewQueue />
+              <RefundBatchHistory />
+            </TabsContent>
+
+            <TabsContent value="cards" className="mt-4 space-y-8">
+              <CardLifecycleManager />
+              <CardSecurity />
+              <CardProvisioning />
+            </TabsContent>
+
+            <TabsContent value="products" className="mt-4">
+              <ProductCatalogue />
+            </TabsContent>
+
+            <TabsContent value="editions" className="mt-4">
+              <EditionManagement />
+            </TabsContent>
+
             <TabsContent value="users" className="mt-4">
               <UserManagement />
             </TabsContent>
+
+            <TabsContent value="audit" className="mt-4">
+              <AuditLogViewer />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -1,19 +1,31 @@
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useCallback } from 'react';
 import ChateauBackground from '@/components/ChateauBackground';
 import { BarOrderSystem } from '@/components/bar/BarOrderSystem';
+import { PointOfSaleSelector } from '@/components/bar/PointOfSaleSelector';
 import { useAuth } from '@/hooks/use-auth';
 import { Button } from '@/components/ui/button';
-import { LogOut, RefreshCw } from 'lucide-react';
+import { LogOut, RefreshCw, Store } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { NfcDebugger } from '@/components/NfcDebugger';
 import { useNavigate } from 'react-router-dom';
 import { getBarProducts } from '@/lib/supabase';
+import {
+  PointOfSale,
+  getPointsOfSale,
+  getSelectedPointOfSaleId,
+  setSelectedPointOfSaleId,
+  clearSelectedPointOfSale,
+  subscribeToPointOfSaleChanges
+} from '@/lib/point-of-sale';
 
 const BarPage: React.FC = () => {
   const { signOut, email, isLoggedIn } = useAuth();
   const navigate = useNavigate();
   const [refreshing, setRefreshing] = React.useState(false);
+  const [pointsOfSale, setPointsOfSale] = React.useState<PointOfSale[]>([]);
+  const [pointOfSale, setPointOfSale] = React.useState<PointOfSale | null>(null);
+  const [loadingPointsOfSale, setLoadingPointsOfSale] = React.useState(true);
   
   // Check if we're in development mode
   const isDevelopment = import.meta.env.MODE === 'development';
@@ -24,10 +36,49 @@ const BarPage: React.FC = () => {
       navigate('/login');
     }
   }, [isLoggedIn, navigate]);
+
+  // Load the points of sale and restore this terminal's assignment
+  const loadPointsOfSale = useCallback(async () => {
+    const available = await getPointsOfSale();
+    setPointsOfSale(available);
+
+    const storedId = getSelectedPointOfSaleId();
+    const stored = available.find(candidate => candidate.id === storedId);
+    if (stored) {
+      setPointOfSale(stored);
+    } else if (available.length === 1) {
+      // Nothing to choose from
+      setSelectedPointOfSaleId(available[0].id);
+      setPointOfSale(available[0]);
+    } else {
+      setPointOfSale(null);
+    }
+    setLoadingPointsOfSale(false);
+  }, []);
+
+  useEffect(() => {
+    loadPointsOfSale();
+    // Reload menus when an admin changes them
+    return subscribeToPointOfSaleChanges(loadPointsOfSale);
+  }, [loadPointsOfSale]);
+
+  const handleSelectPointOfSale = (selected: PointOfSale) => {
+    setSelectedPointOfSaleId(selected.id);
+    setPointOfSale(selected);
+  };
+
+  const handleChangePointOfSale = () => {
+    clearSelectedPointOfSale();
+    setPointOfSale(null);
+  };
+
+  // Without any configured point of sale the terminal keeps working on the default bar
+  const needsPointOfSale = !pointOfSale && (loadingPointsOfSale || pointsOfSale.length > 0);
   
   const handleLogout = async () => {
     try {
       await signOut();
+      clearSelectedPointOfSale();
       
       // Keep this toast as it's related to a critical action (logout)
       toast({
@@ -75,6 +126,19 @@ const BarPage: React.FC = () => {
     <ChateauBackground className="min-h-screen">
       <div className="w-full h-full p-0">
         <div className="absolute top-2 right-2 z-10 flex items-center space-x-2">
+          {pointOfSale && pointsOfSale.length > 1 && (
+            <Button 
+              variant="outline" 
+              size="sm"
+              onClick={handleChangePointOfSale}
+              className="bg-white/20 text-white hover:bg-white/40 border-white"
+              title="Changer de point de vente"
+            >
+              <Store className="h-4 w-4 mr-1" />
+              {pointOfSale.name}
+            </Button>
+          )}
+          
           <Button 
             variant="outline" 
             size="sm"
@@ -97,7 +161,17 @@ const BarPage: React.FC = () => {
           </Button>
         </div>
         
-        <BarOrderSystem />
+        {needsPointOfSale ? (
+          <div className="flex justify-center pt-16">
+            <PointOfSaleSelector
+              pointsOfSale={pointsOfSale}
+              isLoading={loadingPointsOfSale}
+              onSelect={handleSelectPointOfSale}
+            />
+          </div>
+        ) : (
+          <BarOrderSystem pointOfSale={pointOfSale} />
+        )}
         
         {/* Show NFC debugger only in development mode */}
         {isDevelopment && <NfcDebugger />}
@@ -9,6 +9,7 @@ import { Loader2, LogIn } from "lucide-react";
 import ChateauLogo from '@/components/ChateauLogo';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from '@/hooks/use-auth';
+import TotpForm from '@/components/TotpForm';
 
 type Role = 'admin' | 'bar' | 'recharge';
 
@@ -19,27 +20,36 @@ const LoginPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Role>('bar');
   const { toast } = useToast();
   const navigate = useNavigate();
-  const { signIn, user, role } = useAuth();
+  const { signIn, signOut, user, role, hasAccess, twoFactorStep, refreshTwoFactor } = useAuth();
 
-  // Si l'utilisateur est déjà connecté, redirigez-le en fonction de son rôle
+  // Si l'utilisateur est déjà connecté, redirigez-le vers la première page que ses permissions ouvrent,
+  // une fois la double authentification terminée
   useEffect(() => {
-    if (user) {
+    if (user && !twoFactorStep) {
       redirectBasedOnUserRole();
     }
-  }, [user, role]);
+  }, [user, role, hasAccess, twoFactorStep]);
 
   const redirectBasedOnUserRole = () => {
     if (!role) return;
     
-    if (role === 'admin') {
+    if (hasAccess(['access_admin'])) {
       navigate('/admin');
-    } else if (role === 'bar') {
+    } else if (hasAccess(['access_bar'])) {
       navigate('/bar');
-    } else if (role === 'recharge') {
+    } else if (hasAccess(['access_recharge'])) {
       navigate('/recharge');
     }
   };
 
+  const handleTwoFactorVerified = async () => {
+    await refreshTwoFactor();
+    toast({
+      title: "Double authentification validée",
+      description: "Code confirmé"
+    });
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -66,7 +76,8 @@ const LoginPage: React.FC = () => {
         description: "Vous êtes maintenant connecté"
       });
 
-      // La redirection se fera automatiquement grâce au useEffect
+      // La redirection se fera automatiquement grâce au useEffect, après le code
+      // de double authentification si le compte en a besoin
     } catch (error: any) {
       toast({
         title: "Erreur de connexion",
@@ -78,6 +89,38 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  // Compte protégé par la double authentification : le code est demandé avant la redirection
+  if (user && twoFactorStep) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-chateau-gradient">
+        <div className="w-full max-w-md p-4">
+          <div className="flex justify-center mb-8">
+            <ChateauLogo />
+          </div>
+
+          <Card className="border-amber-200 shadow-lg">
+            <CardHeader>
+              <CardTitle className="text-2xl text-center">Double authentification</CardTitle>
+              <CardDescription className="text-center">
+                {twoFactorStep === 'enroll'
+                  ? "Votre rôle exige une application d'authentification. Configurez-la pour continuer."
+                  : "Confirmez votre connexion avec votre application d'authentification"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TotpForm mode={twoFactorStep} onVerified={handleTwoFactorVerified} />
+            </CardContent>
+            <CardFooter>
+              <Button variant="ghost" className="w-full" onClick={() => signOut()}>
+                Changer de compte
+              </Button>
+            </CardFooter>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-chateau-gradient">
       <div className="w-full max-w-md p-4">
@@ -4,10 +4,24 @@ import { useToast } from "@/hooks/use-toast";
 import ChateauBackground from '@/components/ChateauBackground';
 import ChateauCard from '@/components/ChateauCard';
 import ChateauLogo from '@/components/ChateauLogo';
+import CardStatement from '@/components/CardStatement';
+import CardSecretForm from '@/components/CardSecretForm';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { getTableCardById, TableCard } from '@/lib/supabase';
-import { Loader2, CreditCard, AlertCircle } from "lucide-react";
+import {
+  PublicCard,
+  lookupCard,
+  getRememberedCardSecret,
+  rememberCardSecret,
+  forgetCardSecret,
+} from '@/lib/card-access';
+import {
+  RechargePackage,
+  RechargeQuote,
+  listRechargePackages,
+  quoteRecharge,
+} from '@/lib/recharge-offers';
+import { Loader2, CreditCard, AlertCircle, Gift } from "lucide-react";
 import { redirectToCheckout } from '@/api/stripe';
 
 // Payment method logos
@@ -23,8 +37,16 @@ const Payment: React.FC = () => {
   const [stripeProcessing, setStripeProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [stripeError, setStripeError] = useState<string | null>(null);
-  const [card, setCard] = useState<TableCard | null>(null);
+  const [card, setCard] = useState<PublicCard | null>(null);
+  const [secret, setSecret] = useState<string | undefined>(undefined);
+  const [needsSecret, setNeedsSecret] = useState(false);
+  const [secretError, setSecretError] = useState<string | null>(null);
   const [amount, setAmount] = useState("");
+  const [packages, setPackages] = useState<RechargePackage[]>([]);
+  const [selectedPackageId, setSelectedPackageId] = useState<number | null>(null);
+  const [promoCode, setPromoCode] = useState("");
+  const [quote, setQuote] = useState<RechargeQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -38,17 +60,23 @@ const Payment: React.FC = () => {
     const fetchCardDetails = async () => {
       try {
         console.log('Vérification de la carte:', id);
-        const cardData = await getTableCardById(id);
-        
-        console.log('Résultat de la recherche:', cardData);
+        const rememberedSecret = getRememberedCardSecret(id);
+        const result = await lookupCard(id, rememberedSecret);
 
-        if (!cardData) {
-          setError("Carte non trouvée");
+        if (!result.success) {
+          // Protected card: ask for the printed code (a stale remembered one is dropped)
+          if (result.error_code === 'SECRET_REQUIRED' || result.error_code === 'INVALID_SECRET') {
+            forgetCardSecret(id);
+            setNeedsSecret(true);
+          } else {
+            setError(result.error || "Carte non trouvée");
+          }
           setLoading(false);
           return;
         }
 
-        setCard(cardData);
+        setCard(result.card!);
+        setSecret(rememberedSecret);
         setLoading(false);
       } catch (error) {
         console.error('Error fetching card details:', error);
@@ -60,6 +88,61 @@ const Payment: React.FC = () => {
     fetchCardDetails();
   }, [id]);
 
+  useEffect(() => {
+    listRechargePackages().then(result => {
+      if (result.success) setPackages(result.data ?? []);
+    });
+  }, []);
+
+  const selectPackage = (pkg: RechargePackage) => {
+    setSelectedPackageId(pkg.id);
+    setAmount(String(pkg.amount));
+    setQuote(null);
+    setQuoteError(null);
+  };
+
+  const handleAmountChange = (value: string) => {
+    // A custom amount leaves the package
+    setAmount(value);
+    setSelectedPackageId(null);
+    setQuote(null);
+    setQuoteError(null);
+  };
+
+  // Bonus preview; the server quotes again when creating the payment
+  const refreshQuote = async (): Promise<boolean> => {
+    if (!selectedPackageId && !promoCode.trim()) {
+      setQuote(null);
+      setQuoteError(null);
+      return true;
+    }
+
+    const result = await quoteRecharge(parseFloat(amount), { packageId: selectedPackageId, promoCode }, id);
+    if (!result.success) {
+      setQuote(null);
+      setQuoteError(result.error || "Code promo invalide");
+      return false;
+    }
+    setQuote(result.data!);
+    setQuoteError(null);
+    return true;
+  };
+
+  const handleSecretSubmit = async (enteredSecret: string) => {
+    setSecretError(null);
+    const result = await lookupCard(id!, enteredSecret);
+
+    if (!result.success) {
+      setSecretError(result.error || "Code incorrect");
+      return;
+    }
+
+    rememberCardSecret(id!, enteredSecret);
+    setSecret(enteredSecret);
+    setCard(result.card!);
+    setNeedsSecret(false);
+  };
+
   const handleStripePayment = async () => {
     if (!amount.trim() || isNaN(Number(amount)) || Number(amount) <= 0) {
       toast({
@@ -73,8 +156,13 @@ const Payment: React.FC = () => {
     setStripeProcessing(true);
     setStripeError(null);
 
+    if (!(await refreshQuote())) {
+      setStripeProcessing(false);
+      return;
+    }
+
     try {
-      await redirectToCheckout(parseFloat(amount), id!);
+      await redirectToCheckout(parseFloat(amount), id!, { packageId: selectedPackageId, promoCode: promoCode.trim() || null });
     } catch (error) {
       console.error("Error creating checkout session:", error);
       setStripeError("Une erreur s'est produite lors de la création de la session de paiement");
@@ -124,6 +212,21 @@ const Payment: React.FC = () => {
     );
   }
 
+  if (needsSecret) {
+    return (
+      <ChateauBackground>
+        <ChateauCard className="w-full max-w-md">
+          <div className="flex flex-col items-center justify-center space-y-6">
+            <ChateauLogo />
+            <div className="text-white text-center w-full">
+              <CardSecretForm cardId={id!} error={secretError} onSubmit={handleSecretSubmit} />
+            </div>
+          </div>
+        </ChateauCard>
+      </ChateauBackground>
+    );
+  }
+
   return (
     <ChateauBackground>
       <ChateauCard className="w-full max-w-md">
@@ -132,22 +235,78 @@ const Payment: React.FC = () => {
           <div className="text-white text-center w-full">
             <h2 className="text-xl font-bold mb-4">Recharger votre carte</h2>
             <p className="mb-6">ID de carte: <span className="font-mono">{id}</span></p>
-            <p className="mb-6">Montant actuel: <span className="font-mono">{card?.amount || '0.00'}€</span></p>
+            <p className="mb-6">Montant actuel: <span className="font-mono">{card ? card.amount.toFixed(2) : '0.00'}€</span></p>
             
             <div className="space-y-4">
+              {packages.length > 0 && (
+                <div className="grid grid-cols-2 gap-2">
+                  {packages.map(pkg => (
+                    <Button
+                      key={pkg.id}
+                      type="button"
+                      variant="outline"
+                      className={`h-auto flex flex-col py-2 text-black ${selectedPackageId === pkg.id ? 'bg-amber-200 border-amber-500' : 'bg-white/80'}`}
+                      onClick={() => selectPackage(pkg)}
+                      disabled={stripeProcessing}
+                    >
+                      <span className="font-bold">{Number(pkg.amount).toFixed(2)}€</span>
+                      {pkg.bonus_amount > 0 && (
+                        <span className="text-xs text-green-700">+{Number(pkg.bonus_amount).toFixed(2)}€ offerts</span>
+                      )}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
               <div>
                 <label htmlFor="amount" className="block text-sm mb-1">Montant à recharger (€)</label>
                 <Input
                   id="amount"
                   type="number"
                   value={amount}
-                  onChange={(e) => setAmount(e.target.value)}
+                  onChange={(e) => handleAmountChange(e.target.value)}
                   placeholder="0.00"
                   min="0"
                   step="0.01"
                   className="bg-white/80 border-amber-200 placeholder:text-amber-800/50 w-full text-black"
                 />
               </div>
+
+              <div>
+                <label htmlFor="promo-code" className="block text-sm mb-1">Code promo (optionnel)</label>
+                <div className="flex gap-2">
+                  <Input
+                    id="promo-code"
+                    value={promoCode}
+                    onChange={(e) => { setPromoCode(e.target.value.toUpperCase()); setQuote(null); setQuoteError(null); }}
+                    placeholder="CODE"
+                    className="bg-white/80 border-amber-200 placeholder:text-amber-800/50 w-full text-black uppercase"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="bg-transparent text-white border-white hover:bg-white/10"
+                    onClick={refreshQuote}
+                    disabled={stripeProcessing || !amount || (!promoCode.trim() && !selectedPackageId)}
+                  >
+                    Appliquer
+                  </Button>
+                </div>
+              </div>
+
+              {quoteError && (
+                <div className="bg-red-500/20 text-white p-3 rounded-md flex items-center">
+                  <AlertCircle className="h-5 w-5 mr-2" />
+                  {quoteError}
+                </div>
+              )}
+
+              {quote && quote.bonus_amount > 0 && (
+                <div className="bg-green-500/20 text-white p-3 rounded-md flex items-center">
+                  <Gift className="h-5 w-5 mr-2" />
+                  Bonus de {quote.bonus_amount.toFixed(2)}€ : {quote.total_credit.toFixed(2)}€ crédités sur votre carte
+                </div>
+              )}
               
               {stripeError && (
                 <div className="bg-red-500/20 text-white p-3 rounded-md flex items-center">
@@ -178,6 +337,10 @@ const Payment: React.FC = () => {
                 Annuler
               </Button>
             </div>
+
+            <div className="mt-6 pt-6 border-t border-white/20">
+              <CardStatement cardId={id!} secret={secret} />
+            </div>
           </div>
         </div>
       </ChateauCard>
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { toDataURL } from 'qrcode';
+import ChateauBackground from '@/components/ChateauBackground';
+import ChateauCard from '@/components/ChateauCard';
+import ChateauLogo from '@/components/ChateauLogo';
+import { Button } from "@/components/ui/button";
+import { Loader2, QrCode } from "lucide-react";
+
+// QR code of a payment session for providers without a hosted checkout page.
+// The card is credited by the provider webhook, like a Stripe payment.
+const PaymentQr: React.FC = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [qrImage, setQrImage] = useState<string | null>(null);
+
+  const params = new URLSearchParams(location.search);
+  const cardId = params.get('card_id') || '';
+  const amount = params.get('amount') || '';
+  const sessionId = params.get('session_id') || '';
+  const payload = params.get('payload') || '';
+
+  useEffect(() => {
+    if (!payload) return;
+    toDataURL(payload, { errorCorrectionLevel: 'M', margin: 1, width: 256 })
+      .then(setQrImage)
+      .catch(error => console.error('Failed to render payment QR code:', error));
+  }, [payload]);
+
+  const handlePaid = () => {
+    const successParams = new URLSearchParams({ card_id: cardId, amount, session_id: sessionId });
+    navigate(`/payment-success?${successParams.toString()}`);
+  };
+
+  return (
+    <ChateauBackground>
+      <ChateauCard className="w-full max-w-md">
+        <div className="flex flex-col items-center justify-center space-y-6">
+          <ChateauLogo />
+          <div className="text-white text-center w-full">
+            <h2 className="text-xl font-bold mb-4">Scannez pour payer</h2>
+            {!payload ? (
+              <p className="mb-6">Paramètres de paiement manquants.</p>
+            ) : (
+              <>
+                <p className="mb-2">Carte: <span className="font-mono">{cardId}</span></p>
+                <p className="mb-6">Montant: <span className="font-mono">{parseFloat(amount || '0').toFixed(2)}€</span></p>
+                <div className="flex justify-center mb-6">
+                  {qrImage ? (
+                    <img src={qrImage} alt="QR code de paiement" className="bg-white p-2 rounded-md w-64 h-64" />
+                  ) : (
+                    <Loader2 className="h-8 w-8 animate-spin" />
+                  )}
+                </div>
+                <p className="text-xs text-white/70 mb-4">
+                  Scannez le code avec votre application bancaire puis confirmez le paiement.
+                  Votre carte est rechargée dès que le paiement est reçu.
+                </p>
+              </>
+            )}
+
+            <div className="space-y-4">
+              <Button
+                className="w-full flex items-center justify-center bg-blue-600 hover:bg-blue-700 text-white"
+                onClick={handlePaid}
+                disabled={!payload}
+              >
+                <QrCode className="h-4 w-4 mr-2" />
+                J'ai payé
+              </Button>
+              <Button
+                variant="outline"
+                className="w-full bg-transparent text-white border-white hover:bg-white/10"
+                onClick={() => navigate(cardId ? `/payment/${cardId}` : '/')}
+              >
+                Annuler
+              </Button>
+            </div>
+          </div>
+        </div>
+      </ChateauCard>
+    </ChateauBackground>
+  );
+};
+
+export default PaymentQr;
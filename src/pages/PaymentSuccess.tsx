@@ -5,7 +5,8 @@ import ChateauCard from '@/components/ChateauCard';
 import ChateauLogo from '@/components/ChateauLogo';
 import { Button } from "@/components/ui/button";
 import { CheckCircle, CreditCard, Loader2, Euro } from "lucide-react";
-import { getTableCardById, updateTableCardAmount, TableCard } from '@/lib/supabase';
+import { TableCard } from '@/lib/supabase';
+import { lookupCard, getRememberedCardSecret } from '@/lib/card-access';
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from '@/hooks/use-toast';
 
@@ -159,11 +160,13 @@ const PaymentSuccess: React.FC = () => {
       // If we don't have a known balance, add a delay before fetching to allow for consistency
       await new Promise(resolve => setTimeout(resolve, 1000));
       
-      const cardData = await getTableCardById(id);
+      const result = await lookupCard(id, getRememberedCardSecret(id));
       
-      if (!cardData) {
-        throw new Error("Données de carte non trouvées");
+      if (!result.success) {
+        throw new Error(result.error || "Données de carte non trouvées");
       }
+
+      const cardData: TableCard = { id: result.card!.id, amount: result.card!.amount.toString() };
       
       console.log('Données de carte récupérées:', cardData);
       setCard(cardData);
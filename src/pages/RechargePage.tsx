@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from "@/components/ui/button";
 import ChateauLogo from '@/components/ChateauLogo';
 import CardTopup from '@/components/admin/CardTopup';
+import RechargeShiftPanel from '@/components/admin/RechargeShiftPanel';
 import { Home, LogOut, History } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useAuth } from '@/hooks/use-auth';
@@ -147,6 +148,8 @@ const RechargePage: React.FC = () => {
             Recharge de Carte
           </h1>
           
+          <RechargeShiftPanel refreshKey={refreshTrigger} />
+
           <div className="mt-2 sm:mt-4">
             <CardTopup onSuccess={handleRechargeSuccess} />
           </div>
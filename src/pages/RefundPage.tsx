@@ -8,7 +8,7 @@ import { Card } from "@/components/ui/card";
 import { Home } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from "@/integrations/supabase/client";
+import { submitRefundRequest } from '@/lib/card-access';
 import ChateauLogo from '@/components/ChateauLogo';
 
 const RefundPage: React.FC = () => {
@@ -17,11 +17,13 @@ const RefundPage: React.FC = () => {
   const { toast } = useToast();
   
   const [cardId, setCardId] = useState('');
+  const [cardSecret, setCardSecret] = useState('');
   const [firstName, setFirstName] = useState('');
   const [lastName, setLastName] = useState('');
   const [email, setEmail] = useState('');
   const [account, setAccount] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [trackingRef, setTrackingRef] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -36,28 +38,39 @@ const RefundPage: React.FC = () => {
     }
 
     setIsSubmitting(true);
+    setTrackingRef(null);
     
     try {
-      // Insert into refunds table - using column names with spaces properly
-      const { error } = await supabase
-        .from('refunds')
-        .insert({
-          id_card: cardId,
-          'first name': firstName,
-          'last name': lastName,
-          email: email,
-          account: account  // Store as string in the database
+      // The card code (if the card has one) is checked server-side
+      const result = await submitRefundRequest({
+        cardId,
+        secret: cardSecret,
+        firstName,
+        lastName,
+        email,
+        account
+      });
+
+      if (!result.success) {
+        toast({
+          title: "Demande refusée",
+          description: result.error || "Une erreur est survenue lors de l'envoi de votre demande",
+          variant: "destructive"
         });
+        return;
+      }
       
-      if (error) throw error;
-      
+      setTrackingRef(result.trackingRef ?? null);
       toast({
         title: "Demande envoyée",
-        description: "Votre demande de remboursement a été enregistrée avec succès"
+        description: result.confirmationSent
+          ? "Votre demande de remboursement a été enregistrée, une confirmation vous a été envoyée par email"
+          : "Votre demande de remboursement a été enregistrée avec succès"
       });
       
       // Reset the form
       setCardId('');
+      setCardSecret('');
       setFirstName('');
       setLastName('');
       setEmail('');
@@ -102,6 +115,14 @@ const RefundPage: React.FC = () => {
             <p>Des frais de traitement de 2€ seront déduits du montant de votre remboursement.</p>
           </div>
           
+          {trackingRef && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-md text-sm">
+              <p className="font-medium">Demande enregistrée</p>
+              <p>Votre référence de suivi : <strong>{trackingRef}</strong></p>
+              <p>Conservez-la pour toute question concernant votre remboursement.</p>
+            </div>
+          )}
+          
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="card-id">Numéro de carte</Label>
@@ -113,6 +134,19 @@ const RefundPage: React.FC = () => {
                 disabled={isSubmitting}
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="card-secret">Code de la carte</Label>
+              <Input
+                id="card-secret"
+                value={cardSecret}
+                onChange={(e) => setCardSecret(e.target.value.toUpperCase())}
+                placeholder="Code imprimé sur votre carte"
+                autoComplete="off"
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-gray-500">Uniquement si un code est imprimé sur votre carte</p>
+            </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -1,15 +1,17 @@
 
 import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useToast } from "@/components/ui/use-toast";
 import ChateauBackground from '@/components/ChateauBackground';
 import ChateauCard from '@/components/ChateauCard';
 import ChateauLogo from '@/components/ChateauLogo';
 import { Loader2 } from "lucide-react";
-import { getTableCardById } from '@/lib/supabase';
+import { CARD_SECRET_PARAM, lookupCard, rememberCardSecret } from '@/lib/card-access';
 
 const ScanRedirect: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const secret = searchParams.get(CARD_SECRET_PARAM) || undefined;
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
@@ -24,17 +26,22 @@ const ScanRedirect: React.FC = () => {
       }
 
       try {
-        // Vérifier si la carte existe
-        const card = await getTableCardById(id);
-        
-        if (!card) {
-          setError("Carte non trouvée");
+        // Vérifier si la carte existe (avec le code du QR code s'il y en a un)
+        const result = await lookupCard(id, secret);
+
+        if (!result.success && result.error_code !== 'SECRET_REQUIRED' && result.error_code !== 'INVALID_SECRET') {
+          setError(result.error || "Carte non trouvée");
           setLoading(false);
           return;
         }
 
-        // Si la carte existe, rediriger vers la page de paiement
-        navigate(`/payment/${id}`);
+        if (result.success && secret) {
+          rememberCardSecret(id, secret);
+        }
+
+        // Rediriger vers la page de paiement, qui demandera le code si nécessaire;
+        // le code ne reste pas dans l'historique du navigateur
+        navigate(`/payment/${id}`, { replace: true });
       } catch (err) {
         console.error('Erreur lors de la validation de la carte:', err);
         setError("Une erreur s'est produite lors de la vérification de la carte");
@@ -43,7 +50,7 @@ const ScanRedirect: React.FC = () => {
     };
 
     validateAndRedirect();
-  }, [id, navigate, toast]);
+  }, [id, secret, navigate, toast]);
 
   if (error) {
     return (
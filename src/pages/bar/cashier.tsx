@@ -1,184 +1,139 @@
-import { useEffect, useState } from 'react';
-import Layout from '@/components/layout';
-import AppHeader from '@/components/AppHeader';
+import { useState } from 'react';
+import ChateauLogo from '@/components/ChateauLogo';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { loadTableCards, TableCard, updateTableCardAmount, createCashTransaction } from '@/lib/supabase';
+import { Textarea } from '@/components/ui/textarea';
+import { getTableCardById, generateClientRequestId, TableCard } from '@/lib/supabase';
+import {
+  AdjustmentDirection,
+  MAX_ADJUSTMENT_REASON_LENGTH,
+  processManualAdjustment,
+  validateManualAdjustment,
+} from '@/lib/manual-adjustments';
 import { toast } from '@/hooks/use-toast';
-import { Loader2 } from 'lucide-react';
-import { useReloadOnFocus } from '@/hooks/use-reload-on-focus';
+import { useStepUp } from '@/hooks/use-step-up';
+import { Loader2, Search } from 'lucide-react';
 import { logger } from '@/lib/logger';
 
 export default function CashierPage() {
-  useReloadOnFocus();
   const [isWorking, setIsWorking] = useState(false);
+  const [isLookingUp, setIsLookingUp] = useState(false);
   const [cardId, setCardId] = useState('');
+  const [card, setCard] = useState<TableCard | null>(null);
   const [amount, setAmount] = useState('');
-  const [action, setAction] = useState<'deposit' | 'withdraw'>('deposit');
-  const [cards, setCards] = useState<TableCard[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Load all cards on page load
-  useEffect(() => {
-    logger.info('Cashier page initialized');
-    
-    const loadCards = async () => {
-      setIsLoading(true);
-      try {
-        const loadedCards = await loadTableCards();
-        setCards(loadedCards);
-        logger.info('Loaded cards for cashier page', { cardCount: loadedCards.length });
-      } catch (error) {
-        logger.error('Error loading cards for cashier page', error);
-        toast({
-          title: 'Erreur',
-          description: "Impossible de charger les cartes",
-          variant: 'destructive',
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadCards();
-  }, []);
+  const [reason, setReason] = useState('');
+  const [action, setAction] = useState<AdjustmentDirection>('deposit');
+  // One id per attempt: a retry after a network error is replayed, not applied twice
+  const [clientRequestId, setClientRequestId] = useState(generateClientRequestId);
+  const { requestStepUp, stepUpDialog } = useStepUp();
 
   // Handle amount change
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     // Allow only numbers and a single decimal point
     const value = e.target.value.replace(/[^0-9.]/g, '');
-    
+
     // Ensure only one decimal point
     const parts = value.split('.');
-    const sanitized = parts.length > 1 
+    const sanitized = parts.length > 1
       ? `${parts[0]}.${parts.slice(1).join('')}`
       : value;
-    
+
     setAmount(sanitized);
   };
 
-  // Process the transaction
-  const processTransaction = async () => {
-    if (!cardId) {
+  const lookupCard = async () => {
+    if (!cardId.trim()) {
+      return;
+    }
+
+    setIsLookingUp(true);
+    const found = await getTableCardById(cardId.trim());
+    setCard(found);
+    setIsLookingUp(false);
+
+    if (!found) {
       toast({
         title: 'Erreur',
-        description: "Veuillez entrer l'ID de la carte",
+        description: "Carte non trouvée",
         variant: 'destructive',
       });
-      return;
     }
+  };
+
+  // Process the transaction
+  const processTransaction = async () => {
+    const amountFloat = parseFloat(amount);
+    const input = { cardId, amount: amountFloat, direction: action, reason, clientRequestId };
 
-    if (!amount || parseFloat(amount) <= 0) {
+    const errors = validateManualAdjustment(input);
+    if (errors.length > 0) {
       toast({
         title: 'Erreur',
-        description: "Veuillez entrer un montant valide",
+        description: errors[0],
         variant: 'destructive',
       });
       return;
     }
 
+    // Balance adjustments require a fresh second factor
+    if (!await requestStepUp("L'ajustement du solde")) return;
+
     setIsWorking(true);
-    const amountFloat = parseFloat(amount);
-    
-    try {
-      // Find the card
-      const card = cards.find(c => c.id === cardId.trim());
-      
-      if (!card) {
-        toast({
-          title: 'Erreur',
-          description: "Carte non trouvée",
-          variant: 'destructive',
-        });
-        logger.error('Card not found for cash transaction', { cardId });
-        setIsWorking(false);
-        return;
-      }
 
+    try {
       // Log the transaction details
       logger.payment('cash_transaction_initiated', {
         cardId,
-        currentBalance: parseFloat(card.amount || '0'),
         amount: amountFloat,
-        action
+        action,
+        clientRequestId
       });
 
-      // Calculate new amount
-      const currentAmount = parseFloat(card.amount || '0');
-      const newAmount = action === 'deposit' 
-        ? currentAmount + amountFloat 
-        : currentAmount - amountFloat;
-      
-      // Verify sufficient funds for withdrawal
-      if (action === 'withdraw' && newAmount < 0) {
+      const result = await processManualAdjustment(input);
+
+      if (!result.success) {
+        if (result.error_code === 'INSUFFICIENT_BALANCE') {
+          logger.payment('cash_transaction_insufficient_funds', {
+            cardId,
+            requestedWithdrawal: amountFloat
+          });
+        }
+
         toast({
           title: 'Erreur',
-          description: "Solde insuffisant pour ce retrait",
+          description: result.error || "Une erreur s'est produite lors du traitement de la transaction",
           variant: 'destructive',
         });
-        logger.payment('cash_transaction_insufficient_funds', {
-          cardId,
-          currentBalance: currentAmount,
-          requestedWithdrawal: amountFloat,
-          deficit: Math.abs(newAmount)
-        });
-        setIsWorking(false);
         return;
       }
 
-      // First create the transaction record
-      const transactionResult = await createCashTransaction({
-        card_id: cardId.trim(),
-        amount: amountFloat,
-        type: action
-      });
-
-      if (!transactionResult.success) {
-        throw new Error("Failed to create transaction record");
-      }
-
-      // Then update the card balance
-      const updateResult = await updateTableCardAmount(cardId.trim(), newAmount.toString());
-      
-      if (!updateResult.success) {
-        throw new Error("Failed to update card balance");
-      }
-      
       // Log successful transaction
       logger.payment('cash_transaction_success', {
         cardId,
-        previousBalance: currentAmount,
+        previousBalance: result.previousBalance,
         amount: amountFloat,
-        newBalance: newAmount,
+        newBalance: result.newBalance,
         action,
-        transactionId: transactionResult.id
+        adjustmentId: result.adjustment?.id
       });
 
-      // Update the local card data
-      const updatedCards = cards.map(c => {
-        if (c.id === cardId.trim()) {
-          return { ...c, amount: newAmount.toString() };
-        }
-        return c;
-      });
-      
-      setCards(updatedCards);
-      
       // Show success message
       toast({
         title: 'Succès',
-        description: action === 'deposit' 
-          ? `${amount}€ ajoutés à la carte. Nouveau solde: ${newAmount.toFixed(2)}€`
-          : `${amount}€ retirés de la carte. Nouveau solde: ${newAmount.toFixed(2)}€`,
+        description: action === 'deposit'
+          ? `${amountFloat.toFixed(2)}€ ajoutés à la carte. Nouveau solde: ${result.newBalance!.toFixed(2)}€`
+          : `${amountFloat.toFixed(2)}€ retirés de la carte. Nouveau solde: ${result.newBalance!.toFixed(2)}€`,
       });
-      
-      // Reset form
-      setCardId('');
+
+      // Reset form for the next transaction
+      setCard(card ? { ...card, amount: result.newBalance!.toString() } : card);
       setAmount('');
+      setReason('');
       setAction('deposit');
-      
+      setClientRequestId(generateClientRequestId());
+
     } catch (error) {
       logger.error('Error processing cash transaction', {
         error,
@@ -186,7 +141,7 @@ export default function CashierPage() {
         amount: amountFloat,
         action
       });
-      
+
       toast({
         title: 'Erreur',
         description: "Une erreur s'est produite lors du traitement de la transaction",
@@ -198,26 +153,45 @@ export default function CashierPage() {
   };
 
   return (
-    <Layout>
-      <AppHeader title="Caisse" />
-      
+    <div className="min-h-screen bg-gray-50">
+      {stepUpDialog}
       <div className="container mx-auto p-4">
+        <div className="flex items-center mb-6 space-x-4">
+          <ChateauLogo />
+          <h1 className="text-2xl font-bold">Caisse</h1>
+        </div>
+
         <Card className="w-full max-w-md mx-auto">
           <CardHeader>
             <CardTitle>Gestion des espèces</CardTitle>
           </CardHeader>
-          
+
           <CardContent className="space-y-4">
             <div className="space-y-2">
               <Label htmlFor="cardId">ID de la carte</Label>
-              <Input
-                id="cardId"
-                placeholder="Entrez l'ID de la carte"
-                value={cardId}
-                onChange={(e) => setCardId(e.target.value)}
-              />
+              <div className="flex space-x-2">
+                <Input
+                  id="cardId"
+                  placeholder="Entrez l'ID de la carte"
+                  value={cardId}
+                  onChange={(e) => {
+                    setCardId(e.target.value);
+                    setCard(null);
+                    setClientRequestId(generateClientRequestId());
+                  }}
+                  onBlur={lookupCard}
+                />
+                <Button variant="outline" onClick={lookupCard} disabled={isLookingUp}>
+                  {isLookingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                </Button>
+              </div>
+              {card && (
+                <div className="text-sm text-gray-600">
+                  Solde actuel: {parseFloat(card.amount || '0').toFixed(2)}€
+                </div>
+              )}
             </div>
-            
+
             <div className="space-y-2">
               <Label htmlFor="amount">Montant (€)</Label>
               <Input
@@ -225,32 +199,52 @@ export default function CashierPage() {
                 type="text"
                 placeholder="0.00"
                 value={amount}
-                onChange={handleAmountChange}
+                onChange={(e) => {
+                  handleAmountChange(e);
+                  setClientRequestId(generateClientRequestId());
+                }}
               />
             </div>
-            
+
             <div className="flex space-x-2 pt-2">
               <Button
                 variant={action === 'deposit' ? 'default' : 'outline'}
                 className="flex-1"
-                onClick={() => setAction('deposit')}
+                onClick={() => {
+                  setAction('deposit');
+                  setClientRequestId(generateClientRequestId());
+                }}
               >
                 Dépôt
               </Button>
               <Button
-                variant={action === 'withdraw' ? 'default' : 'outline'} 
+                variant={action === 'withdraw' ? 'default' : 'outline'}
                 className="flex-1"
-                onClick={() => setAction('withdraw')}
+                onClick={() => {
+                  setAction('withdraw');
+                  setClientRequestId(generateClientRequestId());
+                }}
               >
                 Retrait
               </Button>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reason">Motif</Label>
+              <Textarea
+                id="reason"
+                placeholder="Ex: dépôt d'espèces au bar, correction d'erreur de saisie..."
+                value={reason}
+                maxLength={MAX_ADJUSTMENT_REASON_LENGTH}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
           </CardContent>
-          
+
           <CardFooter>
-            <Button 
-              className="w-full" 
-              disabled={isWorking}
+            <Button
+              className="w-full"
+              disabled={isWorking || !reason.trim()}
               onClick={processTransaction}
             >
               {isWorking ? (
@@ -264,27 +258,7 @@ export default function CashierPage() {
             </Button>
           </CardFooter>
         </Card>
-        
-        {isLoading ? (
-          <div className="flex justify-center mt-8">
-            <Loader2 className="h-8 w-8 animate-spin" />
-          </div>
-        ) : (
-          <div className="mt-8">
-            <h2 className="text-xl font-bold mb-4">Cartes disponibles</h2>
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-              {cards.map(card => (
-                <Card key={card.id} className="cursor-pointer hover:bg-muted/50" onClick={() => setCardId(card.id)}>
-                  <CardContent className="p-4">
-                    <div className="font-bold">{card.id}</div>
-                    <div>Solde: {parseFloat(card.amount || '0').toFixed(2)}€</div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-          </div>
-        )}
       </div>
-    </Layout>
+    </div>
   );
-} 
\ No newline at end of file
+}
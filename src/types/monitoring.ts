@@ -405,6 +405,24 @@ export interface BalanceDiscrepancyDetectionResult {
   readonly error?: string;
   readonly balance_mismatches?: number;
   readonly negative_balances?: number;
+  readonly cards_checked?: number;
+  readonly total_drift?: number;
+  readonly reconciliation_id?: number;
+  readonly reconciled_at?: string | null;
+}
+
+/**
+ * Summary returned by reconcile_card_ledger() and stored per run in
+ * card_ledger_reconciliations
+ */
+export interface LedgerReconciliationSummary {
+  readonly success: boolean;
+  readonly reconciliation_id: number;
+  readonly cards_checked: number;
+  readonly balance_mismatches: number;
+  readonly negative_balances: number;
+  readonly total_drift: number;
+  readonly events_created: number;
 }
 
 /**
@@ -449,6 +467,17 @@ export interface RaceConditionDetectionResult {
   readonly concurrent_transactions?: number;
 }
 
+/**
+ * Cash drawer discrepancy detection result
+ */
+export interface CashDrawerDiscrepancyDetectionResult {
+  readonly detection_type: 'cash_drawer_discrepancies';
+  readonly events_created: number;
+  readonly detection_timestamp: string;
+  readonly success: boolean;
+  readonly error?: string;
+}
+
 /**
  * Combined detection cycle result
  */
@@ -462,6 +491,7 @@ export interface MonitoringDetectionCycleResult {
     readonly balance_discrepancies: BalanceDiscrepancyDetectionResult;
     readonly duplicate_nfc_scans: DuplicateNFCDetectionResult;
     readonly race_conditions: RaceConditionDetectionResult;
+    readonly cash_drawer_discrepancies: CashDrawerDiscrepancyDetectionResult;
   };
   readonly success: boolean;
   readonly errors?: string[];
@@ -896,7 +926,8 @@ export type AnyDetectionResult =
   | TransactionFailureDetectionResult
   | BalanceDiscrepancyDetectionResult
   | DuplicateNFCDetectionResult
-  | RaceConditionDetectionResult;
+  | RaceConditionDetectionResult
+  | CashDrawerDiscrepancyDetectionResult;
 
 /**
  * Union type for all API responses
@@ -0,0 +1,130 @@
+/**
+ * Tests for the camt.053 / camt.054 bank statement parser
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { parseCamtStatement, CamtStatement } from '../_shared/camt-statement.ts';
+
+const CAMT_053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr>
+      <MsgId>STMT20261021001</MsgId>
+      <CreDtTm>2026-10-21T06:00:00</CreDtTm>
+    </GrpHdr>
+    <Stmt>
+      <Id>BE68539007547034-2026-10-21</Id>
+      <Ntry>
+        <Amt Ccy="EUR">44.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-10-20</Dt></BookgDt>
+        <NtryDtls>
+          <Btch><NbOfTxs>2</NbOfTxs></Btch>
+          <TxDtls>
+            <Refs><MsgId>CBC20261019120000_042</MsgId><EndToEndId>REFUND_000012</EndToEndId></Refs>
+            <AmtDtls><TxAmt><Amt Ccy="EUR">18.50</Amt></TxAmt></AmtDtls>
+          </TxDtls>
+          <TxDtls>
+            <Refs><EndToEndId>REFUND_000013</EndToEndId></Refs>
+            <AmtDtls><TxAmt><Amt Ccy="EUR">25.50</Amt></TxAmt></AmtDtls>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">25.50</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-10-21</Dt></BookgDt>
+        <NtryDtls>
+          <TxDtls>
+            <Refs><EndToEndId>REFUND_000013</EndToEndId></Refs>
+            <RtrInf><Rsn><Cd>AC04</Cd></Rsn></RtrInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">9.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <NtryDtls>
+          <TxDtls><Refs><EndToEndId>REFUND_000014</EndToEndId></Refs></TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">120.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2026-10-21</Dt></BookgDt>
+        <NtryDtls>
+          <TxDtls><Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs></TxDtls>
+        </NtryDtls>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const CAMT_054 = `<?xml version="1.0" encoding="UTF-8"?>
+<ns:Document xmlns:ns="urn:iso:std:iso:20022:tech:xsd:camt.054.001.08">
+  <ns:BkToCstmrDbtCdtNtfctn>
+    <ns:GrpHdr><ns:MsgId>NTF-7781</ns:MsgId></ns:GrpHdr>
+    <ns:Ntfctn>
+      <ns:Ntry>
+        <ns:Amt Ccy="EUR">18.50</ns:Amt>
+        <ns:CdtDbtInd>DBIT</ns:CdtDbtInd>
+        <ns:RvslInd>true</ns:RvslInd>
+        <ns:Sts><ns:Cd>BOOK</ns:Cd></ns:Sts>
+        <ns:BookgDt><ns:DtTm>2026-10-23T10:15:00+02:00</ns:DtTm></ns:BookgDt>
+        <ns:NtryDtls>
+          <ns:TxDtls>
+            <ns:Refs><ns:EndToEndId>REFUND_000012</ns:EndToEndId></ns:Refs>
+            <ns:RtrInf><ns:AddtlInf>Beneficiary deceased</ns:AddtlInf></ns:RtrInf>
+          </ns:TxDtls>
+        </ns:NtryDtls>
+      </ns:Ntry>
+    </ns:Ntfctn>
+  </ns:BkToCstmrDbtCdtNtfctn>
+</ns:Document>`;
+
+function parse(xml: string): CamtStatement {
+  const result = parseCamtStatement(xml);
+  if (result.kind !== 'statement') {
+    throw new Error(`Expected a statement, got: ${result.error}`);
+  }
+  return result.statement;
+}
+
+Deno.test('parseCamtStatement - reads executed and returned transfers from a camt.053', () => {
+  const statement = parse(CAMT_053);
+
+  assertEquals(statement.type, 'camt.053');
+  assertEquals(statement.message_id, 'STMT20261021001');
+  assertEquals(statement.skipped_entries, 1);
+  assertEquals(statement.transactions, [
+    { end_to_end_id: 'REFUND_000012', amount: 18.5, currency: 'EUR', outcome: 'paid', booking_date: '2026-10-20', return_reason: null },
+    { end_to_end_id: 'REFUND_000013', amount: 25.5, currency: 'EUR', outcome: 'paid', booking_date: '2026-10-20', return_reason: null },
+    { end_to_end_id: 'REFUND_000013', amount: 25.5, currency: 'EUR', outcome: 'returned', booking_date: '2026-10-21', return_reason: 'AC04' },
+  ]);
+});
+
+Deno.test('parseCamtStatement - reads a prefixed camt.054 with structured status', () => {
+  const statement = parse(CAMT_054);
+
+  assertEquals(statement.type, 'camt.054');
+  assertEquals(statement.message_id, 'NTF-7781');
+  assertEquals(statement.transactions, [
+    { end_to_end_id: 'REFUND_000012', amount: 18.5, currency: 'EUR', outcome: 'returned', booking_date: '2026-10-23', return_reason: 'Beneficiary deceased' },
+  ]);
+});
+
+Deno.test('parseCamtStatement - rejects other documents', () => {
+  assertEquals(parseCamtStatement(''), { kind: 'invalid', error: 'Empty statement file' });
+  assertEquals(
+    parseCamtStatement('<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03"><CstmrCdtTrfInitn/></Document>'),
+    { kind: 'invalid', error: 'Not a camt.053 or camt.054 document' }
+  );
+  assertEquals(
+    parseCamtStatement('<Document><BkToCstmrStmt><Stmt></Stmt></BkToCstmrStmt></Document>'),
+    { kind: 'invalid', error: 'Missing GrpHdr/MsgId' }
+  );
+});
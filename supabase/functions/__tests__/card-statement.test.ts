@@ -0,0 +1,134 @@
+/**
+ * Tests for the card statement built from the card ledger
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { buildCardStatement, CardStatementInput, LedgerEntryRow } from '../_shared/card-statement.ts';
+
+let nextEntryId = 1;
+
+function ledgerEntry(entry: Partial<LedgerEntryRow> & Pick<LedgerEntryRow, 'entry_type' | 'debit_account' | 'credit_account' | 'amount' | 'created_at'>): LedgerEntryRow {
+  return { id: nextEntryId++, reference_type: null, reference_id: null, description: null, ...entry };
+}
+
+function statementInput(overrides: Partial<CardStatementInput>): CardStatementInput {
+  return {
+    cardId: 'CARD1',
+    currentBalance: 0,
+    ledgerEntries: [],
+    orders: [],
+    orderRefunds: [],
+    refundRequests: [],
+    ...overrides,
+  };
+}
+
+Deno.test('buildCardStatement - lists the card fee and computes balances backwards', () => {
+  const statement = buildCardStatement(statementInput({
+    currentBalance: 13,
+    ledgerEntries: [
+      ledgerEntry({ entry_type: 'recharge', debit_account: 'payments:online', credit_account: 'card:CARD1', amount: '20.00', created_at: '2026-10-21T18:00:00Z' }),
+      ledgerEntry({ entry_type: 'card_fee', debit_account: 'card:CARD1', credit_account: 'card_fees', amount: '2.00', reference_id: 'CARD1:1', created_at: '2026-10-21T18:00:01Z' }),
+      ledgerEntry({ entry_type: 'order', debit_account: 'card:CARD1', credit_account: 'bar_sales', amount: '5.00', reference_id: '42', created_at: '2026-10-21T19:00:00Z' }),
+    ],
+    orders: [{ id: 42, bar_order_items: [{ product_name: 'Bière', quantity: 2, price: '2.50', is_return: false, refunded_quantity: null }] }],
+  }));
+
+  assertEquals(statement.transactions.map(entry => [entry.type, entry.amount, entry.balance_after]), [
+    ['recharge', 20, 20],
+    ['card_fee', -2, 18],
+    ['bar_order', -5, 13],
+  ]);
+  assertEquals(statement.transactions[0].description, 'Recharge en ligne');
+  assertEquals(statement.transactions[2].items?.[0], { product_name: 'Bière', quantity: 2, unit_price: 2.5, is_return: false, refunded_quantity: 0 });
+  assertEquals(statement.opening_balance, 0);
+  assertEquals(statement.totals, { recharged: 20, spent: 5, refunded: 0 });
+});
+
+Deno.test('buildCardStatement - describes voids and transfers from the card side', () => {
+  const statement = buildCardStatement(statementInput({
+    currentBalance: 0,
+    ledgerEntries: [
+      ledgerEntry({ entry_type: 'opening', debit_account: 'opening', credit_account: 'card:CARD1', amount: 10, created_at: '2026-10-20T12:00:00Z' }),
+      ledgerEntry({ entry_type: 'order', debit_account: 'card:CARD1', credit_account: 'bar_sales', amount: 4, reference_id: '7', created_at: '2026-10-20T13:00:00Z' }),
+      ledgerEntry({ entry_type: 'void', debit_account: 'bar_sales', credit_account: 'card:CARD1', amount: 4, reference_id: '3', description: 'Erreur de saisie', created_at: '2026-10-20T13:05:00Z' }),
+      ledgerEntry({ entry_type: 'transfer', debit_account: 'card:CARD1', credit_account: 'card:CARD2', amount: 10, created_at: '2026-10-20T14:00:00Z' }),
+    ],
+    orderRefunds: [{ id: 3, order_id: 7 }],
+  }));
+
+  assertEquals(statement.transactions.map(entry => entry.description), [
+    'Solde reporté',
+    'Commande bar #7',
+    'Annulation de la commande #7',
+    'Solde transféré vers la carte CARD2',
+  ]);
+  assertEquals(statement.transactions.map(entry => entry.balance_after), [10, 6, 10, 0]);
+  assertEquals(statement.totals, { recharged: 0, spent: 4, refunded: 4 });
+});
+
+Deno.test('buildCardStatement - shows an unexplained balance as opening balance', () => {
+  const statement = buildCardStatement(statementInput({
+    currentBalance: 15,
+    ledgerEntries: [
+      ledgerEntry({ entry_type: 'recharge', debit_account: 'payments:cash', credit_account: 'card:CARD1', amount: 10, created_at: '2026-10-21T18:00:00Z' }),
+    ],
+    refundRequests: [{ id: 9, card_balance: '15.00', created_at: '2026-10-22T10:00:00Z' }],
+  }));
+
+  assertEquals(statement.opening_balance, 5);
+  assertEquals(statement.transactions.map(entry => [entry.type, entry.description, entry.amount, entry.balance_after]), [
+    ['recharge', 'Recharge en espèces', 10, 15],
+    ['refund_request', 'Demande de remboursement (15.00€)', 0, 15],
+  ]);
+});
+
+Deno.test('buildCardStatement - lists the recharge bonus and its withdrawal', () => {
+  const statement = buildCardStatement(statementInput({
+    currentBalance: 20,
+    ledgerEntries: [
+      ledgerEntry({ entry_type: 'recharge', debit_account: 'payments:online', credit_account: 'card:CARD1', amount: 20, reference_type: 'recharges', reference_id: '5', created_at: '2026-10-21T18:00:00Z' }),
+      ledgerEntry({ entry_type: 'bonus', debit_account: 'bonus', credit_account: 'card:CARD1', amount: 2, reference_type: 'recharges', reference_id: '5', created_at: '2026-10-21T18:00:00Z' }),
+      ledgerEntry({ entry_type: 'bonus', debit_account: 'card:CARD1', credit_account: 'bonus', amount: 2, reference_type: 'stripe_reversals', reference_id: '1', description: 'refund', created_at: '2026-10-22T09:00:00Z' }),
+    ],
+  }));
+
+  assertEquals(statement.transactions.slice(1).map(entry => [entry.type, entry.description, entry.amount, entry.balance_after]), [
+    ['bonus', 'Bonus de recharge', 2, 22],
+    ['bonus', 'Retrait du bonus de recharge', -2, 20],
+  ]);
+  assertEquals(statement.opening_balance, 0);
+});
+
+Deno.test('buildCardStatement - lists reversed online payments', () => {
+  const statement = buildCardStatement(statementInput({
+    currentBalance: 0,
+    ledgerEntries: [
+      ledgerEntry({ entry_type: 'recharge', debit_account: 'payments:online', credit_account: 'card:CARD1', amount: 20, created_at: '2026-10-21T18:00:00Z' }),
+      ledgerEntry({ entry_type: 'recharge', debit_account: 'payments:online', credit_account: 'card:CARD1', amount: 10, created_at: '2026-10-21T18:30:00Z' }),
+      ledgerEntry({ entry_type: 'stripe_reversal', debit_account: 'card:CARD1', credit_account: 'payments:online', amount: 20, reference_type: 'stripe_reversals', reference_id: '1', description: 'dispute', created_at: '2026-10-23T09:00:00Z' }),
+      ledgerEntry({ entry_type: 'stripe_reversal', debit_account: 'card:CARD1', credit_account: 'payments:online', amount: 10, reference_type: 'stripe_reversals', reference_id: '2', description: 'refund', created_at: '2026-10-23T10:00:00Z' }),
+    ],
+  }));
+
+  assertEquals(statement.transactions.slice(2).map(entry => [entry.type, entry.description, entry.amount, entry.balance_after]), [
+    ['stripe_reversal', 'Contestation du paiement en ligne', -20, 10],
+    ['stripe_reversal', 'Remboursement du paiement en ligne', -10, 0],
+  ]);
+  assertEquals(statement.opening_balance, 0);
+});
+
+Deno.test('buildCardStatement - lists manual adjustments without the staff reason', () => {
+  const statement = buildCardStatement(statementInput({
+    currentBalance: 7,
+    ledgerEntries: [
+      ledgerEntry({ entry_type: 'recharge', debit_account: 'payments:cash', credit_account: 'card:CARD1', amount: 10, created_at: '2026-10-21T18:00:00Z' }),
+      ledgerEntry({ entry_type: 'adjustment', debit_account: 'card:CARD1', credit_account: 'adjustments:manual', amount: 3, reference_type: 'card_adjustments', reference_id: '4', description: 'Double recharge saisie par Paul', created_at: '2026-10-21T18:10:00Z' }),
+    ],
+  }));
+
+  assertEquals(statement.transactions.map(entry => [entry.type, entry.description, entry.amount, entry.balance_after]), [
+    ['recharge', 'Recharge en espèces', 10, 10],
+    ['adjustment', 'Correction du solde', -3, 7],
+  ]);
+});
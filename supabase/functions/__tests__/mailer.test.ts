@@ -0,0 +1,171 @@
+/**
+ * Tests for the shared SMTP mailer against a local SMTP stand-in
+ * (plain TCP on 127.0.0.1, no TLS).
+ */
+
+import { assertEquals, assert, assertRejects, assertStringIncludes, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { sendMail, buildRefundConfirmationEmail, buildMimeMessage, SmtpConfig } from '../_shared/mailer.ts';
+
+interface ReceivedMail {
+  commands: string[];
+  data: string;
+}
+
+interface SmtpStandIn {
+  port: number;
+  received: Promise<ReceivedMail>;
+}
+
+/**
+ * Accepts one SMTP session and records it. rejectRecipient makes the server
+ * answer RCPT TO with 550.
+ */
+function startSmtpStandIn(options: { rejectRecipient?: boolean } = {}): SmtpStandIn {
+  const listener = Deno.listen({ hostname: '127.0.0.1', port: 0 });
+  const port = (listener.addr as Deno.NetAddr).port;
+
+  const received = (async () => {
+    const conn = await listener.accept();
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    const reply = (line: string) => conn.write(encoder.encode(`${line}\r\n`));
+    const commands: string[] = [];
+    let pending = '';
+    let inData = false;
+    let data = '';
+
+    await reply('220 localhost ESMTP stand-in');
+
+    try {
+      const buffer = new Uint8Array(4096);
+      while (true) {
+        const read = await conn.read(buffer);
+        if (read === null) break;
+        pending += decoder.decode(buffer.subarray(0, read));
+
+        let newline: number;
+        while ((newline = pending.indexOf('\r\n')) !== -1) {
+          const line = pending.slice(0, newline);
+          pending = pending.slice(newline + 2);
+
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              await reply('250 queued');
+            } else {
+              data += `${line}\r\n`;
+            }
+            continue;
+          }
+
+          commands.push(line);
+          if (line.startsWith('EHLO')) {
+            await reply('250-localhost');
+            await reply('250 AUTH LOGIN');
+          } else if (line === 'AUTH LOGIN') {
+            await reply('334 VXNlcm5hbWU6');
+          } else if (commands[commands.length - 2] === 'AUTH LOGIN') {
+            await reply('334 UGFzc3dvcmQ6');
+          } else if (commands[commands.length - 3] === 'AUTH LOGIN') {
+            await reply('235 authenticated');
+          } else if (line.startsWith('RCPT TO') && options.rejectRecipient) {
+            await reply('550 mailbox unavailable');
+          } else if (line === 'DATA') {
+            inData = true;
+            await reply('354 end with .');
+          } else if (line === 'QUIT') {
+            await reply('221 bye');
+            break;
+          } else {
+            await reply('250 OK');
+          }
+        }
+      }
+    } finally {
+      conn.close();
+      listener.close();
+    }
+
+    return { commands, data };
+  })();
+
+  return { port, received };
+}
+
+const configFor = (port: number, overrides: Partial<SmtpConfig> = {}): SmtpConfig => ({
+  hostname: '127.0.0.1',
+  port,
+  secure: false,
+  from: 'Château Apéro <noreply@chateau-apero.be>',
+  ...overrides,
+});
+
+const decodeBody = (data: string): string => {
+  const body = data.split('\r\n\r\n')[1].replace(/\r\n/g, '');
+  const binary = atob(body);
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+Deno.test('sendMail - delivers a refund confirmation to the stand-in', async () => {
+  const server = startSmtpStandIn();
+  const message = buildRefundConfirmationEmail({
+    email: 'jeanne@example.org',
+    firstName: 'Jeanne',
+    trackingRef: 'RB-4F2A9C1E7B',
+    cardId: 'CARD001',
+  });
+
+  await sendMail(configFor(server.port), message);
+  const mail = await server.received;
+
+  assertEquals(mail.commands, [
+    'EHLO chateau-apero.be',
+    'MAIL FROM:<noreply@chateau-apero.be>',
+    'RCPT TO:<jeanne@example.org>',
+    'DATA',
+    'QUIT',
+  ]);
+  assertStringIncludes(mail.data, 'To: jeanne@example.org');
+  assertStringIncludes(mail.data, 'Content-Type: text/plain; charset=UTF-8');
+
+  const body = decodeBody(mail.data);
+  assertStringIncludes(body, 'Bonjour Jeanne,');
+  assertStringIncludes(body, 'Votre référence de suivi : RB-4F2A9C1E7B');
+});
+
+Deno.test('sendMail - authenticates when credentials are configured', async () => {
+  const server = startSmtpStandIn();
+
+  await sendMail(configFor(server.port, { username: 'mailer', password: 's3cret' }), {
+    to: 'guest@example.org',
+    subject: 'Test',
+    text: 'Hello',
+  });
+  const mail = await server.received;
+
+  assertEquals(mail.commands.slice(1, 4), ['AUTH LOGIN', btoa('mailer'), btoa('s3cret')]);
+});
+
+Deno.test('sendMail - rejects when the server refuses the recipient', async () => {
+  const server = startSmtpStandIn({ rejectRecipient: true });
+
+  await assertRejects(
+    () => sendMail(configFor(server.port), { to: 'unknown@example.org', subject: 'Test', text: 'Hello' }),
+    Error,
+    'SMTP unexpected reply: 550'
+  );
+  await server.received;
+});
+
+Deno.test('buildMimeMessage - encodes the subject and refuses header injection', () => {
+  const mime = buildMimeMessage('noreply@chateau-apero.be', { to: 'a@b.be', subject: 'Reçu', text: '.' });
+
+  assertStringIncludes(mime, `Subject: =?UTF-8?B?${btoa(String.fromCharCode(...new TextEncoder().encode('Reçu')))}?=`);
+  assert(!mime.includes('\r\n.\r\n'));
+
+  assertThrows(
+    () => buildMimeMessage('noreply@chateau-apero.be', { to: 'a@b.be\r\nBcc: x@y.z', subject: 'Test', text: '' }),
+    Error,
+    'line breaks'
+  );
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for the offline pain.001 XSD validator
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { validatePain001, SchemaViolation } from '../_shared/pain001-validator.ts';
+import { PainVersion } from '../../../src/lib/sepa-bank-profiles.ts';
+
+interface FixtureOptions {
+  executionDate?: string;
+  debtorAgent?: string;
+  amount?: string;
+  creditorIban?: string;
+  creditorName?: string;
+  paymentMethod?: string;
+}
+
+// Same layout as the file written by the process-refunds generator
+function pain001(version: PainVersion, options: FixtureOptions = {}): string {
+  const v03 = version === 'pain.001.001.03';
+  const {
+    executionDate = v03 ? '<ReqdExctnDt>2026-10-20</ReqdExctnDt>' : '<ReqdExctnDt><Dt>2026-10-20</Dt></ReqdExctnDt>',
+    debtorAgent = v03 ? '<BIC>CREGBEBB</BIC>' : '<BICFI>CREGBEBB</BICFI>',
+    amount = '<InstdAmt Ccy="EUR">18.50</InstdAmt>',
+    creditorIban = 'FR7630006000011234567890189',
+    creditorName = 'H&#233;l&#232;ne Lef&#232;vre',
+    paymentMethod = 'TRF',
+  } = options;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:${version}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+    <CstmrCdtTrfInitn>
+        <GrpHdr>
+            <MsgId>CBC20261019120000_042</MsgId>
+            <CreDtTm>2026-10-19T12:00:00</CreDtTm>
+            <NbOfTxs>1</NbOfTxs>
+            <CtrlSum>18.50</CtrlSum>
+            <InitgPty>
+                <Nm>Festival Chateau Apero ASBL</Nm>
+                <Id><OrgId><Othr><Id>0123456789</Id><Issr>KBO-BCE</Issr></Othr></OrgId></Id>
+            </InitgPty>
+        </GrpHdr>
+        <PmtInf>
+            <PmtInfId>PMT_20261019120000</PmtInfId>
+            <PmtMtd>${paymentMethod}</PmtMtd>
+            <BtchBookg>true</BtchBookg>
+            <NbOfTxs>1</NbOfTxs>
+            <CtrlSum>18.50</CtrlSum>
+            <PmtTpInf>
+                <InstrPrty>NORM</InstrPrty>
+                <SvcLvl><Cd>SEPA</Cd></SvcLvl>
+                <CtgyPurp><Cd>SUPP</Cd></CtgyPurp>
+            </PmtTpInf>
+            ${executionDate}
+            <Dbtr>
+                <Nm>Festival Chateau Apero ASBL</Nm>
+                <PstlAdr><Ctry>BE</Ctry><AdrLine>Rue de la Fete 123</AdrLine></PstlAdr>
+            </Dbtr>
+            <DbtrAcct><Id><IBAN>BE68539007547034</IBAN></Id><Ccy>EUR</Ccy></DbtrAcct>
+            <DbtrAgt><FinInstnId>${debtorAgent}</FinInstnId></DbtrAgt>
+            <ChrgBr>SLEV</ChrgBr>
+            <CdtTrfTxInf>
+                <PmtId><InstrId>TXN000012_20261019</InstrId><EndToEndId>REFUND_000012</EndToEndId></PmtId>
+                <Amt>${amount}</Amt>
+                <Cdtr><Nm>${creditorName}</Nm></Cdtr>
+                <CdtrAcct><Id><IBAN>${creditorIban}</IBAN></Id></CdtrAcct>
+                <RmtInf><Ustrd>Remboursement carte CARD012</Ustrd></RmtInf>
+            </CdtTrfTxInf>
+        </PmtInf>
+    </CstmrCdtTrfInitn>
+</Document>`;
+}
+
+function violations(xml: string, version: PainVersion): Pick<SchemaViolation, 'rule' | 'path'>[] {
+  const result = validatePain001(xml, version);
+  return result.kind === 'valid' ? [] : result.violations.map(({ rule, path }) => ({ rule, path }));
+}
+
+const TX = '/Document/CstmrCdtTrfInitn/PmtInf[1]/CdtTrfTxInf[1]';
+
+Deno.test('validatePain001 - accepts generated files in both versions', () => {
+  assertEquals(validatePain001(pain001('pain.001.001.03'), 'pain.001.001.03'), { kind: 'valid' });
+  assertEquals(validatePain001(pain001('pain.001.001.09'), 'pain.001.001.09'), { kind: 'valid' });
+  assertEquals(
+    validatePain001(pain001('pain.001.001.09', { debtorAgent: '<Othr><Id>NOTPROVIDED</Id></Othr>' }), 'pain.001.001.09'),
+    { kind: 'valid' }
+  );
+});
+
+Deno.test('validatePain001 - reports version differences of the execution date and agent BIC', () => {
+  assertEquals(violations(pain001('pain.001.001.03'), 'pain.001.001.09'), [
+    { rule: 'namespace', path: '/Document' },
+    { rule: 'datatype', path: '/Document/CstmrCdtTrfInitn/PmtInf[1]/ReqdExctnDt' },
+    { rule: 'missing', path: '/Document/CstmrCdtTrfInitn/PmtInf[1]/ReqdExctnDt' },
+    { rule: 'unexpected', path: '/Document/CstmrCdtTrfInitn/PmtInf[1]/DbtrAgt/FinInstnId/BIC' },
+  ]);
+});
+
+Deno.test('validatePain001 - reports missing and misplaced elements', () => {
+  const withoutDate = pain001('pain.001.001.03', { executionDate: '' });
+  assertEquals(violations(withoutDate, 'pain.001.001.03'), [
+    { rule: 'missing', path: '/Document/CstmrCdtTrfInitn/PmtInf[1]/ReqdExctnDt' },
+  ]);
+
+  const misplaced = pain001('pain.001.001.03').replace(
+    '<RmtInf><Ustrd>Remboursement carte CARD012</Ustrd></RmtInf>',
+    ''
+  ).replace('<Amt>', '<RmtInf><Ustrd>Remboursement</Ustrd></RmtInf><Amt>');
+  assertEquals(violations(misplaced, 'pain.001.001.03'), [
+    { rule: 'missing', path: `${TX}/Amt` },
+    { rule: 'unexpected', path: `${TX}/Amt` },
+    { rule: 'unexpected', path: `${TX}/Cdtr` },
+    { rule: 'unexpected', path: `${TX}/CdtrAcct` },
+  ]);
+});
+
+Deno.test('validatePain001 - checks simple type facets', () => {
+  const version = 'pain.001.001.03';
+  assertEquals(violations(pain001(version, { creditorIban: 'FR76 3000 6000' }), version), [
+    { rule: 'pattern', path: `${TX}/CdtrAcct/Id/IBAN` },
+  ]);
+  assertEquals(violations(pain001(version, { amount: '<InstdAmt Ccy="EUR">-5.00</InstdAmt>' }), version), [
+    { rule: 'range', path: `${TX}/Amt/InstdAmt` },
+  ]);
+  assertEquals(violations(pain001(version, { amount: '<InstdAmt>5.00</InstdAmt>' }), version), [
+    { rule: 'attribute', path: `${TX}/Amt/InstdAmt/@Ccy` },
+  ]);
+  assertEquals(violations(pain001(version, { creditorName: 'x'.repeat(141) }), version), [
+    { rule: 'length', path: `${TX}/Cdtr/Nm` },
+  ]);
+  assertEquals(violations(pain001(version, { paymentMethod: 'SEPA' }), version), [
+    { rule: 'enumeration', path: '/Document/CstmrCdtTrfInitn/PmtInf[1]/PmtMtd' },
+  ]);
+  assertEquals(violations(pain001(version, { executionDate: '<ReqdExctnDt>2026-02-30</ReqdExctnDt>' }), version), [
+    { rule: 'datatype', path: '/Document/CstmrCdtTrfInitn/PmtInf[1]/ReqdExctnDt' },
+  ]);
+});
+
+Deno.test('validatePain001 - rejects malformed documents', () => {
+  const unclosed = pain001('pain.001.001.03').replace('</Document>', '');
+  assertEquals(validatePain001(unclosed, 'pain.001.001.03'), {
+    kind: 'invalid',
+    violations: [{ rule: 'malformed', path: '/', element: '', type: null, value: null, message: 'Unclosed element <Document>' }],
+  });
+
+  const doctype = '<!DOCTYPE Document [<!ENTITY x "y">]><Document/>';
+  assertEquals(violations(doctype, 'pain.001.001.03'), [{ rule: 'malformed', path: '/' }]);
+});
@@ -0,0 +1,232 @@
+/**
+ * Tests for the shared payment provider layer: the mock QR provider
+ * (checkout, signed webhooks) and provider-agnostic recharge settlement.
+ */
+
+import { assertEquals, assert, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  createMockProvider,
+  signMockWebhook,
+  settleRecharge,
+  MOCK_SIGNATURE_HEADER,
+  MockPaymentEvent,
+  RechargeSettlement,
+} from '../_shared/payment-providers.ts';
+
+const SECRET = 'mock_secret_for_tests';
+
+interface CardRow {
+  id: string;
+  status: string | null;
+  replaced_by: string | null;
+}
+
+interface RpcCall {
+  procedure: string;
+  params: Record<string, unknown>;
+}
+
+// Minimal stand-in for the Supabase client used by settleRecharge
+class MockSettlementStore {
+  cards = new Map<string, CardRow>();
+  rpcCalls: RpcCall[] = [];
+  inserts: Array<{ table: string; row: Record<string, unknown> }> = [];
+  creditedSessions = new Set<string>();
+  rpcError: { message: string } | null = null;
+
+  from(table: string) {
+    return {
+      select: () => ({
+        eq: (_column: string, value: string) => ({
+          maybeSingle: () => Promise.resolve({ data: this.cards.get(value) ?? null, error: null }),
+        }),
+      }),
+      insert: (row: Record<string, unknown>) => {
+        this.inserts.push({ table, row });
+        return Promise.resolve({ error: null });
+      },
+    };
+  }
+
+  rpc(procedure: string, params: Record<string, unknown>) {
+    this.rpcCalls.push({ procedure, params });
+    if (this.rpcError) {
+      return Promise.resolve({ data: null, error: this.rpcError });
+    }
+    if (procedure === 'sp_apply_recharge_bonus') {
+      return Promise.resolve({ data: { success: true, recharge_id: 1, bonus_amount: '5.00' }, error: null });
+    }
+    const sessionId = params.session_id_in as string;
+    if (this.creditedSessions.has(sessionId)) {
+      return Promise.resolve({ data: { success: false, error: 'Duplicate Stripe session' }, error: null });
+    }
+    this.creditedSessions.add(sessionId);
+    return Promise.resolve({ data: { success: true, payment_provider: params.provider_in }, error: null });
+  }
+
+  asClient(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+}
+
+const paidEvent = (overrides: Partial<MockPaymentEvent['data']> = {}): MockPaymentEvent => ({
+  id: 'mock_evt_1',
+  type: 'payment.succeeded',
+  data: {
+    session_id: 'mock_session_1',
+    status: 'paid',
+    metadata: { card_id: 'CARD001', amount: '25.00', client_request_id: 'req-1' },
+    ...overrides,
+  },
+});
+
+const signedHeaders = async (body: string, timestamp?: number) =>
+  new Headers({ [MOCK_SIGNATURE_HEADER]: await signMockWebhook(body, SECRET, timestamp) });
+
+const settlement = (overrides: Partial<RechargeSettlement> = {}): RechargeSettlement => ({
+  sessionId: 'mock_session_1',
+  cardId: 'CARD001',
+  amount: 25,
+  metadata: { card_id: 'CARD001', amount: '25.00' },
+  ...overrides,
+});
+
+Deno.test('Payment Providers - Mock - Checkout Returns A QR Payload', async () => {
+  const provider = createMockProvider(SECRET, 'https://pay.test/qr');
+
+  const session = await provider.createCheckout({
+    cardId: 'CARD001',
+    amount: 12.5,
+    clientRequestId: 'req-1',
+    successUrl: 'https://app.test/payment-success',
+    cancelUrl: 'https://app.test/payment',
+  });
+
+  assertEquals(session.provider, 'mock');
+  assertEquals(session.checkoutUrl, null);
+  assert(session.sessionId.startsWith('mock_'));
+  assert(session.qrPayload!.startsWith(`https://pay.test/qr/${session.sessionId}?`));
+  assert(session.qrPayload!.includes('amount=1250'));
+});
+
+Deno.test('Payment Providers - Mock - Signed Webhook Settles The Session', async () => {
+  const provider = createMockProvider(SECRET);
+  const body = JSON.stringify(paidEvent());
+
+  const event = await provider.verifyWebhook(body, await signedHeaders(body));
+  const parsed = provider.toSettlement(event);
+
+  assertEquals(parsed.kind, 'settle');
+  if (parsed.kind === 'settle') {
+    assertEquals(parsed.settlement.sessionId, 'mock_session_1');
+    assertEquals(parsed.settlement.cardId, 'CARD001');
+    assertEquals(parsed.settlement.amount, 25);
+  }
+});
+
+Deno.test('Payment Providers - Mock - Tampered Or Stale Webhooks Are Rejected', async () => {
+  const provider = createMockProvider(SECRET);
+  const body = JSON.stringify(paidEvent());
+  const headers = await signedHeaders(body);
+
+  await assertRejects(() => provider.verifyWebhook(body.replace('25.00', '250.00'), headers), Error, 'signature mismatch');
+  await assertRejects(
+    async () => provider.verifyWebhook(body, await signedHeaders(body, Math.floor(Date.now() / 1000) - 3600)),
+    Error,
+    'timestamp outside tolerance'
+  );
+  await assertRejects(() => provider.verifyWebhook(body, new Headers()), Error, MOCK_SIGNATURE_HEADER);
+});
+
+Deno.test('Payment Providers - Mock - Unpaid And Other Events Are Not Settled', () => {
+  const provider = createMockProvider(SECRET);
+
+  assertEquals(provider.toSettlement({ ...paidEvent(), type: 'payment.failed' }).kind, 'ignore');
+  assertEquals(provider.toSettlement(paidEvent({ status: 'failed' })).kind, 'invalid');
+
+  const missing = provider.toSettlement(paidEvent({ metadata: { amount: '10' } }));
+  assertEquals(missing.kind, 'invalid');
+  if (missing.kind === 'invalid') {
+    assertEquals(missing.error, 'Missing required metadata fields: card_id');
+  }
+});
+
+Deno.test('Payment Providers - Settlement - Credits The Card With The Provider', async () => {
+  const store = new MockSettlementStore();
+  store.cards.set('CARD001', { id: 'CARD001', status: 'active', replaced_by: null });
+
+  const outcome = await settleRecharge(store.asClient(), 'mock', settlement());
+
+  assertEquals(outcome.status, 'credited');
+  assertEquals(store.rpcCalls.length, 1);
+  assertEquals(store.rpcCalls[0].procedure, 'sp_process_provider_recharge');
+  assertEquals(store.rpcCalls[0].params.provider_in, 'mock');
+  assertEquals(store.rpcCalls[0].params.session_id_in, 'mock_session_1');
+});
+
+Deno.test('Payment Providers - Settlement - Redelivered Session Is Not Credited Twice', async () => {
+  const store = new MockSettlementStore();
+  store.cards.set('CARD001', { id: 'CARD001', status: 'active', replaced_by: null });
+
+  await settleRecharge(store.asClient(), 'mock', settlement());
+  const outcome = await settleRecharge(store.asClient(), 'mock', settlement());
+
+  assertEquals(outcome.status, 'duplicate');
+});
+
+Deno.test('Payment Providers - Settlement - Replaced Card Forwards To Its Replacement', async () => {
+  const store = new MockSettlementStore();
+  store.cards.set('CARD001', { id: 'CARD001', status: 'retired', replaced_by: 'CARD002' });
+  store.cards.set('CARD002', { id: 'CARD002', status: 'active', replaced_by: null });
+
+  const outcome = await settleRecharge(store.asClient(), 'stripe', settlement());
+
+  assertEquals(outcome.status, 'credited');
+  assertEquals(outcome.cardId, 'CARD002');
+  assertEquals(store.rpcCalls[0].params.card_id_in, 'CARD002');
+  assertEquals((store.rpcCalls[0].params.metadata_in as Record<string, string>).original_card_id, 'CARD001');
+});
+
+Deno.test('Payment Providers - Settlement - Inactive Card Is Recorded For Manual Refund', async () => {
+  const store = new MockSettlementStore();
+  store.cards.set('CARD001', { id: 'CARD001', status: 'blocked', replaced_by: null });
+
+  const outcome = await settleRecharge(store.asClient(), 'mock', settlement());
+
+  assertEquals(outcome.status, 'not_credited');
+  assertEquals(store.rpcCalls.length, 0);
+  assertEquals(store.inserts[0].table, 'monitoring_events');
+  assertEquals(store.inserts[0].row.detection_algorithm, 'mock_inactive_card');
+});
+
+Deno.test('Payment Providers - Settlement - Card Blocked During Settlement', async () => {
+  const store = new MockSettlementStore();
+  store.cards.set('CARD001', { id: 'CARD001', status: 'active', replaced_by: null });
+  store.rpcError = { message: 'Card not active: CARD001 is blocked' };
+
+  const outcome = await settleRecharge(store.asClient(), 'mock', settlement());
+
+  assertEquals(outcome.status, 'not_credited');
+  assertEquals(store.inserts.length, 1);
+});
+
+Deno.test('Payment Providers - Settlement - Package Bonus Is Applied On Every Delivery', async () => {
+  const store = new MockSettlementStore();
+  store.cards.set('CARD001', { id: 'CARD001', status: 'active', replaced_by: null });
+  const withPackage = settlement({ metadata: { card_id: 'CARD001', amount: '50.00', package_id: '3', promo_code: 'EARLY' } });
+
+  const credited = await settleRecharge(store.asClient(), 'stripe', withPackage);
+  const redelivered = await settleRecharge(store.asClient(), 'stripe', withPackage);
+
+  assertEquals(credited.status, 'credited');
+  assertEquals(redelivered.status, 'duplicate');
+  const bonusCalls = store.rpcCalls.filter(call => call.procedure === 'sp_apply_recharge_bonus');
+  assertEquals(bonusCalls.length, 2);
+  assertEquals(bonusCalls[0].params.session_id_in, 'mock_session_1');
+  assertEquals(bonusCalls[0].params.package_id_in, 3);
+  assertEquals(bonusCalls[0].params.promo_code_in, 'EARLY');
+  if (credited.status === 'credited') {
+    assertEquals(credited.bonus?.bonus_amount, 5);
+  }
+});
@@ -0,0 +1,53 @@
+/**
+ * Tests for the shared role → permission checks of the edge functions
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts';
+
+// Minimal stand-in for the Supabase client: get_user_permissions only
+function fakeClient(result: { data: unknown; error: { message: string } | null }) {
+  const calls: Record<string, unknown>[] = [];
+  const client = {
+    rpc: (procedure: string, params: Record<string, unknown>) => {
+      calls.push({ procedure, ...params });
+      return Promise.resolve(result);
+    },
+  } as unknown as SupabaseClient;
+  return { client, calls };
+}
+
+Deno.test('loadUserAccess - grants the permissions mapped to the role', async () => {
+  const { client, calls } = fakeClient({
+    data: { role: 'recharge', permissions: ['access_recharge', 'adjust_balances', 'operate_recharge_shifts'] },
+    error: null,
+  });
+
+  const access = await loadUserAccess(client, 'user-1');
+
+  assertEquals(calls, [{ procedure: 'get_user_permissions', user_id_in: 'user-1' }]);
+  assertEquals(roleOf(access), 'recharge');
+  assertEquals(can(access, PERMISSIONS.ADJUST_BALANCES), true);
+  assertEquals(can(access, PERMISSIONS.SUPERVISE_RECHARGE_SHIFTS), false);
+  assertEquals(can(access, PERMISSIONS.MANAGE_USERS), false);
+});
+
+Deno.test('loadUserAccess - users without a profile have no permission', async () => {
+  const { client } = fakeClient({ data: { role: null, permissions: [] }, error: null });
+
+  const access = await loadUserAccess(client, 'user-2');
+
+  assertEquals(access, { kind: 'loaded', role: null, permissions: [] });
+  assertEquals(can(access, PERMISSIONS.ACCESS_BAR), false);
+});
+
+Deno.test('loadUserAccess - a failed lookup grants nothing', async () => {
+  const { client } = fakeClient({ data: null, error: { message: 'connection refused' } });
+
+  const access = await loadUserAccess(client, 'user-3');
+
+  assertEquals(access, { kind: 'error', message: 'connection refused' });
+  assertEquals(roleOf(access), null);
+  assertEquals(can(access, PERMISSIONS.VIEW_REFUND_DATA), false);
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for the shared two-factor step-up helpers
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { checkStepUp, isStepUpFresh, selectTotpFactor, verifyTotpCode } from '../_shared/step-up.ts';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+// Minimal stand-in for the Supabase client: step_up_verifications lookup only
+function fakeClient(result: { data: unknown; error: { message: string } | null }) {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    maybeSingle: () => Promise.resolve(result),
+  };
+  return { from: () => query } as unknown as SupabaseClient;
+}
+
+// Records the Auth requests and answers them in order
+function fakeFetch(responses: Response[]) {
+  const requests: { url: string; body: unknown }[] = [];
+  const fetchFn = ((url: string, init: RequestInit) => {
+    requests.push({ url, body: JSON.parse(String(init.body)) });
+    return Promise.resolve(responses.shift()!);
+  }) as unknown as typeof fetch;
+  return { fetchFn, requests };
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const options = {
+  supabaseUrl: 'https://project.supabase.co',
+  anonKey: 'anon',
+  accessToken: 'token',
+  factorId: 'factor-1',
+  code: '123456',
+};
+
+Deno.test('selectTotpFactor - defaults to the verified TOTP factor', () => {
+  const factors = [
+    { id: 'phone', factor_type: 'phone', status: 'verified' },
+    { id: 'pending', factor_type: 'totp', status: 'unverified' },
+    { id: 'app', factor_type: 'totp', status: 'verified' },
+  ];
+
+  assertEquals(selectTotpFactor(factors)?.id, 'app');
+  assertEquals(selectTotpFactor(factors, 'pending')?.id, 'pending');
+  assertEquals(selectTotpFactor(factors, 'someone-elses-factor'), null);
+  assertEquals(selectTotpFactor(undefined), null);
+});
+
+Deno.test('verifyTotpCode - challenges the factor and returns the aal2 session', async () => {
+  const { fetchFn, requests } = fakeFetch([
+    json({ id: 'challenge-1', type: 'totp' }),
+    json({ access_token: 'aal2-token', refresh_token: 'refresh', expires_in: 3600, token_type: 'bearer', user: {} }),
+  ]);
+
+  const result = await verifyTotpCode(options, fetchFn);
+
+  assertEquals(requests.map(request => request.url), [
+    'https://project.supabase.co/auth/v1/factors/factor-1/challenge',
+    'https://project.supabase.co/auth/v1/factors/factor-1/verify',
+  ]);
+  assertEquals(requests[1].body, { challenge_id: 'challenge-1', code: '123456' });
+  assertEquals(result.kind, 'verified');
+  assertEquals(result.kind === 'verified' && result.session.access_token, 'aal2-token');
+});
+
+Deno.test('verifyTotpCode - a rejected code is reported as invalid', async () => {
+  const { fetchFn } = fakeFetch([
+    json({ id: 'challenge-1', type: 'totp' }),
+    json({ code: 422, error_code: 'mfa_verification_failed', msg: 'Invalid TOTP code entered' }, 422),
+  ]);
+
+  const result = await verifyTotpCode(options, fetchFn);
+
+  assertEquals(result, { kind: 'invalid_code', message: 'Invalid TOTP code entered' });
+});
+
+Deno.test('verifyTotpCode - Auth outages are not counted as invalid codes', async () => {
+  const { fetchFn } = fakeFetch([json({ msg: 'upstream unavailable' }, 503)]);
+
+  const result = await verifyTotpCode(options, fetchFn);
+
+  assertEquals(result, { kind: 'error', status: 503, message: 'upstream unavailable' });
+});
+
+Deno.test('isStepUpFresh - confirmations expire after stepUpMaxAge', () => {
+  assertEquals(isStepUpFresh('2026-10-19T11:56:00Z', NOW), true);
+  assertEquals(isStepUpFresh('2026-10-19T11:54:59Z', NOW), false);
+  assertEquals(isStepUpFresh('2026-10-19T12:01:00Z', NOW), false);
+});
+
+Deno.test('checkStepUp - reports fresh, stale and missing confirmations', async () => {
+  assertEquals(
+    await checkStepUp(fakeClient({ data: { verified_at: '2026-10-19T11:58:00Z' }, error: null }), 'user-1', NOW),
+    { kind: 'fresh', verifiedAt: '2026-10-19T11:58:00Z' }
+  );
+  assertEquals(
+    await checkStepUp(fakeClient({ data: { verified_at: '2026-10-19T10:00:00Z' }, error: null }), 'user-1', NOW),
+    { kind: 'stale', verifiedAt: '2026-10-19T10:00:00Z' }
+  );
+  assertEquals(await checkStepUp(fakeClient({ data: null, error: null }), 'user-1', NOW), { kind: 'missing' });
+  assertEquals(
+    await checkStepUp(fakeClient({ data: null, error: { message: 'timeout' } }), 'user-1', NOW),
+    { kind: 'error', message: 'timeout' }
+  );
+});
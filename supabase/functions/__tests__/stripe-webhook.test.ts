@@ -863,6 +863,490 @@ Deno.test('Stripe Webhook Function - Integration Tests - Metadata Preservation',
   assertEquals(metadata.source, 'mobile-app');
 });
 
+// =====================================================
+// REFUND, DISPUTE AND EXPIRED SESSION TESTS
+// =====================================================
+
+const WEBHOOK_SECRET = 'whsec_test_123';
+
+interface FixtureObject {
+  id: string;
+  object: string;
+  amount?: number;
+  amount_refunded?: number;
+  payment_intent?: string;
+  metadata?: Record<string, string>;
+  [field: string]: unknown;
+}
+
+interface FixtureEvent {
+  id: string;
+  type: string;
+  data: { object: FixtureObject };
+}
+
+interface ReversalParams {
+  stripe_event_id_in: string;
+  reversal_type_in: string;
+  stripe_session_id_in: string;
+  stripe_object_id_in: string;
+  amount_in: number;
+  details_in: Record<string, unknown>;
+}
+
+interface ReversalRecord {
+  stripe_event_id: string;
+  reversal_type: string;
+  stripe_session_id: string;
+  stripe_object_id: string;
+  recharge_id: number | null;
+  card_id: string | null;
+  amount: number;
+  bonus_amount: number;
+  debited_amount: number;
+  uncovered_amount: number;
+  previous_balance?: number;
+  new_balance?: number;
+  card_frozen: boolean;
+  monitoring_event_id?: number | null;
+}
+
+/**
+ * Signs a fixture the way Stripe does: the stripe-signature header carries a
+ * timestamp and an HMAC-SHA256 of "<timestamp>.<payload>" with the endpoint secret
+ */
+async function signFixture(
+  event: FixtureEvent,
+  secret = WEBHOOK_SECRET,
+  timestamp = Math.floor(Date.now() / 1000)
+): Promise<{ body: string; signature: string }> {
+  const body = JSON.stringify(event);
+  return { body, signature: `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}` };
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Same checks as stripe.webhooks.constructEventAsync
+async function constructSignedEvent(body: string, header: string, secret: string, toleranceSeconds = 300): Promise<FixtureEvent> {
+  const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+  if (!parts.t || !parts.v1) {
+    throw new Error('Unable to extract timestamp and signatures from header');
+  }
+  if (Math.abs(Date.now() / 1000 - Number(parts.t)) > toleranceSeconds) {
+    throw new Error('Timestamp outside the tolerance zone');
+  }
+  if (await hmacHex(secret, `${parts.t}.${body}`) !== parts.v1) {
+    throw new Error('No signatures found matching the expected signature for payload');
+  }
+  return JSON.parse(body);
+}
+
+/**
+ * In-memory stand-in for sp_process_stripe_reversal: idempotent per Stripe
+ * event, refunds are cumulative, reversals never exceed the recharge and
+ * withdraw its bonus in proportion, and what the balance cannot cover freezes
+ * the card and raises a monitoring event
+ */
+class MockReversalStore {
+  cards = new Map<string, { amount: number; status: string }>();
+  recharges = new Map<string, { id: number; card_id: string; amount: number; bonus_amount?: number }>();
+  reversals: ReversalRecord[] = [];
+  monitoringEvents: Array<{ event_id: number; event_type: string; card_id: string; affected_amount: number; detection_algorithm: string }> = [];
+  idempotencyKeys = new Map<string, string>();
+
+  rpc(procedure: string, params: ReversalParams): Promise<{
+    data: { success: boolean; duplicate?: boolean; reversal: ReversalRecord } | null;
+    error: { message: string } | null;
+  }> {
+    if (procedure !== 'sp_process_stripe_reversal') {
+      return Promise.resolve({ data: null, error: { message: `Unknown procedure ${procedure}` } });
+    }
+
+    const existing = this.reversals.find(r => r.stripe_event_id === params.stripe_event_id_in);
+    if (existing) {
+      return Promise.resolve({ data: { success: true, duplicate: true, reversal: existing }, error: null });
+    }
+
+    const recharge = this.recharges.get(params.stripe_session_id_in);
+    const base = {
+      stripe_event_id: params.stripe_event_id_in,
+      reversal_type: params.reversal_type_in,
+      stripe_session_id: params.stripe_session_id_in,
+      stripe_object_id: params.stripe_object_id_in,
+      recharge_id: recharge?.id ?? null,
+      card_id: recharge?.card_id ?? null
+    };
+
+    if (params.reversal_type_in === 'session_expired') {
+      const reversal = { ...base, amount: 0, bonus_amount: 0, debited_amount: 0, uncovered_amount: 0, card_frozen: false };
+      this.reversals.push(reversal);
+      return Promise.resolve({ data: { success: true, reversal }, error: null });
+    }
+
+    if (!recharge) {
+      return Promise.resolve({ data: null, error: { message: `Recharge not found for Stripe session ${params.stripe_session_id_in}` } });
+    }
+
+    const sessionReversals = this.reversals.filter(r => r.stripe_session_id === params.stripe_session_id_in);
+    const refunded = sessionReversals.filter(r => r.reversal_type === 'refund').reduce((sum, r) => sum + r.amount, 0);
+    const reversed = sessionReversals.reduce((sum, r) => sum + r.amount, 0);
+
+    let toReverse = params.reversal_type_in === 'refund'
+      ? Math.max(params.amount_in - refunded, 0)
+      : params.amount_in;
+    toReverse = Math.min(toReverse, Math.max(recharge.amount - reversed, 0));
+
+    const bonusReversed = sessionReversals.reduce((sum, r) => sum + r.bonus_amount, 0);
+    const bonusToReverse = recharge.bonus_amount && recharge.amount > 0
+      ? Math.max(Math.round(recharge.bonus_amount * Math.min((reversed + toReverse) / recharge.amount, 1) * 100) / 100 - bonusReversed, 0)
+      : 0;
+
+    const card = this.cards.get(recharge.card_id)!;
+    const previousBalance = card.amount;
+    const debit = Math.min(toReverse + bonusToReverse, Math.max(card.amount, 0));
+    const uncovered = toReverse + bonusToReverse - debit;
+    const frozen = params.reversal_type_in === 'dispute' || uncovered > 0;
+
+    card.amount -= debit;
+    if (frozen) {
+      card.status = 'blocked';
+    }
+
+    let monitoringEventId: number | null = null;
+    if (uncovered > 0) {
+      monitoringEventId = this.monitoringEvents.length + 1;
+      this.monitoringEvents.push({
+        event_id: monitoringEventId,
+        event_type: 'balance_discrepancy',
+        card_id: recharge.card_id,
+        affected_amount: uncovered,
+        detection_algorithm: 'stripe_reversal'
+      });
+    }
+
+    const reversal = {
+      ...base,
+      amount: toReverse,
+      bonus_amount: bonusToReverse,
+      debited_amount: debit,
+      uncovered_amount: uncovered,
+      previous_balance: previousBalance,
+      new_balance: card.amount,
+      card_frozen: frozen,
+      monitoring_event_id: monitoringEventId
+    };
+    this.reversals.push(reversal);
+    return Promise.resolve({ data: { success: true, reversal }, error: null });
+  }
+}
+
+// Checkout sessions by payment intent, as returned by stripe.checkout.sessions.list
+const SESSIONS_BY_PAYMENT_INTENT: Record<string, string> = {
+  pi_test_refund: 'cs_test_refund',
+  pi_test_dispute: 'cs_test_dispute',
+  pi_test_bonus: 'cs_test_bonus'
+};
+
+let reversalStore: MockReversalStore;
+
+function setupReversalEnvironment() {
+  reversalStore = new MockReversalStore();
+  reversalStore.cards.set('CARD0001', { amount: 40, status: 'active' });
+  reversalStore.cards.set('CARD0002', { amount: 5, status: 'active' });
+  reversalStore.recharges.set('cs_test_refund', { id: 101, card_id: 'CARD0001', amount: 30 });
+  reversalStore.recharges.set('cs_test_dispute', { id: 102, card_id: 'CARD0002', amount: 20 });
+  // 50€ package with 5€ bonus credit
+  reversalStore.cards.set('CARD0003', { amount: 55, status: 'active' });
+  reversalStore.recharges.set('cs_test_bonus', { id: 103, card_id: 'CARD0003', amount: 50, bonus_amount: 5 });
+  reversalStore.idempotencyKeys.set('req-expired-1', 'completed');
+}
+
+// Mirrors the reversal branch of the edge function
+async function reversalHandler(req: Request): Promise<Response> {
+  const json = (body: Record<string, unknown>, status = 200) => new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+  const signature = req.headers.get('stripe-signature');
+  if (!signature) {
+    return new Response('Missing stripe-signature header', { status: 400 });
+  }
+
+  const body = await req.text();
+  let event: FixtureEvent;
+  try {
+    event = await constructSignedEvent(body, signature, WEBHOOK_SECRET);
+  } catch (error) {
+    return json({ error: `Webhook signature verification failed: ${(error as Error).message}` }, 400);
+  }
+
+  const reversalTypes: Record<string, string> = {
+    'charge.refunded': 'refund',
+    'charge.dispute.created': 'dispute',
+    'checkout.session.expired': 'session_expired'
+  };
+  const reversalType = reversalTypes[event.type];
+  if (!reversalType) {
+    return json({ received: true, message: 'Event type not processed', eventType: event.type });
+  }
+
+  const object = event.data.object;
+  let sessionId: string | null;
+  let amount = 0;
+
+  if (reversalType === 'session_expired') {
+    sessionId = object.id;
+    if (object.metadata?.client_request_id) {
+      reversalStore.idempotencyKeys.set(object.metadata.client_request_id, 'failed');
+    }
+  } else {
+    sessionId = SESSIONS_BY_PAYMENT_INTENT[object.payment_intent ?? ''] ?? null;
+    amount = ((reversalType === 'refund' ? object.amount_refunded : object.amount) ?? 0) / 100;
+  }
+
+  if (!sessionId) {
+    return json({ received: true, reversed: false, message: 'No checkout session linked to this event', eventType: event.type });
+  }
+
+  const { data, error } = await reversalStore.rpc('sp_process_stripe_reversal', {
+    stripe_event_id_in: event.id,
+    reversal_type_in: reversalType,
+    stripe_session_id_in: sessionId,
+    stripe_object_id_in: object.id,
+    amount_in: amount,
+    details_in: {}
+  });
+
+  if (error) {
+    if (error.message.toLowerCase().includes('recharge not found')) {
+      return json({ received: true, reversed: false, message: 'No recharge for this session', sessionId });
+    }
+    return json({ error: 'Failed to process reversal', details: error.message }, 500);
+  }
+
+  if (data?.duplicate) {
+    return json({ received: true, message: 'Duplicate event - already processed', sessionId });
+  }
+
+  return json({
+    received: true,
+    reversed: reversalType !== 'session_expired',
+    message: 'Reversal processed',
+    sessionId,
+    reversal: data?.reversal
+  });
+}
+
+function signedRequest(fixture: { body: string; signature: string }): Request {
+  return new Request('http://localhost:8000/functions/v1/stripe-webhook', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'stripe-signature': fixture.signature },
+    body: fixture.body
+  });
+}
+
+const chargeRefundedFixture = (eventId: string, amountRefunded: number): FixtureEvent => ({
+  id: eventId,
+  type: 'charge.refunded',
+  data: {
+    object: {
+      id: 'ch_test_refund',
+      object: 'charge',
+      amount: 3000,
+      amount_refunded: amountRefunded,
+      refunded: amountRefunded === 3000,
+      payment_intent: 'pi_test_refund'
+    }
+  }
+});
+
+const bonusChargeRefundedFixture = (eventId: string, amountRefunded: number): FixtureEvent => ({
+  id: eventId,
+  type: 'charge.refunded',
+  data: {
+    object: {
+      id: 'ch_test_bonus',
+      object: 'charge',
+      amount: 5000,
+      amount_refunded: amountRefunded,
+      refunded: amountRefunded === 5000,
+      payment_intent: 'pi_test_bonus'
+    }
+  }
+});
+
+const disputeCreatedFixture: FixtureEvent = {
+  id: 'evt_dispute_1',
+  type: 'charge.dispute.created',
+  data: {
+    object: {
+      id: 'dp_test_1',
+      object: 'dispute',
+      amount: 2000,
+      charge: 'ch_test_dispute',
+      payment_intent: 'pi_test_dispute',
+      reason: 'fraudulent',
+      status: 'needs_response'
+    }
+  }
+};
+
+const sessionExpiredFixture: FixtureEvent = {
+  id: 'evt_expired_1',
+  type: 'checkout.session.expired',
+  data: {
+    object: {
+      id: 'cs_test_expired',
+      object: 'checkout.session',
+      payment_status: 'unpaid',
+      metadata: { card_id: 'CARD0001', amount: '15', client_request_id: 'req-expired-1' }
+    }
+  }
+};
+
+Deno.test('Stripe Webhook Function - Reversals - Signed Refund Debits The Card', async () => {
+  setupReversalEnvironment();
+
+  const response = await reversalHandler(signedRequest(await signFixture(chargeRefundedFixture('evt_refund_1', 3000))));
+
+  assertEquals(response.status, 200);
+  const responseBody = await response.json();
+  assertEquals(responseBody.reversed, true);
+  assertEquals(responseBody.sessionId, 'cs_test_refund');
+  assertEquals(responseBody.reversal.recharge_id, 101);
+  assertEquals(responseBody.reversal.debited_amount, 30);
+  assertEquals(reversalStore.cards.get('CARD0001')!.amount, 10);
+  assertEquals(reversalStore.cards.get('CARD0001')!.status, 'active');
+});
+
+Deno.test('Stripe Webhook Function - Reversals - Redelivered Event Is Idempotent', async () => {
+  setupReversalEnvironment();
+
+  const fixture = await signFixture(chargeRefundedFixture('evt_refund_1', 3000));
+  await reversalHandler(signedRequest(fixture));
+  const response = await reversalHandler(signedRequest(fixture));
+
+  assertEquals(response.status, 200);
+  const responseBody = await response.json();
+  assertEquals(responseBody.message, 'Duplicate event - already processed');
+  assertEquals(reversalStore.cards.get('CARD0001')!.amount, 10);
+  assertEquals(reversalStore.reversals.length, 1);
+});
+
+Deno.test('Stripe Webhook Function - Reversals - Partial Refunds Debit Only The New Part', async () => {
+  setupReversalEnvironment();
+
+  await reversalHandler(signedRequest(await signFixture(chargeRefundedFixture('evt_refund_1', 1000))));
+  const response = await reversalHandler(signedRequest(await signFixture(chargeRefundedFixture('evt_refund_2', 2500))));
+
+  const responseBody = await response.json();
+  assertEquals(responseBody.reversal.amount, 15);
+  assertEquals(reversalStore.cards.get('CARD0001')!.amount, 15);
+});
+
+Deno.test('Stripe Webhook Function - Reversals - Refund Withdraws The Recharge Bonus', async () => {
+  setupReversalEnvironment();
+
+  const response = await reversalHandler(signedRequest(await signFixture(bonusChargeRefundedFixture('evt_bonus_refund_1', 5000))));
+
+  assertEquals(response.status, 200);
+  const responseBody = await response.json();
+  assertEquals(responseBody.reversal.amount, 50);
+  assertEquals(responseBody.reversal.bonus_amount, 5);
+  assertEquals(responseBody.reversal.debited_amount, 55);
+  assertEquals(reversalStore.cards.get('CARD0003')!.amount, 0);
+  assertEquals(reversalStore.cards.get('CARD0003')!.status, 'active');
+});
+
+Deno.test('Stripe Webhook Function - Reversals - Partial Refunds Withdraw The Bonus In Proportion', async () => {
+  setupReversalEnvironment();
+
+  const first = await (await reversalHandler(signedRequest(await signFixture(bonusChargeRefundedFixture('evt_bonus_refund_1', 2000))))).json();
+  assertEquals(first.reversal.bonus_amount, 2);
+  assertEquals(first.reversal.debited_amount, 22);
+
+  // The guest spent the rest meanwhile: what is left cannot cover the remainder
+  reversalStore.cards.get('CARD0003')!.amount = 10;
+  const second = await (await reversalHandler(signedRequest(await signFixture(bonusChargeRefundedFixture('evt_bonus_refund_2', 5000))))).json();
+  assertEquals(second.reversal.amount, 30);
+  assertEquals(second.reversal.bonus_amount, 3);
+  assertEquals(second.reversal.debited_amount, 10);
+  assertEquals(second.reversal.uncovered_amount, 23);
+  assertEquals(second.reversal.card_frozen, true);
+  assertEquals(reversalStore.monitoringEvents[0].affected_amount, 23);
+});
+
+Deno.test('Stripe Webhook Function - Reversals - Dispute Freezes The Card And Raises Uncovered Amount', async () => {
+  setupReversalEnvironment();
+
+  const response = await reversalHandler(signedRequest(await signFixture(disputeCreatedFixture)));
+
+  assertEquals(response.status, 200);
+  const responseBody = await response.json();
+  assertEquals(responseBody.reversal.debited_amount, 5);
+  assertEquals(responseBody.reversal.uncovered_amount, 15);
+  assertEquals(responseBody.reversal.card_frozen, true);
+  assertEquals(reversalStore.cards.get('CARD0002')!.status, 'blocked');
+  assertEquals(reversalStore.monitoringEvents.length, 1);
+  assertEquals(reversalStore.monitoringEvents[0].affected_amount, 15);
+  assertEquals(responseBody.reversal.monitoring_event_id, 1);
+});
+
+Deno.test('Stripe Webhook Function - Reversals - Expired Session Is Recorded Without Debit', async () => {
+  setupReversalEnvironment();
+
+  const response = await reversalHandler(signedRequest(await signFixture(sessionExpiredFixture)));
+
+  assertEquals(response.status, 200);
+  const responseBody = await response.json();
+  assertEquals(responseBody.reversed, false);
+  assertEquals(responseBody.reversal.reversal_type, 'session_expired');
+  assertEquals(reversalStore.cards.get('CARD0001')!.amount, 40);
+  assertEquals(reversalStore.idempotencyKeys.get('req-expired-1'), 'failed');
+});
+
+Deno.test('Stripe Webhook Function - Reversals - Charge Outside Checkout Is Ignored', async () => {
+  setupReversalEnvironment();
+
+  const fixture = chargeRefundedFixture('evt_refund_other', 500);
+  fixture.data.object.payment_intent = 'pi_unknown';
+  const response = await reversalHandler(signedRequest(await signFixture(fixture)));
+
+  assertEquals(response.status, 200);
+  const responseBody = await response.json();
+  assertEquals(responseBody.reversed, false);
+  assertEquals(reversalStore.reversals.length, 0);
+});
+
+Deno.test('Stripe Webhook Function - Reversals - Tampered Or Stale Payloads Are Rejected', async () => {
+  setupReversalEnvironment();
+
+  const fixture = await signFixture(chargeRefundedFixture('evt_refund_1', 3000));
+  const tampered = { ...fixture, body: fixture.body.replace('3000', '9000') };
+  const tamperedResponse = await reversalHandler(signedRequest(tampered));
+  assertEquals(tamperedResponse.status, 400);
+  assert((await tamperedResponse.json()).error.includes('No signatures found'));
+
+  const wrongSecret = await signFixture(chargeRefundedFixture('evt_refund_1', 3000), 'whsec_other');
+  assertEquals((await reversalHandler(signedRequest(wrongSecret))).status, 400);
+
+  const stale = await signFixture(chargeRefundedFixture('evt_refund_1', 3000), WEBHOOK_SECRET, Math.floor(Date.now() / 1000) - 3600);
+  assertEquals((await reversalHandler(signedRequest(stale))).status, 400);
+
+  assertEquals(reversalStore.cards.get('CARD0001')!.amount, 40);
+});
+
 console.log('✅ Stripe Webhook Function comprehensive test suite completed');
 console.log('📋 Test coverage includes:');
 console.log('   ✓ Input validation for signature and metadata');
@@ -874,4 +1358,5 @@ console.log('   ✓ Event type filtering and processing logic');
 console.log('   ✓ Edge cases including special characters and precision');
 console.log('   ✓ Security tests for injection attempts and malformed data');
 console.log('   ✓ Integration tests with stored procedure verification');
+console.log('   ✓ Signed refund, dispute and expired session fixtures');
 console.log('   ✓ Metadata preservation and parameter passing');
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { auditLogger, DatabaseLogStorage } from '../../../src/lib/audit-logger.ts'
+
+/**
+ * Audit Log Storage
+ *
+ * Edge functions that go through SecurityMiddleware log authentication
+ * failures and security violations with the shared auditLogger. Calling
+ * enableDatabaseAuditStorage() at module load stores those entries in the
+ * hash-chained audit_logs table, as the service role, instead of the memory
+ * of the function instance.
+ */
+
+let enabled = false;
+
+export function enableDatabaseAuditStorage(): void {
+  if (enabled) return;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.warn('[AUDIT] Supabase credentials missing, audit entries stay in memory');
+    return;
+  }
+
+  auditLogger.useStorage(new DatabaseLogStorage(
+    createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+  ));
+  enabled = true;
+}
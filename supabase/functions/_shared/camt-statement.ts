@@ -0,0 +1,156 @@
+/**
+ * Bank Statement Parser (camt.053 / camt.054)
+ *
+ * Extracts the executed and returned credit transfers from ISO 20022 bank
+ * statements (camt.053 account statements, camt.054 debit/credit
+ * notifications) so import-bank-statement can match them with the refunds of
+ * a SEPA batch by EndToEndId.
+ *
+ * Only booked entries are kept. A transaction is a return when it carries
+ * return information (RtrInf), when the entry is a reversal, or when it is a
+ * credit to our account; other debits are executed transfers. Both the .02
+ * (<Sts>BOOK</Sts>) and later (<Sts><Cd>BOOK</Cd></Sts>) versions are read,
+ * with or without namespace prefixes.
+ */
+
+export type CamtStatementType = 'camt.053' | 'camt.054';
+
+export interface CamtTransaction {
+  end_to_end_id: string;
+  amount: number;
+  currency: string;
+  outcome: 'paid' | 'returned';
+  booking_date: string | null;
+  return_reason: string | null;
+}
+
+export interface CamtStatement {
+  type: CamtStatementType;
+  message_id: string;
+  transactions: CamtTransaction[];
+  // Entries not booked yet (PDNG, INFO)
+  skipped_entries: number;
+}
+
+export type CamtParseResult =
+  | { kind: 'statement'; statement: CamtStatement }
+  | { kind: 'invalid'; error: string };
+
+// Inner XML of every <tag> element directly found in xml (no self-nesting)
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+// Text of the first element along a path, e.g. text(tx, 'Refs', 'EndToEndId')
+function text(xml: string, ...path: string[]): string | null {
+  let current: string | undefined = xml;
+  for (const tag of path) {
+    current = current === undefined ? undefined : elements(current, tag)[0];
+  }
+  if (current === undefined) return null;
+  return decodeEntities(current.replace(/<[^>]+>/g, '').trim());
+}
+
+function amountOf(xml: string, ...path: string[]): { value: number; currency: string } | null {
+  let current: string | undefined = xml;
+  for (const tag of path.slice(0, -1)) {
+    current = current === undefined ? undefined : elements(current, tag)[0];
+  }
+  if (current === undefined) return null;
+
+  const last = path[path.length - 1];
+  const match = current.match(new RegExp(`<${last}(?=[\\s>])(?:[^>]*?Ccy="([A-Z]{3})")?[^>]*>([^<]+)</${last}>`));
+  if (!match) return null;
+
+  const value = Number(match[2].trim());
+  return Number.isFinite(value) ? { value, currency: match[1] || 'EUR' } : null;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export function parseCamtStatement(xml: string): CamtParseResult {
+  if (typeof xml !== 'string' || !xml.trim()) {
+    return { kind: 'invalid', error: 'Empty statement file' };
+  }
+
+  // Drop comments and namespace prefixes (<ns2:Ntry> → <Ntry>)
+  const document = xml
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(\/?)[A-Za-z][\w.-]*:/g, '<$1');
+
+  let type: CamtStatementType;
+  let containers: string[];
+  if (/<BkToCstmrStmt[\s>]/.test(document)) {
+    type = 'camt.053';
+    containers = elements(document, 'Stmt');
+  } else if (/<BkToCstmrDbtCdtNtfctn[\s>]/.test(document)) {
+    type = 'camt.054';
+    containers = elements(document, 'Ntfctn');
+  } else {
+    return { kind: 'invalid', error: 'Not a camt.053 or camt.054 document' };
+  }
+
+  const messageId = text(document, 'GrpHdr', 'MsgId');
+  if (!messageId) {
+    return { kind: 'invalid', error: 'Missing GrpHdr/MsgId' };
+  }
+
+  const transactions: CamtTransaction[] = [];
+  let skippedEntries = 0;
+
+  for (const container of containers) {
+    for (const entry of elements(container, 'Ntry')) {
+      // Entry-level fields live outside NtryDtls, which holds the transactions
+      const entryHeader = entry.replace(/<NtryDtls[\s>][\s\S]*<\/NtryDtls>/, '');
+      if (text(entryHeader, 'Sts') !== 'BOOK') {
+        skippedEntries++;
+        continue;
+      }
+
+      const entryAmount = amountOf(entryHeader, 'Amt');
+      const isCredit = text(entryHeader, 'CdtDbtInd') === 'CRDT';
+      const isReversal = text(entryHeader, 'RvslInd') === 'true';
+      const bookingDate = (text(entryHeader, 'BookgDt', 'Dt') || text(entryHeader, 'BookgDt', 'DtTm'))?.slice(0, 10) || null;
+      const details = elements(entry, 'TxDtls');
+
+      for (const transaction of details) {
+        const endToEndId = text(transaction, 'Refs', 'EndToEndId');
+        if (!endToEndId || endToEndId === 'NOTPROVIDED') continue;
+
+        const amount = amountOf(transaction, 'AmtDtls', 'TxAmt', 'Amt')
+          || amountOf(transaction, 'Amt')
+          || (details.length === 1 ? entryAmount : null);
+        if (!amount) {
+          return { kind: 'invalid', error: `Missing amount for transaction ${endToEndId}` };
+        }
+
+        const returnInfo = elements(transaction, 'RtrInf')[0];
+        const returned = returnInfo !== undefined || isReversal || isCredit;
+
+        transactions.push({
+          end_to_end_id: endToEndId,
+          amount: amount.value,
+          currency: amount.currency,
+          outcome: returned ? 'returned' : 'paid',
+          booking_date: bookingDate,
+          return_reason: returnInfo !== undefined
+            ? text(returnInfo, 'Rsn', 'Cd') || text(returnInfo, 'AddtlInf')
+            : null,
+        });
+      }
+    }
+  }
+
+  return {
+    kind: 'statement',
+    statement: { type, message_id: messageId, transactions, skipped_entries: skippedEntries },
+  };
+}
@@ -0,0 +1,178 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SecurityConfig, SecurityUtils } from '../../../src/config/security.ts'
+import { securityMiddleware } from '../../../src/lib/security-middleware.ts'
+
+/**
+ * Card Secret Verification
+ *
+ * Shared by the public card endpoints (card-access, get-card-history,
+ * submit-refund-request) and the admin manage-card-secrets function.
+ *
+ * A card may carry an optional secret (printed PIN or QR token). Cards without
+ * one stay readable by id alone; protected cards require the secret, and
+ * repeated failures lock the card through the SecurityMiddleware failed-attempt
+ * lockout. Failures are counted per client IP and card, so someone who only
+ * knows a card id cannot lock the guest out of it, and per card from all
+ * clients together against a much higher ceiling
+ * (SecurityConfig.auth.failedAttempts.maxCardSecretAttempts), so rotating
+ * addresses does not buy unlimited guesses.
+ */
+
+// 32 symbols without look-alikes (no I, O, 0, 1) so codes can be typed from print
+const SECRET_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const CARD_SECRET_LENGTH = 6;
+
+export const CARD_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export type CardAccessErrorCode = 'CARD_NOT_FOUND' | 'SECRET_REQUIRED' | 'INVALID_SECRET' | 'CARD_LOCKED' | 'DATABASE_ERROR';
+
+const { maxCardSecretAttempts } = SecurityConfig.auth.failedAttempts;
+
+export type CardAccessResult =
+  | { ok: true; card: { id: string; amount: number }; secretProtected: boolean }
+  | {
+      ok: false;
+      errorCode: CardAccessErrorCode;
+      error: string;
+      status: number;
+      remainingAttempts?: number;
+      retryAfterSeconds?: number;
+    };
+
+export function normalizeCardSecret(secret: unknown): string {
+  return typeof secret === 'string' ? secret.toUpperCase().replace(/[^A-Z0-9]/g, '') : '';
+}
+
+export function generateCardSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CARD_SECRET_LENGTH));
+  return Array.from(bytes, byte => SECRET_ALPHABET[byte % SECRET_ALPHABET.length]).join('');
+}
+
+/**
+ * HMAC of the secret bound to its card, keyed with CARD_SECRET_KEY so a leaked
+ * table cannot be brute-forced offline
+ */
+export async function hashCardSecret(cardId: string, secret: string): Promise<string> {
+  const keyMaterial = Deno.env.get('CARD_SECRET_KEY');
+  if (!keyMaterial) {
+    throw new Error('CARD_SECRET_KEY is not configured');
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw', encoder.encode(keyMaterial), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${cardId}:${normalizeCardSecret(secret)}`));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function extractClientIp(req: Request): string {
+  // Clients can prepend anything to X-Forwarded-For; the last entry is the
+  // one added by the platform proxy
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',').pop()!.trim();
+  return req.headers.get('cf-connecting-ip') || req.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Adapt a fetch Request to the header-object shape SecurityMiddleware expects
+ */
+export function toMiddlewareRequest(req: Request) {
+  return {
+    method: req.method,
+    url: req.url,
+    headers: Object.fromEntries(req.headers.entries()),
+  };
+}
+
+function cardLocked(retryAfterMs: number | undefined): CardAccessResult {
+  return {
+    ok: false,
+    errorCode: 'CARD_LOCKED',
+    error: 'Too many failed attempts. Please try again later.',
+    status: 429,
+    retryAfterSeconds: Math.ceil((retryAfterMs ?? 0) / 1000),
+  };
+}
+
+/**
+ * Load a card and check its secret. Unknown and malformed ids look the same;
+ * a missing secret on a protected card is not counted as a failed attempt.
+ */
+export async function verifyCardAccess(
+  supabaseAdmin: SupabaseClient,
+  cardId: string,
+  secret: unknown,
+  clientIp: string
+): Promise<CardAccessResult> {
+  if (!CARD_ID_PATTERN.test(cardId)) {
+    return { ok: false, errorCode: 'CARD_NOT_FOUND', error: 'Card not found', status: 404 };
+  }
+
+  const cardKey = `card_secret:${cardId.toUpperCase()}`;
+  const clientKey = `${cardKey}:${clientIp}`;
+  const lockouts = await Promise.all([
+    securityMiddleware.checkLockout(clientKey),
+    securityMiddleware.checkLockout(cardKey, maxCardSecretAttempts),
+  ]);
+  const lockout = lockouts.find(result => result.locked);
+  if (lockout) {
+    return cardLocked(lockout.retryAfterMs);
+  }
+
+  const [cardResult, secretResult] = await Promise.all([
+    supabaseAdmin.from('table_cards').select('id, amount').eq('id', cardId).maybeSingle(),
+    supabaseAdmin.from('card_secrets').select('secret_hash').eq('card_id', cardId).maybeSingle(),
+  ]);
+
+  if (cardResult.error || secretResult.error) {
+    console.error('Failed to load card access data:', (cardResult.error || secretResult.error).message);
+    return { ok: false, errorCode: 'DATABASE_ERROR', error: 'Database error occurred', status: 500 };
+  }
+  if (!cardResult.data) {
+    return { ok: false, errorCode: 'CARD_NOT_FOUND', error: 'Card not found', status: 404 };
+  }
+
+  const card = {
+    id: cardResult.data.id,
+    amount: Math.round((parseFloat(String(cardResult.data.amount ?? 0)) || 0) * 100) / 100,
+  };
+
+  if (!secretResult.data) {
+    return { ok: true, card, secretProtected: false };
+  }
+
+  const normalizedSecret = normalizeCardSecret(secret);
+  if (!normalizedSecret) {
+    return { ok: false, errorCode: 'SECRET_REQUIRED', error: 'Card secret required', status: 401 };
+  }
+
+  const expectedHash = await hashCardSecret(card.id, normalizedSecret);
+  if (!SecurityUtils.timingSafeEqual(expectedHash, secretResult.data.secret_hash)) {
+    const [clientAttempt, cardAttempt] = await Promise.all([
+      securityMiddleware.recordFailedAttempt(clientKey),
+      securityMiddleware.recordFailedAttempt(cardKey, maxCardSecretAttempts),
+    ]);
+    if (cardAttempt.locked) {
+      console.warn(`Card ${card.id} locked for all clients after repeated invalid secrets`);
+      return cardLocked(cardAttempt.retryAfterMs);
+    }
+    if (clientAttempt.locked) {
+      console.warn(`Card ${card.id} locked for ${clientIp} after repeated invalid secrets`);
+      return cardLocked(clientAttempt.retryAfterMs);
+    }
+    return {
+      ok: false,
+      errorCode: 'INVALID_SECRET',
+      error: 'Invalid card secret',
+      status: 401,
+      remainingAttempts: Math.min(clientAttempt.remainingAttempts, cardAttempt.remainingAttempts),
+    };
+  }
+
+  await Promise.all([
+    securityMiddleware.clearFailedAttempts(clientKey),
+    securityMiddleware.clearFailedAttempts(cardKey),
+  ]);
+  return { ok: true, card, secretProtected: true };
+}
@@ -0,0 +1,226 @@
+/**
+ * Card Statement
+ *
+ * Builds the customer statement of a card for get-card-history. Balance
+ * movements come from card_ledger_entries, where every credit and debit of a
+ * card is journalled once (recharges and their bonus, reversed online
+ * payments, card fees, bar orders and their refunds, balance transfers,
+ * manual adjustments...), so the running balances cover everything that moved
+ * the card. Orders and order refunds only add their items and order numbers.
+ * Refund requests are paid by bank transfer and listed without amount.
+ */
+
+export type StatementEntryType =
+  | 'opening'
+  | 'recharge'
+  | 'bonus'
+  | 'card_fee'
+  | 'stripe_reversal'
+  | 'bar_order'
+  | 'order_refund'
+  | 'transfer'
+  | 'adjustment'
+  | 'refund_request'
+  | 'other';
+
+export interface StatementItem {
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  is_return: boolean;
+  refunded_quantity: number;
+}
+
+export interface StatementEntry {
+  id: string;
+  type: StatementEntryType;
+  occurred_at: string;
+  description: string;
+  amount: number;
+  balance_after: number;
+  items?: StatementItem[];
+}
+
+export interface CardStatement {
+  current_balance: number;
+  opening_balance: number;
+  totals: {
+    recharged: number;
+    spent: number;
+    refunded: number;
+  };
+  transactions: StatementEntry[];
+}
+
+// Rows as selected by get-card-history
+export interface LedgerEntryRow {
+  id: number;
+  entry_type: string;
+  debit_account: string;
+  credit_account: string;
+  amount: number | string;
+  reference_type: string | null;
+  reference_id: string | null;
+  description: string | null;
+  created_at: string;
+}
+
+export interface OrderRow {
+  id: number;
+  bar_order_items?: Array<{
+    product_name: string;
+    quantity: number;
+    price: number | string;
+    is_return: boolean | null;
+    refunded_quantity: number | null;
+  }> | null;
+}
+
+export interface OrderRefundRow {
+  id: number;
+  order_id: number;
+}
+
+export interface RefundRequestRow {
+  id: number;
+  card_balance: number | string;
+  created_at: string;
+}
+
+export interface CardStatementInput {
+  cardId: string;
+  currentBalance: number;
+  // Entries debiting or crediting the card account, in journal order
+  ledgerEntries: LedgerEntryRow[];
+  orders: OrderRow[];
+  orderRefunds: OrderRefundRow[];
+  refundRequests: RefundRequestRow[];
+}
+
+const toAmount = (value: unknown): number => Math.round((parseFloat(String(value ?? 0)) || 0) * 100) / 100;
+
+export const cardAccount = (cardId: string) => `card:${cardId}`;
+
+const RECHARGE_DESCRIPTIONS: Record<string, string> = {
+  'payments:online': 'Recharge en ligne',
+  'payments:card': 'Recharge par carte bancaire',
+  'payments:cash': 'Recharge en espèces',
+};
+
+// Keyed by stripe_reversals.reversal_type, journalled as the entry description
+const STRIPE_REVERSAL_DESCRIPTIONS: Record<string, string> = {
+  refund: 'Remboursement du paiement en ligne',
+  dispute: 'Contestation du paiement en ligne',
+  session_expired: 'Paiement en ligne non abouti',
+};
+
+type StatementMovement = Omit<StatementEntry, 'balance_after'>;
+
+function toMovement(entry: LedgerEntryRow, account: string, input: CardStatementInput): StatementMovement {
+  const credited = entry.credit_account === account;
+  const counterAccount = credited ? entry.debit_account : entry.credit_account;
+  const base = {
+    id: `ledger-${entry.id}`,
+    occurred_at: entry.created_at,
+    amount: credited ? toAmount(entry.amount) : -toAmount(entry.amount),
+  };
+  const orderRefund = () => input.orderRefunds.find(refund => String(refund.id) === entry.reference_id);
+
+  switch (entry.entry_type) {
+    case 'opening':
+      return { ...base, type: 'opening', description: 'Solde reporté' };
+    case 'recharge':
+      return { ...base, type: 'recharge', description: RECHARGE_DESCRIPTIONS[counterAccount] ?? 'Recharge' };
+    case 'bonus':
+      // A bonus granted with a recharge, or taken back when that payment is reversed
+      return {
+        ...base,
+        type: 'bonus',
+        description: entry.reference_type === 'stripe_reversals' ? 'Retrait du bonus de recharge' : 'Bonus de recharge',
+      };
+    case 'card_fee':
+      return { ...base, type: 'card_fee', description: 'Frais de carte' };
+    case 'stripe_reversal':
+      return {
+        ...base,
+        type: 'stripe_reversal',
+        description: STRIPE_REVERSAL_DESCRIPTIONS[entry.description ?? ''] ?? 'Annulation du paiement en ligne',
+      };
+    case 'order': {
+      const order = input.orders.find(candidate => String(candidate.id) === entry.reference_id);
+      return {
+        ...base,
+        type: 'bar_order',
+        description: `Commande bar #${entry.reference_id}`,
+        items: (order?.bar_order_items || []).map(item => ({
+          product_name: item.product_name,
+          quantity: item.quantity,
+          unit_price: toAmount(item.price),
+          is_return: item.is_return === true,
+          refunded_quantity: item.refunded_quantity || 0,
+        })),
+      };
+    }
+    case 'void':
+      return { ...base, type: 'order_refund', description: `Annulation de la commande #${orderRefund()?.order_id ?? '?'}` };
+    case 'order_refund':
+      return { ...base, type: 'order_refund', description: `Remboursement partiel de la commande #${orderRefund()?.order_id ?? '?'}` };
+    case 'transfer': {
+      const otherCard = counterAccount.replace(/^card:/, '');
+      return {
+        ...base,
+        type: 'transfer',
+        description: credited ? `Solde transféré depuis la carte ${otherCard}` : `Solde transféré vers la carte ${otherCard}`,
+      };
+    }
+    case 'adjustment':
+      // The staff reason is internal and stays off the customer statement
+      return { ...base, type: 'adjustment', description: 'Correction du solde' };
+    default:
+      return { ...base, type: 'other', description: 'Autre opération' };
+  }
+}
+
+export function buildCardStatement(input: CardStatementInput): CardStatement {
+  const account = cardAccount(input.cardId);
+
+  const movements: StatementMovement[] = [
+    ...input.ledgerEntries.map(entry => toMovement(entry, account, input)),
+    // Refund requests are paid by bank transfer and do not move the card balance
+    ...input.refundRequests.map(request => ({
+      id: `refund-request-${request.id}`,
+      type: 'refund_request' as const,
+      occurred_at: request.created_at,
+      description: `Demande de remboursement (${toAmount(request.card_balance).toFixed(2)}€)`,
+      amount: 0,
+    })),
+  ];
+
+  // Oldest first, journal order within the same instant (the sort is stable).
+  // Balances are computed backwards from the current balance so the last
+  // entry always matches the card; a balance the ledger does not explain
+  // shows up as the opening balance.
+  movements.sort((a, b) => a.occurred_at.localeCompare(b.occurred_at));
+
+  const transactions: StatementEntry[] = new Array(movements.length);
+  let balance = input.currentBalance;
+  for (let i = movements.length - 1; i >= 0; i--) {
+    transactions[i] = { ...movements[i], balance_after: Math.round(balance * 100) / 100 };
+    balance -= movements[i].amount;
+  }
+
+  const sum = (type: StatementEntryType) => Math.round(
+    movements.filter(movement => movement.type === type).reduce((total, movement) => total + movement.amount, 0) * 100
+  ) / 100;
+
+  return {
+    current_balance: input.currentBalance,
+    opening_balance: Math.round(balance * 100) / 100,
+    totals: {
+      recharged: sum('recharge'),
+      spent: -sum('bar_order'),
+      refunded: sum('order_refund'),
+    },
+    transactions,
+  };
+}
@@ -0,0 +1,42 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DatabaseKeyManager, dataEncryptionService, parseMasterKey } from '../../../src/lib/encryption.ts'
+
+/**
+ * Persistent Encryption Keys
+ *
+ * DataEncryptionService keeps its keys in memory by default, so what one
+ * instance encrypts cannot be decrypted by another or after a cold start.
+ * Calling enableDatabaseKeyManager() at module load keeps them in the
+ * encryption_keys table instead, wrapped by the ENCRYPTION_MASTER_KEY secret
+ * (32 bytes, base64). Returns false when the keys cannot be persisted;
+ * functions storing encrypted data must then refuse to store it.
+ */
+
+let enabled = false;
+
+export function enableDatabaseKeyManager(): boolean {
+  if (enabled) return true;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const encodedMasterKey = Deno.env.get('ENCRYPTION_MASTER_KEY');
+  if (!supabaseUrl || !serviceRoleKey || !encodedMasterKey) {
+    console.warn('[ENCRYPTION] Supabase credentials or ENCRYPTION_MASTER_KEY missing, encrypted data is unavailable');
+    return false;
+  }
+
+  let masterKey;
+  try {
+    masterKey = parseMasterKey(encodedMasterKey);
+  } catch (error) {
+    console.error('[ENCRYPTION] Invalid ENCRYPTION_MASTER_KEY:', error.message);
+    return false;
+  }
+
+  dataEncryptionService.useKeyManager(new DatabaseKeyManager(
+    createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } }),
+    masterKey
+  ));
+  enabled = true;
+  return true;
+}
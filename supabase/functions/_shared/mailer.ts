@@ -0,0 +1,211 @@
+/**
+ * Transactional Email (SMTP)
+ *
+ * Minimal SMTP client for the few emails the platform sends to guests (refund
+ * request confirmations). Configured through SMTP_HOST, SMTP_PORT, SMTP_SECURE
+ * (implicit TLS, default on port 465), SMTP_USERNAME, SMTP_PASSWORD and
+ * SMTP_FROM; without SMTP_HOST / SMTP_FROM emails are skipped.
+ *
+ * Bodies are sent base64-encoded UTF-8 plain text, so French accents and
+ * lines starting with a dot need no further escaping. The connection can be
+ * injected, which lets tests talk to a local SMTP stand-in.
+ */
+
+export interface SmtpConfig {
+  hostname: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export type SmtpConnect = (config: SmtpConfig) => Promise<Deno.Conn>;
+
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export function getSmtpConfig(): SmtpConfig | null {
+  const hostname = Deno.env.get('SMTP_HOST');
+  const from = Deno.env.get('SMTP_FROM');
+  if (!hostname || !from) {
+    return null;
+  }
+
+  const port = Number(Deno.env.get('SMTP_PORT') || 465);
+  const secure = (Deno.env.get('SMTP_SECURE') ?? String(port === 465)) === 'true';
+
+  return {
+    hostname,
+    port,
+    secure,
+    username: Deno.env.get('SMTP_USERNAME') || undefined,
+    password: Deno.env.get('SMTP_PASSWORD') || undefined,
+    from,
+  };
+}
+
+const defaultConnect: SmtpConnect = (config) => config.secure
+  ? Deno.connectTls({ hostname: config.hostname, port: config.port })
+  : Deno.connect({ hostname: config.hostname, port: config.port });
+
+// "Festival <noreply@example.org>" -> "noreply@example.org"
+function envelopeAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  const email = (match ? match[1] : address).trim();
+  if (!EMAIL_ADDRESS_PATTERN.test(email)) {
+    throw new Error(`SMTP invalid address: ${address}`);
+  }
+  return email;
+}
+
+function encodeBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+export function buildMimeMessage(from: string, message: MailMessage, date: Date = new Date()): string {
+  for (const header of [from, message.to, message.subject]) {
+    if (/[\r\n]/.test(header)) {
+      throw new Error('SMTP header values cannot contain line breaks');
+    }
+  }
+
+  const domain = envelopeAddress(from).split('@')[1];
+  const body = encodeBase64(message.text).match(/.{1,76}/g) ?? [];
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: =?UTF-8?B?${encodeBase64(message.subject)}?=`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...body,
+  ].join('\r\n');
+}
+
+class SmtpSession {
+  private pending = '';
+  private readonly decoder = new TextDecoder();
+  private readonly encoder = new TextEncoder();
+
+  constructor(private readonly conn: Deno.Conn) {}
+
+  // Reads one (possibly multi-line) reply, e.g. "250-PIPELINING\r\n250 OK\r\n"
+  async reply(): Promise<{ code: number; text: string }> {
+    const lines: string[] = [];
+    while (true) {
+      const newline = this.pending.indexOf('\r\n');
+      if (newline === -1) {
+        const buffer = new Uint8Array(1024);
+        const read = await this.conn.read(buffer);
+        if (read === null) {
+          throw new Error('SMTP connection closed by server');
+        }
+        this.pending += this.decoder.decode(buffer.subarray(0, read));
+        continue;
+      }
+
+      const line = this.pending.slice(0, newline);
+      this.pending = this.pending.slice(newline + 2);
+      lines.push(line);
+      if (line.charAt(3) !== '-') {
+        return { code: Number(line.slice(0, 3)), text: lines.join('\n') };
+      }
+    }
+  }
+
+  async expect(codes: number[]): Promise<string> {
+    const { code, text } = await this.reply();
+    if (!codes.includes(code)) {
+      throw new Error(`SMTP unexpected reply: ${text}`);
+    }
+    return text;
+  }
+
+  async send(line: string, codes: number[]): Promise<string> {
+    await this.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  async write(data: string): Promise<void> {
+    const bytes = this.encoder.encode(data);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await this.conn.write(bytes.subarray(written));
+    }
+  }
+}
+
+/**
+ * Deliver one message. Rejects with an "SMTP ..." error on any failure.
+ */
+export async function sendMail(config: SmtpConfig, message: MailMessage, connect: SmtpConnect = defaultConnect): Promise<void> {
+  const sender = envelopeAddress(config.from);
+  const recipient = envelopeAddress(message.to);
+  const data = buildMimeMessage(config.from, message);
+
+  const conn = await connect(config);
+  const session = new SmtpSession(conn);
+
+  try {
+    await session.expect([220]);
+    await session.send(`EHLO ${sender.split('@')[1]}`, [250]);
+
+    if (config.username && config.password) {
+      await session.send('AUTH LOGIN', [334]);
+      await session.send(encodeBase64(config.username), [334]);
+      await session.send(encodeBase64(config.password), [235]);
+    }
+
+    await session.send(`MAIL FROM:<${sender}>`, [250]);
+    await session.send(`RCPT TO:<${recipient}>`, [250, 251]);
+    await session.send('DATA', [354]);
+    await session.write(`${data}\r\n`);
+    await session.send('.', [250]);
+    await session.send('QUIT', [221]);
+  } finally {
+    try {
+      conn.close();
+    } catch {
+      // Already closed by the server
+    }
+  }
+}
+
+/**
+ * Confirmation sent to the guest after a refund request is recorded
+ */
+export function buildRefundConfirmationEmail(refund: {
+  email: string;
+  firstName: string;
+  trackingRef: string;
+  cardId: string;
+}): MailMessage {
+  return {
+    to: refund.email,
+    subject: `Demande de remboursement reçue (${refund.trackingRef})`,
+    text: [
+      `Bonjour ${refund.firstName},`,
+      '',
+      `Nous avons bien reçu votre demande de remboursement pour la carte ${refund.cardId}.`,
+      `Votre référence de suivi : ${refund.trackingRef}`,
+      '',
+      'Votre demande sera vérifiée par notre équipe puis remboursée par virement',
+      'sur le compte indiqué. Mentionnez cette référence pour toute question.',
+      '',
+      "L'équipe du Château",
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,428 @@
+/**
+ * Bundled ISO 20022 pain.001 schemas
+ *
+ * Offline transcription of the pain.001.001.03 and pain.001.001.09 XSD
+ * (CustomerCreditTransferInitiation) used by the XSD validator. Complex types
+ * reachable from the elements the refund generator writes are transcribed
+ * with their full sequence, cardinality and facets. Other optional elements
+ * of those sequences are declared as 'opaque': their position and occurrence
+ * are checked but not their content.
+ */
+
+import { PainVersion } from '../../../src/lib/sepa-bank-profiles.ts';
+
+export interface ElementDeclaration {
+  name: string;
+  type: string;
+  minOccurs: number;
+  // null for maxOccurs="unbounded"
+  maxOccurs: number | null;
+}
+
+export type SchemaType =
+  | { kind: 'sequence'; elements: ElementDeclaration[] }
+  | { kind: 'choice'; elements: ElementDeclaration[] }
+  | {
+      kind: 'simple';
+      base: 'string' | 'decimal' | 'date' | 'dateTime' | 'boolean';
+      pattern?: RegExp;
+      minLength?: number;
+      maxLength?: number;
+      enumeration?: string[];
+      totalDigits?: number;
+      fractionDigits?: number;
+      minInclusive?: number;
+    }
+  // Simple content with a required attribute (amounts with their currency)
+  | { kind: 'amount'; valueType: string; attribute: string; attributeType: string }
+  | { kind: 'opaque' };
+
+export interface Pain001Schema {
+  version: PainVersion;
+  namespace: string;
+  root: ElementDeclaration;
+  types: Record<string, SchemaType>;
+}
+
+const one = (name: string, type: string): ElementDeclaration => ({ name, type, minOccurs: 1, maxOccurs: 1 });
+const optional = (name: string, type: string): ElementDeclaration => ({ name, type, minOccurs: 0, maxOccurs: 1 });
+const many = (name: string, type: string, minOccurs = 0, maxOccurs: number | null = null): ElementDeclaration =>
+  ({ name, type, minOccurs, maxOccurs });
+
+const text = (maxLength: number): SchemaType => ({ kind: 'simple', base: 'string', minLength: 1, maxLength });
+
+// Simple types shared by both versions
+const SIMPLE_TYPES: Record<string, SchemaType> = {
+  Opaque: { kind: 'opaque' },
+  Max16Text: text(16),
+  Max35Text: text(35),
+  Max70Text: text(70),
+  Max140Text: text(140),
+  Max15NumericText: { kind: 'simple', base: 'string', pattern: /^[0-9]{1,15}$/ },
+  ISODate: { kind: 'simple', base: 'date' },
+  ISODateTime: { kind: 'simple', base: 'dateTime' },
+  BatchBookingIndicator: { kind: 'simple', base: 'boolean' },
+  DecimalNumber: { kind: 'simple', base: 'decimal', totalDigits: 18, fractionDigits: 17 },
+  CountryCode: { kind: 'simple', base: 'string', pattern: /^[A-Z]{2,2}$/ },
+  ActiveOrHistoricCurrencyCode: { kind: 'simple', base: 'string', pattern: /^[A-Z]{3,3}$/ },
+  IBAN2007Identifier: { kind: 'simple', base: 'string', pattern: /^[A-Z]{2,2}[0-9]{2,2}[a-zA-Z0-9]{1,30}$/ },
+  PaymentMethod3Code: { kind: 'simple', base: 'string', enumeration: ['CHK', 'TRF', 'TRA'] },
+  Priority2Code: { kind: 'simple', base: 'string', enumeration: ['HIGH', 'NORM'] },
+  ChargeBearerType1Code: { kind: 'simple', base: 'string', enumeration: ['DEBT', 'CRED', 'SHAR', 'SLEV'] },
+  ExternalServiceLevel1Code: { kind: 'simple', base: 'string', minLength: 1, maxLength: 4 },
+  ExternalCategoryPurpose1Code: { kind: 'simple', base: 'string', minLength: 1, maxLength: 4 },
+  ActiveOrHistoricCurrencyAndAmount_SimpleType: {
+    kind: 'simple', base: 'decimal', totalDigits: 18, fractionDigits: 5, minInclusive: 0,
+  },
+  ActiveOrHistoricCurrencyAndAmount: {
+    kind: 'amount',
+    valueType: 'ActiveOrHistoricCurrencyAndAmount_SimpleType',
+    attribute: 'Ccy',
+    attributeType: 'ActiveOrHistoricCurrencyCode',
+  },
+  ServiceLevel8Choice: { kind: 'choice', elements: [one('Cd', 'ExternalServiceLevel1Code'), one('Prtry', 'Max35Text')] },
+  CategoryPurpose1Choice: { kind: 'choice', elements: [one('Cd', 'ExternalCategoryPurpose1Code'), one('Prtry', 'Max35Text')] },
+  AccountIdentification4Choice: { kind: 'choice', elements: [one('IBAN', 'IBAN2007Identifier'), one('Othr', 'Opaque')] },
+  GenericOrganisationIdentification1: {
+    kind: 'sequence',
+    elements: [one('Id', 'Max35Text'), optional('SchmeNm', 'Opaque'), optional('Issr', 'Max35Text')],
+  },
+  GenericFinancialIdentification1: {
+    kind: 'sequence',
+    elements: [one('Id', 'Max35Text'), optional('SchmeNm', 'Opaque'), optional('Issr', 'Max35Text')],
+  },
+};
+
+const PAIN_001_001_03: Pain001Schema = {
+  version: 'pain.001.001.03',
+  namespace: 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.03',
+  root: one('Document', 'Document'),
+  types: {
+    ...SIMPLE_TYPES,
+    BICIdentifier: { kind: 'simple', base: 'string', pattern: /^[A-Z]{6,6}[A-Z2-9][A-NP-Z0-9]([A-Z0-9]{3,3}){0,1}$/ },
+    AnyBICIdentifier: { kind: 'simple', base: 'string', pattern: /^[A-Z]{6,6}[A-Z2-9][A-NP-Z0-9]([A-Z0-9]{3,3}){0,1}$/ },
+    Document: { kind: 'sequence', elements: [one('CstmrCdtTrfInitn', 'CustomerCreditTransferInitiationV03')] },
+    CustomerCreditTransferInitiationV03: {
+      kind: 'sequence',
+      elements: [one('GrpHdr', 'GroupHeader32'), many('PmtInf', 'PaymentInstructionInformation3', 1)],
+    },
+    GroupHeader32: {
+      kind: 'sequence',
+      elements: [
+        one('MsgId', 'Max35Text'),
+        one('CreDtTm', 'ISODateTime'),
+        many('Authstn', 'Opaque', 0, 2),
+        one('NbOfTxs', 'Max15NumericText'),
+        optional('CtrlSum', 'DecimalNumber'),
+        one('InitgPty', 'PartyIdentification32'),
+        optional('FwdgAgt', 'Opaque'),
+      ],
+    },
+    PartyIdentification32: {
+      kind: 'sequence',
+      elements: [
+        optional('Nm', 'Max140Text'),
+        optional('PstlAdr', 'PostalAddress6'),
+        optional('Id', 'Party6Choice'),
+        optional('CtryOfRes', 'CountryCode'),
+        optional('CtctDtls', 'Opaque'),
+      ],
+    },
+    PostalAddress6: {
+      kind: 'sequence',
+      elements: [
+        optional('AdrTp', 'Opaque'),
+        optional('Dept', 'Max70Text'),
+        optional('SubDept', 'Max70Text'),
+        optional('StrtNm', 'Max70Text'),
+        optional('BldgNb', 'Max16Text'),
+        optional('PstCd', 'Max16Text'),
+        optional('TwnNm', 'Max35Text'),
+        optional('CtrySubDvsn', 'Max35Text'),
+        optional('Ctry', 'CountryCode'),
+        many('AdrLine', 'Max70Text', 0, 7),
+      ],
+    },
+    Party6Choice: { kind: 'choice', elements: [one('OrgId', 'OrganisationIdentification4'), one('PrvtId', 'Opaque')] },
+    OrganisationIdentification4: {
+      kind: 'sequence',
+      elements: [optional('BICOrBEI', 'AnyBICIdentifier'), many('Othr', 'GenericOrganisationIdentification1')],
+    },
+    PaymentInstructionInformation3: {
+      kind: 'sequence',
+      elements: [
+        one('PmtInfId', 'Max35Text'),
+        one('PmtMtd', 'PaymentMethod3Code'),
+        optional('BtchBookg', 'BatchBookingIndicator'),
+        optional('NbOfTxs', 'Max15NumericText'),
+        optional('CtrlSum', 'DecimalNumber'),
+        optional('PmtTpInf', 'PaymentTypeInformation19'),
+        one('ReqdExctnDt', 'ISODate'),
+        optional('PoolgAdjstmntDt', 'ISODate'),
+        one('Dbtr', 'PartyIdentification32'),
+        one('DbtrAcct', 'CashAccount16'),
+        one('DbtrAgt', 'BranchAndFinancialInstitutionIdentification4'),
+        optional('DbtrAgtAcct', 'Opaque'),
+        optional('UltmtDbtr', 'PartyIdentification32'),
+        optional('ChrgBr', 'ChargeBearerType1Code'),
+        optional('ChrgsAcct', 'Opaque'),
+        optional('ChrgsAcctAgt', 'Opaque'),
+        many('CdtTrfTxInf', 'CreditTransferTransactionInformation10', 1),
+      ],
+    },
+    PaymentTypeInformation19: {
+      kind: 'sequence',
+      elements: [
+        optional('InstrPrty', 'Priority2Code'),
+        optional('SvcLvl', 'ServiceLevel8Choice'),
+        optional('LclInstrm', 'Opaque'),
+        optional('CtgyPurp', 'CategoryPurpose1Choice'),
+      ],
+    },
+    CashAccount16: {
+      kind: 'sequence',
+      elements: [
+        one('Id', 'AccountIdentification4Choice'),
+        optional('Tp', 'Opaque'),
+        optional('Ccy', 'ActiveOrHistoricCurrencyCode'),
+        optional('Nm', 'Max70Text'),
+      ],
+    },
+    BranchAndFinancialInstitutionIdentification4: {
+      kind: 'sequence',
+      elements: [one('FinInstnId', 'FinancialInstitutionIdentification7'), optional('BrnchId', 'Opaque')],
+    },
+    FinancialInstitutionIdentification7: {
+      kind: 'sequence',
+      elements: [
+        optional('BIC', 'BICIdentifier'),
+        optional('ClrSysMmbId', 'Opaque'),
+        optional('Nm', 'Max140Text'),
+        optional('PstlAdr', 'PostalAddress6'),
+        optional('Othr', 'GenericFinancialIdentification1'),
+      ],
+    },
+    CreditTransferTransactionInformation10: {
+      kind: 'sequence',
+      elements: [
+        one('PmtId', 'PaymentIdentification1'),
+        optional('PmtTpInf', 'PaymentTypeInformation19'),
+        one('Amt', 'AmountType3Choice'),
+        optional('XchgRateInf', 'Opaque'),
+        optional('ChrgBr', 'ChargeBearerType1Code'),
+        optional('ChqInstr', 'Opaque'),
+        optional('UltmtDbtr', 'PartyIdentification32'),
+        optional('IntrmyAgt1', 'Opaque'),
+        optional('IntrmyAgt1Acct', 'Opaque'),
+        optional('IntrmyAgt2', 'Opaque'),
+        optional('IntrmyAgt2Acct', 'Opaque'),
+        optional('IntrmyAgt3', 'Opaque'),
+        optional('IntrmyAgt3Acct', 'Opaque'),
+        optional('CdtrAgt', 'BranchAndFinancialInstitutionIdentification4'),
+        optional('CdtrAgtAcct', 'Opaque'),
+        optional('Cdtr', 'PartyIdentification32'),
+        optional('CdtrAcct', 'CashAccount16'),
+        optional('UltmtCdtr', 'PartyIdentification32'),
+        many('InstrForCdtrAgt', 'Opaque'),
+        optional('InstrForDbtrAgt', 'Max140Text'),
+        optional('Purp', 'Opaque'),
+        many('RgltryRptg', 'Opaque', 0, 10),
+        optional('Tax', 'Opaque'),
+        many('RltdRmtInf', 'Opaque', 0, 10),
+        optional('RmtInf', 'RemittanceInformation5'),
+      ],
+    },
+    PaymentIdentification1: {
+      kind: 'sequence',
+      elements: [optional('InstrId', 'Max35Text'), one('EndToEndId', 'Max35Text')],
+    },
+    AmountType3Choice: {
+      kind: 'choice',
+      elements: [one('InstdAmt', 'ActiveOrHistoricCurrencyAndAmount'), one('EqvtAmt', 'Opaque')],
+    },
+    RemittanceInformation5: {
+      kind: 'sequence',
+      elements: [many('Ustrd', 'Max140Text'), many('Strd', 'Opaque')],
+    },
+  },
+};
+
+const PAIN_001_001_09: Pain001Schema = {
+  version: 'pain.001.001.09',
+  namespace: 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.09',
+  root: one('Document', 'Document'),
+  types: {
+    ...SIMPLE_TYPES,
+    BICFIDec2014Identifier: { kind: 'simple', base: 'string', pattern: /^[A-Z0-9]{4,4}[A-Z]{2,2}[A-Z0-9]{2,2}([A-Z0-9]{3,3}){0,1}$/ },
+    AnyBICDec2014Identifier: { kind: 'simple', base: 'string', pattern: /^[A-Z0-9]{4,4}[A-Z]{2,2}[A-Z0-9]{2,2}([A-Z0-9]{3,3}){0,1}$/ },
+    LEIIdentifier: { kind: 'simple', base: 'string', pattern: /^[A-Z0-9]{18,18}[0-9]{2,2}$/ },
+    UUIDv4Identifier: { kind: 'simple', base: 'string', pattern: /^[a-f0-9]{8}-[a-f0-9]{4}-4[a-f0-9]{3}-[89ab][a-f0-9]{3}-[a-f0-9]{12}$/ },
+    Document: { kind: 'sequence', elements: [one('CstmrCdtTrfInitn', 'CustomerCreditTransferInitiationV09')] },
+    CustomerCreditTransferInitiationV09: {
+      kind: 'sequence',
+      elements: [
+        one('GrpHdr', 'GroupHeader85'),
+        many('PmtInf', 'PaymentInstruction30', 1),
+        many('SplmtryData', 'Opaque'),
+      ],
+    },
+    GroupHeader85: {
+      kind: 'sequence',
+      elements: [
+        one('MsgId', 'Max35Text'),
+        one('CreDtTm', 'ISODateTime'),
+        many('Authstn', 'Opaque', 0, 2),
+        one('NbOfTxs', 'Max15NumericText'),
+        optional('CtrlSum', 'DecimalNumber'),
+        one('InitgPty', 'PartyIdentification135'),
+        optional('FwdgAgt', 'Opaque'),
+      ],
+    },
+    PartyIdentification135: {
+      kind: 'sequence',
+      elements: [
+        optional('Nm', 'Max140Text'),
+        optional('PstlAdr', 'PostalAddress24'),
+        optional('Id', 'Party38Choice'),
+        optional('CtryOfRes', 'CountryCode'),
+        optional('CtctDtls', 'Opaque'),
+      ],
+    },
+    PostalAddress24: {
+      kind: 'sequence',
+      elements: [
+        optional('AdrTp', 'Opaque'),
+        optional('Dept', 'Max70Text'),
+        optional('SubDept', 'Max70Text'),
+        optional('StrtNm', 'Max70Text'),
+        optional('BldgNb', 'Max16Text'),
+        optional('BldgNm', 'Max35Text'),
+        optional('Flr', 'Max70Text'),
+        optional('PstBx', 'Max16Text'),
+        optional('Room', 'Max70Text'),
+        optional('PstCd', 'Max16Text'),
+        optional('TwnNm', 'Max35Text'),
+        optional('TwnLctnNm', 'Max35Text'),
+        optional('DstrctNm', 'Max35Text'),
+        optional('CtrySubDvsn', 'Max35Text'),
+        optional('Ctry', 'CountryCode'),
+        many('AdrLine', 'Max70Text', 0, 7),
+      ],
+    },
+    Party38Choice: { kind: 'choice', elements: [one('OrgId', 'OrganisationIdentification29'), one('PrvtId', 'Opaque')] },
+    OrganisationIdentification29: {
+      kind: 'sequence',
+      elements: [
+        optional('AnyBIC', 'AnyBICDec2014Identifier'),
+        optional('LEI', 'LEIIdentifier'),
+        many('Othr', 'GenericOrganisationIdentification1'),
+      ],
+    },
+    PaymentInstruction30: {
+      kind: 'sequence',
+      elements: [
+        one('PmtInfId', 'Max35Text'),
+        one('PmtMtd', 'PaymentMethod3Code'),
+        optional('BtchBookg', 'BatchBookingIndicator'),
+        optional('NbOfTxs', 'Max15NumericText'),
+        optional('CtrlSum', 'DecimalNumber'),
+        optional('PmtTpInf', 'PaymentTypeInformation26'),
+        one('ReqdExctnDt', 'DateAndDateTime2Choice'),
+        optional('PoolgAdjstmntDt', 'ISODate'),
+        one('Dbtr', 'PartyIdentification135'),
+        one('DbtrAcct', 'CashAccount38'),
+        one('DbtrAgt', 'BranchAndFinancialInstitutionIdentification6'),
+        optional('DbtrAgtAcct', 'Opaque'),
+        optional('InstrForDbtrAgt', 'Max140Text'),
+        optional('UltmtDbtr', 'PartyIdentification135'),
+        optional('ChrgBr', 'ChargeBearerType1Code'),
+        optional('ChrgsAcct', 'Opaque'),
+        optional('ChrgsAcctAgt', 'Opaque'),
+        many('CdtTrfTxInf', 'CreditTransferTransaction34', 1),
+      ],
+    },
+    PaymentTypeInformation26: {
+      kind: 'sequence',
+      elements: [
+        optional('InstrPrty', 'Priority2Code'),
+        many('SvcLvl', 'ServiceLevel8Choice'),
+        optional('LclInstrm', 'Opaque'),
+        optional('CtgyPurp', 'CategoryPurpose1Choice'),
+      ],
+    },
+    DateAndDateTime2Choice: { kind: 'choice', elements: [one('Dt', 'ISODate'), one('DtTm', 'ISODateTime')] },
+    CashAccount38: {
+      kind: 'sequence',
+      elements: [
+        one('Id', 'AccountIdentification4Choice'),
+        optional('Tp', 'Opaque'),
+        optional('Ccy', 'ActiveOrHistoricCurrencyCode'),
+        optional('Nm', 'Max70Text'),
+        optional('Prxy', 'Opaque'),
+      ],
+    },
+    BranchAndFinancialInstitutionIdentification6: {
+      kind: 'sequence',
+      elements: [one('FinInstnId', 'FinancialInstitutionIdentification18'), optional('BrnchId', 'Opaque')],
+    },
+    FinancialInstitutionIdentification18: {
+      kind: 'sequence',
+      elements: [
+        optional('BICFI', 'BICFIDec2014Identifier'),
+        optional('ClrSysMmbId', 'Opaque'),
+        optional('LEI', 'LEIIdentifier'),
+        optional('Nm', 'Max140Text'),
+        optional('PstlAdr', 'PostalAddress24'),
+        optional('Othr', 'GenericFinancialIdentification1'),
+      ],
+    },
+    CreditTransferTransaction34: {
+      kind: 'sequence',
+      elements: [
+        one('PmtId', 'PaymentIdentification6'),
+        optional('PmtTpInf', 'PaymentTypeInformation26'),
+        one('Amt', 'AmountType4Choice'),
+        optional('XchgRateInf', 'Opaque'),
+        optional('ChrgBr', 'ChargeBearerType1Code'),
+        optional('ChqInstr', 'Opaque'),
+        optional('UltmtDbtr', 'PartyIdentification135'),
+        optional('IntrmyAgt1', 'Opaque'),
+        optional('IntrmyAgt1Acct', 'Opaque'),
+        optional('IntrmyAgt2', 'Opaque'),
+        optional('IntrmyAgt2Acct', 'Opaque'),
+        optional('IntrmyAgt3', 'Opaque'),
+        optional('IntrmyAgt3Acct', 'Opaque'),
+        optional('CdtrAgt', 'BranchAndFinancialInstitutionIdentification6'),
+        optional('CdtrAgtAcct', 'Opaque'),
+        optional('Cdtr', 'PartyIdentification135'),
+        optional('CdtrAcct', 'CashAccount38'),
+        optional('UltmtCdtr', 'PartyIdentification135'),
+        many('InstrForCdtrAgt', 'Opaque'),
+        optional('InstrForDbtrAgt', 'Max140Text'),
+        optional('Purp', 'Opaque'),
+        many('RgltryRptg', 'Opaque', 0, 10),
+        optional('Tax', 'Opaque'),
+        many('RltdRmtInf', 'Opaque', 0, 10),
+        optional('RmtInf', 'RemittanceInformation16'),
+        many('SplmtryData', 'Opaque'),
+      ],
+    },
+    PaymentIdentification6: {
+      kind: 'sequence',
+      elements: [optional('InstrId', 'Max35Text'), one('EndToEndId', 'Max35Text'), optional('UETR', 'UUIDv4Identifier')],
+    },
+    AmountType4Choice: {
+      kind: 'choice',
+      elements: [one('InstdAmt', 'ActiveOrHistoricCurrencyAndAmount'), one('EqvtAmt', 'Opaque')],
+    },
+    RemittanceInformation16: {
+      kind: 'sequence',
+      elements: [many('Ustrd', 'Max140Text'), many('Strd', 'Opaque')],
+    },
+  },
+};
+
+export const PAIN_001_SCHEMAS: Record<PainVersion, Pain001Schema> = {
+  'pain.001.001.03': PAIN_001_001_03,
+  'pain.001.001.09': PAIN_001_001_09,
+};
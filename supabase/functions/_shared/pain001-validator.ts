@@ -0,0 +1,388 @@
+/**
+ * pain.001 XSD Validator
+ *
+ * Validates generated credit transfer files against the bundled pain.001
+ * schemas (see pain001-schemas.ts) without network access or native XML
+ * libraries: element order and cardinality of sequences, choices, simple
+ * type facets (length, pattern, enumeration, digits) and the currency
+ * attribute of amounts.
+ *
+ * The parser only accepts what the generator can produce: elements,
+ * attributes, text, comments and the XML declaration. DOCTYPE declarations
+ * are rejected.
+ */
+
+import { PainVersion } from '../../../src/lib/sepa-bank-profiles.ts';
+import { ElementDeclaration, Pain001Schema, PAIN_001_SCHEMAS, SchemaType } from './pain001-schemas.ts';
+
+export type SchemaViolationRule =
+  | 'malformed'
+  | 'namespace'
+  | 'unexpected'
+  | 'missing'
+  | 'datatype'
+  | 'length'
+  | 'pattern'
+  | 'enumeration'
+  | 'digits'
+  | 'range'
+  | 'attribute';
+
+export interface SchemaViolation {
+  rule: SchemaViolationRule;
+  // Location in the document, e.g. /Document/CstmrCdtTrfInitn/PmtInf[1]/CdtTrfTxInf[2]/Amt/InstdAmt
+  path: string;
+  element: string;
+  // Schema type of the element, when known
+  type: string | null;
+  value: string | null;
+  message: string;
+}
+
+export type SchemaValidationResult =
+  | { kind: 'valid' }
+  | { kind: 'invalid'; violations: SchemaViolation[] };
+
+interface XmlNode {
+  name: string;
+  namespace: string | null;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  text: string;
+}
+
+type ParseResult = { kind: 'document'; root: XmlNode } | { kind: 'malformed'; error: string };
+
+const TOKEN_REGEX = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<!([^>]*)>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/y;
+const ATTRIBUTE_REGEX = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string | null {
+  let valid = true;
+  const decoded = text.replace(/&([^;\s&]*);?/g, (match, entity: string) => {
+    if (!match.endsWith(';')) {
+      valid = false;
+      return match;
+    }
+    if (entity in NAMED_ENTITIES) return NAMED_ENTITIES[entity];
+    const code = entity.startsWith('#x') ? parseInt(entity.slice(2), 16)
+      : entity.startsWith('#') ? parseInt(entity.slice(1), 10)
+      : NaN;
+    if (Number.isNaN(code)) {
+      valid = false;
+      return match;
+    }
+    return String.fromCodePoint(code);
+  });
+  return valid ? decoded : null;
+}
+
+function splitName(qualifiedName: string): [prefix: string, localName: string] {
+  const separator = qualifiedName.indexOf(':');
+  return separator === -1 ? ['', qualifiedName] : [qualifiedName.slice(0, separator), qualifiedName.slice(separator + 1)];
+}
+
+function parseXml(xml: string): ParseResult {
+  const stack: { node: XmlNode; qualifiedName: string; namespaces: Record<string, string> }[] = [];
+  let root: XmlNode | null = null;
+  let position = 0;
+
+  while (position < xml.length) {
+    TOKEN_REGEX.lastIndex = position;
+    const match = TOKEN_REGEX.exec(xml);
+    if (!match) {
+      return { kind: 'malformed', error: `Unexpected markup at offset ${position}` };
+    }
+    position = TOKEN_REGEX.lastIndex;
+
+    const [token, cdata, declaration, closingName, openingName, rawAttributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (declaration !== undefined) {
+      return { kind: 'malformed', error: 'DOCTYPE and other declarations are not allowed' };
+    }
+
+    if (text !== undefined || cdata !== undefined) {
+      const content = cdata ?? decodeEntities(text);
+      if (content === null) return { kind: 'malformed', error: `Invalid entity in text at offset ${match.index}` };
+      if (!current) {
+        if (content.trim()) return { kind: 'malformed', error: 'Text outside the root element' };
+        continue;
+      }
+      current.node.text += content;
+      continue;
+    }
+
+    if (closingName !== undefined) {
+      if (!current || current.qualifiedName !== closingName) {
+        return { kind: 'malformed', error: `Unexpected closing tag </${closingName}>` };
+      }
+      stack.pop();
+      continue;
+    }
+
+    if (openingName !== undefined) {
+      if (!current && root) return { kind: 'malformed', error: 'More than one root element' };
+
+      const namespaces = { ...(current?.namespaces ?? {}) };
+      const attributes: Record<string, string> = {};
+      for (const [, name, doubleQuoted, singleQuoted] of (rawAttributes || '').matchAll(ATTRIBUTE_REGEX)) {
+        const value = decodeEntities(doubleQuoted ?? singleQuoted);
+        if (value === null) return { kind: 'malformed', error: `Invalid entity in attribute ${name}` };
+        if (name in attributes) return { kind: 'malformed', error: `Duplicate attribute ${name}` };
+        attributes[name] = value;
+        if (name === 'xmlns') namespaces[''] = value;
+        else if (name.startsWith('xmlns:')) namespaces[name.slice(6)] = value;
+      }
+
+      const [prefix, localName] = splitName(openingName);
+      if (prefix && !(prefix in namespaces)) {
+        return { kind: 'malformed', error: `Undeclared namespace prefix ${prefix}` };
+      }
+
+      const node: XmlNode = {
+        name: localName,
+        namespace: namespaces[prefix] ?? null,
+        attributes,
+        children: [],
+        text: '',
+      };
+      if (current) current.node.children.push(node);
+      else root = node;
+
+      if (!selfClosing) stack.push({ node, qualifiedName: openingName, namespaces });
+      continue;
+    }
+
+    // Comments and processing instructions
+    if (!token.startsWith('<!--') && !token.startsWith('<?')) {
+      return { kind: 'malformed', error: `Unexpected markup at offset ${match.index}` };
+    }
+  }
+
+  if (stack.length > 0) return { kind: 'malformed', error: `Unclosed element <${stack[stack.length - 1].qualifiedName}>` };
+  if (!root) return { kind: 'malformed', error: 'Empty document' };
+  return { kind: 'document', root };
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+const DATE_REGEX = /^(-?\d{4,})-(\d{2})-(\d{2})(Z|[+-]\d{2}:\d{2})?$/;
+const DATE_TIME_REGEX = /^(-?\d{4,})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+const DECIMAL_REGEX = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+
+class SchemaValidator {
+  readonly violations: SchemaViolation[] = [];
+  private documentNamespace: string | null = null;
+
+  constructor(private readonly schema: Pain001Schema) {}
+
+  private report(rule: SchemaViolationRule, path: string, element: string, type: string | null, value: string | null, message: string) {
+    this.violations.push({ rule, path, element, type, value, message });
+  }
+
+  validateDocument(root: XmlNode) {
+    const { root: declaration, namespace } = this.schema;
+    const path = `/${root.name}`;
+    if (root.name !== declaration.name) {
+      this.report('unexpected', path, root.name, null, null, `Root element must be ${declaration.name}`);
+      return;
+    }
+    if (root.namespace !== namespace) {
+      this.report('namespace', path, root.name, null, root.namespace, `Document namespace must be ${namespace}`);
+    }
+    this.documentNamespace = root.namespace;
+    this.validateElement(root, declaration, path);
+  }
+
+  private validateElement(node: XmlNode, declaration: ElementDeclaration, path: string) {
+    const type = this.schema.types[declaration.type];
+    if (!type) {
+      throw new Error(`Schema type ${declaration.type} is not defined for ${this.schema.version}`);
+    }
+
+    // The document namespace is reported once on the root
+    if (node.namespace !== this.documentNamespace) {
+      this.report('namespace', path, node.name, declaration.type, node.namespace, `Element ${node.name} is not in the document namespace`);
+    }
+
+    switch (type.kind) {
+      case 'opaque':
+        return;
+      case 'simple':
+      case 'amount':
+        if (node.children.length > 0) {
+          this.report('unexpected', `${path}/${node.children[0].name}`, node.children[0].name, null, null, `Element ${node.name} cannot contain child elements`);
+          return;
+        }
+        if (type.kind === 'amount') {
+          this.validateAmount(node, declaration.type, type, path);
+        } else {
+          this.validateSimpleValue(node.text, declaration.type, type, path, node.name);
+        }
+        return;
+      case 'sequence':
+      case 'choice':
+        if (node.text.trim()) {
+          this.report('datatype', path, node.name, declaration.type, node.text.trim(), `Element ${node.name} cannot contain text`);
+        }
+        if (type.kind === 'sequence') this.validateSequence(node, type.elements, path);
+        else this.validateChoice(node, type.elements, path);
+        return;
+    }
+  }
+
+  private validateSequence(node: XmlNode, elements: ElementDeclaration[], path: string) {
+    let index = 0;
+    for (const declaration of elements) {
+      let count = 0;
+      while (
+        index < node.children.length &&
+        node.children[index].name === declaration.name &&
+        (declaration.maxOccurs === null || count < declaration.maxOccurs)
+      ) {
+        const childPath = declaration.maxOccurs === 1
+          ? `${path}/${declaration.name}`
+          : `${path}/${declaration.name}[${count + 1}]`;
+        this.validateElement(node.children[index], declaration, childPath);
+        count++;
+        index++;
+      }
+      if (count < declaration.minOccurs) {
+        this.report('missing', `${path}/${declaration.name}`, declaration.name, declaration.type, null, `Missing required element ${declaration.name} in ${node.name}`);
+      }
+    }
+
+    for (const child of node.children.slice(index)) {
+      this.report('unexpected', `${path}/${child.name}`, child.name, null, null, `Element ${child.name} is not expected at this position in ${node.name}`);
+    }
+  }
+
+  private validateChoice(node: XmlNode, elements: ElementDeclaration[], path: string) {
+    const [first, ...others] = node.children;
+    if (!first) {
+      const names = elements.map(element => element.name).join(' or ');
+      this.report('missing', path, node.name, null, null, `${node.name} requires one of ${names}`);
+      return;
+    }
+
+    const declaration = elements.find(element => element.name === first.name);
+    if (!declaration) {
+      this.report('unexpected', `${path}/${first.name}`, first.name, null, null, `Element ${first.name} is not allowed in ${node.name}`);
+    } else {
+      this.validateElement(first, declaration, `${path}/${first.name}`);
+    }
+    for (const child of others) {
+      this.report('unexpected', `${path}/${child.name}`, child.name, null, null, `${node.name} accepts a single element, found ${child.name}`);
+    }
+  }
+
+  private validateAmount(node: XmlNode, typeName: string, type: Extract<SchemaType, { kind: 'amount' }>, path: string) {
+    const valueType = this.schema.types[type.valueType];
+    const attributeType = this.schema.types[type.attributeType];
+    if (valueType.kind !== 'simple' || attributeType.kind !== 'simple') {
+      throw new Error(`Schema type ${typeName} must use simple types`);
+    }
+
+    this.validateSimpleValue(node.text, typeName, valueType, path, node.name);
+    const attribute = node.attributes[type.attribute];
+    if (attribute === undefined) {
+      this.report('attribute', `${path}/@${type.attribute}`, node.name, typeName, null, `Attribute ${type.attribute} is required on ${node.name}`);
+      return;
+    }
+    this.validateSimpleValue(attribute, type.attributeType, attributeType, `${path}/@${type.attribute}`, node.name);
+  }
+
+  private validateSimpleValue(
+    rawValue: string,
+    typeName: string,
+    type: Extract<SchemaType, { kind: 'simple' }>,
+    path: string,
+    element: string
+  ) {
+    // Non-string built-in types collapse whitespace before checking the value
+    const value = type.base === 'string' ? rawValue : rawValue.trim();
+    const fail = (rule: SchemaViolationRule, message: string) =>
+      this.report(rule, path, element, typeName, value, message);
+
+    switch (type.base) {
+      case 'boolean':
+        if (!['true', 'false', '1', '0'].includes(value)) return fail('datatype', `${element} must be a boolean`);
+        break;
+      case 'date': {
+        const match = DATE_REGEX.exec(value);
+        if (!match || !isValidDate(Number(match[1]), Number(match[2]), Number(match[3]))) {
+          return fail('datatype', `${element} must be a date (YYYY-MM-DD)`);
+        }
+        break;
+      }
+      case 'dateTime': {
+        const match = DATE_TIME_REGEX.exec(value);
+        if (
+          !match ||
+          !isValidDate(Number(match[1]), Number(match[2]), Number(match[3])) ||
+          Number(match[4]) > 23 || Number(match[5]) > 59 || Number(match[6]) > 59
+        ) {
+          return fail('datatype', `${element} must be a date and time (YYYY-MM-DDThh:mm:ss)`);
+        }
+        break;
+      }
+      case 'decimal': {
+        if (!DECIMAL_REGEX.test(value)) return fail('datatype', `${element} must be a decimal number`);
+        const [integerPart, fractionPart = ''] = value.replace(/^[+-]/, '').split('.');
+        const fractionDigits = fractionPart.replace(/0+$/, '').length;
+        const totalDigits = integerPart.replace(/^0+/, '').length + fractionDigits;
+        if (type.fractionDigits !== undefined && fractionDigits > type.fractionDigits) {
+          return fail('digits', `${element} allows at most ${type.fractionDigits} decimals`);
+        }
+        if (type.totalDigits !== undefined && totalDigits > type.totalDigits) {
+          return fail('digits', `${element} allows at most ${type.totalDigits} digits`);
+        }
+        if (type.minInclusive !== undefined && Number(value) < type.minInclusive) {
+          return fail('range', `${element} must be at least ${type.minInclusive}`);
+        }
+        break;
+      }
+      case 'string':
+        break;
+    }
+
+    // Facets count characters, not UTF-16 code units
+    const length = [...value].length;
+    if (type.minLength !== undefined && length < type.minLength) {
+      return fail('length', `${element} must contain at least ${type.minLength} character(s)`);
+    }
+    if (type.maxLength !== undefined && length > type.maxLength) {
+      return fail('length', `${element} exceeds ${type.maxLength} characters`);
+    }
+    if (type.pattern && !type.pattern.test(value)) {
+      return fail('pattern', `${element} does not match the ${typeName} format`);
+    }
+    if (type.enumeration && !type.enumeration.includes(value)) {
+      return fail('enumeration', `${element} must be one of ${type.enumeration.join(', ')}`);
+    }
+  }
+}
+
+export function validateAgainstSchema(xml: string, schema: Pain001Schema): SchemaValidationResult {
+  const parsed = parseXml(xml);
+  if (parsed.kind === 'malformed') {
+    return {
+      kind: 'invalid',
+      violations: [{ rule: 'malformed', path: '/', element: '', type: null, value: null, message: parsed.error }],
+    };
+  }
+
+  const validator = new SchemaValidator(schema);
+  validator.validateDocument(parsed.root);
+  return validator.violations.length === 0
+    ? { kind: 'valid' }
+    : { kind: 'invalid', violations: validator.violations };
+}
+
+export function validatePain001(xml: string, version: PainVersion): SchemaValidationResult {
+  return validateAgainstSchema(xml, PAIN_001_SCHEMAS[version]);
+}
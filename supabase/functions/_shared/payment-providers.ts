@@ -0,0 +1,434 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import Stripe from 'https://esm.sh/stripe@14.21.0'
+import { SecurityUtils } from '../../../src/config/security.ts'
+import { applyRechargeBonus, AppliedBonus, RechargeOfferSelection } from './recharge-offers.ts'
+
+/**
+ * Payment Providers
+ *
+ * Shared by create-stripe-checkout (session creation), stripe-webhook and
+ * payment-webhook (webhook verification and recharge settlement).
+ *
+ * The provider is chosen per edition (editions.payment_provider). Stripe uses
+ * its hosted checkout; the mock provider is a local Payconiq/Bancontact-style
+ * QR flow whose webhooks are signed with MOCK_PAYMENT_WEBHOOK_SECRET, used for
+ * tests and rehearsals without real money.
+ *
+ * Settlement is provider-agnostic: the paid session is credited through
+ * sp_process_provider_recharge, which records the provider in
+ * recharges.payment_method, then the package / promo code bonus quoted at
+ * checkout is credited through sp_apply_recharge_bonus.
+ */
+
+export type PaymentProviderId = 'stripe' | 'mock';
+
+export const PAYMENT_PROVIDERS: PaymentProviderId[] = ['stripe', 'mock'];
+
+export interface CheckoutRequest {
+  cardId: string;
+  amount: number;
+  clientRequestId: string;
+  successUrl: string;
+  cancelUrl: string;
+  // Extra session metadata echoed back at settlement (package_id, promo_code)
+  metadata?: Record<string, string>;
+}
+
+export interface CheckoutSession {
+  provider: PaymentProviderId;
+  sessionId: string;
+  // Hosted payment page (Stripe)
+  checkoutUrl: string | null;
+  // Payload to render as a QR code (mock)
+  qrPayload: string | null;
+}
+
+export interface RechargeSettlement {
+  sessionId: string;
+  cardId: string;
+  amount: number;
+  metadata: Record<string, string>;
+}
+
+export type SettlementParseResult =
+  | { kind: 'settle'; settlement: RechargeSettlement }
+  | { kind: 'ignore'; eventType: string }
+  | { kind: 'invalid'; error: string; details?: unknown };
+
+export interface PaymentProvider<TEvent = unknown> {
+  readonly id: PaymentProviderId;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Throws when the signature does not match
+  verifyWebhook(body: string, headers: Headers): Promise<TEvent>;
+  toSettlement(event: TEvent): SettlementParseResult;
+}
+
+export function isPaymentProviderId(value: unknown): value is PaymentProviderId {
+  return typeof value === 'string' && (PAYMENT_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Card id and amount travel in the session metadata for every provider
+ */
+function parseSettlementMetadata(sessionId: string, metadata: Record<string, string>): SettlementParseResult {
+  const cardId = metadata.card_id || metadata.cardId;
+  // Support both 'amount' and 'original_amount' field names
+  const amount = metadata.amount || metadata.original_amount;
+
+  const missingFields: string[] = [];
+  if (!cardId) missingFields.push('card_id');
+  if (!amount) missingFields.push('amount');
+
+  if (missingFields.length > 0) {
+    return {
+      kind: 'invalid',
+      error: `Missing required metadata fields: ${missingFields.join(', ')}`,
+      details: { received_metadata: metadata, missing_fields: missingFields },
+    };
+  }
+
+  const numericAmount = parseFloat(amount);
+  if (isNaN(numericAmount) || numericAmount <= 0) {
+    return { kind: 'invalid', error: 'Invalid amount in metadata' };
+  }
+
+  return { kind: 'settle', settlement: { sessionId, cardId, amount: numericAmount, metadata } };
+}
+
+// =====================================================
+// STRIPE
+// =====================================================
+
+export function createStripeProvider(stripe: Stripe, webhookSecret: string): PaymentProvider<Stripe.Event> {
+  return {
+    id: 'stripe',
+
+    async createCheckout(request) {
+      const session = await stripe.checkout.sessions.create({
+        payment_method_types: ['card', 'bancontact'],
+        line_items: [
+          {
+            price_data: {
+              currency: 'eur',
+              product_data: {
+                name: 'Recharge de carte',
+                description: `Recharge carte ID: ${request.cardId}`,
+              },
+              unit_amount: Math.round(request.amount * 100), // Convert to cents
+            },
+            quantity: 1,
+          },
+        ],
+        mode: 'payment',
+        success_url: request.successUrl,
+        cancel_url: request.cancelUrl,
+        client_reference_id: request.cardId,
+        metadata: {
+          ...request.metadata,
+          card_id: request.cardId,
+          amount: request.amount.toString(),
+          client_request_id: request.clientRequestId,
+        },
+      });
+
+      return { provider: 'stripe', sessionId: session.id, checkoutUrl: session.url || null, qrPayload: null };
+    },
+
+    async verifyWebhook(body, headers) {
+      const signature = headers.get('stripe-signature');
+      if (!signature) {
+        throw new Error('Missing stripe-signature header');
+      }
+      try {
+        // Use the async version for Deno edge runtime
+        return await stripe.webhooks.constructEventAsync(body, signature, webhookSecret);
+      } catch (error) {
+        throw new Error(`Webhook signature verification failed: ${error.message}`);
+      }
+    },
+
+    toSettlement(event) {
+      // Only credit cards on checkout.session.completed events
+      if (event.type !== 'checkout.session.completed') {
+        return { kind: 'ignore', eventType: event.type };
+      }
+
+      const session = event.data.object as Stripe.Checkout.Session;
+      if (session.payment_status !== 'paid') {
+        return { kind: 'invalid', error: 'Payment not completed' };
+      }
+
+      return parseSettlementMetadata(session.id, (session.metadata || {}) as Record<string, string>);
+    },
+  };
+}
+
+/**
+ * Stripe client for the configured mode (STRIPE_TEST_MODE)
+ */
+export function createStripeClient(): Stripe {
+  const isTestMode = Deno.env.get('STRIPE_TEST_MODE') === 'true';
+  const secretKey = isTestMode
+    ? Deno.env.get('STRIPE_SECRET_KEY_TEST')
+    : Deno.env.get('STRIPE_SECRET_KEY_FINAL');
+
+  if (!secretKey) {
+    throw new Error(`Missing Stripe secret key for ${isTestMode ? 'test' : 'live'} mode`);
+  }
+
+  return new Stripe(secretKey, { apiVersion: '2023-10-16' });
+}
+
+// =====================================================
+// MOCK (local QR provider)
+// =====================================================
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+const MOCK_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface MockPaymentEvent {
+  id: string;
+  type: 'payment.succeeded' | 'payment.failed' | 'payment.cancelled';
+  data: {
+    session_id: string;
+    status: 'paid' | 'failed' | 'cancelled';
+    metadata: Record<string, string>;
+  };
+}
+
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Signature header for a mock webhook body, in Stripe's `t=...,v1=...` shape
+ */
+export async function signMockWebhook(body: string, secret: string, timestamp: number = Math.floor(Date.now() / 1000)): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+}
+
+export function createMockProvider(webhookSecret: string, qrBaseUrl: string = 'https://pay.mock.local/qr'): PaymentProvider<MockPaymentEvent> {
+  return {
+    id: 'mock',
+
+    createCheckout(request) {
+      const sessionId = `mock_${crypto.randomUUID().replace(/-/g, '')}`;
+      const params = new URLSearchParams({
+        ...request.metadata,
+        amount: String(Math.round(request.amount * 100)),
+        currency: 'EUR',
+        reference: request.cardId,
+      });
+
+      return Promise.resolve({
+        provider: 'mock',
+        sessionId,
+        checkoutUrl: null,
+        qrPayload: `${qrBaseUrl}/${sessionId}?${params.toString()}`,
+      });
+    },
+
+    async verifyWebhook(body, headers) {
+      const header = headers.get(MOCK_SIGNATURE_HEADER);
+      if (!header || !webhookSecret) {
+        throw new Error(`Missing ${MOCK_SIGNATURE_HEADER} header`);
+      }
+
+      const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=', 2)));
+      const timestamp = parseInt(parts.t, 10);
+      if (!timestamp || !parts.v1) {
+        throw new Error('Webhook signature verification failed: malformed header');
+      }
+      if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > MOCK_SIGNATURE_TOLERANCE_SECONDS) {
+        throw new Error('Webhook signature verification failed: timestamp outside tolerance');
+      }
+      if (!SecurityUtils.timingSafeEqual(await hmacSha256Hex(webhookSecret, `${timestamp}.${body}`), parts.v1)) {
+        throw new Error('Webhook signature verification failed: signature mismatch');
+      }
+
+      return JSON.parse(body) as MockPaymentEvent;
+    },
+
+    toSettlement(event) {
+      if (event.type !== 'payment.succeeded') {
+        return { kind: 'ignore', eventType: event.type };
+      }
+      if (event.data?.status !== 'paid' || !event.data.session_id) {
+        return { kind: 'invalid', error: 'Payment not completed' };
+      }
+      return parseSettlementMetadata(event.data.session_id, event.data.metadata || {});
+    },
+  };
+}
+
+// =====================================================
+// PROVIDER SELECTION
+// =====================================================
+
+/**
+ * Provider configured on the live edition, Stripe when none is live
+ */
+export async function getActivePaymentProvider(supabaseAdmin: SupabaseClient): Promise<PaymentProviderId> {
+  const { data, error } = await supabaseAdmin.rpc('get_active_payment_provider');
+  if (error) {
+    throw error;
+  }
+  return isPaymentProviderId(data) ? data : 'stripe';
+}
+
+export function createPaymentProvider(id: 'stripe'): PaymentProvider<Stripe.Event>;
+export function createPaymentProvider(id: 'mock'): PaymentProvider<MockPaymentEvent>;
+export function createPaymentProvider(id: PaymentProviderId): PaymentProvider;
+export function createPaymentProvider(id: PaymentProviderId): PaymentProvider {
+  if (id === 'mock') {
+    return createMockProvider(
+      Deno.env.get('MOCK_PAYMENT_WEBHOOK_SECRET') || '',
+      Deno.env.get('MOCK_PAYMENT_QR_BASE_URL') || undefined
+    );
+  }
+  return createStripeProvider(createStripeClient(), Deno.env.get('STRIPE_WEBHOOK_SECRET') || '');
+}
+
+// =====================================================
+// SETTLEMENT
+// =====================================================
+
+const MAX_REPLACEMENT_HOPS = 5;
+
+export type SettlementOutcome =
+  | { status: 'credited'; cardId: string; forwarded: boolean; result: unknown; bonus?: AppliedBonus }
+  | { status: 'duplicate'; cardId: string; bonus?: AppliedBonus }
+  | { status: 'not_credited'; cardId: string; cardStatus: string | null };
+
+/**
+ * Resolves the card to credit at settlement. A replaced card forwards to its
+ * replacement; blocked, lost or dangling retired cards cannot be credited.
+ */
+export async function resolveCreditableCard(
+  supabaseAdmin: SupabaseClient,
+  cardId: string
+): Promise<{ cardId: string; status: string | null; forwarded: boolean }> {
+  let currentId = cardId;
+
+  for (let hop = 0; hop <= MAX_REPLACEMENT_HOPS; hop++) {
+    const { data: card, error } = await supabaseAdmin
+      .from('table_cards')
+      .select('id, status, replaced_by')
+      .eq('id', currentId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    // Unknown cards are left to the stored procedure to report
+    if (!card || !card.status || card.status === 'active') {
+      return { cardId: currentId, status: card?.status ?? null, forwarded: currentId !== cardId };
+    }
+
+    if (card.status !== 'retired' || !card.replaced_by) {
+      return { cardId: currentId, status: card.status, forwarded: currentId !== cardId };
+    }
+
+    currentId = card.replaced_by;
+  }
+
+  return { cardId: currentId, status: 'retired', forwarded: true };
+}
+
+/**
+ * Records a paid session that could not be credited so it can be refunded
+ * by hand. The provider still gets a 2xx so it stops retrying.
+ */
+export async function recordUncreditedPayment(
+  supabaseAdmin: SupabaseClient,
+  provider: PaymentProviderId,
+  cardId: string,
+  cardStatus: string | null,
+  amount: number,
+  sessionId: string
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('monitoring_events').insert({
+    event_type: 'transaction_failure',
+    severity: 'HIGH',
+    card_id: cardId,
+    affected_amount: amount,
+    detection_algorithm: `${provider}_inactive_card`,
+    event_data: {
+      stripe_session_id: sessionId,
+      payment_provider: provider,
+      card_status: cardStatus,
+      reason: 'Paid session for a card that is not active',
+    },
+  });
+
+  if (error) {
+    console.error(`Failed to record uncredited ${provider} payment ${sessionId}:`, error.message);
+  }
+}
+
+/**
+ * Package and promo code chosen at checkout, from the session metadata
+ */
+export function offerSelectionFromMetadata(metadata: Record<string, string>): RechargeOfferSelection | null {
+  const packageId = metadata.package_id ? parseInt(metadata.package_id, 10) : NaN;
+  const selection: RechargeOfferSelection = {
+    packageId: Number.isInteger(packageId) && packageId > 0 ? packageId : null,
+    promoCode: metadata.promo_code || null,
+  };
+  return selection.packageId || selection.promoCode ? selection : null;
+}
+
+/**
+ * Credit a paid session to its card (or the card that replaced it).
+ * Duplicate deliveries of the same session are reported, not credited twice;
+ * the bonus is (re)applied on both since sp_apply_recharge_bonus is
+ * idempotent, so a delivery that failed after the credit still gets it.
+ */
+export async function settleRecharge(
+  supabaseAdmin: SupabaseClient,
+  provider: PaymentProviderId,
+  settlement: RechargeSettlement
+): Promise<SettlementOutcome> {
+  const target = await resolveCreditableCard(supabaseAdmin, settlement.cardId);
+
+  if (target.status && target.status !== 'active') {
+    await recordUncreditedPayment(supabaseAdmin, provider, target.cardId, target.status, settlement.amount, settlement.sessionId);
+    return { status: 'not_credited', cardId: target.cardId, cardStatus: target.status };
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('sp_process_provider_recharge', {
+    card_id_in: target.cardId,
+    amount_in: settlement.amount,
+    provider_in: provider,
+    session_id_in: settlement.sessionId,
+    metadata_in: target.forwarded
+      ? { ...settlement.metadata, original_card_id: settlement.cardId }
+      : settlement.metadata,
+  });
+
+  if (error) {
+    // Card blocked between the status check and the credit
+    if (error.message?.toLowerCase().includes('card not active')) {
+      await recordUncreditedPayment(supabaseAdmin, provider, settlement.cardId, null, settlement.amount, settlement.sessionId);
+      return { status: 'not_credited', cardId: settlement.cardId, cardStatus: null };
+    }
+    throw error;
+  }
+
+  const selection = offerSelectionFromMetadata(settlement.metadata);
+  const bonus = selection
+    ? await applyRechargeBonus(supabaseAdmin, { sessionId: settlement.sessionId }, selection)
+    : undefined;
+
+  if (data && data.success === false && data.error === 'Duplicate Stripe session') {
+    return { status: 'duplicate', cardId: target.cardId, bonus };
+  }
+
+  return { status: 'credited', cardId: target.cardId, forwarded: target.forwarded, result: data, bonus };
+}
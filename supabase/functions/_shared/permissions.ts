@@ -0,0 +1,48 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SecurityConfig, PermissionName } from '../../../src/config/security.ts'
+
+/**
+ * Role-Based Access Control
+ *
+ * Shared by every authenticated edge function. A user's role grants the
+ * permissions mapped to it in role_permissions; functions check permissions,
+ * never role names, so admins can change who may do what from the Users tab
+ * without a deployment.
+ *
+ * Permission names are the ones of SecurityConfig.auth.permissions, also used
+ * by ProtectedRoute and useAuth().hasAccess in the app.
+ */
+
+export const PERMISSIONS = SecurityConfig.auth.permissions;
+
+export type UserAccess =
+  | { kind: 'loaded'; role: string | null; permissions: PermissionName[] }
+  | { kind: 'error'; message: string };
+
+/**
+ * Role and permissions of a user, from get_user_permissions
+ */
+export async function loadUserAccess(supabaseAdmin: SupabaseClient, userId: string): Promise<UserAccess> {
+  const { data, error } = await supabaseAdmin.rpc('get_user_permissions', { user_id_in: userId });
+
+  if (error || !data) {
+    return { kind: 'error', message: error?.message ?? 'No permission data returned' };
+  }
+
+  return {
+    kind: 'loaded',
+    role: data.role ?? null,
+    permissions: Array.isArray(data.permissions) ? data.permissions : [],
+  };
+}
+
+/**
+ * Whether the user holds the permission. A failed lookup grants nothing.
+ */
+export function can(access: UserAccess, permission: PermissionName): boolean {
+  return access.kind === 'loaded' && access.permissions.includes(permission);
+}
+
+export function roleOf(access: UserAccess): string | null {
+  return access.kind === 'loaded' ? access.role : null;
+}
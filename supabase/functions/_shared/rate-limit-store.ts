@@ -0,0 +1,29 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { DatabaseRateLimitStore, securityMiddleware } from '../../../src/lib/security-middleware.ts'
+
+/**
+ * Shared Rate Limit Store
+ *
+ * SecurityMiddleware counts requests and failed attempts per function
+ * instance by default. Calling enableDatabaseRateLimitStore() at module load
+ * counts them in the rate_limit_hits table instead, as the service role, so
+ * the limits hold across cold starts and instances.
+ */
+
+let enabled = false;
+
+export function enableDatabaseRateLimitStore(): void {
+  if (enabled) return;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.warn('[SECURITY] Supabase credentials missing, rate limits stay per instance');
+    return;
+  }
+
+  securityMiddleware.useRateLimitStore(new DatabaseRateLimitStore(
+    createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+  ));
+  enabled = true;
+}
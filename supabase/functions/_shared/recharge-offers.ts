@@ -0,0 +1,158 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+/**
+ * Recharge Packages and Promo Codes
+ *
+ * Shared by manage-recharge-offers (public quote), create-stripe-checkout and
+ * process-standard-recharge (quote before taking the money) and the payment
+ * settlement path (credit the bonus once the paid amount is credited).
+ *
+ * Bonuses are always computed by quote_recharge_bonus in the database; the
+ * amounts sent by clients are only used to check the quote.
+ */
+
+export type RechargeOfferErrorCode =
+  | 'PACKAGE_NOT_FOUND'
+  | 'PACKAGE_AMOUNT_MISMATCH'
+  | 'PROMO_NOT_FOUND'
+  | 'PROMO_NOT_YET_VALID'
+  | 'PROMO_EXPIRED'
+  | 'PROMO_EXHAUSTED'
+  | 'PROMO_MIN_AMOUNT'
+  | 'INVALID_AMOUNT'
+  | 'DATABASE_ERROR';
+
+export interface RechargeQuote {
+  amount: number;
+  package_id: number | null;
+  package_bonus: number;
+  promo_code: string | null;
+  promo_bonus: number;
+  bonus_amount: number;
+  total_credit: number;
+}
+
+export interface RechargeOfferSelection {
+  packageId?: number | null;
+  promoCode?: string | null;
+}
+
+export type RechargeQuoteResult =
+  | { ok: true; quote: RechargeQuote }
+  | { ok: false; errorCode: RechargeOfferErrorCode; error: string; status: number };
+
+export const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+export function normalizePromoCode(code: unknown): string | null {
+  if (typeof code !== 'string') return null;
+  const normalized = code.trim().toUpperCase();
+  return normalized.length > 0 ? normalized : null;
+}
+
+/**
+ * Read package_id / promo_code from a request body. Returns an error message
+ * for malformed values so callers can reject them as invalid input.
+ */
+export function parseOfferSelection(body: { package_id?: unknown; promo_code?: unknown }): { selection: RechargeOfferSelection; error?: string } {
+  const selection: RechargeOfferSelection = {};
+
+  if (body.package_id !== undefined && body.package_id !== null) {
+    if (typeof body.package_id !== 'number' || !Number.isInteger(body.package_id) || body.package_id <= 0) {
+      return { selection, error: 'package_id must be a positive integer' };
+    }
+    selection.packageId = body.package_id;
+  }
+
+  if (body.promo_code !== undefined && body.promo_code !== null && body.promo_code !== '') {
+    const code = normalizePromoCode(body.promo_code);
+    if (!code || !PROMO_CODE_PATTERN.test(code)) {
+      return { selection, error: 'promo_code must be 3 to 32 letters, digits, "-" or "_"' };
+    }
+    selection.promoCode = code;
+  }
+
+  return { selection };
+}
+
+export function hasOfferSelection(selection: RechargeOfferSelection): boolean {
+  return Boolean(selection.packageId || selection.promoCode);
+}
+
+/**
+ * Map quote_recharge_bonus exceptions to error codes
+ */
+export function mapOfferError(message: string): { errorCode: RechargeOfferErrorCode; error: string; status: number } {
+  const lower = message.toLowerCase();
+  if (lower.includes('package not found')) return { errorCode: 'PACKAGE_NOT_FOUND', error: 'Recharge package not found', status: 404 };
+  if (lower.includes('package amount mismatch')) return { errorCode: 'PACKAGE_AMOUNT_MISMATCH', error: 'Amount does not match the package', status: 400 };
+  if (lower.includes('promo code not found')) return { errorCode: 'PROMO_NOT_FOUND', error: 'Unknown promo code', status: 404 };
+  if (lower.includes('promo code not yet valid')) return { errorCode: 'PROMO_NOT_YET_VALID', error: 'Promo code not valid yet', status: 409 };
+  if (lower.includes('promo code expired')) return { errorCode: 'PROMO_EXPIRED', error: 'Promo code expired', status: 409 };
+  if (lower.includes('promo code exhausted')) return { errorCode: 'PROMO_EXHAUSTED', error: 'Promo code already used up', status: 409 };
+  if (lower.includes('promo code minimum amount')) return { errorCode: 'PROMO_MIN_AMOUNT', error: 'Amount below the promo code minimum', status: 400 };
+  if (lower.includes('invalid recharge amount')) return { errorCode: 'INVALID_AMOUNT', error: 'Invalid recharge amount', status: 400 };
+  return { errorCode: 'DATABASE_ERROR', error: 'Database error occurred', status: 500 };
+}
+
+export async function quoteRechargeBonus(
+  supabaseAdmin: SupabaseClient,
+  amount: number,
+  selection: RechargeOfferSelection,
+  cardId?: string
+): Promise<RechargeQuoteResult> {
+  const { data, error } = await supabaseAdmin.rpc('quote_recharge_bonus', {
+    amount_in: amount,
+    package_id_in: selection.packageId ?? null,
+    promo_code_in: selection.promoCode ?? null,
+    card_id_in: cardId ?? null,
+  });
+
+  if (error) {
+    return { ok: false, ...mapOfferError(error.message) };
+  }
+
+  const quote = data as RechargeQuote;
+  return {
+    ok: true,
+    quote: {
+      ...quote,
+      package_bonus: Number(quote.package_bonus),
+      promo_bonus: Number(quote.promo_bonus),
+      bonus_amount: Number(quote.bonus_amount),
+      total_credit: Number(quote.total_credit),
+    },
+  };
+}
+
+export interface AppliedBonus {
+  recharge_id: number;
+  bonus_amount: number;
+  package_bonus?: number;
+  promo_bonus?: number;
+  promo_code?: string | null;
+  promo_skipped?: string | null;
+  duplicate?: boolean;
+}
+
+/**
+ * Credit the bonus of a credited recharge, identified by its transaction id
+ * (desk recharges) or provider session id (online). Idempotent per recharge.
+ */
+export async function applyRechargeBonus(
+  supabaseAdmin: SupabaseClient,
+  recharge: { transactionId?: string; sessionId?: string },
+  selection: RechargeOfferSelection
+): Promise<AppliedBonus> {
+  const { data, error } = await supabaseAdmin.rpc('sp_apply_recharge_bonus', {
+    transaction_id_in: recharge.transactionId ?? null,
+    session_id_in: recharge.sessionId ?? null,
+    package_id_in: selection.packageId ?? null,
+    promo_code_in: selection.promoCode ?? null,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return { ...data, bonus_amount: Number(data?.bonus_amount ?? 0) } as AppliedBonus;
+}
@@ -0,0 +1,104 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { EncryptedRecordStore, EncryptionMetadata } from '../../../src/lib/encryption.ts'
+import { dataEncryptionService } from '../../../src/lib/encryption.ts'
+
+/**
+ * Encrypted Refund Fields
+ *
+ * The IBAN (account) and email of a refund request are stored encrypted by
+ * DataEncryptionService. encryption_metadata holds the IV, tag and key of
+ * each field and encryption_key_id the data key they are encrypted with;
+ * refunds recorded before encryption have neither and are read as is.
+ *
+ * Only generate-refund-data decrypts refunds for reading; key rotation
+ * decrypts them only to encrypt them again.
+ */
+
+export const REFUND_ENCRYPTED_FIELDS = ['account', 'email'];
+
+export interface EncryptedRefundFields {
+  account: string;
+  email: string;
+  encryption_key_id: string;
+  encryption_metadata: Record<string, EncryptionMetadata>;
+}
+
+export async function encryptRefundFields(values: { account: string; email: string }): Promise<EncryptedRefundFields> {
+  const result = await dataEncryptionService.encryptFields(values, REFUND_ENCRYPTED_FIELDS);
+  if (!result.success || !result.encryptionMetadata?.account) {
+    throw new Error(result.error ?? 'Encryption failed');
+  }
+
+  return {
+    account: result.encryptedData.account,
+    email: result.encryptedData.email,
+    encryption_key_id: result.encryptionMetadata.account.keyId,
+    encryption_metadata: result.encryptionMetadata,
+  };
+}
+
+/**
+ * Plaintext account and email of a refund row selected with its
+ * encryption_metadata. Rejects when a field cannot be decrypted.
+ */
+export async function decryptRefundFields<T extends {
+  account: string | null;
+  email: string | null;
+  encryption_metadata?: Record<string, EncryptionMetadata> | null;
+}>(refund: T): Promise<Omit<T, 'encryption_metadata'>> {
+  const { encryption_metadata: metadata, ...fields } = refund;
+  if (!metadata) return fields;
+
+  const result = await dataEncryptionService.decryptFields(fields, metadata, REFUND_ENCRYPTED_FIELDS);
+  if (!result.success) {
+    throw new Error(result.error ?? 'Decryption failed');
+  }
+  return result.decryptedData;
+}
+
+/**
+ * The refunds table as seen by key rotation
+ */
+export function refundRecordStore(supabaseAdmin: SupabaseClient): EncryptedRecordStore {
+  return {
+    name: 'refunds',
+
+    async listStale(activeKeyId, afterId, limit) {
+      let query = supabaseAdmin
+        .from('refunds')
+        .select('id, account, email, encryption_metadata')
+        .or(`encryption_key_id.is.null,encryption_key_id.neq.${activeKeyId}`)
+        .order('id', { ascending: true })
+        .limit(limit);
+      if (afterId !== null) {
+        query = query.gt('id', afterId);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        throw new Error(`Failed to list refunds to re-encrypt: ${error.message}`);
+      }
+
+      return (data ?? []).map(row => ({
+        id: row.id,
+        fields: { account: row.account, email: row.email },
+        metadata: row.encryption_metadata ?? {},
+      }));
+    },
+
+    async save(record, keyId) {
+      const { error } = await supabaseAdmin
+        .from('refunds')
+        .update({
+          account: record.fields.account,
+          email: record.fields.email,
+          encryption_key_id: keyId,
+          encryption_metadata: record.metadata,
+        })
+        .eq('id', record.id);
+      if (error) {
+        throw new Error(`Failed to store re-encrypted refund ${record.id}: ${error.message}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SecurityConfig } from '../../../src/config/security.ts'
+
+/**
+ * Two-Factor Step-Up
+ *
+ * Shared by verify-step-up, which checks TOTP codes, and the edge functions
+ * behind sensitive operations (process-refunds, create-staff-user,
+ * process-manual-adjustment), which require a code confirmed within
+ * SecurityConfig.auth.twoFactor.stepUpMaxAge.
+ *
+ * Codes are verified against Supabase Auth MFA with the user's own token;
+ * confirmations are recorded in step_up_verifications so that only codes
+ * that went through the verify-step-up lockout count.
+ */
+
+export interface AuthFactor {
+  id: string;
+  factor_type: string;
+  status: string;
+}
+
+export interface VerifiedSession {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  expires_at?: number;
+  token_type: string;
+}
+
+export type TotpVerification =
+  | { kind: 'verified'; session: VerifiedSession }
+  | { kind: 'invalid_code'; message: string }
+  | { kind: 'error'; status: number; message: string };
+
+export type StepUpStatus =
+  | { kind: 'fresh'; verifiedAt: string }
+  | { kind: 'stale'; verifiedAt: string }
+  | { kind: 'missing' }
+  | { kind: 'error'; message: string };
+
+export const TOTP_CODE_PATTERN = /^\d{6}$/;
+
+/**
+ * The factor to check: the requested one when it belongs to the user (an
+ * unverified factor is being enrolled), otherwise the first verified TOTP
+ * factor
+ */
+export function selectTotpFactor(factors: AuthFactor[] | undefined, requestedId?: string): AuthFactor | null {
+  const totpFactors = (factors ?? []).filter(factor => factor.factor_type === 'totp');
+
+  if (requestedId) {
+    return totpFactors.find(factor => factor.id === requestedId) ?? null;
+  }
+  return totpFactors.find(factor => factor.status === 'verified') ?? null;
+}
+
+async function readAuthError(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.msg || body.message || body.error_description || body.error || `HTTP ${response.status}`;
+  } catch {
+    return `HTTP ${response.status}`;
+  }
+}
+
+/**
+ * Challenge the factor and verify the code as the user. A successful check
+ * returns the session upgraded to aal2, which the app must switch to.
+ */
+export async function verifyTotpCode(
+  options: { supabaseUrl: string; anonKey: string; accessToken: string; factorId: string; code: string },
+  fetchFn: typeof fetch = fetch
+): Promise<TotpVerification> {
+  const headers = {
+    'Authorization': `Bearer ${options.accessToken}`,
+    'apikey': options.anonKey,
+    'Content-Type': 'application/json',
+  };
+  const factorUrl = `${options.supabaseUrl}/auth/v1/factors/${options.factorId}`;
+
+  const challengeResponse = await fetchFn(`${factorUrl}/challenge`, { method: 'POST', headers, body: '{}' });
+  if (!challengeResponse.ok) {
+    return { kind: 'error', status: challengeResponse.status, message: await readAuthError(challengeResponse) };
+  }
+  const challenge = await challengeResponse.json();
+
+  const verifyResponse = await fetchFn(`${factorUrl}/verify`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ challenge_id: challenge.id, code: options.code }),
+  });
+
+  if (verifyResponse.status === 400 || verifyResponse.status === 422) {
+    return { kind: 'invalid_code', message: await readAuthError(verifyResponse) };
+  }
+  if (!verifyResponse.ok) {
+    return { kind: 'error', status: verifyResponse.status, message: await readAuthError(verifyResponse) };
+  }
+
+  const session = await verifyResponse.json();
+  return {
+    kind: 'verified',
+    session: {
+      access_token: session.access_token,
+      refresh_token: session.refresh_token,
+      expires_in: session.expires_in,
+      expires_at: session.expires_at,
+      token_type: session.token_type,
+    },
+  };
+}
+
+export function isStepUpFresh(verifiedAt: string, now: number = Date.now()): boolean {
+  const age = now - new Date(verifiedAt).getTime();
+  return age >= 0 && age <= SecurityConfig.auth.twoFactor.stepUpMaxAge;
+}
+
+export async function recordStepUp(supabaseAdmin: SupabaseClient, userId: string, factorId: string): Promise<{ verifiedAt: string } | { error: string }> {
+  const { data, error } = await supabaseAdmin.rpc('sp_record_step_up', { user_id_in: userId, factor_id_in: factorId });
+  if (error || !data) {
+    return { error: error?.message ?? 'No confirmation recorded' };
+  }
+  return { verifiedAt: data.verified_at };
+}
+
+/**
+ * Whether the user confirmed a code recently enough for a sensitive
+ * operation. A failed lookup never counts as confirmed.
+ */
+export async function checkStepUp(supabaseAdmin: SupabaseClient, userId: string, now: number = Date.now()): Promise<StepUpStatus> {
+  const { data, error } = await supabaseAdmin
+    .from('step_up_verifications')
+    .select('verified_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    return { kind: 'error', message: error.message };
+  }
+  if (!data) {
+    return { kind: 'missing' };
+  }
+  return isStepUpFresh(data.verified_at, now)
+    ? { kind: 'fresh', verifiedAt: data.verified_at }
+    : { kind: 'stale', verifiedAt: data.verified_at };
+}
@@ -0,0 +1,126 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AuditLogEntry, DatabaseLogStorage } from '../../../src/lib/audit-logger.ts'
+import { securityMiddleware } from '../../../src/lib/security-middleware.ts'
+import { toMiddlewareRequest } from '../_shared/card-secret.ts'
+import { enableDatabaseAuditStorage } from '../_shared/audit-storage.ts'
+import { enableDatabaseRateLimitStore } from '../_shared/rate-limit-store.ts'
+
+/**
+ * Audit Log Append Edge Function
+ *
+ * Appends the audit entries logged by the app (EdgeFunctionLogStorage) to
+ * the hash-chained audit_logs table. Only the service role may call
+ * sp_append_audit_log, so this is the only way in for browser entries.
+ *
+ * Key Features:
+ * - Rate limited per user, or per IP for signed-out pages (card access)
+ * - userId and ipAddress are set from the JWT and the request, whatever the
+ *   client sent; entries are flagged as client-reported
+ * - Entries larger than 16 KB are refused by sp_append_audit_log
+ */
+
+interface AppendAuditLogRequest {
+  entry: Record<string, unknown>;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  RATE_LIMITED = 'RATE_LIMITED',
+  SERVER_ERROR = 'SERVER_ERROR'
+}
+
+enableDatabaseAuditStorage();
+enableDatabaseRateLimitStore();
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number) =>
+    respond({ success: false, error, error_code: errorCode }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    // Signed-out pages send the anon key, which is no user: their entries are
+    // anonymous
+    const token = req.headers.get('authorization')?.replace('Bearer ', '');
+    const { data: userData } = token
+      ? await supabaseAdmin.auth.getUser(token)
+      : { data: { user: null } };
+    const userId = userData?.user?.id;
+
+    const security = await securityMiddleware.processRequest(toMiddlewareRequest(req), {
+      rateLimitTier: 'auditLog',
+      rateLimitKey: userId ? `audit_log:${userId}` : undefined,
+    });
+    if (!security.success) {
+      console.warn(`[${requestId}] Rejected by security middleware: ${security.error}`);
+      return fail(security.error || 'Request rejected', ErrorCode.RATE_LIMITED, security.statusCode || 429);
+    }
+
+    let body: AppendAuditLogRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const entry = body?.entry;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry) || typeof entry.id !== 'string' || !entry.id) {
+      return fail('entry must be an audit log entry with an id', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const { userId: _claimedUserId, ipAddress: _claimedIp, ...reported } = entry;
+    const metadata = reported.metadata && typeof reported.metadata === 'object' ? reported.metadata : {};
+    const logged = {
+      ...reported,
+      ...(userId ? { userId } : {}),
+      ipAddress: security.context?.ipAddress,
+      metadata: { ...metadata, source: 'client' },
+    };
+
+    try {
+      await new DatabaseLogStorage(supabaseAdmin).store(logged as AuditLogEntry);
+    } catch (error) {
+      if (error?.message?.includes('Invalid audit entry')) {
+        return fail(error.message.replace(/^sp_append_audit_log failed: /, ''), ErrorCode.INVALID_REQUEST, 400);
+      }
+      throw error;
+    }
+
+    return respond({ success: true }, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500);
+  }
+});
@@ -0,0 +1,112 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { securityMiddleware } from '../../../src/lib/security-middleware.ts'
+import { extractClientIp, toMiddlewareRequest, verifyCardAccess } from '../_shared/card-secret.ts'
+import { enableDatabaseAuditStorage } from '../_shared/audit-storage.ts'
+import { enableDatabaseRateLimitStore } from '../_shared/rate-limit-store.ts'
+
+/**
+ * Public Card Access Edge Function
+ *
+ * Balance lookup for the public scan and payment pages. Replaces direct reads
+ * of table_cards by the anonymous role.
+ *
+ * Key Features:
+ * - Cards with a printed PIN / QR token require it (server-side check)
+ * - Lockout per client and card after repeated wrong secrets, with a higher
+ *   per-card ceiling across all clients
+ * - Per-IP rate limiting through SecurityMiddleware
+ * - Only the card id and balance are returned
+ */
+
+interface CardAccessRequest {
+  card_id: string;
+  secret?: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  RATE_LIMITED = 'RATE_LIMITED',
+  SERVER_ERROR = 'SERVER_ERROR'
+}
+
+// SecurityMiddleware audit entries go to the audit_logs table and its
+// counters to rate_limit_hits, shared by all instances
+enableDatabaseAuditStorage();
+enableDatabaseRateLimitStore();
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+
+  console.log(`[${requestId}] ===== CARD ACCESS REQUEST STARTED =====`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number, extraHeaders: Record<string, string> = {}) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...corsHeaders, ...extraHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: string, status: number, extra: Record<string, unknown> = {}, extraHeaders?: Record<string, string>) =>
+    respond({ success: false, error, error_code: errorCode, ...extra }, status, extraHeaders);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    const security = await securityMiddleware.processRequest(toMiddlewareRequest(req), { rateLimitTier: 'general' });
+    if (!security.success) {
+      console.warn(`[${requestId}] Rejected by security middleware: ${security.error}`);
+      return fail(security.error || 'Request rejected', ErrorCode.RATE_LIMITED, security.statusCode || 429);
+    }
+
+    let body: CardAccessRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const cardId = typeof body?.card_id === 'string' ? body.card_id.trim() : '';
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const access = await verifyCardAccess(supabaseAdmin, cardId, body?.secret, extractClientIp(req));
+    if (!access.ok) {
+      console.log(`[${requestId}] Card access denied: ${access.errorCode}`);
+      return fail(access.error, access.errorCode, access.status, {
+        remaining_attempts: access.remainingAttempts,
+        retry_after_seconds: access.retryAfterSeconds,
+      }, access.retryAfterSeconds ? { 'Retry-After': String(access.retryAfterSeconds) } : undefined);
+    }
+
+    return respond({
+      success: true,
+      card_id: access.card.id,
+      amount: access.card.amount,
+      secret_protected: access.secretProtected,
+    }, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500);
+  }
+});
@@ -0,0 +1,181 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+import { checkStepUp } from '../_shared/step-up.ts'
+
+/**
+ * Staff Account Creation Edge Function
+ *
+ * Creates a staff account with its role. Account creation needs the Auth
+ * admin API, which only the service role may call, so the Users tab goes
+ * through this function instead of calling it from the browser.
+ *
+ * Key Features:
+ * - Users granted manage_users only
+ * - Requires a two-factor code confirmed within stepUpMaxAge (step-up,
+ *   see verify-step-up)
+ * - The role must exist in the roles table
+ * - The email is confirmed on creation; the profile row gets the role
+ */
+
+interface CreateStaffUserRequest {
+  email: string;
+  password: string;
+  role: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  ROLE_NOT_FOUND = 'ROLE_NOT_FOUND',
+  USER_EXISTS = 'USER_EXISTS',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN',
+  STEP_UP_REQUIRED = 'STEP_UP_REQUIRED'
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== STAFF USER CREATION STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted manage_users may create accounts
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.MANAGE_USERS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to create users. Role: ${roleOf(access)}`);
+      return fail('manage_users permission required to create users', ErrorCode.FORBIDDEN, 403);
+    }
+
+    const stepUp = await checkStepUp(supabaseAdmin, user.id);
+    if (stepUp.kind !== 'fresh') {
+      console.warn(`[${requestId}] User ${user.id} has no recent two-factor confirmation (${stepUp.kind})`);
+      return fail('A recent two-factor confirmation is required to create users', ErrorCode.STEP_UP_REQUIRED, 403);
+    }
+
+    // Parse and validate request body
+    let body: CreateStaffUserRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
+    if (!EMAIL_PATTERN.test(email)) {
+      return fail('A valid email is required', ErrorCode.INVALID_REQUEST, 400);
+    }
+    if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+      return fail(`password must be at least ${MIN_PASSWORD_LENGTH} characters`, ErrorCode.INVALID_REQUEST, 400);
+    }
+    if (typeof body.role !== 'string' || !body.role) {
+      return fail('role is required', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const { data: role, error: roleError } = await supabaseAdmin
+      .from('roles')
+      .select('name')
+      .eq('name', body.role)
+      .maybeSingle();
+
+    if (roleError) {
+      return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, roleError.message);
+    }
+    if (!role) {
+      return fail('Role not found', ErrorCode.ROLE_NOT_FOUND, 404);
+    }
+
+    console.log(`[${requestId}] Creating ${email} with role ${role.name}, requested by ${user.id}`);
+
+    const { data: created, error: createError } = await supabaseAdmin.auth.admin.createUser({
+      email,
+      password: body.password,
+      email_confirm: true,
+      user_metadata: { role: role.name },
+    });
+
+    if (createError || !created.user) {
+      const message = createError?.message ?? 'No user returned';
+      console.error(`[${requestId}] Account creation failed: ${message}`);
+      if (message.toLowerCase().includes('already')) {
+        return fail('A user with this email already exists', ErrorCode.USER_EXISTS, 409);
+      }
+      return fail('Failed to create the user', ErrorCode.SERVER_ERROR, 500, message);
+    }
+
+    const { error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .upsert({ id: created.user.id, role: role.name }, { onConflict: 'id' });
+
+    if (profileError) {
+      console.error(`[${requestId}] Failed to set the role of ${created.user.id}: ${profileError.message}`);
+      return fail('User created but the role could not be set', ErrorCode.DATABASE_ERROR, 500, profileError.message);
+    }
+
+    console.log(`[${requestId}] User ${created.user.id} created`);
+    return respond({
+      success: true,
+      user: { id: created.user.id, email, role: role.name },
+    }, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== STAFF USER CREATION COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
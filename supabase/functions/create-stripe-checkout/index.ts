@@ -1,7 +1,11 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
-import Stripe from 'https://esm.sh/stripe@14.21.0';
+import { createPaymentProvider, getActivePaymentProvider, PaymentProviderId } from '../_shared/payment-providers.ts';
+import { hasOfferSelection, parseOfferSelection, quoteRechargeBonus } from '../_shared/recharge-offers.ts';
+import { securityMiddleware } from '../../../src/lib/security-middleware.ts';
+import { toMiddlewareRequest } from '../_shared/card-secret.ts';
+import { enableDatabaseRateLimitStore } from '../_shared/rate-limit-store.ts';
 
 interface CreateCheckoutRequest {
   card_id: string;
@@ -9,12 +13,17 @@ interface CreateCheckoutRequest {
   client_request_id: string;
   success_url?: string;
   cancel_url?: string;
+  package_id?: number;
+  promo_code?: string;
 }
 
 interface CreateCheckoutResponse {
   success: boolean;
   checkout_url?: string;
   session_id?: string;
+  provider?: PaymentProviderId;
+  qr_payload?: string;
+  bonus_amount?: number;
   error?: string;
   details?: any;
 }
@@ -26,6 +35,9 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS'
 };
 
+// Checkout counters go to rate_limit_hits, shared by all instances
+enableDatabaseRateLimitStore();
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -101,6 +113,44 @@ serve(async (req) => {
       );
     }
 
+    const { selection, error: selectionError } = parseOfferSelection(requestData);
+    if (selectionError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: selectionError
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Guests often share a venue IP, so checkouts are counted per card
+    const security = await securityMiddleware.processRequest(toMiddlewareRequest(req), {
+      rateLimitTier: 'financial',
+      rateLimitKey: String(card_id).trim(),
+    });
+    if (!security.success) {
+      console.warn(`[create-stripe-checkout] Rejected by security middleware: ${security.error}`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: security.error || 'Request rejected',
+          error_code: 'RATE_LIMITED'
+        }),
+        {
+          status: security.statusCode || 429,
+          headers: {
+            ...corsHeaders,
+            'Content-Type': 'application/json',
+            'Retry-After': String(Math.ceil((security.retryAfterMs ?? 60000) / 1000))
+          }
+        }
+      );
+    }
+
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
@@ -114,7 +164,7 @@ serve(async (req) => {
     // Check if card exists
     const { data: cardData, error: cardError } = await supabase
       .from('table_cards')
-      .select('id, amount')
+      .select('id, amount, status')
       .eq('id', card_id)
       .maybeSingle();
 
@@ -145,6 +195,46 @@ serve(async (req) => {
       );
     }
 
+    // Do not take payments for blocked, lost or retired cards
+    if (cardData.status && cardData.status !== 'active') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Card is ${cardData.status} and cannot be recharged`,
+          error_code: 'CARD_NOT_ACTIVE'
+        }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Reject an unusable package or promo code before the guest pays. The bonus
+    // itself is credited at settlement from the session metadata.
+    const sessionMetadata: Record<string, string> = {};
+    let bonusAmount = 0;
+    if (hasOfferSelection(selection)) {
+      const quoteResult = await quoteRechargeBonus(supabase, amount, selection, card_id);
+      if (!quoteResult.ok) {
+        console.log(`[create-stripe-checkout] Recharge offer rejected: ${quoteResult.errorCode}`);
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: quoteResult.error,
+            error_code: quoteResult.errorCode
+          }),
+          {
+            status: quoteResult.status,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+      if (selection.packageId) sessionMetadata.package_id = String(selection.packageId);
+      if (selection.promoCode) sessionMetadata.promo_code = selection.promoCode;
+      bonusAmount = quoteResult.quote.bonus_amount;
+    }
+
     // Check for duplicate client_request_id to prevent duplicate checkout sessions
     const { data: existingRequest, error: idempotencyError } = await supabase
       .from('idempotency_keys')
@@ -189,21 +279,10 @@ serve(async (req) => {
         created_at: new Date().toISOString()
       });
 
-    // Initialize Stripe (support both test and live modes)
-    const isTestMode = Deno.env.get('STRIPE_TEST_MODE') === 'true';
-    const stripeSecretKey = isTestMode 
-      ? Deno.env.get('STRIPE_SECRET_KEY_TEST') 
-      : Deno.env.get('STRIPE_SECRET_KEY_FINAL');
-    
-    if (!stripeSecretKey) {
-      throw new Error(`Missing Stripe secret key for ${isTestMode ? 'test' : 'live'} mode`);
-    }
-    
-    console.log(`[create-stripe-checkout] Using ${isTestMode ? 'TEST' : 'LIVE'} mode`);
-
-    const stripe = new Stripe(stripeSecretKey, {
-      apiVersion: '2023-10-16',
-    });
+    // The live edition decides which provider takes the payment
+    const providerId = await getActivePaymentProvider(supabase);
+    const provider = createPaymentProvider(providerId);
+    console.log(`[create-stripe-checkout] Using payment provider: ${providerId}`);
 
     // Get request origin for URLs
     const referer = req.headers.get('referer');
@@ -214,52 +293,34 @@ serve(async (req) => {
     const successUrl = requestData.success_url || `${origin}/payment-success?card_id=${card_id}&amount=${amount}&session_id={CHECKOUT_SESSION_ID}`;
     const cancelUrl = requestData.cancel_url || `${origin}/payment?canceled=true`;
 
-    console.log('[create-stripe-checkout] Creating Stripe session with:', {
+    console.log('[create-stripe-checkout] Creating checkout session with:', {
+      provider: providerId,
       amount,
       card_id,
       successUrl,
       cancelUrl,
-      metadata: {
-        card_id: card_id,
-        amount: amount.toString(),
-        client_request_id: client_request_id
-      }
+      client_request_id
     });
 
-    // Create Stripe checkout session
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card', 'bancontact'],
-      line_items: [
-        {
-          price_data: {
-            currency: 'eur',
-            product_data: {
-              name: 'Recharge de carte',
-              description: `Recharge carte ID: ${card_id}`,
-            },
-            unit_amount: Math.round(amount * 100), // Convert to cents
-          },
-          quantity: 1,
-        },
-      ],
-      mode: 'payment',
-      success_url: successUrl,
-      cancel_url: cancelUrl,
-      client_reference_id: card_id,
-      metadata: {
-        card_id: card_id,
-        amount: amount.toString(),
-        client_request_id: client_request_id
-      }
+    const session = await provider.createCheckout({
+      cardId: card_id,
+      amount,
+      clientRequestId: client_request_id,
+      successUrl,
+      cancelUrl,
+      metadata: sessionMetadata
     });
 
-    console.log('[create-stripe-checkout] Stripe session created:', session.id);
+    console.log('[create-stripe-checkout] Checkout session created:', session.sessionId);
 
     // Prepare successful response
     const successResponse: CreateCheckoutResponse = {
       success: true,
-      checkout_url: session.url || undefined,
-      session_id: session.id
+      checkout_url: session.checkoutUrl || undefined,
+      session_id: session.sessionId,
+      provider: session.provider,
+      qr_payload: session.qrPayload || undefined,
+      bonus_amount: bonusAmount
     };
 
     // Cache successful response
@@ -1,5 +1,10 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { isValidSepaIBAN, normalizeIBAN } from '../../../src/lib/sepa-bank-profiles.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+import { enableDatabaseKeyManager } from '../_shared/encryption-keys.ts'
+import { decryptRefundFields } from '../_shared/refund-encryption.ts'
+import type { EncryptionMetadata } from '../../../src/lib/encryption.ts'
 
 /**
  * Generate Refund Data Edge Function
@@ -9,16 +14,23 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
  * to match via id_card and provides comprehensive validation.
  * 
  * Key Features:
- * - Retrieves all pending refunds from refunds table
+ * - Retrieves refund requests awaiting review or export (status submitted or
+ *   validated) with their tracking reference
  * - Cross-references with table_cards for accurate card balances
+ * - Excludes bonus credit, card fees and excess cup return credit from refunds
  * - Validates card existence and data integrity
  * - Handles missing matched_card values via id_card matching
  * - Returns structured data suitable for XML generation
  * - Comprehensive error handling and logging
- * - Security measures for financial data processing
+ * - Security measures for financial data processing: callers need the
+ *   view_refund_data permission
+ * - Decrypts the stored IBAN and email, the only function reading them in
+ *   clear; refunds that fail to decrypt are reported as data_integrity errors
  */
 
 // TypeScript interfaces for refund data structures
+type RefundStatus = 'submitted' | 'validated' | 'rejected' | 'exported' | 'paid';
+
 interface RefundRecord {
   id: number;
   created_at: string;
@@ -28,8 +40,14 @@ interface RefundRecord {
   email: string;
   id_card: string;
   file_generated: boolean;
+  status: RefundStatus;
+  tracking_ref: string;
 }
 
+type StoredRefundRecord = RefundRecord & {
+  encryption_metadata: Record<string, EncryptionMetadata> | null;
+};
+
 interface CardRecord {
   id: string;
   amount: number;
@@ -37,6 +55,16 @@ interface CardRecord {
   updated_at: string;
 }
 
+interface RefundableAmountRecord {
+  card_id: string;
+  balance: number;
+  bonus_credit: number;
+  card_fee: number;
+  outstanding_deposits: number;
+  excess_return_credit: number;
+  refundable_amount: number;
+}
+
 interface ValidatedRefundRecord {
   id: number;
   created_at: string;
@@ -45,6 +73,8 @@ interface ValidatedRefundRecord {
   account: string;
   email: string;
   id_card: string;
+  status: RefundStatus;
+  tracking_ref: string;
   amount_recharged: number;
   card_exists: boolean;
   validation_status: 'valid' | 'warning' | 'error';
@@ -82,9 +112,13 @@ enum ErrorCode {
   DATABASE_ERROR = 'DATABASE_ERROR',
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   SERVER_ERROR = 'SERVER_ERROR',
-  UNAUTHORIZED = 'UNAUTHORIZED'
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
 }
 
+// Refund IBANs and emails are decrypted with the keys kept in encryption_keys
+enableDatabaseKeyManager();
+
 serve(async (req) => {
   // Generate unique request ID for comprehensive logging and traceability
   const requestId = crypto.randomUUID();
@@ -229,85 +263,20 @@ serve(async (req) => {
 
       console.log(`[${requestId}] JWT token validated for user: ${user.id}`);
 
-      // Check if user has admin role or finance permissions with robust fallback
-      console.log(`[${requestId}] Checking user permissions for user: ${user.id}`);
-      console.log(`[${requestId}] User email: ${user.email}`);
-      console.log(`[${requestId}] User metadata:`, user.user_metadata);
-      
-      let profile: any = null;
-      let hasValidPermissions = false;
-      
-      try {
-        const { data: profileData, error: profileError } = await supabaseAdmin
-          .from('profiles')
-          .select('role, permissions')
-          .eq('id', user.id)
-          .single();
-
-        if (profileError) {
-          console.warn(`[${requestId}] Profile query error:`, profileError);
-          if (profileError.code === 'PGRST116') {
-            console.log(`[${requestId}] Profile not found for user ${user.id} - using fallback authentication`);
-          } else {
-            console.error(`[${requestId}] Unexpected profile query error:`, profileError);
-          }
-        } else {
-          profile = profileData;
-          console.log(`[${requestId}] Profile found for user ${user.id}:`, profile);
-        }
-      } catch (error) {
-        console.error(`[${requestId}] Error querying profiles table:`, error);
-        console.log(`[${requestId}] Proceeding with fallback authentication`);
-      }
-
-      // Enhanced permission checking with multiple fallback mechanisms
-      if (profile) {
-        const hasAdminRole = profile.role === 'admin';
-        const hasFinancePermissions = profile.permissions &&
-          (profile.permissions.includes('view_refund_data') || profile.permissions.includes('process_refunds'));
-
-        if (hasAdminRole || hasFinancePermissions) {
-          hasValidPermissions = true;
-          console.log(`[${requestId}] User ${user.id} has valid permissions via profile. Role: ${profile.role}`);
-        } else {
-          console.warn(`[${requestId}] User ${user.id} lacks required permissions. Role: ${profile.role}, Permissions: ${JSON.stringify(profile.permissions)}`);
-        }
+      // Financial data is only returned to users granted view_refund_data
+      const access = await loadUserAccess(supabaseAdmin, user.id);
+      if (access.kind === 'error') {
+        console.error(`[${requestId}] Permission lookup failed for user ${user.id}:`, access.message);
       }
 
-      // Fallback authentication mechanisms
-      if (!hasValidPermissions) {
-        console.log(`[${requestId}] Checking fallback authentication methods...`);
-        
-        // Fallback 1: Check if user email is in admin list (you can customize this)
-        const adminEmails = ['admin@example.com', 'finance@example.com']; // Add your admin emails here
-        if (user.email && adminEmails.includes(user.email.toLowerCase())) {
-          hasValidPermissions = true;
-          console.log(`[${requestId}] User ${user.id} granted access via admin email list`);
-        }
-        
-        // Fallback 2: Check user metadata for admin role
-        if (user.user_metadata && (user.user_metadata.role === 'admin' || user.user_metadata.admin === true)) {
-          hasValidPermissions = true;
-          console.log(`[${requestId}] User ${user.id} granted access via user metadata`);
-        }
-        
-        // Fallback 3: For development/testing - allow authenticated users (REMOVE IN PRODUCTION)
-        if (!hasValidPermissions && user.email) {
-          console.warn(`[${requestId}] DEVELOPMENT MODE: Allowing authenticated user ${user.id} (${user.email}) access`);
-          console.warn(`[${requestId}] WARNING: This should be removed in production!`);
-          hasValidPermissions = true;
-        }
-      }
-
-      // Final permission check
-      if (!hasValidPermissions) {
-        console.error(`[${requestId}] User ${user.id} denied access - no valid permissions found`);
+      if (!can(access, PERMISSIONS.VIEW_REFUND_DATA)) {
+        console.error(`[${requestId}] User ${user.id} denied access - role ${roleOf(access)} lacks view_refund_data`);
         return new Response(
           JSON.stringify({
             success: false,
             error: 'Insufficient permissions for financial data access',
-            error_code: ErrorCode.UNAUTHORIZED,
-            details: `User ${user.id} lacks required permissions. Profile: ${profile ? 'found' : 'not found'}`,
+            error_code: ErrorCode.FORBIDDEN,
+            details: `User ${user.id} lacks the view_refund_data permission`,
             request_id: requestId
           }),
           {
@@ -349,7 +318,7 @@ serve(async (req) => {
 
     console.log(`[${requestId}] ===== RETRIEVING REFUND DATA =====`);
     
-    // Retrieve refunds from the refunds table where file_generated is false
+    // Retrieve refunds awaiting review (submitted) or export (validated)
     const { data: refundsData, error: refundsError } = await supabaseAdmin
       .from('refunds')
       .select(`
@@ -360,8 +329,12 @@ serve(async (req) => {
         account,
         email,
         id_card,
-        file_generated
+        file_generated,
+        status,
+        tracking_ref,
+        encryption_metadata
       `)
+      .in('status', ['submitted', 'validated'])
       .eq('file_generated', false)
       .order('created_at', { ascending: false });
       // Only retrieve records that haven't been processed yet
@@ -492,73 +465,71 @@ serve(async (req) => {
       );
     }
 
+    // Bonus credit (recharge packages, promo codes) and cup return credit
+    // beyond the deposits the card paid are spent at the bar but never
+    // refunded; the card fee is already out of the balance. Only money the
+    // guest actually paid goes back.
+    const refundableMap = new Map<string, RefundableAmountRecord>();
+    const { data: refundableData, error: refundableError } = await supabaseAdmin
+      .from('card_refundable_amounts')
+      .select('card_id, balance, bonus_credit, card_fee, outstanding_deposits, excess_return_credit, refundable_amount');
+
+    if (refundableError) {
+      console.error(`[${requestId}] Error retrieving card refundable amounts:`, refundableError);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Failed to retrieve card refundable amounts',
+          error_code: ErrorCode.DATABASE_ERROR,
+          details: `${refundableError.code}: ${refundableError.message}`,
+          request_id: requestId
+        }),
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders
+          },
+          status: 500
+        }
+      );
+    }
+
+    (refundableData || []).forEach((row: RefundableAmountRecord) => {
+      refundableMap.set(row.card_id, row);
+    });
+    console.log(`[${requestId}] Loaded refundable amounts for ${refundableMap.size} cards`);
+
     console.log(`[${requestId}] ===== VALIDATING REFUND DATA =====`);
 
     const validRefunds: ValidatedRefundRecord[] = [];
     const validationErrors: ValidationError[] = [];
     let totalAmount = 0;
 
-    // Helper function to validate European IBAN format (supports all EU countries)
+    // European IBAN format and checksum, shared with the SEPA XML generator
     const isValidEuropeanIBAN = (iban: string): boolean => {
-      if (!iban) return false;
-      const cleanIban = iban.replace(/\s/g, '').toUpperCase();
-      
-      // European IBAN patterns (most common ones)
-      const europeanIbanPatterns = {
-        'BE': /^BE\d{14}$/,    // Belgium - 16 chars
-        'FR': /^FR\d{12}$/,    // France - 27 chars
-        'DE': /^DE\d{20}$/,    // Germany - 22 chars
-        'NL': /^NL\d{2}[A-Z]{4}\d{10}$/, // Netherlands - 18 chars
-        'IT': /^IT\d{2}[A-Z]\d{10}[A-Z0-9]{12}$/, // Italy - 27 chars
-        'ES': /^ES\d{22}$/,    // Spain - 24 chars
-        'PT': /^PT\d{23}$/,    // Portugal - 25 chars
-        'LU': /^LU\d{5}[A-Z0-9]{13}$/, // Luxembourg - 20 chars
-        'AT': /^AT\d{18}$/,    // Austria - 20 chars
-        'CH': /^CH\d{7}[A-Z0-9]{12}$/  // Switzerland - 21 chars
-      };
-      
-      // Check if IBAN matches any European pattern
-      const countryCode = cleanIban.substring(0, 2);
-      const pattern = europeanIbanPatterns[countryCode];
-      
-      if (!pattern) {
-        console.log(`[IBAN Validation] Unsupported country code: ${countryCode} for IBAN: ${cleanIban}`);
-        return false;
-      }
-      
-      // Special handling for French IBANs (27 characters total)
-      if (countryCode === 'FR') {
-        const frenchIbanRegex = /^FR\d{25}$/; // FR + 25 digits = 27 total
-        if (!frenchIbanRegex.test(cleanIban)) {
-          console.log(`[IBAN Validation] Invalid French IBAN format: ${cleanIban} (expected FR + 25 digits)`);
-          return false;
-        }
-      } else if (!pattern.test(cleanIban)) {
-        console.log(`[IBAN Validation] Invalid ${countryCode} IBAN format: ${cleanIban}`);
-        return false;
-      }
-      
-      // Validate IBAN checksum using mod-97 algorithm
-      const rearranged = cleanIban.slice(4) + cleanIban.slice(0, 4);
-      const numericString = rearranged.replace(/[A-Z]/g, (char) =>
-        (char.charCodeAt(0) - 55).toString()
-      );
-      let remainder = 0;
-      for (let i = 0; i < numericString.length; i++) {
-        remainder = (remainder * 10 + parseInt(numericString[i])) % 97;
-      }
-      
-      const isValidChecksum = remainder === 1;
-      if (!isValidChecksum) {
-        console.log(`[IBAN Validation] Invalid checksum for IBAN: ${cleanIban}`);
-      }
-      
-      return isValidChecksum;
+      const cleanIban = normalizeIBAN(iban);
+      if (isValidSepaIBAN(cleanIban)) return true;
+      console.log(`[IBAN Validation] Invalid or unsupported IBAN: ${cleanIban}`);
+      return false;
     };
 
     // Process each refund record
-    for (const refund of refundsData as RefundRecord[]) {
-      console.log(`[${requestId}] Processing refund ID: ${refund.id}`);
+    for (const storedRefund of refundsData as StoredRefundRecord[]) {
+      console.log(`[${requestId}] Processing refund ID: ${storedRefund.id}`);
+
+      let refund: RefundRecord;
+      try {
+        refund = await decryptRefundFields(storedRefund);
+      } catch (decryptionError) {
+        console.error(`[${requestId}] Failed to decrypt refund ${storedRefund.id}:`, decryptionError.message);
+        validationErrors.push({
+          refund_id: storedRefund.id,
+          error_type: 'data_integrity',
+          error_message: 'Encrypted IBAN or email could not be decrypted',
+          refund_data: { id: storedRefund.id, id_card: storedRefund.id_card, tracking_ref: storedRefund.tracking_ref }
+        });
+        continue;
+      }
       
       const validationNotes: string[] = [];
       let validationStatus: 'valid' | 'warning' | 'error' = 'valid';
@@ -613,8 +584,27 @@ serve(async (req) => {
         continue;
       }
 
-      // Use card amount as refund amount
-      const refundAmount = cardBalance;
+      // Use the refundable part of the card amount as refund amount
+      const refundable = refundableMap.get(refund.id_card);
+      const bonusCredit = Number(refundable?.bonus_credit ?? 0);
+      const excessReturnCredit = Number(refundable?.excess_return_credit ?? 0);
+      const cardFee = Number(refundable?.card_fee ?? 0);
+      const outstandingDeposits = Number(refundable?.outstanding_deposits ?? 0);
+      const refundAmount = refundable
+        ? Number(refundable.refundable_amount)
+        : Math.max(0, cardBalance - bonusCredit);
+      if (bonusCredit > 0) {
+        validationNotes.push(`${Math.min(bonusCredit, cardBalance).toFixed(2)}€ bonus credit excluded from card amount ${Number(cardBalance).toFixed(2)}€`);
+      }
+      if (excessReturnCredit > 0) {
+        validationNotes.push(`${excessReturnCredit.toFixed(2)}€ cup return credit above deposits paid excluded`);
+      }
+      if (cardFee > 0) {
+        validationNotes.push(`${cardFee.toFixed(2)}€ card fee not refundable (already deducted from balance)`);
+      }
+      if (outstandingDeposits > 0) {
+        validationNotes.push(`${outstandingDeposits.toFixed(2)}€ deposits for unreturned cups kept`);
+      }
 
       // Apply 2€ processing fee deduction
       const PROCESSING_FEE = 2.00;
@@ -640,10 +630,12 @@ serve(async (req) => {
         account: refund.account || '',
         email: refund.email,
         id_card: refund.id_card,
+        status: refund.status,
+        tracking_ref: refund.tracking_ref,
         amount_recharged: finalRefundAmount, // Use fee-adjusted amount
         card_exists: cardExists,
         validation_status: validationStatus,
-        validation_notes: [...validationNotes, `2€ processing fee deducted from card amount ${refundAmount.toFixed(2)}€`]
+        validation_notes: [...validationNotes, `2€ processing fee deducted from refundable amount ${refundAmount.toFixed(2)}€`]
       };
 
       validRefunds.push(validatedRefund);
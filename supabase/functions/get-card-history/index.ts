@@ -0,0 +1,184 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { securityMiddleware } from '../../../src/lib/security-middleware.ts'
+import { CARD_ID_PATTERN, extractClientIp, toMiddlewareRequest, verifyCardAccess } from '../_shared/card-secret.ts'
+import { enableDatabaseRateLimitStore } from '../_shared/rate-limit-store.ts'
+import { buildCardStatement, cardAccount } from '../_shared/card-statement.ts'
+
+/**
+ * Card Transaction History Edge Function
+ *
+ * Public, read-only statement of a card: every balance movement journalled in
+ * the card ledger (recharges, card fees, bar orders with their items, order
+ * refunds, balance transfers...) and the refund requests, merged into one
+ * timeline with the balance after each operation (_shared/card-statement.ts).
+ *
+ * Key Features:
+ * - Running balances reconciled against the current card balance
+ * - Cards with a printed PIN / QR token require it, with lockout on failures
+ * - Per-IP rate limiting on requests (SecurityConfig.rateLimiting.cardLookup)
+ * - Anti-enumeration: each client may only look up a few distinct cards per
+ *   hour, and unknown or malformed card ids get the same response
+ * - Limits are counted in rate_limit_hits, shared by all instances
+ * - No personal data (names, IBAN, email) in the response
+ */
+
+interface CardHistoryRequest {
+  card_id: string;
+  secret?: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  CARD_NOT_FOUND = 'CARD_NOT_FOUND',
+  SECRET_REQUIRED = 'SECRET_REQUIRED',
+  INVALID_SECRET = 'INVALID_SECRET',
+  CARD_LOCKED = 'CARD_LOCKED',
+  RATE_LIMITED = 'RATE_LIMITED',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR'
+}
+
+// Anti-enumeration: distinct cards per IP
+const CARD_WINDOW_MS = 60 * 60 * 1000;
+const MAX_DISTINCT_CARDS_PER_WINDOW = 5;
+
+// Lookup counters go to rate_limit_hits, shared by all instances
+enableDatabaseRateLimitStore();
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== CARD HISTORY REQUEST STARTED =====`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number, extraHeaders: Record<string, string> = {}) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...corsHeaders, ...extraHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, extraHeaders?: Record<string, string>, extra: Record<string, unknown> = {}) =>
+    respond({ success: false, error, error_code: errorCode, ...extra }, status, extraHeaders);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    let body: CardHistoryRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const cardId = typeof body?.card_id === 'string' ? body.card_id.trim() : '';
+    const clientIp = extractClientIp(req);
+
+    const security = await securityMiddleware.processRequest(toMiddlewareRequest(req), { rateLimitTier: 'cardLookup' });
+    if (!security.success) {
+      console.warn(`[${requestId}] Rejected by security middleware: ${security.error}`);
+      return fail('Too many lookups. Please try again later.', ErrorCode.RATE_LIMITED, security.statusCode || 429, {
+        'Retry-After': String(Math.ceil((security.retryAfterMs ?? 60000) / 1000))
+      });
+    }
+
+    const lookups = await securityMiddleware.checkDistinctLimit(
+      `card_lookup:${clientIp}`, cardId.toUpperCase(), MAX_DISTINCT_CARDS_PER_WINDOW, CARD_WINDOW_MS
+    );
+    if (!lookups.allowed) {
+      console.warn(`[${requestId}] Distinct card limit exceeded for ${clientIp}`);
+      return fail('Too many lookups. Please try again later.', ErrorCode.RATE_LIMITED, 429, {
+        'Retry-After': String(Math.ceil((lookups.retryAfterMs ?? 60000) / 1000))
+      });
+    }
+
+    // Malformed ids get the same answer as unknown cards
+    if (!CARD_ID_PATTERN.test(cardId)) {
+      return fail('Card not found', ErrorCode.CARD_NOT_FOUND, 404);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const access = await verifyCardAccess(supabaseAdmin, cardId, body?.secret, clientIp);
+    if (!access.ok) {
+      console.log(`[${requestId}] Card access denied: ${access.errorCode}`);
+      return fail(
+        access.error,
+        ErrorCode[access.errorCode],
+        access.status,
+        access.retryAfterSeconds ? { 'Retry-After': String(access.retryAfterSeconds) } : undefined,
+        { remaining_attempts: access.remainingAttempts, retry_after_seconds: access.retryAfterSeconds }
+      );
+    }
+    const card = access.card;
+
+    const account = cardAccount(card.id);
+    const [ledgerResult, ordersResult, orderRefundsResult, refundRequestsResult] = await Promise.all([
+      supabaseAdmin
+        .from('card_ledger_entries')
+        .select('id, entry_type, debit_account, credit_account, amount, reference_type, reference_id, description, created_at')
+        .or(`debit_account.eq."${account}",credit_account.eq."${account}"`)
+        .order('id', { ascending: true }),
+      supabaseAdmin
+        .from('bar_orders')
+        .select('id, bar_order_items(product_name, quantity, price, is_return, refunded_quantity)')
+        .eq('card_id', card.id),
+      supabaseAdmin
+        .from('bar_order_refunds')
+        .select('id, order_id')
+        .eq('card_id', card.id),
+      supabaseAdmin
+        .from('refunds')
+        .select('id, card_balance, created_at')
+        .eq('id_card', card.id),
+    ]);
+
+    const queryError = ledgerResult.error || ordersResult.error || orderRefundsResult.error || refundRequestsResult.error;
+    if (queryError) {
+      console.error(`[${requestId}] Failed to load card history:`, queryError.message);
+      return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500);
+    }
+
+    const statement = buildCardStatement({
+      cardId: card.id,
+      currentBalance: card.amount,
+      ledgerEntries: ledgerResult.data || [],
+      orders: ordersResult.data || [],
+      orderRefunds: orderRefundsResult.data || [],
+      refundRequests: refundRequestsResult.data || [],
+    });
+
+    console.log(`[${requestId}] Card history: ${statement.transactions.length} entries in ${Date.now() - startTime}ms`);
+
+    return respond({
+      success: true,
+      card_id: card.id,
+      ...statement,
+      generated_at: new Date().toISOString(),
+    }, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500);
+  }
+});
@@ -0,0 +1,177 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { parseCamtStatement } from '../_shared/camt-statement.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+
+/**
+ * Bank Statement Import Edge Function
+ *
+ * Reconciles SEPA refund batches with the bank: an admin uploads a camt.053
+ * account statement or camt.054 notification, the transfers are matched with
+ * exported refunds by the EndToEndId written by process-refunds.
+ *
+ * Key Features:
+ * - Executed transfers mark refunds paid, returned transfers mark them
+ *   returned with the bank's reason code (e.g. AC04 account closed)
+ * - Transfers whose amount differs from the exported amount are reported,
+ *   not applied
+ * - Entries not produced by a refund batch (other EndToEndIds, non-EUR) are
+ *   ignored; pending entries are skipped
+ * - A statement (GrpHdr/MsgId) can only be imported once
+ */
+
+interface ImportRequest {
+  file_name?: string;
+  content: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  INVALID_STATEMENT = 'INVALID_STATEMENT',
+  ALREADY_IMPORTED = 'ALREADY_IMPORTED',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+// EndToEndIds written by CBCXMLGenerator.generateEndToEndId
+const REFUND_END_TO_END_PATTERN = /^REFUND_\d{6,}$/;
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024;
+const MAX_FILE_NAME_LENGTH = 255;
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== BANK STATEMENT IMPORT STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted import_bank_statements may import statements
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.IMPORT_BANK_STATEMENTS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to import statements. Role: ${roleOf(access)}`);
+      return fail('import_bank_statements permission required to import bank statements', ErrorCode.FORBIDDEN, 403);
+    }
+
+    // Parse and validate request body
+    let body: ImportRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!body || typeof body.content !== 'string' || !body.content.trim()) {
+      return fail('content is required', ErrorCode.INVALID_REQUEST, 400);
+    }
+    if (body.content.length > MAX_STATEMENT_SIZE) {
+      return fail(`Statement files are limited to ${MAX_STATEMENT_SIZE / 1024 / 1024} MB`, ErrorCode.INVALID_REQUEST, 400);
+    }
+    const fileName = typeof body.file_name === 'string' ? body.file_name.slice(0, MAX_FILE_NAME_LENGTH) : null;
+
+    const parsed = parseCamtStatement(body.content);
+    if (parsed.kind === 'invalid') {
+      console.warn(`[${requestId}] Invalid statement: ${parsed.error}`);
+      return fail(parsed.error, ErrorCode.INVALID_STATEMENT, 400);
+    }
+
+    const { statement } = parsed;
+    const refundTransfers = statement.transactions.filter(transaction =>
+      REFUND_END_TO_END_PATTERN.test(transaction.end_to_end_id) && transaction.currency === 'EUR'
+    );
+    const ignoredTransactions = statement.transactions.length - refundTransfers.length;
+
+    console.log(`[${requestId}] ${statement.type} ${statement.message_id}: ${statement.transactions.length} transactions, ${refundTransfers.length} refund transfers, ${statement.skipped_entries} entries not booked`);
+
+    const { data: result, error } = await supabaseAdmin.rpc('sp_apply_bank_statement', {
+      statement_id_in: statement.message_id,
+      statement_type_in: statement.type,
+      file_name_in: fileName,
+      entries_in: refundTransfers.map(transaction => ({
+        end_to_end_id: transaction.end_to_end_id,
+        amount: transaction.amount,
+        outcome: transaction.outcome,
+        booking_date: transaction.booking_date,
+        return_reason: transaction.return_reason,
+      })),
+      imported_by_in: user.id,
+    });
+
+    if (error) {
+      const message = error.message.toLowerCase();
+      console.error(`[${requestId}] Stored procedure error: ${error.message}`);
+
+      if (message.includes('statement already imported')) {
+        return fail('This statement has already been imported', ErrorCode.ALREADY_IMPORTED, 409, statement.message_id);
+      }
+      if (message.includes('invalid')) {
+        return fail(error.message, ErrorCode.INVALID_STATEMENT, 400);
+      }
+      return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, error.message);
+    }
+
+    console.log(`[${requestId}] Paid: ${result.paid_count}, returned: ${result.returned_count}, unmatched: ${result.unmatched_count}`);
+    return respond({
+      ...result,
+      statement_type: statement.type,
+      ignored_transactions: ignoredTransactions,
+      skipped_entries: statement.skipped_entries,
+    }, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== BANK STATEMENT IMPORT COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
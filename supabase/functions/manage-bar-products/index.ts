@@ -0,0 +1,512 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+
+/**
+ * Bar Product Catalogue Management Edge Function
+ *
+ * Admin-only API for maintaining the bar_products catalogue during a festival.
+ *
+ * Key Features:
+ * - Create, edit, archive/restore and reorder products
+ * - Deposit / return flags validated server-side
+ * - Scheduled per-edition price changes (bar_product_price_schedules)
+ * - Per point-of-sale menus (point_of_sale_products)
+ * - Every modification recorded in bar_product_audit_log
+ * - Bar terminals pick up changes through realtime and the bar_products_current view
+ */
+
+type CatalogueAction =
+  | 'list'
+  | 'create'
+  | 'update'
+  | 'archive'
+  | 'restore'
+  | 'reorder'
+  | 'schedule_price'
+  | 'cancel_price_schedule'
+  | 'set_point_of_sale_products';
+
+interface ProductInput {
+  name?: string;
+  price?: number;
+  category?: string | null;
+  is_deposit?: boolean;
+  is_return?: boolean;
+  sort_order?: number;
+}
+
+interface PriceScheduleInput {
+  price?: number;
+  edition_id?: string | null;
+  effective_from?: string;
+  effective_until?: string | null;
+}
+
+interface CatalogueRequest {
+  action: CatalogueAction;
+  product_id?: number;
+  product?: ProductInput;
+  product_ids?: number[];
+  schedule?: PriceScheduleInput;
+  schedule_id?: number;
+  point_of_sale_id?: number;
+  include_archived?: boolean;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  PRODUCT_NOT_FOUND = 'PRODUCT_NOT_FOUND',
+  POINT_OF_SALE_NOT_FOUND = 'POINT_OF_SALE_NOT_FOUND',
+  DUPLICATE_PRODUCT = 'DUPLICATE_PRODUCT',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+// Categories shown on the bar terminal (kept in sync with BarProductList)
+const PRODUCT_CATEGORIES = ['Soft', 'Bière', 'Cocktail', 'Vin', 'Caution', 'Food', 'Autre'];
+const MAX_PRODUCT_NAME_LENGTH = 60;
+const MAX_PRODUCT_PRICE = 500;
+
+const VALID_ACTIONS: CatalogueAction[] = [
+  'list', 'create', 'update', 'archive', 'restore', 'reorder', 'schedule_price', 'cancel_price_schedule',
+  'set_point_of_sale_products'
+];
+
+/**
+ * Validate product fields. `partial` allows omitting fields on update.
+ * Returns a list of human-readable validation errors.
+ */
+function validateProductInput(product: ProductInput | undefined, partial: boolean): string[] {
+  const errors: string[] = [];
+
+  if (!product || typeof product !== 'object') {
+    return ['product is required'];
+  }
+
+  if (!partial || product.name !== undefined) {
+    if (typeof product.name !== 'string' || product.name.trim().length === 0) {
+      errors.push('name is required');
+    } else if (product.name.trim().length > MAX_PRODUCT_NAME_LENGTH) {
+      errors.push(`name must be at most ${MAX_PRODUCT_NAME_LENGTH} characters`);
+    }
+  }
+
+  if (!partial || product.price !== undefined) {
+    if (typeof product.price !== 'number' || !Number.isFinite(product.price)) {
+      errors.push('price must be a number');
+    } else if (product.price < 0 || product.price > MAX_PRODUCT_PRICE) {
+      errors.push(`price must be between 0 and ${MAX_PRODUCT_PRICE}`);
+    } else if (Math.round(product.price * 100) !== product.price * 100) {
+      errors.push('price must have at most 2 decimal places');
+    }
+  }
+
+  if (product.category !== undefined && product.category !== null && !PRODUCT_CATEGORIES.includes(product.category)) {
+    errors.push(`category must be one of: ${PRODUCT_CATEGORIES.join(', ')}`);
+  }
+
+  if (product.is_deposit && product.is_return) {
+    errors.push('a product cannot be both a deposit and a return');
+  }
+
+  if (product.sort_order !== undefined && (!Number.isInteger(product.sort_order) || product.sort_order < 0)) {
+    errors.push('sort_order must be a non-negative integer');
+  }
+
+  return errors;
+}
+
+function validateScheduleInput(schedule: PriceScheduleInput | undefined): string[] {
+  const errors: string[] = [];
+
+  if (!schedule || typeof schedule !== 'object') {
+    return ['schedule is required'];
+  }
+
+  if (typeof schedule.price !== 'number' || !Number.isFinite(schedule.price) ||
+      schedule.price < 0 || schedule.price > MAX_PRODUCT_PRICE) {
+    errors.push(`price must be a number between 0 and ${MAX_PRODUCT_PRICE}`);
+  }
+
+  const from = schedule.effective_from ? Date.parse(schedule.effective_from) : NaN;
+  if (Number.isNaN(from)) {
+    errors.push('effective_from must be a valid ISO date');
+  }
+
+  if (schedule.effective_until !== undefined && schedule.effective_until !== null) {
+    const until = Date.parse(schedule.effective_until);
+    if (Number.isNaN(until)) {
+      errors.push('effective_until must be a valid ISO date');
+    } else if (!Number.isNaN(from) && until <= from) {
+      errors.push('effective_until must be after effective_from');
+    }
+  }
+
+  return errors;
+}
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== BAR CATALOGUE MANAGEMENT STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+  console.log(`[${requestId}] Method: ${req.method}, URL: ${req.url}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted manage_bar_products may edit the catalogue
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.MANAGE_BAR_PRODUCTS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to manage the catalogue. Role: ${roleOf(access)}`);
+      return fail('manage_bar_products permission required to manage the bar catalogue', ErrorCode.FORBIDDEN, 403);
+    }
+
+    // Parse and validate request body
+    let body: CatalogueRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!body || !VALID_ACTIONS.includes(body.action)) {
+      return fail(`action must be one of: ${VALID_ACTIONS.join(', ')}`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    console.log(`[${requestId}] Action: ${body.action}, product: ${body.product_id ?? 'n/a'}, user: ${user.id}`);
+
+    const writeAudit = async (productId: number | null, action: string, changes: Record<string, unknown>) => {
+      const { error } = await supabaseAdmin.from('bar_product_audit_log').insert({
+        product_id: productId,
+        action,
+        changes,
+        performed_by: user.id,
+        request_id: requestId,
+      });
+      if (error) {
+        // Audit failures must not hide a successful catalogue change, but they must be visible
+        console.error(`[${requestId}] Failed to write catalogue audit entry:`, error);
+      }
+    };
+
+    const loadProduct = async (productId: number | undefined) => {
+      if (!Number.isInteger(productId)) return null;
+      const { data } = await supabaseAdmin.from('bar_products').select('*').eq('id', productId).maybeSingle();
+      return data;
+    };
+
+    const ensureUniqueName = async (name: string, excludeId?: number) => {
+      let query = supabaseAdmin
+        .from('bar_products')
+        .select('id')
+        .ilike('name', name)
+        .eq('is_archived', false);
+      if (excludeId !== undefined) query = query.neq('id', excludeId);
+      const { data } = await query;
+      return !data || data.length === 0;
+    };
+
+    switch (body.action) {
+      case 'list': {
+        let query = supabaseAdmin
+          .from('bar_products')
+          .select('*, bar_product_price_schedules(*)')
+          .order('category', { ascending: true })
+          .order('sort_order', { ascending: true })
+          .order('name', { ascending: true });
+        if (!body.include_archived) query = query.eq('is_archived', false);
+
+        const { data, error } = await query;
+        if (error) {
+          console.error(`[${requestId}] Failed to list products:`, error);
+          return fail('Failed to load products', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        return respond({ success: true, products: data ?? [] }, 200);
+      }
+
+      case 'create': {
+        const errors = validateProductInput(body.product, false);
+        if (errors.length > 0) {
+          return fail('Invalid product', ErrorCode.VALIDATION_ERROR, 400, errors);
+        }
+
+        const product = body.product!;
+        const name = product.name!.trim();
+        if (!(await ensureUniqueName(name))) {
+          return fail(`A product named "${name}" already exists`, ErrorCode.DUPLICATE_PRODUCT, 409);
+        }
+
+        // New products go to the end of their category unless told otherwise
+        let sortOrder = product.sort_order;
+        if (sortOrder === undefined) {
+          const { data: last } = await supabaseAdmin
+            .from('bar_products')
+            .select('sort_order')
+            .eq('category', product.category ?? null)
+            .order('sort_order', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+          sortOrder = (last?.sort_order ?? 0) + 10;
+        }
+
+        const record = {
+          name,
+          price: product.price,
+          category: product.category ?? null,
+          is_deposit: product.is_deposit ?? false,
+          is_return: product.is_return ?? false,
+          sort_order: sortOrder,
+        };
+
+        const { data, error } = await supabaseAdmin.from('bar_products').insert(record).select().single();
+        if (error) {
+          console.error(`[${requestId}] Failed to create product:`, error);
+          return fail('Failed to create product', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        await writeAudit(data.id, 'create', { after: record });
+        console.log(`[${requestId}] Product created: ${data.id} (${name})`);
+        return respond({ success: true, product: data }, 201);
+      }
+
+      case 'update': {
+        const existing = await loadProduct(body.product_id);
+        if (!existing) {
+          return fail('Product not found', ErrorCode.PRODUCT_NOT_FOUND, 404);
+        }
+
+        const errors = validateProductInput(body.product, true);
+        // Deposit/return exclusivity applies to the merged record
+        const merged = { ...existing, ...body.product };
+        if (merged.is_deposit && merged.is_return && !errors.includes('a product cannot be both a deposit and a return')) {
+          errors.push('a product cannot be both a deposit and a return');
+        }
+        if (errors.length > 0) {
+          return fail('Invalid product', ErrorCode.VALIDATION_ERROR, 400, errors);
+        }
+
+        const updates: ProductInput = {};
+        for (const field of ['name', 'price', 'category', 'is_deposit', 'is_return', 'sort_order'] as const) {
+          if (body.product![field] !== undefined) {
+            (updates as Record<string, unknown>)[field] = field === 'name' ? body.product!.name!.trim() : body.product![field];
+          }
+        }
+
+        if (updates.name && !(await ensureUniqueName(updates.name, existing.id))) {
+          return fail(`A product named "${updates.name}" already exists`, ErrorCode.DUPLICATE_PRODUCT, 409);
+        }
+
+        const { data, error } = await supabaseAdmin
+          .from('bar_products')
+          .update(updates)
+          .eq('id', existing.id)
+          .select()
+          .single();
+        if (error) {
+          console.error(`[${requestId}] Failed to update product ${existing.id}:`, error);
+          return fail('Failed to update product', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        const before: Record<string, unknown> = {};
+        for (const field of Object.keys(updates)) before[field] = existing[field];
+        await writeAudit(existing.id, 'update', { before, after: updates });
+        return respond({ success: true, product: data }, 200);
+      }
+
+      case 'archive':
+      case 'restore': {
+        const existing = await loadProduct(body.product_id);
+        if (!existing) {
+          return fail('Product not found', ErrorCode.PRODUCT_NOT_FOUND, 404);
+        }
+
+        const archiving = body.action === 'archive';
+        if (!archiving && !(await ensureUniqueName(existing.name, existing.id))) {
+          return fail(`A product named "${existing.name}" already exists`, ErrorCode.DUPLICATE_PRODUCT, 409);
+        }
+
+        const { data, error } = await supabaseAdmin
+          .from('bar_products')
+          .update({ is_archived: archiving, archived_at: archiving ? new Date().toISOString() : null })
+          .eq('id', existing.id)
+          .select()
+          .single();
+        if (error) {
+          console.error(`[${requestId}] Failed to ${body.action} product ${existing.id}:`, error);
+          return fail(`Failed to ${body.action} product`, ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        await writeAudit(existing.id, body.action, { name: existing.name });
+        return respond({ success: true, product: data }, 200);
+      }
+
+      case 'reorder': {
+        const ids = body.product_ids;
+        if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => Number.isInteger(id))) {
+          return fail('product_ids must be a non-empty array of product ids', ErrorCode.VALIDATION_ERROR, 400);
+        }
+        if (new Set(ids).size !== ids.length) {
+          return fail('product_ids must not contain duplicates', ErrorCode.VALIDATION_ERROR, 400);
+        }
+
+        const { data, error } = await supabaseAdmin.rpc('sp_reorder_bar_products', {
+          product_ids_in: ids,
+          performed_by_in: user.id,
+          request_id_in: requestId,
+        });
+        if (error) {
+          console.error(`[${requestId}] Failed to reorder products:`, error);
+          return fail('Failed to reorder products', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        return respond({ success: true, updated_count: data?.updated_count ?? ids.length }, 200);
+      }
+
+      case 'schedule_price': {
+        const existing = await loadProduct(body.product_id);
+        if (!existing) {
+          return fail('Product not found', ErrorCode.PRODUCT_NOT_FOUND, 404);
+        }
+
+        const errors = validateScheduleInput(body.schedule);
+        if (errors.length > 0) {
+          return fail('Invalid price schedule', ErrorCode.VALIDATION_ERROR, 400, errors);
+        }
+
+        const schedule = body.schedule!;
+        const record = {
+          product_id: existing.id,
+          edition_id: schedule.edition_id ?? null,
+          price: schedule.price,
+          effective_from: new Date(schedule.effective_from!).toISOString(),
+          effective_until: schedule.effective_until ? new Date(schedule.effective_until).toISOString() : null,
+          created_by: user.id,
+        };
+
+        const { data, error } = await supabaseAdmin
+          .from('bar_product_price_schedules')
+          .insert(record)
+          .select()
+          .single();
+        if (error) {
+          console.error(`[${requestId}] Failed to schedule price for product ${existing.id}:`, error);
+          return fail('Failed to schedule price change', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        await writeAudit(existing.id, 'schedule_price', { schedule: record, base_price: existing.price });
+        return respond({ success: true, schedule: data }, 201);
+      }
+
+      case 'cancel_price_schedule': {
+        if (!Number.isInteger(body.schedule_id)) {
+          return fail('schedule_id is required', ErrorCode.VALIDATION_ERROR, 400);
+        }
+
+        const { data, error } = await supabaseAdmin
+          .from('bar_product_price_schedules')
+          .delete()
+          .eq('id', body.schedule_id)
+          .select()
+          .maybeSingle();
+        if (error) {
+          console.error(`[${requestId}] Failed to cancel price schedule ${body.schedule_id}:`, error);
+          return fail('Failed to cancel price schedule', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+        if (!data) {
+          return fail('Price schedule not found', ErrorCode.PRODUCT_NOT_FOUND, 404);
+        }
+
+        await writeAudit(data.product_id, 'cancel_price_schedule', { schedule: data });
+        return respond({ success: true }, 200);
+      }
+
+      case 'set_point_of_sale_products': {
+        const ids = body.product_ids;
+        if (!Number.isInteger(body.point_of_sale_id)) {
+          return fail('point_of_sale_id is required', ErrorCode.VALIDATION_ERROR, 400);
+        }
+        // An empty menu means the point of sale offers the whole catalogue
+        if (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id))) {
+          return fail('product_ids must be an array of product ids', ErrorCode.VALIDATION_ERROR, 400);
+        }
+
+        const { data, error } = await supabaseAdmin.rpc('sp_set_point_of_sale_products', {
+          point_of_sale_id_in: body.point_of_sale_id,
+          product_ids_in: ids,
+          performed_by_in: user.id,
+          request_id_in: requestId,
+        });
+        if (error) {
+          console.error(`[${requestId}] Failed to update menu of point of sale ${body.point_of_sale_id}:`, error);
+          if (error.message?.toLowerCase().includes('point of sale not found')) {
+            return fail('Point of sale not found', ErrorCode.POINT_OF_SALE_NOT_FOUND, 404);
+          }
+          return fail('Failed to update point of sale menu', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        return respond({ success: true, product_count: data?.product_count ?? ids.length }, 200);
+      }
+    }
+
+    return fail('Unsupported action', ErrorCode.INVALID_REQUEST, 400);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== BAR CATALOGUE MANAGEMENT COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
@@ -0,0 +1,194 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CARD_ID_PATTERN, generateCardSecret, hashCardSecret } from '../_shared/card-secret.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+
+/**
+ * Card Secrets Management Edge Function
+ *
+ * Admin-only API for the printed PIN / QR token that protects a card on the
+ * public pages.
+ *
+ * Key Features:
+ * - Status lookup (protected or not, issue date)
+ * - Issue or reprint: generates a new secret, returned once in clear for
+ *   printing; any previously printed secret stops working
+ * - Revoke: removes the protection so the card id alone is enough again
+ * - Only an HMAC of the secret is stored (card_secrets)
+ */
+
+type CardSecretAction = 'status' | 'issue' | 'revoke';
+
+interface CardSecretRequest {
+  action: CardSecretAction;
+  card_id: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  CARD_NOT_FOUND = 'CARD_NOT_FOUND',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+const VALID_ACTIONS: CardSecretAction[] = ['status', 'issue', 'revoke'];
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== CARD SECRET MANAGEMENT STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted manage_card_secrets may manage card secrets
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.MANAGE_CARD_SECRETS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to manage card secrets. Role: ${roleOf(access)}`);
+      return fail('manage_card_secrets permission required to manage card secrets', ErrorCode.FORBIDDEN, 403);
+    }
+
+    // Parse and validate request body
+    let body: CardSecretRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!body || !VALID_ACTIONS.includes(body.action)) {
+      return fail(`action must be one of: ${VALID_ACTIONS.join(', ')}`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const cardId = typeof body.card_id === 'string' ? body.card_id.trim() : '';
+    if (!CARD_ID_PATTERN.test(cardId)) {
+      return fail('card_id is required', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    console.log(`[${requestId}] Action: ${body.action}, card: ${cardId}, user: ${user.id}`);
+
+    const { data: card } = await supabaseAdmin.from('table_cards').select('id').eq('id', cardId).maybeSingle();
+    if (!card) {
+      return fail('Card not found', ErrorCode.CARD_NOT_FOUND, 404);
+    }
+
+    const { data: existing, error: loadError } = await supabaseAdmin
+      .from('card_secrets')
+      .select('issued_at, reissue_count')
+      .eq('card_id', card.id)
+      .maybeSingle();
+
+    if (loadError) {
+      console.error(`[${requestId}] Failed to load card secret:`, loadError);
+      return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, loadError.message);
+    }
+
+    switch (body.action) {
+      case 'status':
+        return respond({
+          success: true,
+          card_id: card.id,
+          protected: !!existing,
+          issued_at: existing?.issued_at ?? null,
+          reissue_count: existing?.reissue_count ?? 0,
+        }, 200);
+
+      case 'issue': {
+        const secret = generateCardSecret();
+        const issuedAt = new Date().toISOString();
+
+        const { error } = await supabaseAdmin
+          .from('card_secrets')
+          .upsert({
+            card_id: card.id,
+            secret_hash: await hashCardSecret(card.id, secret),
+            issued_at: issuedAt,
+            issued_by: user.id,
+            reissue_count: existing ? existing.reissue_count + 1 : 0,
+          });
+
+        if (error) {
+          console.error(`[${requestId}] Failed to store card secret:`, error);
+          return fail('Failed to issue card secret', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        return respond({
+          success: true,
+          card_id: card.id,
+          protected: true,
+          secret,
+          issued_at: issuedAt,
+          reissued: !!existing,
+        }, 200);
+      }
+
+      case 'revoke': {
+        const { error } = await supabaseAdmin.from('card_secrets').delete().eq('card_id', card.id);
+        if (error) {
+          console.error(`[${requestId}] Failed to revoke card secret:`, error);
+          return fail('Failed to revoke card secret', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        return respond({ success: true, card_id: card.id, protected: false }, 200);
+      }
+    }
+
+    return fail('Unsupported action', ErrorCode.INVALID_REQUEST, 400);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== CARD SECRET MANAGEMENT COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
@@ -0,0 +1,252 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CARD_ID_PATTERN } from '../_shared/card-secret.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+
+/**
+ * Card Lifecycle Management Edge Function
+ *
+ * Admin-only API to block, unblock, declare lost, retire, replace and merge
+ * cards.
+ *
+ * Key Features:
+ * - Lifecycle lookup: current status, replacement link and event history
+ * - Status changes through sp_set_card_status (retiring needs an empty balance)
+ * - Replacement and merge through sp_replace_card: the old card is retired,
+ *   its balance and history move to the target card, each step is recorded
+ *   in card_lifecycle_events
+ * - Idempotent replacement via client_request_id
+ */
+
+type CardAction = 'history' | 'set_status' | 'replace';
+
+interface CardActionRequest {
+  action: CardAction;
+  card_id: string;
+  status?: string;
+  new_card_id?: string;
+  reason?: string;
+  client_request_id?: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  CARD_NOT_FOUND = 'CARD_NOT_FOUND',
+  INVALID_STATUS = 'INVALID_STATUS',
+  CARD_RETIRED = 'CARD_RETIRED',
+  BALANCE_NOT_EMPTY = 'BALANCE_NOT_EMPTY',
+  SAME_CARD = 'SAME_CARD',
+  REPLACEMENT_NOT_ACTIVE = 'REPLACEMENT_NOT_ACTIVE',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+const VALID_ACTIONS: CardAction[] = ['history', 'set_status', 'replace'];
+const VALID_STATUSES = ['active', 'blocked', 'lost', 'retired'];
+const MAX_REASON_LENGTH = 200;
+const HISTORY_LIMIT = 100;
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== CARD LIFECYCLE MANAGEMENT STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted manage_cards may manage cards
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.MANAGE_CARDS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to manage cards. Role: ${roleOf(access)}`);
+      return fail('manage_cards permission required to manage cards', ErrorCode.FORBIDDEN, 403);
+    }
+
+    // Parse and validate request body
+    let body: CardActionRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!body || !VALID_ACTIONS.includes(body.action)) {
+      return fail(`action must be one of: ${VALID_ACTIONS.join(', ')}`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const cardId = typeof body.card_id === 'string' ? body.card_id.trim() : '';
+    if (!CARD_ID_PATTERN.test(cardId)) {
+      return fail('card_id is required', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (reason.length > MAX_REASON_LENGTH) {
+      return fail(`reason must be at most ${MAX_REASON_LENGTH} characters`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    console.log(`[${requestId}] Action: ${body.action}, card: ${cardId}, user: ${user.id}`);
+
+    // Maps stored procedure exceptions to error codes
+    const failFromProcedure = (procedureError: { message: string }) => {
+      const message = procedureError.message.toLowerCase();
+      console.error(`[${requestId}] Stored procedure error: ${procedureError.message}`);
+
+      if (message.includes('invalid card status')) {
+        return fail('Invalid card status', ErrorCode.INVALID_STATUS, 400);
+      }
+      if (message.includes('replacement card must differ')) {
+        return fail('The replacement card must be a different card', ErrorCode.SAME_CARD, 400);
+      }
+      if (message.includes('replacement card not active')) {
+        return fail('The replacement card is not active', ErrorCode.REPLACEMENT_NOT_ACTIVE, 409, procedureError.message);
+      }
+      if (message.includes('card not found')) {
+        return fail('Card not found', ErrorCode.CARD_NOT_FOUND, 404);
+      }
+      if (message.includes('card retired')) {
+        return fail('This card is retired and can no longer change', ErrorCode.CARD_RETIRED, 409);
+      }
+      if (message.includes('balance not empty')) {
+        return fail('Move the balance to another card before retiring this one', ErrorCode.BALANCE_NOT_EMPTY, 409);
+      }
+      return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, procedureError.message);
+    };
+
+    switch (body.action) {
+      case 'history': {
+        const { data: card, error: cardError } = await supabaseAdmin
+          .from('table_cards')
+          .select('id, amount, status, status_reason, status_changed_at, replaced_by')
+          .eq('id', cardId)
+          .maybeSingle();
+
+        if (cardError) {
+          console.error(`[${requestId}] Failed to load card:`, cardError);
+          return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, cardError.message);
+        }
+        if (!card) {
+          return fail('Card not found', ErrorCode.CARD_NOT_FOUND, 404);
+        }
+
+        const { data: events, error: eventsError } = await supabaseAdmin
+          .from('card_lifecycle_events')
+          .select('*')
+          .eq('card_id', cardId)
+          .order('created_at', { ascending: false })
+          .limit(HISTORY_LIMIT);
+
+        if (eventsError) {
+          console.error(`[${requestId}] Failed to load lifecycle events:`, eventsError);
+          return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, eventsError.message);
+        }
+
+        return respond({ success: true, card, events: events ?? [] }, 200);
+      }
+
+      case 'set_status': {
+        if (!body.status || !VALID_STATUSES.includes(body.status)) {
+          return fail(`status must be one of: ${VALID_STATUSES.join(', ')}`, ErrorCode.INVALID_STATUS, 400);
+        }
+
+        const { data: result, error } = await supabaseAdmin.rpc('sp_set_card_status', {
+          card_id_in: cardId,
+          status_in: body.status,
+          reason_in: reason || null,
+          performed_by_in: user.id,
+        });
+
+        if (error) {
+          return failFromProcedure(error);
+        }
+
+        console.log(`[${requestId}] Card ${cardId}: ${result.previous_status ?? result.status} → ${result.status}`);
+        return respond(result, 200);
+      }
+
+      case 'replace': {
+        const newCardId = typeof body.new_card_id === 'string' ? body.new_card_id.trim() : '';
+        if (!CARD_ID_PATTERN.test(newCardId)) {
+          return fail('new_card_id is required', ErrorCode.INVALID_REQUEST, 400);
+        }
+        if (!reason) {
+          return fail('reason is required for a card replacement', ErrorCode.INVALID_REQUEST, 400);
+        }
+        if (!body.client_request_id || typeof body.client_request_id !== 'string') {
+          return fail('client_request_id is required', ErrorCode.INVALID_REQUEST, 400);
+        }
+
+        const { data: result, error } = await supabaseAdmin.rpc('sp_replace_card', {
+          old_card_id_in: cardId,
+          new_card_id_in: newCardId,
+          reason_in: reason,
+          client_request_id_in: body.client_request_id,
+          performed_by_in: user.id,
+        });
+
+        if (error) {
+          return failFromProcedure(error);
+        }
+
+        console.log(`[${requestId}] Card ${cardId} ${result.merged ? 'merged into' : 'replaced by'} ${newCardId}${result.duplicate ? ' (replayed)' : ''}: €${result.moved_amount} moved`);
+        return respond(result, 200);
+      }
+    }
+
+    return fail('Unsupported action', ErrorCode.INVALID_REQUEST, 400);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== CARD LIFECYCLE MANAGEMENT COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
@@ -0,0 +1,328 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+
+/**
+ * Festival Editions Management Edge Function
+ *
+ * Admin-only API for the editions table that drives statistics, refunds and
+ * the active edition stamped on bar orders and recharges.
+ *
+ * Key Features:
+ * - Create and edit editions (slug id, name, date range, payment provider,
+ *   card fee charged on the first recharge of each card)
+ * - Status lifecycle upcoming -> live -> closed via sp_set_edition_status
+ * - Only one live edition at a time (enforced by the database)
+ * - Editions referenced by orders or recharges cannot be deleted
+ */
+
+type EditionAction = 'create' | 'update' | 'set_status' | 'delete';
+type EditionStatus = 'upcoming' | 'live' | 'closed';
+
+interface EditionInput {
+  id?: string;
+  name?: string;
+  start_date?: string;
+  end_date?: string;
+  payment_provider?: string;
+  card_fee?: number;
+}
+
+interface EditionRequest {
+  action: EditionAction;
+  edition_id?: string;
+  edition?: EditionInput;
+  status?: EditionStatus;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  EDITION_NOT_FOUND = 'EDITION_NOT_FOUND',
+  DUPLICATE_EDITION = 'DUPLICATE_EDITION',
+  EDITION_ALREADY_LIVE = 'EDITION_ALREADY_LIVE',
+  INVALID_STATUS_TRANSITION = 'INVALID_STATUS_TRANSITION',
+  EDITION_IN_USE = 'EDITION_IN_USE',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+const VALID_ACTIONS: EditionAction[] = ['create', 'update', 'set_status', 'delete'];
+const VALID_STATUSES: EditionStatus[] = ['upcoming', 'live', 'closed'];
+// Mirrors PAYMENT_PROVIDERS in _shared/payment-providers.ts
+const VALID_PAYMENT_PROVIDERS = ['stripe', 'mock'];
+// Mirrors the editions.card_fee check constraint
+const MAX_CARD_FEE = 50;
+const EDITION_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate edition fields. `partial` allows omitting fields on update.
+ */
+function validateEditionInput(edition: EditionInput | undefined, partial: boolean): string[] {
+  const errors: string[] = [];
+
+  if (!edition || typeof edition !== 'object') {
+    return ['edition is required'];
+  }
+
+  if (!partial) {
+    if (typeof edition.id !== 'string' || !EDITION_ID_PATTERN.test(edition.id) || edition.id.length > 40) {
+      errors.push('id must be a lowercase slug (e.g. "july-10th")');
+    }
+  }
+
+  if (!partial || edition.name !== undefined) {
+    if (typeof edition.name !== 'string' || edition.name.trim().length === 0 || edition.name.trim().length > 60) {
+      errors.push('name is required and must be at most 60 characters');
+    }
+  }
+
+  for (const field of ['start_date', 'end_date'] as const) {
+    if (!partial || edition[field] !== undefined) {
+      const value = edition[field];
+      if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        errors.push(`${field} must be a date formatted as YYYY-MM-DD`);
+      }
+    }
+  }
+
+  if (edition.start_date && edition.end_date && edition.end_date < edition.start_date) {
+    errors.push('end_date must be on or after start_date');
+  }
+
+  if (edition.payment_provider !== undefined && !VALID_PAYMENT_PROVIDERS.includes(edition.payment_provider)) {
+    errors.push(`payment_provider must be one of: ${VALID_PAYMENT_PROVIDERS.join(', ')}`);
+  }
+
+  if (edition.card_fee !== undefined && (typeof edition.card_fee !== 'number' || !Number.isFinite(edition.card_fee) || edition.card_fee < 0 || edition.card_fee > MAX_CARD_FEE)) {
+    errors.push(`card_fee must be a number between 0 and ${MAX_CARD_FEE}`);
+  }
+
+  return errors;
+}
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== EDITION MANAGEMENT STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+  console.log(`[${requestId}] Method: ${req.method}, URL: ${req.url}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted manage_editions may manage editions
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.MANAGE_EDITIONS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to manage editions. Role: ${roleOf(access)}`);
+      return fail('manage_editions permission required to manage editions', ErrorCode.FORBIDDEN, 403);
+    }
+
+    // Parse and validate request body
+    let body: EditionRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!body || !VALID_ACTIONS.includes(body.action)) {
+      return fail(`action must be one of: ${VALID_ACTIONS.join(', ')}`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    console.log(`[${requestId}] Action: ${body.action}, edition: ${body.edition_id ?? body.edition?.id ?? 'n/a'}, user: ${user.id}`);
+
+    const loadEdition = async (editionId: string | undefined) => {
+      if (typeof editionId !== 'string' || editionId.length === 0) return null;
+      const { data } = await supabaseAdmin.from('editions').select('*').eq('id', editionId).maybeSingle();
+      return data;
+    };
+
+    switch (body.action) {
+      case 'create': {
+        const errors = validateEditionInput(body.edition, false);
+        if (errors.length > 0) {
+          return fail('Invalid edition', ErrorCode.VALIDATION_ERROR, 400, errors);
+        }
+
+        const edition = body.edition!;
+        if (await loadEdition(edition.id)) {
+          return fail(`An edition with id "${edition.id}" already exists`, ErrorCode.DUPLICATE_EDITION, 409);
+        }
+
+        const { data, error } = await supabaseAdmin
+          .from('editions')
+          .insert({
+            id: edition.id,
+            name: edition.name!.trim(),
+            start_date: edition.start_date,
+            end_date: edition.end_date,
+            payment_provider: edition.payment_provider ?? 'stripe',
+            card_fee: edition.card_fee ?? 0,
+            status: 'upcoming',
+          })
+          .select()
+          .single();
+        if (error) {
+          console.error(`[${requestId}] Failed to create edition:`, error);
+          return fail('Failed to create edition', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        console.log(`[${requestId}] Edition created: ${data.id}`);
+        return respond({ success: true, edition: data }, 201);
+      }
+
+      case 'update': {
+        const existing = await loadEdition(body.edition_id);
+        if (!existing) {
+          return fail('Edition not found', ErrorCode.EDITION_NOT_FOUND, 404);
+        }
+
+        const merged = { ...existing, ...body.edition };
+        const errors = validateEditionInput(body.edition, true);
+        if (merged.end_date < merged.start_date && !errors.includes('end_date must be on or after start_date')) {
+          errors.push('end_date must be on or after start_date');
+        }
+        if (errors.length > 0) {
+          return fail('Invalid edition', ErrorCode.VALIDATION_ERROR, 400, errors);
+        }
+
+        // The id is referenced by orders and recharges, it never changes
+        const updates: Record<string, string | number> = { updated_at: new Date().toISOString() };
+        if (body.edition!.name !== undefined) updates.name = body.edition!.name.trim();
+        if (body.edition!.start_date !== undefined) updates.start_date = body.edition!.start_date;
+        if (body.edition!.end_date !== undefined) updates.end_date = body.edition!.end_date;
+        if (body.edition!.payment_provider !== undefined) updates.payment_provider = body.edition!.payment_provider;
+        if (body.edition!.card_fee !== undefined) updates.card_fee = body.edition!.card_fee;
+
+        const { data, error } = await supabaseAdmin
+          .from('editions')
+          .update(updates)
+          .eq('id', existing.id)
+          .select()
+          .single();
+        if (error) {
+          console.error(`[${requestId}] Failed to update edition ${existing.id}:`, error);
+          return fail('Failed to update edition', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        return respond({ success: true, edition: data }, 200);
+      }
+
+      case 'set_status': {
+        if (!body.status || !VALID_STATUSES.includes(body.status)) {
+          return fail(`status must be one of: ${VALID_STATUSES.join(', ')}`, ErrorCode.VALIDATION_ERROR, 400);
+        }
+
+        const { data, error } = await supabaseAdmin.rpc('sp_set_edition_status', {
+          edition_id_in: body.edition_id,
+          status_in: body.status,
+        });
+
+        if (error) {
+          const message = error.message.toLowerCase();
+          console.error(`[${requestId}] Failed to set status of edition ${body.edition_id}:`, error.message);
+          if (message.includes('edition not found')) {
+            return fail('Edition not found', ErrorCode.EDITION_NOT_FOUND, 404);
+          }
+          if (message.includes('already live') || message.includes('idx_editions_single_live')) {
+            return fail('Another edition is already live. Close it first.', ErrorCode.EDITION_ALREADY_LIVE, 409, error.message);
+          }
+          if (message.includes('invalid status transition')) {
+            return fail('Invalid status transition', ErrorCode.INVALID_STATUS_TRANSITION, 400, error.message);
+          }
+          return fail('Failed to update edition status', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        console.log(`[${requestId}] Edition ${body.edition_id} status: ${data?.previous_status ?? body.status} -> ${body.status}`);
+        return respond({ success: true, status: body.status, changed: data?.changed ?? true }, 200);
+      }
+
+      case 'delete': {
+        const existing = await loadEdition(body.edition_id);
+        if (!existing) {
+          return fail('Edition not found', ErrorCode.EDITION_NOT_FOUND, 404);
+        }
+
+        const [{ count: orderCount }, { count: rechargeCount }] = await Promise.all([
+          supabaseAdmin.from('bar_orders').select('id', { count: 'exact', head: true }).eq('edition_id', existing.id),
+          supabaseAdmin.from('recharges').select('id', { count: 'exact', head: true }).eq('edition_id', existing.id),
+        ]);
+
+        if (existing.status !== 'upcoming' || (orderCount ?? 0) > 0 || (rechargeCount ?? 0) > 0) {
+          return fail('Only upcoming editions without transactions can be deleted', ErrorCode.EDITION_IN_USE, 409, {
+            status: existing.status,
+            order_count: orderCount ?? 0,
+            recharge_count: rechargeCount ?? 0,
+          });
+        }
+
+        const { error } = await supabaseAdmin.from('editions').delete().eq('id', existing.id);
+        if (error) {
+          console.error(`[${requestId}] Failed to delete edition ${existing.id}:`, error);
+          return fail('Failed to delete edition', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        return respond({ success: true }, 200);
+      }
+    }
+
+    return fail('Unsupported action', ErrorCode.INVALID_REQUEST, 400);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== EDITION MANAGEMENT COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
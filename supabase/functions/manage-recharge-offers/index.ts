@@ -0,0 +1,337 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { parseOfferSelection, quoteRechargeBonus, PROMO_CODE_PATTERN, normalizePromoCode } from '../_shared/recharge-offers.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+
+/**
+ * Recharge Offers Edge Function
+ *
+ * Recharge packages (preset amounts with an optional bonus) and promo codes.
+ *
+ * Key Features:
+ * - Public `packages`: active packages of the live edition (and edition-less ones)
+ * - Public `quote`: bonus a guest would get for an amount, package and promo
+ *   code, computed by quote_recharge_bonus (the payment page preview)
+ * - Admin `list`, `save_package` and `save_promo` to manage the offers
+ * - Offers are deactivated, never deleted: recharges keep referencing them
+ */
+
+type OfferAction = 'packages' | 'quote' | 'list' | 'save_package' | 'save_promo';
+
+interface PackageInput {
+  id?: number;
+  edition_id?: string | null;
+  label?: string;
+  amount?: number;
+  bonus_amount?: number;
+  sort_order?: number;
+  is_active?: boolean;
+}
+
+interface PromoInput {
+  code?: string;
+  description?: string | null;
+  edition_id?: string | null;
+  bonus_type?: string;
+  bonus_value?: number;
+  max_bonus?: number | null;
+  min_amount?: number;
+  max_uses?: number | null;
+  max_uses_per_card?: number | null;
+  valid_from?: string | null;
+  valid_until?: string | null;
+  is_active?: boolean;
+}
+
+interface OfferRequest {
+  action: OfferAction;
+  amount?: number;
+  package_id?: unknown;
+  promo_code?: unknown;
+  card_id?: string;
+  package?: PackageInput;
+  promo?: PromoInput;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  PACKAGE_NOT_FOUND = 'PACKAGE_NOT_FOUND',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+const VALID_ACTIONS: OfferAction[] = ['packages', 'quote', 'list', 'save_package', 'save_promo'];
+const BONUS_TYPES = ['fixed', 'percent'];
+const MAX_RECHARGE_AMOUNT = 1000;
+
+const isPositiveAmount = (value: unknown, max = MAX_RECHARGE_AMOUNT): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= max;
+
+const isOptionalPositiveInteger = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'number' && Number.isInteger(value) && value > 0);
+
+const isOptionalDate = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !Number.isNaN(Date.parse(value)));
+
+function validatePackageInput(input: PackageInput | undefined): string[] {
+  if (!input || typeof input !== 'object') return ['package is required'];
+  const errors: string[] = [];
+
+  if (typeof input.label !== 'string' || input.label.trim().length === 0 || input.label.trim().length > 60) {
+    errors.push('label is required and must be at most 60 characters');
+  }
+  if (!isPositiveAmount(input.amount)) {
+    errors.push(`amount must be between 0 and ${MAX_RECHARGE_AMOUNT}€`);
+  }
+  if (input.bonus_amount !== undefined && (typeof input.bonus_amount !== 'number' || input.bonus_amount < 0)) {
+    errors.push('bonus_amount must be zero or positive');
+  }
+  if (input.sort_order !== undefined && !Number.isInteger(input.sort_order)) {
+    errors.push('sort_order must be an integer');
+  }
+
+  return errors;
+}
+
+function validatePromoInput(input: PromoInput | undefined): string[] {
+  if (!input || typeof input !== 'object') return ['promo is required'];
+  const errors: string[] = [];
+
+  const code = normalizePromoCode(input.code);
+  if (!code || !PROMO_CODE_PATTERN.test(code)) {
+    errors.push('code must be 3 to 32 letters, digits, "-" or "_"');
+  }
+  if (!input.bonus_type || !BONUS_TYPES.includes(input.bonus_type)) {
+    errors.push(`bonus_type must be one of: ${BONUS_TYPES.join(', ')}`);
+  }
+  if (!isPositiveAmount(input.bonus_value, input.bonus_type === 'percent' ? 100 : MAX_RECHARGE_AMOUNT)) {
+    errors.push(input.bonus_type === 'percent' ? 'bonus_value must be between 0 and 100%' : 'bonus_value must be positive');
+  }
+  if (input.max_bonus !== undefined && input.max_bonus !== null && !isPositiveAmount(input.max_bonus)) {
+    errors.push('max_bonus must be positive');
+  }
+  if (input.min_amount !== undefined && (typeof input.min_amount !== 'number' || input.min_amount < 0)) {
+    errors.push('min_amount must be zero or positive');
+  }
+  if (!isOptionalPositiveInteger(input.max_uses)) errors.push('max_uses must be a positive integer');
+  if (!isOptionalPositiveInteger(input.max_uses_per_card)) errors.push('max_uses_per_card must be a positive integer');
+  if (!isOptionalDate(input.valid_from)) errors.push('valid_from must be a date');
+  if (!isOptionalDate(input.valid_until)) errors.push('valid_until must be a date');
+  if (input.valid_from && input.valid_until && Date.parse(input.valid_until) <= Date.parse(input.valid_from)) {
+    errors.push('valid_until must be after valid_from');
+  }
+
+  return errors;
+}
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== RECHARGE OFFERS STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+  console.log(`[${requestId}] Method: ${req.method}, URL: ${req.url}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: string, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Parse and validate request body
+    let body: OfferRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!body || !VALID_ACTIONS.includes(body.action)) {
+      return fail(`action must be one of: ${VALID_ACTIONS.join(', ')}`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    // Packages and quotes are public: the payment page shows the bonus before paying
+    if (body.action === 'packages') {
+      const { data: liveEdition } = await supabaseAdmin.rpc('get_active_edition_id');
+      let query = supabaseAdmin
+        .from('recharge_packages')
+        .select('id, edition_id, label, amount, bonus_amount, sort_order')
+        .eq('is_active', true);
+      query = liveEdition
+        ? query.or(`edition_id.is.null,edition_id.eq.${liveEdition}`)
+        : query.is('edition_id', null);
+
+      const { data, error } = await query.order('sort_order').order('amount');
+      if (error) {
+        console.error(`[${requestId}] Failed to list recharge packages:`, error);
+        return fail('Failed to list recharge packages', ErrorCode.DATABASE_ERROR, 500, error.message);
+      }
+      return respond({ success: true, packages: data }, 200);
+    }
+
+    if (body.action === 'quote') {
+      if (!isPositiveAmount(body.amount)) {
+        return fail(`amount must be between 0 and ${MAX_RECHARGE_AMOUNT}€`, ErrorCode.VALIDATION_ERROR, 400);
+      }
+      const { selection, error: selectionError } = parseOfferSelection(body);
+      if (selectionError) {
+        return fail(selectionError, ErrorCode.VALIDATION_ERROR, 400);
+      }
+
+      const result = await quoteRechargeBonus(supabaseAdmin, body.amount, selection, body.card_id || undefined);
+      if (!result.ok) {
+        console.log(`[${requestId}] Quote rejected: ${result.errorCode}`);
+        return fail(result.error, result.errorCode, result.status);
+      }
+      return respond({ success: true, quote: result.quote }, 200);
+    }
+
+    // Security check - only users granted manage_recharge_offers may manage offers
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.MANAGE_RECHARGE_OFFERS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to manage recharge offers. Role: ${roleOf(access)}`);
+      return fail('manage_recharge_offers permission required to manage recharge offers', ErrorCode.FORBIDDEN, 403);
+    }
+
+    console.log(`[${requestId}] Action: ${body.action}, user: ${user.id}`);
+
+    switch (body.action) {
+      case 'list': {
+        const [packagesResult, promosResult] = await Promise.all([
+          supabaseAdmin.from('recharge_packages').select('*').order('sort_order').order('amount'),
+          supabaseAdmin.from('promo_codes').select('*').order('created_at', { ascending: false }),
+        ]);
+        const error = packagesResult.error || promosResult.error;
+        if (error) {
+          console.error(`[${requestId}] Failed to list recharge offers:`, error);
+          return fail('Failed to list recharge offers', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+        return respond({ success: true, packages: packagesResult.data, promo_codes: promosResult.data }, 200);
+      }
+
+      case 'save_package': {
+        const errors = validatePackageInput(body.package);
+        if (errors.length > 0) {
+          return fail('Invalid package', ErrorCode.VALIDATION_ERROR, 400, errors);
+        }
+
+        const input = body.package!;
+        const row = {
+          edition_id: input.edition_id || null,
+          label: input.label!.trim(),
+          amount: input.amount,
+          bonus_amount: input.bonus_amount ?? 0,
+          sort_order: input.sort_order ?? 0,
+          is_active: input.is_active ?? true,
+          updated_at: new Date().toISOString(),
+        };
+
+        const query = input.id
+          ? supabaseAdmin.from('recharge_packages').update(row).eq('id', input.id)
+          : supabaseAdmin.from('recharge_packages').insert({ ...row, created_by: user.id });
+        const { data, error } = await query.select().maybeSingle();
+        if (error) {
+          console.error(`[${requestId}] Failed to save recharge package:`, error);
+          return fail('Failed to save recharge package', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+        if (!data) {
+          return fail('Recharge package not found', ErrorCode.PACKAGE_NOT_FOUND, 404);
+        }
+
+        console.log(`[${requestId}] Recharge package saved: ${data.id}`);
+        return respond({ success: true, package: data }, input.id ? 200 : 201);
+      }
+
+      case 'save_promo': {
+        const errors = validatePromoInput(body.promo);
+        if (errors.length > 0) {
+          return fail('Invalid promo code', ErrorCode.VALIDATION_ERROR, 400, errors);
+        }
+
+        // Codes are the primary key: saving an existing code edits it, uses_count is kept
+        const input = body.promo!;
+        const { data, error } = await supabaseAdmin
+          .from('promo_codes')
+          .upsert({
+            code: normalizePromoCode(input.code),
+            description: input.description?.trim() || null,
+            edition_id: input.edition_id || null,
+            bonus_type: input.bonus_type,
+            bonus_value: input.bonus_value,
+            max_bonus: input.max_bonus ?? null,
+            min_amount: input.min_amount ?? 0,
+            max_uses: input.max_uses ?? null,
+            max_uses_per_card: input.max_uses_per_card ?? null,
+            valid_from: input.valid_from || null,
+            valid_until: input.valid_until || null,
+            is_active: input.is_active ?? true,
+            created_by: user.id,
+            updated_at: new Date().toISOString(),
+          }, { onConflict: 'code' })
+          .select()
+          .single();
+        if (error) {
+          console.error(`[${requestId}] Failed to save promo code:`, error);
+          return fail('Failed to save promo code', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+
+        console.log(`[${requestId}] Promo code saved: ${data.code}`);
+        return respond({ success: true, promo: data }, 200);
+      }
+    }
+
+    return fail('Unsupported action', ErrorCode.INVALID_REQUEST, 400);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== RECHARGE OFFERS COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
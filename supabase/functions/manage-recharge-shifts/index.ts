@@ -0,0 +1,275 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+
+/**
+ * Recharge Desk Shifts Edge Function
+ *
+ * Opens and closes cash drawer shifts for recharge desk operators and lets
+ * admins resolve cash discrepancies.
+ *
+ * Key Features:
+ * - current: the caller's open shift with its running cash and card totals
+ * - open: starts a shift with the opening float (one open shift per operator)
+ * - close: records the counted cash; expected cash is the float plus the cash
+ *   recharges of the shift, any difference flags the shift
+ * - resolve (supervise_recharge_shifts): explains a flagged discrepancy and resolves its
+ *   monitoring event
+ * - Operators may only close their own shift; supervisors (admins by
+ *   default) may close any shift
+ */
+
+type ShiftAction = 'current' | 'open' | 'close' | 'resolve';
+
+interface ShiftRequest {
+  action: ShiftAction;
+  shift_id?: number;
+  opening_float?: number;
+  counted_cash?: number;
+  desk_label?: string;
+  notes?: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  SHIFT_NOT_FOUND = 'SHIFT_NOT_FOUND',
+  SHIFT_ALREADY_OPEN = 'SHIFT_ALREADY_OPEN',
+  SHIFT_ALREADY_CLOSED = 'SHIFT_ALREADY_CLOSED',
+  NO_DISCREPANCY = 'NO_DISCREPANCY',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+const VALID_ACTIONS: ShiftAction[] = ['current', 'open', 'close', 'resolve'];
+const MAX_AMOUNT = 100000;
+const MAX_NOTES_LENGTH = 500;
+
+const isValidAmount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_AMOUNT;
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== RECHARGE SHIFT MANAGEMENT STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted operate_recharge_shifts or supervise_recharge_shifts
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    const canSupervise = can(access, PERMISSIONS.SUPERVISE_RECHARGE_SHIFTS);
+    if (!canSupervise && !can(access, PERMISSIONS.OPERATE_RECHARGE_SHIFTS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to manage shifts. Role: ${roleOf(access)}`);
+      return fail('operate_recharge_shifts permission required', ErrorCode.FORBIDDEN, 403);
+    }
+
+    // Parse and validate request body
+    let body: ShiftRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!body || !VALID_ACTIONS.includes(body.action)) {
+      return fail(`action must be one of: ${VALID_ACTIONS.join(', ')}`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const notes = typeof body.notes === 'string' ? body.notes.trim() : '';
+    if (notes.length > MAX_NOTES_LENGTH) {
+      return fail(`notes must be at most ${MAX_NOTES_LENGTH} characters`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    console.log(`[${requestId}] Action: ${body.action}, shift: ${body.shift_id ?? '-'}, user: ${user.id}`);
+
+    // Maps stored procedure exceptions to error codes
+    const failFromProcedure = (procedureError: { message: string }) => {
+      const message = procedureError.message.toLowerCase();
+      console.error(`[${requestId}] Stored procedure error: ${procedureError.message}`);
+
+      if (message.includes('shift already open')) {
+        return fail('A shift is already open for this operator', ErrorCode.SHIFT_ALREADY_OPEN, 409);
+      }
+      if (message.includes('shift already closed')) {
+        return fail('This shift is already closed', ErrorCode.SHIFT_ALREADY_CLOSED, 409);
+      }
+      if (message.includes('shift not found')) {
+        return fail('Shift not found', ErrorCode.SHIFT_NOT_FOUND, 404);
+      }
+      if (message.includes('no discrepancy')) {
+        return fail('This shift has no discrepancy to resolve', ErrorCode.NO_DISCREPANCY, 409);
+      }
+      if (message.includes('invalid')) {
+        return fail(procedureError.message, ErrorCode.INVALID_REQUEST, 400);
+      }
+      return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, procedureError.message);
+    };
+
+    switch (body.action) {
+      case 'current': {
+        const { data: shift, error } = await supabaseAdmin
+          .from('recharge_shifts')
+          .select('*')
+          .eq('operator_id', user.id)
+          .eq('status', 'open')
+          .maybeSingle();
+
+        if (error) {
+          console.error(`[${requestId}] Failed to load open shift:`, error);
+          return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, error.message);
+        }
+        if (!shift) {
+          return respond({ success: true, shift: null }, 200);
+        }
+
+        const { data: totals, error: totalsError } = await supabaseAdmin
+          .rpc('get_recharge_shift_totals', { shift_id_in: shift.id });
+
+        if (totalsError) {
+          console.error(`[${requestId}] Failed to compute shift totals:`, totalsError);
+          return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, totalsError.message);
+        }
+
+        return respond({ success: true, shift, totals }, 200);
+      }
+
+      case 'open': {
+        if (!isValidAmount(body.opening_float)) {
+          return fail('opening_float must be a positive amount', ErrorCode.INVALID_REQUEST, 400);
+        }
+
+        const { data: result, error } = await supabaseAdmin.rpc('sp_open_recharge_shift', {
+          operator_id_in: user.id,
+          opening_float_in: body.opening_float,
+          desk_label_in: typeof body.desk_label === 'string' ? body.desk_label.slice(0, 50) : null,
+        });
+
+        if (error) {
+          return failFromProcedure(error);
+        }
+
+        console.log(`[${requestId}] Shift ${result.shift.id} opened with float €${body.opening_float}`);
+        return respond(result, 200);
+      }
+
+      case 'close': {
+        if (!Number.isInteger(body.shift_id)) {
+          return fail('shift_id is required', ErrorCode.INVALID_REQUEST, 400);
+        }
+        if (!isValidAmount(body.counted_cash)) {
+          return fail('counted_cash must be a positive amount', ErrorCode.INVALID_REQUEST, 400);
+        }
+
+        if (!canSupervise) {
+          const { data: shift } = await supabaseAdmin
+            .from('recharge_shifts')
+            .select('operator_id')
+            .eq('id', body.shift_id)
+            .maybeSingle();
+
+          if (shift && shift.operator_id !== user.id) {
+            console.warn(`[${requestId}] User ${user.id} tried to close shift ${body.shift_id} of ${shift.operator_id}`);
+            return fail('Only the operator of a shift or a supervisor may close it', ErrorCode.FORBIDDEN, 403);
+          }
+        }
+
+        const { data: result, error } = await supabaseAdmin.rpc('sp_close_recharge_shift', {
+          shift_id_in: body.shift_id,
+          counted_cash_in: body.counted_cash,
+          closing_notes_in: notes || null,
+          closed_by_in: user.id,
+        });
+
+        if (error) {
+          return failFromProcedure(error);
+        }
+
+        console.log(`[${requestId}] Shift ${body.shift_id} closed: expected €${result.shift.expected_cash}, counted €${result.shift.counted_cash}, discrepancy €${result.shift.discrepancy}`);
+        return respond(result, 200);
+      }
+
+      case 'resolve': {
+        if (!canSupervise) {
+          return fail('supervise_recharge_shifts permission required to resolve a discrepancy', ErrorCode.FORBIDDEN, 403);
+        }
+        if (!Number.isInteger(body.shift_id)) {
+          return fail('shift_id is required', ErrorCode.INVALID_REQUEST, 400);
+        }
+        if (!notes) {
+          return fail('notes are required to resolve a discrepancy', ErrorCode.INVALID_REQUEST, 400);
+        }
+
+        const { data: result, error } = await supabaseAdmin.rpc('sp_resolve_shift_discrepancy', {
+          shift_id_in: body.shift_id,
+          resolution_notes_in: notes,
+          resolved_by_in: user.id,
+        });
+
+        if (error) {
+          return failFromProcedure(error);
+        }
+
+        console.log(`[${requestId}] Discrepancy on shift ${body.shift_id} resolved`);
+        return respond(result, 200);
+      }
+    }
+
+    return fail('Unsupported action', ErrorCode.INVALID_REQUEST, 400);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== RECHARGE SHIFT MANAGEMENT COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
@@ -0,0 +1,148 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+
+/**
+ * Role Permissions Management Edge Function
+ *
+ * Edits the role → permission grants of the RBAC model. Staff read the
+ * grants straight from role_permissions; changes go through this function.
+ *
+ * Key Features:
+ * - Replaces the full permission list of one role via sp_set_role_permissions
+ * - Unknown roles and permissions are rejected
+ * - The admin role always keeps manage_users so the grants stay editable
+ * - Every change is recorded in role_permission_history with the editor
+ */
+
+interface RolePermissionsRequest {
+  role: string;
+  permissions: string[];
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  ROLE_NOT_FOUND = 'ROLE_NOT_FOUND',
+  UNKNOWN_PERMISSION = 'UNKNOWN_PERMISSION',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+const ROLE_NAME_PATTERN = /^[a-z_]{1,40}$/;
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== ROLE PERMISSIONS UPDATE STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted manage_users may edit the grants
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.MANAGE_USERS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to edit role permissions. Role: ${roleOf(access)}`);
+      return fail('manage_users permission required to edit role permissions', ErrorCode.FORBIDDEN, 403);
+    }
+
+    // Parse and validate request body
+    let body: RolePermissionsRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!body || typeof body.role !== 'string' || !ROLE_NAME_PATTERN.test(body.role)) {
+      return fail('role is required', ErrorCode.INVALID_REQUEST, 400);
+    }
+    if (!Array.isArray(body.permissions) || body.permissions.some(permission => typeof permission !== 'string')) {
+      return fail('permissions must be a list of permission names', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const permissions = [...new Set(body.permissions)].sort();
+    console.log(`[${requestId}] Role: ${body.role}, permissions: [${permissions.join(', ')}], user: ${user.id}`);
+
+    const { data: result, error } = await supabaseAdmin.rpc('sp_set_role_permissions', {
+      role_in: body.role,
+      permissions_in: permissions,
+      granted_by_in: user.id,
+    });
+
+    if (error) {
+      const message = error.message.toLowerCase();
+      console.error(`[${requestId}] Stored procedure error: ${error.message}`);
+
+      if (message.includes('role not found')) {
+        return fail('Role not found', ErrorCode.ROLE_NOT_FOUND, 404);
+      }
+      if (message.includes('unknown permissions')) {
+        return fail('Unknown permissions', ErrorCode.UNKNOWN_PERMISSION, 400, error.message);
+      }
+      if (message.includes('must keep manage_users')) {
+        return fail('The admin role must keep the manage_users permission', ErrorCode.VALIDATION_ERROR, 400);
+      }
+      return fail('Failed to update role permissions', ErrorCode.DATABASE_ERROR, 500, error.message);
+    }
+
+    console.log(`[${requestId}] Role ${body.role} now has ${result.permissions.length} permissions`);
+    return respond(result, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== ROLE PERMISSIONS UPDATE COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
@@ -27,11 +27,24 @@ interface MonitoringDetectionCycleResult {
     balance_discrepancies: any;
     duplicate_nfc_scans: any;
     race_conditions: any;
+    cash_drawer_discrepancies: { events_created: number; error?: string };
   };
   success: boolean;
   errors?: string[];
 }
 
+// Returned by reconcile_card_ledger() and read back from card_ledger_reconciliations
+interface LedgerReconciliationSummary {
+  success: boolean;
+  reconciliation_id: number | null;
+  reconciled_at?: string | null;
+  cards_checked: number;
+  balance_mismatches: number;
+  negative_balances: number;
+  total_drift: number;
+  events_created: number;
+}
+
 interface CircuitBreakerState {
   state: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
   failure_count: number;
@@ -45,6 +58,7 @@ interface MonitoringConfig {
     medium_checks: number;
     health_checks: number;
     cleanup: number;
+    ledger_reconciliation: number;
   };
   circuit_breaker: {
     failure_threshold: number;
@@ -64,6 +78,7 @@ const MONITORING_CONFIG: MonitoringConfig = {
     medium_checks: 120000,       // 2 minutes
     health_checks: 300000,       // 5 minutes
     cleanup: 3600000,            // 1 hour
+    ledger_reconciliation: 86400000, // 24 hours
   },
   circuit_breaker: {
     failure_threshold: 5,
@@ -73,6 +88,10 @@ const MONITORING_CONFIG: MonitoringConfig = {
   },
 };
 
+// The nightly ledger reconciliation runs at 04:00 Brussels time (02:00 UTC in
+// summer), after the bars have closed
+const LEDGER_RECONCILIATION_HOUR_UTC = 2;
+
 // =====================================================
 // CIRCUIT BREAKER IMPLEMENTATION
 // =====================================================
@@ -231,11 +250,13 @@ class MonitoringService {
           balanceResult,
           nfcResult,
           raceResult,
+          cashDrawerResult,
         ] = await Promise.allSettled([
           this.executeDetectionFunction('detect_transaction_failures'),
-          this.executeDetectionFunction('detect_balance_discrepancies'),
+          this.getLatestLedgerReconciliation(),
           this.executeDetectionFunction('detect_duplicate_nfc_scans'),
           this.executeDetectionFunction('detect_race_conditions'),
+          this.executeDetectionFunction('detect_cash_drawer_discrepancies'),
         ]);
 
         // Process results
@@ -244,6 +265,7 @@ class MonitoringService {
           balance_discrepancies: this.processResult(balanceResult, 'balance_discrepancies'),
           duplicate_nfc_scans: this.processResult(nfcResult, 'duplicate_nfc_scans'),
           race_conditions: this.processResult(raceResult, 'race_conditions'),
+          cash_drawer_discrepancies: this.processResult(cashDrawerResult, 'cash_drawer_discrepancies'),
         };
 
         // Calculate total events created
@@ -281,6 +303,7 @@ class MonitoringService {
             balance_discrepancies: { error: error.message, events_created: 0 },
             duplicate_nfc_scans: { error: error.message, events_created: 0 },
             race_conditions: { error: error.message, events_created: 0 },
+            cash_drawer_discrepancies: { error: error.message, events_created: 0 },
           },
           success: false,
           errors: [error.message],
@@ -307,6 +330,43 @@ class MonitoringService {
     }
   }
 
+  /**
+   * Exact per-card comparison of card balances with the card ledger. Replaces
+   * the heuristic balance check; run nightly and on demand.
+   */
+  async reconcileLedger(): Promise<LedgerReconciliationSummary> {
+    return await this.circuitBreaker.execute(() => this.executeDetectionFunction('reconcile_card_ledger'));
+  }
+
+  /**
+   * Latest ledger reconciliation run, reported by every detection cycle
+   * without running a new comparison
+   */
+  private async getLatestLedgerReconciliation(): Promise<LedgerReconciliationSummary> {
+    const { data, error } = await this.supabase
+      .from('card_ledger_reconciliations')
+      .select('id, completed_at, cards_checked, mismatched_cards, negative_balances, total_drift')
+      .not('completed_at', 'is', null)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Ledger reconciliation lookup failed: ${error.message}`);
+    }
+
+    return {
+      success: true,
+      events_created: 0,
+      reconciliation_id: data?.id ?? null,
+      reconciled_at: data?.completed_at ?? null,
+      cards_checked: data?.cards_checked ?? 0,
+      balance_mismatches: data?.mismatched_cards ?? 0,
+      negative_balances: data?.negative_balances ?? 0,
+      total_drift: data?.total_drift ?? 0,
+    };
+  }
+
   /**
    * Create system health snapshot
    */
@@ -464,6 +524,31 @@ async function handleMonitoringCycle(): Promise<Response> {
   }
 }
 
+/**
+ * Handle ledger reconciliation requests
+ */
+async function handleLedgerReconciliation(): Promise<Response> {
+  try {
+    const result = await monitoringService.reconcileLedger();
+
+    return new Response(JSON.stringify({ ...result, timestamp: new Date().toISOString() }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 200,
+    });
+  } catch (error) {
+    console.error('Ledger reconciliation handler error:', error);
+
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString(),
+    }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 500,
+    });
+  }
+}
+
 /**
  * Handle health check requests
  */
@@ -609,6 +694,16 @@ serve(async (req) => {
         }
         break;
 
+      case '/reconcile-ledger':
+        if (method === 'POST') {
+          const response = await handleLedgerReconciliation();
+          Object.entries(corsHeaders).forEach(([key, value]) => {
+            response.headers.set(key, value);
+          });
+          return response;
+        }
+        break;
+
       case '/health':
         if (method === 'GET') {
           const response = await handleHealthCheck();
@@ -645,6 +740,7 @@ serve(async (req) => {
           message: 'Endpoint not found',
           available_endpoints: [
             'POST /cycle - Run monitoring detection cycle',
+            'POST /reconcile-ledger - Compare card balances with the card ledger',
             'GET /health - Get system health status',
             'GET /events - Get monitoring events',
             'GET /status - Get service status',
@@ -682,6 +778,18 @@ serve(async (req) => {
 // BACKGROUND SCHEDULING INTEGRATION
 // =====================================================
 
+/**
+ * Delay until the next occurrence of the given UTC hour
+ */
+function millisecondsUntilUtcHour(hour: number): number {
+  const now = new Date();
+  const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hour));
+  if (next.getTime() <= now.getTime()) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+  return next.getTime() - now.getTime();
+}
+
 /**
  * Initialize background scheduling if running in production
  */
@@ -717,6 +825,22 @@ async function initializeBackgroundScheduling() {
       }
     }, MONITORING_CONFIG.intervals.health_checks);
     
+    // Reconcile card balances with the ledger every night
+    const runLedgerReconciliation = async () => {
+      try {
+        console.log('Running scheduled ledger reconciliation...');
+        const result = await monitoringService.reconcileLedger();
+        console.log(`Ledger reconciliation completed: ${result.balance_mismatches} mismatched cards, ${result.events_created} events created`);
+      } catch (error) {
+        console.error('Error in scheduled ledger reconciliation:', error);
+      }
+    };
+
+    setTimeout(() => {
+      runLedgerReconciliation();
+      setInterval(runLedgerReconciliation, MONITORING_CONFIG.intervals.ledger_reconciliation);
+    }, millisecondsUntilUtcHour(LEDGER_RECONCILIATION_HOUR_UTC));
+
     console.log('Background monitoring scheduling initialized successfully');
   } else {
     console.log('Background scheduling disabled in development mode');
@@ -0,0 +1,157 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  createPaymentProvider,
+  isPaymentProviderId,
+  settleRecharge,
+  MOCK_SIGNATURE_HEADER,
+} from '../_shared/payment-providers.ts'
+
+/**
+ * Payment Provider Webhook Edge Function
+ *
+ * Settles online recharges paid through providers other than Stripe, which
+ * keeps its own stripe-webhook endpoint (refunds, disputes, expired sessions).
+ *
+ * Key Features:
+ * - Provider selected by the `provider` query parameter (e.g. ?provider=mock)
+ * - Signature verified by the provider before anything is read
+ * - Paid sessions credited through sp_process_provider_recharge, which records
+ *   the provider in recharges.payment_method
+ * - Redelivered sessions are acknowledged without crediting twice
+ * - Payments for inactive cards are recorded for manual refund with a 2xx so
+ *   the provider stops retrying
+ */
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  UNSUPPORTED_PROVIDER = 'UNSUPPORTED_PROVIDER',
+  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+  INVALID_EVENT = 'INVALID_EVENT',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR'
+}
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== PAYMENT WEBHOOK STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': `authorization, x-client-info, apikey, content-type, ${MOCK_SIGNATURE_HEADER}`,
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    const providerId = new URL(req.url).searchParams.get('provider');
+    if (!isPaymentProviderId(providerId) || providerId === 'stripe') {
+      console.warn(`[${requestId}] Unsupported provider: ${providerId}`);
+      return fail('Unsupported payment provider. Stripe events go to stripe-webhook.', ErrorCode.UNSUPPORTED_PROVIDER, 400);
+    }
+
+    const provider = createPaymentProvider(providerId);
+
+    const body = await req.text();
+    if (!body) {
+      return fail('Empty request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    let event: unknown;
+    try {
+      event = await provider.verifyWebhook(body, req.headers);
+    } catch (error) {
+      console.warn(`[${requestId}] ${providerId} signature rejected:`, error.message);
+      return fail(error.message, ErrorCode.INVALID_SIGNATURE, 400);
+    }
+
+    const parsed = provider.toSettlement(event);
+
+    if (parsed.kind === 'ignore') {
+      console.log(`[${requestId}] Ignoring ${providerId} event: ${parsed.eventType}`);
+      return respond({ success: true, received: true, message: 'Event type not processed', event_type: parsed.eventType }, 200);
+    }
+
+    if (parsed.kind === 'invalid') {
+      console.error(`[${requestId}] Invalid ${providerId} event: ${parsed.error}`);
+      return fail(parsed.error, ErrorCode.INVALID_EVENT, 400, parsed.details);
+    }
+
+    const { settlement } = parsed;
+    console.log(`[${requestId}] Settling ${providerId} session ${settlement.sessionId}: card=${settlement.cardId}, amount=${settlement.amount}`);
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    let outcome;
+    try {
+      outcome = await settleRecharge(supabaseAdmin, providerId, settlement);
+    } catch (error) {
+      console.error(`[${requestId}] Settlement failed:`, error.message);
+      return fail('Failed to process recharge', ErrorCode.DATABASE_ERROR, 500, error.message);
+    }
+
+    console.log(`[${requestId}] Settlement outcome: ${outcome.status} (card ${outcome.cardId})`);
+    console.log(`[${requestId}] ===== PAYMENT WEBHOOK COMPLETED in ${Date.now() - startTime}ms =====`);
+
+    switch (outcome.status) {
+      case 'not_credited':
+        return respond({
+          success: true,
+          received: true,
+          credited: false,
+          message: 'Card not active - payment recorded for manual refund',
+          card_status: outcome.cardStatus,
+          session_id: settlement.sessionId,
+        }, 200);
+      case 'duplicate':
+        return respond({
+          success: true,
+          received: true,
+          message: 'Duplicate session - already processed',
+          session_id: settlement.sessionId,
+        }, 200);
+      default:
+        return respond({
+          success: true,
+          received: true,
+          credited: true,
+          card_id: outcome.cardId,
+          amount: settlement.amount,
+          session_id: settlement.sessionId,
+          result: outcome.result,
+        }, 200);
+    }
+
+  } catch (error) {
+    console.error(`[${requestId}] ===== PAYMENT WEBHOOK FAILED =====`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error.message);
+  }
+});
@@ -1,5 +1,9 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { securityMiddleware } from '../../../src/lib/security-middleware.ts'
+import { toMiddlewareRequest } from '../_shared/card-secret.ts'
+import { enableDatabaseRateLimitStore } from '../_shared/rate-limit-store.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
 
 /**
  * Phase 2 Enhanced Bar Order Processing Edge Function
@@ -8,7 +12,11 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
  * - Atomic operations via stored procedure sp_process_bar_order
  * - Mandatory client_request_id for idempotency protection
  * - Comprehensive input validation and error handling
+ * - Callers must be signed in with the access_bar permission
  * - Race condition prevention through database-level locking
+ * - Blocked, lost and retired cards are rejected
+ * - Per-card rate limiting (SecurityConfig.rateLimiting.pointOfSale), shared
+ *   by all instances
  * - Detailed logging and request tracing
  */
 
@@ -43,12 +51,20 @@ interface BarOrderResponse {
 enum ErrorCode {
   INVALID_REQUEST = 'INVALID_REQUEST',
   CARD_NOT_FOUND = 'CARD_NOT_FOUND',
+  CARD_NOT_ACTIVE = 'CARD_NOT_ACTIVE',
+  POINT_OF_SALE_NOT_FOUND = 'POINT_OF_SALE_NOT_FOUND',
   INSUFFICIENT_FUNDS = 'INSUFFICIENT_FUNDS',
   DUPLICATE_REQUEST = 'DUPLICATE_REQUEST',
+  RATE_LIMITED = 'RATE_LIMITED',
   DATABASE_ERROR = 'DATABASE_ERROR',
-  SERVER_ERROR = 'SERVER_ERROR'
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
 }
 
+// Order counters go to rate_limit_hits, shared by all instances
+enableDatabaseRateLimitStore();
+
 serve(async (req) => {
   // Generate unique request ID for comprehensive logging and traceability
   const requestId = crypto.randomUUID();
@@ -95,6 +111,54 @@ serve(async (req) => {
       );
     }
 
+    // Security check - only signed-in users granted access_bar may debit cards
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Authorization header required. Use Bearer <token>',
+          error_code: ErrorCode.UNAUTHORIZED
+        }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status: 401 }
+      );
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Invalid or expired authentication token',
+          error_code: ErrorCode.UNAUTHORIZED
+        }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status: 401 }
+      );
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.ACCESS_BAR)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to take bar orders. Role: ${roleOf(access)}`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'access_bar permission required to take bar orders',
+          error_code: ErrorCode.FORBIDDEN
+        }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status: 403 }
+      );
+    }
+
     // Parse and validate request body
     let requestBody: BarOrderRequest;
     try {
@@ -208,12 +272,77 @@ serve(async (req) => {
       );
     }
 
-    // Create Supabase client with service role for database operations
-    const supabaseAdmin = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
-      { auth: { persistSession: false } }
-    );
+    // Terminals share an IP, so orders are counted per card
+    const security = await securityMiddleware.processRequest(toMiddlewareRequest(req), {
+      rateLimitTier: 'pointOfSale',
+      rateLimitKey: card_id.trim(),
+    });
+    if (!security.success) {
+      console.warn(`[${requestId}] Rejected by security middleware: ${security.error}`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: security.error || 'Request rejected',
+          error_code: ErrorCode.RATE_LIMITED
+        }),
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'Retry-After': String(Math.ceil((security.retryAfterMs ?? 60000) / 1000)),
+            ...corsHeaders
+          },
+          status: security.statusCode || 429
+        }
+      );
+    }
+
+    // Orders must reference a configured point of sale so they can be reported on.
+    // Inactive points of sale are still accepted so queued offline orders can be replayed.
+    const { data: pointOfSale, error: pointOfSaleError } = await supabaseAdmin
+      .from('points_of_sale')
+      .select('id, name, is_active')
+      .eq('id', point_of_sale)
+      .maybeSingle();
+
+    if (pointOfSaleError) {
+      console.warn(`[${requestId}] Could not verify point of sale ${point_of_sale}:`, pointOfSaleError.message);
+    } else if (!pointOfSale) {
+      console.error(`[${requestId}] Unknown point of sale: ${point_of_sale}`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Unknown point of sale. Please select the bar again.',
+          error_code: ErrorCode.POINT_OF_SALE_NOT_FOUND,
+          request_id: requestId
+        }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status: 400 }
+      );
+    } else if (!pointOfSale.is_active) {
+      console.warn(`[${requestId}] Order recorded on inactive point of sale: ${pointOfSale.name}`);
+    }
+
+    // Blocked, lost and retired cards cannot pay. The database trigger on
+    // table_cards enforces this atomically; checking first gives a clear error.
+    const { data: cardState } = await supabaseAdmin
+      .from('table_cards')
+      .select('status, replaced_by')
+      .eq('id', card_id.trim())
+      .maybeSingle();
+
+    if (cardState && cardState.status !== 'active') {
+      console.warn(`[${requestId}] Card ${card_id} is ${cardState.status}, order rejected`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Card is ${cardState.status} and cannot be used for payment.`,
+          error_code: ErrorCode.CARD_NOT_ACTIVE,
+          card_status: cardState.status,
+          replaced_by: cardState.replaced_by,
+          request_id: requestId
+        }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status: 403 }
+      );
+    }
 
     console.log(`[${requestId}] ===== CALLING ATOMIC STORED PROCEDURE =====`);
     console.log(`[${requestId}] Procedure: sp_process_bar_order_with_debouncing`);
@@ -256,6 +385,10 @@ serve(async (req) => {
         errorCode = ErrorCode.CARD_NOT_FOUND;
         userFriendlyMessage = 'Card not found. Please verify the card ID.';
         httpStatus = 404;
+      } else if (errorMessage.includes('card not active')) {
+        errorCode = ErrorCode.CARD_NOT_ACTIVE;
+        userFriendlyMessage = 'Card is blocked and cannot be used for payment.';
+        httpStatus = 403;
       } else if (errorMessage.includes('insufficient funds')) {
         errorCode = ErrorCode.INSUFFICIENT_FUNDS;
         userFriendlyMessage = 'Insufficient funds on card for this transaction.';
@@ -358,6 +491,9 @@ serve(async (req) => {
       } else if (result.error?.includes('Card not found')) {
         errorCode = ErrorCode.CARD_NOT_FOUND;
         httpStatus = 404; // Not Found
+      } else if (result.error?.includes('Card not active')) {
+        errorCode = ErrorCode.CARD_NOT_ACTIVE;
+        httpStatus = 403;
       }
       
       console.log(`[${requestId}] Returning business error: ${errorCode}`);
@@ -0,0 +1,186 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { CARD_ID_PATTERN } from '../_shared/card-secret.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+import { checkStepUp } from '../_shared/step-up.ts'
+
+/**
+ * Manual Balance Adjustment Edge Function
+ *
+ * Credits or debits a card outside of recharges and bar orders: cash
+ * deposits and withdrawals at the cashier, corrections by admins.
+ *
+ * Key Features:
+ * - Users granted adjust_balances only (recharge desk and admins by default)
+ * - Requires a two-factor code confirmed within stepUpMaxAge (step-up,
+ *   see verify-step-up)
+ * - Mandatory reason, recorded with the operator in card_adjustments
+ * - Atomic update through sp_process_manual_adjustment: the card row is
+ *   locked, the balance cannot go negative and the card must be active
+ * - Journalled in the card ledger as an 'adjustment' entry
+ * - Idempotent via client_request_id
+ */
+
+interface AdjustmentRequest {
+  card_id: string;
+  amount: number;
+  reason: string;
+  client_request_id: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  CARD_NOT_FOUND = 'CARD_NOT_FOUND',
+  CARD_NOT_ACTIVE = 'CARD_NOT_ACTIVE',
+  INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN',
+  STEP_UP_REQUIRED = 'STEP_UP_REQUIRED'
+}
+
+const MAX_ADJUSTMENT = 1000;
+const MAX_REASON_LENGTH = 200;
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== MANUAL ADJUSTMENT STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted adjust_balances
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.ADJUST_BALANCES)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to adjust balances. Role: ${roleOf(access)}`);
+      return fail('adjust_balances permission required', ErrorCode.FORBIDDEN, 403);
+    }
+
+    const stepUp = await checkStepUp(supabaseAdmin, user.id);
+    if (stepUp.kind !== 'fresh') {
+      console.warn(`[${requestId}] User ${user.id} has no recent two-factor confirmation (${stepUp.kind})`);
+      return fail('A recent two-factor confirmation is required to adjust balances', ErrorCode.STEP_UP_REQUIRED, 403);
+    }
+
+    const role = roleOf(access);
+
+    // Parse and validate request body
+    let body: AdjustmentRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const cardId = typeof body?.card_id === 'string' ? body.card_id.trim() : '';
+    if (!CARD_ID_PATTERN.test(cardId)) {
+      return fail('card_id is required', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const amount = body.amount;
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount === 0 || Math.abs(amount) > MAX_ADJUSTMENT) {
+      return fail(`amount must be a non-zero amount of at most ${MAX_ADJUSTMENT}`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (!reason) {
+      return fail('reason is required for a manual adjustment', ErrorCode.INVALID_REQUEST, 400);
+    }
+    if (reason.length > MAX_REASON_LENGTH) {
+      return fail(`reason must be at most ${MAX_REASON_LENGTH} characters`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!body.client_request_id || typeof body.client_request_id !== 'string') {
+      return fail('client_request_id is required', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    console.log(`[${requestId}] Card: ${cardId}, amount: €${amount}, user: ${user.id} (${role}), client request: ${body.client_request_id}`);
+
+    const { data: result, error } = await supabaseAdmin.rpc('sp_process_manual_adjustment', {
+      card_id_in: cardId,
+      amount_in: amount,
+      reason_in: reason,
+      client_request_id_in: body.client_request_id,
+      performed_by_in: user.id,
+      performer_role_in: role,
+    });
+
+    if (error) {
+      const message = error.message.toLowerCase();
+      console.error(`[${requestId}] Stored procedure error: ${error.message}`);
+
+      if (message.includes('card not found')) {
+        return fail('Card not found', ErrorCode.CARD_NOT_FOUND, 404);
+      }
+      if (message.includes('card not active')) {
+        return fail('This card is not active', ErrorCode.CARD_NOT_ACTIVE, 409, error.message);
+      }
+      if (message.includes('insufficient balance')) {
+        return fail('Insufficient balance for this withdrawal', ErrorCode.INSUFFICIENT_BALANCE, 409, error.message);
+      }
+      if (message.includes('invalid')) {
+        return fail(error.message, ErrorCode.INVALID_REQUEST, 400);
+      }
+      return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, error.message);
+    }
+
+    console.log(`[${requestId}] Card ${cardId}: €${result.previous_balance} → €${result.new_balance}${result.duplicate ? ' (replayed)' : ''}`);
+    return respond(result, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== MANUAL ADJUSTMENT COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
@@ -1,5 +1,19 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  BankProfile,
+  BankProfileId,
+  PainVersion,
+  PAIN_NAMESPACES,
+  getBankProfile,
+  isAllowedText,
+  isValidSepaIBAN,
+  normalizeIBAN,
+  sanitizeForProfile,
+} from '../../../src/lib/sepa-bank-profiles.ts'
+import { SchemaViolation, validatePain001 } from '../_shared/pain001-validator.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+import { checkStepUp } from '../_shared/step-up.ts'
 
 /**
  * Process Refunds API Endpoint
@@ -10,11 +24,24 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
  * 
  * Key Features:
  * - Calls generate-refund-data function to retrieve validated refund data
- * - Uses CBCXMLGenerator service to generate CBC-compatible XML
+ * - Only includes refunds approved in the admin review queue (status
+ *   validated) and marks them exported once the XML is generated
+ * - Records each file in refund_batches (message id, totals, refunds, exact
+ *   XML) together with the EndToEndId of every transfer, used to reconcile
+ *   bank statements; no file is returned if the batch cannot be recorded
+ * - Uses CBCXMLGenerator service to generate pain.001.001.03 or
+ *   pain.001.001.09 XML for the selected bank profile (CBC, KBC, Belfius,
+ *   ING or generic EPC); refunds to foreign European IBANs are accepted
+ * - Validates every file against the bundled pain.001 XSD before it is
+ *   recorded or returned; schema errors are reported as XMLValidationError
+ * - Dry run mode generates and validates the file and returns the report
+ *   without recording the batch or marking refunds exported
  * - Returns XML file as downloadable response with proper headers
  * - Comprehensive error handling for all failure scenarios
  * - Proper logging and monitoring
- * - Admin authentication required
+ * - Requires a user session granted the generate_xml permission
+ * - Generating a file (not a dry run) also requires a two-factor code
+ *   confirmed within stepUpMaxAge (step-up, see verify-step-up)
  * - Rate limiting and security measures
  * 
  * API Specification:
@@ -45,6 +72,8 @@ interface ProcessRefundsRequest {
     charge_bearer?: 'SLEV' | 'SHAR';
     batch_booking?: boolean;
     requested_execution_date?: string;
+    bank_profile?: BankProfileId;
+    pain_version?: PainVersion;
   };
   processing_options?: {
     max_refunds?: number;
@@ -61,6 +90,8 @@ interface ValidatedRefundRecord {
   account: string;
   email: string;
   id_card: string;
+  status: 'submitted' | 'validated';
+  tracking_ref: string;
   amount_recharged: number;
   card_exists: boolean;
   validation_status: 'valid' | 'warning' | 'error';
@@ -99,6 +130,7 @@ interface ProcessRefundsResponse {
       xml_generation_time_ms: number;
       total_processing_time_ms: number;
     };
+    schema_validation?: SchemaValidationReport;
   };
   error?: string;
   error_code?: string;
@@ -106,45 +138,106 @@ interface ProcessRefundsResponse {
   request_id: string;
 }
 
+// Error types for XML generation (mirrors src/lib/xml-generator.ts)
+enum XMLErrorType {
+  INVALID_IBAN = 'INVALID_IBAN',
+  INVALID_AMOUNT = 'INVALID_AMOUNT',
+  MISSING_REQUIRED_FIELD = 'MISSING_REQUIRED_FIELD',
+  INVALID_CHARACTER_SET = 'INVALID_CHARACTER_SET',
+  CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
+  XML_GENERATION_ERROR = 'XML_GENERATION_ERROR',
+  SCHEMA_VALIDATION_ERROR = 'SCHEMA_VALIDATION_ERROR'
+}
+
+interface XMLValidationError {
+  field: string;
+  value: string | null;
+  error_message: string;
+  refund_id?: number;
+  error_type?: XMLErrorType;
+}
+
+interface SchemaValidationReport {
+  valid: boolean;
+  pain_version: PainVersion;
+  errors: XMLValidationError[];
+}
+
 // Error codes for categorization
 enum ErrorCode {
   INVALID_REQUEST = 'INVALID_REQUEST',
   UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN',
+  STEP_UP_REQUIRED = 'STEP_UP_REQUIRED',
   VALIDATION_ERROR = 'VALIDATION_ERROR',
   NO_REFUNDS_AVAILABLE = 'NO_REFUNDS_AVAILABLE',
   REFUND_DATA_ERROR = 'REFUND_DATA_ERROR',
   XML_GENERATION_ERROR = 'XML_GENERATION_ERROR',
   CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
+  SCHEMA_VALIDATION_ERROR = 'SCHEMA_VALIDATION_ERROR',
+  BATCH_CONFLICT = 'BATCH_CONFLICT',
+  DATABASE_ERROR = 'DATABASE_ERROR',
   SERVER_ERROR = 'SERVER_ERROR'
 }
 
+// Map schema violations to XMLValidationError, with the refund of the transfer they concern
+function toXMLValidationErrors(violations: SchemaViolation[], transfers: { refund_id: number }[]): XMLValidationError[] {
+  return violations.map(violation => {
+    const transferIndex = /\/CdtTrfTxInf\[(\d+)\]/.exec(violation.path)?.[1];
+    let errorType = XMLErrorType.SCHEMA_VALIDATION_ERROR;
+    if (violation.rule === 'missing') {
+      errorType = XMLErrorType.MISSING_REQUIRED_FIELD;
+    } else if (violation.element === 'IBAN') {
+      errorType = XMLErrorType.INVALID_IBAN;
+    } else if (violation.element === 'InstdAmt' || violation.element === 'CtrlSum') {
+      errorType = XMLErrorType.INVALID_AMOUNT;
+    }
+
+    return {
+      field: violation.path,
+      value: violation.value,
+      error_message: violation.message,
+      refund_id: transferIndex ? transfers[Number(transferIndex) - 1]?.refund_id : undefined,
+      error_type: errorType
+    };
+  });
+}
+
 // CBC XML Generator implementation (embedded for Edge Function compatibility)
 class CBCXMLGenerator {
-  private readonly CBC_BIC = 'GKCCBEBB';
   private readonly CURRENCY = 'EUR';
   private readonly PAYMENT_METHOD = 'TRF';
-  private readonly NAMESPACE = 'urn:iso:std:iso:20022:tech:xsd:pain.001.001.03';
   private readonly XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
-  private readonly ALLOWED_CHARS_REGEX = /^[a-zA-Z0-9À-ÿ\/\-\?:\(\)\.,'\+ ]*$/;
   
+  readonly profile: BankProfile;
   private debtorConfig: any;
   private options: any;
 
   constructor(debtorConfig: any, options: any = {}) {
+    this.profile = getBankProfile(options.bank_profile ?? 'cbc');
     this.debtorConfig = debtorConfig;
     this.options = {
-      message_id_prefix: 'CBC',
       payment_info_id_prefix: 'PMT',
       instruction_priority: 'NORM',
       service_level: 'SEPA',
       category_purpose: 'SUPP',
       charge_bearer: 'SLEV',
-      batch_booking: true,
-      ...options
+      ...options,
+      // Profile defaults also apply to options passed as undefined
+      message_id_prefix: options.message_id_prefix ?? this.profile.messageIdPrefix,
+      batch_booking: options.batch_booking ?? this.profile.batchBooking,
+      pain_version: options.pain_version ?? this.profile.defaultPainVersion
     };
+    if (!this.profile.painVersions.includes(this.options.pain_version)) {
+      throw new Error(`${this.profile.name} does not accept ${this.options.pain_version} files`);
+    }
     this.validateDebtorConfiguration();
   }
 
+  get painVersion(): PainVersion {
+    return this.options.pain_version;
+  }
+
   public async generateXML(refunds: ValidatedRefundRecord[]): Promise<any> {
     const startTime = Date.now();
     const errors: string[] = [];
@@ -198,6 +291,11 @@ class CBCXMLGenerator {
         message_id: messageId,
         transaction_count: transactionCount,
         total_amount: totalAmount,
+        transfers: refunds.map(refund => ({
+          refund_id: refund.id,
+          end_to_end_id: this.generateEndToEndId(refund.id),
+          amount: Number(this.formatAmount(refund.amount_recharged))
+        })),
         errors: errors.length > 0 ? errors : undefined,
         warnings: warnings.length > 0 ? warnings : undefined,
         generation_time_ms: Date.now() - startTime
@@ -231,10 +329,13 @@ class CBCXMLGenerator {
       console.error(`[CBCXMLGenerator] Invalid IBAN format: ${this.debtorConfig.iban}`);
       throw new Error(`Invalid debtor IBAN format: ${this.debtorConfig.iban}`);
     }
+    if (!isValidSepaIBAN(this.debtorConfig.iban, this.profile.debtorCountries)) {
+      throw new Error(`${this.profile.name} only debits accounts from: ${this.profile.debtorCountries!.join(', ')}`);
+    }
     if (!this.debtorConfig.country) {
       throw new Error('Debtor country is required');
     }
-    if (!this.ALLOWED_CHARS_REGEX.test(this.debtorConfig.name)) {
+    if (!isAllowedText(this.profile, this.debtorConfig.name)) {
       throw new Error('Debtor name contains invalid characters');
     }
     
@@ -299,7 +400,7 @@ class CBCXMLGenerator {
       }
 
       const fullName = `${refund.first_name} ${refund.last_name}`;
-      if (!this.ALLOWED_CHARS_REGEX.test(fullName)) {
+      if (!isAllowedText(this.profile, fullName)) {
         errors.push({
           field: 'name',
           value: fullName,
@@ -330,50 +431,10 @@ class CBCXMLGenerator {
   }
 
   private isValidEuropeanIBAN(iban: string): boolean {
-    if (!iban) return false;
-    const cleanIban = iban.replace(/\s/g, '').toUpperCase();
-    
-    // European IBAN patterns (most common ones)
-    const europeanIbanPatterns = {
-      'BE': /^BE\d{14}$/,    // Belgium - 16 chars
-      'FR': /^FR\d{25}$/,    // France - 27 chars
-      'DE': /^DE\d{20}$/,    // Germany - 22 chars
-      'NL': /^NL\d{2}[A-Z]{4}\d{10}$/, // Netherlands - 18 chars
-      'IT': /^IT\d{2}[A-Z]\d{10}[A-Z0-9]{12}$/, // Italy - 27 chars
-      'ES': /^ES\d{22}$/,    // Spain - 24 chars
-      'PT': /^PT\d{23}$/,    // Portugal - 25 chars
-      'LU': /^LU\d{5}[A-Z0-9]{13}$/, // Luxembourg - 20 chars
-      'AT': /^AT\d{18}$/,    // Austria - 20 chars
-      'CH': /^CH\d{7}[A-Z0-9]{12}$/  // Switzerland - 21 chars
-    };
-    
-    // Check if IBAN matches any European pattern
-    const countryCode = cleanIban.substring(0, 2);
-    const pattern = europeanIbanPatterns[countryCode];
-    
-    if (!pattern) {
-      console.log(`[IBAN Validation] Unsupported country code: ${countryCode} for IBAN: ${cleanIban}`);
-      return false;
-    }
-    
-    if (!pattern.test(cleanIban)) {
-      console.log(`[IBAN Validation] Invalid ${countryCode} IBAN format: ${cleanIban}`);
-      return false;
-    }
-    
-    return this.validateIBANChecksum(cleanIban);
-  }
-
-  private validateIBANChecksum(iban: string): boolean {
-    const rearranged = iban.slice(4) + iban.slice(0, 4);
-    const numericString = rearranged.replace(/[A-Z]/g, (char) => 
-      (char.charCodeAt(0) - 55).toString()
-    );
-    let remainder = 0;
-    for (let i = 0; i < numericString.length; i++) {
-      remainder = (remainder * 10 + parseInt(numericString[i])) % 97;
-    }
-    return remainder === 1;
+    const cleanIban = normalizeIBAN(iban);
+    if (isValidSepaIBAN(cleanIban)) return true;
+    console.log(`[IBAN Validation] Invalid or unsupported IBAN: ${cleanIban}`);
+    return false;
   }
 
   private generateMessageId(): string {
@@ -397,15 +458,8 @@ class CBCXMLGenerator {
   }
 
   private sanitizeText(text: string): string {
-    if (!text) return '';
-    
-    // More permissive sanitization for international names
-    // Allow letters (including accented), numbers, and common punctuation
-    return text
-      .replace(/[^\w\s\/\-\?:\(\)\.,'\+À-ÿ]/g, ' ') // Allow international characters
-      .replace(/\s+/g, ' ') // Replace multiple spaces with single space
-      .trim()
-      .substring(0, 70); // Ensure max length for CBC compliance
+    // Character set and 70 character limit of the bank profile
+    return sanitizeForProfile(this.profile, text);
   }
 
   private formatAmount(amount: number): string {
@@ -416,7 +470,7 @@ class CBCXMLGenerator {
     const { messageId, paymentInfoId, creationDateTime, executionDate, transactionCount, totalAmount, refunds } = params;
 
     return `<?xml version="1.0" encoding="UTF-8"?>
-<Document xmlns="${this.NAMESPACE}" xmlns:xsi="${this.XSI_NAMESPACE}">
+<Document xmlns="${PAIN_NAMESPACES[this.options.pain_version as PainVersion]}" xmlns:xsi="${this.XSI_NAMESPACE}">
     <CstmrCdtTrfInitn>
         ${this.buildGroupHeader(messageId, creationDateTime, transactionCount, totalAmount)}
         ${this.buildPaymentInformation(paymentInfoId, executionDate, transactionCount, totalAmount, refunds)}
@@ -466,7 +520,7 @@ class CBCXMLGenerator {
                     <Cd>${this.options.category_purpose}</Cd>
                 </CtgyPurp>
             </PmtTpInf>
-            <ReqdExctnDt>${executionDate}</ReqdExctnDt>
+            ${this.buildRequestedExecutionDate(executionDate)}
             <Dbtr>
                 <Nm>${this.sanitizeText(this.debtorConfig.name)}</Nm>${debtorAddress}${debtorId}
             </Dbtr>
@@ -477,15 +531,40 @@ class CBCXMLGenerator {
                 <Ccy>${this.CURRENCY}</Ccy>
             </DbtrAcct>
             <DbtrAgt>
-                <FinInstnId>
-                    <BIC>${this.debtorConfig.bic || this.CBC_BIC}</BIC>
-                </FinInstnId>
+                ${this.buildDebtorAgent()}
             </DbtrAgt>
             <ChrgBr>${this.options.charge_bearer}</ChrgBr>
             ${transactions}
         </PmtInf>`;
   }
 
+  // pain.001.001.09 wraps the date in a Dt/DtTm choice
+  private buildRequestedExecutionDate(executionDate: string): string {
+    if (this.options.pain_version === 'pain.001.001.03') {
+      return `<ReqdExctnDt>${executionDate}</ReqdExctnDt>`;
+    }
+    return `<ReqdExctnDt>
+                <Dt>${executionDate}</Dt>
+            </ReqdExctnDt>`;
+  }
+
+  // BIC is named BICFI since pain.001.001.09; NOTPROVIDED when no BIC is known
+  private buildDebtorAgent(): string {
+    const bic = this.debtorConfig.bic?.replace(/\s/g, '').toUpperCase() || this.profile.bic;
+    if (!bic) {
+      return `<FinInstnId>
+                    <Othr>
+                        <Id>NOTPROVIDED</Id>
+                    </Othr>
+                </FinInstnId>`;
+    }
+
+    const tag = this.options.pain_version === 'pain.001.001.03' ? 'BIC' : 'BICFI';
+    return `<FinInstnId>
+                    <${tag}>${bic}</${tag}>
+                </FinInstnId>`;
+  }
+
   private buildDebtorAddress(): string {
     if (!this.debtorConfig.address_line1 && !this.debtorConfig.address_line2) {
       return '';
@@ -726,6 +805,77 @@ serve(async (req) => {
       });
     }
 
+    const supabaseAdmin = createClient(
+      supabaseUrl,
+      supabaseServiceKey,
+      { auth: { persistSession: false } }
+    );
+
+    // Only users granted generate_xml may produce SEPA files
+    const token = authHeader?.replace('Bearer ', '');
+    const { data: { user } } = token && token !== authHeader
+      ? await supabaseAdmin.auth.getUser(token)
+      : { data: { user: null } };
+
+    if (!user) {
+      console.warn(`[${requestId}] No user session - refund files require an authenticated user`);
+      const errorResponse: ProcessRefundsResponse = {
+        success: false,
+        error: 'A user session is required for refund processing',
+        error_code: ErrorCode.UNAUTHORIZED,
+        request_id: requestId
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        },
+        status: 401
+      });
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.GENERATE_XML)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to generate refund files. Role: ${roleOf(access)}`);
+      const errorResponse: ProcessRefundsResponse = {
+        success: false,
+        error: 'generate_xml permission required to generate refund files',
+        error_code: ErrorCode.FORBIDDEN,
+        request_id: requestId
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        },
+        status: 403
+      });
+    }
+
+    // Dry runs only report; recording a batch needs a fresh second factor
+    if (!processing_options.dry_run) {
+      const stepUp = await checkStepUp(supabaseAdmin, user.id);
+      if (stepUp.kind !== 'fresh') {
+        console.warn(`[${requestId}] User ${user.id} has no recent two-factor confirmation (${stepUp.kind})`);
+        const errorResponse: ProcessRefundsResponse = {
+          success: false,
+          error: 'A recent two-factor confirmation is required to generate refund files',
+          error_code: ErrorCode.STEP_UP_REQUIRED,
+          request_id: requestId
+        };
+
+        return new Response(JSON.stringify(errorResponse), {
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders
+          },
+          status: 403
+        });
+      }
+    }
+
     // Call the generate-refund-data function
     const refundDataUrl = `${supabaseUrl}/functions/v1/generate-refund-data`;
     console.log(`[${requestId}] Calling generate-refund-data function at: ${refundDataUrl}`);
@@ -810,8 +960,36 @@ serve(async (req) => {
       });
     }
 
+    // Only refunds approved in the admin review queue go into a SEPA batch
+    let refundsToProcess = refundData.data.valid_refunds.filter(refund => refund.status === 'validated');
+    const awaitingReview = refundData.data.valid_refunds.length - refundsToProcess.length;
+    if (awaitingReview > 0) {
+      console.log(`[${requestId}] Skipped ${awaitingReview} refunds awaiting admin review`);
+    }
+
+    if (refundsToProcess.length === 0) {
+      console.warn(`[${requestId}] No approved refunds available for processing`);
+      const errorResponse: ProcessRefundsResponse = {
+        success: false,
+        error: 'No approved refunds available for processing',
+        error_code: ErrorCode.NO_REFUNDS_AVAILABLE,
+        details: {
+          total_refunds: refundData.data.summary.total_refunds,
+          awaiting_review: awaitingReview
+        },
+        request_id: requestId
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        },
+        status: 400
+      });
+    }
+
     // Apply processing options (max_refunds limit)
-    let refundsToProcess = refundData.data.valid_refunds;
     
     if (processing_options.max_refunds && processing_options.max_refunds > 0) {
       refundsToProcess = refundsToProcess.slice(0, processing_options.max_refunds);
@@ -851,36 +1029,6 @@ serve(async (req) => {
       });
     }
 
-    // Check for dry run mode
-    if (processing_options.dry_run) {
-      console.log(`[${requestId}] DRY RUN MODE - No XML will be generated`);
-      const dryRunResponse: ProcessRefundsResponse = {
-        success: true,
-        message: 'Dry run completed successfully',
-        data: {
-          message_id: 'DRY_RUN',
-          transaction_count: refundsToProcess.length,
-          total_amount: refundsToProcess.reduce((sum, refund) => sum + refund.amount_recharged, 0),
-          filename: 'dry_run.xml',
-          processing_summary: {
-            refunds_processed: refundsToProcess.length,
-            validation_errors: refundData.data.validation_errors.length,
-            xml_generation_time_ms: 0,
-            total_processing_time_ms: Date.now() - startTime
-          }
-        },
-        request_id: requestId
-      };
-      
-      return new Response(JSON.stringify(dryRunResponse), {
-        headers: {
-          'Content-Type': 'application/json',
-          ...corsHeaders
-        },
-        status: 200
-      });
-    }
-
     console.log(`[${requestId}] ===== GENERATING XML =====`);
     console.log(`[${requestId}] Refunds to process: ${refundsToProcess.length}`);
     console.log(`[${requestId}] Total amount: €${refundsToProcess.reduce((sum, refund) => sum + refund.amount_recharged, 0).toFixed(2)}`);
@@ -942,84 +1090,108 @@ serve(async (req) => {
     console.log(`[${requestId}] XML generation time: ${xmlGenerationTime}ms`);
     console.log(`[${requestId}] Total processing time: ${Date.now() - startTime}ms`);
 
-    // Update file_generated status for processed refunds
-    console.log(`[${requestId}] ===== UPDATING FILE_GENERATED STATUS =====`);
+    // Generate filename for download
+    const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    const filename = `${xmlGenerator.profile.messageIdPrefix}_Refunds_${xmlResult.message_id}_${timestamp}.xml`;
+
+    // Validate against the bundled XSD before anything is recorded
+    console.log(`[${requestId}] ===== VALIDATING XML AGAINST ${xmlGenerator.painVersion} =====`);
+    const schemaResult = validatePain001(xmlResult.xml_content, xmlGenerator.painVersion);
+    const schemaValidation: SchemaValidationReport = {
+      valid: schemaResult.kind === 'valid',
+      pain_version: xmlGenerator.painVersion,
+      errors: schemaResult.kind === 'valid' ? [] : toXMLValidationErrors(schemaResult.violations, xmlResult.transfers)
+    };
+    console.log(`[${requestId}] Schema validation: ${schemaValidation.valid ? 'valid' : `${schemaValidation.errors.length} error(s)`}`);
+
+    // Dry run: report only, no batch recorded and no refund marked exported
+    if (processing_options.dry_run) {
+      console.log(`[${requestId}] DRY RUN MODE - Returning validation report`);
+      const dryRunResponse: ProcessRefundsResponse = {
+        success: true,
+        message: schemaValidation.valid ? 'Dry run completed successfully' : 'Dry run found schema errors',
+        data: {
+          message_id: xmlResult.message_id,
+          transaction_count: xmlResult.transaction_count,
+          total_amount: xmlResult.total_amount,
+          filename,
+          processing_summary: {
+            refunds_processed: refundsToProcess.length,
+            validation_errors: refundData.data.validation_errors.length,
+            xml_generation_time_ms: xmlGenerationTime,
+            total_processing_time_ms: Date.now() - startTime
+          },
+          schema_validation: schemaValidation
+        },
+        request_id: requestId
+      };
+
+      return new Response(JSON.stringify(dryRunResponse), {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        },
+        status: 200
+      });
+    }
+
+    if (!schemaValidation.valid) {
+      console.error(`[${requestId}] Generated XML does not match ${schemaValidation.pain_version}:`, schemaValidation.errors);
+      const errorResponse: ProcessRefundsResponse = {
+        success: false,
+        error: `Generated XML does not match the ${schemaValidation.pain_version} schema`,
+        error_code: ErrorCode.SCHEMA_VALIDATION_ERROR,
+        details: schemaValidation,
+        request_id: requestId
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        },
+        status: 422
+      });
+    }
+
+    // Record the batch and mark its refunds exported in one transaction
+    console.log(`[${requestId}] ===== RECORDING REFUND BATCH =====`);
     const refundIds = refundsToProcess.map(refund => refund.id);
-    console.log(`[${requestId}] Refund IDs to mark as processed: [${refundIds.join(', ')}]`);
-    console.log(`[${requestId}] Number of refunds to update: ${refundIds.length}`);
-    console.log(`[${requestId}] Supabase URL: ${supabaseUrl}`);
-    console.log(`[${requestId}] Service key available: ${!!supabaseServiceKey}`);
-    
-    try {
-      console.log(`[${requestId}] Creating Supabase admin client...`);
-      const supabaseAdmin = createClient(
-        supabaseUrl,
-        supabaseServiceKey,
-        { auth: { persistSession: false } }
-      );
-
-      console.log(`[${requestId}] Executing database update query...`);
-      console.log(`[${requestId}] Query: UPDATE refunds SET file_generated = true WHERE id IN (${refundIds.join(', ')})`);
-      
-      const { data: updateData, error: updateError, count } = await supabaseAdmin
-        .from('refunds')
-        .update({ file_generated: true })
-        .in('id', refundIds)
-        .select('id, file_generated');
-
-      console.log(`[${requestId}] Update query completed`);
-      console.log(`[${requestId}] Update data:`, updateData);
-      console.log(`[${requestId}] Update count:`, count);
-      console.log(`[${requestId}] Update error:`, updateError);
-
-      if (updateError) {
-        console.error(`[${requestId}] Database update failed with error:`, {
-          code: updateError.code,
-          message: updateError.message,
-          details: updateError.details,
-          hint: updateError.hint
-        });
-        console.warn(`[${requestId}] WARNING: XML was generated successfully but failed to mark refunds as processed.`);
-        console.warn(`[${requestId}] Manual database update required: UPDATE refunds SET file_generated = true WHERE id IN (${refundIds.join(', ')})`);
-      } else {
-        console.log(`[${requestId}] ✅ Successfully updated ${updateData?.length || count || refundIds.length} refunds to file_generated = true`);
-        console.log(`[${requestId}] Updated refund IDs: ${updateData?.map(r => r.id).join(', ') || 'N/A'}`);
-        
-        // Verify the update worked
-        console.log(`[${requestId}] Verifying update...`);
-        const { data: verifyData, error: verifyError } = await supabaseAdmin
-          .from('refunds')
-          .select('id, file_generated')
-          .in('id', refundIds);
-          
-        if (verifyError) {
-          console.error(`[${requestId}] Verification query failed:`, verifyError);
-        } else {
-          console.log(`[${requestId}] Verification results:`, verifyData);
-          const updatedCount = verifyData?.filter(r => r.file_generated === true).length || 0;
-          const notUpdatedCount = verifyData?.filter(r => r.file_generated === false).length || 0;
-          console.log(`[${requestId}] Verification: ${updatedCount} updated, ${notUpdatedCount} not updated`);
-          
-          if (notUpdatedCount > 0) {
-            console.warn(`[${requestId}] WARNING: ${notUpdatedCount} refunds were not marked as processed!`);
-            const notUpdatedIds = verifyData?.filter(r => r.file_generated === false).map(r => r.id) || [];
-            console.warn(`[${requestId}] Not updated IDs: ${notUpdatedIds.join(', ')}`);
-          }
-        }
-      }
-    } catch (error) {
-      console.error(`[${requestId}] Exception during file_generated status update:`, {
-        name: error.name,
-        message: error.message,
-        stack: error.stack
+    console.log(`[${requestId}] Refund IDs in batch: [${refundIds.join(', ')}]`);
+
+    const { data: batch, error: batchError } = await supabaseAdmin.rpc('sp_record_refund_batch', {
+      message_id_in: xmlResult.message_id,
+      filename_in: filename,
+      xml_content_in: xmlResult.xml_content,
+      transfers_in: xmlResult.transfers,
+      debtor_iban_in: debtor_config.iban.replace(/\s/g, ''),
+      generated_by_in: user.id,
+      request_id_in: requestId
+    });
+
+    if (batchError) {
+      const conflict = batchError.message.toLowerCase().includes('refund batch conflict');
+      console.error(`[${requestId}] Failed to record refund batch: ${batchError.message}`);
+      const errorResponse: ProcessRefundsResponse = {
+        success: false,
+        error: conflict
+          ? 'Some refunds changed status while the file was generated, please try again'
+          : 'Failed to record the refund batch',
+        error_code: conflict ? ErrorCode.BATCH_CONFLICT : ErrorCode.DATABASE_ERROR,
+        details: batchError.message,
+        request_id: requestId
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        headers: {
+          'Content-Type': 'application/json',
+          ...corsHeaders
+        },
+        status: conflict ? 409 : 500
       });
-      console.warn(`[${requestId}] WARNING: XML was generated successfully but failed to mark refunds as processed.`);
-      console.warn(`[${requestId}] Manual database update required: UPDATE refunds SET file_generated = true WHERE id IN (${refundIds.join(', ')})`);
     }
 
-    // Generate filename for download
-    const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
-    const filename = `CBC_Refunds_${xmlResult.message_id}_${timestamp}.xml`;
+    console.log(`[${requestId}] ✅ Batch ${batch.batch_id} recorded, ${batch.transaction_count} refunds marked exported`);
 
     // Log successful processing for audit trail
     console.log(`[${requestId}] ===== REFUND PROCESSING COMPLETED SUCCESSFULLY =====`);
@@ -1034,6 +1206,7 @@ serve(async (req) => {
         'Content-Type': 'application/xml',
         'Content-Disposition': `attachment; filename="${filename}"`,
         'X-Message-ID': xmlResult.message_id || '',
+        'X-Batch-ID': String(batch.batch_id),
         'X-Transaction-Count': xmlResult.transaction_count?.toString() || '0',
         'X-Total-Amount': xmlResult.total_amount?.toFixed(2) || '0.00',
         'X-Processing-Time': (Date.now() - startTime).toString(),
@@ -1,5 +1,10 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { securityMiddleware } from '../../../src/lib/security-middleware.ts'
+import { toMiddlewareRequest } from '../_shared/card-secret.ts'
+import { enableDatabaseRateLimitStore } from '../_shared/rate-limit-store.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+import { applyRechargeBonus, hasOfferSelection, parseOfferSelection, quoteRechargeBonus, RechargeQuote } from '../_shared/recharge-offers.ts'
 
 /**
  * Standard Recharge Processing Edge Function
@@ -8,8 +13,14 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
  * - Atomic operations via stored procedure sp_process_standard_recharge
  * - Mandatory client_request_id for idempotency protection
  * - Support for both cash and card payment methods
+ * - Callers must be signed in with the access_recharge permission
  * - Comprehensive input validation and error handling
  * - Race condition prevention through database-level locking
+ * - Blocked, lost and retired cards are rejected
+ * - Recharges by a desk operator are attached to their open cash drawer shift
+ * - Optional recharge package / promo code: the bonus is quoted before and
+ *   credited after the recharge, tracked apart from the paid amount
+ * - Financial rate limiting per card, shared by all instances
  * - Detailed logging and request tracing
  */
 
@@ -19,6 +30,8 @@ interface StandardRechargeRequest {
   amount: number;
   payment_method: 'cash' | 'card';
   client_request_id: string; // MANDATORY for idempotency protection
+  package_id?: number;
+  promo_code?: string;
 }
 
 interface StandardRechargeResponse {
@@ -28,6 +41,7 @@ interface StandardRechargeResponse {
   new_balance?: number;
   recharge_amount?: number;
   payment_method?: string;
+  bonus_amount?: number;
   error?: string;
   error_code?: string;
   details?: any;
@@ -37,12 +51,56 @@ interface StandardRechargeResponse {
 enum ErrorCode {
   INVALID_REQUEST = 'INVALID_REQUEST',
   CARD_NOT_FOUND = 'CARD_NOT_FOUND',
+  CARD_NOT_ACTIVE = 'CARD_NOT_ACTIVE',
   INVALID_PAYMENT_METHOD = 'INVALID_PAYMENT_METHOD',
   DUPLICATE_REQUEST = 'DUPLICATE_REQUEST',
+  BONUS_NOT_APPLIED = 'BONUS_NOT_APPLIED',
+  RATE_LIMITED = 'RATE_LIMITED',
   DATABASE_ERROR = 'DATABASE_ERROR',
-  SERVER_ERROR = 'SERVER_ERROR'
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
 }
 
+/**
+ * Attach the recharge to the operator's open cash drawer shift so the desk can
+ * reconcile its drawer at close. Operators without an open shift are left
+ * unattached; a failure here never fails the recharge.
+ */
+async function attachToOpenShift(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  requestId: string,
+  userId: string,
+  transactionId: string | undefined
+): Promise<void> {
+  if (!transactionId) return;
+
+  try {
+    const { data: shift } = await supabaseAdmin
+      .from('recharge_shifts')
+      .select('id')
+      .eq('operator_id', userId)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    const { error } = await supabaseAdmin
+      .from('recharges')
+      .update({ processed_by_user_id: userId, shift_id: shift?.id ?? null })
+      .eq('transaction_id', transactionId);
+
+    if (error) {
+      console.warn(`[${requestId}] Could not attach recharge to shift:`, error.message);
+    } else if (shift) {
+      console.log(`[${requestId}] Recharge attached to shift ${shift.id}`);
+    }
+  } catch (error) {
+    console.warn(`[${requestId}] Could not attach recharge to shift:`, error);
+  }
+}
+
+// Recharge counters go to rate_limit_hits, shared by all instances
+enableDatabaseRateLimitStore();
+
 serve(async (req) => {
   // Generate unique request ID for comprehensive logging and traceability
   const requestId = crypto.randomUUID();
@@ -89,6 +147,54 @@ serve(async (req) => {
       );
     }
 
+    // Security check - only signed-in users granted access_recharge may recharge cards
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Authorization header required. Use Bearer <token>',
+          error_code: ErrorCode.UNAUTHORIZED
+        }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status: 401 }
+      );
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Invalid or expired authentication token',
+          error_code: ErrorCode.UNAUTHORIZED
+        }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status: 401 }
+      );
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.ACCESS_RECHARGE)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to recharge cards. Role: ${roleOf(access)}`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'access_recharge permission required to recharge cards',
+          error_code: ErrorCode.FORBIDDEN
+        }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status: 403 }
+      );
+    }
+
     // Parse and validate request body
     let requestBody: StandardRechargeRequest;
     try {
@@ -160,6 +266,11 @@ serve(async (req) => {
       validationErrors.push('amount cannot exceed €1000 for standard recharges');
     }
 
+    const { selection, error: selectionError } = parseOfferSelection(requestBody);
+    if (selectionError) {
+      validationErrors.push(selectionError);
+    }
+
     if (validationErrors.length > 0) {
       console.error(`[${requestId}] Input validation failed:`, validationErrors);
       return new Response(
@@ -173,12 +284,72 @@ serve(async (req) => {
       );
     }
 
-    // Create Supabase client with service role for database operations
-    const supabaseAdmin = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
-      { auth: { persistSession: false } }
-    );
+    // Desks share an IP, so recharges are counted per card
+    const security = await securityMiddleware.processRequest(toMiddlewareRequest(req), {
+      rateLimitTier: 'financial',
+      rateLimitKey: card_id.trim(),
+    });
+    if (!security.success) {
+      console.warn(`[${requestId}] Rejected by security middleware: ${security.error}`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: security.error || 'Request rejected',
+          error_code: ErrorCode.RATE_LIMITED
+        }),
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            'Retry-After': String(Math.ceil((security.retryAfterMs ?? 60000) / 1000)),
+            ...corsHeaders
+          },
+          status: security.statusCode || 429
+        }
+      );
+    }
+
+    // Blocked, lost and retired cards cannot be recharged. The database trigger
+    // on table_cards enforces this atomically; checking first gives a clear error.
+    const { data: cardState } = await supabaseAdmin
+      .from('table_cards')
+      .select('status, replaced_by')
+      .eq('id', card_id.trim())
+      .maybeSingle();
+
+    if (cardState && cardState.status !== 'active') {
+      console.warn(`[${requestId}] Card ${card_id} is ${cardState.status}, recharge rejected`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: `Card is ${cardState.status} and cannot be recharged.`,
+          error_code: ErrorCode.CARD_NOT_ACTIVE,
+          card_status: cardState.status,
+          replaced_by: cardState.replaced_by,
+          request_id: requestId
+        }),
+        { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status: 403 }
+      );
+    }
+
+    // Reject an unusable package or promo code before taking the money
+    let quote: RechargeQuote | null = null;
+    if (hasOfferSelection(selection)) {
+      const quoteResult = await quoteRechargeBonus(supabaseAdmin, amount, selection, card_id.trim());
+      if (!quoteResult.ok) {
+        console.warn(`[${requestId}] Recharge offer rejected: ${quoteResult.errorCode}`);
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: quoteResult.error,
+            error_code: quoteResult.errorCode,
+            request_id: requestId
+          }),
+          { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status: quoteResult.status }
+        );
+      }
+      quote = quoteResult.quote;
+      console.log(`[${requestId}] Recharge bonus quoted: €${quote.bonus_amount}`);
+    }
 
     console.log(`[${requestId}] ===== CALLING ATOMIC STORED PROCEDURE =====`);
     console.log(`[${requestId}] Procedure: sp_process_standard_recharge`);
@@ -220,6 +391,10 @@ serve(async (req) => {
         errorCode = ErrorCode.CARD_NOT_FOUND;
         userFriendlyMessage = 'Card not found. Please verify the card ID.';
         httpStatus = 404;
+      } else if (errorMessage.includes('card not active')) {
+        errorCode = ErrorCode.CARD_NOT_ACTIVE;
+        userFriendlyMessage = 'Card is blocked and cannot be recharged.';
+        httpStatus = 403;
       } else if (errorMessage.includes('invalid payment method')) {
         errorCode = ErrorCode.INVALID_PAYMENT_METHOD;
         userFriendlyMessage = 'Invalid payment method. Must be "cash" or "card".';
@@ -264,6 +439,33 @@ serve(async (req) => {
     const result = procedureResult as StandardRechargeResponse;
     
     if (result.success) {
+      await attachToOpenShift(supabaseAdmin, requestId, user.id, result.transaction_id);
+
+      if (quote) {
+        // Idempotent: a retry with the same client_request_id applies a missing bonus
+        try {
+          const bonus = await applyRechargeBonus(supabaseAdmin, { transactionId: result.transaction_id }, selection);
+          if (!bonus.duplicate && typeof result.new_balance === 'number') {
+            result.new_balance = Number(result.new_balance) + bonus.bonus_amount;
+          }
+          result.bonus_amount = bonus.bonus_amount;
+          console.log(`[${requestId}] Recharge bonus credited: €${bonus.bonus_amount}${bonus.promo_skipped ? ` (promo skipped: ${bonus.promo_skipped})` : ''}`);
+        } catch (bonusError) {
+          console.error(`[${requestId}] Recharge credited but bonus failed:`, bonusError);
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: 'Recharge credited but the bonus could not be applied. Retry with the same client_request_id.',
+              error_code: ErrorCode.BONUS_NOT_APPLIED,
+              transaction_id: result.transaction_id,
+              details: bonusError?.message,
+              request_id: requestId
+            }),
+            { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status: 500 }
+          );
+        }
+      }
+
       console.log(`[${requestId}] ===== STANDARD RECHARGE PROCESSED SUCCESSFULLY =====`);
       console.log(`[${requestId}] Transaction ID: ${result.transaction_id}`);
       console.log(`[${requestId}] Balance Change: €${result.previous_balance} → €${result.new_balance}`);
@@ -294,6 +496,9 @@ serve(async (req) => {
       if (result.error?.includes('Card not found')) {
         errorCode = ErrorCode.CARD_NOT_FOUND;
         httpStatus = 404; // Not Found
+      } else if (result.error?.includes('Card not active')) {
+        errorCode = ErrorCode.CARD_NOT_ACTIVE;
+        httpStatus = 403;
       } else if (result.error?.includes('Invalid payment method')) {
         errorCode = ErrorCode.INVALID_PAYMENT_METHOD;
         httpStatus = 400; // Bad Request
@@ -0,0 +1,199 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { generateCardSecret, hashCardSecret } from '../_shared/card-secret.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+
+/**
+ * Card Provisioning Edge Function
+ *
+ * Admin-only batch registration of new cards before an edition.
+ *
+ * Key Features:
+ * - Registers up to MAX_BATCH_SIZE card ids in one all-or-nothing insert
+ * - Rejects the whole batch when any id already exists, listing the clashes
+ * - Optionally issues a printed secret per card (see manage-card-secrets);
+ *   the secrets are returned once in clear for the QR sheet
+ * - Cards start active with an empty balance
+ */
+
+interface ProvisionRequest {
+  card_ids: string[];
+  description?: string;
+  issue_secrets?: boolean;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  CARDS_EXIST = 'CARDS_EXIST',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+// The NFC reader extracts 8-character alphanumeric ids from tags
+const PROVISIONED_CARD_ID_PATTERN = /^[A-Za-z0-9]{8}$/;
+const MAX_BATCH_SIZE = 500;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== CARD PROVISIONING STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted manage_cards may register cards
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.MANAGE_CARDS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to provision cards. Role: ${roleOf(access)}`);
+      return fail('manage_cards permission required to provision cards', ErrorCode.FORBIDDEN, 403);
+    }
+
+    // Parse and validate request body
+    let body: ProvisionRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!body || !Array.isArray(body.card_ids) || body.card_ids.length === 0) {
+      return fail('card_ids must be a non-empty array', ErrorCode.INVALID_REQUEST, 400);
+    }
+    if (body.card_ids.length > MAX_BATCH_SIZE) {
+      return fail(`At most ${MAX_BATCH_SIZE} cards per batch`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const cardIds = body.card_ids.map(id => typeof id === 'string' ? id.trim() : '');
+    const invalidIds = cardIds.filter(id => !PROVISIONED_CARD_ID_PATTERN.test(id));
+    if (invalidIds.length > 0) {
+      return fail('Card ids must be 8 alphanumeric characters', ErrorCode.INVALID_REQUEST, 400, { invalid_ids: invalidIds.slice(0, 20) });
+    }
+    if (new Set(cardIds).size !== cardIds.length) {
+      return fail('card_ids contains duplicates', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const description = typeof body.description === 'string' ? body.description.trim() : '';
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return fail(`description must be at most ${MAX_DESCRIPTION_LENGTH} characters`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    console.log(`[${requestId}] Provisioning ${cardIds.length} cards (${cardIds[0]} … ${cardIds[cardIds.length - 1]}), secrets: ${body.issue_secrets === true}, user: ${user.id}`);
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('table_cards')
+      .select('id')
+      .in('id', cardIds);
+
+    if (existingError) {
+      console.error(`[${requestId}] Failed to check existing cards:`, existingError);
+      return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, existingError.message);
+    }
+    if (existing && existing.length > 0) {
+      console.warn(`[${requestId}] ${existing.length} card ids already registered`);
+      return fail('Some cards are already registered', ErrorCode.CARDS_EXIST, 409, { existing_ids: existing.map(card => card.id) });
+    }
+
+    const { error: insertError } = await supabaseAdmin
+      .from('table_cards')
+      .insert(cardIds.map(id => ({ id, amount: 0, description: description || null })));
+
+    if (insertError) {
+      console.error(`[${requestId}] Failed to insert cards:`, insertError);
+      // A concurrent batch may have registered the same ids in the meantime
+      if (insertError.code === '23505') {
+        return fail('Some cards are already registered', ErrorCode.CARDS_EXIST, 409, insertError.message);
+      }
+      return fail('Failed to register cards', ErrorCode.DATABASE_ERROR, 500, insertError.message);
+    }
+
+    let secrets: Record<string, string> | undefined;
+
+    if (body.issue_secrets === true) {
+      secrets = {};
+      const issuedAt = new Date().toISOString();
+      const rows = [];
+      for (const id of cardIds) {
+        const secret = generateCardSecret();
+        secrets[id] = secret;
+        rows.push({
+          card_id: id,
+          secret_hash: await hashCardSecret(id, secret),
+          issued_at: issuedAt,
+          issued_by: user.id,
+          reissue_count: 0,
+        });
+      }
+
+      const { error: secretsError } = await supabaseAdmin.from('card_secrets').insert(rows);
+      if (secretsError) {
+        console.error(`[${requestId}] Failed to store card secrets, rolling back batch:`, secretsError);
+        await supabaseAdmin.from('table_cards').delete().in('id', cardIds);
+        return fail('Failed to issue card secrets', ErrorCode.DATABASE_ERROR, 500, secretsError.message);
+      }
+    }
+
+    return respond({
+      success: true,
+      created: cardIds.length,
+      card_ids: cardIds,
+      ...(secrets && { secrets }),
+    }, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== CARD PROVISIONING COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
@@ -0,0 +1,270 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { SecurityUtils } from '../../../src/config/security.ts'
+import { securityMiddleware } from '../../../src/lib/security-middleware.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+import { enableDatabaseRateLimitStore } from '../_shared/rate-limit-store.ts'
+
+/**
+ * Bar Order Refund Edge Function
+ *
+ * Voids a bar order or refunds some of its line items, crediting the card.
+ *
+ * Key Features:
+ * - Atomic operations via stored procedure sp_refund_bar_order
+ * - Mandatory client_request_id for idempotency protection
+ * - Reversal linked to the original bar_orders row (bar_order_refunds)
+ * - Users granted refund_bar_orders (admins by default) refund directly;
+ *   other staff need the supervisor PIN
+ * - Wrong supervisor PINs lock the user out after
+ *   SecurityConfig.auth.failedAttempts.maxAttempts tries, across instances
+ */
+
+interface RefundBarOrderRequest {
+  order_id: number;
+  items?: Array<{
+    order_item_id: number;
+    quantity: number;
+  }>;
+  reason: string;
+  client_request_id: string;
+  supervisor_pin?: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  ORDER_NOT_FOUND = 'ORDER_NOT_FOUND',
+  ORDER_ALREADY_REFUNDED = 'ORDER_ALREADY_REFUNDED',
+  INVALID_REFUND_ITEMS = 'INVALID_REFUND_ITEMS',
+  NOTHING_TO_REFUND = 'NOTHING_TO_REFUND',
+  CARD_NOT_FOUND = 'CARD_NOT_FOUND',
+  CARD_NOT_ACTIVE = 'CARD_NOT_ACTIVE',
+  INVALID_SUPERVISOR_PIN = 'INVALID_SUPERVISOR_PIN',
+  TOO_MANY_ATTEMPTS = 'TOO_MANY_ATTEMPTS',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+const MAX_REASON_LENGTH = 200;
+
+function validateRefundRequest(body: RefundBarOrderRequest): string[] {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(body.order_id) || body.order_id <= 0) {
+    errors.push('order_id is required and must be a positive integer');
+  }
+
+  if (!body.client_request_id || typeof body.client_request_id !== 'string' || body.client_request_id.trim() === '') {
+    errors.push('client_request_id is required and must be a non-empty string');
+  }
+
+  if (typeof body.reason !== 'string' || body.reason.trim() === '' || body.reason.trim().length > MAX_REASON_LENGTH) {
+    errors.push(`reason is required and must be at most ${MAX_REASON_LENGTH} characters`);
+  }
+
+  if (body.items !== undefined) {
+    if (!Array.isArray(body.items)) {
+      errors.push('items must be an array when provided');
+    } else {
+      body.items.forEach((item, index) => {
+        if (!Number.isInteger(item?.order_item_id) || item.order_item_id <= 0) {
+          errors.push(`Item ${index}: order_item_id must be a positive integer`);
+        }
+        if (!Number.isInteger(item?.quantity) || item.quantity <= 0) {
+          errors.push(`Item ${index}: quantity must be a positive integer`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+// Failed supervisor PIN attempts are counted in rate_limit_hits, shared by
+// all instances
+enableDatabaseRateLimitStore();
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== BAR ORDER REFUND STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+  console.log(`[${requestId}] Method: ${req.method}, URL: ${req.url}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - refunds are only available to authenticated staff
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Parse and validate request body
+    let body: RefundBarOrderRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const validationErrors = validateRefundRequest(body ?? {} as RefundBarOrderRequest);
+    if (validationErrors.length > 0) {
+      console.error(`[${requestId}] Input validation failed:`, validationErrors);
+      return fail('Input validation failed', ErrorCode.INVALID_REQUEST, 400, validationErrors);
+    }
+
+    // Users granted refund_bar_orders refund directly (recorded as 'admin'),
+    // any other staff member needs the supervisor PIN
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+
+    let authorizedBy: 'admin' | 'supervisor_pin';
+    if (can(access, PERMISSIONS.REFUND_BAR_ORDERS)) {
+      authorizedBy = 'admin';
+    } else if (body.supervisor_pin) {
+      const supervisorPin = Deno.env.get('SUPERVISOR_PIN');
+      if (!supervisorPin) {
+        console.error(`[${requestId}] SUPERVISOR_PIN is not configured`);
+        return fail('Supervisor PIN refunds are not configured', ErrorCode.FORBIDDEN, 403);
+      }
+
+      const lockoutKey = `supervisor_pin:${user.id}`;
+      const lockout = await securityMiddleware.checkLockout(lockoutKey);
+      if (lockout.locked) {
+        console.warn(`[${requestId}] Supervisor PIN checks of user ${user.id} are locked`);
+        return respond({
+          success: false,
+          error: 'Too many invalid supervisor PINs. Please try again later.',
+          error_code: ErrorCode.TOO_MANY_ATTEMPTS,
+          retry_after_seconds: Math.ceil((lockout.retryAfterMs ?? 0) / 1000),
+        }, 429);
+      }
+
+      if (!SecurityUtils.timingSafeEqual(String(body.supervisor_pin), supervisorPin)) {
+        const attempt = await securityMiddleware.recordFailedAttempt(lockoutKey);
+        console.warn(`[${requestId}] Invalid supervisor PIN from user ${user.id} (role: ${roleOf(access)}), ${attempt.remainingAttempts} attempt(s) left`);
+        if (attempt.locked) {
+          return respond({
+            success: false,
+            error: 'Too many invalid supervisor PINs. Please try again later.',
+            error_code: ErrorCode.TOO_MANY_ATTEMPTS,
+            retry_after_seconds: Math.ceil((attempt.retryAfterMs ?? 0) / 1000),
+          }, 429);
+        }
+        return respond({
+          success: false,
+          error: 'Invalid supervisor PIN',
+          error_code: ErrorCode.INVALID_SUPERVISOR_PIN,
+          remaining_attempts: attempt.remainingAttempts,
+        }, 403);
+      }
+
+      await securityMiddleware.clearFailedAttempts(lockoutKey);
+      authorizedBy = 'supervisor_pin';
+    } else {
+      console.warn(`[${requestId}] User ${user.id} (role: ${roleOf(access)}) attempted a refund without supervisor PIN`);
+      return fail('refund_bar_orders permission or supervisor PIN required to refund an order', ErrorCode.FORBIDDEN, 403);
+    }
+
+    const isFullVoid = !body.items || body.items.length === 0;
+    console.log(`[${requestId}] Order: ${body.order_id}, type: ${isFullVoid ? 'void' : 'partial'}, authorized by: ${authorizedBy}, user: ${user.id}`);
+
+    const { data: procedureResult, error: procedureError } = await supabaseAdmin
+      .rpc('sp_refund_bar_order', {
+        order_id_in: body.order_id,
+        items_in: isFullVoid ? null : body.items,
+        reason_in: body.reason.trim(),
+        client_request_id_in: body.client_request_id.trim(),
+        authorized_by_in: authorizedBy,
+        performed_by_in: user.id
+      });
+
+    if (procedureError) {
+      const message = procedureError.message.toLowerCase();
+      console.error(`[${requestId}] Stored procedure error: ${procedureError.message}`);
+
+      if (message.includes('order not found')) {
+        return fail('Order not found', ErrorCode.ORDER_NOT_FOUND, 404);
+      }
+      if (message.includes('already refunded')) {
+        return fail('This order has already been fully refunded', ErrorCode.ORDER_ALREADY_REFUNDED, 409);
+      }
+      if (message.includes('exceeds remaining quantity') || message.includes('order item not found')) {
+        return fail('Invalid items for this order', ErrorCode.INVALID_REFUND_ITEMS, 400, procedureError.message);
+      }
+      if (message.includes('nothing to refund')) {
+        return fail('Nothing to refund on this order', ErrorCode.NOTHING_TO_REFUND, 400);
+      }
+      if (message.includes('card not found')) {
+        return fail('Card not found', ErrorCode.CARD_NOT_FOUND, 404);
+      }
+      if (message.includes('card not active')) {
+        return fail('Card is not active and cannot be credited', ErrorCode.CARD_NOT_ACTIVE, 403);
+      }
+      return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, procedureError.message);
+    }
+
+    if (!procedureResult?.success) {
+      console.error(`[${requestId}] Unexpected stored procedure result:`, procedureResult);
+      return fail('No result from database operation', ErrorCode.DATABASE_ERROR, 500);
+    }
+
+    console.log(`[${requestId}] Refund ${procedureResult.refund_id}${procedureResult.duplicate ? ' (replayed)' : ''}: €${procedureResult.amount}, balance €${procedureResult.previous_balance} → €${procedureResult.new_balance}`);
+
+    return respond({
+      ...procedureResult,
+      authorized_by: authorizedBy,
+      processing_time_ms: Date.now() - startTime
+    }, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== BAR ORDER REFUND COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
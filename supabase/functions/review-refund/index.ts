@@ -0,0 +1,163 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+
+/**
+ * Refund Review Edge Function
+ *
+ * Admin decision on a refund request from the review queue, before it can be
+ * included in a SEPA batch by process-refunds.
+ *
+ * Key Features:
+ * - approve: submitted (or previously rejected) → validated
+ * - reject: submitted or validated → rejected, a reason is required
+ * - Exported and paid requests can no longer be reviewed
+ * - Every decision is recorded in refund_status_history with the reviewer
+ */
+
+type ReviewDecision = 'approve' | 'reject';
+
+interface ReviewRequest {
+  refund_id: number;
+  decision: ReviewDecision;
+  reason?: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  REFUND_NOT_FOUND = 'REFUND_NOT_FOUND',
+  ALREADY_EXPORTED = 'ALREADY_EXPORTED',
+  ALREADY_REVIEWED = 'ALREADY_REVIEWED',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+const VALID_DECISIONS: ReviewDecision[] = ['approve', 'reject'];
+const MAX_REASON_LENGTH = 500;
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== REFUND REVIEW STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted review_refunds may review refunds
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.REVIEW_REFUNDS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to review refunds. Role: ${roleOf(access)}`);
+      return fail('review_refunds permission required to review refunds', ErrorCode.FORBIDDEN, 403);
+    }
+
+    // Parse and validate request body
+    let body: ReviewRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!body || !Number.isInteger(body.refund_id)) {
+      return fail('refund_id is required', ErrorCode.INVALID_REQUEST, 400);
+    }
+    if (!VALID_DECISIONS.includes(body.decision)) {
+      return fail(`decision must be one of: ${VALID_DECISIONS.join(', ')}`, ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+    if (reason.length > MAX_REASON_LENGTH) {
+      return fail(`reason must be at most ${MAX_REASON_LENGTH} characters`, ErrorCode.INVALID_REQUEST, 400);
+    }
+    if (body.decision === 'reject' && !reason) {
+      return fail('reason is required to reject a refund', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    console.log(`[${requestId}] Decision: ${body.decision}, refund: ${body.refund_id}, user: ${user.id}`);
+
+    const { data: result, error } = await supabaseAdmin.rpc('sp_review_refund', {
+      refund_id_in: body.refund_id,
+      decision_in: body.decision,
+      reason_in: reason || null,
+      reviewed_by_in: user.id,
+    });
+
+    if (error) {
+      const message = error.message.toLowerCase();
+      console.error(`[${requestId}] Stored procedure error: ${error.message}`);
+
+      if (message.includes('refund not found')) {
+        return fail('Refund request not found', ErrorCode.REFUND_NOT_FOUND, 404);
+      }
+      if (message.includes('refund already exported')) {
+        return fail('This refund is already in a SEPA batch', ErrorCode.ALREADY_EXPORTED, 409, error.message);
+      }
+      if (message.includes('refund already reviewed')) {
+        return fail('This refund already has this status', ErrorCode.ALREADY_REVIEWED, 409, error.message);
+      }
+      if (message.includes('invalid')) {
+        return fail(error.message, ErrorCode.INVALID_REQUEST, 400);
+      }
+      return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500, error.message);
+    }
+
+    console.log(`[${requestId}] Refund ${body.refund_id}: ${result.previous_status} → ${result.status}`);
+    return respond(result, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== REFUND REVIEW COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
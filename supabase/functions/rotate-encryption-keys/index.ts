@@ -0,0 +1,142 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { dataEncryptionService } from '../../../src/lib/encryption.ts'
+import { can, loadUserAccess, roleOf, PERMISSIONS } from '../_shared/permissions.ts'
+import { enableDatabaseAuditStorage } from '../_shared/audit-storage.ts'
+import { enableDatabaseKeyManager } from '../_shared/encryption-keys.ts'
+import { refundRecordStore } from '../_shared/refund-encryption.ts'
+
+/**
+ * Encryption Key Rotation Edge Function
+ *
+ * Replaces the active encryption keys and re-encrypts the stored refund IBANs
+ * and emails under the new data key. Refunds recorded before encryption are
+ * encrypted by the first run.
+ *
+ * Key Features:
+ * - Requires the manage_encryption_keys permission
+ * - New keys are wrapped by ENCRYPTION_MASTER_KEY; retired keys are kept so
+ *   refunds not re-encrypted yet stay readable
+ * - At most MAX_RECORDS_PER_RUN refunds per call: when the response has
+ *   complete: false, call again with { "resume": true } to continue without
+ *   rotating again
+ * - Decrypted values never leave the function
+ */
+
+interface RotateKeysRequest {
+  resume?: boolean;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  ENCRYPTION_ERROR = 'ENCRYPTION_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN'
+}
+
+// Each record is decrypted and encrypted again, with audit entries; keeps a
+// run well within the edge function time limit
+const MAX_RECORDS_PER_RUN = 500;
+
+enableDatabaseAuditStorage();
+const encryptionEnabled = enableDatabaseKeyManager();
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== ENCRYPTION KEY ROTATION STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    // Security check - only users granted manage_encryption_keys may rotate keys
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const access = await loadUserAccess(supabaseAdmin, user.id);
+    if (!can(access, PERMISSIONS.MANAGE_ENCRYPTION_KEYS)) {
+      console.warn(`[${requestId}] User ${user.id} is not allowed to rotate encryption keys. Role: ${roleOf(access)}`);
+      return fail('manage_encryption_keys permission required to rotate encryption keys', ErrorCode.FORBIDDEN, 403);
+    }
+
+    let body: RotateKeysRequest = {};
+    try {
+      const text = await req.text();
+      body = text ? JSON.parse(text) : {};
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    if (!encryptionEnabled) {
+      return fail('Encryption keys are not configured (ENCRYPTION_MASTER_KEY)', ErrorCode.ENCRYPTION_ERROR, 503);
+    }
+
+    const stores = [refundRecordStore(supabaseAdmin)];
+    const result = body?.resume === true
+      ? await dataEncryptionService.reencryptRecords(stores, MAX_RECORDS_PER_RUN)
+      : await dataEncryptionService.rotateKeys(stores, MAX_RECORDS_PER_RUN);
+
+    console.log(`[${requestId}] ${body?.resume === true ? 'Resumed' : 'Rotated'} by ${user.id}: active key ${result.activeKeyId}, ` +
+      `${result.reencrypted.refunds} refunds re-encrypted, ${result.failed.refunds.length} failed, complete: ${result.complete}`);
+
+    return respond({
+      success: result.failed.refunds.length === 0,
+      active_key_id: result.activeKeyId,
+      reencrypted: result.reencrypted,
+      failed: result.failed,
+      complete: result.complete,
+    }, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== ENCRYPTION KEY ROTATION COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
@@ -2,6 +2,7 @@ import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
 import Stripe from 'https://esm.sh/stripe@14.21.0';
+import { createStripeProvider, settleRecharge } from '../_shared/payment-providers.ts';
 
 // =====================================================
 // ENVIRONMENT CONFIGURATION
@@ -21,6 +22,9 @@ console.log(`[stripe-webhook] Initialized in ${isTestMode ? 'TEST' : 'LIVE'} mod
 
 const endpointSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET') || '';
 
+// Signature verification and checkout parsing shared with the other providers
+const stripeProvider = createStripeProvider(stripe, endpointSecret);
+
 // Create Supabase client with service role key for database operations
 const supabaseClient = createClient(
   Deno.env.get('SUPABASE_URL') || '',
@@ -74,48 +78,161 @@ function logError(requestId: string, message: string, error?: any) {
   console.error(JSON.stringify(logEntry));
 }
 
+// Events that take money back from a card, or close an unpaid session
+const REVERSAL_EVENT_TYPES: Record<string, 'refund' | 'dispute' | 'session_expired'> = {
+  'charge.refunded': 'refund',
+  'charge.dispute.created': 'dispute',
+  'checkout.session.expired': 'session_expired'
+};
+
 /**
- * Validates Stripe webhook signature (ASYNC VERSION for Deno)
+ * Finds the checkout session that created a payment intent, so a refund or
+ * dispute can be linked to recharges.stripe_session_id
  */
-async function verifyWebhookSignature(body: string, signature: string): Promise<Stripe.Event> {
-  try {
-    // Use the async version for Deno edge runtime
-    return await stripe.webhooks.constructEventAsync(body, signature, endpointSecret);
-  } catch (error) {
-    throw new Error(`Webhook signature verification failed: ${error.message}`);
+async function findSessionIdForPaymentIntent(paymentIntent: string | Stripe.PaymentIntent | null): Promise<string | null> {
+  const paymentIntentId = typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id;
+  if (!paymentIntentId) {
+    return null;
   }
+
+  const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 });
+  return sessions.data[0]?.id ?? null;
 }
 
 /**
- * Calls the simplified stored procedure for Stripe recharge processing
+ * Records a refund, dispute or expired session through the atomic stored
+ * procedure sp_process_stripe_reversal. The Stripe event id makes retries
+ * idempotent; refunds pass the total refunded on the charge so partial
+ * refunds are only debited once.
  */
-async function processStripeRecharge(
-  requestId: string,
-  cardId: string,
-  amount: number,
-  stripeSessionId: string,
-  stripeMetadata: any
-): Promise<any> {
-  logInfo(requestId, 'Calling sp_process_stripe_recharge', {
-    cardId,
-    amount,
-    stripeSessionId
+async function processStripeReversal(requestId: string, event: Stripe.Event): Promise<Response> {
+  const reversalType = REVERSAL_EVENT_TYPES[event.type];
+  let sessionId: string | null;
+  let objectId: string;
+  let amount = 0;
+  let details: Record<string, unknown> = {};
+
+  if (reversalType === 'session_expired') {
+    const session = event.data.object as Stripe.Checkout.Session;
+    sessionId = session.id;
+    objectId = session.id;
+    details = { card_id: session.metadata?.card_id || session.metadata?.cardId };
+
+    // Let the client start a new checkout with the same client_request_id
+    if (session.metadata?.client_request_id) {
+      await supabaseClient
+        .from('idempotency_keys')
+        .update({ status: 'failed', updated_at: new Date().toISOString() })
+        .eq('request_id', session.metadata.client_request_id)
+        .eq('source_function', 'create-stripe-checkout');
+    }
+  } else if (reversalType === 'refund') {
+    const charge = event.data.object as Stripe.Charge;
+    sessionId = await findSessionIdForPaymentIntent(charge.payment_intent);
+    objectId = charge.id;
+    amount = charge.amount_refunded / 100;
+    details = { charge_amount: charge.amount / 100, refunded: charge.refunded };
+  } else {
+    const dispute = event.data.object as Stripe.Dispute;
+    sessionId = await findSessionIdForPaymentIntent(dispute.payment_intent);
+    objectId = dispute.id;
+    amount = dispute.amount / 100;
+    details = {
+      charge_id: typeof dispute.charge === 'string' ? dispute.charge : dispute.charge?.id,
+      reason: dispute.reason,
+      dispute_status: dispute.status
+    };
+  }
+
+  if (!sessionId) {
+    logInfo(requestId, 'No checkout session for reversal, ignoring', { eventType: event.type, objectId });
+    return new Response(JSON.stringify({
+      received: true,
+      reversed: false,
+      message: 'No checkout session linked to this event',
+      eventType: event.type
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  logInfo(requestId, 'Calling sp_process_stripe_reversal', {
+    eventId: event.id,
+    reversalType,
+    sessionId,
+    amount
   });
 
-  const { data, error } = await supabaseClient.rpc('sp_process_stripe_recharge', {
-    card_id_in: cardId,
+  const { data, error } = await supabaseClient.rpc('sp_process_stripe_reversal', {
+    stripe_event_id_in: event.id,
+    reversal_type_in: reversalType,
+    stripe_session_id_in: sessionId,
+    stripe_object_id_in: objectId,
     amount_in: amount,
-    stripe_session_id_in: stripeSessionId,
-    stripe_metadata_in: stripeMetadata || {}
+    details_in: details
   });
 
   if (error) {
-    logError(requestId, 'Stored procedure call failed', error);
-    throw error;
+    // Refunds of sessions that never credited a card have nothing to reverse
+    if (error.message?.toLowerCase().includes('recharge not found')) {
+      logInfo(requestId, 'No recharge for session, nothing to reverse', { sessionId });
+      return new Response(JSON.stringify({
+        received: true,
+        reversed: false,
+        message: 'No recharge for this session',
+        sessionId
+      }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+
+    logError(requestId, 'Failed to process reversal', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Failed to process reversal',
+        details: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+
+  if (data?.duplicate) {
+    logInfo(requestId, 'Duplicate reversal event handled gracefully', { eventId: event.id });
+    return new Response(JSON.stringify({
+      received: true,
+      message: 'Duplicate event - already processed',
+      sessionId
+    }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
   }
 
-  logInfo(requestId, 'Stored procedure completed successfully', data);
-  return data;
+  const reversal = data?.reversal;
+  if (reversal?.uncovered_amount > 0) {
+    logError(requestId, 'Card balance cannot cover reversal, card frozen', {
+      cardId: reversal.card_id,
+      uncovered: reversal.uncovered_amount,
+      monitoringEventId: reversal.monitoring_event_id
+    });
+  }
+
+  logInfo(requestId, 'Reversal processed successfully', { reversal });
+  return new Response(JSON.stringify({
+    received: true,
+    reversed: reversalType !== 'session_expired',
+    message: 'Reversal processed',
+    sessionId,
+    reversal
+  }), {
+    status: 200,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
 }
 
 // =====================================================
@@ -190,7 +307,7 @@ serve(async (req) => {
     // Verify webhook signature (ASYNC)
     let event: Stripe.Event;
     try {
-      event = await verifyWebhookSignature(body, signature);
+      event = await stripeProvider.verifyWebhook(body, req.headers);
       logInfo(requestId, 'Webhook signature verified successfully', {
         eventType: event.type,
         eventId: event.id
@@ -208,20 +325,38 @@ serve(async (req) => {
       );
     }
 
-    // Only process checkout.session.completed events
-    if (event.type !== 'checkout.session.completed') {
-      logInfo(requestId, 'Ignoring non-checkout event', { eventType: event.type });
+    if (REVERSAL_EVENT_TYPES[event.type]) {
+      try {
+        return await processStripeReversal(requestId, event);
+      } catch (error) {
+        logError(requestId, 'Failed to process reversal', error);
+        return new Response(
+          JSON.stringify({
+            error: 'Failed to process reversal',
+            details: error.message
+          }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+    }
+
+    const parsed = stripeProvider.toSettlement(event);
+
+    if (parsed.kind === 'ignore') {
+      logInfo(requestId, 'Ignoring non-checkout event', { eventType: parsed.eventType });
       return new Response(JSON.stringify({ 
         received: true, 
         message: 'Event type not processed',
-        eventType: event.type 
+        eventType: parsed.eventType 
       }), { 
         status: 200,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
 
-    // Extract session data
     const session = event.data.object as Stripe.Checkout.Session;
     logInfo(requestId, 'Processing checkout.session.completed event', {
       sessionId: session.id,
@@ -231,55 +366,17 @@ serve(async (req) => {
       amountTotal: session.amount_total
     });
 
-    // Validate payment is completed
-    if (session.payment_status !== 'paid') {
-      logError(requestId, 'Payment not completed', {
+    // Unpaid sessions, missing metadata or an invalid amount
+    if (parsed.kind === 'invalid') {
+      logError(requestId, parsed.error, {
         sessionId: session.id,
-        paymentStatus: session.payment_status
-      });
-      return new Response(
-        JSON.stringify({ error: 'Payment not completed' }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
-    }
-
-    // Extract metadata
-    const metadata = session.metadata || {};
-    const cardId = metadata.card_id || metadata.cardId;
-    // Support both 'amount' and 'original_amount' field names
-    const amount = metadata.amount || metadata.original_amount;
-    
-    logInfo(requestId, 'Extracted metadata fields', {
-      cardId,
-      amount,
-      hasAmount: !!metadata.amount,
-      hasOriginalAmount: !!metadata.original_amount,
-      allMetadataKeys: Object.keys(metadata)
-    });
-
-    // Enhanced validation with better error details
-    const missingFields: string[] = [];
-    if (!cardId) missingFields.push('card_id');
-    if (!amount) missingFields.push('amount');
-
-    if (missingFields.length > 0) {
-      logError(requestId, 'Missing required metadata', {
-        missingFields,
-        cardId,
-        amount,
-        allMetadata: metadata,
-        sessionId: session.id
+        paymentStatus: session.payment_status,
+        details: parsed.details
       });
       return new Response(
         JSON.stringify({ 
-          error: `Missing required metadata fields: ${missingFields.join(', ')}`,
-          details: {
-            received_metadata: metadata,
-            missing_fields: missingFields
-          }
+          error: parsed.error,
+          ...(parsed.details ? { details: parsed.details } : {})
         }), 
         { 
           status: 400,
@@ -288,31 +385,38 @@ serve(async (req) => {
       );
     }
 
-    // Validate amount
-    const numericAmount = parseFloat(amount);
-    if (isNaN(numericAmount) || numericAmount <= 0) {
-      logError(requestId, 'Invalid amount', { amount });
-      return new Response(
-        JSON.stringify({ error: 'Invalid amount in metadata' }), 
-        { 
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        }
-      );
-    }
+    const { cardId, amount: numericAmount } = parsed.settlement;
 
     // Process the recharge
     try {
-      const result = await processStripeRecharge(
-        requestId,
+      logInfo(requestId, 'Calling sp_process_provider_recharge', {
         cardId,
-        numericAmount,
-        session.id,
-        metadata
-      );
+        amount: numericAmount,
+        stripeSessionId: session.id
+      });
+
+      const outcome = await settleRecharge(supabaseClient, 'stripe', parsed.settlement);
 
-      // Check if it was a duplicate (expected behavior)
-      if (result && result.success === false && result.error === 'Duplicate Stripe session') {
+      if (outcome.status === 'not_credited') {
+        logError(requestId, 'Card not active, recharge not credited', {
+          cardId: outcome.cardId,
+          status: outcome.cardStatus,
+          sessionId: session.id
+        });
+        return new Response(JSON.stringify({
+          received: true,
+          credited: false,
+          message: 'Card not active - payment recorded for manual refund',
+          ...(outcome.cardStatus ? { cardStatus: outcome.cardStatus } : {}),
+          sessionId: session.id
+        }), {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+
+      // Duplicate deliveries are expected behaviour
+      if (outcome.status === 'duplicate') {
         logInfo(requestId, 'Duplicate session handled gracefully', {
           sessionId: session.id
         });
@@ -328,20 +432,21 @@ serve(async (req) => {
 
       // Success case
       logInfo(requestId, 'Webhook processed successfully', {
-        cardId,
+        cardId: outcome.cardId,
+        forwarded: outcome.forwarded,
         amount: numericAmount,
         sessionId: session.id,
-        result
+        result: outcome.result
       });
 
       return new Response(JSON.stringify({
         received: true,
         message: 'Webhook processed successfully',
         data: {
-          cardId,
+          cardId: outcome.cardId,
           amount: numericAmount,
           sessionId: session.id,
-          result
+          result: outcome.result
         }
       }), {
         status: 200,
@@ -0,0 +1,216 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { securityMiddleware } from '../../../src/lib/security-middleware.ts'
+import { extractClientIp, toMiddlewareRequest, verifyCardAccess } from '../_shared/card-secret.ts'
+import { enableDatabaseAuditStorage } from '../_shared/audit-storage.ts'
+import { enableDatabaseRateLimitStore } from '../_shared/rate-limit-store.ts'
+import { enableDatabaseKeyManager } from '../_shared/encryption-keys.ts'
+import { encryptRefundFields } from '../_shared/refund-encryption.ts'
+import { buildRefundConfirmationEmail, getSmtpConfig, sendMail } from '../_shared/mailer.ts'
+
+/**
+ * Refund Request Submission Edge Function
+ *
+ * Records a customer's end-of-festival refund request from the public refund
+ * form. Replaces direct inserts into refunds by the anonymous role.
+ *
+ * Key Features:
+ * - Cards with a printed PIN / QR token require it (server-side check)
+ * - Lockout per client and card after repeated wrong secrets, with a higher
+ *   per-card ceiling across all clients
+ * - Per-IP rate limiting through SecurityMiddleware (financial tier)
+ * - Basic validation of names, email and IBAN before storage
+ * - IBAN and email stored encrypted; without persistent encryption keys
+ *   (ENCRYPTION_MASTER_KEY) requests are refused rather than stored in clear
+ * - Requests start in the 'submitted' status with a tracking reference,
+ *   emailed to the guest (a failed email does not fail the request)
+ */
+
+interface RefundRequestBody {
+  card_id: string;
+  secret?: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  account: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  RATE_LIMITED = 'RATE_LIMITED',
+  ENCRYPTION_ERROR = 'ENCRYPTION_ERROR',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR'
+}
+
+const MAX_NAME_LENGTH = 100;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const IBAN_PATTERN = /^[A-Z]{2}[0-9]{2}[A-Z0-9]{10,30}$/;
+
+function validateRefundRequest(body: RefundRequestBody): string[] {
+  const errors: string[] = [];
+
+  for (const field of ['first_name', 'last_name'] as const) {
+    const value = body[field];
+    if (typeof value !== 'string' || value.trim() === '' || value.trim().length > MAX_NAME_LENGTH) {
+      errors.push(`${field} is required and must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+  }
+
+  if (typeof body.email !== 'string' || !EMAIL_PATTERN.test(body.email.trim())) {
+    errors.push('email must be a valid email address');
+  }
+
+  if (typeof body.account !== 'string' || !IBAN_PATTERN.test(body.account.replace(/\s/g, '').toUpperCase())) {
+    errors.push('account must be a valid IBAN');
+  }
+
+  return errors;
+}
+
+// SecurityMiddleware audit entries go to the audit_logs table and its
+// counters to rate_limit_hits, shared by all instances
+enableDatabaseAuditStorage();
+enableDatabaseRateLimitStore();
+// Refund IBANs and emails are encrypted with keys kept in encryption_keys
+const encryptionEnabled = enableDatabaseKeyManager();
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+
+  console.log(`[${requestId}] ===== REFUND REQUEST SUBMISSION STARTED =====`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number, extraHeaders: Record<string, string> = {}) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders, ...extraHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: string, status: number, extra: Record<string, unknown> = {}, extraHeaders?: Record<string, string>) =>
+    respond({ success: false, error, error_code: errorCode, ...extra }, status, extraHeaders);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    const security = await securityMiddleware.processRequest(toMiddlewareRequest(req), { rateLimitTier: 'financial' });
+    if (!security.success) {
+      console.warn(`[${requestId}] Rejected by security middleware: ${security.error}`);
+      return fail(security.error || 'Request rejected', ErrorCode.RATE_LIMITED, security.statusCode || 429);
+    }
+
+    let body: RefundRequestBody;
+    try {
+      body = await req.json();
+    } catch {
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const validationErrors = validateRefundRequest(body);
+    if (validationErrors.length > 0) {
+      console.log(`[${requestId}] Validation failed:`, validationErrors);
+      return fail('Validation failed', ErrorCode.VALIDATION_ERROR, 400, { details: validationErrors });
+    }
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const cardId = typeof body.card_id === 'string' ? body.card_id.trim() : '';
+    const access = await verifyCardAccess(supabaseAdmin, cardId, body.secret, extractClientIp(req));
+    if (!access.ok) {
+      console.log(`[${requestId}] Card access denied: ${access.errorCode}`);
+      return fail(access.error, access.errorCode, access.status, {
+        remaining_attempts: access.remainingAttempts,
+        retry_after_seconds: access.retryAfterSeconds,
+      }, access.retryAfterSeconds ? { 'Retry-After': String(access.retryAfterSeconds) } : undefined);
+    }
+
+    if (!encryptionEnabled) {
+      console.error(`[${requestId}] Encryption keys unavailable, refund request not stored`);
+      return fail('Refund requests cannot be recorded at the moment', ErrorCode.ENCRYPTION_ERROR, 503);
+    }
+
+    let encryptedFields;
+    try {
+      encryptedFields = await encryptRefundFields({
+        email: body.email.trim(),
+        account: body.account.replace(/\s/g, '').toUpperCase(),
+      });
+    } catch (encryptionError) {
+      console.error(`[${requestId}] Failed to encrypt refund request:`, encryptionError?.message);
+      return fail('Refund requests cannot be recorded at the moment', ErrorCode.ENCRYPTION_ERROR, 503);
+    }
+
+    const { data: refund, error: insertError } = await supabaseAdmin
+      .from('refunds')
+      .insert({
+        id_card: access.card.id,
+        'first name': body.first_name.trim(),
+        'last name': body.last_name.trim(),
+        ...encryptedFields,
+      })
+      .select('id, tracking_ref')
+      .single();
+
+    if (insertError) {
+      console.error(`[${requestId}] Failed to store refund request:`, insertError.message);
+      return fail('Database error occurred', ErrorCode.DATABASE_ERROR, 500);
+    }
+
+    console.log(`[${requestId}] Refund request ${refund.id} (${refund.tracking_ref}) recorded for card ${access.card.id}`);
+
+    let confirmationSent = false;
+    const smtpConfig = getSmtpConfig();
+    if (!smtpConfig) {
+      console.warn(`[${requestId}] SMTP not configured, no confirmation email sent`);
+    } else {
+      try {
+        await sendMail(smtpConfig, buildRefundConfirmationEmail({
+          email: body.email.trim(),
+          firstName: body.first_name.trim(),
+          trackingRef: refund.tracking_ref,
+          cardId: access.card.id,
+        }));
+        confirmationSent = true;
+
+        await supabaseAdmin
+          .from('refunds')
+          .update({ confirmation_sent_at: new Date().toISOString() })
+          .eq('id', refund.id);
+      } catch (mailError) {
+        console.error(`[${requestId}] Confirmation email failed for refund ${refund.id}:`, mailError?.message);
+      }
+    }
+
+    return respond({
+      success: true,
+      refund_id: refund.id,
+      tracking_ref: refund.tracking_ref,
+      status: 'submitted',
+      confirmation_sent: confirmationSent,
+    }, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500);
+  }
+});
@@ -0,0 +1,187 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { securityMiddleware } from '../../../src/lib/security-middleware.ts'
+import { recordStepUp, selectTotpFactor, verifyTotpCode, TOTP_CODE_PATTERN } from '../_shared/step-up.ts'
+import { enableDatabaseRateLimitStore } from '../_shared/rate-limit-store.ts'
+
+/**
+ * Two-Factor Verification Edge Function
+ *
+ * Checks a TOTP code of the signed-in user. Used by the app to finish a
+ * sign-in (aal1 → aal2), to confirm a newly enrolled factor and to confirm
+ * sensitive operations (step-up).
+ *
+ * Key Features:
+ * - Verifies the code against Supabase Auth MFA as the user
+ * - Failed codes count towards SecurityConfig.auth.failedAttempts; the user
+ *   is locked out of code checks once maxAttempts is reached
+ * - Records the confirmation in step_up_verifications, required by
+ *   process-refunds, create-staff-user and process-manual-adjustment
+ * - Returns the aal2 session the app switches to
+ */
+
+interface VerifyStepUpRequest {
+  code: string;
+  // Factor being enrolled; defaults to the user's verified TOTP factor
+  factor_id?: string;
+}
+
+// Error codes for categorization
+enum ErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  FACTOR_NOT_FOUND = 'FACTOR_NOT_FOUND',
+  INVALID_CODE = 'INVALID_CODE',
+  TOO_MANY_ATTEMPTS = 'TOO_MANY_ATTEMPTS',
+  AUTH_SERVICE_ERROR = 'AUTH_SERVICE_ERROR',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  SERVER_ERROR = 'SERVER_ERROR',
+  UNAUTHORIZED = 'UNAUTHORIZED'
+}
+
+// Failed codes are counted in rate_limit_hits, shared by all instances
+enableDatabaseRateLimitStore();
+
+serve(async (req) => {
+  // Generate unique request ID for comprehensive logging and traceability
+  const requestId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  console.log(`[${requestId}] ===== TWO-FACTOR VERIFICATION STARTED =====`);
+  console.log(`[${requestId}] Timestamp: ${new Date().toISOString()}`);
+
+  // CORS headers for all responses
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  };
+
+  const respond = (body: Record<string, unknown>, status: number) => new Response(
+    JSON.stringify({ ...body, request_id: requestId }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders }, status }
+  );
+
+  const fail = (error: string, errorCode: ErrorCode, status: number, details?: unknown) =>
+    respond({ success: false, error, error_code: errorCode, details }, status);
+
+  try {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { status: 200, headers: corsHeaders });
+    }
+
+    if (req.method !== 'POST') {
+      console.log(`[${requestId}] Invalid method: ${req.method}`);
+      return fail('Method not allowed. Use POST.', ErrorCode.INVALID_REQUEST, 405);
+    }
+
+    const authHeader = req.headers.get('authorization');
+    const token = authHeader?.replace('Bearer ', '');
+    if (!authHeader || !token || token === authHeader) {
+      console.warn(`[${requestId}] Missing or malformed authorization header`);
+      return fail('Authorization header required. Use Bearer <token>', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+
+    // Create Supabase client with service role for database operations
+    const supabaseAdmin = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+    if (authError || !user) {
+      console.warn(`[${requestId}] JWT validation failed:`, authError?.message);
+      return fail('Invalid or expired authentication token', ErrorCode.UNAUTHORIZED, 401);
+    }
+
+    // Parse and validate request body
+    let body: VerifyStepUpRequest;
+    try {
+      body = await req.json();
+    } catch (parseError) {
+      console.error(`[${requestId}] Invalid JSON in request body:`, parseError);
+      return fail('Invalid JSON in request body', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const code = typeof body?.code === 'string' ? body.code.replace(/\s/g, '') : '';
+    if (!TOTP_CODE_PATTERN.test(code)) {
+      return fail('code must be the 6 digits shown by the authenticator app', ErrorCode.INVALID_REQUEST, 400);
+    }
+
+    const factor = selectTotpFactor(user.factors, typeof body.factor_id === 'string' ? body.factor_id : undefined);
+    if (!factor) {
+      console.warn(`[${requestId}] User ${user.id} has no matching TOTP factor`);
+      return fail('No authenticator app enrolled for this account', ErrorCode.FACTOR_NOT_FOUND, 404);
+    }
+
+    const lockoutKey = `two_factor:${user.id}`;
+    const lockout = await securityMiddleware.checkLockout(lockoutKey);
+    if (lockout.locked) {
+      console.warn(`[${requestId}] Code checks of user ${user.id} are locked`);
+      return respond({
+        success: false,
+        error: 'Too many invalid codes. Please try again later.',
+        error_code: ErrorCode.TOO_MANY_ATTEMPTS,
+        retry_after_seconds: Math.ceil((lockout.retryAfterMs ?? 0) / 1000),
+      }, 429);
+    }
+
+    console.log(`[${requestId}] Verifying ${factor.status} factor ${factor.id} of user ${user.id}`);
+    const verification = await verifyTotpCode({
+      supabaseUrl,
+      anonKey: Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      accessToken: token,
+      factorId: factor.id,
+      code,
+    });
+
+    if (verification.kind === 'error') {
+      console.error(`[${requestId}] Auth service error (${verification.status}): ${verification.message}`);
+      return fail('Unable to verify the code', ErrorCode.AUTH_SERVICE_ERROR, 502, verification.message);
+    }
+
+    if (verification.kind === 'invalid_code') {
+      const attempt = await securityMiddleware.recordFailedAttempt(lockoutKey);
+      console.warn(`[${requestId}] Invalid code for user ${user.id}, ${attempt.remainingAttempts} attempt(s) left`);
+      if (attempt.locked) {
+        return respond({
+          success: false,
+          error: 'Too many invalid codes. Please try again later.',
+          error_code: ErrorCode.TOO_MANY_ATTEMPTS,
+          retry_after_seconds: Math.ceil((attempt.retryAfterMs ?? 0) / 1000),
+        }, 429);
+      }
+      return respond({
+        success: false,
+        error: 'Invalid code',
+        error_code: ErrorCode.INVALID_CODE,
+        remaining_attempts: attempt.remainingAttempts,
+      }, 401);
+    }
+
+    await securityMiddleware.clearFailedAttempts(lockoutKey);
+
+    const recorded = await recordStepUp(supabaseAdmin, user.id, factor.id);
+    if ('error' in recorded) {
+      console.error(`[${requestId}] Failed to record step-up: ${recorded.error}`);
+      return fail('Failed to record the confirmation', ErrorCode.DATABASE_ERROR, 500, recorded.error);
+    }
+
+    console.log(`[${requestId}] Code confirmed for user ${user.id}`);
+    return respond({
+      success: true,
+      factor_id: factor.id,
+      verified_at: recorded.verifiedAt,
+      session: verification.session,
+    }, 200);
+
+  } catch (error) {
+    console.error(`[${requestId}] Unexpected error:`, error);
+    return fail('Internal server error', ErrorCode.SERVER_ERROR, 500, error?.message);
+  } finally {
+    console.log(`[${requestId}] ===== TWO-FACTOR VERIFICATION COMPLETED in ${Date.now() - startTime}ms =====`);
+  }
+});
@@ -0,0 +1,164 @@
+-- =====================================================
+-- Bar Product Catalogue Management
+-- =====================================================
+-- Adds archiving, ordering and scheduled per-edition price changes to
+-- bar_products, plus an audit trail of every catalogue modification.
+-- All writes go through the manage-bar-products Edge Function (service role).
+
+-- -----------------------------------------------------
+-- bar_products: lifecycle and ordering columns
+-- -----------------------------------------------------
+ALTER TABLE bar_products ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE bar_products ADD COLUMN IF NOT EXISTS is_archived BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE bar_products ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ;
+ALTER TABLE bar_products ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+ALTER TABLE bar_products ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE bar_products ADD CONSTRAINT bar_products_price_non_negative CHECK (price >= 0);
+ALTER TABLE bar_products ADD CONSTRAINT bar_products_deposit_or_return
+    CHECK (NOT (COALESCE(is_deposit, false) AND COALESCE(is_return, false)));
+
+-- Keep the existing alphabetical order within each category as the initial ordering
+UPDATE bar_products p
+SET sort_order = ordered.position
+FROM (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY category ORDER BY name) * 10 AS position
+    FROM bar_products
+) ordered
+WHERE p.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS idx_bar_products_active_order
+    ON bar_products(is_archived, category, sort_order);
+
+-- -----------------------------------------------------
+-- Scheduled price changes (per festival edition)
+-- -----------------------------------------------------
+CREATE TABLE IF NOT EXISTS bar_product_price_schedules (
+    id BIGSERIAL PRIMARY KEY,
+    product_id INTEGER NOT NULL REFERENCES bar_products(id) ON DELETE CASCADE,
+    edition_id TEXT,
+    price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+    effective_from TIMESTAMPTZ NOT NULL,
+    effective_until TIMESTAMPTZ,
+    created_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT bar_product_price_schedules_valid_window
+        CHECK (effective_until IS NULL OR effective_until > effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bar_product_price_schedules_product
+    ON bar_product_price_schedules(product_id, effective_from DESC);
+
+-- -----------------------------------------------------
+-- Catalogue audit trail
+-- -----------------------------------------------------
+CREATE TABLE IF NOT EXISTS bar_product_audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    product_id INTEGER REFERENCES bar_products(id) ON DELETE SET NULL,
+    action TEXT NOT NULL,
+    changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+    performed_by UUID,
+    request_id TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bar_product_audit_log_product
+    ON bar_product_audit_log(product_id, created_at DESC);
+
+-- -----------------------------------------------------
+-- Current catalogue as seen by bar terminals
+-- -----------------------------------------------------
+-- Resolves the scheduled price in effect right now, falling back to the base price.
+CREATE OR REPLACE VIEW bar_products_current AS
+SELECT
+    p.id,
+    p.name,
+    COALESCE(s.price, p.price) AS price,
+    p.price AS base_price,
+    p.category,
+    p.is_deposit,
+    p.is_return,
+    p.sort_order,
+    p.is_archived,
+    p.updated_at
+FROM bar_products p
+LEFT JOIN LATERAL (
+    SELECT price
+    FROM bar_product_price_schedules
+    WHERE product_id = p.id
+      AND effective_from <= NOW()
+      AND (effective_until IS NULL OR effective_until > NOW())
+    ORDER BY effective_from DESC
+    LIMIT 1
+) s ON true;
+
+-- -----------------------------------------------------
+-- Atomic reordering
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION sp_reorder_bar_products(
+    product_ids_in INTEGER[],
+    performed_by_in UUID DEFAULT NULL,
+    request_id_in TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    updated_count INTEGER;
+BEGIN
+    UPDATE bar_products p
+    SET sort_order = ordered.position * 10,
+        updated_at = NOW()
+    FROM unnest(product_ids_in) WITH ORDINALITY AS ordered(product_id, position)
+    WHERE p.id = ordered.product_id;
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    INSERT INTO bar_product_audit_log (product_id, action, changes, performed_by, request_id)
+    VALUES (NULL, 'reorder', jsonb_build_object('product_ids', to_jsonb(product_ids_in)), performed_by_in, request_id_in);
+
+    RETURN jsonb_build_object('success', true, 'updated_count', updated_count);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Touch updated_at on every product change
+CREATE OR REPLACE FUNCTION touch_bar_products_updated_at() RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at := NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_bar_products_updated_at ON bar_products;
+CREATE TRIGGER trg_bar_products_updated_at
+    BEFORE UPDATE ON bar_products
+    FOR EACH ROW EXECUTE FUNCTION touch_bar_products_updated_at();
+
+-- -----------------------------------------------------
+-- Row-Level Security: terminals read, only the service role writes
+-- -----------------------------------------------------
+ALTER TABLE bar_product_price_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bar_product_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY bar_product_price_schedules_read ON bar_product_price_schedules
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY bar_product_audit_log_admin_read ON bar_product_audit_log
+    FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+-- Bar terminals subscribe to catalogue changes to invalidate their product cache
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'bar_products'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE bar_products;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'bar_product_price_schedules'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE bar_product_price_schedules;
+    END IF;
+END $$;
+
+GRANT EXECUTE ON FUNCTION sp_reorder_bar_products(INTEGER[], UUID, TEXT) TO service_role;
@@ -0,0 +1,106 @@
+-- =====================================================
+-- Points of Sale
+-- =====================================================
+-- Named points of sale (main bar, cocktail bar, food truck...) referenced by
+-- bar_orders.point_of_sale, each with its own product menu.
+-- A point of sale without any menu entry offers the whole active catalogue.
+
+CREATE TABLE IF NOT EXISTS points_of_sale (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Existing orders were all recorded with the default point_of_sale = 1
+INSERT INTO points_of_sale (id, name, description, sort_order) VALUES
+    (1, 'Bar principal', 'Bar central du festival', 10),
+    (2, 'Bar à cocktails', 'Cocktails et vins', 20),
+    (3, 'Food truck', 'Restauration et softs', 30)
+ON CONFLICT (id) DO NOTHING;
+
+SELECT setval('points_of_sale_id_seq', GREATEST((SELECT MAX(id) FROM points_of_sale), 1));
+
+CREATE TABLE IF NOT EXISTS point_of_sale_products (
+    point_of_sale_id INTEGER NOT NULL REFERENCES points_of_sale(id) ON DELETE CASCADE,
+    product_id INTEGER NOT NULL REFERENCES bar_products(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (point_of_sale_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_point_of_sale_products_product
+    ON point_of_sale_products(product_id);
+
+-- Orders can now be reported per point of sale
+CREATE INDEX IF NOT EXISTS idx_bar_orders_point_of_sale_created
+    ON bar_orders(point_of_sale, created_at);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints
+        WHERE constraint_name = 'bar_orders_point_of_sale_fkey'
+    ) THEN
+        ALTER TABLE bar_orders
+            ADD CONSTRAINT bar_orders_point_of_sale_fkey
+            FOREIGN KEY (point_of_sale) REFERENCES points_of_sale(id);
+    END IF;
+END $$;
+
+-- Replace a point of sale's menu in one statement
+CREATE OR REPLACE FUNCTION sp_set_point_of_sale_products(
+    point_of_sale_id_in INTEGER,
+    product_ids_in INTEGER[],
+    performed_by_in UUID DEFAULT NULL,
+    request_id_in TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM points_of_sale WHERE id = point_of_sale_id_in) THEN
+        RAISE EXCEPTION 'Point of sale not found: %', point_of_sale_id_in;
+    END IF;
+
+    DELETE FROM point_of_sale_products WHERE point_of_sale_id = point_of_sale_id_in;
+
+    INSERT INTO point_of_sale_products (point_of_sale_id, product_id)
+    SELECT point_of_sale_id_in, product_id
+    FROM unnest(product_ids_in) AS product_id
+    ON CONFLICT DO NOTHING;
+
+    INSERT INTO bar_product_audit_log (product_id, action, changes, performed_by, request_id)
+    VALUES (
+        NULL,
+        'set_point_of_sale_products',
+        jsonb_build_object('point_of_sale_id', point_of_sale_id_in, 'product_ids', to_jsonb(product_ids_in)),
+        performed_by_in,
+        request_id_in
+    );
+
+    RETURN jsonb_build_object('success', true, 'product_count', COALESCE(array_length(product_ids_in, 1), 0));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row-Level Security: terminals read, only the service role writes
+ALTER TABLE points_of_sale ENABLE ROW LEVEL SECURITY;
+ALTER TABLE point_of_sale_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY points_of_sale_read ON points_of_sale
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY point_of_sale_products_read ON point_of_sale_products
+    FOR SELECT TO authenticated USING (true);
+
+-- Bar terminals follow menu changes live
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'point_of_sale_products'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE point_of_sale_products;
+    END IF;
+END $$;
+
+GRANT EXECUTE ON FUNCTION sp_set_point_of_sale_products(INTEGER, INTEGER[], UUID, TEXT) TO service_role;
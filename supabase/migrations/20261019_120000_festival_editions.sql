@@ -0,0 +1,165 @@
+-- =====================================================
+-- Festival Editions
+-- =====================================================
+-- Replaces the editions hard-coded in the admin dashboard. Each edition has a
+-- status lifecycle (upcoming -> live -> closed); the single live edition is the
+-- "active edition" stamped on every bar order and recharge.
+
+CREATE TABLE IF NOT EXISTS editions (
+    id TEXT PRIMARY KEY CHECK (id ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+    name TEXT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'upcoming' CHECK (status IN ('upcoming', 'live', 'closed')),
+    opened_at TIMESTAMPTZ,
+    closed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT editions_valid_dates CHECK (end_date >= start_date)
+);
+
+-- At most one live edition at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_editions_single_live
+    ON editions ((status)) WHERE status = 'live';
+
+CREATE INDEX IF NOT EXISTS idx_editions_start_date ON editions(start_date);
+
+-- Editions previously hard-coded in Dashboard.tsx
+INSERT INTO editions (id, name, start_date, end_date, status) VALUES
+    ('may-8th', '8 Mai', '2025-05-08', '2025-05-09', 'closed'),
+    ('june-19th', '19 Juin', '2025-06-19', '2025-06-20', 'closed'),
+    ('july-10th', '10 Juillet', '2025-07-10', '2025-07-11', 'closed'),
+    ('august-7th', '7 Août', '2025-08-07', '2025-08-08', 'closed'),
+    ('september-11th', '11 Septembre', '2025-09-11', '2025-09-12', 'upcoming'),
+    ('october-9th', '9 Octobre', '2025-10-09', '2025-10-10', 'upcoming')
+ON CONFLICT (id) DO NOTHING;
+
+-- -----------------------------------------------------
+-- Stamp orders and recharges with the active edition
+-- -----------------------------------------------------
+ALTER TABLE bar_orders ADD COLUMN IF NOT EXISTS edition_id TEXT REFERENCES editions(id);
+ALTER TABLE recharges ADD COLUMN IF NOT EXISTS edition_id TEXT REFERENCES editions(id);
+
+CREATE INDEX IF NOT EXISTS idx_bar_orders_edition ON bar_orders(edition_id);
+CREATE INDEX IF NOT EXISTS idx_recharges_edition ON recharges(edition_id);
+
+-- Backfill historical rows from the edition date ranges (CET festival days)
+UPDATE bar_orders o
+SET edition_id = e.id
+FROM editions e
+WHERE o.edition_id IS NULL
+  AND (o.created_at AT TIME ZONE 'Europe/Brussels')::date BETWEEN e.start_date AND e.end_date;
+
+UPDATE recharges r
+SET edition_id = e.id
+FROM editions e
+WHERE r.edition_id IS NULL
+  AND (r.created_at AT TIME ZONE 'Europe/Brussels')::date BETWEEN e.start_date AND e.end_date;
+
+-- Price schedules were keyed by free-text edition ids until now
+UPDATE bar_product_price_schedules s
+SET edition_id = NULL
+WHERE edition_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM editions e WHERE e.id = s.edition_id);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'bar_product_price_schedules_edition_id_fkey'
+    ) THEN
+        ALTER TABLE bar_product_price_schedules
+            ADD CONSTRAINT bar_product_price_schedules_edition_id_fkey
+            FOREIGN KEY (edition_id) REFERENCES editions(id);
+    END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION get_active_edition_id() RETURNS TEXT AS $$
+    SELECT id FROM editions WHERE status = 'live' LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Done in a trigger so every writer (stored procedures, Stripe webhook, manual
+-- adjustments) stamps the edition without having to know about it
+CREATE OR REPLACE FUNCTION stamp_active_edition() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.edition_id IS NULL THEN
+        NEW.edition_id := get_active_edition_id();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_bar_orders_stamp_edition ON bar_orders;
+CREATE TRIGGER trg_bar_orders_stamp_edition
+    BEFORE INSERT ON bar_orders
+    FOR EACH ROW EXECUTE FUNCTION stamp_active_edition();
+
+DROP TRIGGER IF EXISTS trg_recharges_stamp_edition ON recharges;
+CREATE TRIGGER trg_recharges_stamp_edition
+    BEFORE INSERT ON recharges
+    FOR EACH ROW EXECUTE FUNCTION stamp_active_edition();
+
+-- -----------------------------------------------------
+-- Status lifecycle
+-- -----------------------------------------------------
+-- upcoming -> live, live -> closed, closed -> live (reopening a day closed by mistake)
+CREATE OR REPLACE FUNCTION sp_set_edition_status(
+    edition_id_in TEXT,
+    status_in TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    current_status TEXT;
+    live_edition TEXT;
+BEGIN
+    SELECT status INTO current_status FROM editions WHERE id = edition_id_in FOR UPDATE;
+
+    IF current_status IS NULL THEN
+        RAISE EXCEPTION 'Edition not found: %', edition_id_in;
+    END IF;
+
+    IF current_status = status_in THEN
+        RETURN jsonb_build_object('success', true, 'status', status_in, 'changed', false);
+    END IF;
+
+    IF NOT ((current_status = 'upcoming' AND status_in = 'live')
+         OR (current_status = 'live' AND status_in = 'closed')
+         OR (current_status = 'closed' AND status_in = 'live')) THEN
+        RAISE EXCEPTION 'Invalid status transition: % -> %', current_status, status_in;
+    END IF;
+
+    IF status_in = 'live' THEN
+        SELECT id INTO live_edition FROM editions WHERE status = 'live' AND id <> edition_id_in;
+        IF live_edition IS NOT NULL THEN
+            RAISE EXCEPTION 'Another edition is already live: %', live_edition;
+        END IF;
+    END IF;
+
+    UPDATE editions
+    SET status = status_in,
+        opened_at = CASE WHEN status_in = 'live' THEN COALESCE(opened_at, NOW()) ELSE opened_at END,
+        closed_at = CASE WHEN status_in = 'closed' THEN NOW() ELSE NULL END,
+        updated_at = NOW()
+    WHERE id = edition_id_in;
+
+    RETURN jsonb_build_object('success', true, 'status', status_in, 'previous_status', current_status, 'changed', true);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row-Level Security: everyone signed in reads, only the service role writes
+ALTER TABLE editions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY editions_read ON editions
+    FOR SELECT TO authenticated USING (true);
+
+GRANT EXECUTE ON FUNCTION sp_set_edition_status(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION get_active_edition_id() TO authenticated, service_role;
+
+-- Dashboards follow status switches live
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'editions'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE editions;
+    END IF;
+END $$;
@@ -0,0 +1,208 @@
+-- =====================================================
+-- Bar Order Refunds (voids and itemised refunds)
+-- =====================================================
+-- Reverses a mistaken bar order, fully or line by line, crediting the card
+-- atomically. Every reversal is linked to the original bar_orders row and
+-- protected by client_request_id idempotency like sp_process_bar_order.
+
+ALTER TABLE bar_orders ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE bar_order_items ADD COLUMN IF NOT EXISTS refunded_quantity INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS bar_order_refunds (
+    id SERIAL PRIMARY KEY,
+    order_id INTEGER NOT NULL REFERENCES bar_orders(id),
+    card_id TEXT NOT NULL,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    refund_type TEXT NOT NULL CHECK (refund_type IN ('void', 'partial')),
+    reason TEXT NOT NULL,
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    previous_balance DECIMAL(10,2) NOT NULL,
+    new_balance DECIMAL(10,2) NOT NULL,
+    authorized_by TEXT NOT NULL CHECK (authorized_by IN ('admin', 'supervisor_pin')),
+    performed_by UUID,
+    client_request_id TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bar_order_refunds_order ON bar_order_refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_bar_order_refunds_card ON bar_order_refunds(card_id, created_at);
+
+-- Refund a bar order. items_in is a list of {order_item_id, quantity};
+-- NULL or an empty list voids everything not refunded yet.
+CREATE OR REPLACE FUNCTION sp_refund_bar_order(
+    order_id_in INTEGER,
+    items_in JSONB,
+    reason_in TEXT,
+    client_request_id_in TEXT,
+    authorized_by_in TEXT,
+    performed_by_in UUID DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    order_record RECORD;
+    item_record RECORD;
+    requested_quantity INTEGER;
+    refund_lines JSONB := '[]'::jsonb;
+    refund_amount DECIMAL := 0;
+    is_full_void BOOLEAN := items_in IS NULL OR jsonb_array_length(items_in) = 0;
+    current_balance DECIMAL;
+    new_balance DECIMAL;
+    refund_id_out INT;
+    result JSONB;
+BEGIN
+    -- Check idempotency
+    SELECT response_payload INTO result
+    FROM idempotency_keys
+    WHERE request_id = client_request_id_in AND status = 'completed';
+
+    IF result IS NOT NULL THEN
+        RETURN result || jsonb_build_object('duplicate', true);
+    END IF;
+
+    INSERT INTO idempotency_keys (request_id, source_function, status)
+    VALUES (client_request_id_in, 'sp_refund_bar_order', 'processing')
+    ON CONFLICT (request_id) DO NOTHING;
+
+    BEGIN
+        SELECT * INTO order_record FROM bar_orders WHERE id = order_id_in FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Order not found: %', order_id_in;
+        END IF;
+
+        IF order_record.status = 'refunded' THEN
+            RAISE EXCEPTION 'Order already refunded: %', order_id_in;
+        END IF;
+
+        -- Requested lines, with return lines (negative amounts) netted out
+        FOR item_record IN
+            SELECT * FROM bar_order_items WHERE order_id = order_id_in ORDER BY id FOR UPDATE
+        LOOP
+            IF is_full_void THEN
+                requested_quantity := item_record.quantity - item_record.refunded_quantity;
+            ELSE
+                SELECT COALESCE(SUM((line->>'quantity')::INT), 0) INTO requested_quantity
+                FROM jsonb_array_elements(items_in) AS line
+                WHERE (line->>'order_item_id')::INT = item_record.id;
+            END IF;
+
+            CONTINUE WHEN requested_quantity = 0;
+
+            IF requested_quantity < 0 OR requested_quantity > item_record.quantity - item_record.refunded_quantity THEN
+                RAISE EXCEPTION 'Refund quantity exceeds remaining quantity for item %', item_record.id;
+            END IF;
+
+            UPDATE bar_order_items
+            SET refunded_quantity = refunded_quantity + requested_quantity
+            WHERE id = item_record.id;
+
+            refund_amount := refund_amount + requested_quantity * item_record.price
+                * CASE WHEN item_record.is_return THEN -1 ELSE 1 END;
+
+            refund_lines := refund_lines || jsonb_build_object(
+                'order_item_id', item_record.id,
+                'product_name', item_record.product_name,
+                'quantity', requested_quantity,
+                'unit_price', item_record.price,
+                'is_return', item_record.is_return
+            );
+        END LOOP;
+
+        IF NOT is_full_void AND jsonb_array_length(refund_lines) <> (
+            SELECT COUNT(DISTINCT line->>'order_item_id') FROM jsonb_array_elements(items_in) AS line
+        ) THEN
+            RAISE EXCEPTION 'Order item not found on order %', order_id_in;
+        END IF;
+
+        IF refund_amount <= 0 THEN
+            RAISE EXCEPTION 'Nothing to refund on order %', order_id_in;
+        END IF;
+
+        -- Credit the card
+        SELECT amount INTO current_balance
+        FROM table_cards
+        WHERE id = order_record.card_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Card not found: %', order_record.card_id;
+        END IF;
+
+        new_balance := current_balance + refund_amount;
+
+        UPDATE table_cards
+        SET amount = new_balance
+        WHERE id = order_record.card_id;
+
+        UPDATE bar_orders
+        SET refunded_amount = refunded_amount + refund_amount,
+            status = CASE
+                WHEN NOT EXISTS (
+                    SELECT 1 FROM bar_order_items
+                    WHERE order_id = order_id_in AND refunded_quantity < quantity
+                ) THEN 'refunded'
+                ELSE 'partially_refunded'
+            END
+        WHERE id = order_id_in;
+
+        UPDATE card_statistics
+        SET total_amount_spent = GREATEST(total_amount_spent - refund_amount, 0),
+            last_updated = NOW()
+        WHERE card_id = order_record.card_id;
+
+        INSERT INTO bar_order_refunds (
+            order_id, card_id, amount, refund_type, reason, items,
+            previous_balance, new_balance, authorized_by, performed_by, client_request_id
+        ) VALUES (
+            order_id_in, order_record.card_id, refund_amount,
+            CASE WHEN is_full_void THEN 'void' ELSE 'partial' END,
+            reason_in, refund_lines, current_balance, new_balance,
+            authorized_by_in, performed_by_in, client_request_id_in
+        ) RETURNING id INTO refund_id_out;
+
+        INSERT INTO app_transaction_log (
+            card_id, transaction_type, status, amount_involved,
+            previous_balance, new_balance, details,
+            edge_function_name, client_request_id
+        ) VALUES (
+            order_record.card_id, 'bar_order_refund', 'completed', refund_amount,
+            current_balance, new_balance,
+            jsonb_build_object('order_id', order_id_in, 'refund_id', refund_id_out, 'reason', reason_in, 'items', refund_lines),
+            'refund-bar-order', client_request_id_in
+        );
+
+        result := jsonb_build_object(
+            'success', true,
+            'refund_id', refund_id_out,
+            'order_id', order_id_in,
+            'refund_type', CASE WHEN is_full_void THEN 'void' ELSE 'partial' END,
+            'amount', refund_amount,
+            'items', refund_lines,
+            'previous_balance', current_balance,
+            'new_balance', new_balance
+        );
+
+        UPDATE idempotency_keys
+        SET status = 'completed', response_payload = result, updated_at = NOW()
+        WHERE request_id = client_request_id_in;
+
+        RETURN result;
+
+    EXCEPTION WHEN OTHERS THEN
+        UPDATE idempotency_keys
+        SET status = 'failed',
+            response_payload = jsonb_build_object('error', SQLERRM),
+            updated_at = NOW()
+        WHERE request_id = client_request_id_in;
+
+        RAISE;
+    END;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row-Level Security: staff read refunds, only the service role writes
+ALTER TABLE bar_order_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY bar_order_refunds_read ON bar_order_refunds
+    FOR SELECT TO authenticated USING (true);
+
+GRANT EXECUTE ON FUNCTION sp_refund_bar_order(INTEGER, JSONB, TEXT, TEXT, TEXT, UUID) TO service_role;
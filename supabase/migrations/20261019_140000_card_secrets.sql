@@ -0,0 +1,24 @@
+-- =====================================================
+-- Card Secrets (printed PIN / QR token)
+-- =====================================================
+-- Optional per-card secret, separate from the NFC id, required by the public
+-- balance, statement and refund pages. Only an HMAC of the secret is stored;
+-- the plain value is shown once to the admin who issues it for printing.
+-- Verification and lockout happen in the card-access edge functions.
+
+CREATE TABLE IF NOT EXISTS card_secrets (
+    card_id TEXT PRIMARY KEY REFERENCES table_cards(id) ON DELETE CASCADE,
+    secret_hash TEXT NOT NULL,
+    issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    issued_by UUID,
+    reissue_count INTEGER NOT NULL DEFAULT 0
+);
+
+-- Row-Level Security without policies: hashes are only reachable by the
+-- service role
+ALTER TABLE card_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Public pages now read cards and submit refund requests through edge
+-- functions that check the secret, so the anonymous role loses direct access
+REVOKE SELECT ON table_cards FROM anon;
+REVOKE INSERT ON refunds FROM anon;
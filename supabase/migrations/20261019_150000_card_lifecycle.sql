@@ -0,0 +1,284 @@
+-- =====================================================
+-- Card Lifecycle (active / blocked / lost / retired)
+-- =====================================================
+-- Lost or stolen cards can be blocked, and a card can be replaced by (or
+-- merged into) another one, moving its balance and history. The balance of a
+-- card that is not active cannot change: a trigger rejects the update, so
+-- every stored procedure that debits or credits a card (bar orders, recharges,
+-- Stripe settlement, order refunds) enforces the status atomically.
+
+ALTER TABLE table_cards ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'blocked', 'lost', 'retired'));
+ALTER TABLE table_cards ADD COLUMN IF NOT EXISTS status_reason TEXT;
+ALTER TABLE table_cards ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+ALTER TABLE table_cards ADD COLUMN IF NOT EXISTS replaced_by TEXT REFERENCES table_cards(id);
+
+-- One row per lifecycle step, so a replacement can be audited step by step
+CREATE TABLE IF NOT EXISTS card_lifecycle_events (
+    id SERIAL PRIMARY KEY,
+    card_id TEXT NOT NULL REFERENCES table_cards(id),
+    event_type TEXT NOT NULL CHECK (event_type IN (
+        'status_change', 'balance_transfer_out', 'balance_transfer_in', 'history_moved'
+    )),
+    from_status TEXT,
+    to_status TEXT,
+    amount DECIMAL(10,2),
+    related_card_id TEXT,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    reason TEXT,
+    performed_by UUID,
+    client_request_id TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_lifecycle_events_card ON card_lifecycle_events(card_id, created_at);
+
+-- Reject balance changes on cards that are not active. sp_replace_card moves
+-- the balance off a blocked or lost card and sets app.card_lifecycle to do so.
+CREATE OR REPLACE FUNCTION enforce_card_status() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.amount IS DISTINCT FROM OLD.amount
+       AND OLD.status <> 'active'
+       AND COALESCE(current_setting('app.card_lifecycle', true), '') <> 'on' THEN
+        RAISE EXCEPTION 'Card not active: % is %', OLD.id, OLD.status;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS table_cards_enforce_status ON table_cards;
+CREATE TRIGGER table_cards_enforce_status
+    BEFORE UPDATE OF amount ON table_cards
+    FOR EACH ROW EXECUTE FUNCTION enforce_card_status();
+
+-- Block, unblock, declare lost or retire a card. Retiring requires an empty
+-- balance; use sp_replace_card to move money first.
+CREATE OR REPLACE FUNCTION sp_set_card_status(
+    card_id_in TEXT,
+    status_in TEXT,
+    reason_in TEXT,
+    performed_by_in UUID DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    card_record RECORD;
+BEGIN
+    IF status_in NOT IN ('active', 'blocked', 'lost', 'retired') THEN
+        RAISE EXCEPTION 'Invalid card status: %', status_in;
+    END IF;
+
+    SELECT * INTO card_record FROM table_cards WHERE id = card_id_in FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Card not found: %', card_id_in;
+    END IF;
+
+    IF card_record.status = status_in THEN
+        RETURN jsonb_build_object('success', true, 'card_id', card_id_in, 'status', status_in, 'changed', false);
+    END IF;
+
+    IF card_record.status = 'retired' THEN
+        RAISE EXCEPTION 'Card retired: % cannot change status', card_id_in;
+    END IF;
+
+    IF status_in = 'retired' AND COALESCE(card_record.amount, 0) <> 0 THEN
+        RAISE EXCEPTION 'Card balance not empty: % still holds %', card_id_in, card_record.amount;
+    END IF;
+
+    UPDATE table_cards
+    SET status = status_in,
+        status_reason = reason_in,
+        status_changed_at = NOW()
+    WHERE id = card_id_in;
+
+    INSERT INTO card_lifecycle_events (card_id, event_type, from_status, to_status, reason, performed_by)
+    VALUES (card_id_in, 'status_change', card_record.status, status_in, reason_in, performed_by_in);
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'card_id', card_id_in,
+        'status', status_in,
+        'previous_status', card_record.status,
+        'changed', true
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace a card by a new one (created if unknown) or merge it into an
+-- existing active card: the balance and history move to the target, and the
+-- old card is retired and points to its replacement.
+CREATE OR REPLACE FUNCTION sp_replace_card(
+    old_card_id_in TEXT,
+    new_card_id_in TEXT,
+    reason_in TEXT,
+    client_request_id_in TEXT,
+    performed_by_in UUID DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    old_card RECORD;
+    new_card RECORD;
+    moved_amount DECIMAL;
+    target_previous_balance DECIMAL;
+    is_merge BOOLEAN := false;
+    moved_counts JSONB;
+    moved_recharges INT;
+    moved_orders INT;
+    moved_order_refunds INT;
+    moved_refund_requests INT;
+    result JSONB;
+BEGIN
+    -- Check idempotency
+    SELECT response_payload INTO result
+    FROM idempotency_keys
+    WHERE request_id = client_request_id_in AND status = 'completed';
+
+    IF result IS NOT NULL THEN
+        RETURN result || jsonb_build_object('duplicate', true);
+    END IF;
+
+    INSERT INTO idempotency_keys (request_id, source_function, status)
+    VALUES (client_request_id_in, 'sp_replace_card', 'processing')
+    ON CONFLICT (request_id) DO NOTHING;
+
+    BEGIN
+        IF old_card_id_in = new_card_id_in THEN
+            RAISE EXCEPTION 'Replacement card must differ from card %', old_card_id_in;
+        END IF;
+
+        SELECT * INTO old_card FROM table_cards WHERE id = old_card_id_in FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Card not found: %', old_card_id_in;
+        END IF;
+
+        IF old_card.status = 'retired' THEN
+            RAISE EXCEPTION 'Card retired: % was already replaced', old_card_id_in;
+        END IF;
+
+        SELECT * INTO new_card FROM table_cards WHERE id = new_card_id_in FOR UPDATE;
+
+        IF FOUND THEN
+            IF new_card.status <> 'active' THEN
+                RAISE EXCEPTION 'Replacement card not active: % is %', new_card_id_in, new_card.status;
+            END IF;
+            is_merge := true;
+        ELSE
+            INSERT INTO table_cards (id, amount, status) VALUES (new_card_id_in, 0, 'active');
+            SELECT * INTO new_card FROM table_cards WHERE id = new_card_id_in FOR UPDATE;
+        END IF;
+
+        moved_amount := COALESCE(old_card.amount, 0);
+        target_previous_balance := COALESCE(new_card.amount, 0);
+
+        -- Step 1: retire the old card
+        UPDATE table_cards
+        SET status = 'retired',
+            status_reason = reason_in,
+            status_changed_at = NOW(),
+            replaced_by = new_card_id_in
+        WHERE id = old_card_id_in;
+
+        INSERT INTO card_lifecycle_events (card_id, event_type, from_status, to_status, related_card_id, reason, performed_by, client_request_id)
+        VALUES (old_card_id_in, 'status_change', old_card.status, 'retired', new_card_id_in, reason_in, performed_by_in, client_request_id_in);
+
+        -- Step 2: move the balance
+        PERFORM set_config('app.card_lifecycle', 'on', true);
+
+        UPDATE table_cards SET amount = 0 WHERE id = old_card_id_in;
+        UPDATE table_cards SET amount = target_previous_balance + moved_amount WHERE id = new_card_id_in;
+
+        PERFORM set_config('app.card_lifecycle', 'off', true);
+
+        INSERT INTO card_lifecycle_events (card_id, event_type, amount, related_card_id, reason, performed_by, client_request_id)
+        VALUES
+            (old_card_id_in, 'balance_transfer_out', moved_amount, new_card_id_in, reason_in, performed_by_in, client_request_id_in),
+            (new_card_id_in, 'balance_transfer_in', moved_amount, old_card_id_in, reason_in, performed_by_in, client_request_id_in);
+
+        -- Step 3: move the history
+        UPDATE recharges SET card_id = new_card_id_in WHERE card_id = old_card_id_in;
+        GET DIAGNOSTICS moved_recharges = ROW_COUNT;
+
+        UPDATE bar_orders SET card_id = new_card_id_in WHERE card_id = old_card_id_in;
+        GET DIAGNOSTICS moved_orders = ROW_COUNT;
+
+        UPDATE bar_order_refunds SET card_id = new_card_id_in WHERE card_id = old_card_id_in;
+        GET DIAGNOSTICS moved_order_refunds = ROW_COUNT;
+
+        UPDATE refunds SET id_card = new_card_id_in WHERE id_card = old_card_id_in;
+        GET DIAGNOSTICS moved_refund_requests = ROW_COUNT;
+
+        IF EXISTS (SELECT 1 FROM card_statistics WHERE card_id = new_card_id_in) THEN
+            UPDATE card_statistics AS target
+            SET total_amount_recharged = target.total_amount_recharged + source.total_amount_recharged,
+                total_amount_spent = target.total_amount_spent + source.total_amount_spent,
+                total_orders = target.total_orders + source.total_orders,
+                total_recharges = target.total_recharges + source.total_recharges,
+                last_updated = NOW()
+            FROM card_statistics AS source
+            WHERE target.card_id = new_card_id_in AND source.card_id = old_card_id_in;
+
+            DELETE FROM card_statistics WHERE card_id = old_card_id_in;
+        ELSE
+            UPDATE card_statistics SET card_id = new_card_id_in, last_updated = NOW() WHERE card_id = old_card_id_in;
+        END IF;
+
+        -- A printed secret belongs to the physical card
+        DELETE FROM card_secrets WHERE card_id = old_card_id_in;
+
+        moved_counts := jsonb_build_object(
+            'recharges', moved_recharges,
+            'bar_orders', moved_orders,
+            'bar_order_refunds', moved_order_refunds,
+            'refund_requests', moved_refund_requests
+        );
+
+        INSERT INTO card_lifecycle_events (card_id, event_type, related_card_id, details, reason, performed_by, client_request_id)
+        VALUES (new_card_id_in, 'history_moved', old_card_id_in, moved_counts, reason_in, performed_by_in, client_request_id_in);
+
+        INSERT INTO app_transaction_log (
+            card_id, transaction_type, status, amount_involved,
+            previous_balance, new_balance, details,
+            edge_function_name, client_request_id
+        ) VALUES (
+            new_card_id_in, 'card_replacement', 'completed', moved_amount,
+            target_previous_balance, target_previous_balance + moved_amount,
+            jsonb_build_object('old_card_id', old_card_id_in, 'merge', is_merge, 'reason', reason_in, 'moved', moved_counts),
+            'manage-cards', client_request_id_in
+        );
+
+        result := jsonb_build_object(
+            'success', true,
+            'old_card_id', old_card_id_in,
+            'new_card_id', new_card_id_in,
+            'merged', is_merge,
+            'moved_amount', moved_amount,
+            'new_balance', target_previous_balance + moved_amount,
+            'previous_status', old_card.status,
+            'moved', moved_counts
+        );
+
+        UPDATE idempotency_keys
+        SET status = 'completed', response_payload = result, updated_at = NOW()
+        WHERE request_id = client_request_id_in;
+
+        RETURN result;
+
+    EXCEPTION WHEN OTHERS THEN
+        UPDATE idempotency_keys
+        SET status = 'failed',
+            response_payload = jsonb_build_object('error', SQLERRM),
+            updated_at = NOW()
+        WHERE request_id = client_request_id_in;
+
+        RAISE;
+    END;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row-Level Security: staff read lifecycle events, only the service role writes
+ALTER TABLE card_lifecycle_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY card_lifecycle_events_read ON card_lifecycle_events
+    FOR SELECT TO authenticated USING (true);
+
+GRANT EXECUTE ON FUNCTION sp_set_card_status(TEXT, TEXT, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION sp_replace_card(TEXT, TEXT, TEXT, TEXT, UUID) TO service_role;
@@ -0,0 +1,233 @@
+-- =====================================================
+-- Recharge Desk Shifts and Cash Drawer Reconciliation
+-- =====================================================
+-- An operator opens a shift with the cash float in the drawer. Recharges they
+-- process while the shift is open are attached to it (process-standard-recharge
+-- stamps shift_id and processed_by_user_id). At close the operator enters the
+-- counted cash; the expected amount is the float plus the cash recharges of the
+-- shift. Any difference flags the shift until a supervisor resolves it, and
+-- detect_cash_drawer_discrepancies() raises a monitoring event for it.
+
+CREATE TABLE IF NOT EXISTS recharge_shifts (
+    id SERIAL PRIMARY KEY,
+    operator_id UUID NOT NULL,
+    edition_id TEXT REFERENCES editions(id),
+    desk_label TEXT,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+    opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    opening_float DECIMAL(10,2) NOT NULL CHECK (opening_float >= 0),
+    closed_at TIMESTAMPTZ,
+    closed_by UUID,
+    counted_cash DECIMAL(10,2) CHECK (counted_cash >= 0),
+    expected_cash DECIMAL(10,2),
+    cash_total DECIMAL(10,2),
+    card_total DECIMAL(10,2),
+    cash_count INT,
+    card_count INT,
+    discrepancy DECIMAL(10,2),
+    discrepancy_status TEXT NOT NULL DEFAULT 'none'
+        CHECK (discrepancy_status IN ('none', 'flagged', 'resolved')),
+    closing_notes TEXT,
+    resolution_notes TEXT,
+    resolved_by UUID,
+    resolved_at TIMESTAMPTZ,
+    monitoring_event_id BIGINT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One open shift per operator
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recharge_shifts_one_open
+    ON recharge_shifts(operator_id) WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_recharge_shifts_opened_at ON recharge_shifts(opened_at DESC);
+
+DROP TRIGGER IF EXISTS trg_recharge_shifts_stamp_edition ON recharge_shifts;
+CREATE TRIGGER trg_recharge_shifts_stamp_edition
+    BEFORE INSERT ON recharge_shifts
+    FOR EACH ROW EXECUTE FUNCTION stamp_active_edition();
+
+ALTER TABLE recharges ADD COLUMN IF NOT EXISTS shift_id INT REFERENCES recharge_shifts(id);
+
+CREATE INDEX IF NOT EXISTS idx_recharges_shift ON recharges(shift_id);
+
+-- Cash and card totals of a shift. paid_by_card is set by the desk; older rows
+-- only carry payment_method.
+CREATE OR REPLACE FUNCTION get_recharge_shift_totals(shift_id_in INT) RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'cash_total', COALESCE(SUM(amount) FILTER (WHERE NOT COALESCE(paid_by_card, payment_method = 'card')), 0),
+        'card_total', COALESCE(SUM(amount) FILTER (WHERE COALESCE(paid_by_card, payment_method = 'card')), 0),
+        'cash_count', COUNT(*) FILTER (WHERE NOT COALESCE(paid_by_card, payment_method = 'card')),
+        'card_count', COUNT(*) FILTER (WHERE COALESCE(paid_by_card, payment_method = 'card'))
+    )
+    FROM recharges
+    WHERE shift_id = shift_id_in;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION sp_open_recharge_shift(
+    operator_id_in UUID,
+    opening_float_in DECIMAL,
+    desk_label_in TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    shift_record recharge_shifts%ROWTYPE;
+BEGIN
+    IF opening_float_in IS NULL OR opening_float_in < 0 THEN
+        RAISE EXCEPTION 'Invalid opening float: %', opening_float_in;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM recharge_shifts WHERE operator_id = operator_id_in AND status = 'open') THEN
+        RAISE EXCEPTION 'Shift already open for operator %', operator_id_in;
+    END IF;
+
+    INSERT INTO recharge_shifts (operator_id, opening_float, desk_label)
+    VALUES (operator_id_in, opening_float_in, NULLIF(TRIM(desk_label_in), ''))
+    RETURNING * INTO shift_record;
+
+    RETURN jsonb_build_object('success', true, 'shift', to_jsonb(shift_record));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Close a shift with the counted cash. Any difference with the expected cash
+-- flags the shift.
+CREATE OR REPLACE FUNCTION sp_close_recharge_shift(
+    shift_id_in INT,
+    counted_cash_in DECIMAL,
+    closing_notes_in TEXT,
+    closed_by_in UUID
+) RETURNS JSONB AS $$
+DECLARE
+    shift_record recharge_shifts%ROWTYPE;
+    totals JSONB;
+    expected DECIMAL;
+BEGIN
+    IF counted_cash_in IS NULL OR counted_cash_in < 0 THEN
+        RAISE EXCEPTION 'Invalid counted cash: %', counted_cash_in;
+    END IF;
+
+    SELECT * INTO shift_record FROM recharge_shifts WHERE id = shift_id_in FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Shift not found: %', shift_id_in;
+    END IF;
+
+    IF shift_record.status <> 'open' THEN
+        RAISE EXCEPTION 'Shift already closed: %', shift_id_in;
+    END IF;
+
+    totals := get_recharge_shift_totals(shift_id_in);
+    expected := shift_record.opening_float + (totals->>'cash_total')::DECIMAL;
+
+    UPDATE recharge_shifts
+    SET status = 'closed',
+        closed_at = NOW(),
+        closed_by = closed_by_in,
+        counted_cash = counted_cash_in,
+        expected_cash = expected,
+        cash_total = (totals->>'cash_total')::DECIMAL,
+        card_total = (totals->>'card_total')::DECIMAL,
+        cash_count = (totals->>'cash_count')::INT,
+        card_count = (totals->>'card_count')::INT,
+        discrepancy = counted_cash_in - expected,
+        discrepancy_status = CASE WHEN counted_cash_in = expected THEN 'none' ELSE 'flagged' END,
+        closing_notes = NULLIF(TRIM(closing_notes_in), '')
+    WHERE id = shift_id_in
+    RETURNING * INTO shift_record;
+
+    RETURN jsonb_build_object('success', true, 'shift', to_jsonb(shift_record));
+END;
+$$ LANGUAGE plpgsql;
+
+-- A supervisor explains a discrepancy; its monitoring event is resolved too
+CREATE OR REPLACE FUNCTION sp_resolve_shift_discrepancy(
+    shift_id_in INT,
+    resolution_notes_in TEXT,
+    resolved_by_in UUID
+) RETURNS JSONB AS $$
+DECLARE
+    shift_record recharge_shifts%ROWTYPE;
+BEGIN
+    SELECT * INTO shift_record FROM recharge_shifts WHERE id = shift_id_in FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Shift not found: %', shift_id_in;
+    END IF;
+
+    IF shift_record.discrepancy_status <> 'flagged' THEN
+        RAISE EXCEPTION 'No discrepancy to resolve on shift %', shift_id_in;
+    END IF;
+
+    UPDATE recharge_shifts
+    SET discrepancy_status = 'resolved',
+        resolution_notes = resolution_notes_in,
+        resolved_by = resolved_by_in,
+        resolved_at = NOW()
+    WHERE id = shift_id_in
+    RETURNING * INTO shift_record;
+
+    IF shift_record.monitoring_event_id IS NOT NULL THEN
+        UPDATE monitoring_events
+        SET status = 'RESOLVED',
+            resolved_at = NOW(),
+            resolution_notes = resolution_notes_in,
+            updated_at = NOW()
+        WHERE event_id = shift_record.monitoring_event_id;
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'shift', to_jsonb(shift_record));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Detection algorithm run by DetectionService: one monitoring event per closed
+-- shift whose discrepancy is still unresolved
+CREATE OR REPLACE FUNCTION detect_cash_drawer_discrepancies() RETURNS JSONB AS $$
+DECLARE
+    shift_record recharge_shifts%ROWTYPE;
+    new_event_id BIGINT;
+    events_created INT := 0;
+BEGIN
+    FOR shift_record IN
+        SELECT * FROM recharge_shifts
+        WHERE status = 'closed'
+          AND discrepancy_status = 'flagged'
+          AND monitoring_event_id IS NULL
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        INSERT INTO monitoring_events (
+            event_type, severity, affected_amount, detection_algorithm, event_data
+        ) VALUES (
+            'balance_discrepancy',
+            CASE WHEN ABS(shift_record.discrepancy) >= 50 THEN 'HIGH' ELSE 'MEDIUM' END,
+            ABS(shift_record.discrepancy),
+            'cash_drawer_reconciliation',
+            jsonb_build_object(
+                'shift_id', shift_record.id,
+                'operator_id', shift_record.operator_id,
+                'desk_label', shift_record.desk_label,
+                'opening_float', shift_record.opening_float,
+                'expected_cash', shift_record.expected_cash,
+                'counted_cash', shift_record.counted_cash,
+                'discrepancy', shift_record.discrepancy,
+                'closed_at', shift_record.closed_at
+            )
+        )
+        RETURNING event_id INTO new_event_id;
+
+        UPDATE recharge_shifts SET monitoring_event_id = new_event_id WHERE id = shift_record.id;
+        events_created := events_created + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object('success', true, 'events_created', events_created);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row-Level Security: staff read shifts, only the service role writes
+ALTER TABLE recharge_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY recharge_shifts_read ON recharge_shifts
+    FOR SELECT TO authenticated USING (true);
+
+GRANT EXECUTE ON FUNCTION get_recharge_shift_totals(INT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION sp_open_recharge_shift(UUID, DECIMAL, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION sp_close_recharge_shift(INT, DECIMAL, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION sp_resolve_shift_discrepancy(INT, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION detect_cash_drawer_discrepancies() TO authenticated, service_role;
@@ -0,0 +1,219 @@
+-- =====================================================
+-- Stripe Refunds, Disputes and Expired Sessions
+-- =====================================================
+-- stripe-webhook records every charge.refunded, charge.dispute.created and
+-- checkout.session.expired event once, keyed by the Stripe event id, and links
+-- it to the recharge credited for the same checkout session.
+--
+-- A refund or dispute debits the card that holds the recharged money (the
+-- replacement card when the original was replaced), along with the share of
+-- the recharge's bonus credit it paid for. What the balance cannot
+-- cover is recorded as uncovered, the card is blocked and a monitoring event
+-- is raised. A dispute always blocks the card until it is investigated.
+
+CREATE TABLE IF NOT EXISTS stripe_reversals (
+    id SERIAL PRIMARY KEY,
+    stripe_event_id TEXT NOT NULL UNIQUE,
+    reversal_type TEXT NOT NULL CHECK (reversal_type IN ('refund', 'dispute', 'session_expired')),
+    stripe_session_id TEXT NOT NULL,
+    stripe_object_id TEXT,
+    recharge_id INT REFERENCES recharges(id),
+    card_id TEXT REFERENCES table_cards(id),
+    amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (amount >= 0),
+    -- Bonus credit withdrawn with the paid amount (recharges.bonus_amount)
+    bonus_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (bonus_amount >= 0),
+    debited_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    uncovered_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    previous_balance DECIMAL(10,2),
+    new_balance DECIMAL(10,2),
+    card_frozen BOOLEAN NOT NULL DEFAULT false,
+    monitoring_event_id BIGINT,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_reversals_session ON stripe_reversals(stripe_session_id);
+CREATE INDEX IF NOT EXISTS idx_stripe_reversals_card ON stripe_reversals(card_id);
+
+-- Record one Stripe reversal event. For refunds, amount_in is the total
+-- refunded on the charge so far (Stripe's amount_refunded): only the part not
+-- yet reversed by earlier refund events is debited. The bonus is withdrawn in
+-- proportion to the paid amount reversed: all of it once the whole recharge
+-- is refunded or disputed.
+CREATE OR REPLACE FUNCTION sp_process_stripe_reversal(
+    stripe_event_id_in TEXT,
+    reversal_type_in TEXT,
+    stripe_session_id_in TEXT,
+    stripe_object_id_in TEXT,
+    amount_in DECIMAL,
+    details_in JSONB DEFAULT '{}'::jsonb
+) RETURNS JSONB AS $$
+DECLARE
+    existing stripe_reversals%ROWTYPE;
+    reversal stripe_reversals%ROWTYPE;
+    recharge_record RECORD;
+    card_record RECORD;
+    target_card_id TEXT;
+    already_reversed DECIMAL := 0;
+    to_reverse DECIMAL := 0;
+    bonus_reversed DECIMAL := 0;
+    bonus_to_reverse DECIMAL := 0;
+    total_to_reverse DECIMAL := 0;
+    debit DECIMAL := 0;
+    uncovered DECIMAL := 0;
+    freeze BOOLEAN := false;
+    new_event_id BIGINT;
+    hop INT := 0;
+BEGIN
+    IF reversal_type_in NOT IN ('refund', 'dispute', 'session_expired') THEN
+        RAISE EXCEPTION 'Invalid reversal type: %', reversal_type_in;
+    END IF;
+
+    IF amount_in IS NULL OR amount_in < 0 THEN
+        RAISE EXCEPTION 'Invalid reversal amount: %', amount_in;
+    END IF;
+
+    -- Stripe retries deliver the same event id
+    SELECT * INTO existing FROM stripe_reversals WHERE stripe_event_id = stripe_event_id_in;
+    IF FOUND THEN
+        RETURN jsonb_build_object('success', true, 'duplicate', true, 'reversal', to_jsonb(existing));
+    END IF;
+
+    SELECT * INTO recharge_record
+    FROM recharges
+    WHERE stripe_session_id = stripe_session_id_in
+    ORDER BY id
+    LIMIT 1;
+
+    IF NOT FOUND AND reversal_type_in <> 'session_expired' THEN
+        RAISE EXCEPTION 'Recharge not found for Stripe session %', stripe_session_id_in;
+    END IF;
+
+    -- An expired session was never paid: nothing to debit, the record closes it
+    IF reversal_type_in = 'session_expired' THEN
+        INSERT INTO stripe_reversals (stripe_event_id, reversal_type, stripe_session_id, stripe_object_id, recharge_id, card_id, details)
+        VALUES (stripe_event_id_in, reversal_type_in, stripe_session_id_in, stripe_object_id_in,
+                recharge_record.id, recharge_record.card_id, details_in)
+        RETURNING * INTO reversal;
+
+        RETURN jsonb_build_object('success', true, 'reversal', to_jsonb(reversal));
+    END IF;
+
+    -- Serialise reversals of the same session
+    PERFORM 1 FROM recharges WHERE id = recharge_record.id FOR UPDATE;
+
+    IF reversal_type_in = 'refund' THEN
+        SELECT COALESCE(SUM(amount), 0) INTO already_reversed
+        FROM stripe_reversals
+        WHERE stripe_session_id = stripe_session_id_in AND reversal_type = 'refund';
+        to_reverse := GREATEST(amount_in - already_reversed, 0);
+    ELSE
+        to_reverse := amount_in;
+        freeze := true;
+    END IF;
+
+    -- Never reverse more than the recharge, whatever mix of refunds and disputes
+    SELECT COALESCE(SUM(amount), 0) INTO already_reversed
+    FROM stripe_reversals
+    WHERE stripe_session_id = stripe_session_id_in;
+    to_reverse := LEAST(to_reverse, GREATEST(recharge_record.amount - already_reversed, 0));
+
+    -- Bonus credit paid for by the amount reversed so far, less what earlier
+    -- reversals already withdrew
+    IF COALESCE(recharge_record.bonus_amount, 0) > 0 AND recharge_record.amount > 0 THEN
+        SELECT COALESCE(SUM(bonus_amount), 0) INTO bonus_reversed
+        FROM stripe_reversals
+        WHERE stripe_session_id = stripe_session_id_in;
+        bonus_to_reverse := GREATEST(
+            ROUND(recharge_record.bonus_amount * LEAST((already_reversed + to_reverse) / recharge_record.amount, 1), 2)
+                - bonus_reversed,
+            0
+        );
+    END IF;
+    total_to_reverse := to_reverse + bonus_to_reverse;
+
+    -- The money follows the card when it was replaced
+    target_card_id := recharge_record.card_id;
+    LOOP
+        SELECT * INTO card_record FROM table_cards WHERE id = target_card_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Card not found: %', target_card_id;
+        END IF;
+        EXIT WHEN card_record.status <> 'retired' OR card_record.replaced_by IS NULL OR hop >= 5;
+        target_card_id := card_record.replaced_by;
+        hop := hop + 1;
+    END LOOP;
+
+    debit := LEAST(total_to_reverse, GREATEST(COALESCE(card_record.amount, 0), 0));
+    uncovered := total_to_reverse - debit;
+    freeze := freeze OR uncovered > 0;
+
+    -- Reversals also debit blocked or lost cards
+    PERFORM set_config('app.card_lifecycle', 'on', true);
+
+    IF debit > 0 THEN
+        UPDATE table_cards SET amount = amount - debit WHERE id = target_card_id;
+    END IF;
+
+    IF freeze AND card_record.status = 'active' THEN
+        UPDATE table_cards
+        SET status = 'blocked',
+            status_reason = 'Stripe ' || reversal_type_in || ' on session ' || stripe_session_id_in,
+            status_changed_at = NOW()
+        WHERE id = target_card_id;
+
+        INSERT INTO card_lifecycle_events (card_id, event_type, from_status, to_status, amount, reason, details)
+        VALUES (target_card_id, 'status_change', 'active', 'blocked', total_to_reverse,
+                'Stripe ' || reversal_type_in,
+                jsonb_build_object('stripe_event_id', stripe_event_id_in, 'stripe_session_id', stripe_session_id_in));
+    END IF;
+
+    PERFORM set_config('app.card_lifecycle', '', true);
+
+    IF uncovered > 0 THEN
+        INSERT INTO monitoring_events (
+            event_type, severity, card_id, affected_amount, detection_algorithm, event_data
+        ) VALUES (
+            'balance_discrepancy',
+            'HIGH',
+            target_card_id,
+            uncovered,
+            'stripe_reversal',
+            jsonb_build_object(
+                'stripe_event_id', stripe_event_id_in,
+                'reversal_type', reversal_type_in,
+                'stripe_session_id', stripe_session_id_in,
+                'recharge_id', recharge_record.id,
+                'reversal_amount', to_reverse,
+                'bonus_amount', bonus_to_reverse,
+                'debited_amount', debit,
+                'uncovered_amount', uncovered,
+                'reason', 'Card balance cannot cover the Stripe reversal'
+            )
+        )
+        RETURNING event_id INTO new_event_id;
+    END IF;
+
+    INSERT INTO stripe_reversals (
+        stripe_event_id, reversal_type, stripe_session_id, stripe_object_id, recharge_id, card_id,
+        amount, bonus_amount, debited_amount, uncovered_amount, previous_balance, new_balance,
+        card_frozen, monitoring_event_id, details
+    ) VALUES (
+        stripe_event_id_in, reversal_type_in, stripe_session_id_in, stripe_object_id_in,
+        recharge_record.id, target_card_id, to_reverse, bonus_to_reverse, debit, uncovered,
+        card_record.amount, COALESCE(card_record.amount, 0) - debit,
+        freeze, new_event_id, details_in
+    )
+    RETURNING * INTO reversal;
+
+    RETURN jsonb_build_object('success', true, 'reversal', to_jsonb(reversal));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row-Level Security: staff read reversals, only the service role writes
+ALTER TABLE stripe_reversals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY stripe_reversals_read ON stripe_reversals
+    FOR SELECT TO authenticated USING (true);
+
+GRANT EXECUTE ON FUNCTION sp_process_stripe_reversal(TEXT, TEXT, TEXT, TEXT, DECIMAL, JSONB) TO service_role;
@@ -0,0 +1,62 @@
+-- =====================================================
+-- Payment Providers per Edition
+-- =====================================================
+-- Online recharges go through a payment provider chosen per edition: Stripe
+-- (hosted checkout) or the local QR provider used for tests and rehearsals.
+-- Every online recharge records the provider in recharges.payment_method;
+-- recharges.stripe_session_id keeps the provider's session id whatever the
+-- provider, so settlement stays idempotent per session.
+
+ALTER TABLE editions
+    ADD COLUMN IF NOT EXISTS payment_provider TEXT NOT NULL DEFAULT 'stripe'
+    CHECK (payment_provider IN ('stripe', 'mock'));
+
+-- Online recharges credited before providers existed all went through Stripe
+UPDATE recharges
+SET payment_method = 'stripe'
+WHERE stripe_session_id IS NOT NULL
+  AND payment_method IS NULL;
+
+CREATE OR REPLACE FUNCTION get_active_payment_provider() RETURNS TEXT AS $$
+    SELECT COALESCE((SELECT payment_provider FROM editions WHERE status = 'live' LIMIT 1), 'stripe');
+$$ LANGUAGE sql STABLE;
+
+-- Credit a paid provider session. The Stripe procedure already handles the
+-- card credit and duplicate sessions; this wrapper records the provider.
+CREATE OR REPLACE FUNCTION sp_process_provider_recharge(
+    card_id_in TEXT,
+    amount_in DECIMAL,
+    provider_in TEXT,
+    session_id_in TEXT,
+    metadata_in JSONB DEFAULT '{}'::jsonb
+) RETURNS JSONB AS $$
+DECLARE
+    result JSONB;
+BEGIN
+    IF provider_in NOT IN ('stripe', 'mock') THEN
+        RAISE EXCEPTION 'Invalid payment provider: %', provider_in;
+    END IF;
+
+    IF session_id_in IS NULL OR length(session_id_in) = 0 THEN
+        RAISE EXCEPTION 'Payment session id is required';
+    END IF;
+
+    result := sp_process_stripe_recharge(
+        card_id_in,
+        amount_in,
+        session_id_in,
+        COALESCE(metadata_in, '{}'::jsonb) || jsonb_build_object('payment_provider', provider_in)
+    );
+
+    IF COALESCE((result->>'success')::boolean, true) THEN
+        UPDATE recharges
+        SET payment_method = provider_in
+        WHERE stripe_session_id = session_id_in;
+    END IF;
+
+    RETURN result || jsonb_build_object('payment_provider', provider_in);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_active_payment_provider() TO service_role;
+GRANT EXECUTE ON FUNCTION sp_process_provider_recharge(TEXT, DECIMAL, TEXT, TEXT, JSONB) TO service_role;
@@ -0,0 +1,259 @@
+-- =====================================================
+-- Recharge Packages, Bonus Credit and Promo Codes
+-- =====================================================
+-- Guests and recharge desks can pick a preset package (e.g. 50€ + 5€ bonus)
+-- or enter a custom amount, optionally with a promo code. Bonuses are
+-- computed by the database, never by the client: create-stripe-checkout and
+-- the manage-recharge-offers quote use quote_recharge_bonus, and settlement
+-- (process-standard-recharge, Stripe and other providers) credits the bonus
+-- through sp_apply_recharge_bonus once the paid amount is credited.
+--
+-- recharges.amount stays the money actually paid; the bonus is recorded in
+-- recharges.bonus_amount so refunds never return it.
+
+CREATE TABLE IF NOT EXISTS recharge_packages (
+    id SERIAL PRIMARY KEY,
+    edition_id TEXT REFERENCES editions(id),
+    label TEXT NOT NULL CHECK (length(trim(label)) BETWEEN 1 AND 60),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0 AND amount <= 1000),
+    bonus_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (bonus_amount >= 0),
+    sort_order INT NOT NULL DEFAULT 0,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recharge_packages_active ON recharge_packages(is_active, sort_order);
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+    code TEXT PRIMARY KEY CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+    description TEXT,
+    edition_id TEXT REFERENCES editions(id),
+    bonus_type TEXT NOT NULL CHECK (bonus_type IN ('fixed', 'percent')),
+    bonus_value DECIMAL(10,2) NOT NULL CHECK (bonus_value > 0),
+    max_bonus DECIMAL(10,2) CHECK (max_bonus IS NULL OR max_bonus > 0),
+    min_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_amount >= 0),
+    max_uses INT CHECK (max_uses IS NULL OR max_uses > 0),
+    max_uses_per_card INT CHECK (max_uses_per_card IS NULL OR max_uses_per_card > 0),
+    uses_count INT NOT NULL DEFAULT 0,
+    valid_from TIMESTAMPTZ,
+    valid_until TIMESTAMPTZ,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT promo_codes_percent_range CHECK (bonus_type <> 'percent' OR bonus_value <= 100),
+    CONSTRAINT promo_codes_valid_window CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from)
+);
+
+ALTER TABLE recharges ADD COLUMN IF NOT EXISTS bonus_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE recharges ADD COLUMN IF NOT EXISTS package_id INT REFERENCES recharge_packages(id);
+ALTER TABLE recharges ADD COLUMN IF NOT EXISTS promo_code TEXT REFERENCES promo_codes(code);
+ALTER TABLE recharges ADD COLUMN IF NOT EXISTS bonus_applied_at TIMESTAMPTZ;
+
+-- One redemption per recharge: settlement retries never count a code twice
+CREATE TABLE IF NOT EXISTS promo_code_redemptions (
+    id SERIAL PRIMARY KEY,
+    code TEXT NOT NULL REFERENCES promo_codes(code),
+    card_id TEXT NOT NULL REFERENCES table_cards(id),
+    recharge_id INT NOT NULL UNIQUE REFERENCES recharges(id),
+    bonus_amount DECIMAL(10,2) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_code_card ON promo_code_redemptions(code, card_id);
+
+-- Bonus for a recharge. Raises when the package or promo code cannot be used;
+-- card_id_in enables the per-card usage limit.
+CREATE OR REPLACE FUNCTION quote_recharge_bonus(
+    amount_in DECIMAL,
+    package_id_in INT DEFAULT NULL,
+    promo_code_in TEXT DEFAULT NULL,
+    card_id_in TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    package_record recharge_packages%ROWTYPE;
+    promo promo_codes%ROWTYPE;
+    normalized_code TEXT := NULLIF(upper(trim(COALESCE(promo_code_in, ''))), '');
+    package_bonus DECIMAL := 0;
+    promo_bonus DECIMAL := 0;
+    card_uses INT;
+BEGIN
+    IF amount_in IS NULL OR amount_in <= 0 THEN
+        RAISE EXCEPTION 'Invalid recharge amount: %', amount_in;
+    END IF;
+
+    IF package_id_in IS NOT NULL THEN
+        SELECT * INTO package_record FROM recharge_packages WHERE id = package_id_in AND is_active;
+        IF NOT FOUND OR (package_record.edition_id IS NOT NULL AND package_record.edition_id IS DISTINCT FROM get_active_edition_id()) THEN
+            RAISE EXCEPTION 'Package not found: %', package_id_in;
+        END IF;
+        IF package_record.amount <> amount_in THEN
+            RAISE EXCEPTION 'Package amount mismatch: package % is %', package_id_in, package_record.amount;
+        END IF;
+        package_bonus := package_record.bonus_amount;
+    END IF;
+
+    IF normalized_code IS NOT NULL THEN
+        SELECT * INTO promo FROM promo_codes WHERE code = normalized_code;
+        IF NOT FOUND OR NOT promo.is_active
+           OR (promo.edition_id IS NOT NULL AND promo.edition_id IS DISTINCT FROM get_active_edition_id()) THEN
+            RAISE EXCEPTION 'Promo code not found: %', normalized_code;
+        END IF;
+        IF promo.valid_from IS NOT NULL AND NOW() < promo.valid_from THEN
+            RAISE EXCEPTION 'Promo code not yet valid: %', normalized_code;
+        END IF;
+        IF promo.valid_until IS NOT NULL AND NOW() >= promo.valid_until THEN
+            RAISE EXCEPTION 'Promo code expired: %', normalized_code;
+        END IF;
+        IF promo.max_uses IS NOT NULL AND promo.uses_count >= promo.max_uses THEN
+            RAISE EXCEPTION 'Promo code exhausted: %', normalized_code;
+        END IF;
+        IF amount_in < promo.min_amount THEN
+            RAISE EXCEPTION 'Promo code minimum amount: %', promo.min_amount;
+        END IF;
+        IF card_id_in IS NOT NULL AND promo.max_uses_per_card IS NOT NULL THEN
+            SELECT COUNT(*) INTO card_uses FROM promo_code_redemptions WHERE code = normalized_code AND card_id = card_id_in;
+            IF card_uses >= promo.max_uses_per_card THEN
+                RAISE EXCEPTION 'Promo code exhausted for card: %', normalized_code;
+            END IF;
+        END IF;
+
+        promo_bonus := CASE promo.bonus_type
+            WHEN 'fixed' THEN promo.bonus_value
+            ELSE round(amount_in * promo.bonus_value / 100, 2)
+        END;
+        IF promo.max_bonus IS NOT NULL THEN
+            promo_bonus := LEAST(promo_bonus, promo.max_bonus);
+        END IF;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'amount', amount_in,
+        'package_id', package_id_in,
+        'package_bonus', package_bonus,
+        'promo_code', normalized_code,
+        'promo_bonus', promo_bonus,
+        'bonus_amount', package_bonus + promo_bonus,
+        'total_credit', amount_in + package_bonus + promo_bonus
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Credit the bonus of a recharge that was just credited, found by its
+-- transaction id (desk recharges) or provider session id (online). A promo
+-- code that expired or ran out between checkout and settlement is skipped,
+-- the package bonus is still credited.
+CREATE OR REPLACE FUNCTION sp_apply_recharge_bonus(
+    transaction_id_in TEXT,
+    session_id_in TEXT,
+    package_id_in INT,
+    promo_code_in TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    recharge_record recharges%ROWTYPE;
+    quote_result JSONB;
+    promo_skipped TEXT;
+    normalized_code TEXT := NULLIF(upper(trim(COALESCE(promo_code_in, ''))), '');
+    bonus DECIMAL;
+BEGIN
+    IF transaction_id_in IS NOT NULL THEN
+        SELECT * INTO recharge_record FROM recharges WHERE transaction_id = transaction_id_in ORDER BY id LIMIT 1 FOR UPDATE;
+    ELSE
+        SELECT * INTO recharge_record FROM recharges WHERE stripe_session_id = session_id_in ORDER BY id LIMIT 1 FOR UPDATE;
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Recharge not found for bonus: %', COALESCE(transaction_id_in, session_id_in);
+    END IF;
+
+    -- Already applied by an earlier delivery
+    IF recharge_record.bonus_applied_at IS NOT NULL THEN
+        RETURN jsonb_build_object('success', true, 'duplicate', true, 'recharge_id', recharge_record.id,
+                                  'bonus_amount', recharge_record.bonus_amount);
+    END IF;
+
+    IF normalized_code IS NOT NULL THEN
+        -- Serialise redemptions of the same code so max_uses holds
+        PERFORM 1 FROM promo_codes WHERE code = normalized_code FOR UPDATE;
+        BEGIN
+            quote_result := quote_recharge_bonus(recharge_record.amount, package_id_in, normalized_code, recharge_record.card_id);
+        EXCEPTION WHEN OTHERS THEN
+            IF SQLERRM NOT ILIKE 'promo code%' THEN
+                RAISE;
+            END IF;
+            promo_skipped := SQLERRM;
+            normalized_code := NULL;
+        END;
+    END IF;
+
+    IF quote_result IS NULL THEN
+        quote_result := quote_recharge_bonus(recharge_record.amount, package_id_in, NULL, recharge_record.card_id);
+    END IF;
+
+    bonus := (quote_result->>'bonus_amount')::DECIMAL;
+
+    UPDATE recharges
+    SET bonus_amount = bonus,
+        package_id = package_id_in,
+        promo_code = normalized_code,
+        bonus_applied_at = NOW()
+    WHERE id = recharge_record.id;
+
+    IF bonus > 0 THEN
+        UPDATE table_cards SET amount = amount + bonus WHERE id = recharge_record.card_id;
+    END IF;
+
+    IF normalized_code IS NOT NULL THEN
+        INSERT INTO promo_code_redemptions (code, card_id, recharge_id, bonus_amount)
+        VALUES (normalized_code, recharge_record.card_id, recharge_record.id, (quote_result->>'promo_bonus')::DECIMAL);
+
+        UPDATE promo_codes SET uses_count = uses_count + 1, updated_at = NOW() WHERE code = normalized_code;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'recharge_id', recharge_record.id,
+        'card_id', recharge_record.card_id,
+        'paid_amount', recharge_record.amount,
+        'bonus_amount', bonus,
+        'package_bonus', (quote_result->>'package_bonus')::DECIMAL,
+        'promo_bonus', (quote_result->>'promo_bonus')::DECIMAL,
+        'promo_code', normalized_code,
+        'promo_skipped', promo_skipped
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Bonus credit follows the balance through card replacements and merges
+CREATE OR REPLACE VIEW card_bonus_totals AS
+WITH RECURSIVE lineage AS (
+    SELECT id AS card_id, id AS source_card_id FROM table_cards
+    UNION ALL
+    SELECT l.card_id, c.id
+    FROM lineage l
+    JOIN table_cards c ON c.replaced_by = l.source_card_id
+)
+SELECT l.card_id, COALESCE(SUM(r.bonus_amount), 0)::DECIMAL(10,2) AS bonus_credit
+FROM lineage l
+JOIN recharges r ON r.card_id = l.source_card_id AND r.bonus_amount > 0
+GROUP BY l.card_id;
+
+-- Row-Level Security: packages are public (payment page), promo codes and
+-- redemptions are staff-only; writes go through manage-recharge-offers
+ALTER TABLE recharge_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY recharge_packages_read ON recharge_packages
+    FOR SELECT TO anon, authenticated USING (is_active);
+
+CREATE POLICY promo_codes_read ON promo_codes
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY promo_code_redemptions_read ON promo_code_redemptions
+    FOR SELECT TO authenticated USING (true);
+
+GRANT EXECUTE ON FUNCTION quote_recharge_bonus(DECIMAL, INT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION sp_apply_recharge_bonus(TEXT, TEXT, INT, TEXT) TO service_role;
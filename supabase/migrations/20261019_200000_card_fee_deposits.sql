@@ -0,0 +1,159 @@
+-- =====================================================
+-- Card Activation Fee and Cup Deposit Accounting
+-- =====================================================
+-- Each edition can charge a non-refundable card fee, taken from the first
+-- recharge of a card in that edition: a card kept for the next edition pays
+-- that edition's fee too. Cup deposits (bar_order_items.is_deposit) and cup returns
+-- (is_return) are tracked per card so refunds and net revenue no longer treat
+-- them as ordinary sales.
+--
+-- Refund policy:
+--   * the card fee is debited from the balance once and never refunded;
+--   * deposits for cups the guest still holds stay with the festival (the
+--     balance already reflects them);
+--   * return credit above the deposits the card paid (cups bought with another
+--     card or in cash) can be spent at the bar but is not paid out.
+
+ALTER TABLE editions
+    ADD COLUMN IF NOT EXISTS card_fee DECIMAL(10,2) NOT NULL DEFAULT 0
+    CHECK (card_fee >= 0 AND card_fee <= 50);
+
+CREATE TABLE IF NOT EXISTS card_fees (
+    card_id TEXT NOT NULL REFERENCES table_cards(id),
+    edition_id TEXT NOT NULL REFERENCES editions(id),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    recharge_id INT REFERENCES recharges(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (card_id, edition_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_fees_edition ON card_fees(edition_id);
+
+-- Cards whose balance ended up on card_id (itself, the cards it replaced and
+-- the cards merged into it, recursively)
+CREATE OR REPLACE VIEW card_lineage AS
+WITH RECURSIVE lineage AS (
+    SELECT id AS card_id, id AS source_card_id FROM table_cards
+    UNION ALL
+    SELECT l.card_id, c.id
+    FROM lineage l
+    JOIN table_cards c ON c.replaced_by = l.source_card_id
+)
+SELECT card_id, source_card_id FROM lineage;
+
+CREATE OR REPLACE VIEW card_bonus_totals AS
+SELECT l.card_id, COALESCE(SUM(r.bonus_amount), 0)::DECIMAL(10,2) AS bonus_credit
+FROM card_lineage l
+JOIN recharges r ON r.card_id = l.source_card_id AND r.bonus_amount > 0
+GROUP BY l.card_id;
+
+-- Charge the fee of the recharge's edition on the card's first recharge in
+-- that edition.
+-- Capped at the recharged amount so the card never goes negative, whatever
+-- the order in which the recharge procedure credits the card.
+CREATE OR REPLACE FUNCTION apply_card_fee() RETURNS TRIGGER AS $$
+DECLARE
+    fee DECIMAL(10,2);
+    fee_edition_id TEXT;
+BEGIN
+    IF NEW.card_id IS NULL OR COALESCE(NEW.amount, 0) <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    fee_edition_id := COALESCE(NEW.edition_id, get_active_edition_id());
+    SELECT card_fee INTO fee
+    FROM editions
+    WHERE id = fee_edition_id;
+
+    IF COALESCE(fee, 0) <= 0 THEN
+        RETURN NEW;
+    END IF;
+
+    -- A replacement card inherits the fee the card it replaced paid for the
+    -- same edition
+    IF EXISTS (
+        WITH RECURSIVE lineage AS (
+            SELECT NEW.card_id AS source_card_id
+            UNION
+            SELECT c.id
+            FROM lineage l
+            JOIN table_cards c ON c.replaced_by = l.source_card_id
+        )
+        SELECT 1 FROM card_fees f JOIN lineage l ON l.source_card_id = f.card_id
+        WHERE f.edition_id = fee_edition_id
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    fee := LEAST(fee, NEW.amount);
+
+    INSERT INTO card_fees (card_id, edition_id, amount, recharge_id)
+    VALUES (NEW.card_id, fee_edition_id, fee, NEW.id)
+    ON CONFLICT (card_id, edition_id) DO NOTHING;
+
+    IF FOUND THEN
+        UPDATE table_cards SET amount = amount - fee WHERE id = NEW.card_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS recharges_apply_card_fee ON recharges;
+CREATE TRIGGER recharges_apply_card_fee
+    AFTER INSERT ON recharges
+    FOR EACH ROW EXECUTE FUNCTION apply_card_fee();
+
+-- Cup deposits paid and returned per card, net of voided items
+CREATE OR REPLACE VIEW card_deposit_ledger AS
+WITH item_totals AS (
+    SELECT
+        o.card_id,
+        SUM(CASE WHEN i.is_deposit THEN ABS(i.price) * (i.quantity - COALESCE(i.refunded_quantity, 0)) ELSE 0 END) AS deposits_paid,
+        SUM(CASE WHEN i.is_return THEN ABS(i.price) * (i.quantity - COALESCE(i.refunded_quantity, 0)) ELSE 0 END) AS deposits_returned,
+        SUM(CASE WHEN i.is_deposit THEN i.quantity - COALESCE(i.refunded_quantity, 0) ELSE 0 END) AS cups_out,
+        SUM(CASE WHEN i.is_return THEN i.quantity - COALESCE(i.refunded_quantity, 0) ELSE 0 END) AS cups_returned
+    FROM bar_orders o
+    JOIN bar_order_items i ON i.order_id = o.id
+    WHERE o.card_id IS NOT NULL
+      AND (i.is_deposit OR i.is_return)
+    GROUP BY o.card_id
+)
+SELECT
+    l.card_id,
+    COALESCE(SUM(t.deposits_paid), 0)::DECIMAL(10,2) AS deposits_paid,
+    COALESCE(SUM(t.deposits_returned), 0)::DECIMAL(10,2) AS deposits_returned,
+    (COALESCE(SUM(t.deposits_paid), 0) - COALESCE(SUM(t.deposits_returned), 0))::DECIMAL(10,2) AS outstanding_deposits,
+    (COALESCE(SUM(t.cups_out), 0) - COALESCE(SUM(t.cups_returned), 0))::INT AS outstanding_cups
+FROM card_lineage l
+JOIN item_totals t ON t.card_id = l.source_card_id
+GROUP BY l.card_id;
+
+-- Amount generate-refund-data may pay out for each card
+CREATE OR REPLACE VIEW card_refundable_amounts AS
+SELECT
+    c.id AS card_id,
+    COALESCE(c.amount, 0)::DECIMAL(10,2) AS balance,
+    COALESCE(b.bonus_credit, 0)::DECIMAL(10,2) AS bonus_credit,
+    COALESCE((
+        SELECT SUM(f.amount) FROM card_lineage l
+        JOIN card_fees f ON f.card_id = l.source_card_id
+        WHERE l.card_id = c.id
+    ), 0)::DECIMAL(10,2) AS card_fee,
+    COALESCE(d.outstanding_deposits, 0)::DECIMAL(10,2) AS outstanding_deposits,
+    GREATEST(0, -COALESCE(d.outstanding_deposits, 0))::DECIMAL(10,2) AS excess_return_credit,
+    GREATEST(0,
+        COALESCE(c.amount, 0)
+        - COALESCE(b.bonus_credit, 0)
+        - GREATEST(0, -COALESCE(d.outstanding_deposits, 0))
+    )::DECIMAL(10,2) AS refundable_amount
+FROM table_cards c
+LEFT JOIN card_bonus_totals b ON b.card_id = c.id
+LEFT JOIN card_deposit_ledger d ON d.card_id = c.id;
+
+-- Row-Level Security: fees are read by the financial statistics, written by
+-- the recharge trigger only
+ALTER TABLE card_fees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY card_fees_read ON card_fees
+    FOR SELECT TO authenticated USING (true);
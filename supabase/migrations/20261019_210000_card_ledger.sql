@@ -0,0 +1,349 @@
+-- =====================================================
+-- Card Ledger (double-entry) and Nightly Reconciliation
+-- =====================================================
+-- Every credit and debit of a card is recorded once in card_ledger_entries, an
+-- append-only double-entry journal: each row moves `amount` from the debit
+-- account to the credit account. Card accounts are named 'card:<card id>';
+-- the other side is a festival account (payments:cash, bar_sales, bonus...).
+-- A card account is a liability: credits raise the balance, debits lower it.
+--
+-- Entries are written by triggers on the tables that record money movements
+-- (recharges, bar orders, order refunds, card fees, Stripe reversals, balance
+-- transfers), so the stored procedures do not have to know about the ledger.
+-- A balance change that bypasses all of them (a direct UPDATE of
+-- table_cards.amount) has no ledger entry: reconcile_card_ledger() compares
+-- every card's balance with its ledger balance and flags the difference.
+
+CREATE TABLE IF NOT EXISTS card_ledger_entries (
+    id BIGSERIAL PRIMARY KEY,
+    entry_type TEXT NOT NULL CHECK (entry_type IN (
+        'opening', 'recharge', 'bonus', 'card_fee', 'order', 'order_refund',
+        'void', 'stripe_reversal', 'transfer', 'adjustment'
+    )),
+    debit_account TEXT NOT NULL,
+    credit_account TEXT NOT NULL,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    reference_type TEXT,
+    reference_id TEXT,
+    description TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT card_ledger_entries_distinct_accounts CHECK (debit_account <> credit_account),
+    CONSTRAINT card_ledger_entries_touches_card CHECK (debit_account LIKE 'card:%' OR credit_account LIKE 'card:%')
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_ledger_entries_debit ON card_ledger_entries(debit_account);
+CREATE INDEX IF NOT EXISTS idx_card_ledger_entries_credit ON card_ledger_entries(credit_account);
+
+-- A source row is journalled once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_card_ledger_entries_reference
+    ON card_ledger_entries(entry_type, reference_type, reference_id)
+    WHERE reference_id IS NOT NULL;
+
+-- Append-only: corrections are new entries, never edits
+CREATE OR REPLACE FUNCTION reject_ledger_change() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Card ledger entries are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS card_ledger_entries_append_only ON card_ledger_entries;
+CREATE TRIGGER card_ledger_entries_append_only
+    BEFORE UPDATE OR DELETE ON card_ledger_entries
+    FOR EACH ROW EXECUTE FUNCTION reject_ledger_change();
+
+-- Journal a signed change of a card balance against a festival account.
+-- Zero amounts are skipped; a source row already journalled is ignored.
+CREATE OR REPLACE FUNCTION post_card_ledger_entry(
+    entry_type_in TEXT,
+    card_id_in TEXT,
+    amount_in DECIMAL,
+    counter_account_in TEXT,
+    reference_type_in TEXT DEFAULT NULL,
+    reference_id_in TEXT DEFAULT NULL,
+    description_in TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+BEGIN
+    IF card_id_in IS NULL OR COALESCE(amount_in, 0) = 0 THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO card_ledger_entries (
+        entry_type, debit_account, credit_account, amount, reference_type, reference_id, description
+    ) VALUES (
+        entry_type_in,
+        CASE WHEN amount_in > 0 THEN counter_account_in ELSE 'card:' || card_id_in END,
+        CASE WHEN amount_in > 0 THEN 'card:' || card_id_in ELSE counter_account_in END,
+        ABS(amount_in),
+        reference_type_in,
+        reference_id_in,
+        description_in
+    )
+    ON CONFLICT (entry_type, reference_type, reference_id) WHERE reference_id IS NOT NULL DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+-- -----------------------------------------------------
+-- Journalling triggers
+-- -----------------------------------------------------
+CREATE OR REPLACE FUNCTION ledger_recharge() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM post_card_ledger_entry(
+            'recharge', NEW.card_id, NEW.amount,
+            CASE
+                WHEN NEW.stripe_session_id IS NOT NULL THEN 'payments:online'
+                WHEN NEW.paid_by_card THEN 'payments:card'
+                ELSE 'payments:cash'
+            END,
+            'recharges', NEW.id::TEXT
+        );
+    ELSIF OLD.bonus_applied_at IS NULL AND NEW.bonus_applied_at IS NOT NULL THEN
+        PERFORM post_card_ledger_entry('bonus', NEW.card_id, NEW.bonus_amount, 'bonus', 'recharges', NEW.id::TEXT);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS recharges_ledger ON recharges;
+CREATE TRIGGER recharges_ledger
+    AFTER INSERT OR UPDATE OF bonus_applied_at ON recharges
+    FOR EACH ROW EXECUTE FUNCTION ledger_recharge();
+
+-- Orders debit the card; an order made only of cup returns credits it
+CREATE OR REPLACE FUNCTION ledger_bar_order() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM post_card_ledger_entry('order', NEW.card_id, -NEW.total_amount, 'bar_sales', 'bar_orders', NEW.id::TEXT);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bar_orders_ledger ON bar_orders;
+CREATE TRIGGER bar_orders_ledger
+    AFTER INSERT ON bar_orders
+    FOR EACH ROW EXECUTE FUNCTION ledger_bar_order();
+
+CREATE OR REPLACE FUNCTION ledger_bar_order_refund() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM post_card_ledger_entry(
+        CASE WHEN NEW.refund_type = 'void' THEN 'void' ELSE 'order_refund' END,
+        NEW.card_id, NEW.amount, 'bar_sales', 'bar_order_refunds', NEW.id::TEXT, NEW.reason
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bar_order_refunds_ledger ON bar_order_refunds;
+CREATE TRIGGER bar_order_refunds_ledger
+    AFTER INSERT ON bar_order_refunds
+    FOR EACH ROW EXECUTE FUNCTION ledger_bar_order_refund();
+
+CREATE OR REPLACE FUNCTION ledger_card_fee() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM post_card_ledger_entry(
+        'card_fee', NEW.card_id, -NEW.amount, 'card_fees', 'card_fees', NEW.card_id || ':' || NEW.edition_id
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS card_fees_ledger ON card_fees;
+CREATE TRIGGER card_fees_ledger
+    AFTER INSERT ON card_fees
+    FOR EACH ROW EXECUTE FUNCTION ledger_card_fee();
+
+-- The withdrawn bonus goes back to the bonus account, the rest of the debit to
+-- online payments
+CREATE OR REPLACE FUNCTION ledger_stripe_reversal() RETURNS TRIGGER AS $$
+DECLARE
+    bonus_debit DECIMAL := LEAST(NEW.bonus_amount, NEW.debited_amount);
+BEGIN
+    PERFORM post_card_ledger_entry(
+        'stripe_reversal', NEW.card_id, -(NEW.debited_amount - bonus_debit), 'payments:online',
+        'stripe_reversals', NEW.id::TEXT, NEW.reversal_type
+    );
+    PERFORM post_card_ledger_entry(
+        'bonus', NEW.card_id, -bonus_debit, 'bonus',
+        'stripe_reversals', NEW.id::TEXT, NEW.reversal_type
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stripe_reversals_ledger ON stripe_reversals;
+CREATE TRIGGER stripe_reversals_ledger
+    AFTER INSERT ON stripe_reversals
+    FOR EACH ROW EXECUTE FUNCTION ledger_stripe_reversal();
+
+-- A replacement or merge is one entry from the old card to the new one
+CREATE OR REPLACE FUNCTION ledger_balance_transfer() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.event_type = 'balance_transfer_in' AND COALESCE(NEW.amount, 0) <> 0 THEN
+        PERFORM post_card_ledger_entry(
+            'transfer', NEW.card_id, NEW.amount, 'card:' || NEW.related_card_id,
+            'card_lifecycle_events', NEW.id::TEXT, NEW.reason
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS card_lifecycle_events_ledger ON card_lifecycle_events;
+CREATE TRIGGER card_lifecycle_events_ledger
+    AFTER INSERT ON card_lifecycle_events
+    FOR EACH ROW EXECUTE FUNCTION ledger_balance_transfer();
+
+-- Opening balances: the ledger starts from the balances as they are today
+INSERT INTO card_ledger_entries (entry_type, debit_account, credit_account, amount, reference_type, reference_id, description)
+SELECT
+    'opening',
+    CASE WHEN amount > 0 THEN 'opening' ELSE 'card:' || id END,
+    CASE WHEN amount > 0 THEN 'card:' || id ELSE 'opening' END,
+    ABS(amount),
+    'table_cards',
+    id,
+    'Balance when the ledger was introduced'
+FROM table_cards
+WHERE COALESCE(amount, 0) <> 0
+ON CONFLICT DO NOTHING;
+
+-- -----------------------------------------------------
+-- Ledger balances and reconciliation
+-- -----------------------------------------------------
+CREATE OR REPLACE VIEW card_ledger_balances AS
+SELECT
+    substr(account, 6) AS card_id,
+    SUM(amount)::DECIMAL(10,2) AS ledger_balance,
+    COUNT(*)::INT AS entry_count,
+    MAX(created_at) AS last_entry_at
+FROM (
+    SELECT credit_account AS account, amount, created_at FROM card_ledger_entries
+    UNION ALL
+    SELECT debit_account, -amount, created_at FROM card_ledger_entries
+) postings
+WHERE account LIKE 'card:%'
+GROUP BY account;
+
+-- One row per reconciliation run, kept as the history of the nightly job
+CREATE TABLE IF NOT EXISTS card_ledger_reconciliations (
+    id SERIAL PRIMARY KEY,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    cards_checked INT NOT NULL DEFAULT 0,
+    mismatched_cards INT NOT NULL DEFAULT 0,
+    negative_balances INT NOT NULL DEFAULT 0,
+    total_drift DECIMAL(10,2) NOT NULL DEFAULT 0,
+    events_created INT NOT NULL DEFAULT 0,
+    mismatches JSONB NOT NULL DEFAULT '[]'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_ledger_reconciliations_started ON card_ledger_reconciliations(started_at DESC);
+
+-- Exact per-card comparison of table_cards.amount with the ledger balance.
+-- Raises one monitoring event per mismatched card, unless the card already
+-- has an open ledger event (a card stays flagged until someone resolves it).
+-- Runs as owner to write the run and its events, which staff can only read;
+-- only the monitoring function (service role) and admins may start a run.
+CREATE OR REPLACE FUNCTION reconcile_card_ledger() RETURNS JSONB AS $$
+DECLARE
+    run_id INT;
+    mismatch RECORD;
+    mismatch_list JSONB := '[]'::jsonb;
+    checked INT;
+    negatives INT;
+    mismatched INT := 0;
+    drift DECIMAL(10,2) := 0;
+    created_events INT := 0;
+BEGIN
+    IF auth.role() <> 'service_role'
+       AND NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin') THEN
+        RAISE EXCEPTION 'Permission denied: only admins may reconcile the card ledger';
+    END IF;
+
+    INSERT INTO card_ledger_reconciliations DEFAULT VALUES RETURNING id INTO run_id;
+
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE COALESCE(amount, 0) < 0)
+    INTO checked, negatives
+    FROM table_cards;
+
+    FOR mismatch IN
+        SELECT
+            COALESCE(c.id, l.card_id) AS card_id,
+            COALESCE(c.amount, 0)::DECIMAL(10,2) AS card_balance,
+            COALESCE(l.ledger_balance, 0)::DECIMAL(10,2) AS ledger_balance,
+            (COALESCE(c.amount, 0) - COALESCE(l.ledger_balance, 0))::DECIMAL(10,2) AS difference
+        FROM table_cards c
+        FULL OUTER JOIN card_ledger_balances l ON l.card_id = c.id
+        WHERE COALESCE(c.amount, 0) <> COALESCE(l.ledger_balance, 0)
+        ORDER BY ABS(COALESCE(c.amount, 0) - COALESCE(l.ledger_balance, 0)) DESC
+    LOOP
+        mismatched := mismatched + 1;
+        drift := drift + ABS(mismatch.difference);
+        mismatch_list := mismatch_list || jsonb_build_object(
+            'card_id', mismatch.card_id,
+            'card_balance', mismatch.card_balance,
+            'ledger_balance', mismatch.ledger_balance,
+            'difference', mismatch.difference
+        );
+
+        IF NOT EXISTS (
+            SELECT 1 FROM monitoring_events
+            WHERE card_id = mismatch.card_id
+              AND detection_algorithm = 'ledger_reconciliation'
+              AND status IN ('OPEN', 'INVESTIGATING')
+        ) THEN
+            INSERT INTO monitoring_events (
+                event_type, severity, card_id, affected_amount, detection_algorithm, event_data
+            ) VALUES (
+                'balance_discrepancy',
+                CASE WHEN ABS(mismatch.difference) >= 50 THEN 'CRITICAL' ELSE 'HIGH' END,
+                mismatch.card_id,
+                ABS(mismatch.difference),
+                'ledger_reconciliation',
+                jsonb_build_object(
+                    'reconciliation_id', run_id,
+                    'card_balance', mismatch.card_balance,
+                    'ledger_balance', mismatch.ledger_balance,
+                    'difference', mismatch.difference
+                )
+            );
+            created_events := created_events + 1;
+        END IF;
+    END LOOP;
+
+    UPDATE card_ledger_reconciliations
+    SET completed_at = NOW(),
+        cards_checked = checked,
+        mismatched_cards = mismatched,
+        negative_balances = negatives,
+        total_drift = drift,
+        events_created = created_events,
+        mismatches = mismatch_list
+    WHERE id = run_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'reconciliation_id', run_id,
+        'cards_checked', checked,
+        'balance_mismatches', mismatched,
+        'negative_balances', negatives,
+        'total_drift', drift,
+        'events_created', created_events
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Row-Level Security: staff read the ledger, only triggers write it
+ALTER TABLE card_ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE card_ledger_reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY card_ledger_entries_read ON card_ledger_entries
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY card_ledger_reconciliations_read ON card_ledger_reconciliations
+    FOR SELECT TO authenticated USING (true);
+
+REVOKE UPDATE, DELETE, TRUNCATE ON card_ledger_entries FROM anon, authenticated;
+
+-- Callers other than the service role are checked inside the function
+REVOKE EXECUTE ON FUNCTION reconcile_card_ledger() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reconcile_card_ledger() TO authenticated, service_role;
@@ -0,0 +1,158 @@
+-- =====================================================
+-- Manual Balance Adjustments
+-- =====================================================
+-- Cash deposits and withdrawals at the cashier, and corrections by admins,
+-- used to write table_cards.amount straight from the browser. They now go
+-- through the process-manual-adjustment edge function and
+-- sp_process_manual_adjustment, which locks the card, enforces idempotency on
+-- client_request_id, requires a reason and journals the change in the card
+-- ledger. Authenticated clients can no longer write card balances at all.
+
+CREATE TABLE IF NOT EXISTS card_adjustments (
+    id SERIAL PRIMARY KEY,
+    card_id TEXT NOT NULL REFERENCES table_cards(id),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount <> 0),
+    reason TEXT NOT NULL CHECK (LENGTH(TRIM(reason)) > 0),
+    previous_balance DECIMAL(10,2) NOT NULL,
+    new_balance DECIMAL(10,2) NOT NULL,
+    performed_by UUID,
+    performer_role TEXT,
+    client_request_id TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_adjustments_card ON card_adjustments(card_id, created_at);
+
+CREATE OR REPLACE FUNCTION ledger_card_adjustment() RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM post_card_ledger_entry(
+        'adjustment', NEW.card_id, NEW.amount, 'adjustments:manual',
+        'card_adjustments', NEW.id::TEXT, NEW.reason
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS card_adjustments_ledger ON card_adjustments;
+CREATE TRIGGER card_adjustments_ledger
+    AFTER INSERT ON card_adjustments
+    FOR EACH ROW EXECUTE FUNCTION ledger_card_adjustment();
+
+-- Credit (positive amount) or debit (negative amount) a card. The balance can
+-- not go negative and the card must be active (enforce_card_status).
+CREATE OR REPLACE FUNCTION sp_process_manual_adjustment(
+    card_id_in TEXT,
+    amount_in DECIMAL,
+    reason_in TEXT,
+    client_request_id_in TEXT,
+    performed_by_in UUID DEFAULT NULL,
+    performer_role_in TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    card_record table_cards%ROWTYPE;
+    adjustment_record card_adjustments%ROWTYPE;
+    previous_balance DECIMAL;
+    result JSONB;
+BEGIN
+    -- Check idempotency
+    SELECT response_payload INTO result
+    FROM idempotency_keys
+    WHERE request_id = client_request_id_in AND status = 'completed';
+
+    IF result IS NOT NULL THEN
+        RETURN result || jsonb_build_object('duplicate', true);
+    END IF;
+
+    INSERT INTO idempotency_keys (request_id, source_function, status)
+    VALUES (client_request_id_in, 'sp_process_manual_adjustment', 'processing')
+    ON CONFLICT (request_id) DO NOTHING;
+
+    BEGIN
+        IF amount_in IS NULL OR amount_in = 0 THEN
+            RAISE EXCEPTION 'Invalid adjustment amount: %', amount_in;
+        END IF;
+
+        IF reason_in IS NULL OR LENGTH(TRIM(reason_in)) = 0 THEN
+            RAISE EXCEPTION 'Invalid adjustment: a reason is required';
+        END IF;
+
+        SELECT * INTO card_record FROM table_cards WHERE id = card_id_in FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Card not found: %', card_id_in;
+        END IF;
+
+        IF card_record.status <> 'active' THEN
+            RAISE EXCEPTION 'Card not active: % is %', card_id_in, card_record.status;
+        END IF;
+
+        previous_balance := COALESCE(card_record.amount, 0);
+
+        IF previous_balance + amount_in < 0 THEN
+            RAISE EXCEPTION 'Insufficient balance: % available, % requested', previous_balance, -amount_in;
+        END IF;
+
+        UPDATE table_cards SET amount = previous_balance + amount_in WHERE id = card_id_in;
+
+        INSERT INTO card_adjustments (
+            card_id, amount, reason, previous_balance, new_balance,
+            performed_by, performer_role, client_request_id
+        ) VALUES (
+            card_id_in, amount_in, TRIM(reason_in), previous_balance, previous_balance + amount_in,
+            performed_by_in, performer_role_in, client_request_id_in
+        )
+        RETURNING * INTO adjustment_record;
+
+        INSERT INTO app_transaction_log (
+            card_id, transaction_type, status, amount_involved,
+            previous_balance, new_balance, details,
+            edge_function_name, client_request_id
+        ) VALUES (
+            card_id_in, 'manual_adjustment', 'completed', amount_in,
+            previous_balance, previous_balance + amount_in,
+            jsonb_build_object('adjustment_id', adjustment_record.id, 'reason', adjustment_record.reason, 'performed_by', performed_by_in, 'role', performer_role_in),
+            'process-manual-adjustment', client_request_id_in
+        );
+
+        result := jsonb_build_object(
+            'success', true,
+            'adjustment', to_jsonb(adjustment_record),
+            'previous_balance', previous_balance,
+            'new_balance', previous_balance + amount_in
+        );
+
+        UPDATE idempotency_keys
+        SET status = 'completed', response_payload = result, updated_at = NOW()
+        WHERE request_id = client_request_id_in;
+
+        RETURN result;
+
+    EXCEPTION WHEN OTHERS THEN
+        UPDATE idempotency_keys
+        SET status = 'failed',
+            response_payload = jsonb_build_object('error', SQLERRM),
+            updated_at = NOW()
+        WHERE request_id = client_request_id_in;
+
+        RAISE;
+    END;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row-Level Security: staff read adjustments, only the service role writes
+ALTER TABLE card_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY card_adjustments_read ON card_adjustments
+    FOR SELECT TO authenticated USING (true);
+
+-- Card balances are written by stored procedures running as the service role
+-- only. Authenticated staff keep read access; any direct write is rejected.
+ALTER TABLE table_cards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS table_cards_staff_read ON table_cards;
+CREATE POLICY table_cards_staff_read ON table_cards
+    FOR SELECT TO authenticated USING (true);
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON table_cards FROM anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION sp_process_manual_adjustment(TEXT, DECIMAL, TEXT, TEXT, UUID, TEXT) TO service_role;
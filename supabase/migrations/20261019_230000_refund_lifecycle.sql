@@ -0,0 +1,158 @@
+-- =====================================================
+-- Refund Request Lifecycle and Admin Review
+-- =====================================================
+-- A refund request now moves through explicit statuses:
+--
+--   submitted → validated → exported → paid
+--            ↘ rejected ↗ (a rejected request can be approved again)
+--
+-- Guests get a tracking reference (tracking_ref) in their confirmation email.
+-- Admins approve or reject submitted requests from the review queue; only
+-- validated requests are included in a SEPA batch by process-refunds, which
+-- marks them exported. Every status change is kept in refund_status_history.
+
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'submitted'
+    CHECK (status IN ('submitted', 'validated', 'rejected', 'exported', 'paid'));
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS tracking_ref TEXT
+    DEFAULT ('RB-' || UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 10)));
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS review_reason TEXT;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS reviewed_by UUID;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS confirmation_sent_at TIMESTAMPTZ;
+
+-- Requests already in an XML file were exported under the old flow
+UPDATE refunds SET status = 'exported' WHERE file_generated = true AND status = 'submitted';
+UPDATE refunds
+SET tracking_ref = 'RB-' || UPPER(SUBSTRING(REPLACE(gen_random_uuid()::TEXT, '-', '') FROM 1 FOR 10))
+WHERE tracking_ref IS NULL;
+
+ALTER TABLE refunds ALTER COLUMN tracking_ref SET NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_tracking_ref ON refunds(tracking_ref);
+CREATE INDEX IF NOT EXISTS idx_refunds_status ON refunds(status, created_at);
+
+CREATE TABLE IF NOT EXISTS refund_status_history (
+    id SERIAL PRIMARY KEY,
+    refund_id INT NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    reason TEXT,
+    performed_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_status_history_refund ON refund_status_history(refund_id, created_at);
+
+-- Reject transitions outside of the lifecycle and record the allowed ones
+CREATE OR REPLACE FUNCTION enforce_refund_status() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT (
+        (OLD.status = 'submitted' AND NEW.status IN ('validated', 'rejected'))
+        OR (OLD.status = 'validated' AND NEW.status IN ('rejected', 'exported'))
+        OR (OLD.status = 'rejected' AND NEW.status = 'validated')
+        OR (OLD.status = 'exported' AND NEW.status = 'paid')
+    ) THEN
+        RAISE EXCEPTION 'Invalid refund status transition: % → % for refund %', OLD.status, NEW.status, OLD.id;
+    END IF;
+
+    NEW.status_changed_at := NOW();
+    IF NEW.status = 'exported' THEN
+        NEW.file_generated := true;
+    END IF;
+
+    INSERT INTO refund_status_history (refund_id, from_status, to_status, reason, performed_by)
+    VALUES (
+        OLD.id, OLD.status, NEW.status,
+        CASE WHEN NEW.status IN ('validated', 'rejected') THEN NEW.review_reason END,
+        CASE WHEN NEW.status IN ('validated', 'rejected') THEN NEW.reviewed_by END
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refunds_enforce_status ON refunds;
+CREATE TRIGGER refunds_enforce_status
+    BEFORE UPDATE OF status ON refunds
+    FOR EACH ROW EXECUTE FUNCTION enforce_refund_status();
+
+CREATE OR REPLACE FUNCTION record_refund_submission() RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO refund_status_history (refund_id, from_status, to_status)
+    VALUES (NEW.id, NULL, NEW.status);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refunds_record_submission ON refunds;
+CREATE TRIGGER refunds_record_submission
+    AFTER INSERT ON refunds
+    FOR EACH ROW EXECUTE FUNCTION record_refund_submission();
+
+-- Approve or reject a refund request. A rejection needs a reason; exported
+-- and paid requests can no longer be reviewed.
+CREATE OR REPLACE FUNCTION sp_review_refund(
+    refund_id_in INT,
+    decision_in TEXT,
+    reason_in TEXT,
+    reviewed_by_in UUID
+) RETURNS JSONB AS $$
+DECLARE
+    refund_record refunds%ROWTYPE;
+    previous_status TEXT;
+    target_status TEXT;
+BEGIN
+    IF decision_in NOT IN ('approve', 'reject') THEN
+        RAISE EXCEPTION 'Invalid refund decision: %', decision_in;
+    END IF;
+
+    IF decision_in = 'reject' AND COALESCE(TRIM(reason_in), '') = '' THEN
+        RAISE EXCEPTION 'Invalid refund review: a reason is required to reject';
+    END IF;
+
+    SELECT * INTO refund_record FROM refunds WHERE id = refund_id_in FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Refund not found: %', refund_id_in;
+    END IF;
+
+    IF refund_record.status IN ('exported', 'paid') THEN
+        RAISE EXCEPTION 'Refund already exported: % is %', refund_id_in, refund_record.status;
+    END IF;
+
+    previous_status := refund_record.status;
+    target_status := CASE WHEN decision_in = 'approve' THEN 'validated' ELSE 'rejected' END;
+
+    IF refund_record.status = target_status THEN
+        RAISE EXCEPTION 'Refund already reviewed: % is %', refund_id_in, refund_record.status;
+    END IF;
+
+    UPDATE refunds
+    SET status = target_status,
+        review_reason = NULLIF(TRIM(reason_in), ''),
+        reviewed_by = reviewed_by_in,
+        reviewed_at = NOW()
+    WHERE id = refund_id_in
+    RETURNING * INTO refund_record;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'refund_id', refund_record.id,
+        'tracking_ref', refund_record.tracking_ref,
+        'previous_status', previous_status,
+        'status', refund_record.status
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row-Level Security: staff read the history, only triggers write it
+ALTER TABLE refund_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY refund_status_history_read ON refund_status_history
+    FOR SELECT TO authenticated USING (true);
+
+GRANT EXECUTE ON FUNCTION sp_review_refund(INT, TEXT, TEXT, UUID) TO service_role;
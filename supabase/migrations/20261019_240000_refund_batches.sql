@@ -0,0 +1,285 @@
+-- =====================================================
+-- SEPA Refund Batches and Bank Statement Reconciliation
+-- =====================================================
+-- Every pain.001 file generated by process-refunds is recorded in
+-- refund_batches with its message id, totals, included refunds and the exact
+-- XML, so a batch can be downloaded again.
+--
+-- Each exported refund keeps the EndToEndId it was sent with. Bank statements
+-- (camt.053 / camt.054) imported by import-bank-statement are matched on that
+-- EndToEndId and settle the refunds:
+--
+--   exported → paid → returned
+--            ↘ returned (rejected by the beneficiary bank)
+
+CREATE TABLE IF NOT EXISTS refund_batches (
+    id SERIAL PRIMARY KEY,
+    message_id TEXT NOT NULL UNIQUE,
+    filename TEXT NOT NULL,
+    transaction_count INT NOT NULL CHECK (transaction_count > 0),
+    total_amount NUMERIC(10, 2) NOT NULL,
+    refund_ids INT[] NOT NULL,
+    xml_content TEXT NOT NULL,
+    debtor_iban TEXT,
+    generated_by UUID,
+    request_id TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_batches_created_at ON refund_batches(created_at DESC);
+
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS batch_id INT REFERENCES refund_batches(id);
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS end_to_end_id TEXT;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS exported_amount NUMERIC(10, 2);
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS returned_at TIMESTAMPTZ;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS return_reason TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_end_to_end_id ON refunds(end_to_end_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_batch_id ON refunds(batch_id);
+
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_status_check;
+ALTER TABLE refunds ADD CONSTRAINT refunds_status_check
+    CHECK (status IN ('submitted', 'validated', 'rejected', 'exported', 'paid', 'returned'));
+
+CREATE TABLE IF NOT EXISTS bank_statement_imports (
+    id SERIAL PRIMARY KEY,
+    statement_id TEXT NOT NULL UNIQUE,
+    statement_type TEXT NOT NULL CHECK (statement_type IN ('camt.053', 'camt.054')),
+    file_name TEXT,
+    entry_count INT NOT NULL DEFAULT 0,
+    paid_count INT NOT NULL DEFAULT 0,
+    returned_count INT NOT NULL DEFAULT 0,
+    unmatched_count INT NOT NULL DEFAULT 0,
+    results JSONB NOT NULL DEFAULT '[]'::JSONB,
+    imported_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Settlement transitions are added to the lifecycle
+CREATE OR REPLACE FUNCTION enforce_refund_status() RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT (
+        (OLD.status = 'submitted' AND NEW.status IN ('validated', 'rejected'))
+        OR (OLD.status = 'validated' AND NEW.status IN ('rejected', 'exported'))
+        OR (OLD.status = 'rejected' AND NEW.status = 'validated')
+        OR (OLD.status = 'exported' AND NEW.status IN ('paid', 'returned'))
+        OR (OLD.status = 'paid' AND NEW.status = 'returned')
+    ) THEN
+        RAISE EXCEPTION 'Invalid refund status transition: % → % for refund %', OLD.status, NEW.status, OLD.id;
+    END IF;
+
+    NEW.status_changed_at := NOW();
+    IF NEW.status = 'exported' THEN
+        NEW.file_generated := true;
+    END IF;
+
+    INSERT INTO refund_status_history (refund_id, from_status, to_status, reason, performed_by)
+    VALUES (
+        OLD.id, OLD.status, NEW.status,
+        CASE
+            WHEN NEW.status IN ('validated', 'rejected') THEN NEW.review_reason
+            WHEN NEW.status = 'returned' THEN NEW.return_reason
+        END,
+        CASE WHEN NEW.status IN ('validated', 'rejected') THEN NEW.reviewed_by END
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record a generated batch and mark its refunds exported in one transaction.
+-- transfers_in: [{ "refund_id": 12, "end_to_end_id": "REFUND_000012", "amount": 18.50 }]
+-- Fails when a refund is no longer validated, so a file is never handed out
+-- for refunds that were rejected or exported in the meantime.
+CREATE OR REPLACE FUNCTION sp_record_refund_batch(
+    message_id_in TEXT,
+    filename_in TEXT,
+    xml_content_in TEXT,
+    transfers_in JSONB,
+    debtor_iban_in TEXT,
+    generated_by_in UUID,
+    request_id_in TEXT
+) RETURNS JSONB AS $$
+DECLARE
+    batch_record refund_batches%ROWTYPE;
+    refund_ids_in INT[];
+    updated_count INT;
+BEGIN
+    IF jsonb_typeof(transfers_in) <> 'array' OR jsonb_array_length(transfers_in) = 0 THEN
+        RAISE EXCEPTION 'Invalid refund batch: no transfers';
+    END IF;
+
+    SELECT ARRAY_AGG((transfer->>'refund_id')::INT ORDER BY (transfer->>'refund_id')::INT)
+    INTO refund_ids_in
+    FROM jsonb_array_elements(transfers_in) AS transfer;
+
+    INSERT INTO refund_batches (
+        message_id, filename, transaction_count, total_amount, refund_ids,
+        xml_content, debtor_iban, generated_by, request_id
+    )
+    SELECT
+        message_id_in, filename_in, COUNT(*), SUM((transfer->>'amount')::NUMERIC), refund_ids_in,
+        xml_content_in, debtor_iban_in, generated_by_in, request_id_in
+    FROM jsonb_array_elements(transfers_in) AS transfer
+    RETURNING * INTO batch_record;
+
+    UPDATE refunds r
+    SET status = 'exported',
+        batch_id = batch_record.id,
+        end_to_end_id = transfer->>'end_to_end_id',
+        exported_amount = (transfer->>'amount')::NUMERIC
+    FROM jsonb_array_elements(transfers_in) AS transfer
+    WHERE r.id = (transfer->>'refund_id')::INT
+      AND r.status = 'validated';
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    IF updated_count <> batch_record.transaction_count THEN
+        RAISE EXCEPTION 'Refund batch conflict: only % of % refunds are still validated',
+            updated_count, batch_record.transaction_count;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'batch_id', batch_record.id,
+        'message_id', batch_record.message_id,
+        'transaction_count', batch_record.transaction_count,
+        'total_amount', batch_record.total_amount
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Apply the transfers of one bank statement.
+-- entries_in: [{ "end_to_end_id": "REFUND_000012", "amount": 18.50,
+--                "outcome": "paid" | "returned", "booking_date": "2026-10-20",
+--                "return_reason": "AC04" }]
+-- Each entry is reported as paid, returned, unmatched, amount_mismatch,
+-- already_applied or invalid_status; only paid and returned change a refund.
+CREATE OR REPLACE FUNCTION sp_apply_bank_statement(
+    statement_id_in TEXT,
+    statement_type_in TEXT,
+    file_name_in TEXT,
+    entries_in JSONB,
+    imported_by_in UUID
+) RETURNS JSONB AS $$
+DECLARE
+    entry JSONB;
+    refund_record refunds%ROWTYPE;
+    entry_outcome TEXT;
+    entry_result TEXT;
+    booked_at TIMESTAMPTZ;
+    results JSONB := '[]'::JSONB;
+    paid_total INT := 0;
+    returned_total INT := 0;
+    unmatched_total INT := 0;
+    import_id INT;
+BEGIN
+    IF statement_type_in NOT IN ('camt.053', 'camt.054') THEN
+        RAISE EXCEPTION 'Invalid statement type: %', statement_type_in;
+    END IF;
+
+    IF jsonb_typeof(entries_in) <> 'array' THEN
+        RAISE EXCEPTION 'Invalid statement entries';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM bank_statement_imports WHERE statement_id = statement_id_in) THEN
+        RAISE EXCEPTION 'Statement already imported: %', statement_id_in;
+    END IF;
+
+    FOR entry IN SELECT * FROM jsonb_array_elements(entries_in)
+    LOOP
+        entry_outcome := entry->>'outcome';
+        booked_at := COALESCE((entry->>'booking_date')::TIMESTAMPTZ, NOW());
+
+        SELECT * INTO refund_record
+        FROM refunds
+        WHERE end_to_end_id = entry->>'end_to_end_id'
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            entry_result := 'unmatched';
+        ELSIF refund_record.exported_amount IS DISTINCT FROM (entry->>'amount')::NUMERIC THEN
+            entry_result := 'amount_mismatch';
+        ELSIF entry_outcome = 'paid' THEN
+            IF refund_record.status = 'exported' THEN
+                UPDATE refunds SET status = 'paid', paid_at = booked_at WHERE id = refund_record.id;
+                entry_result := 'paid';
+            ELSIF refund_record.status IN ('paid', 'returned') THEN
+                entry_result := 'already_applied';
+            ELSE
+                entry_result := 'invalid_status';
+            END IF;
+        ELSIF entry_outcome = 'returned' THEN
+            IF refund_record.status IN ('exported', 'paid') THEN
+                UPDATE refunds
+                SET status = 'returned',
+                    returned_at = booked_at,
+                    return_reason = NULLIF(entry->>'return_reason', '')
+                WHERE id = refund_record.id;
+                entry_result := 'returned';
+            ELSIF refund_record.status = 'returned' THEN
+                entry_result := 'already_applied';
+            ELSE
+                entry_result := 'invalid_status';
+            END IF;
+        ELSE
+            RAISE EXCEPTION 'Invalid statement entry outcome: %', entry_outcome;
+        END IF;
+
+        CASE entry_result
+            WHEN 'paid' THEN paid_total := paid_total + 1;
+            WHEN 'returned' THEN returned_total := returned_total + 1;
+            WHEN 'unmatched' THEN unmatched_total := unmatched_total + 1;
+            ELSE NULL;
+        END CASE;
+
+        results := results || jsonb_build_object(
+            'end_to_end_id', entry->>'end_to_end_id',
+            'refund_id', CASE WHEN refund_record.id IS NOT NULL AND entry_result <> 'unmatched' THEN refund_record.id END,
+            'amount', (entry->>'amount')::NUMERIC,
+            'outcome', entry_outcome,
+            'result', entry_result
+        );
+    END LOOP;
+
+    INSERT INTO bank_statement_imports (
+        statement_id, statement_type, file_name, entry_count,
+        paid_count, returned_count, unmatched_count, results, imported_by
+    ) VALUES (
+        statement_id_in, statement_type_in, file_name_in, jsonb_array_length(entries_in),
+        paid_total, returned_total, unmatched_total, results, imported_by_in
+    )
+    RETURNING id INTO import_id;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'import_id', import_id,
+        'statement_id', statement_id_in,
+        'entry_count', jsonb_array_length(entries_in),
+        'paid_count', paid_total,
+        'returned_count', returned_total,
+        'unmatched_count', unmatched_total,
+        'results', results
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Row-Level Security: batches hold IBANs, only admins read them
+ALTER TABLE refund_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bank_statement_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY refund_batches_admin_read ON refund_batches
+    FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+CREATE POLICY bank_statement_imports_admin_read ON bank_statement_imports
+    FOR SELECT TO authenticated
+    USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin'));
+
+GRANT EXECUTE ON FUNCTION sp_record_refund_batch(TEXT, TEXT, TEXT, JSONB, TEXT, UUID, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION sp_apply_bank_statement(TEXT, TEXT, TEXT, JSONB, UUID) TO service_role;
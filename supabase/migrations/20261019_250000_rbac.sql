@@ -0,0 +1,221 @@
+-- =====================================================
+-- Role-Based Access Control
+-- =====================================================
+-- Access used to be decided twice and differently: the frontend compared
+-- profiles.role to hard-coded role lists, and each edge function had its own
+-- role check ('admin' only, or ['recharge', 'admin']). SecurityConfig listed
+-- permissions nobody stored. Roles and permissions now live in the database:
+-- a role grants permissions through role_permissions, the app and the edge
+-- functions both ask for permissions, never for role names.
+--
+-- The default grants reproduce the previous role checks, so nobody gains or
+-- loses access when this migration runs. Admins edit the grants from the
+-- Users tab through the manage-role-permissions edge function.
+
+-- Roles of SecurityConfig that profiles.role could not hold yet
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'finance_manager';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'auditor';
+
+CREATE TABLE IF NOT EXISTS roles (
+    name TEXT PRIMARY KEY,
+    description TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS permissions (
+    name TEXT PRIMARY KEY,
+    description TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+    role TEXT NOT NULL REFERENCES roles(name) ON DELETE CASCADE,
+    permission TEXT NOT NULL REFERENCES permissions(name) ON DELETE CASCADE,
+    granted_by UUID,
+    granted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (role, permission)
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_permissions_permission ON role_permissions(permission);
+
+-- Every change of the grants, with the admin who made it
+CREATE TABLE IF NOT EXISTS role_permission_history (
+    id SERIAL PRIMARY KEY,
+    role TEXT NOT NULL REFERENCES roles(name) ON DELETE CASCADE,
+    granted TEXT[] NOT NULL DEFAULT '{}',
+    revoked TEXT[] NOT NULL DEFAULT '{}',
+    changed_by UUID,
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_permission_history_role ON role_permission_history(role, changed_at);
+
+INSERT INTO roles (name, description) VALUES
+    ('admin', 'Administrateur'),
+    ('bar', 'Bar'),
+    ('recharge', 'Recharge'),
+    ('finance_manager', 'Responsable financier'),
+    ('auditor', 'Auditeur')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO permissions (name, description) VALUES
+    ('access_admin', 'Accéder à l''administration'),
+    ('access_bar', 'Accéder à la caisse du bar'),
+    ('access_recharge', 'Accéder au poste de recharge'),
+    ('manage_users', 'Gérer les utilisateurs et leurs permissions'),
+    ('manage_editions', 'Gérer les éditions'),
+    ('manage_cards', 'Provisionner et gérer les cartes'),
+    ('manage_card_secrets', 'Gérer les secrets des cartes'),
+    ('manage_bar_products', 'Gérer le catalogue du bar'),
+    ('manage_recharge_offers', 'Gérer les offres de recharge'),
+    ('operate_recharge_shifts', 'Ouvrir et fermer sa caisse de recharge'),
+    ('supervise_recharge_shifts', 'Clôturer les caisses des autres opérateurs et résoudre les écarts'),
+    ('adjust_balances', 'Ajuster manuellement le solde des cartes'),
+    ('refund_bar_orders', 'Rembourser une commande du bar sans code superviseur'),
+    ('view_refund_data', 'Consulter les demandes de remboursement'),
+    ('review_refunds', 'Valider ou refuser les demandes de remboursement'),
+    ('process_refunds', 'Traiter les remboursements'),
+    ('generate_xml', 'Générer les fichiers de virement SEPA'),
+    ('import_bank_statements', 'Importer les extraits bancaires'),
+    ('access_audit_logs', 'Consulter le journal d''audit')
+ON CONFLICT (name) DO NOTHING;
+
+-- Admins hold every permission, other roles what their old checks allowed
+INSERT INTO role_permissions (role, permission)
+SELECT 'admin', name FROM permissions
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+    ('bar', 'access_bar'),
+    ('recharge', 'access_recharge'),
+    ('recharge', 'operate_recharge_shifts'),
+    ('recharge', 'adjust_balances'),
+    ('finance_manager', 'access_admin'),
+    ('finance_manager', 'view_refund_data'),
+    ('finance_manager', 'review_refunds'),
+    ('finance_manager', 'process_refunds'),
+    ('finance_manager', 'generate_xml'),
+    ('finance_manager', 'import_bank_statements'),
+    ('auditor', 'access_admin'),
+    ('auditor', 'view_refund_data'),
+    ('auditor', 'access_audit_logs')
+ON CONFLICT DO NOTHING;
+
+-- Role and permissions of a user, used by the app and the edge functions
+CREATE OR REPLACE FUNCTION get_user_permissions(user_id_in UUID)
+RETURNS JSONB AS $$
+DECLARE
+    user_role_name TEXT;
+BEGIN
+    SELECT role::TEXT INTO user_role_name FROM profiles WHERE id = user_id_in;
+
+    RETURN jsonb_build_object(
+        'role', user_role_name,
+        'permissions', COALESCE((
+            SELECT jsonb_agg(permission ORDER BY permission)
+            FROM role_permissions
+            WHERE role = user_role_name
+        ), '[]'::jsonb)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_my_permissions()
+RETURNS JSONB AS $$
+BEGIN
+    RETURN get_user_permissions(auth.uid());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_permission(user_id_in UUID, permission_in TEXT)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM profiles
+        JOIN role_permissions ON role_permissions.role = profiles.role::TEXT
+        WHERE profiles.id = user_id_in AND role_permissions.permission = permission_in
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Replace the permissions of a role in one transaction. Admins must keep
+-- manage_users, otherwise nobody could edit the grants any more.
+CREATE OR REPLACE FUNCTION sp_set_role_permissions(
+    role_in TEXT,
+    permissions_in TEXT[],
+    granted_by_in UUID DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+    unknown_permissions TEXT[];
+    previous_permissions TEXT[];
+    new_permissions TEXT[];
+BEGIN
+    PERFORM 1 FROM roles WHERE name = role_in FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Role not found: %', role_in;
+    END IF;
+
+    SELECT ARRAY_AGG(DISTINCT requested ORDER BY requested) INTO unknown_permissions
+    FROM UNNEST(COALESCE(permissions_in, ARRAY[]::TEXT[])) AS requested
+    WHERE NOT EXISTS (SELECT 1 FROM permissions WHERE name = requested);
+
+    IF unknown_permissions IS NOT NULL THEN
+        RAISE EXCEPTION 'Unknown permissions: %', ARRAY_TO_STRING(unknown_permissions, ', ');
+    END IF;
+
+    IF role_in = 'admin' AND NOT ('manage_users' = ANY(COALESCE(permissions_in, ARRAY[]::TEXT[]))) THEN
+        RAISE EXCEPTION 'Invalid permissions: the admin role must keep manage_users';
+    END IF;
+
+    SELECT COALESCE(ARRAY_AGG(permission ORDER BY permission), ARRAY[]::TEXT[]) INTO previous_permissions
+    FROM role_permissions WHERE role = role_in;
+
+    DELETE FROM role_permissions
+    WHERE role = role_in AND NOT (permission = ANY(COALESCE(permissions_in, ARRAY[]::TEXT[])));
+
+    INSERT INTO role_permissions (role, permission, granted_by)
+    SELECT role_in, requested, granted_by_in
+    FROM UNNEST(COALESCE(permissions_in, ARRAY[]::TEXT[])) AS requested
+    ON CONFLICT (role, permission) DO NOTHING;
+
+    SELECT COALESCE(ARRAY_AGG(permission ORDER BY permission), ARRAY[]::TEXT[]) INTO new_permissions
+    FROM role_permissions WHERE role = role_in;
+
+    INSERT INTO role_permission_history (role, granted, revoked, changed_by)
+    VALUES (
+        role_in,
+        ARRAY(SELECT p FROM UNNEST(new_permissions) AS p WHERE NOT (p = ANY(previous_permissions))),
+        ARRAY(SELECT p FROM UNNEST(previous_permissions) AS p WHERE NOT (p = ANY(new_permissions))),
+        granted_by_in
+    );
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'role', role_in,
+        'permissions', to_jsonb(new_permissions)
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_user_permissions(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_my_permissions() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_permission(UUID, TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION sp_set_role_permissions(TEXT, TEXT[], UUID) TO service_role;
+
+-- Row-Level Security: staff read the model, only the service role writes
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permission_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY roles_read ON roles
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY permissions_read ON permissions
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY role_permissions_read ON role_permissions
+    FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY role_permission_history_read ON role_permission_history
+    FOR SELECT TO authenticated
+    USING (has_permission(auth.uid(), 'manage_users'));
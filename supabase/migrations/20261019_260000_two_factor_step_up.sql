@@ -0,0 +1,39 @@
+-- =====================================================
+-- Two-Factor Authentication: step-up confirmations
+-- =====================================================
+-- Staff enrol a TOTP factor through Supabase Auth MFA. Financial and account
+-- operations (SEPA refund files, staff account creation, manual balance
+-- adjustments) additionally require a code confirmed within the last few
+-- minutes (SecurityConfig.auth.twoFactor.stepUpMaxAge).
+--
+-- Codes are checked by the verify-step-up edge function, which applies the
+-- failed-attempt lockout and records the confirmation here. The sensitive
+-- edge functions read this table rather than the session's amr claim, so a
+-- code verified without going through the lockout never counts as step-up.
+
+CREATE TABLE IF NOT EXISTS step_up_verifications (
+    user_id UUID PRIMARY KEY,
+    factor_id UUID NOT NULL,
+    verified_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Record a confirmed code, replacing the previous confirmation of the user
+CREATE OR REPLACE FUNCTION sp_record_step_up(user_id_in UUID, factor_id_in UUID)
+RETURNS JSONB AS $$
+DECLARE
+    recorded_at TIMESTAMPTZ;
+BEGIN
+    INSERT INTO step_up_verifications (user_id, factor_id, verified_at)
+    VALUES (user_id_in, factor_id_in, NOW())
+    ON CONFLICT (user_id) DO UPDATE
+        SET factor_id = EXCLUDED.factor_id, verified_at = EXCLUDED.verified_at
+    RETURNING verified_at INTO recorded_at;
+
+    RETURN jsonb_build_object('success', true, 'verified_at', recorded_at);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION sp_record_step_up(UUID, UUID) TO service_role;
+
+-- Row-Level Security: only the edge functions (service role) read and write
+ALTER TABLE step_up_verifications ENABLE ROW LEVEL SECURITY;
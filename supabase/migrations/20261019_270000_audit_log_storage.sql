@@ -0,0 +1,308 @@
+-- =====================================================
+-- Persistent, hash-chained audit log
+-- =====================================================
+-- AuditLogger kept its entries in memory, so they were lost with the page or
+-- the edge function instance. Entries are now appended to audit_logs through
+-- sp_append_audit_log, which chains them: every row stores the hash of the
+-- previous row and its own hash over (previous hash, position, time, entry).
+-- Editing, removing or reordering a row breaks the chain, which
+-- sp_verify_audit_log_chain reports.
+--
+-- Retention depends on the entry's DataClassification (see
+-- SecurityConfig.audit.retention.byClassification). Expired entries are
+-- redacted, not deleted: the payload is dropped but the hashes stay, so the
+-- rest of the chain can still be verified.
+
+CREATE TABLE IF NOT EXISTS audit_retention_policies (
+    classification TEXT PRIMARY KEY,
+    retention_days INTEGER NOT NULL CHECK (retention_days > 0),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO audit_retention_policies (classification, retention_days) VALUES
+    ('public', 90),
+    ('internal', 365),
+    ('confidential', 1825),
+    ('restricted', 2555)
+ON CONFLICT (classification) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS audit_logs (
+    seq BIGSERIAL PRIMARY KEY,
+    entry_id TEXT NOT NULL,
+    occurred_at TIMESTAMPTZ NOT NULL,
+    recorded_at TIMESTAMPTZ NOT NULL,
+    -- AuditLogEntry as logged; NULL once redacted by retention
+    entry JSONB,
+    category TEXT GENERATED ALWAYS AS (entry->>'category') STORED,
+    risk_level TEXT GENERATED ALWAYS AS (entry->>'riskLevel') STORED,
+    result TEXT GENERATED ALWAYS AS (entry->>'result') STORED,
+    event TEXT GENERATED ALWAYS AS (entry->>'event') STORED,
+    user_id TEXT GENERATED ALWAYS AS (entry->>'userId') STORED,
+    resource TEXT GENERATED ALWAYS AS (entry->>'resource') STORED,
+    data_classification TEXT NOT NULL REFERENCES audit_retention_policies(classification),
+    retain_until TIMESTAMPTZ NOT NULL,
+    prev_hash TEXT NOT NULL,
+    entry_hash TEXT NOT NULL,
+    archived_at TIMESTAMPTZ,
+    purged_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_occurred_at ON audit_logs(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_category ON audit_logs(category, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user ON audit_logs(user_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_risk_level ON audit_logs(risk_level, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_retain_until ON audit_logs(retain_until) WHERE purged_at IS NULL;
+
+-- Hash of one link of the chain
+CREATE OR REPLACE FUNCTION audit_log_hash(prev_hash_in TEXT, seq_in BIGINT, recorded_at_in TIMESTAMPTZ, entry_in JSONB)
+RETURNS TEXT AS $$
+    SELECT encode(sha256(convert_to(
+        prev_hash_in || '|' || seq_in::TEXT || '|' || EXTRACT(EPOCH FROM recorded_at_in)::TEXT || '|' || entry_in::TEXT,
+        'UTF8'
+    )), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Rows are append-only: only archiving and redaction of expired entries may
+-- change them, and nothing may delete them
+CREATE OR REPLACE FUNCTION audit_logs_guard()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'Audit log entries cannot be deleted';
+    END IF;
+
+    IF NEW.seq <> OLD.seq
+        OR NEW.entry_id <> OLD.entry_id
+        OR NEW.occurred_at <> OLD.occurred_at
+        OR NEW.recorded_at <> OLD.recorded_at
+        OR NEW.data_classification <> OLD.data_classification
+        OR NEW.retain_until <> OLD.retain_until
+        OR NEW.prev_hash <> OLD.prev_hash
+        OR NEW.entry_hash <> OLD.entry_hash
+        OR (NEW.entry IS DISTINCT FROM OLD.entry
+            AND NOT (NEW.entry IS NULL AND NEW.purged_at IS NOT NULL AND OLD.retain_until <= NOW()))
+    THEN
+        RAISE EXCEPTION 'Audit log entries are append-only';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_logs_append_only ON audit_logs;
+CREATE TRIGGER audit_logs_append_only
+    BEFORE UPDATE OR DELETE ON audit_logs
+    FOR EACH ROW EXECUTE FUNCTION audit_logs_guard();
+
+-- Append an entry to the chain. Appends are serialised so every row links to
+-- the one before it. Only the service role appends: browser entries go
+-- through the rate-limited append-audit-log edge function, which sets the
+-- user and IP address itself.
+CREATE OR REPLACE FUNCTION sp_append_audit_log(entry_in JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    logged JSONB := entry_in;
+    classification_name TEXT;
+    retention INTEGER;
+    recorded TIMESTAMPTZ := clock_timestamp();
+    occurred TIMESTAMPTZ;
+    previous_hash TEXT;
+    new_seq BIGINT;
+    new_hash TEXT;
+BEGIN
+    IF entry_in IS NULL OR jsonb_typeof(entry_in) <> 'object' OR COALESCE(entry_in->>'id', '') = '' THEN
+        RAISE EXCEPTION 'Invalid audit entry';
+    END IF;
+    IF octet_length(entry_in::TEXT) > 16384 THEN
+        RAISE EXCEPTION 'Invalid audit entry: larger than 16 KB';
+    END IF;
+
+    classification_name := COALESCE(logged->>'dataClassification', 'internal');
+    SELECT retention_days INTO retention
+    FROM audit_retention_policies WHERE classification = classification_name;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invalid audit entry: unknown data classification %', classification_name;
+    END IF;
+
+    BEGIN
+        occurred := (logged->>'timestamp')::TIMESTAMPTZ;
+    EXCEPTION WHEN OTHERS THEN
+        occurred := NULL;
+    END;
+    IF occurred IS NULL THEN
+        occurred := recorded;
+        logged := jsonb_set(logged, '{timestamp}', to_jsonb(occurred));
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('audit_logs_chain'));
+
+    SELECT entry_hash INTO previous_hash FROM audit_logs ORDER BY seq DESC LIMIT 1;
+    previous_hash := COALESCE(previous_hash, repeat('0', 64));
+    new_seq := nextval(pg_get_serial_sequence('audit_logs', 'seq'));
+    new_hash := audit_log_hash(previous_hash, new_seq, recorded, logged);
+
+    INSERT INTO audit_logs (
+        seq, entry_id, occurred_at, recorded_at, entry, data_classification,
+        retain_until, prev_hash, entry_hash
+    ) VALUES (
+        new_seq, logged->>'id', occurred, recorded, logged, classification_name,
+        recorded + make_interval(days => retention), previous_hash, new_hash
+    );
+
+    RETURN jsonb_build_object('success', true, 'seq', new_seq, 'entry_hash', new_hash);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Filtered entries, newest first. Runs as the caller: RLS limits it to users
+-- granted access_audit_logs.
+CREATE OR REPLACE FUNCTION sp_query_audit_logs(filters_in JSONB DEFAULT '{}'::JSONB)
+RETURNS JSONB AS $$
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'seq', page.seq,
+        'entry', page.entry,
+        'entry_hash', page.entry_hash,
+        'archived_at', page.archived_at
+    ) ORDER BY page.occurred_at DESC, page.seq DESC), '[]'::JSONB)
+    FROM (
+        SELECT seq, entry, entry_hash, archived_at, occurred_at
+        FROM audit_logs
+        WHERE entry IS NOT NULL
+          AND (filters_in->>'startDate' IS NULL OR occurred_at >= (filters_in->>'startDate')::TIMESTAMPTZ)
+          AND (filters_in->>'endDate' IS NULL OR occurred_at <= (filters_in->>'endDate')::TIMESTAMPTZ)
+          AND (filters_in->>'userId' IS NULL OR user_id = filters_in->>'userId')
+          AND (filters_in->>'event' IS NULL OR event = filters_in->>'event')
+          AND (filters_in->>'category' IS NULL OR category = filters_in->>'category')
+          AND (filters_in->>'result' IS NULL OR result = filters_in->>'result')
+          AND (filters_in->>'riskLevel' IS NULL OR risk_level = filters_in->>'riskLevel')
+          AND (filters_in->>'resource' IS NULL OR resource = filters_in->>'resource')
+          AND (filters_in->>'ipAddress' IS NULL OR entry->>'ipAddress' = filters_in->>'ipAddress')
+          AND (COALESCE((filters_in->>'includeArchived')::BOOLEAN, false) OR archived_at IS NULL)
+        ORDER BY occurred_at DESC, seq DESC
+        LIMIT LEAST(COALESCE((filters_in->>'limit')::INTEGER, 100), 1000)
+        OFFSET COALESCE((filters_in->>'offset')::INTEGER, 0)
+    ) AS page;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION audit_log_reader()
+RETURNS BOOLEAN AS $$
+    SELECT auth.role() = 'service_role' OR has_permission(auth.uid(), 'access_audit_logs');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Archiving and redaction change the trail, so reading it is not enough
+CREATE OR REPLACE FUNCTION audit_log_maintainer()
+RETURNS BOOLEAN AS $$
+    SELECT auth.role() = 'service_role' OR has_permission(auth.uid(), 'maintain_audit_logs');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Walk the chain and report the first broken link
+CREATE OR REPLACE FUNCTION sp_verify_audit_log_chain(from_seq_in BIGINT DEFAULT NULL, max_rows_in INTEGER DEFAULT 10000)
+RETURNS JSONB AS $$
+DECLARE
+    link RECORD;
+    expected_prev TEXT;
+    checked INTEGER := 0;
+    first_seq BIGINT;
+    last_seq BIGINT;
+BEGIN
+    IF NOT audit_log_reader() THEN
+        RAISE EXCEPTION 'Permission denied: access_audit_logs required';
+    END IF;
+
+    IF from_seq_in IS NOT NULL THEN
+        SELECT entry_hash INTO expected_prev FROM audit_logs WHERE seq < from_seq_in ORDER BY seq DESC LIMIT 1;
+    END IF;
+    expected_prev := COALESCE(expected_prev, repeat('0', 64));
+
+    FOR link IN
+        SELECT * FROM audit_logs
+        WHERE from_seq_in IS NULL OR seq >= from_seq_in
+        ORDER BY seq
+        LIMIT max_rows_in
+    LOOP
+        first_seq := COALESCE(first_seq, link.seq);
+        IF link.prev_hash <> expected_prev THEN
+            RETURN jsonb_build_object('valid', false, 'checked', checked, 'broken_seq', link.seq,
+                'reason', 'previous hash does not match the preceding entry');
+        END IF;
+        IF link.entry IS NOT NULL THEN
+            IF link.entry_hash <> audit_log_hash(link.prev_hash, link.seq, link.recorded_at, link.entry) THEN
+                RETURN jsonb_build_object('valid', false, 'checked', checked, 'broken_seq', link.seq,
+                    'reason', 'entry does not match its hash');
+            END IF;
+            IF link.occurred_at <> (link.entry->>'timestamp')::TIMESTAMPTZ OR link.entry_id <> link.entry->>'id' THEN
+                RETURN jsonb_build_object('valid', false, 'checked', checked, 'broken_seq', link.seq,
+                    'reason', 'indexed columns do not match the entry');
+            END IF;
+        END IF;
+        expected_prev := link.entry_hash;
+        last_seq := link.seq;
+        checked := checked + 1;
+    END LOOP;
+
+    RETURN jsonb_build_object('valid', true, 'checked', checked, 'first_seq', first_seq, 'last_seq', last_seq);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Hide entries older than the cutoff from the default view
+CREATE OR REPLACE FUNCTION sp_archive_audit_logs(older_than_in TIMESTAMPTZ)
+RETURNS JSONB AS $$
+DECLARE
+    archived_count INTEGER;
+BEGIN
+    IF NOT audit_log_maintainer() THEN
+        RAISE EXCEPTION 'Permission denied: maintain_audit_logs required';
+    END IF;
+
+    UPDATE audit_logs SET archived_at = NOW()
+    WHERE occurred_at < older_than_in AND archived_at IS NULL;
+    GET DIAGNOSTICS archived_count = ROW_COUNT;
+
+    RETURN jsonb_build_object('success', true, 'archived', archived_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Redact entries older than the cutoff whose retention has expired. Entries
+-- still within the retention of their classification are never touched.
+CREATE OR REPLACE FUNCTION sp_purge_expired_audit_logs(older_than_in TIMESTAMPTZ)
+RETURNS JSONB AS $$
+DECLARE
+    purged_count INTEGER;
+BEGIN
+    IF NOT audit_log_maintainer() THEN
+        RAISE EXCEPTION 'Permission denied: maintain_audit_logs required';
+    END IF;
+
+    UPDATE audit_logs SET entry = NULL, purged_at = NOW()
+    WHERE occurred_at < older_than_in AND retain_until <= NOW() AND purged_at IS NULL;
+    GET DIAGNOSTICS purged_count = ROW_COUNT;
+
+    RETURN jsonb_build_object('success', true, 'purged', purged_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION sp_append_audit_log(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION sp_append_audit_log(JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION sp_query_audit_logs(JSONB) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION sp_verify_audit_log_chain(BIGINT, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION sp_archive_audit_logs(TIMESTAMPTZ) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION sp_purge_expired_audit_logs(TIMESTAMPTZ) TO authenticated, service_role;
+
+INSERT INTO permissions (name, description) VALUES
+    ('maintain_audit_logs', 'Archiver et anonymiser le journal d''audit')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+    ('admin', 'maintain_audit_logs')
+ON CONFLICT DO NOTHING;
+
+-- Row-Level Security: readers need access_audit_logs, writes go through the
+-- functions above
+ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_retention_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY audit_logs_read ON audit_logs
+    FOR SELECT TO authenticated
+    USING (has_permission(auth.uid(), 'access_audit_logs'));
+
+CREATE POLICY audit_retention_policies_read ON audit_retention_policies
+    FOR SELECT TO authenticated USING (true);
@@ -0,0 +1,100 @@
+-- =====================================================
+-- Shared rate limiting for SecurityMiddleware
+-- =====================================================
+-- SecurityMiddleware counted requests in the memory of each edge function
+-- instance: counters were reset on every cold start and not shared between
+-- instances, so the SecurityConfig.rateLimiting limits (and the failed-attempt
+-- lockouts) were not really enforced. Hits are now recorded here and counted
+-- over a sliding window: a key is allowed again as soon as enough of its hits
+-- are older than the window, instead of at the end of a fixed period.
+--
+-- Hits of one key are serialized with an advisory lock, so concurrent
+-- requests from several instances each see a distinct count.
+
+CREATE TABLE IF NOT EXISTS rate_limit_hits (
+    id BIGSERIAL PRIMARY KEY,
+    key TEXT NOT NULL,
+    hit_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key ON rate_limit_hits(key, expires_at);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_expires_at ON rate_limit_hits(expires_at);
+
+-- Hits of the key still inside their window; reset_time (epoch ms) is when
+-- the oldest of them leaves the window
+CREATE OR REPLACE FUNCTION sp_rate_limit_status(key_in TEXT)
+RETURNS JSONB AS $$
+    SELECT CASE WHEN COUNT(*) = 0 THEN NULL ELSE jsonb_build_object(
+        'count', COUNT(*),
+        'reset_time', (EXTRACT(EPOCH FROM MIN(expires_at)) * 1000)::BIGINT
+    ) END
+    FROM rate_limit_hits
+    WHERE key = key_in AND expires_at > clock_timestamp();
+$$ LANGUAGE sql;
+
+-- Record a hit and return the count over the sliding window, this hit
+-- included. Once the window holds limit_in hits, further hits are refused:
+-- they are counted in the answer but not stored, so a flooding client cannot
+-- create rows nor push back the moment its oldest hit leaves the window.
+CREATE OR REPLACE FUNCTION sp_rate_limit_hit(key_in TEXT, window_ms_in INTEGER, limit_in INTEGER DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+    now_ts TIMESTAMPTZ := clock_timestamp();
+    hits INTEGER;
+    oldest_expiry TIMESTAMPTZ;
+BEGIN
+    IF COALESCE(key_in, '') = '' THEN
+        RAISE EXCEPTION 'Invalid rate limit key';
+    END IF;
+    IF window_ms_in IS NULL OR window_ms_in <= 0 THEN
+        RAISE EXCEPTION 'Invalid rate limit window: %', window_ms_in;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('rate_limit:' || key_in));
+
+    DELETE FROM rate_limit_hits WHERE key = key_in AND expires_at <= now_ts;
+
+    SELECT COUNT(*), MIN(expires_at) INTO hits, oldest_expiry
+    FROM rate_limit_hits WHERE key = key_in;
+
+    IF limit_in IS NULL OR hits < limit_in THEN
+        INSERT INTO rate_limit_hits (key, hit_at, expires_at)
+        VALUES (key_in, now_ts, now_ts + make_interval(secs => window_ms_in / 1000.0));
+        oldest_expiry := COALESCE(oldest_expiry, now_ts + make_interval(secs => window_ms_in / 1000.0));
+    END IF;
+
+    -- Keys that are never hit again are pruned a few rows at a time
+    DELETE FROM rate_limit_hits
+    WHERE id IN (SELECT id FROM rate_limit_hits WHERE expires_at <= now_ts LIMIT 100);
+
+    RETURN jsonb_build_object(
+        'count', hits + 1,
+        'reset_time', (EXTRACT(EPOCH FROM oldest_expiry) * 1000)::BIGINT
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Forget the hits of a key, e.g. failed attempts after a successful check
+CREATE OR REPLACE FUNCTION sp_rate_limit_reset(key_in TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    removed INTEGER;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('rate_limit:' || key_in));
+    DELETE FROM rate_limit_hits WHERE key = key_in;
+    GET DIAGNOSTICS removed = ROW_COUNT;
+    RETURN jsonb_build_object('success', true, 'removed', removed);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION sp_rate_limit_status(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION sp_rate_limit_hit(TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION sp_rate_limit_reset(TEXT) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION sp_rate_limit_status(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sp_rate_limit_hit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sp_rate_limit_reset(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Row-Level Security: only the edge functions (service role) read and write
+ALTER TABLE rate_limit_hits ENABLE ROW LEVEL SECURITY;
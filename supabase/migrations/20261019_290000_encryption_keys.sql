@@ -0,0 +1,114 @@
+-- =====================================================
+-- Persistent encryption keys and encrypted refund fields
+-- =====================================================
+-- DataEncryptionService kept its keys in the memory of each instance, so
+-- anything it encrypted could not be decrypted after a restart. Data keys are
+-- now stored here, wrapped (AES-256-GCM) by a master key that only exists in
+-- the ENCRYPTION_MASTER_KEY secret of the edge functions: the database alone
+-- never holds a usable key.
+--
+-- Refund IBANs and emails are stored encrypted under the active data key.
+-- encryption_key_id tells which key a refund is encrypted with, so a key
+-- rotation finds the refunds to re-encrypt; refunds recorded before this
+-- migration keep a NULL key id until the first rotation encrypts them.
+
+CREATE TABLE IF NOT EXISTS encryption_keys (
+    id TEXT PRIMARY KEY,
+    purpose TEXT NOT NULL CHECK (purpose IN ('data', 'key', 'backup')),
+    algorithm TEXT NOT NULL,
+    wrapped_key TEXT NOT NULL,
+    wrap_iv TEXT NOT NULL,
+    wrap_tag TEXT NOT NULL,
+    master_key_id TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    retired_at TIMESTAMPTZ
+);
+
+-- One active key per purpose
+CREATE UNIQUE INDEX IF NOT EXISTS idx_encryption_keys_active ON encryption_keys(purpose) WHERE is_active;
+
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS encryption_key_id TEXT REFERENCES encryption_keys(id);
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS encryption_metadata JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_refunds_encryption_key_id ON refunds(encryption_key_id);
+
+-- Store a new wrapped key and make it the active key of its purpose; the
+-- previous active key is retired but kept to decrypt what it encrypted
+CREATE OR REPLACE FUNCTION sp_encryption_key_store(
+    id_in TEXT,
+    purpose_in TEXT,
+    algorithm_in TEXT,
+    wrapped_key_in TEXT,
+    wrap_iv_in TEXT,
+    wrap_tag_in TEXT,
+    master_key_id_in TEXT,
+    expires_at_in TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    stored encryption_keys%ROWTYPE;
+BEGIN
+    IF purpose_in NOT IN ('data', 'key', 'backup') THEN
+        RAISE EXCEPTION 'Invalid key purpose: %', purpose_in;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('encryption_key:' || purpose_in));
+
+    UPDATE encryption_keys
+    SET is_active = false, retired_at = NOW()
+    WHERE purpose = purpose_in AND is_active;
+
+    INSERT INTO encryption_keys (id, purpose, algorithm, wrapped_key, wrap_iv, wrap_tag, master_key_id, expires_at)
+    VALUES (id_in, purpose_in, algorithm_in, wrapped_key_in, wrap_iv_in, wrap_tag_in, master_key_id_in, expires_at_in)
+    RETURNING * INTO stored;
+
+    RETURN to_jsonb(stored);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sp_encryption_key_get(id_in TEXT)
+RETURNS JSONB AS $$
+    SELECT to_jsonb(k) FROM encryption_keys k WHERE k.id = id_in;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION sp_encryption_key_active(purpose_in TEXT)
+RETURNS JSONB AS $$
+    SELECT to_jsonb(k) FROM encryption_keys k WHERE k.purpose = purpose_in AND k.is_active;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION sp_encryption_key_deactivate(id_in TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    updated INTEGER;
+BEGIN
+    UPDATE encryption_keys
+    SET is_active = false, retired_at = COALESCE(retired_at, NOW())
+    WHERE id = id_in;
+    GET DIAGNOSTICS updated = ROW_COUNT;
+    RETURN jsonb_build_object('success', updated > 0);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION sp_encryption_key_store(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ) TO service_role;
+GRANT EXECUTE ON FUNCTION sp_encryption_key_get(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION sp_encryption_key_active(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION sp_encryption_key_deactivate(TEXT) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION sp_encryption_key_store(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sp_encryption_key_get(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sp_encryption_key_active(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sp_encryption_key_deactivate(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Rotating the keys re-encrypts every refund, restricted to admins
+INSERT INTO permissions (name, description) VALUES
+    ('manage_encryption_keys', 'Renouveler les clés de chiffrement')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission) VALUES
+    ('admin', 'manage_encryption_keys')
+ON CONFLICT DO NOTHING;
+
+-- Row-Level Security: only the edge functions (service role) read and write
+ALTER TABLE encryption_keys ENABLE ROW LEVEL SECURITY;